@@ -3,23 +3,29 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import React from 'react';
 
 // Create mock stores
-const { mockActiveAgentsStore, mockAgentStatusStore, mockActiveAgentCountStore, mockAgentStatsStore } = vi.hoisted(
-  () => {
-    const { atom } = require('nanostores');
-    return {
-      mockActiveAgentsStore: atom([]),
-      mockAgentStatusStore: atom({}),
-      mockActiveAgentCountStore: atom(0),
-      mockAgentStatsStore: atom({
-        totalAgents: 8,
-        busyAgents: 0,
-        completedTasks: 0,
-        failedTasks: 0,
-        pendingTasks: 0,
-      }),
-    };
-  },
-);
+const {
+  mockActiveAgentsStore,
+  mockAgentStatusStore,
+  mockActiveAgentCountStore,
+  mockAgentStatsStore,
+  mockCustomAgentsStore,
+} = vi.hoisted(() => {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { atom } = require('nanostores');
+  return {
+    mockActiveAgentsStore: atom([]),
+    mockAgentStatusStore: atom({}),
+    mockActiveAgentCountStore: atom(0),
+    mockAgentStatsStore: atom({
+      totalAgents: 8,
+      busyAgents: 0,
+      completedTasks: 0,
+      failedTasks: 0,
+      pendingTasks: 0,
+    }),
+    mockCustomAgentsStore: atom([]),
+  };
+});
 
 // Mock stores
 vi.mock('~/lib/stores/agents', () => ({
@@ -27,6 +33,7 @@ vi.mock('~/lib/stores/agents', () => ({
   agentStatusStore: mockAgentStatusStore,
   activeAgentCountStore: mockActiveAgentCountStore,
   agentStatsStore: mockAgentStatsStore,
+  customAgentsStore: mockCustomAgentsStore,
 }));
 
 // Mock framer-motion
@@ -322,5 +329,14 @@ describe('AgentStatusBadge helper functions', () => {
       render(<AgentLoadingIndicator agent="coder" />);
       expect(screen.getByText(/Coder/)).toBeInTheDocument();
     });
+
+    it('should use the display name of custom agents', () => {
+      mockCustomAgentsStore.set([
+        { name: 'custom:i18n', displayName: 'Traducteur', description: 'Traduit', icon: 'i-ph:translate' },
+      ]);
+
+      render(<AgentLoadingIndicator agent="custom:i18n" />);
+      expect(screen.getByText(/Traducteur/)).toBeInTheDocument();
+    });
   });
 });
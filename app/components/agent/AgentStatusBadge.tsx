@@ -11,7 +11,14 @@ import { memo, useCallback } from 'react';
 import { useStore } from '@nanostores/react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { classNames } from '~/utils/classNames';
-import { activeAgentsStore, agentStatusStore, activeAgentCountStore, agentStatsStore } from '~/lib/stores/agents';
+import {
+  activeAgentsStore,
+  agentStatusStore,
+  activeAgentCountStore,
+  agentStatsStore,
+  customAgentsStore,
+  type CustomAgentInfo,
+} from '~/lib/stores/agents';
 import type { AgentType, AgentStatus } from '~/lib/agents/types';
 
 /*
@@ -90,6 +97,13 @@ function getStatusLabel(status: AgentStatus): string {
   }
 }
 
+/**
+ * Agent personnalisé du projet (.bavini/agents.json)
+ */
+function getCustomAgent(agent: AgentType): CustomAgentInfo | undefined {
+  return customAgentsStore.get().find((custom) => custom.name === agent);
+}
+
 /**
  * Obtient l'icône de l'agent
  */
@@ -105,7 +119,7 @@ function getAgentIcon(agent: AgentType): string {
     fixer: 'i-ph:wrench',
     architect: 'i-ph:blueprint',
   };
-  return icons[agent] || 'i-ph:robot';
+  return icons[agent] || getCustomAgent(agent)?.icon || 'i-ph:robot';
 }
 
 /**
@@ -123,7 +137,7 @@ function getAgentDisplayName(agent: AgentType): string {
     fixer: 'Fixer',
     architect: 'Architect',
   };
-  return names[agent] || agent;
+  return names[agent] || getCustomAgent(agent)?.displayName || agent;
 }
 
 /*
@@ -197,6 +197,16 @@ const TimelineActionList = memo(({ actions }: TimelineActionListProps) => {
                     {action.filePath}
                   </code>
                 </div>
+              ) : type === 'patch' ? (
+                <div className="text-sm text-bolt-elements-textSecondary">
+                  Modifier{' '}
+                  <code className="bg-bolt-elements-background-depth-1 text-bolt-elements-textPrimary px-1.5 py-0.5 rounded text-xs font-mono">
+                    {action.filePath}
+                  </code>
+                  {action.status === 'failed' && (
+                    <div className="text-xs text-bolt-elements-icon-error mt-1">{action.error}</div>
+                  )}
+                </div>
               ) : type === 'shell' ? (
                 <div>
                   <span className="text-sm text-bolt-elements-textSecondary">Exécuter la commande</span>
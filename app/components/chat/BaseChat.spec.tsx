@@ -10,6 +10,7 @@ const { mockChatStore, mockWorkbenchStore } = vi.hoisted(() => {
     mockChatStore: atom({ mode: 'agent', controlMode: 'auto' }),
     mockWorkbenchStore: {
       showWorkbench: atom(false),
+      files: atom({}),
     },
   };
 });
@@ -293,6 +294,31 @@ describe('BaseChat', () => {
     });
   });
 
+  describe('skill suggestions', () => {
+    it('should suggest skills while typing a slash command', () => {
+      render(<BaseChat input="/front" setInput={vi.fn()} />);
+
+      expect(screen.getByRole('option', { name: /\/frontend-design/ })).toBeInTheDocument();
+    });
+
+    it('should complete the selected skill instead of sending', () => {
+      const sendMessage = vi.fn();
+      const setInput = vi.fn();
+      render(<BaseChat sendMessage={sendMessage} input="/front" setInput={setInput} />);
+
+      fireEvent.keyDown(screen.getByRole('textbox'), { key: 'Enter' });
+
+      expect(setInput).toHaveBeenCalledWith('/frontend-design ');
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should not suggest skills once the command has arguments', () => {
+      render(<BaseChat input="/frontend-design landing page" setInput={vi.fn()} />);
+
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    });
+  });
+
   describe('send button interaction', () => {
     it('should pass hasContent based on input', () => {
       render(<BaseChat input="test" />);
@@ -2,7 +2,7 @@
 
 import type { Message } from '~/types/message';
 import { useStore } from '@nanostores/react';
-import React, { type RefCallback, useRef, useCallback, useState, useEffect, memo } from 'react';
+import React, { type RefCallback, useRef, useCallback, useState, useEffect, useMemo, memo } from 'react';
 import { Panel, PanelGroup, PanelResizeHandle, type ImperativePanelGroupHandle } from 'react-resizable-panels';
 import { ClientOnly } from 'remix-utils/client-only';
 import { LazyColorBendsWrapper as ColorBends } from '~/components/ui/ColorBends.lazy';
@@ -11,12 +11,14 @@ import { IconButton } from '~/components/ui/IconButton';
 import { Workbench } from '~/components/workbench/Workbench.client';
 import { classNames } from '~/utils/classNames';
 import { chatStore, setChatMode } from '~/lib/stores/chat';
+import { userInvocableSkillsStore, type SkillSuggestion } from '~/lib/stores/skills';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { preloadOnTypingStart, preloadOnFirstMessage, preloadOnWorkbenchInteraction } from '~/lib/performance';
 import { AnimatedPlaceholder } from './AnimatedPlaceholder';
 import { Messages } from './Messages.client';
 import { MultiAgentToggle } from './MultiAgentToggle';
 import { SendButton } from './SendButton.client';
+import { SkillSuggestions } from './SkillSuggestions';
 import { TemplatePills } from './TemplatePills';
 
 import styles from './BaseChat.module.scss';
@@ -88,6 +90,9 @@ interface BaseChatProps {
   handleStop?: () => void;
   sendMessage?: (event: React.UIEvent, messageInput?: string) => void;
   handleInputChange?: (event: React.ChangeEvent<HTMLTextAreaElement>) => void;
+
+  /** Remplace le message en cours (ex: choix d'un skill `/nom-du-skill`) */
+  setInput?: (input: string) => void;
   enhancePrompt?: () => void;
   onFileSelect?: () => void;
   onFileRemove?: (index: number) => void;
@@ -170,6 +175,7 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       selectedFiles = [],
       sendMessage,
       handleInputChange,
+      setInput,
       enhancePrompt,
       handleStop,
       onFileSelect,
@@ -256,15 +262,74 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       onFileRemove?.(index);
     }, [onFileRemove]);
 
-    const handleTextareaKeyDown = useCallback((event: React.KeyboardEvent<HTMLTextAreaElement>) => {
-      if (event.key === 'Enter') {
-        if (event.shiftKey) {
-          return;
-        }
-        event.preventDefault();
-        handleSendMessage(event);
+    // Skills proposés tant que le message est `/début-du-nom`
+    const invocableSkills = useStore(userInvocableSkillsStore);
+    const [skillIndex, setSkillIndex] = useState(0);
+    const [skillsDismissed, setSkillsDismissed] = useState(false);
+    const skillQuery = /^\/([\w-]*)$/.exec(input)?.[1];
+
+    const skillSuggestions = useMemo(() => {
+      if (skillQuery === undefined || skillsDismissed || !setInput) {
+        return [];
       }
-    }, [handleSendMessage]);
+
+      return invocableSkills.filter((skill) => skill.name.toLowerCase().startsWith(skillQuery.toLowerCase()));
+    }, [invocableSkills, skillQuery, skillsDismissed, setInput]);
+
+    useEffect(() => {
+      setSkillIndex(0);
+
+      if (skillQuery === undefined) {
+        setSkillsDismissed(false);
+      }
+    }, [skillQuery]);
+
+    const handleSkillSelect = useCallback(
+      (skill: SkillSuggestion) => {
+        setInput?.(`/${skill.name} `);
+        textareaRef?.current?.focus();
+      },
+      [setInput, textareaRef],
+    );
+
+    const handleTextareaKeyDown = useCallback(
+      (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (skillSuggestions.length > 0) {
+          if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+            event.preventDefault();
+
+            const offset = event.key === 'ArrowDown' ? 1 : -1;
+            setSkillIndex((index) => (index + offset + skillSuggestions.length) % skillSuggestions.length);
+
+            return;
+          }
+
+          if (event.key === 'Tab' || (event.key === 'Enter' && !event.shiftKey)) {
+            event.preventDefault();
+            handleSkillSelect(skillSuggestions[Math.min(skillIndex, skillSuggestions.length - 1)]);
+
+            return;
+          }
+
+          if (event.key === 'Escape') {
+            event.preventDefault();
+            setSkillsDismissed(true);
+
+            return;
+          }
+        }
+
+        if (event.key === 'Enter') {
+          if (event.shiftKey) {
+            return;
+          }
+
+          event.preventDefault();
+          handleSendMessage(event);
+        }
+      },
+      [handleSendMessage, skillSuggestions, skillIndex, handleSkillSelect],
+    );
 
     const handleAttachOrTemplatesClick = useCallback(() => {
       if (effectiveChatStarted) {
@@ -442,6 +507,13 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                       ))}
                     </div>
                   )}
+                  {skillSuggestions.length > 0 && (
+                    <SkillSuggestions
+                      skills={skillSuggestions}
+                      selectedIndex={skillIndex}
+                      onSelect={handleSkillSelect}
+                    />
+                  )}
                   <div className="relative">
                     <AnimatedPlaceholder chatStarted={chatStarted} textareaRef={textareaRef} />
                     <textarea
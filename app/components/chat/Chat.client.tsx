@@ -30,7 +30,7 @@ import { workbenchStore } from '~/lib/stores/workbench';
 // DISABLED: Auth system temporarily disabled for development
 // import { canMakeRequest, incrementRequestCount, remainingRequestsStore } from '~/lib/stores/auth';
 // import { isSupabaseConfigured } from '~/lib/supabase/client';
-import { fileModificationsToHTML } from '~/utils/diff';
+import { actionFailuresToHTML, fileModificationsToHTML } from '~/utils/diff';
 import {
   createUserFriendlyError,
   formatErrorForToast,
@@ -43,6 +43,9 @@ import { EditMessageModal } from './EditMessageModal';
 import { multiAgentEnabledStore } from './MultiAgentToggle';
 import { sharedMessageParser, clearProcessedTracking } from '~/lib/hooks/useMessageParser';
 import { updateAgentStatus } from '~/lib/stores/agents';
+import { getLLMRequestConfig } from '~/lib/stores/llm-settings';
+import { projectSkillFilesStore } from '~/lib/stores/skills';
+import { checkSendBudgets, getAgentUsageBudget, recordStreamUsage } from '~/lib/stores/usage';
 
 const toastAnimation = cssTransition({
   enter: 'animated fadeInRight',
@@ -483,6 +486,14 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory, messagesLo
         return;
       }
 
+      // Budgets configurés dans Paramètres > Consommation
+      const exceededBudget = checkSendBudgets(multiAgentEnabled);
+
+      if (exceededBudget) {
+        toast.error(exceededBudget.message);
+        return;
+      }
+
       // DISABLED: Auth check temporarily disabled for development
       // if (isSupabaseConfigured() && !canMakeRequest()) {
       //   // Show auth modal instead of toast
@@ -493,6 +504,7 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory, messagesLo
       await workbenchStore.saveAllFiles();
 
       const fileModifications = workbenchStore.getFileModifications();
+      const actionFailures = actionFailuresToHTML(workbenchStore.getActionFailures());
 
       chatStore.setKey('aborted', false);
       runAnimation();
@@ -512,10 +524,15 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory, messagesLo
         }
       }
 
+      // if patches failed, tell the model which ones so it can send them again
+      if (actionFailures !== undefined) {
+        messageContent = `${actionFailures}\n\n${messageContent}`;
+      }
+
       // if there are file modifications, prefix them
       if (fileModifications !== undefined) {
         const diff = fileModificationsToHTML(fileModifications);
-        messageContent = `${diff}\n\n${_input}`;
+        messageContent = `${diff}\n\n${messageContent}`;
         workbenchStore.resetAllFileModifications();
       }
 
@@ -609,6 +626,9 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory, messagesLo
             continuationContext,
             controlMode: 'strict',
             multiAgent: multiAgentEnabled,
+            llm: getLLMRequestConfig(),
+            skills: projectSkillFilesStore.get(),
+            usageBudget: multiAgentEnabled ? getAgentUsageBudget() : undefined,
           }),
           signal: abortControllerRef.current.signal,
         });
@@ -703,6 +723,9 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory, messagesLo
                     } else {
                       logger.warn('Invalid agent_status: missing agent or status', parsed);
                     }
+                  } else if (parsed.type === 'usage') {
+                    // Tokens consommés par un appel, comptabilisés au nom de l'agent
+                    recordStreamUsage(line);
                   } else if (parsed.type === 'error') {
                     logger.error('Agent error:', parsed.error);
                     const friendlyError = createUserFriendlyError({ code: 'AGENT_001', message: parsed.error });
@@ -755,6 +778,9 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory, messagesLo
                       // JSON parse failed - likely malformed, skip this chunk
                       logger.warn('Failed to parse AI SDK line:', line.substring(0, 100));
                     }
+                  } else if (type === 'd') {
+                    // Tokens consommés par l'appel, envoyés à la fin de chaque réponse
+                    recordStreamUsage(data);
                   }
                 }
               }
@@ -801,6 +827,8 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory, messagesLo
                   } catch {
                     logger.warn('Incomplete AI SDK line at stream end:', lineBuffer.substring(0, 100));
                   }
+                } else if (type === 'd') {
+                  recordStreamUsage(data);
                 }
               }
             }
@@ -1015,6 +1043,7 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory, messagesLo
         messageRef={messageRef}
         scrollRef={scrollRef}
         handleInputChange={handleInputChange}
+        setInput={setInput}
         handleStop={abort}
         onFileSelect={handleFileSelect}
         onFileRemove={handleFileRemove}
@@ -0,0 +1,50 @@
+/**
+ * SkillSuggestions - Liste des skills proposés quand le message commence par `/`.
+ *
+ * Navigation au clavier gérée par BaseChat (flèches, Tab/Entrée, Échap).
+ */
+
+import { memo } from 'react';
+import { classNames } from '~/utils/classNames';
+import type { SkillSuggestion } from '~/lib/stores/skills';
+
+interface SkillSuggestionsProps {
+  skills: SkillSuggestion[];
+  selectedIndex: number;
+  onSelect: (skill: SkillSuggestion) => void;
+}
+
+export const SkillSuggestions = memo(({ skills, selectedIndex, onSelect }: SkillSuggestionsProps) => {
+  return (
+    <ul
+      role="listbox"
+      aria-label="Skills disponibles"
+      className="max-h-56 overflow-y-auto border-b border-bolt-elements-borderColor py-1"
+    >
+      {skills.map((skill, index) => (
+        <li
+          key={skill.name}
+          role="option"
+          aria-selected={index === selectedIndex}
+          className={classNames(
+            'flex items-baseline gap-3 px-4 py-1.5 cursor-pointer text-sm',
+            index === selectedIndex
+              ? 'bg-bolt-elements-background-depth-3 text-bolt-elements-textPrimary'
+              : 'text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3',
+          )}
+          onMouseDown={(event) => {
+            // garder le focus dans le textarea
+            event.preventDefault();
+            onSelect(skill);
+          }}
+        >
+          <span className="font-mono shrink-0">/{skill.name}</span>
+          <span className="truncate text-xs text-bolt-elements-textTertiary">{skill.description}</span>
+          {skill.source === 'project' && (
+            <span className="ml-auto shrink-0 text-[10px] uppercase text-bolt-elements-textTertiary">projet</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+});
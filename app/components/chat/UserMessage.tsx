@@ -1,5 +1,5 @@
 import { memo, useState, useRef, useEffect, useCallback } from 'react';
-import { modificationsRegex } from '~/utils/diff';
+import { actionFailuresRegex, modificationsRegex } from '~/utils/diff';
 import { Markdown } from './Markdown';
 
 // content part types for multimodal messages
@@ -226,5 +226,5 @@ export const UserMessage = memo(({ content, messageIndex, onSaveEdit, onDelete }
 UserMessage.displayName = 'UserMessage';
 
 function sanitizeUserMessage(content: string) {
-  return content.replace(modificationsRegex, '').trim();
+  return content.replace(modificationsRegex, '').replace(actionFailuresRegex, '').trim();
 }
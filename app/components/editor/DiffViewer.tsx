@@ -15,6 +15,9 @@ export interface DiffViewerProps {
   fileName?: string;
   className?: string;
 
+  /** Titre de l'en-tête, à la place du nom de fichier */
+  title?: string;
+
   /** Forcer l'utilisation du worker */
   forceWorker?: boolean;
 }
@@ -24,7 +27,7 @@ export interface DiffViewerProps {
  * comparing original content with modified content.
  */
 export const DiffViewer = memo(
-  ({ originalContent, modifiedContent, fileName, className, forceWorker = false }: DiffViewerProps) => {
+  ({ originalContent, modifiedContent, fileName, className, title, forceWorker = false }: DiffViewerProps) => {
     // Worker pour les gros diffs
     const { computeDiff: workerComputeDiff, isReady: workerReady } = useDiffWorker();
     const [workerResult, setWorkerResult] = useState<DiffResult | null>(null);
@@ -90,7 +93,7 @@ export const DiffViewer = memo(
           <div className="flex items-center gap-2">
             <div className="i-ph:git-diff text-lg text-bolt-elements-textSecondary" />
             <span className="text-sm font-medium text-bolt-elements-textPrimary">
-              {fileName ? `Changements: ${fileName}` : 'Comparaison des changements'}
+              {title ?? (fileName ? `Changements: ${fileName}` : 'Comparaison des changements')}
             </span>
           </div>
           {hasChanges ? (
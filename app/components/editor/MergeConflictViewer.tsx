@@ -0,0 +1,149 @@
+'use client';
+
+import { memo, useMemo } from 'react';
+import {
+  getConflictVersions,
+  parseConflicts,
+  resolveAllConflicts,
+  resolveConflict,
+  type ConflictBlock,
+  type ConflictResolution,
+} from '~/lib/git/conflicts';
+import { classNames } from '~/utils/classNames';
+import { DiffViewer } from './DiffViewer';
+
+export interface MergeConflictViewerProps {
+  content: string;
+  fileName?: string;
+  className?: string;
+
+  /** Contenu après la résolution d'un ou de tous les conflits */
+  onChange: (content: string) => void;
+}
+
+/**
+ * Vue de fusion à trois voies d'un fichier contenant des marqueurs de conflit:
+ * les versions actuelle et entrante comparées à l'ancêtre commun (ou l'une à
+ * l'autre sans ancêtre), puis chaque conflit à résoudre.
+ */
+export const MergeConflictViewer = memo(({ content, fileName, className, onChange }: MergeConflictViewerProps) => {
+  const conflicts = useMemo(() => parseConflicts(content), [content]);
+  const versions = useMemo(() => getConflictVersions(content), [content]);
+
+  const oursLabel = conflicts[0]?.oursLabel || 'HEAD';
+  const theirsLabel = conflicts[0]?.theirsLabel || 'entrant';
+
+  return (
+    <div className={classNames('flex flex-col h-full bg-bolt-elements-background-depth-1', className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 bg-bolt-elements-background-depth-2 border-b border-bolt-elements-borderColor">
+        <div className="flex items-center gap-2">
+          <div className="i-ph:git-merge text-lg text-bolt-elements-textSecondary" />
+          <span className="text-sm font-medium text-bolt-elements-textPrimary">
+            {fileName ? `Fusion: ${fileName}` : 'Fusion à trois voies'}
+          </span>
+          <span className="text-xs text-orange-500">
+            {conflicts.length} conflit{conflicts.length > 1 ? 's' : ''}
+          </span>
+        </div>
+        <div className="flex items-center gap-2 text-xs">
+          <ResolveButton label="Tout garder (actuel)" onClick={() => onChange(resolveAllConflicts(content, 'ours'))} />
+          <ResolveButton
+            label="Tout garder (entrant)"
+            onClick={() => onChange(resolveAllConflicts(content, 'theirs'))}
+          />
+        </div>
+      </div>
+
+      {/* Versions */}
+      <div className="grid grid-cols-2 h-1/2 min-h-0 border-b border-bolt-elements-borderColor">
+        <DiffViewer
+          className="border-r border-bolt-elements-borderColor"
+          title={`Actuel (${oursLabel})${versions.base === null ? ` comparé à ${theirsLabel}` : ''}`}
+          originalContent={versions.base ?? versions.theirs}
+          modifiedContent={versions.ours}
+        />
+        <DiffViewer
+          title={`Entrant (${theirsLabel})${versions.base === null ? ` comparé à ${oursLabel}` : ''}`}
+          originalContent={versions.base ?? versions.ours}
+          modifiedContent={versions.theirs}
+        />
+      </div>
+
+      {/* Conflicts */}
+      <div className="flex-1 overflow-auto p-3 flex flex-col gap-3">
+        {conflicts.map((block, index) => (
+          <ConflictCard
+            key={`${block.line}-${index}`}
+            block={block}
+            index={index}
+            onResolve={(resolution) => onChange(resolveConflict(content, block, resolution))}
+          />
+        ))}
+      </div>
+    </div>
+  );
+});
+
+MergeConflictViewer.displayName = 'MergeConflictViewer';
+
+interface ConflictCardProps {
+  block: ConflictBlock;
+  index: number;
+  onResolve: (resolution: ConflictResolution) => void;
+}
+
+function ConflictCard({ block, index, onResolve }: ConflictCardProps) {
+  return (
+    <div className="rounded-lg border border-bolt-elements-borderColor overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-bolt-elements-background-depth-2 text-xs">
+        <span className="text-bolt-elements-textSecondary">
+          Conflit {index + 1} · ligne {block.line}
+        </span>
+        <div className="flex items-center gap-2">
+          <ResolveButton label="Garder l'actuel" onClick={() => onResolve('ours')} />
+          <ResolveButton label="Garder l'entrant" onClick={() => onResolve('theirs')} />
+          <ResolveButton label="Garder les deux" onClick={() => onResolve('both')} />
+        </div>
+      </div>
+      <div className={classNames('grid font-mono text-sm', block.base === null ? 'grid-cols-2' : 'grid-cols-3')}>
+        <ConflictSide label={`Actuel (${block.oursLabel || 'HEAD'})`} text={block.ours} className="bg-green-500/10" />
+        {block.base !== null && <ConflictSide label="Ancêtre commun" text={block.base} />}
+        <ConflictSide label={`Entrant (${block.theirsLabel})`} text={block.theirs} className="bg-sky-500/10" />
+      </div>
+    </div>
+  );
+}
+
+interface ConflictSideProps {
+  label: string;
+  text: string;
+  className?: string;
+}
+
+function ConflictSide({ label, text, className }: ConflictSideProps) {
+  return (
+    <div className={classNames('min-w-0 border-r last:border-r-0 border-bolt-elements-borderColor', className)}>
+      <div className="px-3 py-1 text-xs font-sans text-bolt-elements-textTertiary">{label}</div>
+      <pre className="px-3 pb-2 overflow-x-auto whitespace-pre text-bolt-elements-textPrimary">
+        {text || <span className="italic text-bolt-elements-textTertiary">(vide)</span>}
+      </pre>
+    </div>
+  );
+}
+
+interface ResolveButtonProps {
+  label: string;
+  onClick: () => void;
+}
+
+function ResolveButton({ label, onClick }: ResolveButtonProps) {
+  return (
+    <button
+      className="px-2 py-1 rounded-md bg-bolt-elements-background-depth-3 text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors"
+      onClick={onClick}
+    >
+      {label}
+    </button>
+  );
+}
@@ -4,7 +4,15 @@ import { acceptCompletion, autocompletion, closeBrackets } from '@codemirror/aut
 import { defaultKeymap, history, historyKeymap } from '@codemirror/commands';
 import { bracketMatching, foldGutter, indentOnInput, indentUnit } from '@codemirror/language';
 import { searchKeymap } from '@codemirror/search';
-import { Compartment, EditorSelection, EditorState, StateEffect, StateField, type Extension } from '@codemirror/state';
+import {
+  Compartment,
+  EditorSelection,
+  EditorState,
+  StateEffect,
+  StateField,
+  type Extension,
+  type Text,
+} from '@codemirror/state';
 import {
   drawSelection,
   dropCursor,
@@ -24,9 +32,12 @@ import { classNames } from '~/utils/classNames';
 import { debounce } from '~/utils/debounce';
 import { createScopedLogger, renderLogger } from '~/utils/logger';
 import { BinaryContent } from './BinaryContent';
+import { blameGutter, setBlame } from './blame';
 import { getTheme, reconfigureTheme } from './cm-theme';
+import type { EditorBlame, EditorReveal } from './types';
 import { indentKeyBinding } from './indent';
 import { getLanguage } from './languages';
+import { isTypeScriptFile, typescriptExtensions, type TypeScriptEditorHost } from './typescript';
 
 const logger = createScopedLogger('CodeMirrorEditor');
 
@@ -60,6 +71,7 @@ export interface EditorUpdate {
 export type OnChangeCallback = (update: EditorUpdate) => void;
 export type OnScrollCallback = (position: ScrollPosition) => void;
 export type OnSaveCallback = () => void;
+export type OnOpenFileCallback = (filePath: string) => void;
 
 interface Props {
   theme: Theme;
@@ -72,12 +84,20 @@ interface Props {
   onChange?: OnChangeCallback;
   onScroll?: OnScrollCallback;
   onSave?: OnSaveCallback;
+  onOpenFile?: OnOpenFileCallback;
+  reveal?: EditorReveal;
+  blame?: EditorBlame;
   className?: string;
   settings?: EditorSettings;
 }
 
 type EditorStates = Map<string, EditorState>;
 
+/**
+ * Selection to set in a document once it is shown
+ */
+type PendingSelection = (doc: Text) => { anchor: number; head?: number };
+
 const readOnlyTooltipStateEffect = StateEffect.define<boolean>();
 
 const editableTooltipField = StateField.define<readonly Tooltip[]>({
@@ -128,6 +148,9 @@ export const CodeMirrorEditor = memo(
     onScroll,
     onChange,
     onSave,
+    onOpenFile,
+    reveal,
+    blame,
     theme,
     settings,
     className = '',
@@ -135,6 +158,8 @@ export const CodeMirrorEditor = memo(
     renderLogger.trace('CodeMirrorEditor');
 
     const [languageCompartment] = useState(new Compartment());
+    const [typescriptCompartment] = useState(new Compartment());
+    const [blameCompartment] = useState(new Compartment());
 
     const containerRef = useRef<HTMLDivElement | null>(null);
     const viewRef = useRef<EditorView | undefined>(undefined);
@@ -144,6 +169,17 @@ export const CodeMirrorEditor = memo(
     const onScrollRef = useRef(onScroll);
     const onChangeRef = useRef(onChange);
     const onSaveRef = useRef(onSave);
+    const onOpenFileRef = useRef(onOpenFile);
+
+    // Selection to set once a file opened by go-to-definition or a search result is shown
+    const pendingSelectionRef = useRef<{ filePath: string; select: PendingSelection } | undefined>(undefined);
+
+    const [typescriptHost] = useState<TypeScriptEditorHost>(() => ({
+      openFile: (filePath, position) => {
+        pendingSelectionRef.current = { filePath, select: () => ({ anchor: position }) };
+        onOpenFileRef.current?.(filePath);
+      },
+    }));
 
     /**
      * This effect is used to avoid side effects directly in the render function
@@ -153,6 +189,7 @@ export const CodeMirrorEditor = memo(
       onScrollRef.current = onScroll;
       onChangeRef.current = onChange;
       onSaveRef.current = onSave;
+      onOpenFileRef.current = onOpenFile;
       docRef.current = doc;
       themeRef.current = theme;
     });
@@ -208,6 +245,31 @@ export const CodeMirrorEditor = memo(
       editorStatesRef.current = new Map<string, EditorState>();
     }, [id]);
 
+    /**
+     * Declared before the document effect so a revealed file that is about to be
+     * shown gets its selection from there.
+     */
+    useEffect(() => {
+      const view = viewRef.current;
+
+      if (!reveal || !view) {
+        return;
+      }
+
+      const select: PendingSelection = (text) => {
+        const line = text.line(Math.max(1, Math.min(reveal.line, text.lines)));
+        const anchor = Math.min(line.from + reveal.column, line.to);
+
+        return { anchor, head: Math.min(anchor + (reveal.length ?? 0), line.to) };
+      };
+
+      if (editorStatesRef.current?.get(reveal.filePath) === view.state) {
+        selectAndScroll(view, select(view.state.doc));
+      } else {
+        pendingSelectionRef.current = { filePath: reveal.filePath, select };
+      }
+    }, [reveal]);
+
     useEffect(() => {
       const editorStates = editorStatesRef.current!;
       const view = viewRef.current!;
@@ -216,6 +278,8 @@ export const CodeMirrorEditor = memo(
       if (!doc) {
         const state = newEditorState('', theme, settings, onScrollRef, debounceScroll, onSaveRef, [
           languageCompartment.of([]),
+          typescriptCompartment.of([]),
+          blameCompartment.of([]),
         ]);
 
         view.setState(state);
@@ -238,6 +302,8 @@ export const CodeMirrorEditor = memo(
       if (!state) {
         state = newEditorState(doc.value, theme, settings, onScrollRef, debounceScroll, onSaveRef, [
           languageCompartment.of([]),
+          typescriptCompartment.of([]),
+          blameCompartment.of([]),
         ]);
 
         editorStates.set(doc.filePath, state);
@@ -245,6 +311,12 @@ export const CodeMirrorEditor = memo(
 
       view.setState(state);
 
+      const pendingSelection = pendingSelectionRef.current;
+
+      if (pendingSelection?.filePath === doc.filePath) {
+        pendingSelectionRef.current = undefined;
+      }
+
       setEditorDocument(
         view,
         theme,
@@ -252,9 +324,39 @@ export const CodeMirrorEditor = memo(
         languageCompartment,
         autoFocusOnDocumentChange,
         doc as TextEditorDocument,
+        typescriptCompartment,
+        typescriptHost,
+        pendingSelection?.filePath === doc.filePath ? pendingSelection.select : undefined,
       );
     }, [doc?.value, editable, doc?.filePath, autoFocusOnDocumentChange]);
 
+    // Declared after the document effect so the blame goes to the state of the shown file
+    useEffect(() => {
+      const view = viewRef.current;
+
+      if (!view || !doc || doc.isBinary) {
+        return;
+      }
+
+      const lines = blame?.filePath === doc.filePath ? blame.lines : undefined;
+      const gutter = blameCompartment.get(view.state);
+      const hasGutter = !(Array.isArray(gutter) && gutter.length === 0);
+
+      if (!lines) {
+        if (hasGutter) {
+          view.dispatch({ effects: blameCompartment.reconfigure([]) });
+        }
+
+        return;
+      }
+
+      if (!hasGutter) {
+        view.dispatch({ effects: blameCompartment.reconfigure(blameGutter()) });
+      }
+
+      setBlame(view, lines);
+    }, [blame, doc?.filePath]);
+
     return (
       <div className={classNames('relative h-full', className)}>
         {doc?.isBinary && <BinaryContent />}
@@ -382,6 +484,9 @@ function setEditorDocument(
   languageCompartment: Compartment,
   autoFocus: boolean,
   doc: TextEditorDocument,
+  typescriptCompartment: Compartment,
+  typescriptHost: TypeScriptEditorHost,
+  selection?: PendingSelection,
 ) {
   if (doc.value !== view.state.doc.toString()) {
     view.dispatch({
@@ -400,12 +505,23 @@ function setEditorDocument(
 
   getLanguage(doc.filePath).then((languageSupport) => {
     if (!languageSupport) {
+      if (selection) {
+        selectAndScroll(view, selection(view.state.doc));
+      }
+
       return;
     }
 
-    view.dispatch({
-      effects: [languageCompartment.reconfigure([languageSupport]), reconfigureTheme(theme)],
-    });
+    const effects = [languageCompartment.reconfigure([languageSupport]), reconfigureTheme(theme)];
+
+    // Type-aware features are added once per file, the editor state keeps them
+    const typescript = typescriptCompartment.get(view.state);
+
+    if (isTypeScriptFile(doc.filePath) && Array.isArray(typescript) && typescript.length === 0) {
+      effects.push(typescriptCompartment.reconfigure(typescriptExtensions(doc.filePath, typescriptHost)));
+    }
+
+    view.dispatch({ effects });
 
     requestAnimationFrame(() => {
       const currentLeft = view.scrollDOM.scrollLeft;
@@ -431,11 +547,24 @@ function setEditorDocument(
         }
       }
 
+      if (selection) {
+        selectAndScroll(view, selection(view.state.doc));
+        return;
+      }
+
       view.scrollDOM.scrollTo(newLeft, newTop);
     });
   });
 }
 
+function selectAndScroll(view: EditorView, { anchor, head }: { anchor: number; head?: number }) {
+  const length = view.state.doc.length;
+  const selection = { anchor: Math.min(anchor, length), head: head === undefined ? undefined : Math.min(head, length) };
+
+  view.dispatch({ selection, effects: EditorView.scrollIntoView(selection.anchor, { y: 'center' }) });
+  view.focus();
+}
+
 function getReadOnlyTooltip(state: EditorState) {
   if (!state.readOnly) {
     return [];
@@ -0,0 +1,127 @@
+import { RangeSet, StateEffect, StateField, type EditorState, type Extension } from '@codemirror/state';
+import { EditorView, gutter, GutterMarker } from '@codemirror/view';
+import type { BlameLine } from '~/lib/git/blame';
+import type { LogEntry } from '~/lib/git/operations';
+
+const setBlameEffect = StateEffect.define<BlameLine[]>();
+
+class BlameMarker extends GutterMarker {
+  constructor(
+    readonly commit: LogEntry | null,
+
+    /** Only the first line of a run of lines from the same commit shows it */
+    readonly first: boolean,
+  ) {
+    super();
+  }
+
+  eq(other: BlameMarker) {
+    return other.commit?.oid === this.commit?.oid && other.first === this.first;
+  }
+
+  toDOM() {
+    const element = document.createElement('div');
+
+    element.className = this.commit ? 'cm-blame-marker' : 'cm-blame-marker cm-blame-uncommitted';
+    element.title = describeCommit(this.commit);
+
+    if (this.first) {
+      element.textContent = this.commit
+        ? `${formatDate(this.commit.author.timestamp)} ${this.commit.author.name}`
+        : 'Non commité';
+    }
+
+    return element;
+  }
+}
+
+/**
+ * Markers of the blamed lines, edited lines lose theirs
+ */
+const blameField = StateField.define<RangeSet<BlameMarker>>({
+  create: () => RangeSet.empty,
+  update(markers, transaction) {
+    for (const effect of transaction.effects) {
+      if (effect.is(setBlameEffect)) {
+        return buildMarkers(transaction.state, effect.value);
+      }
+    }
+
+    if (!transaction.docChanged) {
+      return markers;
+    }
+
+    const edited: Array<[number, number]> = [];
+    const { doc } = transaction.state;
+
+    transaction.changes.iterChangedRanges((_fromA, _toA, fromB, toB) => {
+      edited.push([doc.lineAt(fromB).from, doc.lineAt(toB).to]);
+    });
+
+    return markers.map(transaction.changes).update({
+      filter: (from) => !edited.some(([start, end]) => from >= start && from <= end),
+    });
+  },
+});
+
+/**
+ * Gutter with the commit that last changed each line, filled by `setBlame`
+ */
+export function blameGutter(): Extension {
+  return [
+    blameField,
+    gutter({
+      class: 'cm-blame-gutter',
+      markers: (view) => view.state.field(blameField),
+    }),
+    EditorView.baseTheme({
+      '.cm-blame-gutter .cm-gutterElement': {
+        width: '160px',
+        paddingLeft: '8px',
+        overflow: 'hidden',
+        whiteSpace: 'nowrap',
+        textOverflow: 'ellipsis',
+        opacity: '0.6',
+      },
+      '.cm-blame-uncommitted': {
+        fontStyle: 'italic',
+      },
+    }),
+  ];
+}
+
+export function setBlame(view: EditorView, lines: BlameLine[]) {
+  view.dispatch({ effects: setBlameEffect.of(lines) });
+}
+
+function buildMarkers(state: EditorState, lines: BlameLine[]): RangeSet<BlameMarker> {
+  const markers = [];
+
+  for (const [index, { line, commit }] of lines.entries()) {
+    if (line > state.doc.lines) {
+      break;
+    }
+
+    const first = index === 0 || lines[index - 1].commit?.oid !== commit?.oid;
+
+    markers.push(new BlameMarker(commit, first).range(state.doc.line(line).from));
+  }
+
+  return RangeSet.of(markers);
+}
+
+function describeCommit(commit: LogEntry | null): string {
+  if (!commit) {
+    return 'Modification pas encore commitée';
+  }
+
+  const [summary] = commit.message.split('\n');
+  const date = new Date(commit.author.timestamp * 1000).toLocaleString('fr-FR');
+  const chat = commit.chatId ? `\nDiscussion: ${commit.chatId}` : '';
+
+  return `${commit.oid.slice(0, 7)} · ${summary}\n${commit.author.name} <${commit.author.email}>, ${date}${chat}`;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit', year: '2-digit' });
+}
@@ -180,6 +180,21 @@ function getEditorTheme(settings: EditorSettings) {
         borderTopColor: 'transparent',
       },
     },
+    '.cm-ts-hover': {
+      maxWidth: '600px',
+      padding: '4px 8px',
+    },
+    '.cm-ts-hover-signature': {
+      margin: 0,
+      whiteSpace: 'pre-wrap',
+      fontFamily: 'Roboto Mono, monospace',
+    },
+    '.cm-ts-hover-documentation': {
+      marginTop: '4px',
+      paddingTop: '4px',
+      borderTop: '1px solid var(--cm-tooltip-borderColor)',
+      whiteSpace: 'pre-wrap',
+    },
   });
 }
 
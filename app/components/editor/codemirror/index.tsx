@@ -1,16 +1,28 @@
 import { lazy, Suspense, memo } from 'react';
 import type { Theme } from '~/types/theme';
-import type { EditorDocument, EditorSettings, OnChangeCallback, OnScrollCallback, OnSaveCallback } from './types';
+import type {
+  EditorBlame,
+  EditorDocument,
+  EditorReveal,
+  EditorSettings,
+  OnChangeCallback,
+  OnScrollCallback,
+  OnSaveCallback,
+  OnOpenFileCallback,
+} from './types';
 
 // Re-export types for consumers
 export type {
+  EditorBlame,
   EditorDocument,
+  EditorReveal,
   EditorSettings,
   EditorUpdate,
   ScrollPosition,
   OnChangeCallback,
   OnScrollCallback,
   OnSaveCallback,
+  OnOpenFileCallback,
 } from './types';
 
 // Lazy load the heavy CodeMirror editor
@@ -27,6 +39,9 @@ interface CodeMirrorEditorProps {
   onChange?: OnChangeCallback;
   onScroll?: OnScrollCallback;
   onSave?: OnSaveCallback;
+  onOpenFile?: OnOpenFileCallback;
+  reveal?: EditorReveal;
+  blame?: EditorBlame;
   className?: string;
   settings?: EditorSettings;
 }
@@ -1,4 +1,5 @@
 import type { EditorSelection } from '@codemirror/state';
+import type { BlameLine } from '~/lib/git/blame';
 
 /**
  * Types for CodeMirrorEditor - extracted for lazy loading support
@@ -23,6 +24,30 @@ export interface ScrollPosition {
   left: number;
 }
 
+/**
+ * Location to show in the editor, a new object each time it should be revealed
+ */
+export interface EditorReveal {
+  filePath: string;
+
+  /** 1-based line */
+  line: number;
+
+  /** 0-based column */
+  column: number;
+
+  /** Length of the text to select from the column */
+  length?: number;
+}
+
+/**
+ * Blame shown in the gutter, for the document with the same path
+ */
+export interface EditorBlame {
+  filePath: string;
+  lines: BlameLine[];
+}
+
 export interface EditorUpdate {
   selection: EditorSelection;
   content: string;
@@ -31,3 +56,4 @@ export interface EditorUpdate {
 export type OnChangeCallback = (update: EditorUpdate) => void;
 export type OnScrollCallback = (position: ScrollPosition) => void;
 export type OnSaveCallback = () => void;
+export type OnOpenFileCallback = (filePath: string) => void;
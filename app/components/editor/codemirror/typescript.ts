@@ -0,0 +1,221 @@
+import type { Completion, CompletionContext, CompletionResult } from '@codemirror/autocomplete';
+import { linter, lintGutter, type Diagnostic } from '@codemirror/lint';
+import { EditorState, type Extension } from '@codemirror/state';
+import { EditorView, hoverTooltip, keymap } from '@codemirror/view';
+import { toast } from 'react-toastify';
+import { getTypeScriptClient } from '~/lib/typescript/client';
+import type { TsTextEdit } from '~/lib/typescript/language-service';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('TypeScriptEditor');
+
+/**
+ * What the TypeScript features need from the workbench
+ */
+export interface TypeScriptEditorHost {
+  /** Show another file of the project with the cursor at a position */
+  openFile(filePath: string, position: number): void;
+}
+
+const LINT_DELAY_MS = 500;
+
+export function isTypeScriptFile(filePath: string) {
+  return getTypeScriptClient().isSupported(filePath);
+}
+
+/**
+ * Diagnostics, hover types, go-to-definition (F12, Mod+click), rename (F2)
+ * and completions from the TypeScript worker, for one file
+ */
+export function typescriptExtensions(filePath: string, host: TypeScriptEditorHost): Extension {
+  const client = getTypeScriptClient();
+
+  const sync = (view: EditorView) => client.setDocument(filePath, view.state.doc.toString());
+
+  const goToDefinition = async (view: EditorView, position: number) => {
+    sync(view);
+
+    const [definition] = await client.getDefinition(filePath, position);
+
+    if (!definition) {
+      return;
+    }
+
+    if (definition.filePath === filePath) {
+      view.dispatch({
+        selection: { anchor: definition.from },
+        effects: EditorView.scrollIntoView(definition.from, { y: 'center' }),
+      });
+    } else {
+      host.openFile(definition.filePath, definition.from);
+    }
+  };
+
+  const rename = async (view: EditorView) => {
+    const position = view.state.selection.main.head;
+    const word = view.state.wordAt(position);
+    const newName = window.prompt('Renommer le symbole', word ? view.state.sliceDoc(word.from, word.to) : '');
+
+    if (!newName) {
+      return;
+    }
+
+    sync(view);
+
+    const result = await client.getRenameEdits(filePath, position, newName);
+
+    if ('error' in result) {
+      toast.error(result.error);
+      return;
+    }
+
+    for (const [editedPath, edits] of Object.entries(result.edits)) {
+      if (editedPath === filePath) {
+        view.dispatch({ changes: edits.map(({ from, to, insert }) => ({ from, to, insert })) });
+        continue;
+      }
+
+      // Other files are changed in their editor document, unsaved like a manual edit
+      const content = workbenchStore.getDocumentContent(editedPath);
+
+      if (content !== undefined) {
+        workbenchStore.setDocumentContent(editedPath, applyTextEdits(content, edits));
+      }
+    }
+  };
+
+  const completionSource = async (context: CompletionContext): Promise<CompletionResult | null> => {
+    const word = context.matchBefore(/[\w$]*/);
+    const before = context.state.sliceDoc(context.pos - 1, context.pos);
+
+    if (!context.explicit && word?.from === word?.to && !/[.'"/<@]/.test(before)) {
+      return null;
+    }
+
+    client.setDocument(filePath, context.state.doc.toString());
+
+    const completions = await client.getCompletions(filePath, context.pos);
+
+    if (!completions || context.aborted) {
+      return null;
+    }
+
+    return {
+      from: completions.from ?? word?.from ?? context.pos,
+      options: completions.options.map(
+        (option): Completion => ({
+          label: option.label,
+          type: option.type,
+          apply: option.insertText,
+          boost: -Math.min(99, Number.parseInt(option.sortText, 10) || 0),
+        }),
+      ),
+      validFor: /^[\w$]*$/,
+    };
+  };
+
+  return [
+    linter(
+      async (view): Promise<Diagnostic[]> => {
+        sync(view);
+
+        try {
+          const diagnostics = await client.getDiagnostics(filePath);
+          const length = view.state.doc.length;
+
+          return diagnostics.map((diagnostic) => ({
+            from: Math.min(diagnostic.from, length),
+            to: Math.min(diagnostic.to, length),
+            severity: diagnostic.severity,
+            message: diagnostic.message,
+            source: 'ts',
+          }));
+        } catch (error) {
+          logger.warn('Diagnostics failed', error);
+          return [];
+        }
+      },
+      { delay: LINT_DELAY_MS },
+    ),
+    lintGutter(),
+    hoverTooltip(async (view, position) => {
+      sync(view);
+
+      const hover = await client.getHover(filePath, position).catch(() => null);
+
+      if (!hover) {
+        return null;
+      }
+
+      return {
+        pos: hover.from,
+        end: hover.to,
+        above: true,
+        create: () => {
+          const dom = document.createElement('div');
+          const signature = document.createElement('pre');
+
+          dom.className = 'cm-ts-hover';
+          signature.className = 'cm-ts-hover-signature';
+          signature.textContent = hover.signature;
+          dom.appendChild(signature);
+
+          if (hover.documentation) {
+            const documentation = document.createElement('div');
+
+            documentation.className = 'cm-ts-hover-documentation';
+            documentation.textContent = hover.documentation;
+            dom.appendChild(documentation);
+          }
+
+          return { dom };
+        },
+      };
+    }),
+    EditorState.languageData.of(() => [{ autocomplete: completionSource }]),
+    keymap.of([
+      {
+        key: 'F12',
+        run: (view) => {
+          goToDefinition(view, view.state.selection.main.head).catch((error) => logger.warn(error));
+          return true;
+        },
+      },
+      {
+        key: 'F2',
+        run: (view) => {
+          rename(view).catch((error) => logger.warn(error));
+          return true;
+        },
+      },
+    ]),
+    EditorView.domEventHandlers({
+      mousedown: (event, view) => {
+        if (!(event.metaKey || event.ctrlKey) || event.button !== 0) {
+          return false;
+        }
+
+        const position = view.posAtCoords({ x: event.clientX, y: event.clientY });
+
+        if (position === null) {
+          return false;
+        }
+
+        event.preventDefault();
+        goToDefinition(view, position).catch((error) => logger.warn(error));
+
+        return true;
+      },
+    }),
+  ];
+}
+
+/**
+ * Apply non overlapping edits, from the last one so the offsets stay valid
+ */
+export function applyTextEdits(content: string, edits: TsTextEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.from - a.from)
+    .reduce((result, edit) => result.slice(0, edit.from) + edit.insert + result.slice(edit.to), content);
+}
@@ -21,6 +21,10 @@ vi.mock('./ConnectorCard', () => ({
   ConnectorCard: ({ connector }: any) => <div data-testid={`connector-card-${connector.id}`}>{connector.name}</div>,
 }));
 
+vi.mock('./McpServersSection', () => ({
+  McpServersSection: () => <div data-testid="mcp-servers-section" />,
+}));
+
 describe('ConnectorsPanel', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -61,6 +65,12 @@ describe('ConnectorsPanel', () => {
       expect(screen.getByTestId('connector-card-notion')).toBeInTheDocument();
       expect(screen.getByTestId('connector-card-stripe')).toBeInTheDocument();
     });
+
+    it('should render the MCP servers section', () => {
+      render(<ConnectorsPanel />);
+
+      expect(screen.getByTestId('mcp-servers-section')).toBeInTheDocument();
+    });
   });
 
   describe('connector names', () => {
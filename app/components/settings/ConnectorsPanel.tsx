@@ -5,6 +5,7 @@ import { motion } from 'framer-motion';
 import { useStore } from '@nanostores/react';
 import { CONNECTORS, connectorsStore } from '~/lib/stores/connectors';
 import { ConnectorCard } from './ConnectorCard';
+import { McpServersSection } from './McpServersSection';
 import { cubicEasingFn } from '~/utils/easings';
 
 const containerVariants = {
@@ -43,6 +44,8 @@ export const ConnectorsPanel = memo(() => {
           </motion.div>
         ))}
       </motion.div>
+
+      <McpServersSection />
     </div>
   );
 });
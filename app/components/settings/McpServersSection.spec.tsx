@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { chatId } from '~/lib/persistence/useChatHistory';
+import { mcpServersStore, projectMcpServersStore } from '~/lib/stores/mcp';
+import { McpServersSection } from './McpServersSection';
+
+vi.mock('~/lib/persistence/useChatHistory', async () => {
+  const { atom } = await import('nanostores');
+
+  return { chatId: atom<string | undefined>('project-1') };
+});
+
+vi.mock('react-toastify', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+function fillForm(name: string, url: string) {
+  fireEvent.change(screen.getByLabelText('Nom'), { target: { value: name } });
+  fireEvent.change(screen.getByLabelText('URL'), { target: { value: url } });
+  fireEvent.click(screen.getByText('Ajouter le serveur'));
+}
+
+describe('McpServersSection', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mcpServersStore.set({});
+    chatId.set('project-1');
+  });
+
+  it('should ask to open a project first', () => {
+    chatId.set(undefined);
+
+    render(<McpServersSection />);
+
+    expect(screen.getByText('Ouvrez un projet pour configurer ses serveurs MCP.')).toBeInTheDocument();
+    expect(screen.queryByText('Ajouter le serveur')).not.toBeInTheDocument();
+  });
+
+  it('should add a server with its token', () => {
+    render(<McpServersSection />);
+
+    fireEvent.change(screen.getByLabelText('Token (optionnel)'), { target: { value: 'secret' } });
+    fillForm('linear', 'https://mcp.linear.app/mcp');
+
+    expect(screen.getByText('linear')).toBeInTheDocument();
+    expect(projectMcpServersStore.get()[0].headers).toEqual({ Authorization: 'Bearer secret' });
+  });
+
+  it('should show validation errors', () => {
+    render(<McpServersSection />);
+
+    fillForm('linear', 'not a url');
+
+    expect(screen.getByRole('alert')).toHaveTextContent('URL invalide');
+  });
+
+  it('should remove a server', () => {
+    render(<McpServersSection />);
+
+    fillForm('linear', 'https://mcp.linear.app/mcp');
+    fireEvent.click(screen.getByLabelText('Supprimer linear'));
+
+    expect(projectMcpServersStore.get()).toEqual([]);
+  });
+});
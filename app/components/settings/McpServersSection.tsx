@@ -0,0 +1,182 @@
+'use client';
+
+import { memo, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import type { McpServerConfig } from '~/lib/mcp';
+import {
+  addMcpServer,
+  projectMcpServersStore,
+  removeMcpServer,
+  setMcpServerEnabled,
+  testMcpServer,
+} from '~/lib/stores/mcp';
+import { chatId } from '~/lib/persistence/useChatHistory';
+import { Button } from '~/components/ui/Button';
+import { Input } from '~/components/ui/Input';
+import { Label } from '~/components/ui/Label';
+import { Switch } from '~/components/ui/Switch';
+
+const EMPTY_FORM = { name: '', url: '', token: '' };
+
+interface McpServerRowProps {
+  server: McpServerConfig;
+}
+
+const McpServerRow = memo(({ server }: McpServerRowProps) => {
+  const [isTesting, setIsTesting] = useState(false);
+  const enabled = server.enabled !== false;
+
+  const handleTest = async () => {
+    setIsTesting(true);
+
+    try {
+      const result = await testMcpServer(server);
+
+      toast.success(
+        `${result.serverName} : ${result.tools} outils, ${result.prompts} prompts, ${result.resources} ressources`,
+      );
+    } catch (error) {
+      toast.error(`${server.name} : ${error instanceof Error ? error.message : 'connexion impossible'}`);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <li className="flex items-center gap-3 p-3 border border-bolt-elements-borderColor rounded-lg bg-bolt-elements-background-depth-3">
+      <div className="flex-1 min-w-0">
+        <h4 className="text-sm font-medium text-bolt-elements-textPrimary">{server.name}</h4>
+        <p className="text-xs text-bolt-elements-textTertiary truncate">{server.url}</p>
+      </div>
+
+      <Button variant="ghost" size="xs" onClick={handleTest} isLoading={isTesting} disabled={isTesting}>
+        Tester
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        icon="i-ph:trash"
+        aria-label={`Supprimer ${server.name}`}
+        onClick={() => removeMcpServer(server.name)}
+      />
+      <Switch
+        checked={enabled}
+        aria-label={`${enabled ? 'Désactiver' : 'Activer'} ${server.name}`}
+        onCheckedChange={(checked) => setMcpServerEnabled(server.name, checked)}
+      />
+    </li>
+  );
+});
+
+/**
+ * McpServersSection - Serveurs MCP du projet ouvert.
+ *
+ * Leurs outils sont proposés aux agents sous le nom `mcp__<serveur>__<outil>`.
+ */
+export const McpServersSection = memo(() => {
+  const projectId = useStore(chatId);
+  const servers = useStore(projectMcpServersStore);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const token = form.token.trim();
+
+    try {
+      addMcpServer({
+        name: form.name.trim(),
+        url: form.url.trim(),
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      });
+      setForm(EMPTY_FORM);
+      setError(null);
+    } catch (addError) {
+      setError(addError instanceof Error ? addError.message : String(addError));
+    }
+  };
+
+  return (
+    <section className="space-y-3" aria-labelledby="mcp-servers-title">
+      <div>
+        <h3 id="mcp-servers-title" className="text-sm font-semibold text-bolt-elements-textPrimary">
+          Serveurs MCP
+        </h3>
+        <p className="text-xs text-bolt-elements-textTertiary">
+          Outils, prompts et ressources de serveurs Model Context Protocol, configurés pour ce projet.
+        </p>
+      </div>
+
+      {!projectId ? (
+        <p className="text-xs text-bolt-elements-textSecondary">Ouvrez un projet pour configurer ses serveurs MCP.</p>
+      ) : (
+        <>
+          {servers.length > 0 && (
+            <ul className="space-y-2">
+              {servers.map((server) => (
+                <McpServerRow key={server.name} server={server} />
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="mcp-server-name" className="text-xs">
+                  Nom
+                </Label>
+                <Input
+                  id="mcp-server-name"
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  placeholder="linear"
+                  className="h-8 text-sm"
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="mcp-server-token" className="text-xs">
+                  Token (optionnel)
+                </Label>
+                <Input
+                  id="mcp-server-token"
+                  type="password"
+                  value={form.token}
+                  onChange={(e) => setForm((prev) => ({ ...prev, token: e.target.value }))}
+                  className="h-8 text-sm"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="mcp-server-url" className="text-xs">
+                URL
+              </Label>
+              <Input
+                id="mcp-server-url"
+                value={form.url}
+                onChange={(e) => setForm((prev) => ({ ...prev, url: e.target.value }))}
+                placeholder="https://mcp.example.com/mcp"
+                className="h-8 text-sm"
+                required
+              />
+            </div>
+
+            {error && (
+              <p className="text-xs text-red-400" role="alert">
+                {error}
+              </p>
+            )}
+
+            <div className="flex justify-end">
+              <Button type="submit" variant="secondary" size="sm">
+                Ajouter le serveur
+              </Button>
+            </div>
+          </form>
+        </>
+      )}
+    </section>
+  );
+});
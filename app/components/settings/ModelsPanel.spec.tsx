@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ModelsPanel } from './ModelsPanel';
+import { llmConfigStore, DEFAULT_LLM_CONFIG } from '~/lib/stores/llm-settings';
+
+describe('ModelsPanel', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    llmConfigStore.set(DEFAULT_LLM_CONFIG);
+  });
+
+  it('should show the default model and its limits', () => {
+    render(<ModelsPanel />);
+
+    expect(screen.getByLabelText('Modèle')).toHaveValue('claude-sonnet-4-5-20250929');
+    expect(screen.getByText(/Contexte: 200\s000 tokens/)).toBeInTheDocument();
+  });
+
+  it('should switch provider and pick its first known model', () => {
+    render(<ModelsPanel />);
+
+    fireEvent.change(screen.getByLabelText('Fournisseur'), { target: { value: 'openai-compatible' } });
+
+    expect(llmConfigStore.get().defaultModel).toEqual({ provider: 'openai-compatible', model: 'gpt-4.1' });
+  });
+
+  it('should ask for limits of models outside the catalog', () => {
+    llmConfigStore.set({ ...DEFAULT_LLM_CONFIG, defaultModel: { provider: 'openai-compatible', model: 'my-model' } });
+    render(<ModelsPanel />);
+
+    fireEvent.change(screen.getByLabelText('Fenêtre de contexte'), { target: { value: '65536' } });
+
+    expect(llmConfigStore.get().defaultModel.contextWindow).toBe(65536);
+  });
+
+  it('should assign a model to an agent', () => {
+    render(<ModelsPanel />);
+
+    fireEvent.change(screen.getByLabelText("Modèle de l'agent Exploration"), {
+      target: { value: 'anthropic::claude-haiku-4-5-20251001' },
+    });
+
+    expect(llmConfigStore.get().agentModels.explore).toEqual({
+      provider: 'anthropic',
+      model: 'claude-haiku-4-5-20251001',
+    });
+  });
+
+  it('should save the OpenAI-compatible endpoint', () => {
+    render(<ModelsPanel />);
+
+    fireEvent.change(screen.getByLabelText("URL de l'endpoint"), {
+      target: { value: 'http://localhost:1234/v1' },
+    });
+
+    expect(llmConfigStore.get().openaiCompatible).toEqual({ baseURL: 'http://localhost:1234/v1' });
+  });
+});
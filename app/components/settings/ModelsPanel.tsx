@@ -0,0 +1,266 @@
+'use client';
+
+import { memo, useCallback } from 'react';
+import { useStore } from '@nanostores/react';
+import {
+  llmConfigStore,
+  setDefaultModel,
+  setAgentModel,
+  setOpenAICompatibleConfig,
+  resetLLMConfig,
+} from '~/lib/stores/llm-settings';
+import {
+  KNOWN_MODELS,
+  LLM_AGENT_TYPES,
+  LLM_PROVIDERS,
+  findModelInfo,
+  getModelLimits,
+  type LLMAgentType,
+  type LLMProviderId,
+  type ModelSelection,
+} from '~/lib/llm';
+
+const AGENT_LABELS: Record<LLMAgentType, string> = {
+  orchestrator: 'Orchestrateur',
+  architect: 'Architecte',
+  coder: 'Codeur',
+  reviewer: 'Reviewer',
+  fixer: 'Fixer',
+  explore: 'Exploration',
+  builder: 'Builder',
+  tester: 'Testeur',
+  deployer: 'Déploiement',
+};
+
+const inputClassName =
+  'w-full px-3 py-2 text-sm bg-bolt-elements-background-depth-1 border border-bolt-elements-borderColor rounded-md focus:outline-none focus:border-accent-500 text-bolt-elements-textPrimary placeholder:text-bolt-elements-textTertiary transition-colors';
+
+const formatTokens = (tokens: number) => tokens.toLocaleString('fr-FR');
+
+const toOptionValue = (selection: Pick<ModelSelection, 'provider' | 'model'>) =>
+  `${selection.provider}::${selection.model}`;
+
+function fromOptionValue(value: string): ModelSelection {
+  const [provider, model] = value.split('::');
+  return { provider: provider as LLMProviderId, model };
+}
+
+// Models and limits configuration panel
+export const ModelsPanel = memo(() => {
+  const config = useStore(llmConfigStore);
+  const { defaultModel, agentModels, openaiCompatible } = config;
+  const limits = getModelLimits(defaultModel);
+  const isKnownModel = findModelInfo(defaultModel) !== undefined;
+
+  const handleProviderChange = useCallback((provider: LLMProviderId) => {
+    const firstModel = KNOWN_MODELS.find((info) => info.provider === provider);
+    setDefaultModel({ provider, model: firstModel?.id ?? '' });
+  }, []);
+
+  const handleModelChange = useCallback(
+    (model: string) => {
+      setDefaultModel({ ...defaultModel, model });
+    },
+    [defaultModel],
+  );
+
+  const handleLimitChange = useCallback(
+    (key: 'contextWindow' | 'maxOutputTokens', value: string) => {
+      const parsed = parseInt(value, 10);
+      setDefaultModel({ ...defaultModel, [key]: parsed > 0 ? parsed : undefined });
+    },
+    [defaultModel],
+  );
+
+  const handleEndpointChange = useCallback(
+    (key: 'baseURL' | 'apiKey', value: string) => {
+      const next = { baseURL: '', ...openaiCompatible, [key]: value };
+      setOpenAICompatibleConfig(next.baseURL || next.apiKey ? next : undefined);
+    },
+    [openaiCompatible],
+  );
+
+  const handleAgentModelChange = useCallback(
+    (agent: LLMAgentType, value: string) => {
+      if (!value) {
+        setAgentModel(agent, null);
+        return;
+      }
+
+      // Keep the limits entered for a custom default model
+      setAgentModel(agent, value === toOptionValue(defaultModel) ? defaultModel : fromOptionValue(value));
+    },
+    [defaultModel],
+  );
+
+  // Options des agents: catalogue + modèle par défaut s'il est personnalisé
+  const catalogOptions = KNOWN_MODELS.map((info) => ({ provider: info.provider, model: info.id, label: info.label }));
+  const agentOptions = isKnownModel
+    ? catalogOptions
+    : [...catalogOptions, { provider: defaultModel.provider, model: defaultModel.model, label: defaultModel.model }];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-bolt-elements-textPrimary">Modèles IA</h2>
+        <p className="text-sm text-bolt-elements-textSecondary mt-1">
+          Choisissez le fournisseur et le modèle utilisé par chaque agent
+        </p>
+      </div>
+
+      {/* Default Model */}
+      <div className="p-4 bg-bolt-elements-background-depth-3 rounded-lg space-y-3">
+        <p className="text-sm font-medium text-bolt-elements-textPrimary">Modèle par défaut</p>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs text-bolt-elements-textSecondary space-y-1">
+            <span>Fournisseur</span>
+            <select
+              value={defaultModel.provider}
+              onChange={(e) => handleProviderChange(e.target.value as LLMProviderId)}
+              className={inputClassName}
+              aria-label="Fournisseur"
+            >
+              {LLM_PROVIDERS.map((provider) => (
+                <option key={provider.id} value={provider.id}>
+                  {provider.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="text-xs text-bolt-elements-textSecondary space-y-1">
+            <span>Modèle</span>
+            <input
+              type="text"
+              list="llm-known-models"
+              value={defaultModel.model}
+              onChange={(e) => handleModelChange(e.target.value)}
+              placeholder="ex: qwen2.5-coder:7b"
+              className={inputClassName}
+              aria-label="Modèle"
+            />
+            <datalist id="llm-known-models">
+              {KNOWN_MODELS.filter((info) => info.provider === defaultModel.provider).map((info) => (
+                <option key={info.id} value={info.id}>
+                  {info.label}
+                </option>
+              ))}
+            </datalist>
+          </label>
+        </div>
+
+        {/* Limits for models outside the catalog */}
+        {!isKnownModel && (
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs text-bolt-elements-textSecondary space-y-1">
+              <span>Fenêtre de contexte (tokens)</span>
+              <input
+                type="number"
+                min={1}
+                value={defaultModel.contextWindow ?? ''}
+                placeholder={String(limits.contextWindow)}
+                onChange={(e) => handleLimitChange('contextWindow', e.target.value)}
+                className={inputClassName}
+                aria-label="Fenêtre de contexte"
+              />
+            </label>
+            <label className="text-xs text-bolt-elements-textSecondary space-y-1">
+              <span>Tokens de sortie max</span>
+              <input
+                type="number"
+                min={1}
+                value={defaultModel.maxOutputTokens ?? ''}
+                placeholder={String(limits.maxOutputTokens)}
+                onChange={(e) => handleLimitChange('maxOutputTokens', e.target.value)}
+                className={inputClassName}
+                aria-label="Tokens de sortie max"
+              />
+            </label>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 text-xs text-bolt-elements-textTertiary">
+          <span className="i-ph:info" />
+          <span>
+            Contexte: {formatTokens(limits.contextWindow)} tokens · Sortie max: {formatTokens(limits.maxOutputTokens)}{' '}
+            tokens · Tokenizer: {limits.tokenizer}
+          </span>
+        </div>
+      </div>
+
+      {/* OpenAI-compatible Endpoint */}
+      <div className="p-4 bg-bolt-elements-background-depth-3 rounded-lg space-y-3">
+        <div>
+          <p className="text-sm font-medium text-bolt-elements-textPrimary">Endpoint compatible OpenAI</p>
+          <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+            OpenAI, Ollama (http://localhost:11434/v1), LM Studio (http://localhost:1234/v1)... Les endpoints locaux
+            doivent être autorisés par le serveur (OPENAI_COMPATIBLE_ALLOWED_HOSTS).
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <input
+            type="url"
+            value={openaiCompatible?.baseURL ?? ''}
+            onChange={(e) => handleEndpointChange('baseURL', e.target.value)}
+            placeholder="https://api.openai.com/v1"
+            className={inputClassName}
+            aria-label="URL de l'endpoint"
+          />
+          <input
+            type="password"
+            value={openaiCompatible?.apiKey ?? ''}
+            onChange={(e) => handleEndpointChange('apiKey', e.target.value)}
+            placeholder="Clé API (n'importe quelle valeur en local)"
+            className={inputClassName}
+            aria-label="Clé API"
+            autoComplete="off"
+          />
+        </div>
+      </div>
+
+      {/* Per-agent Models */}
+      <div className="p-4 bg-bolt-elements-background-depth-3 rounded-lg">
+        <p className="text-sm font-medium text-bolt-elements-textPrimary mb-3">Modèle par agent</p>
+
+        <div className="space-y-2">
+          {LLM_AGENT_TYPES.map((agent) => {
+            const selection = agentModels[agent];
+
+            return (
+              <div key={agent} className="flex items-center justify-between gap-3">
+                <span className="text-sm text-bolt-elements-textPrimary">{AGENT_LABELS[agent]}</span>
+                <select
+                  value={selection ? toOptionValue(selection) : ''}
+                  onChange={(e) => handleAgentModelChange(agent, e.target.value)}
+                  className={`${inputClassName} max-w-[60%]`}
+                  aria-label={`Modèle de l'agent ${AGENT_LABELS[agent]}`}
+                >
+                  <option value="">Modèle par défaut</option>
+                  {agentOptions.map((option) => (
+                    <option key={toOptionValue(option)} value={toOptionValue(option)}>
+                      {option.label}
+                    </option>
+                  ))}
+                  {selection && !agentOptions.some((option) => toOptionValue(option) === toOptionValue(selection)) && (
+                    <option value={toOptionValue(selection)}>{selection.model}</option>
+                  )}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <button
+        onClick={resetLLMConfig}
+        className="text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors"
+      >
+        Réinitialiser les modèles
+      </button>
+    </div>
+  );
+});
+
+ModelsPanel.displayName = 'ModelsPanel';
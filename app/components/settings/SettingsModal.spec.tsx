@@ -17,6 +17,11 @@ vi.mock('./ConnectorsPanel', () => ({
   ConnectorsPanel: () => <div data-testid="connectors-panel">ConnectorsPanel</div>,
 }));
 
+// Mock UsagePanel (loads the usage history from PGlite)
+vi.mock('./UsagePanel', () => ({
+  UsagePanel: () => <div data-testid="usage-panel">UsagePanel</div>,
+}));
+
 // mock Radix Dialog
 vi.mock('@radix-ui/react-dialog', () => ({
   Root: ({ children, open }: any) => (open ? <div data-testid="dialog-root">{children}</div> : null),
@@ -82,7 +87,7 @@ describe('SettingsModal', () => {
 
       // Check tabs by role
       const tabs = screen.getAllByRole('tab');
-      expect(tabs).toHaveLength(4); // Interface, Connecteurs, GitHub, Compte
+      expect(tabs).toHaveLength(6); // Interface, Modèles IA, Consommation, Connecteurs, GitHub, Compte
     });
 
     it('should show InterfacePanel when interface tab is active', () => {
@@ -92,6 +97,13 @@ describe('SettingsModal', () => {
       expect(screen.getByText("Personnalisez l'apparence de l'application")).toBeInTheDocument();
     });
 
+    it('should show ModelsPanel when models tab is active', () => {
+      activeSettingsTab.set('models');
+      render(<SettingsModal />);
+
+      expect(screen.getByText('Modèle par agent')).toBeInTheDocument();
+    });
+
     it('should show ConnectorsPanel when connectors tab is active', () => {
       activeSettingsTab.set('connectors');
       render(<SettingsModal />);
@@ -99,6 +111,13 @@ describe('SettingsModal', () => {
       expect(screen.getByTestId('connectors-panel')).toBeInTheDocument();
     });
 
+    it('should show UsagePanel when usage tab is active', () => {
+      activeSettingsTab.set('usage');
+      render(<SettingsModal />);
+
+      expect(screen.getByTestId('usage-panel')).toBeInTheDocument();
+    });
+
     it('should show AccountPanel when account tab is active', () => {
       activeSettingsTab.set('account');
       render(<SettingsModal />);
@@ -20,8 +20,10 @@ import { dialogBackdropVariants, dialogVariants } from '~/components/ui/Dialog';
 import { IconButton } from '~/components/ui/IconButton';
 import { ConnectorsPanel } from './ConnectorsPanel';
 import { GitHubPanel } from './GitHubPanel';
+import { ModelsPanel } from './ModelsPanel';
+import { UsagePanel } from './UsagePanel';
 
-type SettingsTab = 'account' | 'connectors' | 'github' | 'interface';
+type SettingsTab = 'account' | 'connectors' | 'github' | 'interface' | 'models' | 'usage';
 
 interface TabConfig {
   id: SettingsTab;
@@ -31,6 +33,8 @@ interface TabConfig {
 
 const tabs: TabConfig[] = [
   { id: 'interface', label: 'Interface', icon: 'i-ph:sliders' },
+  { id: 'models', label: 'Modèles IA', icon: 'i-ph:brain' },
+  { id: 'usage', label: 'Consommation', icon: 'i-ph:chart-bar' },
   { id: 'connectors', label: 'Connecteurs', icon: 'i-ph:plug' },
   { id: 'github', label: 'GitHub', icon: 'i-ph:github-logo' },
   { id: 'account', label: 'Compte', icon: 'i-ph:user' },
@@ -146,6 +150,8 @@ export const SettingsModal = memo(() => {
                   className="flex-1 overflow-y-auto p-6"
                 >
                   {currentTab === 'interface' && <InterfacePanel />}
+                  {currentTab === 'models' && <ModelsPanel />}
+                  {currentTab === 'usage' && <UsagePanel />}
                   {currentTab === 'connectors' && <ConnectorsPanel />}
                   {currentTab === 'github' && <GitHubPanel />}
                   {currentTab === 'account' && <AccountPanel />}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { usageTracker } from '~/lib/usage';
+import {
+  STORAGE_KEY_USAGE_BUDGETS,
+  chatUsageStore,
+  dailyUsageStore,
+  usageBudgetsStore,
+  usageSummaryStore,
+} from '~/lib/stores/usage';
+import { UsagePanel } from './UsagePanel';
+
+vi.mock('~/lib/persistence/useChatHistory', async () => {
+  const { atom } = await import('nanostores');
+
+  return { chatId: atom<string | undefined>(undefined) };
+});
+
+vi.mock('~/lib/persistence/pglite', () => ({
+  getPGlite: vi.fn().mockResolvedValue({}),
+}));
+
+const TOTALS = vi.hoisted(() => ({
+  inputTokens: 1000,
+  outputTokens: 500,
+  cacheReadTokens: 0,
+  cacheWriteTokens: 0,
+  costUsd: 1.5,
+  calls: 3,
+}));
+
+vi.mock('~/lib/persistence/usage-db', () => ({
+  getUsageByChat: vi.fn().mockResolvedValue([{ chatId: 'chat-1', ...TOTALS }]),
+  getUsageByAgent: vi.fn().mockResolvedValue([
+    { source: 'coder', ...TOTALS },
+    { source: 'chat', ...TOTALS, costUsd: 0.004, calls: 1 },
+  ]),
+  getUsageByDay: vi.fn().mockResolvedValue([{ day: '2026-10-19', ...TOTALS }]),
+  getUsageRecords: vi.fn().mockResolvedValue([]),
+  insertUsageRecord: vi.fn().mockResolvedValue(undefined),
+}));
+
+describe('UsagePanel', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    usageTracker.reset();
+    usageBudgetsStore.set({});
+    usageSummaryStore.set({ byChat: [], byAgent: [], byDay: [] });
+    chatUsageStore.set({ ...TOTALS, costUsd: 0.42 });
+    dailyUsageStore.set({ ...TOTALS, costUsd: 2 });
+  });
+
+  it('should show the usage of the open chat and of the day', async () => {
+    render(<UsagePanel />);
+    await screen.findByText('coder');
+
+    expect(screen.getByTestId('chat-usage-cost')).toHaveTextContent('$0.42');
+    expect(screen.getByTestId('daily-usage-cost')).toHaveTextContent('$2.00');
+  });
+
+  it('should show the totals per agent, day and chat', async () => {
+    render(<UsagePanel />);
+    await screen.findByText('coder');
+
+    expect(screen.getByText('Chat')).toBeInTheDocument();
+    expect(screen.getByText('< $0.01')).toBeInTheDocument();
+    expect(screen.getByText('2026-10-19')).toBeInTheDocument();
+    expect(screen.getByText('chat-1')).toBeInTheDocument();
+  });
+
+  it('should save the budgets', async () => {
+    render(<UsagePanel />);
+    await screen.findByText('coder');
+
+    fireEvent.change(screen.getByLabelText('Coût par conversation ($)'), { target: { value: '0.5' } });
+    fireEvent.change(screen.getByLabelText('Tokens par conversation'), { target: { value: '200000' } });
+
+    expect(usageBudgetsStore.get()).toEqual({ chatCostUsd: 0.5, chatTokens: 200000 });
+    expect(usageTracker.getBudgets()).toEqual({ chatCostUsd: 0.5, chatTokens: 200000 });
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY_USAGE_BUDGETS)!)).toEqual({
+      chatCostUsd: 0.5,
+      chatTokens: 200000,
+    });
+  });
+
+  it('should remove a budget when the field is cleared', async () => {
+    usageBudgetsStore.set({ dailyCostUsd: 10 });
+    render(<UsagePanel />);
+    await screen.findByText('coder');
+
+    fireEvent.change(screen.getByLabelText('Coût par jour ($)'), { target: { value: '' } });
+
+    expect(usageBudgetsStore.get()).toEqual({});
+  });
+});
@@ -0,0 +1,182 @@
+'use client';
+
+import { memo, useCallback, useEffect, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import {
+  chatUsageStore,
+  dailyUsageStore,
+  refreshUsageSummary,
+  setUsageBudgets,
+  usageBudgetsStore,
+  usageSummaryStore,
+} from '~/lib/stores/usage';
+import { getTotalTokens, type UsageBudgets, type UsageTotals } from '~/lib/usage';
+
+const inputClassName =
+  'w-full px-3 py-2 text-sm bg-bolt-elements-background-depth-1 border border-bolt-elements-borderColor rounded-md focus:outline-none focus:border-accent-500 text-bolt-elements-textPrimary placeholder:text-bolt-elements-textTertiary transition-colors';
+
+const BUDGET_FIELDS: Array<{ key: keyof UsageBudgets; label: string; step: number }> = [
+  { key: 'chatTokens', label: 'Tokens par conversation', step: 1000 },
+  { key: 'chatCostUsd', label: 'Coût par conversation ($)', step: 0.5 },
+  { key: 'dailyCostUsd', label: 'Coût par jour ($)', step: 1 },
+  { key: 'agentTokens', label: 'Tokens par agent et par conversation', step: 1000 },
+];
+
+const formatTokens = (tokens: number) => tokens.toLocaleString('fr-FR');
+
+const formatCost = (cost: number) => (cost > 0 && cost < 0.01 ? '< $0.01' : `$${cost.toFixed(2)}`);
+
+interface UsageTableProps {
+  title: string;
+  rows: Array<{ key: string; label: string; totals: UsageTotals }>;
+}
+
+const UsageTable = memo(({ title, rows }: UsageTableProps) => (
+  <div className="p-4 bg-bolt-elements-background-depth-3 rounded-lg space-y-2">
+    <p className="text-sm font-medium text-bolt-elements-textPrimary">{title}</p>
+    {rows.length === 0 ? (
+      <p className="text-xs text-bolt-elements-textTertiary">Aucun appel enregistré</p>
+    ) : (
+      <table className="w-full text-xs text-bolt-elements-textSecondary">
+        <thead>
+          <tr className="text-left text-bolt-elements-textTertiary">
+            <th className="font-normal py-1" />
+            <th className="font-normal py-1 text-right">Appels</th>
+            <th className="font-normal py-1 text-right">Tokens</th>
+            <th className="font-normal py-1 text-right">Coût</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ key, label, totals }) => (
+            <tr key={key} className="border-t border-bolt-elements-borderColor">
+              <td className="py-1 text-bolt-elements-textPrimary truncate max-w-[200px]">{label}</td>
+              <td className="py-1 text-right">{totals.calls}</td>
+              <td className="py-1 text-right">{formatTokens(getTotalTokens(totals))}</td>
+              <td className="py-1 text-right">{formatCost(totals.costUsd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+));
+
+UsageTable.displayName = 'UsageTable';
+
+// Token usage, cost and budgets panel
+export const UsagePanel = memo(() => {
+  const budgets = useStore(usageBudgetsStore);
+  const chatUsage = useStore(chatUsageStore);
+  const dailyUsage = useStore(dailyUsageStore);
+  const summary = useStore(usageSummaryStore);
+  const [error, setError] = useState<string | null>(null);
+
+  // Saisie en cours, pour ne pas effacer "0." avant le chiffre suivant
+  const [drafts, setDrafts] = useState<Partial<Record<keyof UsageBudgets, string>>>({});
+
+  // Recharger les cumuls à l'ouverture et après chaque appel
+  useEffect(() => {
+    refreshUsageSummary()
+      .then(() => setError(null))
+      .catch(() => setError("L'historique de consommation n'a pas pu être chargé"));
+  }, [chatUsage.calls, dailyUsage.calls]);
+
+  const handleBudgetChange = useCallback(
+    (key: keyof UsageBudgets, value: string) => {
+      const parsed = parseFloat(value);
+      setDrafts((current) => ({ ...current, [key]: value }));
+      setUsageBudgets({ ...budgets, [key]: parsed > 0 ? parsed : undefined });
+    },
+    [budgets],
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-bolt-elements-textPrimary">Consommation</h2>
+        <p className="text-sm text-bolt-elements-textSecondary mt-1">
+          Tokens et coût des appels aux modèles, et limites appliquées aux agents
+        </p>
+      </div>
+
+      {/* Live totals */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="p-4 bg-bolt-elements-background-depth-3 rounded-lg">
+          <p className="text-xs text-bolt-elements-textSecondary">Conversation ouverte</p>
+          <p className="text-lg font-semibold text-bolt-elements-textPrimary" data-testid="chat-usage-cost">
+            {formatCost(chatUsage.costUsd)}
+          </p>
+          <p className="text-xs text-bolt-elements-textTertiary">
+            {formatTokens(getTotalTokens(chatUsage))} tokens · {chatUsage.calls} appels
+          </p>
+        </div>
+        <div className="p-4 bg-bolt-elements-background-depth-3 rounded-lg">
+          <p className="text-xs text-bolt-elements-textSecondary">Aujourd'hui</p>
+          <p className="text-lg font-semibold text-bolt-elements-textPrimary" data-testid="daily-usage-cost">
+            {formatCost(dailyUsage.costUsd)}
+          </p>
+          <p className="text-xs text-bolt-elements-textTertiary">
+            {formatTokens(getTotalTokens(dailyUsage))} tokens · {dailyUsage.calls} appels
+          </p>
+        </div>
+      </div>
+
+      {/* Budgets */}
+      <div className="p-4 bg-bolt-elements-background-depth-3 rounded-lg space-y-3">
+        <div>
+          <p className="text-sm font-medium text-bolt-elements-textPrimary">Budgets</p>
+          <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+            Le chat et les agents s'arrêtent quand une limite est atteinte. Laissez vide pour ne pas limiter.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {BUDGET_FIELDS.map(({ key, label, step }) => (
+            <label key={key} className="text-xs text-bolt-elements-textSecondary space-y-1">
+              <span>{label}</span>
+              <input
+                type="number"
+                min={0}
+                step={step}
+                value={drafts[key] ?? budgets[key] ?? ''}
+                placeholder="Illimité"
+                onChange={(e) => handleBudgetChange(key, e.target.value)}
+                className={inputClassName}
+                aria-label={label}
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 text-xs text-bolt-elements-textTertiary">
+          <span className="i-ph:info" />
+          <span>Coûts estimés d'après les tarifs publics des modèles. Les modèles locaux sont gratuits.</span>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-bolt-elements-icon-error">{error}</p>}
+
+      <UsageTable
+        title="Par agent"
+        rows={summary.byAgent.map((row) => ({
+          key: row.source,
+          label: row.source === 'chat' ? 'Chat' : row.source,
+          totals: row,
+        }))}
+      />
+
+      <UsageTable title="Par jour" rows={summary.byDay.map((row) => ({ key: row.day, label: row.day, totals: row }))} />
+
+      <UsageTable
+        title="Par conversation"
+        rows={summary.byChat.map((row) => ({
+          key: row.chatId ?? 'none',
+          label: row.chatId ?? 'Hors conversation',
+          totals: row,
+        }))}
+      />
+    </div>
+  );
+});
+
+UsagePanel.displayName = 'UsagePanel';
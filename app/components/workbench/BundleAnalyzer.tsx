@@ -0,0 +1,160 @@
+'use client';
+
+import { useStore } from '@nanostores/react';
+import { memo, useEffect, useRef, useState } from 'react';
+import { IconButton } from '~/components/ui/IconButton';
+import { formatBytes } from '~/lib/hooks/useCheckpointCleanup';
+import { BUNDLE_LIMITS, isChunkOversized } from '~/lib/runtime/adapters/browser-build/utils/bundle-limits';
+import type { ChunkInfo } from '~/lib/runtime/types';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+
+/**
+ * Nombre de modules affichés par chunk, les plus lourds d'abord
+ */
+const MAX_MODULES = 30;
+
+/**
+ * Taille des chunks du bundle affiché dans le preview et des modules qui les composent
+ */
+export const BundleAnalyzer = memo(() => {
+  const analysis = useStore(workbenchStore.bundleAnalysis);
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedChunk, setExpandedChunk] = useState<string | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return undefined;
+    }
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    window.addEventListener('mousedown', handleClickOutside);
+
+    return () => window.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const chunks = analysis ?? [];
+  const totalBytes = chunks.reduce((total, chunk) => total + chunk.bytes, 0);
+  const largestChunk = Math.max(0, ...chunks.map((chunk) => chunk.bytes));
+  const hasOversizedChunk = chunks.some(isChunkOversized);
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <IconButton
+        icon="i-ph:chart-bar"
+        className={classNames('!bg-transparent hover:!bg-bolt-elements-background-depth-3', {
+          '!text-amber-400': hasOversizedChunk,
+        })}
+        size="md"
+        title="Analyse du bundle"
+        disabled={!analysis}
+        onClick={() => setIsOpen(!isOpen)}
+      />
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-96 z-50 dropdown-animation rounded-lg overflow-hidden bg-[var(--bolt-glass-background-elevated)] backdrop-blur-[var(--bolt-glass-blur)] border border-[var(--bolt-glass-border)] shadow-[var(--bolt-glass-shadow)]">
+          <div className="flex items-baseline justify-between px-4 py-2 border-b border-bolt-elements-borderColor">
+            <span className="text-xs font-medium text-bolt-elements-textPrimary">Analyse du bundle</span>
+            <span className="text-[11px] text-bolt-elements-textTertiary">
+              {chunks.length} chunk{chunks.length > 1 ? 's' : ''} · {formatBytes(totalBytes)}
+            </span>
+          </div>
+          <div className="max-h-96 overflow-y-auto py-1">
+            {chunks.map((chunk) => (
+              <ChunkRow
+                key={chunk.path}
+                chunk={chunk}
+                largestChunk={largestChunk}
+                expanded={expandedChunk === chunk.path}
+                onToggle={() => setExpandedChunk(expandedChunk === chunk.path ? null : chunk.path)}
+              />
+            ))}
+          </div>
+          {chunks.length === 1 && hasOversizedChunk && (
+            <div className="px-4 py-2 border-t border-bolt-elements-borderColor text-[11px] text-bolt-elements-textTertiary">
+              Chargez les pages lourdes avec import() pour découper le bundle en chunks.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+BundleAnalyzer.displayName = 'BundleAnalyzer';
+
+interface ChunkRowProps {
+  chunk: ChunkInfo;
+  largestChunk: number;
+  expanded: boolean;
+  onToggle: () => void;
+}
+
+function ChunkRow({ chunk, largestChunk, expanded, onToggle }: ChunkRowProps) {
+  const oversized = isChunkOversized(chunk);
+  const hiddenModules = chunk.modules.length - MAX_MODULES;
+
+  return (
+    <div>
+      <button
+        className="w-full flex flex-col gap-1 px-4 py-2 text-left hover:bg-bolt-elements-item-backgroundActive"
+        onClick={onToggle}
+      >
+        <div className="w-full flex items-center gap-2">
+          <div
+            className={classNames('text-bolt-elements-textTertiary', expanded ? 'i-ph:caret-down' : 'i-ph:caret-right')}
+          />
+          <span className="flex-1 truncate text-xs text-bolt-elements-textPrimary" title={chunk.path}>
+            {chunk.path}
+          </span>
+          {oversized && (
+            <div
+              className="i-ph:warning text-amber-400"
+              title={`Au-dessus de la limite de ${BUNDLE_LIMITS.CHUNK_WARNING_KB} Ko par chunk`}
+            />
+          )}
+          <span className="text-[11px] text-bolt-elements-textSecondary">{formatBytes(chunk.bytes)}</span>
+        </div>
+        <div className="w-full flex items-center gap-2 pl-5">
+          <SizeBar ratio={largestChunk ? chunk.bytes / largestChunk : 0} warning={oversized} />
+          <span className="text-[10px] text-bolt-elements-textTertiary whitespace-nowrap">
+            {chunk.isEntry ? 'entrée' : 'chargé à la demande'}
+          </span>
+        </div>
+      </button>
+      {expanded && (
+        <ul className="pl-9 pr-4 pb-2">
+          {chunk.modules.slice(0, MAX_MODULES).map((module) => (
+            <li key={module.path} className="flex items-center gap-2 py-0.5">
+              <span className="flex-1 truncate text-[11px] text-bolt-elements-textSecondary" title={module.path}>
+                {module.path}
+              </span>
+              <span className="text-[10px] text-bolt-elements-textTertiary">{formatBytes(module.bytes)}</span>
+            </li>
+          ))}
+          {hiddenModules > 0 && (
+            <li className="py-0.5 text-[10px] text-bolt-elements-textTertiary">
+              + {hiddenModules} autre{hiddenModules > 1 ? 's' : ''} module{hiddenModules > 1 ? 's' : ''}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function SizeBar({ ratio, warning }: { ratio: number; warning: boolean }) {
+  return (
+    <div className="flex-1 h-1 rounded-full bg-bolt-elements-background-depth-3 overflow-hidden">
+      <div
+        className={classNames('h-full rounded-full', warning ? 'bg-amber-400' : 'bg-[#38bdf8]')}
+        style={{ width: `${Math.max(ratio * 100, 1)}%` }}
+      />
+    </div>
+  );
+}
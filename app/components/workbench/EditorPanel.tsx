@@ -3,8 +3,10 @@
 import { useStore } from '@nanostores/react';
 import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Panel, PanelGroup, PanelResizeHandle, type ImperativePanelHandle } from 'react-resizable-panels';
+import { toast } from 'react-toastify';
 import {
   CodeMirrorEditor,
+  type EditorBlame,
   type EditorDocument,
   type EditorSettings,
   type OnChangeCallback as OnEditorChange,
@@ -12,17 +14,22 @@ import {
   type OnScrollCallback as OnEditorScroll,
 } from '~/components/editor/codemirror';
 import { DiffViewer } from '~/components/editor/DiffViewer';
+import { MergeConflictViewer } from '~/components/editor/MergeConflictViewer';
 import { IconButton } from '~/components/ui/IconButton';
 import { PanelHeader } from '~/components/ui/PanelHeader';
+import { parseConflicts } from '~/lib/git/conflicts';
+import { blame, isGitRepo } from '~/lib/git/operations';
 import { shortcutEventEmitter } from '~/lib/hooks';
 import type { FileMap } from '~/lib/stores/files';
 import { themeStore } from '~/lib/stores/theme';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { classNames } from '~/utils/classNames';
 import { WORK_DIR } from '~/utils/constants';
-import { renderLogger } from '~/utils/logger';
+import { createScopedLogger, renderLogger } from '~/utils/logger';
 import { isMobile } from '~/utils/mobile';
+import { FileHistoryPanel, toRepoPath } from './FileHistoryPanel';
 import { FileTree } from './FileTree';
+import { SearchPanel } from './SearchPanel';
 import { Terminal, type TerminalRef } from './terminal/Terminal';
 import { EditorAgentOverlay, TerminalAgentIndicator } from './AgentWorkbenchIndicators';
 
@@ -37,8 +44,13 @@ interface EditorPanelProps {
   onFileSelect?: (value?: string) => void;
   onFileSave?: OnEditorSave;
   onFileReset?: () => void;
+  onBeforeReplace?: (description: string) => Promise<unknown>;
 }
 
+type SidebarView = 'files' | 'search';
+
+const logger = createScopedLogger('EditorPanel');
+
 const MAX_TERMINALS = 3;
 const DEFAULT_TERMINAL_SIZE = 25;
 const DEFAULT_EDITOR_SIZE = 100 - DEFAULT_TERMINAL_SIZE;
@@ -57,11 +69,14 @@ export const EditorPanel = memo(
     onEditorScroll,
     onFileSave,
     onFileReset,
+    onBeforeReplace,
   }: EditorPanelProps) => {
     renderLogger.trace('EditorPanel');
 
     const theme = useStore(themeStore);
     const showTerminal = useStore(workbenchStore.showTerminal);
+    const editorReveal = useStore(workbenchStore.editorReveal);
+    const [sidebarView, setSidebarView] = useState<SidebarView>('files');
 
     const terminalRefs = useRef<Array<TerminalRef | null>>([]);
     const terminalPanelRef = useRef<ImperativePanelHandle>(null);
@@ -84,11 +99,56 @@ export const EditorPanel = memo(
 
     const canShowDiff = originalContent !== undefined && editorDocument !== undefined;
 
-    // Reset diff view when file changes
+    // Merge view state, for files with conflict markers
+    const [showMerge, setShowMerge] = useState(false);
+    const conflictCount = useMemo(() => parseConflicts(editorDocument?.value ?? '').length, [editorDocument?.value]);
+
+    // Git history of the open file, when the project is a repository
+    const [isRepo, setIsRepo] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [showBlame, setShowBlame] = useState(false);
+    const [editorBlame, setEditorBlame] = useState<EditorBlame | undefined>(undefined);
+
+    useEffect(() => {
+      isGitRepo(WORK_DIR).then(setIsRepo);
+    }, []);
+
+    // Reset diff, merge and history views when file changes
     useEffect(() => {
       setShowDiff(false);
+      setShowMerge(false);
+      setShowHistory(false);
     }, [editorDocument?.filePath]);
 
+    // Blame the file as it is when opened or when the gutter is shown, edited lines then lose their commit
+    useEffect(() => {
+      const filePath = editorDocument?.filePath;
+
+      if (!showBlame || !filePath || editorDocument.isBinary) {
+        setEditorBlame(undefined);
+        return undefined;
+      }
+
+      let cancelled = false;
+
+      blame(WORK_DIR, toRepoPath(filePath), editorDocument.value).then((lines) => {
+        if (!cancelled) {
+          setEditorBlame({ filePath, lines });
+        }
+      });
+
+      return () => {
+        cancelled = true;
+      };
+    }, [showBlame, editorDocument?.filePath]);
+
+    // Back to the editor once every conflict is resolved
+    useEffect(() => {
+      if (conflictCount === 0) {
+        setShowMerge(false);
+      }
+    }, [conflictCount]);
+
     useEffect(() => {
       const unsubscribeFromEventEmitter = shortcutEventEmitter.on('toggleTerminal', () => {
         terminalToggledByShortcut.current = true;
@@ -124,6 +184,37 @@ export const EditorPanel = memo(
       terminalToggledByShortcut.current = false;
     }, [showTerminal]);
 
+    // Projects dropped as ZIP archives on the file tree
+    const importZipFiles = useCallback(
+      async (droppedFiles: File[]) => {
+        const archives = droppedFiles.filter((file) => file.name.toLowerCase().endsWith('.zip'));
+
+        if (archives.length === 0) {
+          toast.info('Déposez une archive .zip pour importer un projet');
+          return;
+        }
+
+        for (const archive of archives) {
+          try {
+            await onBeforeReplace?.(`Avant l'import de ${archive.name}`);
+
+            const { files: imported, skipped } = await workbenchStore.importZip(
+              new Uint8Array(await archive.arrayBuffer()),
+            );
+
+            toast.success(
+              `${imported.size} fichier(s) importé(s) depuis ${archive.name}` +
+                (skipped.length > 0 ? `, ${skipped.length} fichier(s) binaire(s) ignoré(s)` : ''),
+            );
+          } catch (error) {
+            logger.error('ZIP import failed:', error);
+            toast.error(`Impossible d'importer ${archive.name}`);
+          }
+        }
+      },
+      [onBeforeReplace],
+    );
+
     const addTerminal = () => {
       if (terminalCount < MAX_TERMINALS) {
         setTerminalCount(terminalCount + 1);
@@ -168,19 +259,35 @@ export const EditorPanel = memo(
           <PanelGroup direction="horizontal">
             <Panel defaultSize={20} minSize={10} collapsible>
               <div className="flex flex-col border-r border-bolt-elements-borderColor h-full bg-[var(--bolt-bg-panel,#0f0f11)]">
-                <PanelHeader>
-                  <div className="i-ph:folder-simple-duotone shrink-0 opacity-60" />
-                  Fichiers
+                <PanelHeader className="gap-3">
+                  <SidebarTab
+                    icon="i-ph:folder-simple-duotone"
+                    label="Fichiers"
+                    active={sidebarView === 'files'}
+                    onClick={() => setSidebarView('files')}
+                  />
+                  <SidebarTab
+                    icon="i-ph:magnifying-glass"
+                    label="Rechercher"
+                    active={sidebarView === 'search'}
+                    onClick={() => setSidebarView('search')}
+                  />
                 </PanelHeader>
                 <div className="flex-1 overflow-y-auto">
-                  <FileTree
-                    files={files}
-                    hideRoot
-                    unsavedFiles={unsavedFiles}
-                    rootFolder={WORK_DIR}
-                    selectedFile={selectedFile}
-                    onFileSelect={onFileSelect}
-                  />
+                  {sidebarView === 'files' ? (
+                    <FileTree
+                      files={files}
+                      hideRoot
+                      unsavedFiles={unsavedFiles}
+                      rootFolder={WORK_DIR}
+                      selectedFile={selectedFile}
+                      onFileSelect={onFileSelect}
+                      onFilesDrop={importZipFiles}
+                      className="min-h-full"
+                    />
+                  ) : (
+                    <SearchPanel files={files} onBeforeReplace={onBeforeReplace} />
+                  )}
                 </div>
               </div>
             </Panel>
@@ -188,7 +295,15 @@ export const EditorPanel = memo(
             <Panel className="flex flex-col" defaultSize={80} minSize={20}>
               {/* Editor content - no header, breadcrumb moved to unified Workbench header */}
               <div className="h-full flex-1 overflow-hidden relative">
-                {showDiff && canShowDiff && editorDocument ? (
+                {showMerge && conflictCount > 0 && editorDocument ? (
+                  <MergeConflictViewer
+                    content={editorDocument.value}
+                    fileName={editorDocument.filePath.split('/').pop()}
+                    onChange={(content) => workbenchStore.setDocumentContent(editorDocument.filePath, content)}
+                  />
+                ) : showHistory && editorDocument ? (
+                  <FileHistoryPanel filePath={editorDocument.filePath} content={editorDocument.value} />
+                ) : showDiff && canShowDiff && editorDocument ? (
                   <DiffViewer
                     originalContent={originalContent}
                     modifiedContent={editorDocument.value}
@@ -204,25 +319,80 @@ export const EditorPanel = memo(
                     onScroll={onEditorScroll}
                     onChange={onEditorChange}
                     onSave={onFileSave}
+                    onOpenFile={onFileSelect}
+                    reveal={editorReveal}
+                    blame={editorBlame}
                   />
                 )}
                 <EditorAgentOverlay filePath={editorDocument?.filePath} />
-                {/* Floating Diff toggle - shows when file has modifications */}
-                {canShowDiff && (
-                  <button
-                    onClick={() => setShowDiff(!showDiff)}
-                    className={classNames(
-                      'absolute top-2 right-2 z-10 flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium transition-all',
-                      showDiff
-                        ? 'bg-[rgba(14,165,233,0.2)] text-[#38bdf8]'
-                        : 'bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary'
-                    )}
-                    title={showDiff ? 'Retour à l\'éditeur' : 'Voir les modifications'}
-                  >
-                    <div className="i-ph:git-diff text-sm" />
-                    {showDiff ? 'Éditeur' : 'Diff'}
-                  </button>
-                )}
+                {/* Floating toggles - merge when the file has conflict markers, blame and history in a repository, diff when it has modifications */}
+                <div className="absolute top-2 right-2 z-10 flex items-center gap-2">
+                  {conflictCount > 0 && (
+                    <button
+                      onClick={() => setShowMerge(!showMerge)}
+                      className={classNames(
+                        'flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium transition-all',
+                        showMerge
+                          ? 'bg-[rgba(14,165,233,0.2)] text-[#38bdf8]'
+                          : 'bg-orange-500/15 text-orange-500 hover:bg-orange-500/25',
+                      )}
+                      title={showMerge ? "Retour à l'éditeur" : 'Résoudre les conflits de fusion'}
+                    >
+                      <div className="i-ph:git-merge text-sm" />
+                      {showMerge ? 'Éditeur' : `Conflits (${conflictCount})`}
+                    </button>
+                  )}
+                  {isRepo && editorDocument && !showMerge && (
+                    <>
+                      {!showHistory && !showDiff && (
+                        <button
+                          onClick={() => setShowBlame(!showBlame)}
+                          className={classNames(
+                            'flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium transition-all',
+                            showBlame
+                              ? 'bg-[rgba(14,165,233,0.2)] text-[#38bdf8]'
+                              : 'bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary',
+                          )}
+                          title={showBlame ? 'Masquer les auteurs des lignes' : 'Voir qui a modifié chaque ligne'}
+                        >
+                          <div className="i-ph:user-list text-sm" />
+                          Blame
+                        </button>
+                      )}
+                      <button
+                        onClick={() => {
+                          setShowHistory(!showHistory);
+                          setShowDiff(false);
+                        }}
+                        className={classNames(
+                          'flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium transition-all',
+                          showHistory
+                            ? 'bg-[rgba(14,165,233,0.2)] text-[#38bdf8]'
+                            : 'bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary',
+                        )}
+                        title={showHistory ? "Retour à l'éditeur" : 'Voir les commits de ce fichier'}
+                      >
+                        <div className="i-ph:clock-counter-clockwise text-sm" />
+                        {showHistory ? 'Éditeur' : 'Historique'}
+                      </button>
+                    </>
+                  )}
+                  {canShowDiff && !showMerge && !showHistory && (
+                    <button
+                      onClick={() => setShowDiff(!showDiff)}
+                      className={classNames(
+                        'flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium transition-all',
+                        showDiff
+                          ? 'bg-[rgba(14,165,233,0.2)] text-[#38bdf8]'
+                          : 'bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary',
+                      )}
+                      title={showDiff ? "Retour à l'éditeur" : 'Voir les modifications'}
+                    >
+                      <div className="i-ph:git-diff text-sm" />
+                      {showDiff ? 'Éditeur' : 'Diff'}
+                    </button>
+                  )}
+                </div>
               </div>
             </Panel>
           </PanelGroup>
@@ -331,3 +501,26 @@ export const EditorPanel = memo(
     );
   },
 );
+
+interface SidebarTabProps {
+  icon: string;
+  label: string;
+  active: boolean;
+  onClick: () => void;
+}
+
+function SidebarTab({ icon, label, active, onClick }: SidebarTabProps) {
+  return (
+    <button
+      className={classNames('flex items-center gap-1.5 uppercase tracking-[0.5px] transition-colors', {
+        'text-bolt-elements-textPrimary': active,
+        'text-bolt-elements-textTertiary hover:text-bolt-elements-textSecondary': !active,
+      })}
+      aria-pressed={active}
+      onClick={onClick}
+    >
+      <div className={classNames(icon, 'shrink-0 opacity-60')} />
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useStore } from '@nanostores/react';
+import { memo, useEffect, useRef, useState } from 'react';
+import { toast } from 'react-toastify';
+import { IconButton } from '~/components/ui/IconButton';
+import { description } from '~/lib/persistence/useChatHistory';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ExportMenu');
+
+type ExportKind = 'source' | 'build';
+
+/**
+ * Téléchargement du projet: sources (sans les fichiers ignorés par .gitignore)
+ * ou build de production, en archive ZIP
+ */
+export const ExportMenu = memo(() => {
+  const projectDescription = useStore(description);
+  const [isOpen, setIsOpen] = useState(false);
+  const [pending, setPending] = useState<ExportKind | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return undefined;
+    }
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    window.addEventListener('mousedown', handleClickOutside);
+
+    return () => window.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleExport = async (kind: ExportKind) => {
+    setIsOpen(false);
+    setPending(kind);
+
+    try {
+      const name = toFileName(projectDescription);
+
+      if (kind === 'source') {
+        downloadZip(workbenchStore.getSourceZip(), `${name}.zip`);
+      } else {
+        downloadZip(await workbenchStore.getProductionBuildZip(), `${name}-dist.zip`);
+      }
+    } catch (error) {
+      logger.error('Export failed:', error);
+      toast.error(kind === 'source' ? 'Impossible de télécharger les sources' : 'Le build de production a échoué');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <IconButton
+        icon={pending ? 'i-svg-spinners:90-ring-with-bg' : 'i-ph:download-simple'}
+        className="!bg-transparent hover:!bg-bolt-elements-background-depth-3"
+        size="md"
+        title="Télécharger"
+        disabled={pending !== null}
+        onClick={() => setIsOpen(!isOpen)}
+      />
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 min-w-[220px] z-50 dropdown-animation rounded-lg overflow-hidden bg-[var(--bolt-glass-background-elevated)] backdrop-blur-[var(--bolt-glass-blur)] border border-[var(--bolt-glass-border)] shadow-[var(--bolt-glass-shadow)]">
+          <ExportItem
+            icon="i-ph:file-zip"
+            label="Code source (.zip)"
+            hint="Sans les fichiers ignorés par .gitignore"
+            onClick={() => handleExport('source')}
+          />
+          <ExportItem
+            icon="i-ph:package"
+            label="Build de production (.zip)"
+            hint="Minifié, prêt à déployer"
+            onClick={() => handleExport('build')}
+          />
+        </div>
+      )}
+    </div>
+  );
+});
+
+ExportMenu.displayName = 'ExportMenu';
+
+interface ExportItemProps {
+  icon: string;
+  label: string;
+  hint: string;
+  onClick: () => void;
+}
+
+function ExportItem({ icon, label, hint, onClick }: ExportItemProps) {
+  return (
+    <button
+      className="w-full flex items-start gap-2 px-4 py-2 text-left hover:bg-bolt-elements-item-backgroundActive"
+      onClick={onClick}
+    >
+      <div className={`${icon} mt-0.5 text-bolt-elements-textSecondary`} />
+      <div>
+        <div className="text-xs text-bolt-elements-textPrimary">{label}</div>
+        <div className="text-[11px] text-bolt-elements-textTertiary">{hint}</div>
+      </div>
+    </button>
+  );
+}
+
+function downloadZip(data: Uint8Array, fileName: string) {
+  const url = URL.createObjectURL(new Blob([new Uint8Array(data)], { type: 'application/zip' }));
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  // laisser le navigateur démarrer le téléchargement avant de libérer l'URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function toFileName(projectDescription: string | undefined): string {
+  const slug = (projectDescription ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+  return slug || 'projet';
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import { memo, useEffect, useState } from 'react';
+import { DiffViewer } from '~/components/editor/DiffViewer';
+import { fileLog, readFileAtCommit, type LogEntry } from '~/lib/git/operations';
+import { classNames } from '~/utils/classNames';
+import { WORK_DIR } from '~/utils/constants';
+
+interface FileHistoryPanelProps {
+  filePath: string;
+
+  /** Copie de travail, comparée à la version du commit sélectionné */
+  content: string;
+}
+
+/**
+ * Commits qui ont modifié le fichier ouvert, et le diff de la version d'un
+ * commit avec la copie de travail.
+ */
+export const FileHistoryPanel = memo(({ filePath, content }: FileHistoryPanelProps) => {
+  const [commits, setCommits] = useState<LogEntry[] | null>(null);
+  const [selected, setSelected] = useState<LogEntry | null>(null);
+  const [selectedContent, setSelectedContent] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setCommits(null);
+    setSelected(null);
+
+    fileLog(WORK_DIR, toRepoPath(filePath)).then((entries) => {
+      if (!cancelled) {
+        setCommits(entries);
+        setSelected(entries[0] ?? null);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setSelectedContent(null);
+
+    if (!selected) {
+      return undefined;
+    }
+
+    readFileAtCommit(WORK_DIR, selected.oid, toRepoPath(filePath)).then((version) => {
+      if (!cancelled) {
+        setSelectedContent(version ?? '');
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selected, filePath]);
+
+  return (
+    <div className="flex h-full bg-bolt-elements-background-depth-1">
+      <div className="w-72 shrink-0 flex flex-col border-r border-bolt-elements-borderColor">
+        <div className="flex items-center gap-2 px-4 py-2 bg-bolt-elements-background-depth-2 border-b border-bolt-elements-borderColor">
+          <div className="i-ph:clock-counter-clockwise text-lg text-bolt-elements-textSecondary" />
+          <span className="text-sm font-medium text-bolt-elements-textPrimary">Historique</span>
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          {commits === null ? (
+            <div className="p-4 text-xs text-bolt-elements-textTertiary">Chargement…</div>
+          ) : commits.length === 0 ? (
+            <div className="p-4 text-xs text-bolt-elements-textTertiary">Aucun commit pour ce fichier</div>
+          ) : (
+            commits.map((commit) => (
+              <CommitItem
+                key={commit.oid}
+                commit={commit}
+                active={commit.oid === selected?.oid}
+                onSelect={() => setSelected(commit)}
+              />
+            ))
+          )}
+        </div>
+      </div>
+      <div className="flex-1 min-w-0">
+        {selected && selectedContent !== null && (
+          <DiffViewer
+            title={`${selected.oid.slice(0, 7)} → copie de travail`}
+            originalContent={selectedContent}
+            modifiedContent={content}
+          />
+        )}
+      </div>
+    </div>
+  );
+});
+
+FileHistoryPanel.displayName = 'FileHistoryPanel';
+
+interface CommitItemProps {
+  commit: LogEntry;
+  active: boolean;
+  onSelect: () => void;
+}
+
+function CommitItem({ commit, active, onSelect }: CommitItemProps) {
+  const [summary] = commit.message.split('\n');
+
+  return (
+    <div
+      className={classNames('px-4 py-2 border-b border-bolt-elements-borderColor cursor-pointer text-xs', {
+        'bg-bolt-elements-background-depth-3': active,
+        'hover:bg-bolt-elements-background-depth-2': !active,
+      })}
+      onClick={onSelect}
+    >
+      <div className="truncate text-bolt-elements-textPrimary" title={commit.message}>
+        {summary}
+      </div>
+      <div className="flex items-center gap-2 mt-1 text-bolt-elements-textTertiary">
+        <span className="font-mono">{commit.oid.slice(0, 7)}</span>
+        <span className="truncate">{commit.author.name}</span>
+        <span className="ml-auto shrink-0">{new Date(commit.author.timestamp * 1000).toLocaleDateString('fr-FR')}</span>
+      </div>
+      {commit.chatId && (
+        <a
+          href={`/chat/${commit.chatId}`}
+          className="inline-flex items-center gap-1 mt-1 text-[#38bdf8] hover:underline"
+          onClick={(event) => event.stopPropagation()}
+        >
+          <div className="i-ph:chat-circle-text" />
+          Voir la discussion
+        </a>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Chemin du fichier dans le dépôt, à la racine du projet
+ */
+export function toRepoPath(filePath: string): string {
+  return filePath.startsWith(`${WORK_DIR}/`) ? filePath.substring(WORK_DIR.length + 1) : filePath;
+}
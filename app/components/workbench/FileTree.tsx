@@ -1,6 +1,6 @@
 'use client';
 
-import { memo, useEffect, useMemo, useRef, useState, useCallback, type ReactNode } from 'react';
+import { memo, useEffect, useMemo, useRef, useState, useCallback, type DragEvent, type ReactNode } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import type { FileMap } from '~/lib/stores/files';
 import { classNames } from '~/utils/classNames';
@@ -26,6 +26,9 @@ interface Props {
   hiddenFiles?: Array<string | RegExp>;
   unsavedFiles?: Set<string>;
   className?: string;
+
+  /** Fichiers déposés depuis le système sur l'arborescence */
+  onFilesDrop?: (files: File[]) => void;
 }
 
 export const FileTree = memo(
@@ -40,6 +43,7 @@ export const FileTree = memo(
     hiddenFiles,
     className,
     unsavedFiles,
+    onFilesDrop,
   }: Props) => {
     renderLogger.trace('FileTree');
 
@@ -171,6 +175,33 @@ export const FileTree = memo(
       [selectedFile, unsavedFiles, allowFolderSelection, collapsedFolders, handleFileClick, toggleCollapseState],
     );
 
+    const [isDragOver, setIsDragOver] = useState(false);
+
+    const dropHandlers = onFilesDrop
+      ? {
+          onDragOver: (event: DragEvent<HTMLDivElement>) => {
+            if (event.dataTransfer.types.includes('Files')) {
+              event.preventDefault();
+              setIsDragOver(true);
+            }
+          },
+          onDragLeave: (event: DragEvent<HTMLDivElement>) => {
+            if (!event.currentTarget.contains(event.relatedTarget as Element | null)) {
+              setIsDragOver(false);
+            }
+          },
+          onDrop: (event: DragEvent<HTMLDivElement>) => {
+            event.preventDefault();
+            setIsDragOver(false);
+            onFilesDrop(Array.from(event.dataTransfer.files));
+          },
+        }
+      : {};
+
+    const dropClassName = {
+      'outline outline-1 -outline-offset-1 outline-[#38bdf8] bg-[rgba(14,165,233,0.05)]': isDragOver,
+    };
+
     // Mode virtualisé pour grandes listes
     if (shouldVirtualize) {
       return (
@@ -178,7 +209,8 @@ export const FileTree = memo(
           ref={scrollContainerRef}
           role="tree"
           aria-label="Explorateur de fichiers"
-          className={classNames('text-sm overflow-auto', className)}
+          className={classNames('text-sm overflow-auto', className, dropClassName)}
+          {...dropHandlers}
           style={{ height: '100%' }}
         >
           <div
@@ -213,7 +245,12 @@ export const FileTree = memo(
 
     // Mode standard pour petites listes (pas de virtualisation)
     return (
-      <div role="tree" aria-label="Explorateur de fichiers" className={classNames('text-sm', className)}>
+      <div
+        role="tree"
+        aria-label="Explorateur de fichiers"
+        className={classNames('text-sm', className, dropClassName)}
+        {...dropHandlers}
+      >
         {filteredFileList.map((fileOrFolder) => renderItem(fileOrFolder))}
       </div>
     );
@@ -263,7 +300,8 @@ const File = memo(({ file: { depth, name }, onClick, selected, unsavedChanges =
   return (
     <NodeButton
       className={classNames('group', {
-        'bg-transparent hover:bg-[var(--bolt-bg-hover,#1a1a1e)] text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary': !selected,
+        'bg-transparent hover:bg-[var(--bolt-bg-hover,#1a1a1e)] text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary':
+          !selected,
         'bg-[var(--bolt-bg-hover,#1a1a1e)] text-bolt-elements-textPrimary border-l-[#0ea5e9]': selected,
       })}
       depth={depth}
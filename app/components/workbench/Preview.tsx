@@ -240,8 +240,15 @@ export const Preview = memo(() => {
           break;
 
         case 'error':
-          // Handle runtime errors from preview
-          logger.error('[Preview Error]', payload?.message, payload?.stack);
+          // Handle runtime errors from preview, shown in its overlay at their original location
+          showRuntimeError(event.source as Window | null, payload);
+          break;
+
+        case 'bavini-open-file':
+          // A stack frame of the error overlay was clicked
+          if (typeof payload?.file === 'string') {
+            workbenchStore.openProjectLocation(payload.file, Number(payload.line) || 1, Number(payload.column) || 1);
+          }
           break;
 
         case 'ready':
@@ -558,3 +565,23 @@ export const Preview = memo(() => {
 });
 
 Preview.displayName = 'Preview';
+
+/**
+ * Afficher une erreur d'exécution dans l'overlay du preview, avec la pile d'appels
+ * ramenée aux fichiers du projet par la source map du bundle
+ */
+async function showRuntimeError(source: Window | null, payload?: { message?: string; stack?: string }) {
+  if (!payload?.message) {
+    return;
+  }
+
+  try {
+    const error = await workbenchStore.remapPreviewError(payload.message, payload.stack);
+
+    logger.error('[Preview Error]', error.message, error.stack);
+    source?.postMessage({ type: 'bavini-error-overlay', payload: error }, '*');
+  } catch (error) {
+    logger.error('[Preview Error]', payload.message, payload.stack);
+    logger.warn('Stack trace remapping failed:', error);
+  }
+}
@@ -0,0 +1,331 @@
+'use client';
+
+import { memo, useCallback, useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
+import { useDebounce } from '~/lib/hooks';
+import type { FileMap } from '~/lib/stores/files';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import {
+  previewReplacement,
+  replaceInContent,
+  searchFiles,
+  type SearchMatch,
+  type SearchOptions,
+  type SearchResults,
+} from '~/utils/search';
+
+const logger = createScopedLogger('SearchPanel');
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+interface SearchPanelProps {
+  files?: FileMap;
+
+  /** Called before a replace is written, to keep a checkpoint of the files */
+  onBeforeReplace?: (description: string) => Promise<unknown>;
+}
+
+type SearchOutcome = { results: SearchResults; error?: undefined } | { results?: undefined; error: string };
+
+export const SearchPanel = memo(({ files, onBeforeReplace }: SearchPanelProps) => {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [showReplace, setShowReplace] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [isRegex, setIsRegex] = useState(false);
+  const [include, setInclude] = useState('');
+  const [exclude, setExclude] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [isReplacing, setIsReplacing] = useState(false);
+
+  const options = useMemo<SearchOptions>(
+    () => ({ query, caseSensitive, wholeWord, isRegex, include, exclude }),
+    [query, caseSensitive, wholeWord, isRegex, include, exclude],
+  );
+  const debouncedOptions = useDebounce(options, SEARCH_DEBOUNCE_MS);
+
+  const outcome = useMemo<SearchOutcome>(() => {
+    try {
+      return { results: searchFiles(files ?? {}, debouncedOptions) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [files, debouncedOptions]);
+
+  const resultFiles = useMemo(
+    () => outcome.results?.files.filter(({ filePath }) => !dismissed.has(filePath)) ?? [],
+    [outcome, dismissed],
+  );
+  const matchCount = resultFiles.reduce((count, file) => count + file.matches.length, 0);
+
+  const toggleCollapsed = useCallback((filePath: string) => {
+    setCollapsed((previous) => {
+      const next = new Set(previous);
+
+      if (!next.delete(filePath)) {
+        next.add(filePath);
+      }
+
+      return next;
+    });
+  }, []);
+
+  const dismiss = useCallback((filePath: string) => {
+    setDismissed((previous) => new Set(previous).add(filePath));
+  }, []);
+
+  const updateQuery = useCallback((value: string) => {
+    setQuery(value);
+    setDismissed(new Set());
+  }, []);
+
+  const replaceAll = useCallback(async () => {
+    if (resultFiles.length === 0 || isReplacing) {
+      return;
+    }
+
+    setIsReplacing(true);
+
+    try {
+      await onBeforeReplace?.(`Avant le remplacement de "${debouncedOptions.query}" par "${replacement}"`);
+
+      const contents: Record<string, string> = {};
+
+      for (const { filePath } of resultFiles) {
+        const dirent = files?.[filePath];
+        const content =
+          workbenchStore.getDocumentContent(filePath) ?? (dirent?.type === 'file' ? dirent.content : undefined);
+
+        if (content !== undefined) {
+          contents[filePath] = replaceInContent(content, debouncedOptions, replacement);
+        }
+      }
+
+      await workbenchStore.replaceInFiles(contents);
+
+      toast.success(`${matchCount} occurrence(s) remplacée(s) dans ${Object.keys(contents).length} fichier(s)`);
+      setDismissed(new Set());
+    } catch (error) {
+      logger.error('Replace failed:', error);
+      toast.error('Échec du remplacement');
+    } finally {
+      setIsReplacing(false);
+    }
+  }, [resultFiles, files, debouncedOptions, replacement, matchCount, isReplacing, onBeforeReplace]);
+
+  return (
+    <div className="flex flex-col h-full text-[13px]">
+      <div className="flex flex-col gap-1.5 p-2 border-b border-bolt-elements-borderColor">
+        <div className="flex items-start gap-1">
+          <button
+            className="mt-1 text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary"
+            title={showReplace ? 'Masquer le remplacement' : 'Remplacer'}
+            aria-label={showReplace ? 'Masquer le remplacement' : 'Remplacer'}
+            onClick={() => setShowReplace(!showReplace)}
+          >
+            <div className={showReplace ? 'i-ph:caret-down' : 'i-ph:caret-right'} />
+          </button>
+          <div className="flex flex-1 flex-col gap-1.5 min-w-0">
+            <div className="flex items-center gap-0.5 rounded-md bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor focus-within:border-bolt-elements-borderColorActive">
+              <input
+                className="flex-1 min-w-0 bg-transparent px-2 py-1 text-bolt-elements-textPrimary outline-none"
+                placeholder="Rechercher"
+                aria-label="Rechercher dans le projet"
+                value={query}
+                onChange={(event) => updateQuery(event.target.value)}
+              />
+              <OptionToggle label="Respecter la casse" active={caseSensitive} onToggle={setCaseSensitive}>
+                Aa
+              </OptionToggle>
+              <OptionToggle label="Mot entier" active={wholeWord} onToggle={setWholeWord}>
+                <span className="underline">ab</span>
+              </OptionToggle>
+              <OptionToggle label="Expression régulière" active={isRegex} onToggle={setIsRegex}>
+                .*
+              </OptionToggle>
+            </div>
+            {showReplace && (
+              <div className="flex items-center gap-1">
+                <input
+                  className="flex-1 min-w-0 rounded-md bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor px-2 py-1 text-bolt-elements-textPrimary outline-none focus:border-bolt-elements-borderColorActive"
+                  placeholder={isRegex ? 'Remplacer ($1 pour un groupe)' : 'Remplacer'}
+                  aria-label="Texte de remplacement"
+                  value={replacement}
+                  onChange={(event) => setReplacement(event.target.value)}
+                />
+                <button
+                  className="shrink-0 px-2 py-1 rounded-md text-xs bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text enabled:hover:bg-bolt-elements-button-primary-backgroundHover disabled:opacity-40"
+                  title="Remplacer toutes les occurrences affichées"
+                  disabled={matchCount === 0 || isReplacing}
+                  onClick={replaceAll}
+                >
+                  Tout remplacer
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+        <button
+          className="self-end text-xs text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary"
+          onClick={() => setShowFilters(!showFilters)}
+          aria-expanded={showFilters}
+        >
+          {showFilters ? 'Masquer les filtres' : 'Filtres de fichiers'}
+        </button>
+        {showFilters && (
+          <div className="flex flex-col gap-1.5">
+            <input
+              className="rounded-md bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor px-2 py-1 text-xs text-bolt-elements-textPrimary outline-none focus:border-bolt-elements-borderColorActive"
+              placeholder="Fichiers à inclure (ex: src/**, *.tsx)"
+              aria-label="Fichiers à inclure"
+              value={include}
+              onChange={(event) => setInclude(event.target.value)}
+            />
+            <input
+              className="rounded-md bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor px-2 py-1 text-xs text-bolt-elements-textPrimary outline-none focus:border-bolt-elements-borderColorActive"
+              placeholder="Fichiers à exclure (ex: *.spec.ts, public/)"
+              aria-label="Fichiers à exclure"
+              value={exclude}
+              onChange={(event) => setExclude(event.target.value)}
+            />
+          </div>
+        )}
+      </div>
+      <div className="px-3 py-1.5 text-xs text-bolt-elements-textTertiary">
+        {outcome.error ? (
+          <span className="text-bolt-elements-icon-error">{outcome.error}</span>
+        ) : debouncedOptions.query ? (
+          `${matchCount} résultat(s) dans ${resultFiles.length} fichier(s)${outcome.results?.truncated ? ' (limite atteinte)' : ''}`
+        ) : null}
+      </div>
+      <div className="flex-1 overflow-y-auto" role="tree" aria-label="Résultats de recherche">
+        {resultFiles.map(({ filePath, matches }) => (
+          <div key={filePath} role="treeitem" aria-expanded={!collapsed.has(filePath)}>
+            <div className="group flex items-center gap-1 px-2 py-1 hover:bg-bolt-elements-item-backgroundActive">
+              <button
+                className="flex flex-1 items-center gap-1.5 min-w-0 text-left"
+                onClick={() => toggleCollapsed(filePath)}
+              >
+                <div
+                  className={classNames('shrink-0 text-bolt-elements-textTertiary', {
+                    'i-ph:caret-right': collapsed.has(filePath),
+                    'i-ph:caret-down': !collapsed.has(filePath),
+                  })}
+                />
+                <span className="truncate text-bolt-elements-textPrimary">{filePath.split('/').pop()}</span>
+                <span className="truncate text-xs text-bolt-elements-textTertiary">{relativeFolder(filePath)}</span>
+              </button>
+              <span className="shrink-0 rounded-full px-1.5 text-xs bg-bolt-elements-background-depth-3 text-bolt-elements-textSecondary">
+                {matches.length}
+              </span>
+              <button
+                className="shrink-0 opacity-0 group-hover:opacity-100 text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary"
+                title="Retirer ce fichier des résultats"
+                aria-label={`Retirer ${filePath} des résultats`}
+                onClick={() => dismiss(filePath)}
+              >
+                <div className="i-ph:x" />
+              </button>
+            </div>
+            {!collapsed.has(filePath) &&
+              matches.map((match) => (
+                <MatchRow
+                  key={`${match.line}:${match.column}`}
+                  filePath={filePath}
+                  match={match}
+                  replacement={showReplace ? previewReplacement(match, debouncedOptions, replacement) : undefined}
+                />
+              ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+SearchPanel.displayName = 'SearchPanel';
+
+interface OptionToggleProps {
+  label: string;
+  active: boolean;
+  onToggle: (active: boolean) => void;
+  children: React.ReactNode;
+}
+
+function OptionToggle({ label, active, onToggle, children }: OptionToggleProps) {
+  return (
+    <button
+      className={classNames('shrink-0 px-1 mr-0.5 rounded text-xs font-mono', {
+        'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent': active,
+        'text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary': !active,
+      })}
+      title={label}
+      aria-label={label}
+      aria-pressed={active}
+      onClick={() => onToggle(!active)}
+    >
+      {children}
+    </button>
+  );
+}
+
+interface MatchRowProps {
+  filePath: string;
+  match: SearchMatch;
+
+  /** Text replacing the match, shown as a preview when replacing */
+  replacement?: string;
+}
+
+/**
+ * Characters of the line kept before a match
+ */
+const MATCH_CONTEXT = 30;
+
+const MatchRow = memo(({ filePath, match, replacement }: MatchRowProps) => {
+  const start = Math.max(0, match.column - MATCH_CONTEXT);
+  const before = (start > 0 ? '…' : '') + match.lineText.substring(start, match.column).trimStart();
+  const text = match.lineText.substring(match.column, match.column + match.length);
+  const after = match.lineText.substring(match.column + match.length);
+
+  return (
+    <button
+      className="flex w-full items-baseline gap-2 pl-7 pr-2 py-0.5 text-left hover:bg-bolt-elements-item-backgroundActive"
+      title={`Ligne ${match.line}`}
+      onClick={() =>
+        workbenchStore.revealLocation({ filePath, line: match.line, column: match.column, length: match.length })
+      }
+    >
+      <span className="shrink-0 text-xs text-bolt-elements-textTertiary">{match.line}</span>
+      <span className="truncate font-mono text-xs text-bolt-elements-textSecondary whitespace-pre">
+        {before}
+        <span
+          className={classNames('rounded-sm text-bolt-elements-textPrimary', {
+            'bg-yellow-500/30': replacement === undefined,
+            'bg-red-500/30 line-through': replacement !== undefined,
+          })}
+        >
+          {text}
+        </span>
+        {replacement !== undefined && (
+          <span className="rounded-sm bg-green-500/30 text-bolt-elements-textPrimary">{replacement}</span>
+        )}
+        {after}
+      </span>
+    </button>
+  );
+});
+
+MatchRow.displayName = 'MatchRow';
+
+function relativeFolder(filePath: string) {
+  const folder = filePath.substring(0, filePath.lastIndexOf('/'));
+
+  return folder.startsWith(WORK_DIR) ? folder.substring(WORK_DIR.length + 1) : folder;
+}
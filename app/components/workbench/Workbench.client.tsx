@@ -100,6 +100,8 @@ import { AgentProgressBanner } from './AgentWorkbenchIndicators';
 import { DeviceSelector } from './DeviceSelector';
 import { PortDropdown } from './PortDropdown';
 import { ExpandableConnectors } from './ExpandableConnectors';
+import { ExportMenu } from './ExportMenu';
+import { BundleAnalyzer } from './BundleAnalyzer';
 
 const logger = createScopedLogger('Workbench');
 
@@ -304,6 +306,12 @@ export const Workbench = memo(({ chatStarted, isStreaming }: WorkspaceProps) =>
     }
   }, [currentChatId, createCheckpoint, resetBaseline]);
 
+  // Checkpoint before a project-wide replace, restorable from the timeline
+  const handleBeforeReplace = useCallback(
+    (description: string) => createCheckpoint(description, 'before_action'),
+    [createCheckpoint],
+  );
+
   const handleSelectCheckpoint = useCallback(
     (checkpointId: string) => {
       const checkpoint = checkpoints.find((cp) => cp.id === checkpointId);
@@ -538,6 +546,8 @@ export const Workbench = memo(({ chatStarted, isStreaming }: WorkspaceProps) =>
                   )}
                   {/* Device Selector */}
                   <DeviceSelector />
+              {/* Bundle Analyzer */}
+              <BundleAnalyzer />
                 </div>
               )}
 
@@ -598,6 +608,9 @@ export const Workbench = memo(({ chatStarted, isStreaming }: WorkspaceProps) =>
                 </div>
               )}
 
+          {/* Download sources or production build */}
+          <ExportMenu />
+
               {/* Terminal - icon only (Code mode) */}
               {selectedView === 'code' && (
                 <IconButton
@@ -637,6 +650,7 @@ export const Workbench = memo(({ chatStarted, isStreaming }: WorkspaceProps) =>
                     onEditorChange={onEditorChange}
                     onFileSave={onFileSave}
                     onFileReset={onFileReset}
+                    onBeforeReplace={handleBeforeReplace}
                   />
                 </ErrorBoundary>
               </View>
@@ -26,7 +26,7 @@ vi.mock('~/lib/.server/llm/api-key', () => ({
 
 // Mock the model module
 vi.mock('~/lib/.server/llm/model', () => ({
-  getAnthropicModel: vi.fn(() => 'claude-3-5-sonnet-20241022'),
+  getModel: vi.fn(() => 'claude-3-5-sonnet-20241022'),
 }));
 
 // Mock the web-search module
@@ -36,8 +36,9 @@ vi.mock('~/lib/.server/llm/web-search', () => ({
   isWebSearchAvailable: vi.fn(() => false),
 }));
 
-// Mock the skill loader
-vi.mock('~/lib/skills', () => ({
+// Mock the skill loader, the skills registry stays real
+vi.mock('~/lib/skills', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('~/lib/skills')>()),
   loadFrontendDesignSkill: vi.fn(() => ({
     metadata: { name: 'frontend-design', description: 'Test skill' },
     content: `## Design Thinking
@@ -0,0 +1,97 @@
+/**
+ * Stream Text - Record/Replay Tests
+ *
+ * The chat stream is recorded part by part and replayed without calling the model.
+ *
+ * @module llm/__tests__/stream-text-replay.spec
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MockLanguageModelV3, simulateReadableStream } from 'ai/test';
+import { LLMRecording, setActiveRecording } from '~/lib/replay';
+
+const model = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock('~/lib/.server/llm/model', () => ({
+  getModel: vi.fn(() => model.current),
+}));
+
+vi.mock('~/lib/.server/llm/web-search', () => ({
+  createWebSearchTools: vi.fn(() => ({})),
+  getWebSearchStatus: vi.fn(() => ''),
+  isWebSearchAvailable: vi.fn(() => false),
+}));
+
+import { streamText } from '../stream-text';
+
+const env = {} as Env;
+
+const USAGE = {
+  inputTokens: { total: 10, noCache: 10, cacheRead: undefined, cacheWrite: undefined },
+  outputTokens: { total: 4, text: 4, reasoning: undefined },
+};
+
+function useModel(deltas: string[] | null) {
+  const mock = new MockLanguageModelV3({
+    doStream: async () => {
+      if (!deltas) {
+        throw new Error('Network access during replay');
+      }
+
+      return {
+        stream: simulateReadableStream({
+          chunks: [
+            { type: 'text-start' as const, id: 't1' },
+            ...deltas.map((delta) => ({ type: 'text-delta' as const, id: 't1', delta })),
+            { type: 'text-end' as const, id: 't1' },
+            { type: 'finish' as const, usage: USAGE, finishReason: { unified: 'stop' as const, raw: 'end_turn' } },
+          ],
+        }),
+      };
+    },
+  });
+
+  model.current = mock;
+
+  return mock;
+}
+
+async function readText(): Promise<string> {
+  let text = '';
+
+  for await (const chunk of streamText([{ id: '1', role: 'user', content: 'Bonjour' }], env).textStream) {
+    text += chunk;
+  }
+
+  return text;
+}
+
+describe('streamText with a session recording', () => {
+  afterEach(() => {
+    setActiveRecording(null);
+  });
+
+  it('should record the chat stream and replay it offline', async () => {
+    const recorder = new LLMRecording({ mode: 'record' });
+    setActiveRecording(recorder);
+    useModel(['Bonjour', ', que ', 'puis-je faire ?']);
+
+    expect(await readText()).toBe('Bonjour, que puis-je faire ?');
+    expect(recorder.interactions).toHaveLength(1);
+    expect(recorder.interactions[0]).toMatchObject({ kind: 'stream', source: 'chat' });
+
+    setActiveRecording(new LLMRecording({ mode: 'replay', fixture: recorder.toJSON() }));
+
+    const offline = useModel(null);
+
+    expect(await readText()).toBe('Bonjour, que puis-je faire ?');
+    expect(offline.doStreamCalls).toHaveLength(0);
+  });
+
+  it('should call the model directly without a recording', async () => {
+    const mock = useModel(['Salut']);
+
+    expect(await readText()).toBe('Salut');
+    expect(mock.doStreamCalls).toHaveLength(1);
+  });
+});
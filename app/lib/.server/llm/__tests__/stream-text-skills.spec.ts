@@ -0,0 +1,88 @@
+/**
+ * Stream Text - Skills Tests
+ *
+ * The skills are selected from the request of the user, without the file
+ * modifications and action failures the chat puts before it.
+ *
+ * @module llm/__tests__/stream-text-skills.spec
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('ai', () => ({
+  streamText: vi.fn(() => ({
+    textStream: (async function* () {
+      yield 'ok';
+    })(),
+  })),
+  stepCountIs: vi.fn((n) => n),
+}));
+
+vi.mock('~/lib/.server/llm/model', () => ({
+  getModel: vi.fn(() => 'claude-sonnet-4-5-20250929'),
+}));
+
+vi.mock('~/lib/.server/llm/web-search', () => ({
+  createWebSearchTools: vi.fn(() => ({})),
+  getWebSearchStatus: vi.fn(() => ''),
+  isWebSearchAvailable: vi.fn(() => false),
+}));
+
+import { streamText as _aiStreamText } from 'ai';
+import { streamText } from '../stream-text';
+
+const SKILLS = [
+  {
+    path: '/home/project/.bavini/skills/changelog/SKILL.md',
+    content: `---
+description: Update the changelog of the project before a release
+disable-model-invocation: true
+---
+
+Add an entry under "Unreleased".`,
+  },
+  {
+    path: '/home/project/.bavini/skills/testing/SKILL.md',
+    content: `---
+description: Write unit tests with Vitest and Testing Library for React components
+---
+
+Always colocate the tests with the components.`,
+  },
+];
+
+const MODIFICATIONS = `<bolt_file_modifications>
+<diff path="src/Button.spec.tsx">
+@@ -1,3 +1,4 @@
++// unit tests with Vitest and Testing Library for the React components
+</diff>
+</bolt_file_modifications>`;
+
+function getSystemPrompt(): string {
+  return vi.mocked(_aiStreamText).mock.calls[0][0].system as string;
+}
+
+describe('Stream Text - Skills', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should invoke a /skill after the file modifications of the message', () => {
+    streamText([{ id: '1', role: 'user', content: `${MODIFICATIONS}\n\n/changelog version 2.0` }], {} as Env, {
+      skills: SKILLS,
+      designGuidelines: { enabled: false },
+    });
+
+    expect(getSystemPrompt()).toContain('Add an entry under "Unreleased".');
+    expect(getSystemPrompt()).not.toContain('Always colocate the tests');
+  });
+
+  it('should not select skills from the file modifications of the message', () => {
+    streamText([{ id: '1', role: 'user', content: `${MODIFICATIONS}\n\nRenomme le bouton` }], {} as Env, {
+      skills: SKILLS,
+      designGuidelines: { enabled: false },
+    });
+
+    expect(getSystemPrompt()).not.toContain('ACTIVE SKILLS');
+  });
+});
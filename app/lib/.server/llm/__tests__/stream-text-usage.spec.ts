@@ -0,0 +1,88 @@
+/**
+ * Stream Text - Usage Tests
+ *
+ * The tokens of the stream are reported before onFinish and before the text ends,
+ * so /api/chat can send them to the client before closing the response.
+ *
+ * @module llm/__tests__/stream-text-usage.spec
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { MockLanguageModelV3, simulateReadableStream } from 'ai/test';
+
+const model = vi.hoisted(() => ({ current: null as unknown }));
+
+vi.mock('~/lib/.server/llm/model', () => ({
+  getModel: vi.fn(() => model.current),
+}));
+
+vi.mock('~/lib/.server/llm/web-search', () => ({
+  createWebSearchTools: vi.fn(() => ({})),
+  getWebSearchStatus: vi.fn(() => ''),
+  isWebSearchAvailable: vi.fn(() => false),
+}));
+
+import { streamText, toTokenUsage } from '../stream-text';
+
+const env = {} as Env;
+
+function useModel() {
+  model.current = new MockLanguageModelV3({
+    modelId: 'claude-sonnet-4-5-20250929',
+    doStream: async () => ({
+      stream: simulateReadableStream({
+        chunks: [
+          { type: 'text-start' as const, id: 't1' },
+          { type: 'text-delta' as const, id: 't1', delta: 'Bonjour' },
+          { type: 'text-end' as const, id: 't1' },
+          {
+            type: 'finish' as const,
+            usage: {
+              inputTokens: { total: 1200, noCache: 200, cacheRead: 900, cacheWrite: 100 },
+              outputTokens: { total: 40, text: 40, reasoning: undefined },
+            },
+            finishReason: { unified: 'stop' as const, raw: 'end_turn' },
+          },
+        ],
+      }),
+    }),
+  });
+}
+
+describe('streamText usage', () => {
+  it('should report the usage before onFinish and before the end of the text', async () => {
+    useModel();
+
+    const calls: string[] = [];
+    const onUsage = vi.fn(() => calls.push('usage'));
+    const onFinish = vi.fn(() => {
+      calls.push('finish');
+    });
+
+    const result = streamText([{ id: '1', role: 'user', content: 'Salut' }], env, { onUsage, onFinish });
+
+    for await (const chunk of result.textStream) {
+      calls.push(`text:${chunk}`);
+    }
+
+    calls.push('end');
+
+    expect(calls).toEqual(['text:Bonjour', 'usage', 'finish', 'end']);
+    expect(onUsage).toHaveBeenCalledWith(
+      { inputTokens: 200, outputTokens: 40, cacheReadTokens: 900, cacheWriteTokens: 100 },
+      'claude-sonnet-4-5-20250929',
+    );
+  });
+
+  it('should derive the uncached input tokens when the provider does not detail them', () => {
+    expect(
+      toTokenUsage({
+        inputTokens: 1000,
+        inputTokenDetails: { noCacheTokens: undefined, cacheReadTokens: 600, cacheWriteTokens: undefined },
+        outputTokens: 10,
+        outputTokenDetails: { textTokens: 10, reasoningTokens: undefined },
+        totalTokens: 1010,
+      }),
+    ).toEqual({ inputTokens: 400, outputTokens: 10, cacheReadTokens: 600, cacheWriteTokens: 0 });
+  });
+});
@@ -1,3 +1,5 @@
+import { getModelLimits, type ModelSelection } from '~/lib/llm';
+
 /*
  * see https://docs.anthropic.com/en/docs/about-claude/models
  * Increased from 16K to 32K for more complex code generation
@@ -6,3 +8,10 @@ export const MAX_TOKENS = 32768;
 
 // limits the number of model responses that can be returned in a single request
 export const MAX_RESPONSE_SEGMENTS = 2;
+
+/**
+ * Tokens de sortie demandés pour un modèle: le plafond de la requête, borné par la limite du modèle
+ */
+export function getMaxTokens(selection?: ModelSelection, ceiling: number = MAX_TOKENS): number {
+  return Math.min(ceiling, getModelLimits(selection).maxOutputTokens);
+}
@@ -11,6 +11,7 @@
  */
 
 import type { Message } from '~/types/message';
+import type { TokenizerEncoding } from '~/lib/llm';
 import {
   countTokensSync,
   countMessageTokens as countMessageTokensWithTiktoken,
@@ -96,6 +97,9 @@ export interface ContextManagerConfig {
 
   /** Messages récents à préserver */
   minRecentMessages?: number;
+
+  /** Encodage du modèle utilisé (défaut: cl100k_base) */
+  encoding?: TokenizerEncoding;
 }
 
 /*
@@ -108,18 +112,18 @@ export interface ContextManagerConfig {
  * Estimer le nombre de tokens dans un texte
  * Utilise tiktoken (cl100k_base) pour une estimation précise
  */
-export function estimateTokens(text: string): number {
-  return countTokensSync(text);
+export function estimateTokens(text: string, encoding?: TokenizerEncoding): number {
+  return countTokensSync(text, encoding);
 }
 
 /**
  * Estimer les tokens pour un message
  */
-export function estimateMessageTokens(message: Message): number {
+export function estimateMessageTokens(message: Message, encoding?: TokenizerEncoding): number {
   let tokens = 0;
 
   // Contenu principal
-  tokens += estimateTokens(message.content);
+  tokens += estimateTokens(message.content, encoding);
 
   // Overhead pour le rôle (~4 tokens)
   tokens += 4;
@@ -127,8 +131,8 @@ export function estimateMessageTokens(message: Message): number {
   // Tool invocations
   if (message.toolInvocations) {
     for (const invocation of message.toolInvocations) {
-      tokens += estimateTokens(JSON.stringify(invocation.args || {}));
-      tokens += estimateTokens(JSON.stringify(invocation.result || {}));
+      tokens += estimateTokens(JSON.stringify(invocation.args || {}), encoding);
+      tokens += estimateTokens(JSON.stringify(invocation.result || {}), encoding);
       tokens += 10; // Overhead pour la structure
     }
   }
@@ -144,8 +148,8 @@ export function estimateMessageTokens(message: Message): number {
 /**
  * Estimer les tokens pour un tableau de messages
  */
-export function estimateTotalTokens(messages: Message[]): number {
-  return messages.reduce((total, msg) => total + estimateMessageTokens(msg), 0);
+export function estimateTotalTokens(messages: Message[], encoding?: TokenizerEncoding): number {
+  return messages.reduce((total, msg) => total + estimateMessageTokens(msg, encoding), 0);
 }
 
 /*
@@ -162,7 +166,7 @@ export function analyzeContext(messages: Message[], config: ContextManagerConfig
   const threshold = config.threshold || SUMMARIZATION_THRESHOLD;
   const minRecentMessages = config.minRecentMessages || MIN_RECENT_MESSAGES;
 
-  const totalTokens = estimateTotalTokens(messages);
+  const totalTokens = estimateTotalTokens(messages, config.encoding);
   const usagePercent = totalTokens / maxTokens;
   const needsSummarization = usagePercent >= threshold;
 
@@ -337,21 +341,26 @@ export function isSummaryMessage(message: Message): message is SummaryMessage {
 /**
  * Obtenir les statistiques de contexte
  */
-export function getContextStats(messages: Message[]): {
+export function getContextStats(
+  messages: Message[],
+  config: ContextManagerConfig = {},
+): {
   totalTokens: number;
   usagePercent: number;
   messageCount: number;
   summaryCount: number;
   isNearLimit: boolean;
 } {
-  const totalTokens = estimateTotalTokens(messages);
+  const maxTokens = config.maxTokens || MAX_CONTEXT_TOKENS;
+  const threshold = config.threshold || SUMMARIZATION_THRESHOLD;
+  const totalTokens = estimateTotalTokens(messages, config.encoding);
   const summaryCount = messages.filter(isSummaryMessage).length;
 
   return {
     totalTokens,
-    usagePercent: (totalTokens / MAX_CONTEXT_TOKENS) * 100,
+    usagePercent: (totalTokens / maxTokens) * 100,
     messageCount: messages.length,
     summaryCount,
-    isNearLimit: totalTokens / MAX_CONTEXT_TOKENS >= SUMMARIZATION_THRESHOLD,
+    isNearLimit: totalTokens / maxTokens >= threshold,
   };
 }
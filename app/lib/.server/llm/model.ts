@@ -1,9 +1,133 @@
 import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import type { LanguageModel } from 'ai';
+import { env as processEnv } from 'node:process';
+import { getAPIKey } from './api-key';
+import { ValidationError } from '~/lib/errors';
+import { DEFAULT_MODEL_SELECTION, type ModelSelection, type OpenAICompatibleConfig } from '~/lib/llm';
 
-export function getAnthropicModel(apiKey: string) {
+export function getAnthropicModel(apiKey: string, model: string = DEFAULT_MODEL_SELECTION.model) {
   const anthropic = createAnthropic({
     apiKey,
   });
 
-  return anthropic('claude-sonnet-4-5-20250929');
+  return anthropic(model);
+}
+
+/**
+ * Hôtes qu'un endpoint fourni par le client ne peut pas viser (réseau local, métadonnées cloud)
+ */
+const PRIVATE_HOST_PATTERNS = [
+  /^localhost$/,
+  /\.(localhost|local|internal|lan|home)$/,
+  /^127\./,
+  /^10\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^192\.168\./,
+  /^169\.254\./,
+  /^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./,
+  /^0\./,
+  /^\[(::1?|f[cd][0-9a-f]*:.*|fe[89ab][0-9a-f]*:.*|::ffff:.*)\]$/,
+];
+
+/**
+ * Hôtes autorisés explicitement pour les endpoints du client (OPENAI_COMPATIBLE_ALLOWED_HOSTS)
+ */
+function getAllowedHosts(cloudflareEnv: Env): string[] {
+  const list = processEnv.OPENAI_COMPATIBLE_ALLOWED_HOSTS || cloudflareEnv.OPENAI_COMPATIBLE_ALLOWED_HOSTS || '';
+
+  return list
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Vérifie une URL fournie par le client: HTTPS vers un hôte public,
+ * ou un hôte de la liste autorisée (endpoint local en développement)
+ */
+function validateClientBaseURL(baseURL: string, allowedHosts: string[]): void {
+  let url: URL;
+
+  try {
+    url = new URL(baseURL);
+  } catch {
+    throw new ValidationError('Invalid base URL for the OpenAI-compatible provider', 'llm.openaiCompatible.baseURL');
+  }
+
+  const hostname = url.hostname.toLowerCase();
+
+  const allowed = allowedHosts.includes(hostname) || allowedHosts.includes(url.host.toLowerCase());
+
+  if (allowed && (url.protocol === 'https:' || url.protocol === 'http:')) {
+    return;
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new ValidationError('The OpenAI-compatible base URL must use HTTPS', 'llm.openaiCompatible.baseURL');
+  }
+
+  if (url.username || url.password || PRIVATE_HOST_PATTERNS.some((pattern) => pattern.test(hostname))) {
+    throw new ValidationError(
+      `The OpenAI-compatible base URL targets a host that is not allowed: ${hostname}`,
+      'llm.openaiCompatible.baseURL',
+    );
+  }
+}
+
+/**
+ * Endpoint compatible OpenAI.
+ * La clé du serveur n'est utilisée qu'avec l'URL du serveur: un endpoint fourni
+ * par le client doit venir avec sa propre clé et viser un hôte autorisé.
+ */
+export function getOpenAICompatibleConfig(cloudflareEnv: Env, config?: OpenAICompatibleConfig): OpenAICompatibleConfig {
+  if (config?.baseURL) {
+    if (!config.apiKey) {
+      throw new ValidationError(
+        'An API key is required with a custom base URL for the OpenAI-compatible provider',
+        'llm.openaiCompatible.apiKey',
+      );
+    }
+
+    validateClientBaseURL(config.baseURL, getAllowedHosts(cloudflareEnv));
+
+    return { baseURL: config.baseURL, apiKey: config.apiKey };
+  }
+
+  const baseURL = processEnv.OPENAI_COMPATIBLE_BASE_URL || cloudflareEnv.OPENAI_COMPATIBLE_BASE_URL;
+
+  if (!baseURL) {
+    throw new Error('No base URL configured for the OpenAI-compatible provider');
+  }
+
+  if (!/^https?:\/\//i.test(baseURL)) {
+    throw new Error(`Invalid base URL for the OpenAI-compatible provider: ${baseURL}`);
+  }
+
+  return {
+    baseURL,
+    apiKey: config?.apiKey || processEnv.OPENAI_COMPATIBLE_API_KEY || cloudflareEnv.OPENAI_COMPATIBLE_API_KEY,
+  };
+}
+
+/**
+ * Crée le modèle correspondant à une sélection (Anthropic par défaut)
+ */
+export function getModel(
+  cloudflareEnv: Env,
+  selection: ModelSelection = DEFAULT_MODEL_SELECTION,
+  openaiCompatible?: OpenAICompatibleConfig,
+): LanguageModel {
+  switch (selection.provider) {
+    case 'openai-compatible': {
+      const { baseURL, apiKey } = getOpenAICompatibleConfig(cloudflareEnv, openaiCompatible);
+      const provider = createOpenAICompatible({ name: 'openai-compatible', baseURL, apiKey });
+
+      return provider.chatModel(selection.model);
+    }
+
+    case 'anthropic':
+    default:
+      return getAnthropicModel(getAPIKey(cloudflareEnv), selection.model);
+  }
 }
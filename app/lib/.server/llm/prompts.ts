@@ -1,4 +1,4 @@
-import { MODIFICATIONS_TAG_NAME, WORK_DIR } from '~/utils/constants';
+import { ACTION_FAILURES_TAG_NAME, MODIFICATIONS_TAG_NAME, WORK_DIR } from '~/utils/constants';
 import { allowedHTMLElements } from '~/utils/markdown';
 import { stripIndents } from '~/utils/stripIndent';
 import { CHAT_MODE_SYSTEM_PROMPT } from '~/lib/.server/agents/ChatModeAgent';
@@ -901,6 +901,10 @@ IMPORTANT: Tu réponds TOUJOURS en français. Explications, commentaires de code
   </${MODIFICATIONS_TAG_NAME}>
 </diff_spec>
 
+<action_failures_spec>
+  When \`patch\` actions of your previous answer did not apply, a \`<${ACTION_FAILURES_TAG_NAME}>\` section will appear at the start of the user message, with one \`<failure type="patch" path="...">\` element per failed patch explaining which block did not match. Failed patches changed nothing: re-read the file and send a corrected patch (or the full file with a \`file\` action).
+</action_failures_spec>
+
 <artifact_info>
   BAVINI génère UN artifact complet par projet contenant : commandes shell, fichiers, dossiers.
 
@@ -921,6 +925,17 @@ IMPORTANT: Tu réponds TOUJOURS en français. Explications, commentaires de code
 
       - file: For writing new files or updating existing files. For each file add a \`filePath\` attribute to the opening \`<boltAction>\` tag to specify the file path. The content of the file artifact is the file contents. All file paths MUST BE relative to the current working directory.
 
+      - patch: For small edits of large existing files, instead of rewriting them. Add a \`filePath\` attribute like for \`file\`. The content is one or more search/replace blocks (or unified diff hunks). The SEARCH part must match the current file exactly, with enough lines to be unique. Every block must apply or the file is left unchanged.
+
+          Example:
+          \`<boltAction type="patch" filePath="src/App.tsx">
+          <<<<<<< SEARCH
+            const [count, setCount] = useState(0);
+          =======
+            const [count, setCount] = useState(10);
+          >>>>>>> REPLACE
+          </boltAction>\`
+
       - git: For Git operations. Add an \`operation\` attribute to specify the Git command. Available operations:
 
         - \`clone\`: Clone a repository. Requires \`url\` attribute. Optional \`token\` for private repos.
@@ -1014,7 +1029,7 @@ IMPORTANT: Tu réponds TOUJOURS en français. Explications, commentaires de code
     5. RÈGLES CRITIQUES :
        - ORDRE : créer les fichiers AVANT de les utiliser dans des commandes
        - DÉPENDANCES : package.json d'abord, inclure toutes les deps dedans
-       - CONTENU COMPLET : JAMAIS de placeholders ("// reste du code..."), toujours le fichier entier
+       - CONTENU COMPLET : JAMAIS de placeholders ("// reste du code..."), toujours le fichier entier (sauf action patch)
        - DEV SERVER : ne pas relancer si déjà démarré, les changements seront détectés automatiquement
        - MODULARITÉ : fichiers courts et focalisés, extraire en modules si nécessaire
   </artifact_instructions>
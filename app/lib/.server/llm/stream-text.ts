@@ -1,11 +1,23 @@
-import { streamText as _streamText, stepCountIs, type ToolSet } from 'ai';
-import { getAPIKey } from '~/lib/.server/llm/api-key';
-import { getAnthropicModel } from '~/lib/.server/llm/model';
-import { MAX_TOKENS } from './constants';
+import { streamText as _streamText, stepCountIs, wrapLanguageModel, type LanguageModelUsage, type ToolSet } from 'ai';
+import { getModel } from '~/lib/.server/llm/model';
+import { getMaxTokens } from './constants';
 import { getSystemPrompt } from './prompts';
 import { createWebSearchTools, getWebSearchStatus, isWebSearchAvailable } from './web-search';
-import { loadFrontendDesignSkill, formatSkillContent, type GuidelinesLevel } from '~/lib/skills';
+import {
+  loadFrontendDesignSkill,
+  formatSkillContent,
+  createSkillRegistry,
+  formatSkillsPrompt,
+  getAllowedTools,
+  type GuidelinesLevel,
+  type RegisteredSkill,
+  type SkillFile,
+} from '~/lib/skills';
 import { createScopedLogger } from '~/utils/logger';
+import { actionFailuresRegex, modificationsRegex } from '~/utils/diff';
+import { resolveModelSelection, type LLMConfig } from '~/lib/llm';
+import { createReplayMiddleware, getActiveRecording } from '~/lib/replay';
+import type { TokenUsage } from '~/lib/usage';
 import type { Message } from '~/types/message';
 
 const logger = createScopedLogger('StreamText');
@@ -36,6 +48,38 @@ export interface StreamingOptions {
 
   /** Design guidelines configuration */
   designGuidelines?: DesignGuidelinesOptions;
+
+  /** Provider and model configuration (default: Claude Sonnet) */
+  llm?: LLMConfig;
+
+  /** SKILL.md files of the user's project (e.g. `.bavini/skills/<name>/SKILL.md`) */
+  skills?: SkillFile[];
+
+  /** Tokens used by all the steps of the stream, called before `onFinish` */
+  onUsage?: (usage: TokenUsage, model: string) => void;
+}
+
+/*
+ * =============================================================================
+ * USAGE
+ * =============================================================================
+ */
+
+/**
+ * Convert the AI SDK usage to the usage accounting format (uncached input tokens)
+ */
+export function toTokenUsage(usage: LanguageModelUsage): TokenUsage {
+  const cacheReadTokens = usage.inputTokenDetails?.cacheReadTokens ?? 0;
+  const cacheWriteTokens = usage.inputTokenDetails?.cacheWriteTokens ?? 0;
+
+  return {
+    inputTokens:
+      usage.inputTokenDetails?.noCacheTokens ??
+      Math.max((usage.inputTokens ?? 0) - cacheReadTokens - cacheWriteTokens, 0),
+    outputTokens: usage.outputTokens ?? 0,
+    cacheReadTokens,
+    cacheWriteTokens,
+  };
 }
 
 /*
@@ -44,6 +88,13 @@ export interface StreamingOptions {
  * =============================================================================
  */
 
+/**
+ * Contenu du dernier message utilisateur
+ */
+function getLastUserContent(messages: Messages): string {
+  return [...messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+}
+
 /**
  * Détecte si la requête concerne du frontend/UI
  */
@@ -58,13 +109,12 @@ function isUIRequest(messages: Messages): boolean {
     /\b(formulaire|form|modal|carte|card|button|bouton|header|footer|navbar)\b/i,
   ];
 
-  // Extraire le dernier message utilisateur
-  const lastUserMessage = [...messages].reverse().find((m) => m.role === 'user');
-
-  if (!lastUserMessage) return false;
-
   // Message content is always a string in our Message type
-  const content = lastUserMessage.content;
+  const content = getLastUserContent(messages);
+
+  if (!content) {
+    return false;
+  }
 
   return UI_PATTERNS.some((pattern) => pattern.test(content));
 }
@@ -118,6 +168,68 @@ ${formattedGuidelines}
   }
 }
 
+/*
+ * =============================================================================
+ * SKILLS INJECTION
+ * =============================================================================
+ */
+
+/**
+ * Demande de l'utilisateur, sans les modifications de fichiers et les échecs
+ * d'actions que le chat place devant le message
+ */
+function getLastUserRequest(messages: Messages): string {
+  return getLastUserContent(messages).replace(modificationsRegex, '').replace(actionFailuresRegex, '').trim();
+}
+
+/**
+ * Skills actifs pour la requête : le skill invoqué avec `/nom-du-skill`,
+ * sinon ceux dont la description correspond au dernier message
+ */
+function selectSkills(messages: Messages, projectSkills?: SkillFile[]): RegisteredSkill[] {
+  // frontend-design est déjà injecté par les design guidelines
+  return createSkillRegistry(projectSkills).selectForMessage(getLastUserRequest(messages), {
+    exclude: ['frontend-design'],
+  });
+}
+
+/**
+ * Injecte le contenu des skills actifs dans le prompt
+ */
+function injectSkills(systemPrompt: string, skills: RegisteredSkill[]): string {
+  if (skills.length === 0) {
+    return systemPrompt;
+  }
+
+  logger.info(`Injecting skills: ${skills.map((skill) => skill.metadata.name).join(', ')}`);
+
+  return `${systemPrompt}
+
+/*
+ * =============================================================================
+ * ACTIVE SKILLS
+ * =============================================================================
+ */
+
+${formatSkillsPrompt(skills)}
+`;
+}
+
+/**
+ * Retire les outils non autorisés par les `allowed-tools` des skills actifs
+ */
+function restrictTools(tools: ToolSet | undefined, skills: RegisteredSkill[]): ToolSet | undefined {
+  const allowedTools = getAllowedTools(skills);
+
+  if (!tools || !allowedTools) {
+    return tools;
+  }
+
+  const allowed = Object.entries(tools).filter(([name]) => allowedTools.includes(name));
+
+  return allowed.length > 0 ? Object.fromEntries(allowed) : undefined;
+}
+
 /*
  * =============================================================================
  * MAIN STREAM FUNCTION
@@ -144,21 +256,47 @@ export function streamText(messages: Messages, env: Env, options?: StreamingOpti
   // Design guidelines injection
   systemPrompt = injectDesignGuidelines(systemPrompt, messages, options?.designGuidelines);
 
-  // Create tools if web search is enabled and available
-  const tools = webSearchEnabled ? (createWebSearchTools(env.TAVILY_API_KEY) as ToolSet) : undefined;
+  // Skills injection (app + projet)
+  const skills = selectSkills(messages, options?.skills);
+  systemPrompt = injectSkills(systemPrompt, skills);
+
+  // Create tools if web search is enabled and available, restricted by the active skills
+  const tools = restrictTools(
+    webSearchEnabled ? (createWebSearchTools(env.TAVILY_API_KEY) as ToolSet) : undefined,
+    skills,
+  );
 
   // Configure stop condition for tool loops (allow up to 5 steps when tools are available)
   const stopWhen = tools ? stepCountIs(5) : stepCountIs(1);
 
+  const selection = resolveModelSelection(options?.llm);
+  const model = getModel(env, selection, options?.llm?.openaiCompatible);
+
+  // Record or replay the stream when a session recording is active (tests)
+  const recording = getActiveRecording();
+
+  // Report the usage of the whole stream before the caller's onFinish (which may switch or close the stream)
+  const onFinish: Parameters<typeof _streamText>[0]['onFinish'] = options?.onUsage
+    ? async (event) => {
+        options.onUsage?.(toTokenUsage(event.totalUsage), event.response.modelId || selection.model);
+        await options.onFinish?.(event);
+      }
+    : (options?.onFinish as Parameters<typeof _streamText>[0]['onFinish']);
+
   // Use type assertion for the streamText call to avoid generic inference issues
   return _streamText({
-    model: getAnthropicModel(getAPIKey(env)),
+    model: recording
+      ? wrapLanguageModel({
+          model: model as Parameters<typeof wrapLanguageModel>[0]['model'],
+          middleware: createReplayMiddleware(recording, 'chat'),
+        })
+      : model,
     system: systemPrompt,
-    maxOutputTokens: MAX_TOKENS,
+    maxOutputTokens: getMaxTokens(selection),
     messages: modelMessages,
     tools,
     stopWhen,
-    onFinish: options?.onFinish as Parameters<typeof _streamText>[0]['onFinish'],
+    onFinish,
     onChunk: options?.onChunk as Parameters<typeof _streamText>[0]['onChunk'],
     abortSignal: options?.abortSignal,
     toolChoice: options?.toolChoice as Parameters<typeof _streamText>[0]['toolChoice'],
@@ -56,6 +56,13 @@ export default class SwitchableStream extends TransformStream {
     }
   }
 
+  /**
+   * Write a chunk between the chunks of the current source (e.g. metadata lines)
+   */
+  enqueue(chunk: Uint8Array) {
+    this._controller?.enqueue(chunk);
+  }
+
   close() {
     if (this._currentReader) {
       this._currentReader.cancel();
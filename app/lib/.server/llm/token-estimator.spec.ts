@@ -2,6 +2,7 @@ import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
 import {
   TokenEstimator,
   getTokenEstimator,
+  getTokenEstimatorForModel,
   resetTokenEstimator,
   countTokens,
   countTokensSync,
@@ -238,6 +239,24 @@ describe('Singleton and convenience functions', () => {
       const estimator2 = getTokenEstimator();
       expect(estimator1).toBe(estimator2);
     });
+
+    it('should keep one instance per encoding', async () => {
+      const cl100k = getTokenEstimator('cl100k_base');
+      const o200k = getTokenEstimator('o200k_base');
+
+      expect(cl100k).not.toBe(o200k);
+      expect(o200k.getEncodingName()).toBe('o200k_base');
+      expect((await o200k.countTokens('Bonjour, comment ça va ?')).count).toBeGreaterThan(0);
+    });
+  });
+
+  describe('getTokenEstimatorForModel', () => {
+    it('should use the tokenizer of the model', () => {
+      expect(getTokenEstimatorForModel().getEncodingName()).toBe('cl100k_base');
+      expect(getTokenEstimatorForModel({ provider: 'openai-compatible', model: 'gpt-4o' }).getEncodingName()).toBe(
+        'o200k_base',
+      );
+    });
   });
 
   describe('countTokens', () => {
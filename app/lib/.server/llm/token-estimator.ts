@@ -1,8 +1,8 @@
 /**
  * Token Estimator - Accurate token counting using tiktoken
  *
- * This module provides token counting capabilities for Claude models:
- * - Fast local estimation using tiktoken (cl100k_base encoding)
+ * This module provides token counting capabilities for the configured models:
+ * - Fast local estimation using tiktoken (cl100k_base, or o200k_base for recent OpenAI models)
  * - Accurate API-based counting using Anthropic's countTokens API
  * - Caching to avoid redundant calculations
  *
@@ -14,6 +14,7 @@ import type Anthropic from '@anthropic-ai/sdk';
 import type { Message } from '~/types/message';
 import { createScopedLogger } from '~/utils/logger';
 import { TTLMap } from '~/lib/utils/ttl-map';
+import { getModelLimits, type ModelSelection, type TokenizerEncoding } from '~/lib/llm';
 
 const logger = createScopedLogger('TokenEstimator');
 
@@ -69,6 +70,9 @@ export interface TokenEstimatorOptions {
 
   /** Max cache size (default: 10000) */
   maxCacheSize?: number;
+
+  /** Tiktoken encoding (default: cl100k_base) */
+  encoding?: TokenizerEncoding;
 }
 
 /*
@@ -115,6 +119,7 @@ export class TokenEstimator {
       enableCache: options.enableCache ?? true,
       cacheTTLMs: options.cacheTTLMs ?? 10 * 60 * 1000, // 10 minutes
       maxCacheSize: options.maxCacheSize ?? 10000,
+      encoding: options.encoding ?? 'cl100k_base',
     };
 
     this.cache = new TTLMap<string, number>({
@@ -127,7 +132,7 @@ export class TokenEstimator {
 
   /**
    * Initialize the tiktoken encoder
-   * Uses cl100k_base which is close to Claude's tokenization
+   * cl100k_base is close to Claude's tokenization, o200k_base matches GPT-4o/4.1
    */
   async initialize(): Promise<void> {
     if (this.encoding) {
@@ -144,9 +149,8 @@ export class TokenEstimator {
 
     this.initPromise = (async () => {
       try {
-        // cl100k_base is used by GPT-4 and is reasonably close to Claude's tokenization
-        this.encoding = getEncoding('cl100k_base');
-        logger.debug('TokenEstimator initialized with cl100k_base encoding');
+        this.encoding = getEncoding(this.options.encoding);
+        logger.debug(`TokenEstimator initialized with ${this.options.encoding} encoding`);
       } catch (error) {
         this.initError = error instanceof Error ? error : new Error(String(error));
         logger.error('Failed to initialize tiktoken', { error: this.initError.message });
@@ -331,6 +335,13 @@ export class TokenEstimator {
     }
   }
 
+  /**
+   * Encoding used by this estimator
+   */
+  getEncodingName(): TokenizerEncoding {
+    return this.options.encoding;
+  }
+
   /**
    * Get cache statistics
    */
@@ -417,27 +428,38 @@ export class TokenEstimator {
  * ============================================================================
  */
 
-let defaultEstimator: TokenEstimator | null = null;
+const estimators = new Map<TokenizerEncoding, TokenEstimator>();
 
 /**
- * Get the default token estimator instance
+ * Get the shared token estimator for an encoding (default: cl100k_base)
  */
-export function getTokenEstimator(): TokenEstimator {
-  if (!defaultEstimator) {
-    defaultEstimator = new TokenEstimator();
+export function getTokenEstimator(encoding: TokenizerEncoding = 'cl100k_base'): TokenEstimator {
+  let estimator = estimators.get(encoding);
+
+  if (!estimator) {
+    estimator = new TokenEstimator({ encoding });
+    estimators.set(encoding, estimator);
   }
 
-  return defaultEstimator;
+  return estimator;
 }
 
 /**
- * Reset the default estimator (for testing)
+ * Get the shared token estimator matching a model's tokenizer
+ */
+export function getTokenEstimatorForModel(selection?: ModelSelection): TokenEstimator {
+  return getTokenEstimator(getModelLimits(selection).tokenizer);
+}
+
+/**
+ * Reset the shared estimators (for testing)
  */
 export function resetTokenEstimator(): void {
-  if (defaultEstimator) {
-    defaultEstimator.dispose();
-    defaultEstimator = null;
+  for (const estimator of estimators.values()) {
+    estimator.dispose();
   }
+
+  estimators.clear();
 }
 
 /*
@@ -449,8 +471,8 @@ export function resetTokenEstimator(): void {
 /**
  * Count tokens in text (async, uses tiktoken)
  */
-export async function countTokens(text: string): Promise<number> {
-  const estimator = getTokenEstimator();
+export async function countTokens(text: string, encoding?: TokenizerEncoding): Promise<number> {
+  const estimator = getTokenEstimator(encoding);
   const result = await estimator.countTokens(text);
   return result.count;
 }
@@ -458,16 +480,16 @@ export async function countTokens(text: string): Promise<number> {
 /**
  * Count tokens in text (sync, uses cached or heuristic)
  */
-export function countTokensSync(text: string): number {
-  const estimator = getTokenEstimator();
+export function countTokensSync(text: string, encoding?: TokenizerEncoding): number {
+  const estimator = getTokenEstimator(encoding);
   return estimator.countTokensSync(text);
 }
 
 /**
  * Count tokens for a message
  */
-export async function countMessageTokens(message: Message): Promise<number> {
-  const estimator = getTokenEstimator();
+export async function countMessageTokens(message: Message, encoding?: TokenizerEncoding): Promise<number> {
+  const estimator = getTokenEstimator(encoding);
   const breakdown = await estimator.countMessageTokens(message);
   return breakdown.total;
 }
@@ -475,8 +497,8 @@ export async function countMessageTokens(message: Message): Promise<number> {
 /**
  * Count tokens for an array of messages
  */
-export async function countMessagesTokens(messages: Message[]): Promise<number> {
-  const estimator = getTokenEstimator();
+export async function countMessagesTokens(messages: Message[], encoding?: TokenizerEncoding): Promise<number> {
+  const estimator = getTokenEstimator(encoding);
   const result = await estimator.countMessagesTokens(messages);
   return result.total;
 }
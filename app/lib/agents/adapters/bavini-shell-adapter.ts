@@ -7,7 +7,7 @@
  *
  * Caractéristiques:
  * - Interface identique à ShellAdapter pour migration transparente
- * - Utilise CommandExecutor pour les commandes shell
+ * - Utilise PipeExecutor (quotes, redirections) pour les commandes shell
  * - Support du mode strict avec flux d'approbation
  * - Pas de dépendance à WebContainer
  * =============================================================================
@@ -15,13 +15,9 @@
 
 import type { MountManager } from '~/lib/runtime/filesystem';
 import { getSharedMountManager } from '~/lib/runtime/filesystem';
-import { CommandExecutor } from '~/lib/runtime/terminal/command-executor';
-import type {
-  CommandContext,
-  CommandResult,
-  ParsedCommand,
-  ShellState,
-} from '~/lib/runtime/terminal/types';
+import { PipeExecutor, type PipelineResult } from '~/lib/runtime/terminal/pipe-executor';
+import { applyStateUpdates } from '~/lib/runtime/terminal/shell-state';
+import type { CommandContext, ShellState } from '~/lib/runtime/terminal/types';
 import { createScopedLogger } from '~/utils/logger';
 import type { AgentType, ToolExecutionResult } from '../types';
 import {
@@ -122,7 +118,7 @@ export interface GitCommandOptions {
 export class BaviniShellAdapter {
   private config: BaviniShellConfig;
   private fs: MountManager;
-  private executor: CommandExecutor;
+  private executor: PipeExecutor;
   private shellState: ShellState;
 
   constructor(config: BaviniShellConfig, fs?: MountManager) {
@@ -132,7 +128,7 @@ export class BaviniShellAdapter {
       ...config,
     };
     this.fs = fs ?? getSharedMountManager();
-    this.executor = new CommandExecutor();
+    this.executor = new PipeExecutor();
     this.shellState = {
       cwd: this.config.cwd ?? '/home',
       env: {
@@ -296,9 +292,6 @@ export class BaviniShellAdapter {
       }
     }
 
-    // Parser la commande
-    const parsed = this.parseCommand(command);
-
     // Créer le contexte d'exécution
     let stdout = '';
     let stderr = '';
@@ -317,9 +310,10 @@ export class BaviniShellAdapter {
 
     // Exécuter avec timeout
     try {
-      const resultPromise = this.executor.execute(parsed, context);
+      // Le parsing (quotes, redirections) est fait par le shell virtuel
+      const resultPromise = this.executor.executeCommandLine(command.trim(), context);
 
-      const timeoutPromise = new Promise<CommandResult>((_, reject) => {
+      const timeoutPromise = new Promise<PipelineResult>((_, reject) => {
         setTimeout(() => {
           reject(new Error(`Command timed out after ${effectiveTimeout}ms`));
         }, effectiveTimeout);
@@ -329,7 +323,7 @@ export class BaviniShellAdapter {
 
       // Mettre à jour l'état du shell si nécessaire
       if (result.stateUpdates) {
-        this.shellState = { ...this.shellState, ...result.stateUpdates };
+        this.shellState = applyStateUpdates(this.shellState, result.stateUpdates);
       }
       this.shellState.lastExitCode = result.exitCode;
 
@@ -380,22 +374,6 @@ export class BaviniShellAdapter {
     }
   }
 
-  /**
-   * Parse une commande en structure ParsedCommand
-   */
-  private parseCommand(command: string): ParsedCommand {
-    const trimmed = command.trim();
-    const parts = trimmed.split(/\s+/);
-    const cmd = parts[0] || '';
-    const args = parts.slice(1);
-
-    return {
-      command: cmd,
-      args,
-      raw: trimmed,
-    };
-  }
-
   /**
    * Request approval for a command
    */
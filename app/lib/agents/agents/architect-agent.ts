@@ -10,7 +10,7 @@ import { READ_TOOLS, type FileSystem } from '../tools/read-tools';
 import { getSharedReadHandlers } from '../utils/shared-handler-pool';
 import { extractFilePaths, extractCodeBlocks } from '../utils/output-parser';
 import type { Task, TaskResult, Artifact } from '../types';
-import { getModelForAgent } from '../types';
+import { getAgentModel } from '~/lib/stores/llm-settings';
 
 /**
  * Agent d'architecture et planification
@@ -26,7 +26,7 @@ export class ArchitectAgent extends BaseAgent {
       description:
         'Agent de planification et design système. Analyse les besoins, propose des architectures, ' +
         'documente les trade-offs et guide les décisions techniques avant implémentation.',
-      model: getModelForAgent('architect'), // Opus 4.5 pour le raisonnement avancé
+      model: getAgentModel('architect'),
       tools: READ_TOOLS,
       systemPrompt: ARCHITECT_SYSTEM_PROMPT,
       maxTokens: 32768, // Plus de tokens pour les documents de design détaillés
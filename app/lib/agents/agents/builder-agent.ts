@@ -8,8 +8,8 @@ import { SHELL_TOOLS, createShellToolHandlers, type ShellInterface, type Running
 import { BUILDER_SYSTEM_PROMPT } from '../prompts/builder-prompt';
 import { wrapHandlersWithCallback } from '../utils/handler-wrapper';
 import type { Task, TaskResult, ToolDefinition, Artifact } from '../types';
-import { getModelForAgent } from '../types';
 import { createScopedLogger } from '~/utils/logger';
+import { getAgentModel } from '~/lib/stores/llm-settings';
 
 const logger = createScopedLogger('BuilderAgent');
 
@@ -37,7 +37,7 @@ export class BuilderAgent extends BaseAgent {
       description:
         'Agent de build et exécution. Lance les commandes npm, les scripts shell, ' +
         'démarre les serveurs de développement. Gère les dépendances.',
-      model: getModelForAgent('builder'), // Sonnet 4.5 - efficace pour les commandes
+      model: getAgentModel('builder'),
       tools: SHELL_TOOLS,
       systemPrompt: BUILDER_SYSTEM_PROMPT,
       maxTokens: 16384, // Increased from 4K to 16K for complex builds
@@ -23,8 +23,8 @@ import {
   type DesignGuidelinesConfig,
 } from '../prompts/coder-prompt';
 import type { Task, TaskResult, ToolDefinition, Artifact } from '../types';
-import { getModelForAgent } from '../types';
 import { createScopedLogger } from '~/utils/logger';
+import { getAgentModel } from '~/lib/stores/llm-settings';
 
 const logger = createScopedLogger('CoderAgent');
 
@@ -92,7 +92,7 @@ export class CoderAgent extends BaseAgent {
       description:
         'Agent de développement. Peut créer, modifier, et supprimer des fichiers de code. ' +
         "Spécialisé dans l'écriture de code propre et fonctionnel.",
-      model: getModelForAgent('coder'), // Opus 4.5 pour code de haute qualité
+      model: getAgentModel('coder'),
       tools: [...READ_TOOLS, ...WRITE_TOOLS, ...DESIGN_TOOLS, ...INSPECT_TOOLS, ...INTEGRATION_TOOLS],
       systemPrompt,
       maxTokens: 32768, // Increased from 8K to 32K for complex code generation
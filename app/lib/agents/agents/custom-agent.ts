@@ -0,0 +1,119 @@
+/**
+ * Custom Agent - Agent déclaré par le projet dans .bavini/agents.json
+ * Prompt, outils et modèle viennent de la définition du projet
+ */
+
+import { BaseAgent } from '../core/base-agent';
+import type { ToolHandler, ToolRegistry } from '../core/tool-registry';
+import { toCustomAgentType } from '../utils/custom-agents';
+import type { CustomAgentDefinition, Task, TaskResult, ToolDefinition } from '../types';
+import { getAgentModel } from '~/lib/stores/llm-settings';
+
+/**
+ * Agent personnalisé
+ * Capacités : les outils listés dans sa définition
+ */
+export class CustomAgent extends BaseAgent {
+  private definition: CustomAgentDefinition;
+
+  constructor(definition: CustomAgentDefinition) {
+    super({
+      name: toCustomAgentType(definition.name),
+      description: definition.description,
+      model: definition.model ?? getAgentModel(),
+      tools: [],
+      systemPrompt: definition.systemPrompt,
+      temperature: 0.2,
+      timeout: 180000, // 3 minutes
+      maxRetries: 2,
+    });
+
+    this.definition = definition;
+  }
+
+  /**
+   * Définition déclarée par le projet
+   */
+  getDefinition(): CustomAgentDefinition {
+    return this.definition;
+  }
+
+  /**
+   * Enregistrer les outils autorisés depuis un registre source
+   * (outils des adapters disponibles et des serveurs MCP)
+   *
+   * @returns les outils demandés mais indisponibles
+   */
+  setToolSource(source: ToolRegistry): string[] {
+    const definitions: ToolDefinition[] = [];
+    const handlers: Record<string, ToolHandler> = {};
+    const missing: string[] = [];
+
+    for (const name of this.definition.tools) {
+      const tool = source.get(name);
+
+      if (tool) {
+        definitions.push(tool.definition);
+        handlers[name] = tool.handler;
+      } else {
+        missing.push(name);
+      }
+    }
+
+    this.registerTools(definitions, handlers, 'custom');
+
+    if (missing.length > 0) {
+      this.log('warn', 'Some tools of the custom agent are unavailable', { missing });
+    }
+
+    return missing;
+  }
+
+  /**
+   * Implémentation du system prompt
+   */
+  getSystemPrompt(): string {
+    return this.definition.systemPrompt;
+  }
+
+  /**
+   * Exécution principale de l'agent
+   */
+  async execute(task: Task): Promise<TaskResult> {
+    this.log('info', 'Starting custom agent task', {
+      prompt: task.prompt.substring(0, 100) + '...',
+    });
+
+    return this.runAgentLoop(this.buildPrompt(task));
+  }
+
+  /**
+   * Construire le prompt complet pour la tâche
+   */
+  private buildPrompt(task: Task): string {
+    let prompt = task.prompt;
+
+    if (task.context?.files && task.context.files.length > 0) {
+      prompt += `\n\nFichiers de contexte à considérer:\n${task.context.files.map((f) => `- ${f}`).join('\n')}`;
+    }
+
+    if (task.context?.additionalInfo) {
+      prompt += `\n\nInformations supplémentaires:\n${JSON.stringify(task.context.additionalInfo, null, 2)}`;
+    }
+
+    return prompt;
+  }
+}
+
+/**
+ * Factory pour créer un CustomAgent avec ses outils
+ */
+export function createCustomAgent(definition: CustomAgentDefinition, toolSource?: ToolRegistry): CustomAgent {
+  const agent = new CustomAgent(definition);
+
+  if (toolSource) {
+    agent.setToolSource(toolSource);
+  }
+
+  return agent;
+}
@@ -14,8 +14,9 @@ import {
 } from '../tools/git-tools';
 import { DEPLOYER_SYSTEM_PROMPT } from '../prompts/deployer-prompt';
 import type { Task, TaskResult, ToolDefinition, Artifact, ToolExecutionResult } from '../types';
-import { getModelForAgent, AGENT_HISTORY_LIMIT } from '../types';
+import { AGENT_HISTORY_LIMIT } from '../types';
 import { createScopedLogger } from '~/utils/logger';
+import { getAgentModel } from '~/lib/stores/llm-settings';
 
 const logger = createScopedLogger('DeployerAgent');
 
@@ -48,7 +49,7 @@ export class DeployerAgent extends BaseAgent {
       description:
         'Agent de déploiement. Gère les opérations Git (commit, push, pull, branches), ' +
         'la synchronisation avec les remotes, et prépare les déploiements.',
-      model: getModelForAgent('deployer'), // Sonnet 4.5 - efficace pour Git
+      model: getAgentModel('deployer'),
       tools: GIT_TOOLS,
       systemPrompt: DEPLOYER_SYSTEM_PROMPT,
       maxTokens: 16384, // Increased from 8K to 16K for complex Git operations
@@ -10,7 +10,7 @@ import { READ_TOOLS, type FileSystem } from '../tools/read-tools';
 import { getSharedReadHandlers } from '../utils/shared-handler-pool';
 import { extractFilePaths, extractJSON, extractCodeBlocks, extractLineReferences } from '../utils/output-parser';
 import type { Task, TaskResult, Artifact } from '../types';
-import { getModelForAgent } from '../types';
+import { getAgentModel } from '~/lib/stores/llm-settings';
 
 /**
  * Agent d'exploration du codebase
@@ -27,7 +27,7 @@ export class ExploreAgent extends BaseAgent {
         "Agent d'exploration en LECTURE SEULE. Spécialisé dans la recherche de fichiers, " +
         "l'analyse de code, la navigation dans le codebase. " +
         'Utilise grep, glob, read_file, list_directory.',
-      model: getModelForAgent('explore'), // Sonnet 4.5 - rapide pour l'exploration
+      model: getAgentModel('explore'),
       tools: READ_TOOLS,
       systemPrompt: EXPLORE_SYSTEM_PROMPT,
       maxTokens: 16384, // Increased from 8K to 16K for larger analyses
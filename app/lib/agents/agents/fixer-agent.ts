@@ -11,9 +11,10 @@ import { getSharedReadHandlers } from '../utils/shared-handler-pool';
 import { wrapHandlersOnSuccess } from '../utils/handler-wrapper';
 import { FIXER_SYSTEM_PROMPT } from '../prompts/fixer-prompt';
 import type { Task, TaskResult, ToolDefinition, Artifact } from '../types';
-import { getModelForAgent, AGENT_HISTORY_LIMIT } from '../types';
+import { AGENT_HISTORY_LIMIT } from '../types';
 import type { CodeIssue } from '../tools/review-tools';
 import { createScopedLogger } from '~/utils/logger';
+import { getAgentModel } from '~/lib/stores/llm-settings';
 
 const logger = createScopedLogger('FixerAgent');
 
@@ -185,7 +186,7 @@ export class FixerAgent extends BaseAgent {
       description:
         'Agent de correction automatique. Corrige les erreurs de test, de compilation, ' +
         'et les problèmes de sécurité ou qualité identifiés par les autres agents.',
-      model: getModelForAgent('fixer'), // Opus 4.5 pour correction intelligente
+      model: getAgentModel('fixer'),
       tools: [...READ_TOOLS, ...WRITE_TOOLS],
       systemPrompt: FIXER_SYSTEM_PROMPT,
       maxTokens: 32768, // Increased from 8K to 32K for complete fixes
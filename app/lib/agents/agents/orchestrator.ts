@@ -51,9 +51,9 @@ import type {
   ExecutionPlan,
   ToolExecutionResult,
 } from '../types';
-import { getModelForAgent } from '../types';
 import { createScopedLogger } from '~/utils/logger';
 import { getCachedRouting, cacheRouting } from '../cache';
+import { getActiveRecording } from '~/lib/replay';
 import {
   CheckpointScheduler,
   createAgentCheckpointScheduler,
@@ -81,6 +81,7 @@ import {
 // Phase 1.2 Refactoring - Modular imports
 import {
   DelegateToAgentTool,
+  createDelegateToAgentTool,
   CreateSubtasksTool,
   GetAgentStatusTool,
   CompleteTaskTool,
@@ -91,6 +92,7 @@ import {
   type DecisionParserLogger,
 } from '../utils/decision-parser';
 import {
+  checkUsageBudget,
   executeDelegation,
   executeDecomposition,
   handleDelegateToAgent,
@@ -99,6 +101,8 @@ import {
   type DelegationContext,
   type DecompositionContext,
 } from '../execution/orchestrator-executor';
+import { getAgentModel } from '~/lib/stores/llm-settings';
+import { isCustomAgentType } from '../utils/custom-agents';
 
 const logger = createScopedLogger('Orchestrator');
 
@@ -167,7 +171,7 @@ export class Orchestrator extends BaseAgent {
       description:
         'Agent principal qui coordonne les autres agents. ' +
         'Analyse les demandes, décompose les tâches complexes, et délègue aux agents spécialisés.',
-      model: getModelForAgent('orchestrator'), // Opus 4.5 pour le raisonnement stratégique
+      model: getAgentModel('orchestrator'),
       tools: [
         DelegateToAgentTool,
         CreateSubtasksTool,
@@ -401,6 +405,28 @@ export class Orchestrator extends BaseAgent {
     return this.webSearchService?.isAvailable() ?? false;
   }
 
+  /**
+   * Agents personnalisés du projet enregistrés dans le registry
+   */
+  private getCustomAgentTypes(): AgentType[] {
+    return this.registry.getNames().filter(isCustomAgentType);
+  }
+
+  /**
+   * Mettre à jour delegate_to_agent avec les agents personnalisés enregistrés
+   * À appeler après l'enregistrement ou le retrait d'un agent personnalisé
+   */
+  refreshCustomAgents(): void {
+    const customAgents = this.getCustomAgentTypes();
+    const index = this.config.tools.findIndex((tool) => tool.name === DelegateToAgentTool.name);
+
+    if (index !== -1) {
+      this.config.tools[index] = createDelegateToAgentTool(customAgents);
+    }
+
+    this.log('info', 'Custom agents available for delegation', { customAgents });
+  }
+
   /**
    * Configurer le callback pour les questions utilisateur
    * Permet à l'UI de recevoir et répondre aux questions
@@ -614,6 +640,17 @@ export class Orchestrator extends BaseAgent {
     const intervalScheduleId = this.checkpointScheduler.scheduleByInterval(task.id);
 
     try {
+      // Budget de consommation atteint : l'orchestration est mise en pause
+      const budgetResult = checkUsageBudget(this.getName(), {
+        info: (msg, data) => this.log('info', msg, data),
+        warn: (msg, data) => this.log('warn', msg, data),
+        debug: (msg, data) => this.log('debug', msg, data),
+      });
+
+      if (budgetResult) {
+        return budgetResult;
+      }
+
       // Analyser la demande et décider de l'action
       const decision = await this.analyzeAndDecide(task);
 
@@ -726,8 +763,9 @@ export class Orchestrator extends BaseAgent {
    * Analyser la demande et décider de l'action
    */
   private async analyzeAndDecide(task: Task): Promise<OrchestrationDecision> {
-    // Vérifier le cache de routing d'abord
-    const cachedDecision = getCachedRouting(task.prompt);
+    // Vérifier le cache de routing d'abord (sauf en session enregistrée/rejouée)
+    const useCache = !getActiveRecording();
+    const cachedDecision = useCache ? getCachedRouting(task.prompt) : null;
 
     if (cachedDecision) {
       this.logger.debug('Routing cache hit', {
@@ -750,10 +788,12 @@ export class Orchestrator extends BaseAgent {
       warn: (msg, data) => this.log('warn', msg, data),
       error: (msg, data) => this.log('error', msg, data),
     };
-    const decision = parseDecision(response, parserLogger);
+    const decision = parseDecision(response, parserLogger, this.getCustomAgentTypes());
 
     // Mettre en cache la décision pour les prompts similaires futurs
-    cacheRouting(task.prompt, decision);
+    if (useCache) {
+      cacheRouting(task.prompt, decision);
+    }
 
     return decision;
   }
@@ -773,6 +813,13 @@ export class Orchestrator extends BaseAgent {
       )
       .join('\n\n');
 
+    const customAgentsInfo = this.getCustomAgentTypes()
+      .map(
+        (name) =>
+          `### ${name}\nDescription: ${this.registry.get(name)?.getDescription()}\nAgent personnalisé du projet`,
+      )
+      .join('\n\n');
+
     return `Analyse cette demande et décide comment la traiter.
 
 ## Demande de l'utilisateur
@@ -782,7 +829,7 @@ ${task.prompt}
 ${task.context ? JSON.stringify(task.context, null, 2) : 'Aucun contexte fourni'}
 
 ## Agents disponibles
-${agentsInfo}
+${agentsInfo}${customAgentsInfo ? `\n\n${customAgentsInfo}` : ''}
 
 ## Instructions
 1. Analyse la demande
@@ -13,12 +13,14 @@ import {
   type CodeIssue,
 } from '../tools/review-tools';
 import { READ_TOOLS, type FileSystem } from '../tools/read-tools';
+import { DEPENDENCY_TOOLS, createDependencyToolHandlers, type DependencyAuditor } from '../tools/dependency-tools';
 import { getSharedReadHandlers } from '../utils/shared-handler-pool';
 import { LRUCache } from '../utils/lru-cache';
 import { REVIEWER_SYSTEM_PROMPT } from '../prompts/reviewer-prompt';
 import type { Task, TaskResult, ToolDefinition, Artifact, ToolExecutionResult } from '../types';
-import { getModelForAgent, AGENT_HISTORY_LIMIT } from '../types';
+import { AGENT_HISTORY_LIMIT } from '../types';
 import { createScopedLogger } from '~/utils/logger';
+import { getAgentModel } from '~/lib/stores/llm-settings';
 
 const logger = createScopedLogger('ReviewerAgent');
 
@@ -123,8 +125,8 @@ export class ReviewerAgent extends BaseAgent {
       description:
         'Agent de review de code. Analyse la qualité, la sécurité, la performance. ' +
         'Détecte les code smells, calcule la complexité, suggère des améliorations.',
-      model: getModelForAgent('reviewer'), // Opus 4.5 pour analyse approfondie
-      tools: [...REVIEW_TOOLS, ...READ_TOOLS],
+      model: getAgentModel('reviewer'),
+      tools: [...REVIEW_TOOLS, ...READ_TOOLS, ...DEPENDENCY_TOOLS],
       systemPrompt: REVIEWER_SYSTEM_PROMPT,
       maxTokens: 16384, // Increased from 8K to 16K for complete reviews
       temperature: 0.2, // Légère variation pour suggestions créatives
@@ -226,6 +228,17 @@ export class ReviewerAgent extends BaseAgent {
     this.log('info', 'FileSystem initialized for ReviewerAgent with ToolRegistry');
   }
 
+  /**
+   * Initialiser l'audit des dépendances (npm audit / outdated)
+   * Enregistre les outils de dépendances dans le ToolRegistry
+   */
+  setDependencyAuditor(auditor: DependencyAuditor): void {
+    const handlers = createDependencyToolHandlers(auditor);
+    this.registerTools(DEPENDENCY_TOOLS, handlers, 'review');
+
+    this.log('info', 'DependencyAuditor initialized for ReviewerAgent with ToolRegistry');
+  }
+
   /**
    * Wrapper les handlers de review pour tracker les résultats et utiliser le cache
    */
@@ -515,6 +528,7 @@ export class ReviewerAgent extends BaseAgent {
 export interface CreateReviewerAgentOptions {
   analyzer?: CodeAnalyzer;
   fileSystem?: FileSystem;
+  dependencyAuditor?: DependencyAuditor;
   cacheConfig?: Partial<AnalysisCacheConfig>;
 }
 
@@ -528,7 +542,11 @@ export function createReviewerAgent(
   // Support des deux signatures pour rétrocompatibilité
   let options: CreateReviewerAgentOptions;
 
-  if (analyzerOrOptions && typeof analyzerOrOptions === 'object' && 'cacheConfig' in analyzerOrOptions) {
+  if (
+    analyzerOrOptions &&
+    typeof analyzerOrOptions === 'object' &&
+    ('cacheConfig' in analyzerOrOptions || 'dependencyAuditor' in analyzerOrOptions)
+  ) {
     options = analyzerOrOptions;
   } else {
     options = {
@@ -547,5 +565,9 @@ export function createReviewerAgent(
     agent.setFileSystem(options.fileSystem);
   }
 
+  if (options.dependencyAuditor) {
+    agent.setDependencyAuditor(options.dependencyAuditor);
+  }
+
   return agent;
 }
@@ -9,8 +9,9 @@ import { TEST_TOOLS, createTestToolHandlers, type TestRunner } from '../tools/te
 import { TESTER_SYSTEM_PROMPT } from '../prompts/tester-prompt';
 import { parseTestResults, type TestResults } from '../utils/output-parser';
 import type { Task, TaskResult, ToolDefinition, Artifact, ToolExecutionResult } from '../types';
-import { getModelForAgent, AGENT_HISTORY_LIMIT } from '../types';
+import { AGENT_HISTORY_LIMIT } from '../types';
 import { createScopedLogger } from '~/utils/logger';
+import { getAgentModel } from '~/lib/stores/llm-settings';
 
 const logger = createScopedLogger('TesterAgent');
 
@@ -36,7 +37,7 @@ export class TesterAgent extends BaseAgent {
       description:
         "Agent de test. Lance les tests unitaires et d'intégration, " +
         'analyse les résultats, suggère des corrections. Supporte vitest, jest, mocha.',
-      model: getModelForAgent('tester'), // Sonnet 4.5 - rapide pour les tests
+      model: getAgentModel('tester'),
       tools: TEST_TOOLS,
       systemPrompt: TESTER_SYSTEM_PROMPT,
       maxTokens: 16384, // Increased from 8K to 16K for detailed test analysis
@@ -167,6 +167,28 @@ describe('error-detection', () => {
 
         expect(errors.filter((e) => e.type === 'runtime')).toHaveLength(0);
       });
+
+      it('should locate runtime errors at the first project frame of their stack trace', () => {
+        const output = [
+          "TypeError: Cannot read properties of undefined (reading 'map')",
+          '    at react-dom.development.js:1:100',
+          '    at TodoList (/src/components/TodoList.tsx:12:18)',
+          '    at App (/src/App.tsx:8:5)',
+        ].join('\n');
+
+        const [error] = detectErrorsInOutput(output);
+
+        expect(error.location).toEqual({ file: '/src/components/TodoList.tsx', line: 12, column: 18 });
+      });
+
+      it('should not locate runtime errors at bundle positions', () => {
+        const output = [
+          'ReferenceError: count is not defined',
+          '    at Counter (blob:http://localhost:5173/0d9e2b1c:1042:7)',
+        ].join('\n');
+
+        expect(detectErrorsInOutput(output)[0].location).toBeUndefined();
+      });
     });
 
     describe('Build errors', () => {
@@ -306,6 +328,21 @@ describe('error-detection', () => {
       expect(prompt).toContain('builder');
     });
 
+    it('should give the location of located errors', () => {
+      const errors: DetectedError[] = [
+        {
+          type: 'runtime',
+          message: 'ReferenceError: count is not defined',
+          severity: 'medium',
+          location: { file: '/src/Counter.tsx', line: 4, column: 10 },
+        },
+      ];
+
+      expect(buildFixerPrompt(errors, 'coder')).toContain(
+        '1. [runtime] ReferenceError: count is not defined (/src/Counter.tsx:4:10)',
+      );
+    });
+
     it('should include critical instructions', () => {
       const errors: DetectedError[] = [{ type: 'import', message: 'Module not found', severity: 'high' }];
 
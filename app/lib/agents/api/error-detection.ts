@@ -4,6 +4,17 @@
 
 import type { DetectedError } from './types';
 
+/**
+ * Ligne d'une pile d'appels (V8: `at fn (file:1:2)`, Firefox/Safari: `fn@file:1:2`)
+ */
+const STACK_FRAME_LINE = /^\s*at\s|@\S+:\d+:\d+\s*$/;
+
+/**
+ * Fichier source et position d'une frame, les URLs (bundle, CDN) ne correspondent pas
+ */
+const SOURCE_LOCATION =
+  /(?:^|[\s(@])(\/?[\w@.[\]-]+(?:\/[\w@.[\]-]+)*\.(?:[cm]?[jt]sx?|vue|svelte|astro)):(\d+):(\d+)\)?\s*$/;
+
 /**
  * Détecte les erreurs dans le texte de sortie d'un agent
  */
@@ -70,17 +81,18 @@ export function detectErrorsInOutput(output: string): DetectedError[] {
     });
   }
 
-  // Runtime errors (TypeError, ReferenceError, etc.)
-  const runtimeErrors = output.match(/(?:TypeError|ReferenceError|RangeError)[:\s].+?(?=\n|$)/gi);
+  // Runtime errors (TypeError, ReferenceError, etc.), located by their stack trace
+  const runtimeErrors = [...output.matchAll(/(?:TypeError|ReferenceError|RangeError)[:\s].+?(?=\n|$)/gi)];
 
-  if (runtimeErrors) {
-    // Filter out false positives
-    runtimeErrors
-      .filter((msg) => !msg.includes('No route matches') && !msg.includes('.well-known'))
-      .forEach((msg) => {
-        errors.push({ type: 'runtime', message: msg.trim(), severity: 'medium' });
-      });
-  }
+  // Filter out false positives
+  runtimeErrors
+    .filter(([msg]) => !msg.includes('No route matches') && !msg.includes('.well-known'))
+    .forEach((match) => {
+      const msg = match[0];
+      const location = findStackLocation(output.slice((match.index ?? 0) + msg.length));
+
+      errors.push({ type: 'runtime', message: msg.trim(), severity: 'medium', ...(location && { location }) });
+    });
 
   // Build errors
   const buildErrors = output.match(
@@ -119,6 +131,27 @@ export function detectErrorsInOutput(output: string): DetectedError[] {
   return uniqueErrors;
 }
 
+/**
+ * Emplacement de la première frame d'un fichier du projet dans la pile d'appels
+ * qui suit un message d'erreur (piles déjà ramenées aux sources par le preview)
+ */
+function findStackLocation(text: string): DetectedError['location'] {
+  for (const line of text.split('\n').slice(1)) {
+    if (!STACK_FRAME_LINE.test(line)) {
+      return undefined;
+    }
+
+    const match = line.match(SOURCE_LOCATION);
+
+    // a bare file name is a package script (react-dom.development.js), not a project file
+    if (match && match[1].includes('/') && !match[1].includes('node_modules/')) {
+      return { file: match[1], line: Number(match[2]), column: Number(match[3]) };
+    }
+  }
+
+  return undefined;
+}
+
 /**
  * Génère un prompt de correction pour le fixer agent
  */
@@ -126,7 +159,7 @@ export function buildFixerPrompt(errors: DetectedError[], sourceAgent: string):
   return `Tu dois corriger les erreurs suivantes détectées dans le code généré:
 
 ## Erreurs détectées:
-${errors.map((e, i) => `${i + 1}. [${e.type}] ${e.message}`).join('\n')}
+${errors.map((e, i) => `${i + 1}. [${e.type}] ${e.message}${formatLocation(e.location)}`).join('\n')}
 
 ## Code problématique:
 Le code a été généré par l'agent "${sourceAgent}".
@@ -167,3 +200,7 @@ Exemple pour une dépendance manquante:
 
 Corrige TOUS les problèmes de manière définitive.`;
 }
+
+function formatLocation(location: DetectedError['location']): string {
+  return location ? ` (${location.file}:${location.line}:${location.column})` : '';
+}
@@ -10,6 +10,7 @@ export type {
   ChatMessage,
   FileContext,
   AgentRequestBody,
+  AgentUsageBudget,
   StreamChunk,
   APIAgentType,
   OrchestrationDecision,
@@ -17,7 +18,7 @@ export type {
 } from './types';
 
 // Stream utilities
-export { createStreamChunk, enqueueChunk, sendAgentStatus, sendText, sendError, sendDone } from './stream';
+export { createStreamChunk, enqueueChunk, sendAgentStatus, sendText, sendUsage, sendError, sendDone } from './stream';
 
 // Error detection
 export { detectErrorsInOutput, buildFixerPrompt } from './error-detection';
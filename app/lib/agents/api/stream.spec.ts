@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { createStreamChunk, enqueueChunk, sendAgentStatus, sendText, sendError, sendDone } from './stream';
+import { createStreamChunk, enqueueChunk, sendAgentStatus, sendText, sendUsage, sendError, sendDone } from './stream';
 import type { StreamChunk } from './types';
 
 describe('stream utilities', () => {
@@ -224,6 +224,35 @@ describe('stream utilities', () => {
     });
   });
 
+  describe('sendUsage', () => {
+    let mockController: ReadableStreamDefaultController;
+    let encoder: TextEncoder;
+    let enqueuedData: Uint8Array[];
+
+    beforeEach(() => {
+      enqueuedData = [];
+      mockController = {
+        enqueue: vi.fn((data: Uint8Array) => {
+          enqueuedData.push(data);
+        }),
+        close: vi.fn(),
+        error: vi.fn(),
+        desiredSize: 1,
+      } as unknown as ReadableStreamDefaultController;
+      encoder = new TextEncoder();
+    });
+
+    it('should send the usage of the call with its agent', () => {
+      const usage = { inputTokens: 100, outputTokens: 50, cacheReadTokens: 10, cacheWriteTokens: 0 };
+      sendUsage(mockController, encoder, 'coder', usage, 'claude-sonnet-4-5-20250929');
+
+      const decoded = new TextDecoder().decode(enqueuedData[0]);
+      const parsed = JSON.parse(decoded.trim());
+
+      expect(parsed).toEqual({ type: 'usage', source: 'coder', usage, model: 'claude-sonnet-4-5-20250929' });
+    });
+  });
+
   describe('sendError', () => {
     let mockController: ReadableStreamDefaultController;
     let encoder: TextEncoder;
@@ -2,6 +2,7 @@
  * Stream utilities pour l'API Agent
  */
 
+import type { TokenUsage } from '~/lib/usage';
 import type { StreamChunk } from './types';
 
 /**
@@ -48,6 +49,24 @@ export function sendText(controller: ReadableStreamDefaultController, encoder: T
   });
 }
 
+/**
+ * Envoie les tokens consommés par un appel LLM, comptabilisés par le client
+ */
+export function sendUsage(
+  controller: ReadableStreamDefaultController,
+  encoder: TextEncoder,
+  source: string,
+  usage: TokenUsage,
+  model: string,
+): void {
+  enqueueChunk(controller, encoder, {
+    type: 'usage',
+    source,
+    usage,
+    model,
+  });
+}
+
 /**
  * Envoie une erreur
  */
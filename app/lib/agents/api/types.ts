@@ -2,6 +2,9 @@
  * Types pour l'API Agent
  */
 
+import type { LLMConfig } from '~/lib/llm';
+import type { TokenUsage } from '~/lib/usage';
+
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
@@ -20,10 +23,25 @@ export interface AgentRequestBody {
   context?: Record<string, unknown>;
   controlMode?: 'strict' | 'moderate' | 'permissive';
   multiAgent?: boolean;
+
+  /** Fournisseur et modèles par agent (défaut: Claude Sonnet) */
+  llm?: LLMConfig;
+
+  /** Budget de tokens par agent, configuré dans Paramètres > Consommation */
+  usageBudget?: AgentUsageBudget;
+}
+
+/**
+ * Limite de tokens par agent et tokens déjà consommés dans la conversation ;
+ * la route n'appelle plus un agent qui a atteint la limite
+ */
+export interface AgentUsageBudget {
+  agentTokens: number;
+  usedTokens: Record<string, number>;
 }
 
 export interface StreamChunk {
-  type: 'text' | 'artifact' | 'agent_status' | 'error' | 'done';
+  type: 'text' | 'artifact' | 'agent_status' | 'usage' | 'error' | 'done';
   content?: string;
   artifact?: {
     type: 'file' | 'command' | 'analysis';
@@ -34,6 +52,11 @@ export interface StreamChunk {
   agent?: string;
   status?: string;
   error?: string;
+
+  /** Source de la consommation (`usage`) : type de l'agent qui a fait l'appel */
+  source?: string;
+  usage?: TokenUsage;
+  model?: string;
 }
 
 export type APIAgentType =
@@ -62,4 +85,7 @@ export interface DetectedError {
   type: 'typescript' | 'syntax' | 'runtime' | 'import' | 'build' | 'test';
   message: string;
   severity: 'high' | 'medium' | 'low';
+
+  /** Emplacement dans les sources du projet (première frame de la pile d'appels) */
+  location?: { file: string; line: number; column: number };
 }
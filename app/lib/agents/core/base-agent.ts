@@ -61,7 +61,6 @@ import type {
   LogLevel,
   AgentEvent,
   AgentEventCallback,
-  DEFAULT_MODEL,
 } from '../types';
 
 /*
@@ -332,6 +331,9 @@ export abstract class BaseAgent {
     this.metrics = this.createEmptyMetrics();
     this.abortController = new AbortController();
 
+    // Restreindre les outils aux allowed-tools des skills actifs
+    this.toolRegistry.setAllowedTools(task.context?.allowedTools ?? null);
+
     // Obtenir un client du pool de connexions
     this.currentApiKey = apiKey;
     this.anthropicClient = getPooledClient(apiKey);
@@ -389,6 +391,7 @@ export abstract class BaseAgent {
       this.currentTask = null;
       this.abortController = null;
       this.anthropicClient = null;
+      this.toolRegistry.setAllowedTools(null);
       this.currentApiKey = null;
 
       // CRITICAL: Always release mutex, even on error
@@ -607,17 +610,15 @@ export abstract class BaseAgent {
     this.status = 'thinking';
     this.metrics.llmCalls++;
 
+    // Les outils hors allowed-tools des skills actifs ne sont pas proposés au LLM
+    const tools = (options?.tools || this.config.tools).filter((tool) => this.toolRegistry.isAllowed(tool.name));
+
     // Déléguer au LLMClient (SRP)
-    const response = await this.llmClient.call(
-      this.anthropicClient,
-      messages,
-      () => this.getSystemPrompt(),
-      {
-        tools: options?.tools || this.config.tools,
-        maxTokens: options?.maxTokens,
-        temperature: options?.temperature,
-      },
-    );
+    const response = await this.llmClient.call(this.anthropicClient, messages, () => this.getSystemPrompt(), {
+      tools,
+      maxTokens: options?.maxTokens,
+      temperature: options?.temperature,
+    });
 
     // Comptabiliser les tokens
     this.metrics.inputTokens += response.inputTokens;
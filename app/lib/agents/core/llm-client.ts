@@ -6,6 +6,7 @@
  * - Retry avec exponential backoff pour les rate limits
  * - Intégration avec le cache LLM et le pool de connexions
  * - Compression de contexte automatique
+ * - Enregistrement/rejeu des échanges pour les tests (`~/lib/replay`)
  *
  * @module agents/core/llm-client
  * @see {@link BaseAgent} pour l'utilisation dans les agents
@@ -16,6 +17,8 @@ import { createScopedLogger } from '~/utils/logger';
 import { getCachedSystemPrompt, getCachedToolConversion } from '../utils/prompt-cache';
 import { getCachedResponse, cacheResponse } from '../cache/llm-cache';
 import { compressContext, needsCompression } from '../utils/context-compressor';
+import { getActiveRecording } from '~/lib/replay';
+import { reportUsage } from '~/lib/usage';
 import type { AgentMessage, ToolDefinition, ToolCall } from '../types';
 
 /*
@@ -210,6 +213,31 @@ export class LLMClient {
     const tools = options?.tools || [];
     const anthropicTools = getCachedToolConversion(tools, (t) => this.convertToAnthropicTools(t));
 
+    // Session enregistrée ou rejouée : pas de cache, chaque appel doit être capturé
+    const recording = getActiveRecording();
+
+    if (recording) {
+      const request = {
+        model: this.config.model,
+        system: systemPrompt,
+        messages: anthropicMessages,
+        tools: anthropicTools,
+        maxTokens: options?.maxTokens || this.config.maxTokens,
+        temperature: options?.temperature || this.config.temperature,
+      };
+
+      const response = await recording.run('message', this.config.agentName, request, () =>
+        this.callWithRetry(client, systemPrompt, anthropicMessages, anthropicTools, options),
+      );
+
+      this.log('debug', `LLM call ${recording.mode === 'replay' ? 'replayed' : 'recorded'}`, {
+        duration: Date.now() - startTime,
+      });
+      this.reportUsage(response);
+
+      return this.parseResponse(response);
+    }
+
     // Vérifier le cache LLM
     const cachedResponse = getCachedResponse(
       this.config.model,
@@ -243,10 +271,27 @@ export class LLMClient {
       stopReason: response.stop_reason,
       duration: Date.now() - startTime,
     });
+    this.reportUsage(response);
 
     return this.parseResponse(response);
   }
 
+  /**
+   * Comptabilise les tokens d'un appel (les réponses du cache LLM sont gratuites)
+   */
+  private reportUsage(response: Anthropic.Message): void {
+    reportUsage({
+      source: this.config.agentName,
+      model: response.model || this.config.model,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        cacheReadTokens: response.usage.cache_read_input_tokens ?? 0,
+        cacheWriteTokens: response.usage.cache_creation_input_tokens ?? 0,
+      },
+    });
+  }
+
   /**
    * Appelle l'API avec retry et exponential backoff
    */
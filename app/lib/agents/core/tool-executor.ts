@@ -225,12 +225,19 @@ export class ToolExecutor {
       return result.output;
     }
 
-    // 2. Utiliser le handler personnalisé si défini
+    // 2. Les outils hors registre respectent aussi la restriction des skills
+    if (!this.registry.isAllowed(toolName)) {
+      throw new Error(
+        `Tool '${toolName}' is not allowed by the active skills. Allowed tools: ${this.registry.getToolNames().join(', ')}`,
+      );
+    }
+
+    // 3. Utiliser le handler personnalisé si défini
     if (this.customToolHandler) {
       return this.customToolHandler(toolName, input);
     }
 
-    // 3. Outil non trouvé
+    // 4. Outil non trouvé
     const availableTools = this.registry.getToolNames();
     const toolList =
       availableTools.length > 0 ? `Available tools: ${availableTools.join(', ')}` : 'No tools registered';
@@ -392,6 +392,39 @@ describe('ToolRegistry', () => {
     });
   });
 
+  describe('setAllowedTools', () => {
+    beforeEach(() => {
+      registry.register({ ...mockTool, name: 'read_file' }, mockHandler);
+      registry.register({ ...mockTool, name: 'write_file' }, mockHandler);
+    });
+
+    it('should only expose allowed tools', () => {
+      registry.setAllowedTools(['read_file']);
+
+      expect(registry.getDefinitions().map((d) => d.name)).toEqual(['read_file']);
+      expect(registry.getToolNames()).toEqual(['read_file']);
+      expect(registry.has('write_file')).toBe(true);
+    });
+
+    it('should refuse to execute a tool that is not allowed', async () => {
+      registry.setAllowedTools(['read_file']);
+
+      const result = await registry.execute('write_file', {});
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('not allowed');
+      expect(mockHandler).not.toHaveBeenCalled();
+    });
+
+    it('should expose every tool once the restriction is cleared', () => {
+      registry.setAllowedTools(['read_file']);
+      registry.setAllowedTools(null);
+
+      expect(registry.getAllowedTools()).toBeNull();
+      expect(registry.getToolNames()).toEqual(['read_file', 'write_file']);
+    });
+  });
+
   describe('executeParallel', () => {
     it('should execute multiple tools in parallel', async () => {
       const handler1 = vi.fn().mockResolvedValue({ success: true, output: 'result1' });
@@ -141,6 +141,11 @@ export class ToolRegistry {
   private cachedDefinitions: ToolDefinition[] | null = null;
   private cacheInvalidated: boolean = true;
 
+  /**
+   * Outils autorisés (ex: `allowed-tools` des skills actifs), null = tous
+   */
+  private allowedTools: Set<string> | null = null;
+
   /*
    * ============================================================================
    * ENREGISTREMENT
@@ -279,7 +284,7 @@ export class ToolRegistry {
   }
 
   /**
-   * Obtenir toutes les définitions d'outils (pour le LLM)
+   * Obtenir toutes les définitions d'outils autorisés (pour le LLM)
    *
    * Utilise un cache interne pour éviter les allocations et le tri
    * à chaque appel. Le cache est invalidé automatiquement lors de
@@ -296,14 +301,18 @@ export class ToolRegistry {
       logger.debug(`Definitions cache rebuilt with ${this.cachedDefinitions.length} tools`);
     }
 
+    if (this.allowedTools) {
+      return this.cachedDefinitions.filter((definition) => this.isAllowed(definition.name));
+    }
+
     return this.cachedDefinitions;
   }
 
   /**
-   * Obtenir les noms de tous les outils
+   * Obtenir les noms de tous les outils autorisés
    */
   getToolNames(): string[] {
-    return Array.from(this.tools.keys());
+    return Array.from(this.tools.keys()).filter((name) => this.isAllowed(name));
   }
 
   /**
@@ -328,6 +337,38 @@ export class ToolRegistry {
     return Array.from(categories);
   }
 
+  /*
+   * ============================================================================
+   * RESTRICTIONS
+   * ============================================================================
+   */
+
+  /**
+   * Restreindre les outils utilisables (ex: `allowed-tools` d'un skill)
+   *
+   * Les outils hors de la liste restent enregistrés mais ne sont plus
+   * exposés au LLM ni exécutables. `null` lève la restriction.
+   */
+  setAllowedTools(names: string[] | null): void {
+    this.allowedTools = names ? new Set(names) : null;
+
+    logger.debug(names ? `Allowed tools: ${names.join(', ')}` : 'Tool restrictions cleared');
+  }
+
+  /**
+   * Obtenir la liste des outils autorisés (null si aucune restriction)
+   */
+  getAllowedTools(): string[] | null {
+    return this.allowedTools ? Array.from(this.allowedTools) : null;
+  }
+
+  /**
+   * Vérifier si un outil est autorisé par la restriction active
+   */
+  isAllowed(name: string): boolean {
+    return !this.allowedTools || this.allowedTools.has(name);
+  }
+
   /*
    * ============================================================================
    * EXÉCUTION
@@ -373,6 +414,17 @@ export class ToolRegistry {
       };
     }
 
+    if (!this.isAllowed(name)) {
+      this.stats.failureCount++;
+      logger.warn(`Tool not allowed: ${name}`);
+
+      return {
+        success: false,
+        output: null,
+        error: `Tool '${name}' is not allowed by the active skills. Allowed tools: ${this.getToolNames().join(', ')}`,
+      };
+    }
+
     const startTime = Date.now();
 
     try {
@@ -467,6 +519,8 @@ export class ToolRegistry {
       failureCount: 0,
     };
 
+    this.allowedTools = null;
+
     // Invalider et vider le cache
     this.cachedDefinitions = null;
     this.cacheInvalidated = true;
@@ -502,6 +556,8 @@ export class ToolRegistry {
       newRegistry.tools.set(name, { ...tool });
     }
 
+    newRegistry.setAllowedTools(this.getAllowedTools());
+
     // Le nouveau registre a cacheInvalidated = true par défaut,
     // donc le cache sera reconstruit au premier getDefinitions()
 
@@ -23,6 +23,7 @@ export {
 
 // Orchestrator execution (Phase 1.2 Refactoring)
 export {
+  checkUsageBudget,
   executeDelegation,
   executeDecomposition,
   handleDelegateToAgent,
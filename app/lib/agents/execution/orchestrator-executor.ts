@@ -27,6 +27,7 @@ import {
 } from './parallel-executor';
 import { getGlobalCircuitBreaker, type CircuitBreaker } from '../utils/circuit-breaker';
 import type { CheckpointScheduler } from '../persistence/checkpoint-scheduler';
+import { usageTracker } from '~/lib/usage';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('OrchestratorExecutor');
@@ -64,6 +65,39 @@ export interface DecompositionContext extends DelegationContext {
   eventEmitter: ExecutorEventEmitter;
 }
 
+/**
+ * Check the usage budgets before running an agent.
+ * Returns the result that pauses the orchestration, or null to continue.
+ */
+export function checkUsageBudget(agent: string, log: ExecutorLogger): TaskResult | null {
+  const exceeded = usageTracker.checkBudgets({ agent });
+
+  if (!exceeded) {
+    return null;
+  }
+
+  log.warn(`Usage budget exceeded, orchestration paused before ${agent}`, {
+    scope: exceeded.scope,
+    limit: exceeded.limit,
+    used: exceeded.used,
+  });
+
+  return {
+    success: false,
+    output: exceeded.message,
+    errors: [
+      {
+        code: 'BUDGET_EXCEEDED',
+        message: exceeded.message,
+        recoverable: true,
+        suggestion: 'Augmenter ou retirer la limite dans Paramètres > Consommation',
+        context: { scope: exceeded.scope, limit: exceeded.limit, used: exceeded.used, agent: exceeded.agent },
+      },
+    ],
+    data: { paused: true, budget: exceeded },
+  };
+}
+
 /**
  * Execute delegation to a single agent
  *
@@ -112,6 +146,13 @@ export async function executeDelegation(
     };
   }
 
+  // Pause before the agent starts when a usage budget is reached
+  const budgetResult = checkUsageBudget(decision.targetAgent, log);
+
+  if (budgetResult) {
+    return budgetResult;
+  }
+
   const agent = registry.get(decision.targetAgent);
 
   if (!agent) {
@@ -327,6 +368,13 @@ export async function executeDecomposition(
       };
     }
 
+    // Budget reached by the previous subtasks: the remaining ones are not started
+    const budgetResult = checkUsageBudget(agentType, log);
+
+    if (budgetResult) {
+      return budgetResult;
+    }
+
     const agent = registry.get(agentType);
 
     if (!agent) {
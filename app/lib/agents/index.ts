@@ -72,6 +72,7 @@ export type { ReviewReport } from './agents/reviewer-agent';
 export { FixerAgent, createFixerAgent } from './agents/fixer-agent';
 export type { FixableError, FixableErrorType, AppliedFix, FixResult } from './agents/fixer-agent';
 export { ArchitectAgent, createArchitectAgent } from './agents/architect-agent';
+export { CustomAgent, createCustomAgent } from './agents/custom-agent';
 
 /*
  * ============================================================================
@@ -160,12 +161,21 @@ export {
   GitPushTool,
   GitPullTool,
   GitBranchTool,
+  GitMergeTool,
+  GitStashTool,
   GitLogTool,
   GitDiffTool,
   createGitToolHandlers,
   createMockGit,
 } from './tools/git-tools';
-export type { GitInterface, GitBranch, GitCommit, GitFileStatus } from './tools/git-tools';
+export type {
+  GitInterface,
+  GitBranch,
+  GitCommit,
+  GitFileStatus,
+  GitMergeResult,
+  GitStashEntry,
+} from './tools/git-tools';
 
 /*
  * ============================================================================
@@ -195,6 +205,21 @@ export type {
   CodeSmell,
 } from './tools/review-tools';
 
+/*
+ * ============================================================================
+ * TOOLS - DEPENDENCIES
+ * ============================================================================
+ */
+
+export {
+  DEPENDENCY_TOOLS,
+  AuditDependenciesTool,
+  CheckOutdatedDependenciesTool,
+  createDependencyToolHandlers,
+  findingToIssue,
+} from './tools/dependency-tools';
+export type { DependencyAuditor } from './tools/dependency-tools';
+
 /*
  * ============================================================================
  * TOOLS - DESIGN
@@ -319,6 +344,19 @@ export type {
 export { SwarmCoordinator, createSwarmCoordinator, PREDEFINED_RULES } from './utils/swarm-coordinator';
 export type { HandoffRule, HandoffCondition, HandoffResult, SwarmChain, SwarmConfig } from './utils/swarm-coordinator';
 
+// Agents personnalisés du projet (.bavini/agents.json)
+export {
+  CUSTOM_AGENTS_FILE,
+  MAX_CUSTOM_AGENTS,
+  parseCustomAgents,
+  createCustomHandoffRules,
+  isCustomAgentType,
+  toCustomAgentType,
+  getCustomAgentName,
+  resolveAgentType,
+} from './utils/custom-agents';
+export type { CustomAgentsParseResult } from './utils/custom-agents';
+
 // Dry-Run Mode pour les opérations destructrices
 export {
   DryRunManager,
@@ -397,15 +435,26 @@ import { createDeployerAgent } from './agents/deployer-agent';
 import { createReviewerAgent } from './agents/reviewer-agent';
 import { createFixerAgent } from './agents/fixer-agent';
 import { createArchitectAgent } from './agents/architect-agent';
+import { createCustomAgent } from './agents/custom-agent';
+import { ToolRegistry, createReadToolsRegistry, createStandardToolRegistry } from './core/tool-registry';
 import type { FileSystem } from './tools/read-tools';
 import type { CodeAnalyzer } from './tools/review-tools';
+import type { DependencyAuditor } from './tools/dependency-tools';
 import { SwarmCoordinator, createSwarmCoordinator } from './utils/swarm-coordinator';
+import {
+  CUSTOM_AGENTS_FILE,
+  createCustomHandoffRules,
+  parseCustomAgents,
+  toCustomAgentType,
+} from './utils/custom-agents';
 import type { WritableFileSystem } from './tools/write-tools';
 import type { ShellInterface } from './tools/shell-tools';
 import type { TestRunner } from './tools/test-tools';
 import type { GitInterface } from './tools/git-tools';
-import type { Task, TaskResult, AgentEventCallback, AgentType } from './types';
-import { handleAgentEvent, updateAgentStatus, addAgentLog, resetAgentStores } from '../stores/agents';
+import type { Task, TaskContext, TaskResult, AgentEventCallback, AgentType, CustomAgentDefinition } from './types';
+import { createSkillRegistry, formatSkillsPrompt, getAllowedTools, type SkillFile } from '~/lib/skills';
+import { McpClient, createMcpToolSet, type McpServerConfig } from '~/lib/mcp';
+import { handleAgentEvent, updateAgentStatus, addAgentLog, resetAgentStores, setCustomAgents } from '../stores/agents';
 import { CheckpointManager, createCheckpointManager } from './utils/checkpoint-manager';
 import { ErrorRecovery, createErrorRecovery } from '~/lib/errors/error-recovery';
 
@@ -440,6 +489,9 @@ export interface AgentSystemConfig {
   /** Analyseur de code (optionnel, pour Reviewer Agent) */
   analyzer?: CodeAnalyzer;
 
+  /** Audit des dépendances (optionnel, pour Reviewer Agent) */
+  dependencyAuditor?: DependencyAuditor;
+
   /** Callback pour les événements (optionnel) */
   onEvent?: AgentEventCallback;
 
@@ -457,8 +509,16 @@ export interface AgentSystemConfig {
 
   /** Activer le swarm coordinator avec les règles prédéfinies */
   enableSwarm?: boolean;
+
+  /** Serveurs MCP du projet, leurs outils sont ajoutés aux agents (catégorie `mcp:<serveur>`) */
+  mcpServers?: McpServerConfig[];
 }
 
+/**
+ * Dossiers des skills du projet, relatifs à sa racine
+ */
+const PROJECT_SKILL_DIRS = ['.bavini/skills', '.claude/skills'];
+
 /**
  * Système d'agents BAVINI
  * Classe principale pour gérer tous les agents
@@ -476,11 +536,15 @@ export class AgentSystem {
   private testRunner?: TestRunner;
   private git?: GitInterface;
   private analyzer?: CodeAnalyzer;
+  private dependencyAuditor?: DependencyAuditor;
   private eventCallback?: AgentEventCallback;
   private maxParallelTasks: number;
   private enableCheckpoints: boolean;
   private enableErrorRecovery: boolean;
   private enableSwarm: boolean;
+  private mcpServers: McpServerConfig[];
+  private mcpClients: McpClient[] = [];
+  private customAgents: CustomAgentDefinition[] = [];
   private initialized = false;
 
   // Store unsubscribe function to prevent memory leaks
@@ -499,11 +563,13 @@ export class AgentSystem {
     this.testRunner = config.testRunner;
     this.git = config.git;
     this.analyzer = config.analyzer;
+    this.dependencyAuditor = config.dependencyAuditor;
     this.eventCallback = config.onEvent;
     this.maxParallelTasks = config.maxParallelTasks ?? 3;
     this.enableCheckpoints = config.enableCheckpoints ?? false;
     this.enableErrorRecovery = config.enableErrorRecovery ?? true;
     this.enableSwarm = config.enableSwarm ?? false;
+    this.mcpServers = config.mcpServers ?? [];
 
     // Réinitialiser les stores
     resetAgentStores();
@@ -585,6 +651,11 @@ export class AgentSystem {
     // Créer et enregistrer le Reviewer Agent (si Analyzer disponible)
     if (this.analyzer) {
       const reviewerAgent = createReviewerAgent(this.analyzer, this.fileSystem);
+
+      if (this.dependencyAuditor) {
+        reviewerAgent.setDependencyAuditor(this.dependencyAuditor);
+      }
+
       this.registry.register(reviewerAgent);
     }
 
@@ -599,6 +670,16 @@ export class AgentSystem {
     orchestrator.setApiKey(this.apiKey);
     this.registry.register(orchestrator);
 
+    // Outils des adapters disponibles, dans lesquels puisent les agents personnalisés
+    const toolPool = await this.createToolPool();
+
+    // Connecter les serveurs MCP et donner leurs outils aux agents
+    await this.connectMcpServers(toolPool);
+
+    // Charger les agents personnalisés du projet (.bavini/agents.json)
+    await this.registerCustomAgents(toolPool);
+    orchestrator.refreshCustomAgents();
+
     // Créer la task queue
     this.taskQueue = new TaskQueue(this.registry, this.apiKey, {
       maxParallel: this.maxParallelTasks,
@@ -638,6 +719,14 @@ export class AgentSystem {
         eventCallback: this.eventCallback,
         enablePredefinedRules: true,
       });
+
+      const customTypes = this.customAgents.map((agent) => toCustomAgentType(agent.name));
+
+      for (const definition of this.customAgents) {
+        for (const rule of createCustomHandoffRules(definition, customTypes)) {
+          this.swarmCoordinator.addRule(rule);
+        }
+      }
     }
 
     this.initialized = true;
@@ -648,6 +737,112 @@ export class AgentSystem {
     });
   }
 
+  /**
+   * Créer le registre des outils disponibles avec les adapters fournis
+   */
+  private async createToolPool(): Promise<ToolRegistry> {
+    const pool = await createStandardToolRegistry({
+      fileSystem: this.writableFileSystem,
+      shell: this.shell,
+      git: this.git,
+    });
+
+    if (!this.writableFileSystem) {
+      pool.merge(await createReadToolsRegistry(this.fileSystem));
+    }
+
+    return pool;
+  }
+
+  /**
+   * Connecter les serveurs MCP actifs et enregistrer leurs outils sur les agents
+   * (sauf l'orchestrateur, qui délègue). Un serveur injoignable est ignoré.
+   */
+  private async connectMcpServers(toolPool: ToolRegistry): Promise<void> {
+    const servers = this.mcpServers.filter((server) => server.enabled !== false);
+
+    for (const server of servers) {
+      const client = new McpClient(server);
+
+      try {
+        await client.connect();
+
+        const toolSet = createMcpToolSet(client, await client.listTools());
+
+        this.registry.getAll().forEach((agent, name) => {
+          if (name !== 'orchestrator') {
+            agent.registerTools(toolSet.definitions, toolSet.handlers, toolSet.category);
+          }
+        });
+
+        toolPool.registerBatch(toolSet.definitions, toolSet.handlers, toolSet.category);
+        this.mcpClients.push(client);
+
+        addAgentLog('orchestrator', {
+          level: 'info',
+          message: `MCP server ${server.name} connected with ${toolSet.definitions.length} tools`,
+        });
+      } catch (error) {
+        addAgentLog('orchestrator', {
+          level: 'warn',
+          message: `MCP server ${server.name} unavailable: ${error instanceof Error ? error.message : String(error)}`,
+        });
+      }
+    }
+  }
+
+  /**
+   * Lire .bavini/agents.json et enregistrer ses agents avec les outils qu'ils déclarent
+   */
+  private async registerCustomAgents(toolPool: ToolRegistry): Promise<void> {
+    try {
+      if (!(await this.fileSystem.exists(CUSTOM_AGENTS_FILE))) {
+        return;
+      }
+
+      const { agents, errors } = parseCustomAgents(await this.fileSystem.readFile(CUSTOM_AGENTS_FILE));
+
+      for (const error of errors) {
+        addAgentLog('orchestrator', { level: 'warn', message: `Custom agent ignored: ${error}` });
+      }
+
+      for (const definition of agents) {
+        const agent = createCustomAgent(definition);
+        const missing = agent.setToolSource(toolPool);
+
+        this.registry.register(agent);
+
+        if (missing.length > 0) {
+          addAgentLog(toCustomAgentType(definition.name), {
+            level: 'warn',
+            message: `Unavailable tools: ${missing.join(', ')}`,
+          });
+        }
+      }
+
+      this.customAgents = agents;
+
+      setCustomAgents(
+        agents.map((agent) => ({
+          name: toCustomAgentType(agent.name),
+          displayName: agent.displayName ?? agent.name,
+          description: agent.description,
+          icon: agent.icon ?? 'i-ph:robot',
+        })),
+      );
+
+      addAgentLog('orchestrator', {
+        level: 'info',
+        message: `${agents.length} custom agents loaded from ${CUSTOM_AGENTS_FILE}`,
+      });
+    } catch (error) {
+      addAgentLog('orchestrator', {
+        level: 'warn',
+        message: `Failed to load custom agents: ${error instanceof Error ? error.message : error}`,
+      });
+    }
+  }
+
   /**
    * Obtenir la task queue
    */
@@ -676,6 +871,72 @@ export class AgentSystem {
     return this.swarmCoordinator;
   }
 
+  /**
+   * Lire les SKILL.md du projet (.bavini/skills/ et .claude/skills/)
+   */
+  private async loadProjectSkills(): Promise<SkillFile[]> {
+    const files: SkillFile[] = [];
+
+    for (const dir of PROJECT_SKILL_DIRS) {
+      try {
+        if (!(await this.fileSystem.exists(dir))) {
+          continue;
+        }
+
+        for (const entry of await this.fileSystem.readdir(dir)) {
+          const path = `${dir}/${entry.name}/SKILL.md`;
+
+          if (entry.isDirectory && (await this.fileSystem.exists(path))) {
+            files.push({ path, content: await this.fileSystem.readFile(path) });
+          }
+        }
+      } catch (error) {
+        addAgentLog('orchestrator', {
+          level: 'warn',
+          message: `Failed to load project skills from ${dir}: ${error instanceof Error ? error.message : error}`,
+        });
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Activer les skills de la demande : leur contenu complète le prompt
+   * et leurs `allowed-tools` restreignent les outils des agents
+   */
+  private async applySkills(
+    prompt: string,
+    context?: Record<string, unknown>,
+  ): Promise<{ prompt: string; context?: TaskContext }> {
+    const skills = createSkillRegistry(await this.loadProjectSkills()).selectForMessage(prompt, {
+      exclude: ['frontend-design'],
+    });
+    const allowedTools = getAllowedTools(skills);
+
+    const taskContext: TaskContext | undefined =
+      context || allowedTools
+        ? {
+            ...(context ? { additionalInfo: context } : {}),
+            ...(allowedTools ? { allowedTools } : {}),
+          }
+        : undefined;
+
+    if (skills.length === 0) {
+      return { prompt, context: taskContext };
+    }
+
+    addAgentLog('orchestrator', {
+      level: 'info',
+      message: `Active skills: ${skills.map((skill) => skill.metadata.name).join(', ')}`,
+    });
+
+    return {
+      prompt: `${prompt}\n\n<skills>\n${formatSkillsPrompt(skills)}\n</skills>`,
+      context: taskContext,
+    };
+  }
+
   /**
    * Exécuter une tâche via l'orchestrateur
    */
@@ -687,12 +948,7 @@ export class AgentSystem {
     const task: Task = {
       id: `task-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
       type: 'user_request',
-      prompt,
-      context: context
-        ? {
-            additionalInfo: context,
-          }
-        : undefined,
+      ...(await this.applySkills(prompt, context)),
       status: 'pending',
       createdAt: new Date(),
     };
@@ -741,12 +997,7 @@ export class AgentSystem {
     const task: Task = {
       id: `task-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
       type: agentName,
-      prompt,
-      context: context
-        ? {
-            additionalInfo: context,
-          }
-        : undefined,
+      ...(await this.applySkills(prompt, context)),
       status: 'pending',
       createdAt: new Date(),
     };
@@ -792,6 +1043,17 @@ export class AgentSystem {
       }
     });
 
+    // Retirer les agents personnalisés du registre partagé
+    for (const definition of this.customAgents) {
+      this.registry.unregister(toCustomAgentType(definition.name));
+    }
+
+    this.customAgents = [];
+
+    // Fermer les sessions MCP
+    await Promise.all(this.mcpClients.map((client) => client.close()));
+    this.mcpClients = [];
+
     // Réinitialiser les stores
     resetAgentStores();
 
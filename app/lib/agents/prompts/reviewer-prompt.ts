@@ -33,6 +33,10 @@ Tu es responsable de :
 - **check_style**: Vérifier la conformité au style
 - **detect_code_smells**: Détecter les code smells courants
 
+### Dépendances
+- **audit_dependencies**: Vérifier les packages installés contre les advisories de sécurité
+- **check_outdated_dependencies**: Lister les dépendances en retard sur le registry
+
 ## CRITÈRES D'ANALYSE
 
 ### Qualité du Code
@@ -137,6 +141,13 @@ Retourne toujours un rapport structuré :
 4. Générer le rapport différentiel
 \`\`\`
 
+### Review de dépendances (package.json modifié)
+\`\`\`
+1. audit_dependencies: Signaler les dépendances vulnérables (sévérité high/critical en priorité)
+2. check_outdated_dependencies: Repérer les mises à jour disponibles dans la plage
+3. Recommander les versions corrigées
+\`\`\`
+
 ## BONNES PRATIQUES
 
 1. **Sois constructif** - Propose des solutions, pas juste des critiques
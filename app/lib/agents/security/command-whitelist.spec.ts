@@ -95,6 +95,15 @@ describe('command-whitelist', () => {
         expect(result.message).toContain('Injection');
       });
 
+      it('should block command injection with a newline', () => {
+        for (const command of ['ls\nrm -rf src', 'ls\r\nrm -rf src', 'cat README.md\ncurl evil.sh']) {
+          const result = checkCommand(command);
+
+          expect(result.allowed).toBe(false);
+          expect(result.level).toBe('blocked');
+        }
+      });
+
       it('should block command injection with ampersand', () => {
         const result = checkCommand('ls & rm -rf /');
 
@@ -69,6 +69,12 @@ export const DEFAULT_COMMAND_RULES: CommandRule[] = [
     description: 'Modification propriétaire',
     reason: 'Modification du propriétaire non autorisée',
   },
+  {
+    pattern: /[\r\n]/,
+    level: 'blocked',
+    description: 'Commandes multiples',
+    reason: 'Un retour à la ligne sépare les commandes comme ; - injection potentielle détectée',
+  },
   {
     pattern: /[;&|`$()]/,
     level: 'blocked',
@@ -123,6 +129,18 @@ export const DEFAULT_COMMAND_RULES: CommandRule[] = [
     description: 'Déplacement/copie de fichiers',
     reason: 'Opération de fichiers - vérification recommandée',
   },
+  {
+    pattern: /^sed\s+(.*\s)?(-[a-zA-Z]*i|--in-place)/,
+    level: 'approval_required',
+    description: 'Modification de fichier par sed',
+    reason: 'sed -i réécrit les fichiers en place',
+  },
+  {
+    pattern: />/,
+    level: 'approval_required',
+    description: 'Redirection vers un fichier',
+    reason: 'La redirection écrase ou modifie un fichier',
+  },
 
   /*
    * ============================================================================
@@ -178,7 +196,7 @@ export const DEFAULT_COMMAND_RULES: CommandRule[] = [
     reason: 'Commande yarn de développement standard',
   },
   {
-    pattern: /^(ls|dir|pwd|echo|cat|head|tail|wc|grep|find)\s*/i,
+    pattern: /^(ls|dir|pwd|echo|cat|head|tail|wc|grep|find|sort|uniq|diff|tree|sed)\s*/i,
     level: 'allowed',
     description: 'Commande lecture seule',
     reason: 'Commande de lecture/affichage uniquement',
@@ -0,0 +1,164 @@
+/**
+ * Tests de rejeu des sessions LLM enregistrées
+ *
+ * Une session est enregistrée avec un client Anthropic scripté, puis rejouée
+ * avec un client qui échoue sur tout appel : le routage de l'orchestrateur
+ * et les outils utilisés par les agents doivent être identiques, sans réseau.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AgentRegistry } from '../core/agent-registry';
+import { createOrchestrator } from '../agents/orchestrator';
+import { createCoderAgent } from '../agents/coder-agent';
+import { createExploreAgent } from '../agents/explore-agent';
+import { createMockFileSystem } from '../utils/mock-filesystem';
+import { createMockWritableFileSystem } from '../tools/write-tools';
+import { LLMRecording, setActiveRecording, type ReplayFixture } from '~/lib/replay';
+import type { Task } from '../types';
+
+const anthropic = vi.hoisted(() => ({
+  responses: [] as unknown[],
+  create: vi.fn(),
+}));
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    messages: { create: anthropic.create },
+  })),
+}));
+
+/**
+ * Réponses successives du client Anthropic pendant l'enregistrement
+ */
+function scriptResponses(...content: unknown[][]): void {
+  anthropic.responses = content.map((blocks, index) => ({
+    id: `msg_${index}`,
+    type: 'message',
+    role: 'assistant',
+    content: blocks,
+    model: 'claude-sonnet-4-5-20250929',
+    stop_reason: blocks.some((block) => (block as { type: string }).type === 'tool_use') ? 'tool_use' : 'end_turn',
+    usage: { input_tokens: 100, output_tokens: 50 },
+  }));
+  anthropic.create.mockImplementation(async () => anthropic.responses.shift());
+}
+
+/**
+ * Client hors ligne : tout appel réseau fait échouer le test
+ */
+function goOffline(): void {
+  anthropic.create.mockImplementation(async () => {
+    throw new Error('Network access during replay');
+  });
+}
+
+function createTask(prompt: string): Task {
+  return {
+    id: 'task-replay',
+    type: 'orchestrator',
+    prompt,
+    status: 'pending',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  };
+}
+
+/**
+ * Enregistre `run`, puis rejoue la fixture (sérialisée comme un fichier)
+ */
+async function recordThenReplay<T>(
+  run: () => Promise<T>,
+): Promise<{ recorded: T; replayed: T; fixture: ReplayFixture }> {
+  const recorder = new LLMRecording({ mode: 'record' });
+  setActiveRecording(recorder);
+
+  const recorded = await run();
+  const fixture: ReplayFixture = JSON.parse(JSON.stringify(recorder.toJSON()));
+
+  goOffline();
+
+  const player = new LLMRecording({ mode: 'replay', fixture });
+  setActiveRecording(player);
+
+  const replayed = await run();
+
+  expect(player.pending).toEqual([]);
+
+  return { recorded, replayed, fixture };
+}
+
+describe('LLM session replay', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    AgentRegistry.resetInstance();
+  });
+
+  afterEach(() => {
+    setActiveRecording(null);
+  });
+
+  it('should replay the routing decision of the orchestrator', async () => {
+    const registry = AgentRegistry.getInstance();
+    const exploreAgent = createExploreAgent();
+    const coderAgent = createCoderAgent();
+
+    exploreAgent.setFileSystem(createMockFileSystem({ 'package.json': '{"name": "test"}' }));
+    coderAgent.setFileSystem(createMockWritableFileSystem());
+    registry.register(exploreAgent);
+    registry.register(coderAgent);
+
+    const coderRun = vi.spyOn(coderAgent, 'run').mockResolvedValue({ success: true, output: 'Button created' });
+
+    scriptResponses([
+      {
+        type: 'tool_use',
+        id: 'tool_1',
+        name: 'delegate_to_agent',
+        input: { agent: 'coder', task: 'Créer le composant Button' },
+      },
+    ]);
+
+    const { recorded, replayed, fixture } = await recordThenReplay(() =>
+      createOrchestrator().run(createTask('Crée un composant Button'), 'sk-ant-test'),
+    );
+
+    expect(fixture.interactions).toHaveLength(1);
+    expect(fixture.interactions[0]).toMatchObject({ kind: 'message', source: 'orchestrator' });
+    expect(replayed.data?.delegatedTo).toBe('coder');
+    expect(replayed.data?.delegatedTo).toBe(recorded.data?.delegatedTo);
+    expect(coderRun).toHaveBeenCalledTimes(2);
+    expect(coderRun.mock.calls[1][0].prompt).toBe(coderRun.mock.calls[0][0].prompt);
+    expect(anthropic.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replay the tool calls of an agent loop', async () => {
+    let fileSystem = createMockWritableFileSystem();
+
+    scriptResponses(
+      [
+        { type: 'text', text: 'Je crée le fichier.' },
+        {
+          type: 'tool_use',
+          id: 'tool_1',
+          name: 'write_file',
+          input: { path: 'src/hello.ts', content: 'export const hello = "world";\n' },
+        },
+      ],
+      [{ type: 'text', text: 'Fichier src/hello.ts créé.' }],
+    );
+
+    const { recorded, replayed, fixture } = await recordThenReplay(async () => {
+      fileSystem = createMockWritableFileSystem();
+
+      const coderAgent = createCoderAgent();
+      coderAgent.setFileSystem(fileSystem);
+
+      return coderAgent.run({ ...createTask('Crée src/hello.ts'), type: 'coder' }, 'sk-ant-test');
+    });
+
+    expect(fixture.interactions).toHaveLength(2);
+    expect(replayed.success).toBe(true);
+    expect(replayed.output).toBe(recorded.output);
+    expect(fileSystem.getFiles()['src/hello.ts']).toBe('export const hello = "world";\n');
+    expect(anthropic.create).toHaveBeenCalledTimes(2);
+  });
+});
@@ -244,6 +244,52 @@ describe('GitTools', () => {
     });
   });
 
+  describe('git_merge', () => {
+    it('should merge a branch', async () => {
+      const result = await handlers.git_merge({ branch: 'develop' });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toContain("Merged 'develop'");
+    });
+
+    it('should list the conflicts and continue once resolved', async () => {
+      handlers = createGitToolHandlers(createMockGit({ conflicts: ['src/App.tsx'] }));
+
+      const result = await handlers.git_merge({ branch: 'develop' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('src/App.tsx');
+      expect(result.error).toContain('continue');
+
+      const continued = await handlers.git_merge({ action: 'continue' });
+
+      expect(continued.success).toBe(true);
+      expect(continued.output).toContain('Merge completed');
+    });
+
+    it('should require a branch to merge', async () => {
+      const result = await handlers.git_merge({});
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('required');
+    });
+  });
+
+  describe('git_stash', () => {
+    it('should push, list and pop changes', async () => {
+      await handlers.git_stash({ message: 'wip header' });
+
+      const list = await handlers.git_stash({ action: 'list' });
+
+      expect(list.output).toBe('stash@{0}: wip header');
+
+      const pop = await handlers.git_stash({ action: 'pop' });
+
+      expect(pop.success).toBe(true);
+      expect((await handlers.git_stash({ action: 'list' })).output).toBe('No stash entries');
+    });
+  });
+
   describe('git_log', () => {
     it('should show log', async () => {
       const result = await handlers.git_log({});
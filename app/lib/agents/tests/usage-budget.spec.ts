@@ -0,0 +1,129 @@
+/**
+ * Tests de la comptabilité des tokens et des budgets
+ *
+ * Les appels des agents sont comptabilisés par LLMClient ; un budget atteint
+ * met l'orchestrateur en pause, avant l'analyse ou avant la délégation.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AgentRegistry } from '../core/agent-registry';
+import { createOrchestrator } from '../agents/orchestrator';
+import { createCoderAgent } from '../agents/coder-agent';
+import { createMockWritableFileSystem } from '../tools/write-tools';
+import { usageTracker } from '~/lib/usage';
+import type { Task } from '../types';
+
+const anthropic = vi.hoisted(() => ({
+  create: vi.fn(),
+}));
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    messages: { create: anthropic.create },
+  })),
+}));
+
+const SONNET = 'claude-sonnet-4-5-20250929';
+
+function respond(content: unknown[], usage: Record<string, number> = { input_tokens: 100, output_tokens: 50 }) {
+  anthropic.create.mockResolvedValueOnce({
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    content,
+    model: SONNET,
+    stop_reason: content.some((block) => (block as { type: string }).type === 'tool_use') ? 'tool_use' : 'end_turn',
+    usage,
+  });
+}
+
+function createTask(prompt: string, type: Task['type'] = 'orchestrator'): Task {
+  return {
+    id: `task-${type}`,
+    type,
+    prompt,
+    status: 'pending',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  };
+}
+
+describe('Usage accounting', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    AgentRegistry.resetInstance();
+    usageTracker.reset();
+    usageTracker.setChatId('chat-1');
+  });
+
+  it('should record the tokens of every agent call', async () => {
+    const coderAgent = createCoderAgent();
+    coderAgent.setFileSystem(createMockWritableFileSystem());
+
+    respond([{ type: 'text', text: 'Rien à faire.' }], {
+      input_tokens: 120,
+      output_tokens: 30,
+      cache_read_input_tokens: 2000,
+      cache_creation_input_tokens: 500,
+    });
+
+    await coderAgent.run(createTask('Vérifie le projet', 'coder'), 'sk-ant-test');
+
+    expect(usageTracker.getAgentTotals('coder')).toMatchObject({
+      inputTokens: 120,
+      outputTokens: 30,
+      cacheReadTokens: 2000,
+      cacheWriteTokens: 500,
+      calls: 1,
+    });
+    expect(usageTracker.getChatTotals().costUsd).toBeGreaterThan(0);
+  });
+
+  it('should pause the orchestrator when the chat budget is reached', async () => {
+    usageTracker.setBudgets({ chatTokens: 1000 });
+    usageTracker.record({
+      source: 'coder',
+      model: SONNET,
+      usage: { inputTokens: 900, outputTokens: 200, cacheReadTokens: 0, cacheWriteTokens: 0 },
+    });
+
+    const result = await createOrchestrator().run(createTask('Ajoute une page de contact'), 'sk-ant-test');
+
+    expect(result.success).toBe(false);
+    expect(result.output).toContain('Budget de tokens de la conversation atteint (1100 / 1000 tokens)');
+    expect(result.errors?.[0]).toMatchObject({ code: 'BUDGET_EXCEEDED', recoverable: true });
+    expect(result.data).toMatchObject({ paused: true, budget: { scope: 'chat-tokens' } });
+    expect(anthropic.create).not.toHaveBeenCalled();
+  });
+
+  it('should not delegate to an agent over its budget', async () => {
+    const registry = AgentRegistry.getInstance();
+    const coderAgent = createCoderAgent();
+    coderAgent.setFileSystem(createMockWritableFileSystem());
+    registry.register(coderAgent);
+
+    const coderRun = vi.spyOn(coderAgent, 'run');
+
+    usageTracker.setBudgets({ agentTokens: 1000 });
+    usageTracker.record({
+      source: 'coder',
+      model: SONNET,
+      usage: { inputTokens: 1000, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 },
+    });
+
+    respond([
+      {
+        type: 'tool_use',
+        id: 'tool_1',
+        name: 'delegate_to_agent',
+        input: { agent: 'coder', task: 'Créer le composant Footer' },
+      },
+    ]);
+
+    const result = await createOrchestrator().run(createTask('Crée un composant Footer'), 'sk-ant-test');
+
+    expect(result.success).toBe(false);
+    expect(result.data).toMatchObject({ paused: true, budget: { scope: 'agent-tokens', agent: 'coder' } });
+    expect(coderRun).not.toHaveBeenCalled();
+    expect(usageTracker.getAgentTotals('orchestrator').calls).toBe(1);
+  });
+});
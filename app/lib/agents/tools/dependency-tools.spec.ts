@@ -0,0 +1,92 @@
+/**
+ * Tests for the dependency audit tools of the reviewer agent
+ * @module agents/tools/dependency-tools.spec
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AuditReport } from '~/lib/runtime/package-manager';
+import { DEPENDENCY_TOOLS, createDependencyToolHandlers, type DependencyAuditor } from './dependency-tools';
+import { createReviewerAgent } from '../agents/reviewer-agent';
+import { createMockAnalyzer } from './review-tools';
+
+const REPORT: AuditReport = {
+  scanned: 12,
+  summary: { info: 0, low: 0, moderate: 1, high: 0, critical: 1 },
+  findings: [
+    {
+      advisory: {
+        id: '1673',
+        name: 'lodash',
+        title: 'Command Injection in lodash',
+        severity: 'critical',
+        vulnerableVersions: '<4.17.21',
+        url: 'https://github.com/advisories/GHSA-35jh-r3h4-6jhm',
+      },
+      version: '4.17.15',
+      paths: ['node_modules/lodash'],
+      direct: true,
+    },
+    {
+      advisory: {
+        id: '46',
+        name: 'ms',
+        title: 'Regular Expression Denial of Service',
+        severity: 'moderate',
+        vulnerableVersions: '<2.0.0',
+      },
+      version: '1.0.0',
+      paths: ['node_modules/debug/node_modules/ms'],
+      direct: false,
+    },
+  ],
+};
+
+function createAuditor(overrides: Partial<DependencyAuditor> = {}): DependencyAuditor {
+  return {
+    audit: async () => REPORT,
+    outdated: async () => [],
+    ...overrides,
+  };
+}
+
+describe('dependency tools', () => {
+  it('should report vulnerable dependencies as security issues', async () => {
+    const handlers = createDependencyToolHandlers(createAuditor());
+    const result = await handlers.audit_dependencies({ auditLevel: 'moderate' });
+    const output = result.output as { vulnerabilities: number; issues: Array<Record<string, string>> };
+
+    expect(result.success).toBe(true);
+    expect(output.vulnerabilities).toBe(2);
+    expect(output.issues[0]).toMatchObject({
+      severity: 'high',
+      type: 'security',
+      file: 'package.json',
+      rule: 'https://github.com/advisories/GHSA-35jh-r3h4-6jhm',
+    });
+    expect(output.issues[1].severity).toBe('medium');
+    expect(output.issues[1].message).toContain('node_modules/debug/node_modules/ms');
+  });
+
+  it('should return auditor errors as failed results', async () => {
+    const handlers = createDependencyToolHandlers(
+      createAuditor({
+        audit: async () => {
+          throw new Error('Advisory file not found: .bavini/advisories.json');
+        },
+      }),
+    );
+    const result = await handlers.audit_dependencies({});
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Advisory file not found: .bavini/advisories.json');
+  });
+
+  it('should register the tools on the reviewer agent', async () => {
+    const agent = createReviewerAgent({ analyzer: createMockAnalyzer(), dependencyAuditor: createAuditor() });
+    const names = agent.getRegisteredTools().map((tool) => tool.name);
+
+    for (const tool of DEPENDENCY_TOOLS) {
+      expect(names).toContain(tool.name);
+    }
+  });
+});
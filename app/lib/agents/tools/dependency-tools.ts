@@ -0,0 +1,166 @@
+/**
+ * Outils d'audit des dépendances pour le Reviewer Agent
+ * Vulnérabilités connues (npm audit) et dépendances obsolètes (npm outdated)
+ */
+
+import type {
+  AuditFinding,
+  AuditOptions,
+  AuditReport,
+  AuditSeverity,
+  OutdatedPackage,
+} from '~/lib/runtime/package-manager';
+import type { ToolDefinition, ToolExecutionResult } from '../types';
+import type { CodeIssue, IssueSeverity } from './review-tools';
+
+/*
+ * ============================================================================
+ * TYPES
+ * ============================================================================
+ */
+
+/**
+ * Interface pour l'audit des dépendances (implémentée par BaviniPM)
+ */
+export interface DependencyAuditor {
+  audit(options?: AuditOptions): Promise<AuditReport>;
+  outdated(): Promise<OutdatedPackage[]>;
+}
+
+/**
+ * Correspondance des sévérités npm vers les sévérités de review
+ */
+const SEVERITY_MAP: Record<AuditSeverity, IssueSeverity> = {
+  critical: 'high',
+  high: 'high',
+  moderate: 'medium',
+  low: 'low',
+  info: 'info',
+};
+
+/*
+ * ============================================================================
+ * OUTILS
+ * ============================================================================
+ */
+
+/**
+ * Outil : Auditer les dépendances installées
+ */
+export const AuditDependenciesTool: ToolDefinition = {
+  name: 'audit_dependencies',
+  description: `Vérifier les packages installés (node_modules) contre la base d'advisories de sécurité du projet.
+Retourne les dépendances vulnérables avec leur sévérité, la plage de versions affectée et les chemins concernés.
+À utiliser lors d'une review de package.json ou d'un ajout de dépendance.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      auditLevel: {
+        type: 'string',
+        enum: ['info', 'low', 'moderate', 'high', 'critical'],
+        description: 'Sévérité minimale à remonter (défaut: info)',
+      },
+      advisoryFile: {
+        type: 'string',
+        description: 'Fichier JSON des advisories (défaut: .bavini/advisories.json)',
+      },
+    },
+    required: [],
+  },
+};
+
+/**
+ * Outil : Lister les dépendances obsolètes
+ */
+export const CheckOutdatedDependenciesTool: ToolDefinition = {
+  name: 'check_outdated_dependencies',
+  description: `Lister les dépendances dont la version installée est en retard sur le registry npm.
+Pour chaque package: version installée, version voulue (max dans la plage de package.json) et dernière version.`,
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+/**
+ * Liste de tous les outils de dépendances
+ */
+export const DEPENDENCY_TOOLS: ToolDefinition[] = [AuditDependenciesTool, CheckOutdatedDependenciesTool];
+
+/*
+ * ============================================================================
+ * HANDLERS
+ * ============================================================================
+ */
+
+/**
+ * Créer les handlers pour les outils de dépendances
+ */
+export function createDependencyToolHandlers(
+  auditor: DependencyAuditor,
+): Record<string, (input: Record<string, unknown>) => Promise<ToolExecutionResult>> {
+  return {
+    audit_dependencies: async (input: Record<string, unknown>): Promise<ToolExecutionResult> => {
+      try {
+        const report = await auditor.audit({
+          auditLevel: input.auditLevel as AuditSeverity | undefined,
+          advisoryFile: input.advisoryFile as string | undefined,
+        });
+
+        return {
+          success: true,
+          output: {
+            scanned: report.scanned,
+            vulnerabilities: report.findings.length,
+            summary: report.summary,
+            issues: report.findings.map(findingToIssue),
+          },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          output: null,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+
+    check_outdated_dependencies: async (): Promise<ToolExecutionResult> => {
+      try {
+        const outdated = await auditor.outdated();
+
+        return {
+          success: true,
+          output: {
+            count: outdated.length,
+            packages: outdated,
+          },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          output: null,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Convertir une vulnérabilité en problème de review
+ */
+export function findingToIssue(finding: AuditFinding): CodeIssue {
+  const { advisory } = finding;
+  const where = finding.direct ? 'dépendance directe' : `dépendance transitive (${finding.paths.join(', ')})`;
+
+  return {
+    severity: SEVERITY_MAP[advisory.severity],
+    type: 'security',
+    file: 'package.json',
+    message: `${advisory.name}@${finding.version}: ${advisory.title} [${advisory.severity}] - ${where}`,
+    suggestion: `Mettre à jour ${advisory.name} vers une version hors de ${advisory.vulnerableVersions}`,
+    rule: advisory.url ?? advisory.id,
+  };
+}
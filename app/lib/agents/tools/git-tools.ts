@@ -18,6 +18,8 @@ export {
   type GitBranch,
   type GitCommit,
   type GitFileStatus,
+  type GitMergeResult,
+  type GitStashEntry,
   type GitInterface,
   // URL Validation
   ALLOWED_GIT_HOSTS,
@@ -36,6 +38,8 @@ export {
   GitPushTool,
   GitPullTool,
   GitBranchTool,
+  GitMergeTool,
+  GitStashTool,
   GitLogTool,
   GitDiffTool,
   GIT_TOOLS,
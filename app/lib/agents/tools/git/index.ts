@@ -9,7 +9,7 @@
  */
 
 // Types
-export type { GitBranch, GitCommit, GitFileStatus, GitInterface } from './types';
+export type { GitBranch, GitCommit, GitFileStatus, GitMergeResult, GitStashEntry, GitInterface } from './types';
 
 // URL Validation
 export {
@@ -32,6 +32,8 @@ export {
   GitPushTool,
   GitPullTool,
   GitBranchTool,
+  GitMergeTool,
+  GitStashTool,
   GitLogTool,
   GitDiffTool,
   GIT_TOOLS,
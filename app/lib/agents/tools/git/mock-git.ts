@@ -8,7 +8,7 @@
  * =============================================================================
  */
 
-import type { GitInterface, GitBranch, GitCommit, GitFileStatus } from './types';
+import type { GitInterface, GitBranch, GitCommit, GitFileStatus, GitStashEntry } from './types';
 
 /**
  * Créer un mock GitInterface pour les tests
@@ -20,6 +20,7 @@ export function createMockGit(
     branches?: GitBranch[];
     commits?: GitCommit[];
     files?: GitFileStatus[];
+    conflicts?: string[];
   } = {},
 ): GitInterface {
   const defaultBranch = options.currentBranch || 'main';
@@ -27,6 +28,8 @@ export function createMockGit(
   const branches: GitBranch[] = options.branches || [{ name: 'main', current: true }];
   const commits: GitCommit[] = options.commits || [];
   const stagedFiles = new Set<string>();
+  const stashEntries: GitStashEntry[] = [];
+  let mergeConflicts: string[] = [];
 
   return {
     async init(_initOptions) {
@@ -97,6 +100,65 @@ export function createMockGit(
       }
     },
 
+    async merge(action, mergeOptions) {
+      switch (action) {
+        case 'merge':
+          mergeConflicts = options.conflicts || [];
+          break;
+        case 'continue':
+        case 'abort':
+          if (mergeConflicts.length === 0) {
+            throw new Error('No merge in progress');
+          }
+
+          mergeConflicts = [];
+
+          if (action === 'abort') {
+            return;
+          }
+
+          break;
+      }
+
+      const hash = mergeConflicts.length > 0 ? undefined : Math.random().toString(36).substring(2, 10);
+
+      if (hash) {
+        commits.unshift({
+          hash,
+          shortHash: hash.substring(0, 7),
+          message: mergeOptions?.message || `Merge branch '${mergeOptions?.branch}' into ${currentBranch}`,
+          author: { name: 'Test', email: 'test@test.com' },
+          date: new Date(),
+        });
+      }
+
+      return { hash, fastForward: false, alreadyUpToDate: false, conflicts: mergeConflicts };
+    },
+
+    async stash(action, stashOptions) {
+      const index = stashOptions?.index ?? 0;
+
+      switch (action) {
+        case 'list':
+          return stashEntries.map((entry, i) => ({ ...entry, index: i }));
+        case 'push':
+          stashEntries.unshift({ index: 0, message: stashOptions?.message || `WIP on ${currentBranch}` });
+          break;
+        case 'pop':
+        case 'drop':
+        case 'apply':
+          if (!stashEntries[index]) {
+            throw new Error(`stash@{${index}} does not exist`);
+          }
+
+          if (action !== 'apply') {
+            stashEntries.splice(index, 1);
+          }
+
+          break;
+      }
+    },
+
     async log(logOptions) {
       const count = logOptions?.count || 10;
       return commits.slice(0, count);
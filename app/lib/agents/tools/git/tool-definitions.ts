@@ -204,6 +204,62 @@ export const GitBranchTool: ToolDefinition = {
   },
 };
 
+/**
+ * Outil pour fusionner des branches
+ */
+export const GitMergeTool: ToolDefinition = {
+  name: 'git_merge',
+  description:
+    'Fusionner une branche dans la branche courante. En cas de conflits, les fichiers contiennent des marqueurs ' +
+    '(<<<<<<<, =======, >>>>>>>) à résoudre avant de poursuivre avec action "continue", ou d\'annuler avec "abort".',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['merge', 'continue', 'abort'],
+        description: 'Action à effectuer (défaut: merge)',
+      },
+      branch: {
+        type: 'string',
+        description: 'Branche à fusionner (requis pour merge)',
+      },
+      message: {
+        type: 'string',
+        description: 'Message du commit de fusion (optionnel)',
+      },
+    },
+    required: [],
+  },
+};
+
+/**
+ * Outil pour mettre de côté des changements
+ */
+export const GitStashTool: ToolDefinition = {
+  name: 'git_stash',
+  description: 'Mettre de côté les changements des fichiers suivis, les réappliquer ou lister le stash.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['push', 'pop', 'apply', 'drop', 'list'],
+        description: 'Action à effectuer (défaut: push)',
+      },
+      message: {
+        type: 'string',
+        description: 'Description des changements mis de côté (pour push)',
+      },
+      index: {
+        type: 'number',
+        description: "Index de l'entrée du stash (pour pop, apply, drop - défaut: 0)",
+      },
+    },
+    required: [],
+  },
+};
+
 /**
  * Outil pour voir le log Git
  */
@@ -268,6 +324,8 @@ export const GIT_TOOLS: ToolDefinition[] = [
   GitPushTool,
   GitPullTool,
   GitBranchTool,
+  GitMergeTool,
+  GitStashTool,
   GitLogTool,
   GitDiffTool,
 ];
@@ -9,7 +9,7 @@
  */
 
 import type { ToolExecutionResult } from '../../types';
-import type { GitInterface, GitBranch } from './types';
+import type { GitInterface, GitBranch, GitMergeResult, GitStashEntry } from './types';
 import {
   validatePushOperation,
   validateCommitMessage,
@@ -370,6 +370,107 @@ export function createGitToolHandlers(
       }
     },
 
+    /**
+     * Fusionner des branches
+     */
+    git_merge: async (input: Record<string, unknown>): Promise<ToolExecutionResult> => {
+      const action = (input.action as 'merge' | 'continue' | 'abort') || 'merge';
+      const branch = input.branch as string | undefined;
+      const message = input.message as string | undefined;
+
+      if (action === 'merge' && !branch) {
+        return {
+          success: false,
+          output: null,
+          error: "Branch name is required for 'merge'",
+        };
+      }
+
+      try {
+        const result = await git.merge(action, { branch, message });
+
+        if (action === 'abort') {
+          return {
+            success: true,
+            output: 'Merge aborted, the branch is back to its previous state',
+          };
+        }
+
+        const { hash, fastForward, alreadyUpToDate, conflicts } = result as GitMergeResult;
+
+        if (conflicts.length > 0) {
+          return {
+            success: false,
+            output: null,
+            error: [
+              'Automatic merge failed, conflicts in:',
+              ...conflicts.map((file) => `  - ${file}`),
+              '',
+              'Fix the conflict markers in these files, then run git_merge with action "continue" (or "abort").',
+            ].join('\n'),
+          };
+        }
+
+        if (alreadyUpToDate) {
+          return {
+            success: true,
+            output: 'Already up to date',
+          };
+        }
+
+        return {
+          success: true,
+          output: `${action === 'continue' ? 'Merge completed' : `Merged '${branch}'`}${fastForward ? ' (fast-forward)' : ''}${hash ? ` [${hash.slice(0, 7)}]` : ''}`,
+        };
+      } catch (error) {
+        return {
+          success: false,
+          output: null,
+          error: `Failed to ${action} merge: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+    },
+
+    /**
+     * Stash Git
+     */
+    git_stash: async (input: Record<string, unknown>): Promise<ToolExecutionResult> => {
+      const action = (input.action as 'push' | 'pop' | 'apply' | 'drop' | 'list') || 'push';
+      const message = input.message as string | undefined;
+      const index = input.index as number | undefined;
+
+      try {
+        if (action === 'list') {
+          const entries = (await git.stash('list')) as GitStashEntry[];
+
+          return {
+            success: true,
+            output: entries.map((entry) => `stash@{${entry.index}}: ${entry.message}`).join('\n') || 'No stash entries',
+          };
+        }
+
+        await git.stash(action, { message, index });
+
+        const messages = {
+          push: `Saved working directory changes${message ? `: ${message}` : ''}`,
+          pop: `Applied and dropped stash@{${index ?? 0}}`,
+          apply: `Applied stash@{${index ?? 0}}`,
+          drop: `Dropped stash@{${index ?? 0}}`,
+        };
+
+        return {
+          success: true,
+          output: messages[action],
+        };
+      } catch (error) {
+        return {
+          success: false,
+          output: null,
+          error: `Failed to ${action} stash: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+    },
+
     /**
      * Log Git
      */
@@ -41,6 +41,27 @@ export interface GitFileStatus {
   staged: boolean;
 }
 
+/**
+ * Résultat d'une fusion
+ */
+export interface GitMergeResult {
+  /** Commit créé, absent tant que des conflits restent à résoudre */
+  hash?: string;
+  fastForward: boolean;
+  alreadyUpToDate: boolean;
+
+  /** Fichiers en conflit, la fusion reste en cours tant que la liste n'est pas vide */
+  conflicts: string[];
+}
+
+/**
+ * Entrée du stash
+ */
+export interface GitStashEntry {
+  index: number;
+  message: string;
+}
+
 /**
  * Interface pour les opérations Git
  */
@@ -90,6 +111,18 @@ export interface GitInterface {
     force?: boolean,
   ): Promise<GitBranch[] | void>;
 
+  /** Fusionner une branche, poursuivre une fusion après résolution des conflits ou l'annuler */
+  merge(
+    action: 'merge' | 'continue' | 'abort',
+    options?: { branch?: string; message?: string },
+  ): Promise<GitMergeResult | void>;
+
+  /** Opérations sur le stash */
+  stash(
+    action: 'push' | 'pop' | 'apply' | 'drop' | 'list',
+    options?: { message?: string; index?: number },
+  ): Promise<GitStashEntry[] | void>;
+
   /** Obtenir le log */
   log(options?: { count?: number; branch?: string }): Promise<GitCommit[]>;
 
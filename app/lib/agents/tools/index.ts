@@ -32,6 +32,7 @@ export {
 // Orchestrator tools (Phase 1.2 Refactoring)
 export {
   DelegateToAgentTool,
+  createDelegateToAgentTool,
   CreateSubtasksTool,
   GetAgentStatusTool,
   CompleteTaskTool,
@@ -12,33 +12,47 @@
 import type { ToolDefinition } from '../types';
 
 /**
- * Tool to delegate a task to a specialized agent
+ * Built-in agents the orchestrator can delegate to
  */
-export const DelegateToAgentTool: ToolDefinition = {
-  name: 'delegate_to_agent',
-  description:
-    'Déléguer une tâche à un agent spécialisé. ' +
-    "Utilise cet outil quand une tâche correspond aux capacités d'un agent.",
-  inputSchema: {
-    type: 'object',
-    properties: {
-      agent: {
-        type: 'string',
-        description: "Nom de l'agent cible (explore, coder, builder, tester, deployer, reviewer, fixer, architect)",
-        enum: ['explore', 'coder', 'builder', 'tester', 'deployer', 'reviewer', 'fixer', 'architect'],
-      },
-      task: {
-        type: 'string',
-        description: "Description précise de la tâche pour l'agent",
-      },
-      context: {
-        type: 'object',
-        description: "Contexte additionnel pour l'agent (fichiers, infos, etc.)",
+const DELEGATE_AGENTS = ['explore', 'coder', 'builder', 'tester', 'deployer', 'reviewer', 'fixer', 'architect'];
+
+/**
+ * Create the delegate_to_agent tool, including the custom agents of the project
+ */
+export function createDelegateToAgentTool(customAgents: readonly string[] = []): ToolDefinition {
+  const agents = [...DELEGATE_AGENTS, ...customAgents];
+
+  return {
+    name: 'delegate_to_agent',
+    description:
+      'Déléguer une tâche à un agent spécialisé. ' +
+      "Utilise cet outil quand une tâche correspond aux capacités d'un agent.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        agent: {
+          type: 'string',
+          description: `Nom de l'agent cible (${agents.join(', ')})`,
+          enum: agents,
+        },
+        task: {
+          type: 'string',
+          description: "Description précise de la tâche pour l'agent",
+        },
+        context: {
+          type: 'object',
+          description: "Contexte additionnel pour l'agent (fichiers, infos, etc.)",
+        },
       },
+      required: ['agent', 'task'],
     },
-    required: ['agent', 'task'],
-  },
-};
+  };
+}
+
+/**
+ * Tool to delegate a task to a specialized agent
+ */
+export const DelegateToAgentTool: ToolDefinition = createDelegateToAgentTool();
 
 /**
  * Tool to create subtasks for complex task decomposition
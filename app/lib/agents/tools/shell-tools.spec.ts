@@ -99,6 +99,27 @@ describe('Shell Security - Command Validation', () => {
       expect(result.program).toBe('rm');
     });
 
+    it('should check every command of a list, including newline-separated ones', () => {
+      const config: ShellSecurityConfig = {
+        mode: 'strict',
+        allowPipes: true,
+        allowRedirections: false,
+        allowChaining: true,
+      };
+
+      expect(validateCommand('ls\nrm -rf src', config)).toMatchObject({ safe: false, program: 'ls' });
+      expect(validateCommand('ls\nrm -rf src', config).reason).toContain("'rm'");
+      expect(validateCommand('ls && unknown_program', config).reason).toContain("'unknown_program'");
+      expect(validateCommand('ls | grep test\npwd', config).safe).toBe(true);
+    });
+
+    it('should treat newlines as chaining in strict mode', () => {
+      const result = validateCommand('ls\npwd', getShellSecurityConfig());
+
+      expect(result.safe).toBe(false);
+      expect(result.reason).toContain('chaining');
+    });
+
     it('should provide suggestions for common dangerous commands', () => {
       const config = getShellSecurityConfig();
       const result = validateCommand('rm file.txt', config);
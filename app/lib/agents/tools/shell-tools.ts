@@ -3,6 +3,7 @@
  * Ces outils permettent d'exécuter des commandes dans WebContainer
  */
 
+import { parseCommandList } from '~/lib/runtime/terminal/pipe-parser';
 import type { ToolDefinition, ToolExecutionResult } from '../types';
 
 /*
@@ -307,6 +308,10 @@ const WHITELISTED_PROGRAMS: Set<string> = new Set([
   'grep',
   'wc',
   'diff',
+  'sed',
+  'sort',
+  'uniq',
+  'tree',
   'pwd',
   'echo',
   'mkdir',
@@ -419,6 +424,16 @@ function extractProgram(command: string): string {
   return parts[0]?.toLowerCase() || '';
 }
 
+/**
+ * Extraire les programmes de toutes les commandes d'une ligne
+ * (listes ;, &&, ||, retours à la ligne et étapes de pipeline)
+ */
+function extractPrograms(command: string): string[] {
+  const { entries } = parseCommandList(command);
+
+  return entries.flatMap((entry) => entry.pipeline.commands.map((cmd) => cmd.command.toLowerCase())).filter(Boolean);
+}
+
 /**
  * Vérifier si une commande contient des opérateurs dangereux
  */
@@ -433,9 +448,9 @@ function containsDangerousOperators(command: string, config: ShellSecurityConfig
     return { safe: false, reason: 'Redirections (<, >, >>) are not allowed in strict mode' };
   }
 
-  // Vérifier le chaînage de commandes
-  if (!config.allowChaining && /[;&]|\|\|/.test(command)) {
-    return { safe: false, reason: 'Command chaining (;, &&, ||) is not allowed in strict mode' };
+  // Vérifier le chaînage de commandes (un retour à la ligne équivaut à ;)
+  if (!config.allowChaining && /[;&\r\n]|\|\|/.test(command)) {
+    return { safe: false, reason: 'Command chaining (;, &&, ||, newline) is not allowed in strict mode' };
   }
 
   return { safe: true };
@@ -465,13 +480,24 @@ export function validateCommand(
     return { safe: false, reason: 'Empty command', program };
   }
 
+  // Chaque commande de la ligne est vérifiée, pas seulement la première
+  let programs: string[];
+
+  try {
+    programs = extractPrograms(command);
+  } catch (error) {
+    return { safe: false, reason: `Invalid shell syntax: ${error instanceof Error ? error.message : error}`, program };
+  }
+
   // 2. Vérifier la blacklist (toujours appliquée)
-  if (BLACKLISTED_PROGRAMS.has(program)) {
+  const blacklisted = programs.find((name) => BLACKLISTED_PROGRAMS.has(name));
+
+  if (blacklisted) {
     return {
       safe: false,
-      reason: `Program '${program}' is explicitly forbidden for security reasons`,
+      reason: `Program '${blacklisted}' is explicitly forbidden for security reasons`,
       program,
-      suggestion: program === 'rm' ? 'Use the delete_file tool instead for safe file deletion' : undefined,
+      suggestion: blacklisted === 'rm' ? 'Use the delete_file tool instead for safe file deletion' : undefined,
     };
   }
 
@@ -496,12 +522,14 @@ export function validateCommand(
   if (config.mode === 'strict') {
     const allowedPrograms = new Set([...WHITELISTED_PROGRAMS, ...(config.additionalAllowedPrograms || [])]);
 
-    if (!allowedPrograms.has(program)) {
+    const notAllowed = programs.find((name) => !allowedPrograms.has(name));
+
+    if (notAllowed) {
       return {
         safe: false,
-        reason: `Program '${program}' is not in the whitelist. Allowed programs: ${Array.from(WHITELISTED_PROGRAMS).slice(0, 10).join(', ')}...`,
+        reason: `Program '${notAllowed}' is not in the whitelist. Allowed programs: ${Array.from(WHITELISTED_PROGRAMS).slice(0, 10).join(', ')}...`,
         program,
-        suggestion: `Add '${program}' to additionalAllowedPrograms if this is a safe program`,
+        suggestion: `Add '${notAllowed}' to additionalAllowedPrograms if this is a safe program`,
       };
     }
   }
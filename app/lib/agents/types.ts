@@ -10,13 +10,10 @@
  */
 
 /**
- * Modèle utilisé par les agents
- * - Sonnet 4.5: Rapide et économique, pour les tâches simples
- * - Opus 4.5: Plus puissant, pour le raisonnement complexe et le code critique
+ * Modèle Anthropic utilisé par un agent
+ * @see getAgentModel dans stores/llm-settings (choisi dans les paramètres)
  */
-export type AgentModel =
-  | 'claude-sonnet-4-5-20250929' // Sonnet 4.5 - rapide, économique
-  | 'claude-opus-4-5-20251101'; // Opus 4.5 - puissant, raisonnement avancé
+export type AgentModel = string;
 
 /**
  * Statut d'un agent
@@ -41,10 +38,29 @@ export type TaskStatus =
   | 'failed' // Échouée
   | 'cancelled'; // Annulée
 
+/**
+ * Agents fournis par BAVINI
+ */
+export type BuiltInAgentType =
+  | 'orchestrator'
+  | 'explore'
+  | 'coder'
+  | 'builder'
+  | 'tester'
+  | 'deployer'
+  | 'reviewer'
+  | 'fixer'
+  | 'architect';
+
+/**
+ * Agent défini par le projet (.bavini/agents.json), préfixé pour ne pas masquer un agent intégré
+ */
+export type CustomAgentType = `custom:${string}`;
+
 /**
  * Type d'agent disponible
  */
-export type AgentType = 'orchestrator' | 'explore' | 'coder' | 'builder' | 'tester' | 'deployer' | 'reviewer' | 'fixer' | 'architect';
+export type AgentType = BuiltInAgentType | CustomAgentType;
 
 /**
  * Mode d'exécution des agents
@@ -92,6 +108,55 @@ export interface ProjectMemory {
   loadedAt?: Date;
 }
 
+/**
+ * Agent personnalisé déclaré dans .bavini/agents.json
+ */
+export interface CustomAgentDefinition {
+  /** Nom de l'agent (ex: `i18n`), enregistré sous `custom:<nom>` */
+  name: string;
+
+  /** Nom affiché dans l'interface */
+  displayName?: string;
+
+  /** Description pour l'orchestrateur (aide à choisir l'agent) */
+  description: string;
+
+  /** System prompt de l'agent */
+  systemPrompt: string;
+
+  /** Outils autorisés (read_file, write_file, outils MCP...) */
+  tools: string[];
+
+  /** Modèle à utiliser (défaut: modèle par défaut des paramètres) */
+  model?: string;
+
+  /** Icône UnoCSS (ex: `i-ph:translate`) */
+  icon?: string;
+
+  /** Règles de handoff pour le SwarmCoordinator */
+  handoffs?: CustomHandoffDefinition[];
+}
+
+/**
+ * Règle de handoff déclarée pour un agent personnalisé
+ */
+export interface CustomHandoffDefinition {
+  /** Agent destination (intégré ou personnalisé) */
+  to: string;
+
+  /** Déclencheur: après un succès, un échec, toujours, ou si la sortie correspond à `pattern` */
+  on: 'success' | 'failure' | 'always' | 'pattern';
+
+  /** Expression régulière testée sur la sortie (pour `on: 'pattern'`) */
+  pattern?: string;
+
+  /** Priorité de la règle (défaut: 5) */
+  priority?: number;
+
+  /** Description de la règle */
+  description?: string;
+}
+
 /**
  * Type d'outil disponible
  */
@@ -288,6 +353,9 @@ export interface TaskContext {
   /** Informations supplémentaires */
   additionalInfo?: Record<string, unknown>;
 
+  /** Outils autorisés par les skills actifs (`allowed-tools`), tous si absent */
+  allowedTools?: string[];
+
   // ========================================
   // Architect Agent Handoff Properties
   // ========================================
@@ -706,49 +774,6 @@ export interface LogEntry {
  * ============================================================================
  */
 
-/**
- * Modèle par défaut pour tous les agents
- */
-export const DEFAULT_MODEL: AgentModel = 'claude-sonnet-4-5-20250929';
-
-/**
- * Configuration hybride des modèles par agent
- *
- * Stratégie:
- * - Opus 4.5: Agents nécessitant un raisonnement complexe (orchestration, code, review, correction)
- * - Sonnet 4.5: Agents effectuant des tâches plus simples (exploration, build, test, deploy)
- */
-export const MODEL_ASSIGNMENT: Record<AgentType, AgentModel> = {
-  // Agents utilisant Opus 4.5 (raisonnement avancé)
-  orchestrator: 'claude-opus-4-5-20251101',
-  coder: 'claude-opus-4-5-20251101',
-  reviewer: 'claude-opus-4-5-20251101',
-  fixer: 'claude-opus-4-5-20251101',
-  architect: 'claude-opus-4-5-20251101', // Decisions architecturales complexes
-
-  // Agents utilisant Sonnet 4.5 (tâches simples, rapidité)
-  explore: 'claude-sonnet-4-5-20250929',
-  builder: 'claude-sonnet-4-5-20250929',
-  tester: 'claude-sonnet-4-5-20250929',
-  deployer: 'claude-sonnet-4-5-20250929',
-};
-
-/**
- * Obtient le modèle approprié pour un type d'agent
- *
- * @param agent - Type d'agent
- * @returns Le modèle Claude à utiliser
- *
- * @example
- * ```typescript
- * const model = getModelForAgent('coder'); // 'claude-opus-4-5-20251101'
- * const model = getModelForAgent('explore'); // 'claude-sonnet-4-5-20250929'
- * ```
- */
-export function getModelForAgent(agent: AgentType): AgentModel {
-  return MODEL_ASSIGNMENT[agent] || DEFAULT_MODEL;
-}
-
 /**
  * Configuration par défaut
  */
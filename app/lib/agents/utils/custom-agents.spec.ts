@@ -0,0 +1,192 @@
+/**
+ * Tests des agents personnalisés déclarés dans .bavini/agents.json
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createCustomHandoffRules,
+  getCustomAgentName,
+  isCustomAgentType,
+  MAX_CUSTOM_AGENTS,
+  parseCustomAgents,
+  resolveAgentType,
+  toCustomAgentType,
+} from './custom-agents';
+import { parseDecision } from './decision-parser';
+import { createCustomAgent } from '../agents/custom-agent';
+import { ToolRegistry } from '../core/tool-registry';
+import { createDelegateToAgentTool } from '../tools/orchestrator-tools';
+import type { CustomAgentDefinition } from '../types';
+
+vi.mock('~/lib/stores/llm-settings', () => ({
+  getAgentModel: () => 'claude-sonnet-4-5-20250929',
+}));
+
+const I18N_AGENT = {
+  name: 'i18n',
+  description: "Traduit les textes de l'interface",
+  systemPrompt: "Tu es un expert de l'internationalisation.",
+  tools: ['read_file', 'edit_file'],
+};
+
+function parseAgents(agents: unknown[]) {
+  return parseCustomAgents(JSON.stringify({ agents }));
+}
+
+describe('custom agents', () => {
+  describe('names', () => {
+    it('should prefix custom agent types', () => {
+      expect(toCustomAgentType('i18n')).toBe('custom:i18n');
+      expect(toCustomAgentType('custom:i18n')).toBe('custom:i18n');
+      expect(getCustomAgentName('custom:i18n')).toBe('i18n');
+      expect(isCustomAgentType('custom:i18n')).toBe(true);
+      expect(isCustomAgentType('coder')).toBe(false);
+    });
+
+    it('should resolve built-in and custom agents', () => {
+      const customAgents = ['custom:i18n' as const];
+
+      expect(resolveAgentType('Reviewer', customAgents)).toBe('reviewer');
+      expect(resolveAgentType('i18n', customAgents)).toBe('custom:i18n');
+      expect(resolveAgentType('custom:i18n', customAgents)).toBe('custom:i18n');
+      expect(resolveAgentType('migration-writer', customAgents)).toBeNull();
+    });
+  });
+
+  describe('parseCustomAgents', () => {
+    it('should parse a valid definition', () => {
+      const { agents, errors } = parseAgents([
+        { ...I18N_AGENT, model: 'claude-haiku-4-5', handoffs: [{ to: 'reviewer', on: 'success' }] },
+      ]);
+
+      expect(errors).toEqual([]);
+      expect(agents).toHaveLength(1);
+      expect(agents[0]).toMatchObject({
+        name: 'i18n',
+        tools: ['read_file', 'edit_file'],
+        model: 'claude-haiku-4-5',
+        handoffs: [{ to: 'reviewer', on: 'success' }],
+      });
+    });
+
+    it('should accept a bare array', () => {
+      expect(parseCustomAgents(JSON.stringify([I18N_AGENT])).agents).toHaveLength(1);
+    });
+
+    it('should report invalid JSON', () => {
+      const { agents, errors } = parseCustomAgents('{ agents: ');
+
+      expect(agents).toEqual([]);
+      expect(errors[0]).toContain('JSON invalide');
+    });
+
+    it('should skip invalid agents and keep the others', () => {
+      const { agents, errors } = parseAgents([
+        I18N_AGENT,
+        { ...I18N_AGENT, name: 'Bad Name' },
+        { ...I18N_AGENT, name: 'coder' },
+        { ...I18N_AGENT, name: 'no-prompt', systemPrompt: '' },
+        { ...I18N_AGENT, name: 'bad-tools', tools: 'read_file' },
+        I18N_AGENT,
+      ]);
+
+      expect(agents.map((agent) => agent.name)).toEqual(['i18n']);
+      expect(errors).toHaveLength(5);
+      expect(errors).toContain('coder: le nom est réservé à un agent intégré');
+      expect(errors).toContain('i18n: agent déclaré plusieurs fois');
+    });
+
+    it('should drop invalid handoffs', () => {
+      const { agents, errors } = parseAgents([
+        {
+          ...I18N_AGENT,
+          handoffs: [{ to: 'reviewer', on: 'never' }, { to: 'fixer', on: 'pattern', pattern: '(' }, { to: 'tester' }],
+        },
+      ]);
+
+      expect(agents[0].handoffs).toEqual([]);
+      expect(errors).toHaveLength(3);
+    });
+
+    it('should limit the number of agents', () => {
+      const definitions = Array.from({ length: MAX_CUSTOM_AGENTS + 1 }, (_, i) => ({
+        ...I18N_AGENT,
+        name: `agent-${i}`,
+      }));
+      const { agents, errors } = parseAgents(definitions);
+
+      expect(agents).toHaveLength(MAX_CUSTOM_AGENTS);
+      expect(errors).toHaveLength(1);
+    });
+  });
+
+  describe('createCustomHandoffRules', () => {
+    it('should map handoffs to swarm rules', () => {
+      const definition: CustomAgentDefinition = {
+        ...I18N_AGENT,
+        handoffs: [
+          { to: 'reviewer', on: 'success', priority: 8 },
+          { to: 'migration-writer', on: 'pattern', pattern: 'migration' },
+          { to: 'unknown', on: 'always' },
+          { to: 'i18n', on: 'failure' },
+        ],
+      };
+
+      const rules = createCustomHandoffRules(definition, ['custom:i18n', 'custom:migration-writer']);
+
+      expect(rules).toHaveLength(2);
+      expect(rules[0]).toMatchObject({
+        from: 'custom:i18n',
+        to: 'reviewer',
+        condition: { type: 'on_success' },
+        priority: 8,
+      });
+      expect(rules[1].to).toBe('custom:migration-writer');
+      expect(rules[1].condition).toMatchObject({ type: 'on_pattern', pattern: /migration/i });
+    });
+  });
+
+  describe('orchestrator routing', () => {
+    const response = (agent: string) => ({
+      text: '',
+      toolCalls: [{ id: 'tool_1', name: 'delegate_to_agent', input: { agent, task: 'Traduire la page' } }],
+    });
+
+    it('should delegate to a registered custom agent', () => {
+      expect(parseDecision(response('i18n'), undefined, ['custom:i18n']).targetAgent).toBe('custom:i18n');
+      expect(parseDecision(response('custom:i18n'), undefined, ['custom:i18n']).targetAgent).toBe('custom:i18n');
+    });
+
+    it('should reject unknown custom agents', () => {
+      expect(() => parseDecision(response('i18n'))).toThrow('Invalid agent "i18n"');
+    });
+
+    it('should list custom agents in the delegate_to_agent tool', () => {
+      const tool = createDelegateToAgentTool(['custom:i18n']);
+      const agentProperty = tool.inputSchema.properties.agent as { enum: string[] };
+
+      expect(agentProperty.enum).toContain('coder');
+      expect(agentProperty.enum).toContain('custom:i18n');
+    });
+  });
+
+  describe('CustomAgent', () => {
+    it('should only get the tools it declares', () => {
+      const source = new ToolRegistry();
+      const handler = vi.fn(async () => ({ success: true, output: 'ok' }));
+
+      for (const name of ['read_file', 'write_file', 'run_command']) {
+        source.register({ name, description: name, inputSchema: { type: 'object', properties: {} } }, handler);
+      }
+
+      const agent = createCustomAgent(I18N_AGENT);
+      const missing = agent.setToolSource(source);
+
+      expect(agent.getName()).toBe('custom:i18n');
+      expect(agent.getSystemPrompt()).toBe(I18N_AGENT.systemPrompt);
+      expect(agent.getConfig().model).toBe('claude-sonnet-4-5-20250929');
+      expect(agent.getRegisteredTools().map((tool) => tool.name)).toEqual(['read_file']);
+      expect(missing).toEqual(['edit_file']);
+    });
+  });
+});
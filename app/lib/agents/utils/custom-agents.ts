@@ -0,0 +1,300 @@
+/**
+ * Agents personnalisés déclarés par le projet
+ *
+ * Le fichier .bavini/agents.json décrit des agents spécialisés (ex: i18n,
+ * migration-writer) avec leur prompt, leurs outils, leur modèle et leurs
+ * règles de handoff :
+ *
+ * ```json
+ * {
+ *   "agents": [
+ *     {
+ *       "name": "i18n",
+ *       "description": "Traduit les textes de l'interface",
+ *       "systemPrompt": "Tu es un expert de l'internationalisation...",
+ *       "tools": ["read_file", "edit_file"],
+ *       "handoffs": [{ "to": "reviewer", "on": "success" }]
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * @module agents/utils/custom-agents
+ */
+
+import type { HandoffCondition, HandoffRule } from './swarm-coordinator';
+import type {
+  AgentType,
+  BuiltInAgentType,
+  CustomAgentDefinition,
+  CustomAgentType,
+  CustomHandoffDefinition,
+} from '../types';
+
+/*
+ * ============================================================================
+ * CONSTANTES
+ * ============================================================================
+ */
+
+/**
+ * Fichier de configuration, relatif à la racine du projet
+ */
+export const CUSTOM_AGENTS_FILE = '.bavini/agents.json';
+
+/**
+ * Nombre maximum d'agents personnalisés par projet
+ */
+export const MAX_CUSTOM_AGENTS = 10;
+
+const CUSTOM_AGENT_PREFIX = 'custom:';
+
+const AGENT_NAME_REGEX = /^[a-z][a-z0-9-]{0,31}$/;
+
+const BUILT_IN_AGENTS: BuiltInAgentType[] = [
+  'orchestrator',
+  'explore',
+  'coder',
+  'builder',
+  'tester',
+  'deployer',
+  'reviewer',
+  'fixer',
+  'architect',
+];
+
+const HANDOFF_TRIGGERS: CustomHandoffDefinition['on'][] = ['success', 'failure', 'always', 'pattern'];
+
+const DEFAULT_HANDOFF_PRIORITY = 5;
+
+/*
+ * ============================================================================
+ * TYPES
+ * ============================================================================
+ */
+
+/**
+ * Résultat du parsing de .bavini/agents.json
+ */
+export interface CustomAgentsParseResult {
+  agents: CustomAgentDefinition[];
+
+  /** Agents ignorés et pourquoi */
+  errors: string[];
+}
+
+/*
+ * ============================================================================
+ * NOMS
+ * ============================================================================
+ */
+
+export function isCustomAgentType(agent: string): agent is CustomAgentType {
+  return agent.startsWith(CUSTOM_AGENT_PREFIX);
+}
+
+/**
+ * Type d'un agent personnalisé dans le registre (`i18n` -> `custom:i18n`)
+ */
+export function toCustomAgentType(name: string): CustomAgentType {
+  return isCustomAgentType(name) ? name : `${CUSTOM_AGENT_PREFIX}${name}`;
+}
+
+/**
+ * Nom déclaré d'un agent personnalisé (`custom:i18n` -> `i18n`)
+ */
+export function getCustomAgentName(agent: CustomAgentType): string {
+  return agent.slice(CUSTOM_AGENT_PREFIX.length);
+}
+
+/**
+ * Résout un nom d'agent tel qu'écrit par l'utilisateur ou le LLM
+ * (`reviewer`, `i18n`, `custom:i18n`), null si l'agent n'existe pas
+ */
+export function resolveAgentType(name: string, customAgents: readonly AgentType[]): AgentType | null {
+  const normalized = name.toLowerCase().trim();
+
+  if ((BUILT_IN_AGENTS as string[]).includes(normalized)) {
+    return normalized as BuiltInAgentType;
+  }
+
+  const customType = toCustomAgentType(normalized);
+
+  return customAgents.includes(customType) ? customType : null;
+}
+
+/*
+ * ============================================================================
+ * PARSING
+ * ============================================================================
+ */
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function parseHandoff(value: unknown, agentName: string, errors: string[]): CustomHandoffDefinition | null {
+  const handoff = value as Partial<CustomHandoffDefinition> | null;
+
+  if (!handoff || typeof handoff.to !== 'string' || !HANDOFF_TRIGGERS.includes(handoff.on!)) {
+    errors.push(`${agentName}: handoff invalide (attendu: { "to": "<agent>", "on": "${HANDOFF_TRIGGERS.join('|')}" })`);
+    return null;
+  }
+
+  if (handoff.on === 'pattern') {
+    try {
+      new RegExp(handoff.pattern ?? '');
+    } catch {
+      errors.push(`${agentName}: pattern de handoff invalide "${handoff.pattern}"`);
+      return null;
+    }
+
+    if (!handoff.pattern) {
+      errors.push(`${agentName}: un handoff "pattern" nécessite un pattern`);
+      return null;
+    }
+  }
+
+  return {
+    to: handoff.to,
+    on: handoff.on!,
+    pattern: handoff.pattern,
+    priority: typeof handoff.priority === 'number' ? handoff.priority : undefined,
+    description: typeof handoff.description === 'string' ? handoff.description : undefined,
+  };
+}
+
+function parseAgent(value: unknown, index: number, errors: string[]): CustomAgentDefinition | null {
+  const agent = value as Partial<CustomAgentDefinition> | null;
+  const label = typeof agent?.name === 'string' ? agent.name : `agents[${index}]`;
+
+  if (!agent || typeof agent.name !== 'string' || !AGENT_NAME_REGEX.test(agent.name)) {
+    errors.push(`${label}: nom invalide (minuscules, chiffres et tirets, 32 caractères max)`);
+    return null;
+  }
+
+  if ((BUILT_IN_AGENTS as string[]).includes(agent.name)) {
+    errors.push(`${label}: le nom est réservé à un agent intégré`);
+    return null;
+  }
+
+  if (typeof agent.description !== 'string' || !agent.description.trim()) {
+    errors.push(`${label}: description manquante`);
+    return null;
+  }
+
+  if (typeof agent.systemPrompt !== 'string' || !agent.systemPrompt.trim()) {
+    errors.push(`${label}: systemPrompt manquant`);
+    return null;
+  }
+
+  if (agent.tools !== undefined && !isStringArray(agent.tools)) {
+    errors.push(`${label}: tools doit être une liste de noms d'outils`);
+    return null;
+  }
+
+  const handoffs = Array.isArray(agent.handoffs)
+    ? agent.handoffs
+        .map((handoff) => parseHandoff(handoff, label, errors))
+        .filter((handoff): handoff is CustomHandoffDefinition => handoff !== null)
+    : [];
+
+  return {
+    name: agent.name,
+    displayName: typeof agent.displayName === 'string' ? agent.displayName : undefined,
+    description: agent.description.trim(),
+    systemPrompt: agent.systemPrompt,
+    tools: agent.tools ?? [],
+    model: typeof agent.model === 'string' && agent.model ? agent.model : undefined,
+    icon: typeof agent.icon === 'string' ? agent.icon : undefined,
+    handoffs,
+  };
+}
+
+/**
+ * Parse le contenu de .bavini/agents.json
+ * Les agents invalides sont ignorés et signalés dans `errors`
+ */
+export function parseCustomAgents(content: string): CustomAgentsParseResult {
+  const errors: string[] = [];
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    return { agents: [], errors: [`${CUSTOM_AGENTS_FILE}: JSON invalide (${(error as Error).message})`] };
+  }
+
+  const list = Array.isArray(raw) ? raw : (raw as { agents?: unknown } | null)?.agents;
+
+  if (!Array.isArray(list)) {
+    return { agents: [], errors: [`${CUSTOM_AGENTS_FILE}: la clé "agents" doit être une liste`] };
+  }
+
+  const agents: CustomAgentDefinition[] = [];
+
+  list.forEach((value, index) => {
+    const agent = parseAgent(value, index, errors);
+
+    if (!agent) {
+      return;
+    }
+
+    if (agents.some((existing) => existing.name === agent.name)) {
+      errors.push(`${agent.name}: agent déclaré plusieurs fois`);
+    } else if (agents.length >= MAX_CUSTOM_AGENTS) {
+      errors.push(`${agent.name}: limite de ${MAX_CUSTOM_AGENTS} agents atteinte`);
+    } else {
+      agents.push(agent);
+    }
+  });
+
+  return { agents, errors };
+}
+
+/*
+ * ============================================================================
+ * HANDOFFS
+ * ============================================================================
+ */
+
+function toHandoffCondition(handoff: CustomHandoffDefinition): HandoffCondition {
+  switch (handoff.on) {
+    case 'success':
+      return { type: 'on_success' };
+    case 'failure':
+      return { type: 'on_failure' };
+    case 'pattern':
+      return { type: 'on_pattern', pattern: new RegExp(handoff.pattern!, 'i') };
+    default:
+      return { type: 'always' };
+  }
+}
+
+/**
+ * Règles du SwarmCoordinator pour les handoffs d'un agent personnalisé
+ * Les handoffs vers un agent inconnu sont ignorés
+ */
+export function createCustomHandoffRules(
+  definition: CustomAgentDefinition,
+  customAgents: readonly AgentType[],
+): HandoffRule[] {
+  const from = toCustomAgentType(definition.name);
+  const rules: HandoffRule[] = [];
+
+  for (const handoff of definition.handoffs ?? []) {
+    const to = resolveAgentType(handoff.to, customAgents);
+
+    if (to && to !== from && to !== 'orchestrator') {
+      rules.push({
+        from,
+        to,
+        condition: toHandoffCondition(handoff),
+        priority: handoff.priority ?? DEFAULT_HANDOFF_PRIORITY,
+        description: handoff.description ?? `${definition.name} -> ${handoff.to} (${handoff.on})`,
+      });
+    }
+  }
+
+  return rules;
+}
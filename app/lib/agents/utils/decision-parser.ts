@@ -10,6 +10,7 @@
  */
 
 import type { AgentType, OrchestrationDecision, ToolCall } from '../types';
+import { isCustomAgentType, resolveAgentType } from './custom-agents';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('DecisionParser');
@@ -41,23 +42,30 @@ export interface DecisionParserLogger {
  *
  * @param agent - The agent name to validate
  * @param context - Context for error messages
+ * @param customAgents - Registered custom agents, also accepted without their `custom:` prefix
  * @returns The validated agent type
  * @throws Error if the agent is invalid
  */
-export function validateAgent(agent: unknown, context: string): AgentType {
+export function validateAgent(agent: unknown, context: string, customAgents: readonly AgentType[] = []): AgentType {
   if (!agent || typeof agent !== 'string') {
     throw new Error(`${context}: Agent name is required and must be a string`);
   }
 
   const normalizedAgent = agent.toLowerCase().trim() as AgentType;
 
-  if (!VALID_AGENTS.includes(normalizedAgent)) {
+  if (VALID_AGENTS.includes(normalizedAgent)) {
+    return normalizedAgent;
+  }
+
+  const customAgent = resolveAgentType(normalizedAgent, customAgents);
+
+  if (!customAgent || !isCustomAgentType(customAgent)) {
     throw new Error(
-      `${context}: Invalid agent "${agent}". ` + `Valid agents are: ${VALID_AGENTS.join(', ')}`,
+      `${context}: Invalid agent "${agent}". ` + `Valid agents are: ${[...VALID_AGENTS, ...customAgents].join(', ')}`,
     );
   }
 
-  return normalizedAgent;
+  return customAgent;
 }
 
 /**
@@ -97,9 +105,10 @@ export function validateTaskDescription(
 function parseDelegateToAgent(
   input: Record<string, unknown>,
   log?: DecisionParserLogger,
+  customAgents?: readonly AgentType[],
 ): OrchestrationDecision {
   // Strict agent validation
-  const agent = validateAgent(input.agent, 'delegate_to_agent');
+  const agent = validateAgent(input.agent, 'delegate_to_agent', customAgents);
 
   // Strict task validation
   const task = validateTaskDescription(input.task, 'delegate_to_agent', log);
@@ -133,6 +142,7 @@ interface ValidatedSubtask {
 function parseCreateSubtasks(
   input: Record<string, unknown>,
   log?: DecisionParserLogger,
+  customAgents?: readonly AgentType[],
 ): OrchestrationDecision {
   const tasks = input.tasks as unknown;
 
@@ -169,7 +179,7 @@ function parseCreateSubtasks(
     let agent: AgentType | undefined;
 
     if (subtask.agent !== undefined && subtask.agent !== null && subtask.agent !== '') {
-      agent = validateAgent(subtask.agent, `create_subtasks[${idx}].agent`);
+      agent = validateAgent(subtask.agent, `create_subtasks[${idx}].agent`, customAgents);
     }
 
     // Validate dependencies
@@ -286,11 +296,13 @@ function parseCompleteTask(
  *
  * @param response - The LLM response containing text and optional tool calls
  * @param log - Optional logger for warnings and errors
+ * @param customAgents - Registered custom agents the LLM may delegate to
  * @returns The parsed orchestration decision
  */
 export function parseDecision(
   response: { text: string; toolCalls: ToolCall[] | undefined },
   log?: DecisionParserLogger,
+  customAgents?: readonly AgentType[],
 ): OrchestrationDecision {
   // Check for tool calls
   if (response.toolCalls && response.toolCalls.length > 0) {
@@ -299,11 +311,11 @@ export function parseDecision(
 
       try {
         if (toolCall.name === 'delegate_to_agent') {
-          return parseDelegateToAgent(input, log);
+          return parseDelegateToAgent(input, log, customAgents);
         }
 
         if (toolCall.name === 'create_subtasks') {
-          return parseCreateSubtasks(input, log);
+          return parseCreateSubtasks(input, log, customAgents);
         }
 
         if (toolCall.name === 'complete_task') {
@@ -177,6 +177,7 @@ export const TOOL_TIMEOUTS: Record<string, number> = {
   git_branch: 10000, // 10s
   git_checkout: 15000, // 15s
   git_merge: 30000, // 30s
+  git_stash: 15000, // 15s
   git_log: 15000, // 15s
   git_init: 10000, // 10s
 
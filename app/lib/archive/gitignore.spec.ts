@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { createGitignoreFilter } from './gitignore';
+
+describe('createGitignoreFilter', () => {
+  const isIgnored = createGitignoreFilter(
+    new Map([
+      ['.gitignore', '# build output\ndist/\n*.log\n!keep.log\n/.env\n'],
+      ['packages/app/.gitignore', 'generated\n'],
+    ]),
+  );
+
+  it('should ignore files matching the rules at any depth', () => {
+    expect(isIgnored('dist/index.js')).toBe(true);
+    expect(isIgnored('src/debug.log')).toBe(true);
+    expect(isIgnored('src/keep.log')).toBe(false);
+    expect(isIgnored('src/main.tsx')).toBe(false);
+  });
+
+  it('should anchor rules with a slash to their .gitignore folder', () => {
+    expect(isIgnored('.env')).toBe(true);
+    expect(isIgnored('config/.env')).toBe(false);
+    expect(isIgnored('packages/app/generated/types.ts')).toBe(true);
+    expect(isIgnored('generated/types.ts')).toBe(false);
+  });
+});
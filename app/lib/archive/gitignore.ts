@@ -0,0 +1,106 @@
+/**
+ * .gitignore rules of a project, to leave ignored files out of an export.
+ */
+
+import { globToRegExp } from '~/lib/runtime/filesystem';
+
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+
+  /** Pattern ending with a slash, it only matches directories */
+  directoryOnly: boolean;
+}
+
+/**
+ * Filter telling if a project path is ignored by the .gitignore files of the project
+ *
+ * @param files - project files by path relative to the project root
+ */
+export function createGitignoreFilter(files: Map<string, string>): (path: string) => boolean {
+  const rulesByDirectory: Array<[string, IgnoreRule[]]> = [];
+
+  for (const [path, content] of files) {
+    if (path === '.gitignore' || path.endsWith('/.gitignore')) {
+      const directory = path.slice(0, -'.gitignore'.length);
+
+      rulesByDirectory.push([directory, parseGitignore(content, directory)]);
+    }
+  }
+
+  // rules of deeper .gitignore files come last and win
+  rulesByDirectory.sort(([a], [b]) => a.length - b.length);
+
+  const isIgnored = (path: string, isDirectory: boolean) => {
+    let ignored = false;
+
+    for (const [directory, rules] of rulesByDirectory) {
+      if (!path.startsWith(directory)) {
+        continue;
+      }
+
+      for (const rule of rules) {
+        if ((isDirectory || !rule.directoryOnly) && rule.regex.test(path)) {
+          ignored = !rule.negated;
+        }
+      }
+    }
+
+    return ignored;
+  };
+
+  return (path) => {
+    const segments = path.split('/');
+
+    // a file can't be included again when one of its directories is ignored
+    for (let index = 1; index < segments.length; index++) {
+      if (isIgnored(segments.slice(0, index).join('/'), true)) {
+        return true;
+      }
+    }
+
+    return isIgnored(path, false);
+  };
+}
+
+/**
+ * Rules of a .gitignore file
+ *
+ * @param directory - directory of the file relative to the project root, with a trailing slash
+ */
+function parseGitignore(content: string, directory: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let pattern = rawLine.replace(/(?<!\\)\s+$/, '');
+
+    if (!pattern || pattern.startsWith('#')) {
+      continue;
+    }
+
+    const negated = pattern.startsWith('!');
+
+    if (negated) {
+      pattern = pattern.substring(1);
+    }
+
+    const directoryOnly = pattern.endsWith('/');
+
+    if (directoryOnly) {
+      pattern = pattern.slice(0, -1);
+    }
+
+    // a pattern with a slash is relative to the .gitignore file, a name matches at any depth
+    const anchored = pattern.includes('/');
+
+    pattern = pattern.replace(/^\//, '');
+
+    rules.push({
+      regex: globToRegExp(`${directory}${anchored ? '' : '**/'}${pattern}`, { dot: true }),
+      negated,
+      directoryOnly,
+    });
+  }
+
+  return rules;
+}
@@ -0,0 +1,6 @@
+/**
+ * Project archives: source and build downloads, imports.
+ */
+
+export { type ZipImport, createZip, createSourceZip, readProjectZip } from './zip';
+export { createGitignoreFilter } from './gitignore';
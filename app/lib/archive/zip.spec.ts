@@ -0,0 +1,36 @@
+/** @vitest-environment node */
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { createSourceZip, readProjectZip } from './zip';
+
+describe('createSourceZip', () => {
+  it('should leave ignored files and dependencies out', () => {
+    const zip = createSourceZip(
+      new Map([
+        ['.gitignore', 'dist\n'],
+        ['src/main.tsx', 'render();'],
+        ['dist/index.js', 'bundle'],
+        ['node_modules/react/index.js', 'react'],
+      ]),
+    );
+
+    expect(Object.keys(unzipSync(zip)).sort()).toEqual(['.gitignore', 'src/main.tsx']);
+  });
+});
+
+describe('readProjectZip', () => {
+  it('should remove the folder wrapping the project and skip binary files', () => {
+    const zip = zipSync({
+      'my-app-main/package.json': strToU8('{"name":"my-app"}'),
+      'my-app-main/src/main.tsx': strToU8('render();'),
+      'my-app-main/public/logo.png': new Uint8Array([137, 80, 78, 71, 0, 1]),
+      '__MACOSX/my-app-main/._package.json': new Uint8Array([0, 5]),
+    });
+
+    const { files, skipped } = readProjectZip(zip);
+
+    expect([...files.keys()].sort()).toEqual(['package.json', 'src/main.tsx']);
+    expect(files.get('src/main.tsx')).toBe('render();');
+    expect(skipped).toEqual(['public/logo.png']);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * ZIP archives of a project, to download it or import one.
+ */
+
+import { strToU8, unzipSync, zipSync, type Zippable } from 'fflate';
+import { createGitignoreFilter } from './gitignore';
+
+export interface ZipImport {
+  /** Text files by path relative to the project root */
+  files: Map<string, string>;
+
+  /** Binary files, the project only holds text files */
+  skipped: string[];
+}
+
+/**
+ * Folders never put in or taken from an archive of the sources
+ */
+const EXCLUDED_FOLDERS = ['.git', 'node_modules'];
+
+/**
+ * Entries added by archivers, not part of a project
+ */
+const ARCHIVER_ENTRIES = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$)/;
+
+/**
+ * Archive files by path relative to the archive root
+ */
+export function createZip(files: Map<string, string | Uint8Array>): Uint8Array {
+  const entries: Zippable = {};
+
+  for (const [path, content] of files) {
+    entries[path] = typeof content === 'string' ? strToU8(content) : content;
+  }
+
+  return zipSync(entries, { level: 6 });
+}
+
+/**
+ * Archive the sources of a project, without the files its .gitignore files ignore
+ *
+ * @param files - project files by path relative to the project root
+ */
+export function createSourceZip(files: Map<string, string>): Uint8Array {
+  const isIgnored = createGitignoreFilter(files);
+  const sources = new Map<string, string>();
+
+  for (const [path, content] of files) {
+    if (!isExcluded(path) && !isIgnored(path)) {
+      sources.set(path, content);
+    }
+  }
+
+  return createZip(sources);
+}
+
+/**
+ * Files of a project archive. The folder wrapping every file, as in the
+ * archives GitHub makes, is removed from the paths.
+ */
+export function readProjectZip(data: Uint8Array): ZipImport {
+  const entries = unzipSync(data, {
+    filter: (file) => !file.name.endsWith('/') && !ARCHIVER_ENTRIES.test(file.name),
+  });
+
+  const paths = Object.keys(entries);
+  const root = getCommonFolder(paths);
+  const result: ZipImport = { files: new Map(), skipped: [] };
+
+  for (const entryPath of paths) {
+    const path = entryPath.substring(root.length);
+
+    if (isExcluded(path)) {
+      continue;
+    }
+
+    const text = decodeText(entries[entryPath]);
+
+    if (text === null) {
+      result.skipped.push(path);
+    } else {
+      result.files.set(path, text);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Content of a text file, null for a binary file
+ */
+function decodeText(bytes: Uint8Array): string | null {
+  if (bytes.includes(0)) {
+    return null;
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+function isExcluded(path: string): boolean {
+  return path.split('/').some((segment) => EXCLUDED_FOLDERS.includes(segment));
+}
+
+/**
+ * Folder containing every path, with a trailing slash, empty when there is none
+ */
+function getCommonFolder(paths: string[]): string {
+  const [first] = paths;
+  const slash = first?.indexOf('/') ?? -1;
+
+  if (slash === -1) {
+    return '';
+  }
+
+  const folder = first.substring(0, slash + 1);
+
+  return paths.every((path) => path.startsWith(folder)) ? folder : '';
+}
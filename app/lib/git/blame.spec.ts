@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { computeBlame } from './blame';
+import type { LogEntry } from './operations';
+
+const commit = (oid: string): LogEntry => ({
+  oid,
+  message: `${oid}\n`,
+  author: { name: 'Test User', email: 'test@example.com', timestamp: 1700000000 },
+});
+
+const owners = (content: string, versions: Array<[string, string]>) =>
+  computeBlame(
+    versions.map(([oid, versionContent]) => ({ commit: commit(oid), content: versionContent })),
+    content,
+  ).map((line) => line.commit?.oid ?? null);
+
+describe('computeBlame', () => {
+  it('should attribute each line to the commit that last changed it', () => {
+    const versions: Array<[string, string]> = [
+      ['third', 'a\nB\nc\nd\n'],
+      ['second', 'a\nb\nc\nd\n'],
+      ['first', 'a\nb\nc\n'],
+    ];
+
+    expect(owners('a\nB\nc\nd\n', versions)).toEqual(['first', 'third', 'first', 'second']);
+  });
+
+  it('should leave lines that differ from the last commit uncommitted', () => {
+    expect(owners('new\na\nb\n', [['first', 'a\nb\n']])).toEqual([null, 'first', 'first']);
+    expect(owners('a\nb\n', [])).toEqual([null, null]);
+  });
+
+  it('should give lines older than the history read to its oldest commit', () => {
+    expect(owners('a\nb\n', [['second', 'a\nb\n']])).toEqual(['second', 'second']);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Per-line attribution of a file from the versions committed in its history.
+ */
+
+import { diffLines } from 'diff';
+import type { LogEntry } from './operations';
+
+export interface BlameVersion {
+  commit: LogEntry;
+  content: string;
+}
+
+export interface BlameLine {
+  /** 1-based line in the working copy */
+  line: number;
+
+  /** Commit that last changed the line, null when it is not committed yet */
+  commit: LogEntry | null;
+}
+
+/**
+ * Attribute each line of the working copy to the commit that last changed it
+ *
+ * @param versions - versions of the file, newest first, as listed by its log
+ * @param content - working copy, diffed against the newest version
+ */
+export function computeBlame(versions: BlameVersion[], content: string): BlameLine[] {
+  const lineCount = splitLines(content).length;
+  const commits: Array<LogEntry | null> = new Array(lineCount).fill(null);
+
+  // line of the version being looked at for each working line not attributed yet
+  let pending = new Map<number, number>();
+
+  if (versions.length > 0) {
+    const identity = new Map(commits.map((_commit, index) => [index, index]));
+
+    pending = mapUnchangedLines(versions[0].content, content, identity);
+  }
+
+  for (let index = 0; index < versions.length && pending.size > 0; index++) {
+    const version = versions[index];
+    const previous = versions[index + 1];
+
+    const unchanged = previous
+      ? mapUnchangedLines(previous.content, version.content, pending)
+      : new Map<number, number>();
+
+    for (const workingLine of pending.keys()) {
+      if (!unchanged.has(workingLine)) {
+        commits[workingLine] = version.commit;
+      }
+    }
+
+    pending = unchanged;
+  }
+
+  return commits.map((commit, index) => ({ line: index + 1, commit }));
+}
+
+/**
+ * Follow the working lines to the lines of an older version they are unchanged in
+ *
+ * @param lines - line of the newer version for each working line
+ */
+function mapUnchangedLines(older: string, newer: string, lines: Map<number, number>): Map<number, number> {
+  const newerToOlder = new Map<number, number>();
+  let olderLine = 0;
+  let newerLine = 0;
+
+  for (const change of diffLines(older, newer)) {
+    const count = change.count ?? splitLines(change.value).length;
+
+    if (change.added) {
+      newerLine += count;
+    } else if (change.removed) {
+      olderLine += count;
+    } else {
+      for (let offset = 0; offset < count; offset++) {
+        newerToOlder.set(newerLine + offset, olderLine + offset);
+      }
+
+      olderLine += count;
+      newerLine += count;
+    }
+  }
+
+  const mapped = new Map<number, number>();
+
+  for (const [workingLine, line] of lines) {
+    const olderMatch = newerToOlder.get(line);
+
+    if (olderMatch !== undefined) {
+      mapped.set(workingLine, olderMatch);
+    }
+  }
+
+  return mapped;
+}
+
+function splitLines(content: string): string[] {
+  if (content === '') {
+    return [];
+  }
+
+  return content.replace(/\r?\n$/, '').split(/\r?\n/);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getConflictVersions,
+  hasConflictMarkers,
+  parseConflicts,
+  resolveAllConflicts,
+  resolveConflict,
+} from './conflicts';
+
+const content = [
+  'import { a } from "./a";',
+  '<<<<<<< main',
+  'const value = 1;',
+  '=======',
+  'const value = 2;',
+  '>>>>>>> feature',
+  'export { value };',
+  '<<<<<<< main',
+  '||||||| base',
+  'const old = true;',
+  '=======',
+  'const added = true;',
+  '>>>>>>> feature',
+  '',
+].join('\n');
+
+describe('parseConflicts', () => {
+  it('should parse the sides, labels and lines of each block', () => {
+    const blocks = parseConflicts(content);
+
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0]).toMatchObject({
+      line: 2,
+      ours: 'const value = 1;\n',
+      theirs: 'const value = 2;\n',
+      base: null,
+      oursLabel: 'main',
+      theirsLabel: 'feature',
+    });
+    expect(content.substring(blocks[0].from, blocks[0].to)).toMatch(/^<<<<<<< main\n[\s\S]*>>>>>>> feature\n$/);
+    expect(blocks[1]).toMatchObject({
+      line: 8,
+      ours: '',
+      base: 'const old = true;\n',
+      theirs: 'const added = true;\n',
+    });
+  });
+
+  it('should ignore unterminated blocks and lookalike lines', () => {
+    expect(hasConflictMarkers('<<<<<<< main\nconst a = 1;\n=======\n')).toBe(false);
+    expect(hasConflictMarkers('// ========\n<<<<<<<<<< not a marker\n')).toBe(false);
+    expect(hasConflictMarkers('<<<<<<< HEAD\r\na\r\n=======\r\nb\r\n>>>>>>> 3f2a1c0\r\n')).toBe(true);
+  });
+});
+
+describe('resolveConflict', () => {
+  it('should keep one side, or both', () => {
+    const [first] = parseConflicts(content);
+
+    expect(resolveConflict(content, first, 'theirs')).toContain('"./a";\nconst value = 2;\nexport');
+    expect(resolveConflict(content, first, 'both')).toContain('const value = 1;\nconst value = 2;\n');
+    expect(parseConflicts(resolveConflict(content, first, 'ours'))).toHaveLength(1);
+  });
+
+  it('should resolve every block at once', () => {
+    expect(resolveAllConflicts(content, 'ours')).toBe(
+      'import { a } from "./a";\nconst value = 1;\nexport { value };\n',
+    );
+  });
+});
+
+describe('getConflictVersions', () => {
+  it('should rebuild the file of each side', () => {
+    const versions = getConflictVersions(content);
+
+    expect(versions.theirs).toBe(
+      'import { a } from "./a";\nconst value = 2;\nexport { value };\nconst added = true;\n',
+    );
+    expect(versions.base).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Conflict markers left in files by a merge, cherry-pick, revert or rebase.
+ *
+ *   <<<<<<< ours
+ *   our lines
+ *   ||||||| base       (diff3 conflict style only)
+ *   common ancestor lines
+ *   =======
+ *   their lines
+ *   >>>>>>> theirs
+ */
+
+export interface ConflictBlock {
+  /** Offsets of the block in the content, markers included */
+  from: number;
+  to: number;
+
+  /** 1-based line of the opening marker */
+  line: number;
+  ours: string;
+  theirs: string;
+
+  /** Common ancestor, with the diff3 conflict style only */
+  base: string | null;
+  oursLabel: string;
+  theirsLabel: string;
+}
+
+export type ConflictResolution = 'ours' | 'theirs' | 'both';
+
+export interface ConflictVersions {
+  ours: string;
+  theirs: string;
+
+  /** Null when a conflict has no common ancestor section */
+  base: string | null;
+}
+
+const MARKER_SIZE = 7;
+
+/**
+ * Conflict blocks of a content, unterminated blocks are ignored
+ */
+export function parseConflicts(content: string): ConflictBlock[] {
+  const blocks: ConflictBlock[] = [];
+  let block: (Partial<ConflictBlock> & { section: 'ours' | 'base' | 'theirs' }) | null = null;
+  let offset = 0;
+  let line = 0;
+
+  while (offset < content.length) {
+    const newline = content.indexOf('\n', offset);
+    const end = newline === -1 ? content.length : newline + 1;
+    const text = content.substring(offset, end).replace(/\r?\n$/, '');
+
+    line++;
+
+    if (isMarker(text, '<')) {
+      block = { from: offset, line, section: 'ours', ours: '', theirs: '', base: null, oursLabel: label(text) };
+    } else if (block && block.section === 'ours' && isMarker(text, '|')) {
+      block.section = 'base';
+      block.base = '';
+    } else if (block && block.section !== 'theirs' && text === '='.repeat(MARKER_SIZE)) {
+      block.section = 'theirs';
+    } else if (block && block.section === 'theirs' && isMarker(text, '>')) {
+      const { section: _section, ...rest } = block;
+
+      blocks.push({ ...rest, to: end, theirsLabel: label(text) } as ConflictBlock);
+      block = null;
+    } else if (block) {
+      block[block.section] += content.substring(offset, end);
+    }
+
+    offset = end;
+  }
+
+  return blocks;
+}
+
+export function hasConflictMarkers(content: string): boolean {
+  return parseConflicts(content).length > 0;
+}
+
+/**
+ * Replace a conflict block by the chosen side
+ */
+export function resolveConflict(content: string, block: ConflictBlock, resolution: ConflictResolution): string {
+  return content.substring(0, block.from) + resolvedText(block, resolution) + content.substring(block.to);
+}
+
+/**
+ * Replace every conflict block by the same side
+ */
+export function resolveAllConflicts(content: string, resolution: ConflictResolution): string {
+  return parseConflicts(content).reduceRight((result, block) => resolveConflict(result, block, resolution), content);
+}
+
+/**
+ * Whole file as each side of the conflicts wrote it
+ */
+export function getConflictVersions(content: string): ConflictVersions {
+  const blocks = parseConflicts(content);
+  const hasBase = blocks.length > 0 && blocks.every((block) => block.base !== null);
+
+  const rebuild = (side: (block: ConflictBlock) => string) =>
+    blocks.reduceRight(
+      (result, block) => result.substring(0, block.from) + side(block) + result.substring(block.to),
+      content,
+    );
+
+  return {
+    ours: rebuild((block) => block.ours),
+    theirs: rebuild((block) => block.theirs),
+    base: hasBase ? rebuild((block) => block.base ?? '') : null,
+  };
+}
+
+function resolvedText(block: ConflictBlock, resolution: ConflictResolution): string {
+  if (resolution === 'both') {
+    return block.ours + block.theirs;
+  }
+
+  return resolution === 'ours' ? block.ours : block.theirs;
+}
+
+function isMarker(text: string, char: string): boolean {
+  return text.startsWith(char.repeat(MARKER_SIZE)) && (text.length === MARKER_SIZE || text[MARKER_SIZE] === ' ');
+}
+
+function label(marker: string): string {
+  return marker.substring(MARKER_SIZE).trim();
+}
@@ -15,6 +15,14 @@ export {
   type PullOptions,
   type FileStatus,
   type LogEntry,
+  type MergeOptions,
+  type RebaseOptions,
+  type MergeResult,
+  type PendingOperationType,
+  type PendingOperation,
+  type ResetMode,
+  type StashOperation,
+  type StashEntry,
   getFs,
   clone,
   init,
@@ -28,8 +36,21 @@ export {
   pull,
   fetch,
   log,
+  fileLog,
+  readFileAtCommit,
+  blame,
   checkout,
   createBranch,
+  merge,
+  cherryPick,
+  revert,
+  rebase,
+  continueOperation,
+  abortOperation,
+  getPendingOperation,
+  reset,
+  stash,
+  listStashes,
   listRemotes,
   addRemote,
   isGitRepo,
@@ -39,6 +60,21 @@ export {
   deleteRepo,
 } from './operations';
 
+// Conflicts (conflicts.ts)
+export {
+  type ConflictBlock,
+  type ConflictResolution,
+  type ConflictVersions,
+  parseConflicts,
+  hasConflictMarkers,
+  resolveConflict,
+  resolveAllConflicts,
+  getConflictVersions,
+} from './conflicts';
+
+// Blame (blame.ts)
+export { type BlameVersion, type BlameLine, computeBlame } from './blame';
+
 // CORS Proxy (cors-proxy.ts)
 export {
   getCorsProxyUrl,
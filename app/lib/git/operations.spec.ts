@@ -1,4 +1,4 @@
-import { describe, expect, it, vi, beforeEach } from 'vitest';
+import { describe, expect, it, vi, beforeEach, type Mock } from 'vitest';
 import git from 'isomorphic-git';
 
 // mock isomorphic-git
@@ -21,6 +21,17 @@ vi.mock('isomorphic-git', () => ({
     findRoot: vi.fn(),
     fetch: vi.fn(),
     remove: vi.fn(),
+    merge: vi.fn(),
+    resolveRef: vi.fn(),
+    expandOid: vi.fn(),
+    readCommit: vi.fn(),
+    writeRef: vi.fn(),
+    listFiles: vi.fn(),
+    resetIndex: vi.fn(),
+    stash: vi.fn(),
+    getConfig: vi.fn(),
+    setConfig: vi.fn(),
+    readBlob: vi.fn(),
   },
 }));
 
@@ -199,6 +210,18 @@ describe('Git Operations', () => {
         }),
       );
     });
+
+    it('should link the commit to its chat in a trailer', async () => {
+      const { commit } = await import('./operations');
+
+      vi.mocked(git.commit).mockResolvedValue('abc123def456');
+
+      await commit({ dir: '/home/project', message: 'Add header\n', chatId: 'chat-42' });
+
+      expect(git.commit).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Add header\n\nBavini-Chat: chat-42\n' }),
+      );
+    });
   });
 
   describe('status', () => {
@@ -400,6 +423,28 @@ describe('Git Operations', () => {
     });
   });
 
+  describe('blame', () => {
+    it('should attribute lines to the commits of the file and its chat', async () => {
+      const { blame } = await import('./operations');
+      const author = { name: 'Test User', email: 'test@example.com', timestamp: 1700000000 };
+      const contents: Record<string, string> = { second: 'one\nTWO\n', first: 'one\ntwo\n' };
+
+      vi.mocked(git.log).mockResolvedValue([
+        { oid: 'second', commit: { message: 'Edit\n\nBavini-Chat: chat-42\n', author } },
+        { oid: 'first', commit: { message: 'Init\n', author } },
+      ] as any);
+      vi.mocked(git.readBlob).mockImplementation(
+        async ({ oid }) => ({ oid, blob: new TextEncoder().encode(contents[oid]) }) as any,
+      );
+
+      const lines = await blame('/home/project', 'src/index.ts', 'one\nTWO\nthree\n');
+
+      expect(git.log).toHaveBeenCalledWith(expect.objectContaining({ filepath: 'src/index.ts' }));
+      expect(lines.map(({ commit }) => commit?.oid ?? null)).toEqual(['first', 'second', null]);
+      expect(lines[1].commit?.chatId).toBe('chat-42');
+    });
+  });
+
   describe('isGitRepo', () => {
     it('should return true for a git repository', async () => {
       const { isGitRepo } = await import('./operations');
@@ -568,4 +613,123 @@ describe('Git Operations', () => {
       );
     });
   });
+
+  describe('merge', () => {
+    beforeEach(() => {
+      vi.mocked(git.currentBranch).mockResolvedValue('main');
+      vi.mocked(git.statusMatrix).mockResolvedValue([
+        ['src/App.tsx', 1, 1, 1],
+        ['notes.txt', 0, 2, 0],
+      ]);
+      vi.mocked(git.resolveRef).mockImplementation(async ({ ref }) =>
+        ref === 'HEAD' ? 'a'.repeat(40) : 'b'.repeat(40),
+      );
+    });
+
+    it('should update the working directory after a merge', async () => {
+      const { merge } = await import('./operations');
+
+      vi.mocked(git.merge).mockResolvedValue({ oid: 'b'.repeat(40), fastForward: true });
+
+      const result = await merge({ dir: '/home/project', theirs: 'feature' });
+
+      expect(result).toEqual({ oid: 'b'.repeat(40), fastForward: true, alreadyMerged: false, conflicts: [] });
+      expect(git.merge).toHaveBeenCalledWith(
+        expect.objectContaining({ ours: 'main', theirs: 'b'.repeat(40), abortOnConflict: false }),
+      );
+      expect(git.checkout).toHaveBeenCalledWith(expect.objectContaining({ ref: 'main', force: true }));
+    });
+
+    it('should keep the merge pending on conflicts', async () => {
+      const { merge, getFs } = await import('./operations');
+      const conflict = Object.assign(new Error('Merge conflict'), {
+        code: 'MergeConflictError',
+        data: { filepaths: ['src/App.tsx'] },
+      });
+
+      vi.mocked(git.merge).mockRejectedValue(conflict);
+      (getFs().promises.readFile as Mock).mockImplementation(async (path: string) => {
+        if (path.endsWith('.json')) {
+          throw new Error('ENOENT');
+        }
+
+        return `<<<<<<< main\na\n=======\nb\n>>>>>>> ${'b'.repeat(40)}\n`;
+      });
+
+      const result = await merge({ dir: '/home/project', theirs: 'feature' });
+
+      expect(result.conflicts).toEqual(['src/App.tsx']);
+      expect(getFs().promises.writeFile).toHaveBeenCalledWith(
+        '/home/project/src/App.tsx',
+        '<<<<<<< main\na\n=======\nb\n>>>>>>> feature\n',
+        expect.anything(),
+      );
+
+      const [, state] = vi
+        .mocked(getFs().promises.writeFile)
+        .mock.calls.find(([path]) => String(path).endsWith('.git/bavini-operation.json'))!;
+
+      expect(JSON.parse(String(state))).toMatchObject({
+        type: 'merge',
+        oid: 'b'.repeat(40),
+        origHead: 'a'.repeat(40),
+        conflicts: ['src/App.tsx'],
+        untracked: ['notes.txt'],
+      });
+    });
+
+    it('should refuse to merge over uncommitted changes', async () => {
+      const { merge } = await import('./operations');
+
+      vi.mocked(git.statusMatrix).mockResolvedValue([['src/App.tsx', 1, 2, 1]]);
+
+      await expect(merge({ dir: '/home/project', theirs: 'feature' })).rejects.toThrow(
+        'Commit or stash your changes first',
+      );
+      expect(git.merge).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reset', () => {
+    it('should move the branch and the working directory to an ancestor', async () => {
+      const { reset } = await import('./operations');
+
+      vi.mocked(git.currentBranch).mockResolvedValue('main');
+      vi.mocked(git.resolveRef).mockResolvedValue('a'.repeat(40));
+      vi.mocked(git.readCommit).mockResolvedValue({
+        oid: 'a'.repeat(40),
+        commit: { parent: ['c'.repeat(40)] },
+      } as Awaited<ReturnType<typeof git.readCommit>>);
+      vi.mocked(git.listFiles).mockResolvedValue([]);
+
+      const oid = await reset('/home/project', 'HEAD~1', 'hard');
+
+      expect(oid).toBe('c'.repeat(40));
+      expect(git.writeRef).toHaveBeenCalledWith(
+        expect.objectContaining({ ref: 'refs/heads/main', value: 'c'.repeat(40), force: true }),
+      );
+      expect(git.checkout).toHaveBeenCalledWith(expect.objectContaining({ ref: 'main', force: true }));
+    });
+  });
+
+  describe('stash', () => {
+    it('should set an identity before the first stash', async () => {
+      const { stash } = await import('./operations');
+
+      vi.mocked(git.getConfig).mockResolvedValue(undefined);
+
+      await stash('/home/project', 'push', { message: 'wip' });
+
+      expect(git.setConfig).toHaveBeenCalledWith(expect.objectContaining({ path: 'user.name', value: 'BAVINI User' }));
+      expect(git.stash).toHaveBeenCalledWith(expect.objectContaining({ op: 'push', message: 'wip' }));
+    });
+
+    it('should list the stash entries', async () => {
+      const { listStashes } = await import('./operations');
+
+      vi.mocked(git.stash).mockResolvedValue(['stash@{0}: wip: 56b1479 Add header'] as unknown as void);
+
+      expect(await listStashes('/home/project')).toEqual([{ index: 0, message: 'wip: 56b1479 Add header' }]);
+    });
+  });
 });
@@ -6,8 +6,10 @@
  * It requires IndexedDB which is only available in browsers.
  */
 
-import git from 'isomorphic-git';
+import git, { type ReadCommitResult } from 'isomorphic-git';
 import http from 'isomorphic-git/http/web';
+import { computeBlame, type BlameLine } from './blame';
+import { hasConflictMarkers } from './conflicts';
 import { getCorsProxyUrl } from './cors-proxy';
 import { createScopedLogger } from '~/utils/logger';
 
@@ -83,6 +85,9 @@ export interface CommitOptions {
     name: string;
     email: string;
   };
+
+  /** Chat the changes come from, kept in a trailer of the message */
+  chatId?: string;
 }
 
 export interface PushOptions {
@@ -114,8 +119,101 @@ export interface LogEntry {
     email: string;
     timestamp: number;
   };
+
+  /** Chat the commit was made from, when its message has the trailer */
+  chatId?: string;
 }
 
+export interface MergeOptions {
+  dir: string;
+
+  /** Branch, tag or commit merged into the current branch */
+  theirs: string;
+  message?: string;
+  author?: {
+    name: string;
+    email: string;
+  };
+}
+
+export interface RebaseOptions {
+  dir: string;
+
+  /** Branch, tag or commit the current branch is replayed on */
+  onto: string;
+}
+
+/**
+ * Result of a merge, cherry-pick, revert or rebase, and of continuing one
+ */
+export interface MergeResult {
+  /** New HEAD, undefined while conflicts are unresolved */
+  oid?: string;
+  fastForward: boolean;
+
+  /** Nothing to do, the changes are already in the branch */
+  alreadyMerged: boolean;
+
+  /** Files with conflict markers, the operation is pending when not empty */
+  conflicts: string[];
+}
+
+export type PendingOperationType = 'merge' | 'cherry-pick' | 'revert' | 'rebase';
+
+/**
+ * Operation stopped by conflicts, until it is continued or aborted
+ */
+export interface PendingOperation {
+  type: PendingOperationType;
+
+  /** Commit merged, cherry-picked, reverted or replayed */
+  oid: string;
+
+  /** HEAD before the operation, restored on abort */
+  origHead: string;
+  branch: string;
+  message: string;
+  author?: GitIdentity;
+  conflicts: string[];
+
+  /** Files untracked before the operation, left out of the commit */
+  untracked: string[];
+
+  /** Commits left to replay by a rebase */
+  todo: string[];
+}
+
+export type ResetMode = 'soft' | 'mixed' | 'hard';
+
+export type StashOperation = 'push' | 'pop' | 'apply' | 'drop' | 'clear';
+
+export interface StashEntry {
+  index: number;
+  message: string;
+}
+
+interface GitIdentity {
+  name: string;
+  email: string;
+  timestamp: number;
+  timezoneOffset: number;
+}
+
+/**
+ * State of the pending operation, in the git directory like MERGE_HEAD
+ */
+const PENDING_OPERATION_FILE = '.git/bavini-operation.json';
+
+/**
+ * Trailer linking a commit to the chat it was made from
+ */
+const CHAT_TRAILER = 'Bavini-Chat';
+
+/**
+ * Commits read to blame a file, older lines go to the oldest of them
+ */
+const BLAME_DEPTH = 100;
+
 /**
  * Get the LightningFS instance.
  * Must be called after any git operation has been performed (which initializes the fs).
@@ -289,13 +387,13 @@ export async function addAll(dir: string): Promise<void> {
  * Create a commit.
  */
 export async function commit(options: CommitOptions): Promise<string> {
-  const { dir, message, author = DEFAULT_AUTHOR } = options;
+  const { dir, message, author = DEFAULT_AUTHOR, chatId } = options;
   const fs = await getFileSystem();
 
   const sha = await git.commit({
     fs,
     dir,
-    message,
+    message: chatId ? `${message.trimEnd()}\n\n${CHAT_TRAILER}: ${chatId}\n` : message,
     author: {
       name: author.name,
       email: author.email,
@@ -439,20 +537,57 @@ export async function log(dir: string, depth: number = 10): Promise<LogEntry[]>
   try {
     const commits = await git.log({ fs, dir, depth });
 
-    return commits.map((commit) => ({
-      oid: commit.oid,
-      message: commit.commit.message,
-      author: {
-        name: commit.commit.author.name,
-        email: commit.commit.author.email,
-        timestamp: commit.commit.author.timestamp,
-      },
-    }));
+    return commits.map(toLogEntry);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Get the commits that changed a file, newest first.
+ */
+export async function fileLog(dir: string, filepath: string, depth: number = 50): Promise<LogEntry[]> {
+  const fs = await getFileSystem();
+
+  try {
+    const commits = await git.log({ fs, dir, filepath, depth, force: true });
+
+    return commits.map(toLogEntry);
   } catch {
     return [];
   }
 }
 
+/**
+ * Read a file as it was in a commit, null when it did not exist there.
+ */
+export async function readFileAtCommit(dir: string, oid: string, filepath: string): Promise<string | null> {
+  const fs = await getFileSystem();
+
+  try {
+    const { blob } = await git.readBlob({ fs, dir, oid, filepath });
+
+    return new TextDecoder().decode(blob);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Commit that last changed each line of a file.
+ * Lines of the working copy that differ from HEAD are not committed yet.
+ */
+export async function blame(dir: string, filepath: string, content?: string): Promise<BlameLine[]> {
+  const commits = await fileLog(dir, filepath, BLAME_DEPTH);
+  const versions = [];
+
+  for (const commit of commits) {
+    versions.push({ commit, content: (await readFileAtCommit(dir, commit.oid, filepath)) ?? '' });
+  }
+
+  return computeBlame(versions, content ?? (await readFile(dir, filepath)));
+}
+
 /**
  * Checkout a branch.
  */
@@ -477,6 +612,576 @@ export async function createBranch(dir: string, name: string, checkout: boolean
   logger.info(`Created branch ${name}`);
 }
 
+/**
+ * Merge a branch into the current branch. Conflicts are written to the
+ * working directory with markers and the merge stays pending until
+ * continueOperation() or abortOperation().
+ */
+export async function merge(options: MergeOptions): Promise<MergeResult> {
+  const { dir, theirs, message, author = DEFAULT_AUTHOR } = options;
+  const fs = await getFileSystem();
+  const { branch, head, untracked } = await prepareOperation(dir);
+  const theirOid = await resolveCommit(dir, theirs);
+  const mergeMessage = message ?? `Merge branch '${theirs}' into ${branch}`;
+
+  logger.info(`Merging ${theirs} into ${branch}`);
+
+  try {
+    const result = await git.merge({
+      fs,
+      dir,
+      ours: branch,
+      theirs: theirOid,
+      message: mergeMessage,
+      author,
+      abortOnConflict: false,
+    });
+
+    if (!result.alreadyMerged) {
+      // isomorphic-git only updates the branch, not the working directory
+      await git.checkout({ fs, dir, ref: branch, force: true });
+    }
+
+    logger.info(result.alreadyMerged ? 'Already up to date' : `Merged ${theirs} into ${branch}`);
+
+    return {
+      oid: result.oid,
+      fastForward: result.fastForward === true,
+      alreadyMerged: result.alreadyMerged === true,
+      conflicts: [],
+    };
+  } catch (error) {
+    const conflicts = getMergeConflicts(error);
+
+    if (!conflicts) {
+      throw error;
+    }
+
+    await relabelConflicts(dir, conflicts, { [theirOid]: theirs });
+    await writePendingOperation(dir, {
+      type: 'merge',
+      oid: theirOid,
+      origHead: head,
+      branch,
+      message: mergeMessage,
+      conflicts,
+      untracked,
+      todo: [],
+    });
+
+    logger.warn(`Merge conflicts in ${conflicts.join(', ')}`);
+
+    return { fastForward: false, alreadyMerged: false, conflicts };
+  }
+}
+
+/**
+ * Apply the changes of a commit on the current branch.
+ */
+export async function cherryPick(dir: string, ref: string): Promise<MergeResult> {
+  const { branch, head, untracked } = await prepareOperation(dir);
+  const oid = await resolveCommit(dir, ref);
+  const { commit } = await git.readCommit({ fs: await getFileSystem(), dir, oid });
+
+  logger.info(`Cherry-picking ${oid.slice(0, 7)} on ${branch}`);
+
+  return applyCommit(dir, {
+    type: 'cherry-pick',
+    oid,
+    origHead: head,
+    branch,
+    message: commit.message,
+    author: commit.author,
+    conflicts: [],
+    untracked,
+    todo: [],
+  });
+}
+
+/**
+ * Create a commit undoing the changes of a commit.
+ */
+export async function revert(dir: string, ref: string): Promise<MergeResult> {
+  const { branch, head, untracked } = await prepareOperation(dir);
+  const oid = await resolveCommit(dir, ref);
+  const { commit } = await git.readCommit({ fs: await getFileSystem(), dir, oid });
+
+  logger.info(`Reverting ${oid.slice(0, 7)} on ${branch}`);
+
+  return applyCommit(dir, {
+    type: 'revert',
+    oid,
+    origHead: head,
+    branch,
+    message: `Revert "${commit.message.split('\n')[0]}"\n\nThis reverts commit ${oid}.\n`,
+    conflicts: [],
+    untracked,
+    todo: [],
+  });
+}
+
+/**
+ * Replay the commits of the current branch on another branch, stopping at
+ * the first conflict.
+ */
+export async function rebase(options: RebaseOptions): Promise<MergeResult> {
+  const { dir } = options;
+  const fs = await getFileSystem();
+  const { branch, head, untracked } = await prepareOperation(dir);
+  const onto = await resolveCommit(dir, options.onto);
+  const [base] = await git.findMergeBase({ fs, dir, oids: [head, onto] });
+
+  if (base === onto) {
+    return { oid: head, fastForward: false, alreadyMerged: true, conflicts: [] };
+  }
+
+  logger.info(`Rebasing ${branch} on ${options.onto}`);
+
+  const commits: string[] = [];
+
+  for (const entry of await git.log({ fs, dir, ref: head })) {
+    if (entry.oid === base) {
+      break;
+    }
+
+    // merge commits are dropped, like git rebase does by default
+    if (entry.commit.parent.length <= 1) {
+      commits.unshift(entry.oid);
+    }
+  }
+
+  await git.writeRef({ fs, dir, ref: `refs/heads/${branch}`, value: onto, force: true });
+  await git.checkout({ fs, dir, ref: branch, force: true });
+
+  if (base === head) {
+    return { oid: onto, fastForward: true, alreadyMerged: false, conflicts: [] };
+  }
+
+  return replayCommits(dir, {
+    type: 'rebase',
+    oid: onto,
+    origHead: head,
+    branch,
+    message: '',
+    conflicts: [],
+    untracked,
+    todo: commits,
+  });
+}
+
+/**
+ * Commit the resolved conflicts of the pending operation, then carry on
+ * with the rest of a rebase.
+ */
+export async function continueOperation(dir: string): Promise<MergeResult> {
+  const fs = await getFileSystem();
+  const operation = await getPendingOperation(dir);
+
+  if (!operation) {
+    throw new Error('No merge, cherry-pick, revert or rebase in progress');
+  }
+
+  const unresolved: string[] = [];
+
+  for (const filepath of operation.conflicts) {
+    const content = await readFile(dir, filepath).catch(() => null);
+
+    if (content !== null && hasConflictMarkers(content)) {
+      unresolved.push(filepath);
+    }
+  }
+
+  if (unresolved.length > 0) {
+    throw new Error(`Resolve the conflicts first: ${unresolved.join(', ')}`);
+  }
+
+  await stageOperationChanges(dir, operation.untracked);
+
+  const head = await git.resolveRef({ fs, dir, ref: 'HEAD' });
+  const oid = await git.commit({
+    fs,
+    dir,
+    message: operation.message,
+    author: operation.author ?? DEFAULT_AUTHOR,
+    committer: DEFAULT_AUTHOR,
+    parent: operation.type === 'merge' ? [head, operation.oid] : [head],
+  });
+
+  await clearPendingOperation(dir);
+
+  logger.info(`Continued ${operation.type} with commit ${oid.slice(0, 7)}`);
+
+  if (operation.type === 'rebase') {
+    return replayCommits(dir, operation);
+  }
+
+  return { oid, fastForward: false, alreadyMerged: false, conflicts: [] };
+}
+
+/**
+ * Abort the pending operation, back to the branch as it was before.
+ */
+export async function abortOperation(dir: string): Promise<void> {
+  const fs = await getFileSystem();
+  const operation = await getPendingOperation(dir);
+
+  if (!operation) {
+    throw new Error('No merge, cherry-pick, revert or rebase in progress');
+  }
+
+  await git.writeRef({ fs, dir, ref: `refs/heads/${operation.branch}`, value: operation.origHead, force: true });
+  await git.checkout({ fs, dir, ref: operation.branch, force: true });
+
+  // files added by the operation are not in the index, checkout leaves them
+  for (const [filepath, headStatus, , stageStatus] of await git.statusMatrix({ fs, dir })) {
+    if (headStatus === 0 && stageStatus === 0 && !operation.untracked.includes(filepath)) {
+      await fs.promises.unlink(`${dir}/${filepath}`);
+    }
+  }
+
+  await clearPendingOperation(dir);
+
+  logger.info(`Aborted ${operation.type}`);
+}
+
+/**
+ * Get the operation stopped by conflicts, if any.
+ */
+export async function getPendingOperation(dir: string): Promise<PendingOperation | null> {
+  try {
+    return JSON.parse(await readFile(dir, PENDING_OPERATION_FILE)) as PendingOperation;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Move the current branch to a commit. 'soft' keeps the index and the
+ * working directory, 'mixed' resets the index, 'hard' both.
+ */
+export async function reset(dir: string, ref: string, mode: ResetMode = 'mixed'): Promise<string> {
+  const fs = await getFileSystem();
+  const branch = await git.currentBranch({ fs, dir });
+
+  if (!branch) {
+    throw new Error('Cannot reset a detached HEAD');
+  }
+
+  const oid = await resolveCommit(dir, ref);
+  const indexFiles = await git.listFiles({ fs, dir });
+
+  logger.info(`Resetting ${branch} to ${oid.slice(0, 7)} (${mode})`);
+
+  await git.writeRef({ fs, dir, ref: `refs/heads/${branch}`, value: oid, force: true });
+
+  if (mode === 'hard') {
+    await git.checkout({ fs, dir, ref: branch, force: true });
+  } else if (mode === 'mixed') {
+    const files = new Set([...indexFiles, ...(await git.listFiles({ fs, dir, ref: oid }))]);
+
+    for (const filepath of files) {
+      await git.resetIndex({ fs, dir, filepath, ref: oid });
+    }
+  }
+
+  await clearPendingOperation(dir);
+
+  return oid;
+}
+
+/**
+ * Stash operations, on tracked files only.
+ */
+export async function stash(
+  dir: string,
+  op: StashOperation = 'push',
+  options: { message?: string; index?: number } = {},
+): Promise<void> {
+  const fs = await getFileSystem();
+
+  // the stash commits need an identity, git.stash() has no author argument
+  if (op === 'push' && !(await git.getConfig({ fs, dir, path: 'user.name' }))) {
+    await git.setConfig({ fs, dir, path: 'user.name', value: DEFAULT_AUTHOR.name });
+    await git.setConfig({ fs, dir, path: 'user.email', value: DEFAULT_AUTHOR.email });
+  }
+
+  await git.stash({ fs, dir, op, message: options.message, refIdx: options.index });
+
+  logger.info(`Stash ${op} done`);
+}
+
+/**
+ * List the stash entries, most recent first.
+ */
+export async function listStashes(dir: string): Promise<StashEntry[]> {
+  const fs = await getFileSystem();
+
+  try {
+    const entries = (await git.stash({ fs, dir, op: 'list' })) as unknown as string[];
+
+    return entries.map((entry, index) => ({ index, message: entry.replace(/^stash@\{\d+\}:\s*/, '') }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Resolve a branch, tag, full or short oid, with an optional ~n suffix, to a
+ * commit oid.
+ */
+async function resolveCommit(dir: string, ref: string): Promise<string> {
+  const fs = await getFileSystem();
+  const match = ref.match(/^(.+?)~(\d*)$/);
+  const name = match ? match[1] : ref;
+  let oid: string;
+
+  try {
+    oid = await git.resolveRef({ fs, dir, ref: name });
+  } catch (error) {
+    if (!/^[0-9a-f]{4,40}$/i.test(name)) {
+      throw error;
+    }
+
+    oid = await git.expandOid({ fs, dir, oid: name });
+  }
+
+  const count = match ? Number(match[2] || 1) : 0;
+
+  for (let i = 0; i < count; i++) {
+    const { commit } = await git.readCommit({ fs, dir, oid });
+
+    if (commit.parent.length === 0) {
+      throw new Error(`${ref} does not exist, ${oid.slice(0, 7)} has no parent`);
+    }
+
+    oid = commit.parent[0];
+  }
+
+  return oid;
+}
+
+/**
+ * Check an operation can start: no other pending, a branch checked out and
+ * no uncommitted changes to tracked files.
+ */
+async function prepareOperation(dir: string): Promise<{ branch: string; head: string; untracked: string[] }> {
+  const fs = await getFileSystem();
+  const pending = await getPendingOperation(dir);
+
+  if (pending) {
+    throw new Error(`A ${pending.type} is in progress, continue or abort it first`);
+  }
+
+  const branch = await git.currentBranch({ fs, dir });
+
+  if (!branch) {
+    throw new Error('HEAD is detached, checkout a branch first');
+  }
+
+  const untracked: string[] = [];
+
+  for (const [filepath, headStatus, workdirStatus, stageStatus] of await git.statusMatrix({ fs, dir })) {
+    if (headStatus === 0 && stageStatus === 0) {
+      untracked.push(filepath);
+    } else if (headStatus !== workdirStatus || workdirStatus !== stageStatus) {
+      throw new Error('Commit or stash your changes first');
+    }
+  }
+
+  return { branch, head: await git.resolveRef({ fs, dir, ref: 'HEAD' }), untracked };
+}
+
+/**
+ * Cherry-pick, revert or replay one commit. The change is merged with a
+ * three-way merge of synthetic commits: base and theirs are the trees
+ * before and after the change (swapped for a revert), ours is HEAD.
+ */
+async function applyCommit(dir: string, operation: PendingOperation): Promise<MergeResult> {
+  const fs = await getFileSystem();
+  const { commit } = await git.readCommit({ fs, dir, oid: operation.oid });
+
+  if (commit.parent.length > 1) {
+    throw new Error(`${operation.oid.slice(0, 7)} is a merge commit, it cannot be applied`);
+  }
+
+  const parentTree = commit.parent[0]
+    ? (await git.readCommit({ fs, dir, oid: commit.parent[0] })).commit.tree
+    : await git.writeTree({ fs, dir, tree: [] });
+  const [baseTree, theirTree] = operation.type === 'revert' ? [commit.tree, parentTree] : [parentTree, commit.tree];
+
+  const head = await git.resolveRef({ fs, dir, ref: 'HEAD' });
+  const { commit: headCommit } = await git.readCommit({ fs, dir, oid: head });
+  const identity = { ...DEFAULT_AUTHOR, timestamp: Math.floor(Date.now() / 1000), timezoneOffset: 0 };
+  const writeCommit = (tree: string, parent: string[]) =>
+    git.writeCommit({ fs, dir, commit: { tree, parent, author: identity, committer: identity, message: 'temp' } });
+
+  const base = await writeCommit(baseTree, []);
+  const ours = await writeCommit(headCommit.tree, [base]);
+  const theirs = await writeCommit(theirTree, [base]);
+
+  try {
+    const result = await git.merge({
+      fs,
+      dir,
+      ours,
+      theirs,
+      noUpdateBranch: true,
+      abortOnConflict: false,
+      author: DEFAULT_AUTHOR,
+    });
+
+    // identical synthetic commits merge without a tree: an empty change, or HEAD at the base
+    const tree = result.tree ?? (result.fastForward ? theirTree : headCommit.tree);
+
+    if (tree !== headCommit.tree) {
+      await git.commit({
+        fs,
+        dir,
+        message: operation.message,
+        author: operation.author ?? DEFAULT_AUTHOR,
+        committer: DEFAULT_AUTHOR,
+        tree,
+        parent: [head],
+      });
+      await git.checkout({ fs, dir, ref: operation.branch, force: true });
+    }
+
+    return {
+      oid: await git.resolveRef({ fs, dir, ref: 'HEAD' }),
+      fastForward: false,
+      alreadyMerged: tree === headCommit.tree,
+      conflicts: [],
+    };
+  } catch (error) {
+    const conflicts = getMergeConflicts(error);
+
+    if (!conflicts) {
+      throw error;
+    }
+
+    // the markers are labeled with the synthetic commits
+    await relabelConflicts(dir, conflicts, {
+      [ours]: 'HEAD',
+      [theirs]: `${operation.oid.slice(0, 7)} (${commit.message.split('\n')[0]})`,
+    });
+
+    await writePendingOperation(dir, { ...operation, conflicts });
+
+    logger.warn(`Conflicts applying ${operation.oid.slice(0, 7)} in ${conflicts.join(', ')}`);
+
+    return { fastForward: false, alreadyMerged: false, conflicts };
+  }
+}
+
+/**
+ * Replay the commits left by a rebase, stopping at the first conflict.
+ */
+async function replayCommits(dir: string, operation: PendingOperation): Promise<MergeResult> {
+  const fs = await getFileSystem();
+
+  for (let i = 0; i < operation.todo.length; i++) {
+    const oid = operation.todo[i];
+    const { commit } = await git.readCommit({ fs, dir, oid });
+    const result = await applyCommit(dir, {
+      ...operation,
+      oid,
+      message: commit.message,
+      author: commit.author,
+      todo: operation.todo.slice(i + 1),
+    });
+
+    if (result.conflicts.length > 0) {
+      return result;
+    }
+  }
+
+  logger.info(`Rebased ${operation.branch}`);
+
+  return {
+    oid: await git.resolveRef({ fs, dir, ref: 'HEAD' }),
+    fastForward: false,
+    alreadyMerged: false,
+    conflicts: [],
+  };
+}
+
+/**
+ * Stage what the operation changed: isomorphic-git only stages the
+ * conflicted files.
+ */
+async function stageOperationChanges(dir: string, untracked: string[]): Promise<void> {
+  const fs = await getFileSystem();
+
+  for (const [filepath, headStatus, workdirStatus, stageStatus] of await git.statusMatrix({ fs, dir })) {
+    if (headStatus === 0 && stageStatus === 0 && untracked.includes(filepath)) {
+      continue;
+    }
+
+    if (workdirStatus === 0) {
+      await git.remove({ fs, dir, filepath });
+    } else if (headStatus !== workdirStatus || workdirStatus !== stageStatus) {
+      await git.add({ fs, dir, filepath });
+    }
+  }
+}
+
+/**
+ * Replace the labels of the conflict markers, by oid.
+ */
+async function relabelConflicts(dir: string, conflicts: string[], labels: Record<string, string>): Promise<void> {
+  for (const filepath of conflicts) {
+    const content = await readFile(dir, filepath).catch(() => null);
+
+    if (content !== null) {
+      const relabeled = content.replace(/^(<{7}|>{7}) ([0-9a-f]{40})$/gm, (marker, side: string, oid: string) =>
+        labels[oid] ? `${side} ${labels[oid]}` : marker,
+      );
+
+      await writeFile(dir, filepath, relabeled);
+    }
+  }
+}
+
+/**
+ * Files in conflict of a MergeConflictError, null for other errors.
+ */
+function getMergeConflicts(error: unknown): string[] | null {
+  if (error instanceof Error && (error as { code?: string }).code === 'MergeConflictError') {
+    return (error as Error & { data: { filepaths: string[] } }).data.filepaths;
+  }
+
+  return null;
+}
+
+async function writePendingOperation(dir: string, operation: PendingOperation): Promise<void> {
+  await writeFile(dir, PENDING_OPERATION_FILE, JSON.stringify(operation, null, 2));
+}
+
+async function clearPendingOperation(dir: string): Promise<void> {
+  const fs = await getFileSystem();
+
+  try {
+    await fs.promises.unlink(`${dir}/${PENDING_OPERATION_FILE}`);
+  } catch {
+    // no pending operation
+  }
+}
+
+function toLogEntry({ oid, commit }: ReadCommitResult): LogEntry {
+  const chatId = commit.message.match(new RegExp(`^${CHAT_TRAILER}: (\\S+)$`, 'm'))?.[1];
+
+  return {
+    oid,
+    message: commit.message,
+    author: {
+      name: commit.author.name,
+      email: commit.author.email,
+      timestamp: commit.author.timestamp,
+    },
+    ...(chatId && { chatId }),
+  };
+}
+
 /**
  * Get remotes.
  */
@@ -20,6 +20,7 @@ import {
   updateAgentStatus,
 } from '~/lib/stores/agents';
 import { workbenchStore } from '~/lib/stores/workbench';
+import { getLLMRequestConfig } from '~/lib/stores/llm-settings';
 import { StreamingMessageParser, type ActionCallback, type ArtifactCallback } from '~/lib/runtime/message-parser';
 import { createScopedLogger } from '~/utils/logger';
 
@@ -322,6 +323,7 @@ export function useAgentChat(options: AgentChatOptions = {}): UseAgentChatReturn
             context,
             controlMode: chatState.controlMode,
             multiAgent: true,
+            llm: getLLMRequestConfig(),
           }),
           signal: abortControllerRef.current.signal,
         });
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act, waitFor } from '@testing-library/react';
 import { usePromptEnhancer } from './usePromptEnhancer';
+import { getLLMRequestConfig } from '~/lib/stores/llm-settings';
 
 describe('usePromptEnhancer', () => {
   beforeEach(() => {
@@ -111,7 +112,7 @@ describe('usePromptEnhancer', () => {
 
       expect(fetch).toHaveBeenCalledWith('/api/enhancer', {
         method: 'POST',
-        body: JSON.stringify({ message: 'test message' }),
+        body: JSON.stringify({ message: 'test message', llm: getLLMRequestConfig() }),
       });
     });
 
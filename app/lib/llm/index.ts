@@ -0,0 +1,33 @@
+/**
+ * LLM Module
+ *
+ * Catalogue des fournisseurs et modèles, partagé client/serveur.
+ *
+ * @module llm
+ */
+
+export {
+  LLM_PROVIDERS,
+  LLM_AGENT_TYPES,
+  KNOWN_MODELS,
+  DEFAULT_MODEL_SELECTION,
+  DEFAULT_MODEL_LIMITS,
+  findModelInfo,
+  getModelLimits,
+  getUsableContextTokens,
+  resolveModelSelection,
+} from './models';
+
+export { modelSelectionSchema, llmConfigSchema } from './schema';
+
+export type {
+  LLMProviderId,
+  LLMAgentType,
+  TokenizerEncoding,
+  ModelLimits,
+  ModelInfo,
+  ModelPricing,
+  ModelSelection,
+  OpenAICompatibleConfig,
+  LLMConfig,
+} from './models';
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_MODEL_LIMITS,
+  DEFAULT_MODEL_SELECTION,
+  findModelInfo,
+  getModelLimits,
+  getUsableContextTokens,
+  resolveModelSelection,
+  type LLMConfig,
+} from './models';
+
+describe('llm/models', () => {
+  describe('findModelInfo', () => {
+    it('should find catalog models by provider and id', () => {
+      expect(findModelInfo({ provider: 'anthropic', model: 'claude-sonnet-4-5-20250929' })?.label).toBe(
+        'Claude Sonnet 4.5',
+      );
+      expect(findModelInfo({ provider: 'anthropic', model: 'gpt-4o' })).toBeUndefined();
+    });
+
+    it('should ignore Ollama tags and vendor prefixes', () => {
+      expect(findModelInfo({ provider: 'openai-compatible', model: 'qwen2.5-coder:7b' })?.id).toBe('qwen2.5-coder');
+      expect(findModelInfo({ provider: 'openai-compatible', model: 'openai/gpt-4o' })?.id).toBe('gpt-4o');
+    });
+  });
+
+  describe('getModelLimits', () => {
+    it('should use the catalog limits and tokenizer', () => {
+      expect(getModelLimits({ provider: 'openai-compatible', model: 'gpt-4o' })).toEqual({
+        contextWindow: 128_000,
+        maxOutputTokens: 16_384,
+        tokenizer: 'o200k_base',
+      });
+    });
+
+    it('should default to the default model', () => {
+      expect(getModelLimits()).toEqual(getModelLimits(DEFAULT_MODEL_SELECTION));
+      expect(getModelLimits().contextWindow).toBe(200_000);
+    });
+
+    it('should prefer limits entered for the model, then fall back to conservative defaults', () => {
+      expect(getModelLimits({ provider: 'openai-compatible', model: 'my-local-model' })).toEqual(DEFAULT_MODEL_LIMITS);
+      expect(
+        getModelLimits({ provider: 'openai-compatible', model: 'my-local-model', contextWindow: 65_536 }).contextWindow,
+      ).toBe(65_536);
+    });
+  });
+
+  describe('getUsableContextTokens', () => {
+    it('should keep a safety margin under the context window', () => {
+      expect(getUsableContextTokens()).toBe(180_000);
+      expect(getUsableContextTokens({ provider: 'openai-compatible', model: 'qwen2.5-coder' })).toBe(29_491);
+    });
+  });
+
+  describe('resolveModelSelection', () => {
+    const config: LLMConfig = {
+      defaultModel: { provider: 'openai-compatible', model: 'gpt-4.1' },
+      agentModels: {
+        explore: { provider: 'openai-compatible', model: 'gpt-4.1-mini' },
+        architect: { provider: 'anthropic', model: 'claude-opus-4-5-20251101' },
+      },
+    };
+
+    it('should use the agent model when one is configured', () => {
+      expect(resolveModelSelection(config, 'explore').model).toBe('gpt-4.1-mini');
+      expect(resolveModelSelection(config, 'architect').provider).toBe('anthropic');
+    });
+
+    it('should fall back to the default model', () => {
+      expect(resolveModelSelection(config, 'coder').model).toBe('gpt-4.1');
+      expect(resolveModelSelection(config).model).toBe('gpt-4.1');
+      expect(resolveModelSelection(undefined, 'coder')).toBe(DEFAULT_MODEL_SELECTION);
+    });
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * LLM Models - Catalogue des fournisseurs et modèles
+ *
+ * Partagé entre le client (paramètres) et le serveur (routes API):
+ * - Fournisseurs supportés (Anthropic, endpoints compatibles OpenAI)
+ * - Limites connues par modèle (fenêtre de contexte, tokens de sortie)
+ * - Tarifs publics, pour estimer le coût des appels
+ * - Résolution du modèle à utiliser pour chaque type d'agent
+ *
+ * @module llm/models
+ */
+
+/*
+ * ============================================================================
+ * TYPES
+ * ============================================================================
+ */
+
+/**
+ * Fournisseurs supportés
+ * - anthropic: API Anthropic (clé côté serveur)
+ * - openai-compatible: tout endpoint /v1/chat/completions (OpenAI, Ollama, LM Studio, vLLM...)
+ */
+export type LLMProviderId = 'anthropic' | 'openai-compatible';
+
+/**
+ * Encodage utilisé pour estimer les tokens d'un modèle
+ */
+export type TokenizerEncoding = 'cl100k_base' | 'o200k_base';
+
+/**
+ * Types d'agents pouvant recevoir un modèle dédié
+ */
+export type LLMAgentType =
+  | 'orchestrator'
+  | 'explore'
+  | 'coder'
+  | 'builder'
+  | 'tester'
+  | 'deployer'
+  | 'reviewer'
+  | 'fixer'
+  | 'architect';
+
+/**
+ * Limites d'un modèle
+ */
+export interface ModelLimits {
+  /** Taille de la fenêtre de contexte (tokens) */
+  contextWindow: number;
+
+  /** Nombre maximum de tokens générés par réponse */
+  maxOutputTokens: number;
+
+  /** Encodage utilisé pour l'estimation des tokens */
+  tokenizer: TokenizerEncoding;
+}
+
+/**
+ * Tarif d'un modèle, en dollars par million de tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+
+  /** Lecture du cache de prompt */
+  cacheRead?: number;
+
+  /** Écriture dans le cache de prompt */
+  cacheWrite?: number;
+}
+
+/**
+ * Modèle connu du catalogue
+ */
+export interface ModelInfo extends ModelLimits {
+  id: string;
+  provider: LLMProviderId;
+  label: string;
+
+  /** Absent pour les modèles locaux (gratuits) */
+  pricing?: ModelPricing;
+}
+
+/**
+ * Modèle choisi par l'utilisateur
+ */
+export interface ModelSelection {
+  provider: LLMProviderId;
+  model: string;
+
+  /** Fenêtre de contexte pour les modèles absents du catalogue */
+  contextWindow?: number;
+
+  /** Tokens de sortie max pour les modèles absents du catalogue */
+  maxOutputTokens?: number;
+}
+
+/**
+ * Configuration d'un endpoint compatible OpenAI
+ */
+export interface OpenAICompatibleConfig {
+  /** URL de base de l'API (ex: http://localhost:11434/v1 pour Ollama) */
+  baseURL: string;
+
+  /** Clé API, optionnelle pour les serveurs locaux */
+  apiKey?: string;
+}
+
+/**
+ * Configuration LLM envoyée avec chaque requête
+ */
+export interface LLMConfig {
+  /** Modèle par défaut */
+  defaultModel: ModelSelection;
+
+  /** Modèles dédiés par type d'agent (sinon le modèle par défaut) */
+  agentModels: Partial<Record<LLMAgentType, ModelSelection>>;
+
+  /** Endpoint utilisé par le fournisseur openai-compatible */
+  openaiCompatible?: OpenAICompatibleConfig;
+}
+
+/*
+ * ============================================================================
+ * CATALOGUE
+ * ============================================================================
+ */
+
+/**
+ * Fournisseurs affichés dans les paramètres
+ */
+export const LLM_PROVIDERS: Array<{ id: LLMProviderId; label: string }> = [
+  { id: 'anthropic', label: 'Anthropic' },
+  { id: 'openai-compatible', label: 'Compatible OpenAI (OpenAI, Ollama, LM Studio...)' },
+];
+
+/**
+ * Agents configurables, dans l'ordre d'affichage
+ */
+export const LLM_AGENT_TYPES: LLMAgentType[] = [
+  'orchestrator',
+  'architect',
+  'coder',
+  'reviewer',
+  'fixer',
+  'explore',
+  'builder',
+  'tester',
+  'deployer',
+];
+
+/**
+ * Modèles connus, leurs limites et leurs tarifs
+ * @see https://docs.anthropic.com/en/docs/about-claude/models
+ * @see https://docs.anthropic.com/en/docs/about-claude/pricing
+ */
+export const KNOWN_MODELS: ModelInfo[] = [
+  // Anthropic
+  {
+    id: 'claude-sonnet-4-5-20250929',
+    provider: 'anthropic',
+    label: 'Claude Sonnet 4.5',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    tokenizer: 'cl100k_base',
+    pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  },
+  {
+    id: 'claude-opus-4-5-20251101',
+    provider: 'anthropic',
+    label: 'Claude Opus 4.5',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    tokenizer: 'cl100k_base',
+    pricing: { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  },
+  {
+    id: 'claude-haiku-4-5-20251001',
+    provider: 'anthropic',
+    label: 'Claude Haiku 4.5',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    tokenizer: 'cl100k_base',
+    pricing: { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  },
+
+  // OpenAI
+  {
+    id: 'gpt-4.1',
+    provider: 'openai-compatible',
+    label: 'GPT-4.1',
+    contextWindow: 1_047_576,
+    maxOutputTokens: 32_768,
+    tokenizer: 'o200k_base',
+    pricing: { input: 2, output: 8, cacheRead: 0.5 },
+  },
+  {
+    id: 'gpt-4.1-mini',
+    provider: 'openai-compatible',
+    label: 'GPT-4.1 mini',
+    contextWindow: 1_047_576,
+    maxOutputTokens: 32_768,
+    tokenizer: 'o200k_base',
+    pricing: { input: 0.4, output: 1.6, cacheRead: 0.1 },
+  },
+  {
+    id: 'gpt-4o',
+    provider: 'openai-compatible',
+    label: 'GPT-4o',
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    tokenizer: 'o200k_base',
+    pricing: { input: 2.5, output: 10, cacheRead: 1.25 },
+  },
+  {
+    id: 'gpt-4o-mini',
+    provider: 'openai-compatible',
+    label: 'GPT-4o mini',
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    tokenizer: 'o200k_base',
+    pricing: { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  },
+
+  // Modèles locaux courants (Ollama / LM Studio)
+  {
+    id: 'qwen2.5-coder',
+    provider: 'openai-compatible',
+    label: 'Qwen 2.5 Coder',
+    contextWindow: 32_768,
+    maxOutputTokens: 8_192,
+    tokenizer: 'cl100k_base',
+  },
+  {
+    id: 'llama3.1',
+    provider: 'openai-compatible',
+    label: 'Llama 3.1',
+    contextWindow: 128_000,
+    maxOutputTokens: 4_096,
+    tokenizer: 'cl100k_base',
+  },
+];
+
+/**
+ * Modèle utilisé quand rien n'est configuré
+ */
+export const DEFAULT_MODEL_SELECTION: ModelSelection = {
+  provider: 'anthropic',
+  model: 'claude-sonnet-4-5-20250929',
+};
+
+/**
+ * Limites appliquées aux modèles inconnus (prudentes pour les modèles locaux)
+ */
+export const DEFAULT_MODEL_LIMITS: ModelLimits = {
+  contextWindow: 32_768,
+  maxOutputTokens: 4_096,
+  tokenizer: 'cl100k_base',
+};
+
+/**
+ * Marge gardée sous la fenêtre de contexte (prompt système, réponse)
+ */
+const CONTEXT_SAFETY_RATIO = 0.9;
+
+/*
+ * ============================================================================
+ * RESOLUTION
+ * ============================================================================
+ */
+
+/**
+ * Trouve un modèle du catalogue.
+ * Les tags Ollama (`qwen2.5-coder:7b`) et préfixes (`openai/gpt-4o`) sont ignorés.
+ */
+export function findModelInfo(selection: Pick<ModelSelection, 'provider' | 'model'>): ModelInfo | undefined {
+  const exact = KNOWN_MODELS.find((info) => info.provider === selection.provider && info.id === selection.model);
+
+  if (exact) {
+    return exact;
+  }
+
+  const baseName = selection.model.split('/').pop()!.split(':')[0];
+
+  return KNOWN_MODELS.find((info) => info.provider === selection.provider && info.id === baseName);
+}
+
+/**
+ * Limites d'un modèle: catalogue, puis valeurs saisies, puis valeurs par défaut
+ */
+export function getModelLimits(selection: ModelSelection = DEFAULT_MODEL_SELECTION): ModelLimits {
+  const info = findModelInfo(selection);
+
+  return {
+    contextWindow: selection.contextWindow ?? info?.contextWindow ?? DEFAULT_MODEL_LIMITS.contextWindow,
+    maxOutputTokens: selection.maxOutputTokens ?? info?.maxOutputTokens ?? DEFAULT_MODEL_LIMITS.maxOutputTokens,
+    tokenizer: info?.tokenizer ?? DEFAULT_MODEL_LIMITS.tokenizer,
+  };
+}
+
+/**
+ * Tokens de contexte utilisables avant de résumer la conversation
+ */
+export function getUsableContextTokens(selection?: ModelSelection): number {
+  return Math.floor(getModelLimits(selection).contextWindow * CONTEXT_SAFETY_RATIO);
+}
+
+/**
+ * Modèle à utiliser pour un agent (modèle dédié, sinon modèle par défaut)
+ */
+export function resolveModelSelection(config: LLMConfig | undefined, agent?: string): ModelSelection {
+  if (!config) {
+    return DEFAULT_MODEL_SELECTION;
+  }
+
+  const agentModel = agent ? config.agentModels[agent as LLMAgentType] : undefined;
+
+  return agentModel ?? config.defaultModel;
+}
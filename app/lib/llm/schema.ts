@@ -0,0 +1,35 @@
+/**
+ * LLM Schema - Validation de la configuration LLM envoyée par le client
+ *
+ * Utilisé par les routes qui acceptent un champ `llm` (api.chat, api.agent).
+ *
+ * @module llm/schema
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schéma d'une sélection de modèle
+ */
+export const modelSelectionSchema = z.object({
+  provider: z.enum(['anthropic', 'openai-compatible']),
+  model: z.string().min(1).max(200),
+  contextWindow: z.number().int().positive().optional(),
+  maxOutputTokens: z.number().int().positive().optional(),
+});
+
+/**
+ * Schéma de la configuration des fournisseurs et des modèles par agent
+ */
+export const llmConfigSchema = z
+  .object({
+    defaultModel: modelSelectionSchema,
+    agentModels: z.record(modelSelectionSchema).optional().default({}),
+    openaiCompatible: z
+      .object({
+        baseURL: z.string().url().max(2048),
+        apiKey: z.string().max(512).optional(),
+      })
+      .optional(),
+  })
+  .optional();
@@ -0,0 +1,123 @@
+// @vitest-environment node
+
+/**
+ * MCP client - Unit Tests
+ *
+ * Tests the client against a stand-in Streamable HTTP server,
+ * with JSON and SSE responses.
+ *
+ * @module mcp/__tests__/client.spec
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { McpClient, McpError } from '../client';
+import { MCP_PROTOCOL_VERSION } from '../types';
+import { SESSION_ID, startTestServer, type TestServer } from './mcp-test-server';
+
+describe('McpClient', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  describe.each([
+    ['JSON', false],
+    ['SSE', true],
+  ])('with %s responses', (_label, sse) => {
+    it('should connect and list the server catalog', async () => {
+      server = await startTestServer({ sse, pageSize: 2 });
+
+      const client = new McpClient({ name: 'test', url: server.url });
+      const info = await client.connect();
+      const catalog = await client.listAll();
+
+      expect(info.serverInfo.name).toBe('test-server');
+      expect(catalog.tools.map((tool) => tool.name)).toEqual(['echo', 'fail', 'slow']);
+      expect(catalog.resources).toHaveLength(1);
+
+      // no prompts capability, the server is not asked
+      expect(catalog.prompts).toEqual([]);
+      expect(server.requests.map((request) => request.method)).not.toContain('prompts/list');
+    });
+
+    it('should call a tool', async () => {
+      server = await startTestServer({ sse });
+
+      const client = new McpClient({ name: 'test', url: server.url });
+
+      await client.connect();
+
+      const result = await client.callTool('echo', { message: 'hello' });
+
+      expect(result.content).toEqual([{ type: 'text', text: 'echo: hello' }]);
+    });
+  });
+
+  it('should send the session id and protocol version after initialize', async () => {
+    server = await startTestServer();
+
+    const client = new McpClient({ name: 'test', url: server.url });
+
+    await client.connect();
+    await client.listTools();
+    await client.close();
+
+    expect(server.requests.map((request) => [request.httpMethod, request.method, request.sessionId])).toEqual([
+      ['POST', 'initialize', undefined],
+      ['POST', 'notifications/initialized', SESSION_ID],
+      ['POST', 'tools/list', SESSION_ID],
+      ['DELETE', '', SESSION_ID],
+    ]);
+    expect(server.requests[2].protocolVersion).toBe(MCP_PROTOCOL_VERSION);
+    expect(client.connected).toBe(false);
+  });
+
+  it('should send the configured headers', async () => {
+    server = await startTestServer({ token: 'secret' });
+
+    const client = new McpClient({ name: 'test', url: server.url, headers: { Authorization: 'Bearer secret' } });
+
+    await expect(client.connect()).resolves.toBeDefined();
+    await expect(new McpClient({ name: 'test', url: server.url }).connect()).rejects.toMatchObject({ code: 401 });
+  });
+
+  it('should surface JSON-RPC errors', async () => {
+    server = await startTestServer();
+
+    const client = new McpClient({ name: 'test', url: server.url });
+
+    await client.connect();
+
+    const error = await client.getPrompt('missing').catch((e) => e);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(-32601);
+  });
+
+  it('should time out requests without a response', async () => {
+    server = await startTestServer();
+
+    const client = new McpClient({ name: 'test', url: server.url }, { timeout: 100 });
+
+    await client.connect();
+
+    await expect(client.callTool('slow')).rejects.toThrow('tools/call timed out after 100ms');
+  });
+
+  it('should report unreachable servers', async () => {
+    server = await startTestServer();
+
+    const url = server.url;
+
+    await server.close();
+
+    await expect(new McpClient({ name: 'test', url }).connect()).rejects.toThrow("MCP server 'test' is unreachable");
+  });
+
+  it('should require a connection before listing', async () => {
+    server = await startTestServer();
+
+    await expect(new McpClient({ name: 'test', url: server.url }).listTools()).rejects.toThrow('is not connected');
+  });
+});
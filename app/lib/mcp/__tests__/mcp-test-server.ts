@@ -0,0 +1,169 @@
+/**
+ * Stand-in MCP server for the tests, speaking Streamable HTTP on localhost.
+ *
+ * Answers with JSON or with an SSE stream (`sse: true`), paginates the
+ * tools list and records the requests it received.
+ */
+
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { JsonRpcRequest, McpTool } from '../types';
+
+export interface TestServerOptions {
+  /** Answer with SSE streams instead of JSON bodies */
+  sse?: boolean;
+
+  /** Tools per page of `tools/list` */
+  pageSize?: number;
+
+  /** Expected `Authorization` header */
+  token?: string;
+}
+
+export interface ReceivedRequest {
+  method: string;
+  httpMethod: string;
+  sessionId?: string;
+  protocolVersion?: string;
+}
+
+export interface TestServer {
+  url: string;
+  requests: ReceivedRequest[];
+  close(): Promise<void>;
+}
+
+export const SESSION_ID = 'test-session';
+
+export const TEST_TOOLS: McpTool[] = [
+  {
+    name: 'echo',
+    description: 'Echo the message',
+    inputSchema: { type: 'object', properties: { message: { type: 'string' } }, required: ['message'] },
+  },
+  { name: 'fail', description: 'Always fails', inputSchema: { type: 'object' } },
+  { name: 'slow', description: 'Never answers', inputSchema: { type: 'object' } },
+];
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+function handle(message: JsonRpcRequest, options: TestServerOptions): unknown {
+  const params = message.params ?? {};
+
+  switch (message.method) {
+    case 'initialize':
+      return {
+        protocolVersion: params.protocolVersion,
+        serverInfo: { name: 'test-server', version: '1.0.0' },
+        capabilities: { tools: {}, resources: {} },
+      };
+    case 'tools/list': {
+      const pageSize = options.pageSize ?? TEST_TOOLS.length;
+      const start = Number(params.cursor ?? 0);
+      const next = start + pageSize;
+
+      return {
+        tools: TEST_TOOLS.slice(start, next),
+        nextCursor: next < TEST_TOOLS.length ? String(next) : undefined,
+      };
+    }
+    case 'tools/call': {
+      const args = params.arguments as Record<string, unknown>;
+
+      if (params.name === 'fail') {
+        return { content: [{ type: 'text', text: 'Something went wrong' }], isError: true };
+      }
+
+      return { content: [{ type: 'text', text: `echo: ${args.message}` }] };
+    }
+    case 'resources/list':
+      return { resources: [{ uri: 'file:///readme.md', name: 'README' }] };
+    case 'resources/read':
+      return { contents: [{ uri: params.uri, mimeType: 'text/markdown', text: '# Test' }] };
+    default:
+      throw Object.assign(new Error(`Method not found: ${message.method}`), { code: -32601 });
+  }
+}
+
+export async function startTestServer(options: TestServerOptions = {}): Promise<TestServer> {
+  const requests: ReceivedRequest[] = [];
+
+  const server: Server = createServer(async (request, response) => {
+    const message: JsonRpcRequest | null = request.method === 'POST' ? JSON.parse(await readBody(request)) : null;
+
+    requests.push({
+      method: message?.method ?? '',
+      httpMethod: request.method ?? '',
+      sessionId: request.headers['mcp-session-id'] as string | undefined,
+      protocolVersion: request.headers['mcp-protocol-version'] as string | undefined,
+    });
+
+    if (options.token && request.headers.authorization !== `Bearer ${options.token}`) {
+      response.writeHead(401).end();
+      return;
+    }
+
+    if (!message) {
+      response.writeHead(request.method === 'DELETE' ? 200 : 405).end();
+      return;
+    }
+
+    // notifications are acknowledged without a body
+    if (message.id === undefined) {
+      response.writeHead(202).end();
+      return;
+    }
+
+    if (message.method === 'tools/call' && message.params?.name === 'slow') {
+      return;
+    }
+
+    let payload: Record<string, unknown>;
+
+    try {
+      payload = { jsonrpc: '2.0', id: message.id, result: handle(message, options) };
+    } catch (error) {
+      const { code, message: errorMessage } = error as Error & { code: number };
+      payload = { jsonrpc: '2.0', id: message.id, error: { code, message: errorMessage } };
+    }
+
+    const headers: Record<string, string> = message.method === 'initialize' ? { 'Mcp-Session-Id': SESSION_ID } : {};
+
+    if (options.sse) {
+      response.writeHead(200, { ...headers, 'Content-Type': 'text/event-stream' });
+
+      // a server notification comes first, the client must skip it
+      response.write(
+        `event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/message' })}\n\n`,
+      );
+      response.end(`event: message\ndata: ${JSON.stringify(payload)}\n\n`);
+
+      return;
+    }
+
+    response.writeHead(200, { ...headers, 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(payload));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    requests,
+    close: () =>
+      new Promise((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,91 @@
+// @vitest-environment node
+
+/**
+ * MCP tools - Unit Tests
+ *
+ * Tests the registration of server tools into the ToolRegistry
+ * and the routing of calls to the server.
+ *
+ * @module mcp/__tests__/tools.spec
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { ToolRegistry } from '~/lib/agents/core/tool-registry';
+import { McpClient } from '../client';
+import { formatToolResult, getMcpToolName, registerMcpTools } from '../tools';
+import { startTestServer, type TestServer } from './mcp-test-server';
+
+describe('MCP tools', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  describe('getMcpToolName', () => {
+    it('should namespace and sanitize the tool name', () => {
+      expect(getMcpToolName('linear', 'create_issue')).toBe('mcp__linear__create_issue');
+      expect(getMcpToolName('my server', 'get.page')).toBe('mcp__my_server__get_page');
+      expect(getMcpToolName('server', 'x'.repeat(100))).toHaveLength(64);
+    });
+  });
+
+  describe('formatToolResult', () => {
+    it('should join the contents and map errors', () => {
+      expect(
+        formatToolResult({
+          content: [
+            { type: 'text', text: 'Done' },
+            { type: 'image', data: '', mimeType: 'image/png' },
+          ],
+        }),
+      ).toEqual({ success: true, output: 'Done\n[image image/png]' });
+      expect(formatToolResult({ content: [{ type: 'text', text: 'Nope' }], isError: true })).toEqual({
+        success: false,
+        output: null,
+        error: 'Nope',
+      });
+    });
+  });
+
+  describe('registerMcpTools', () => {
+    it('should register the server tools in their category', async () => {
+      server = await startTestServer();
+
+      const client = new McpClient({ name: 'test', url: server.url });
+      const registry = new ToolRegistry();
+
+      await client.connect();
+
+      expect(await registerMcpTools(registry, client)).toBe(3);
+      expect(registry.getByCategory('mcp:test').map((tool) => tool.definition.name)).toEqual([
+        'mcp__test__echo',
+        'mcp__test__fail',
+        'mcp__test__slow',
+      ]);
+      expect(registry.get('mcp__test__echo')?.definition.inputSchema.required).toEqual(['message']);
+
+      // registering again replaces the tools
+      expect(await registerMcpTools(registry, client)).toBe(3);
+    });
+
+    it('should route calls through ToolRegistry.execute', async () => {
+      server = await startTestServer({ sse: true });
+
+      const client = new McpClient({ name: 'test', url: server.url });
+      const registry = new ToolRegistry();
+
+      await client.connect();
+      await registerMcpTools(registry, client);
+
+      expect(await registry.execute('mcp__test__echo', { message: 'hi' })).toMatchObject({
+        success: true,
+        output: 'echo: hi',
+      });
+      expect(await registry.execute('mcp__test__fail', {})).toMatchObject({
+        success: false,
+        error: 'Something went wrong',
+      });
+    });
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * Model Context Protocol client over Streamable HTTP.
+ *
+ * Each JSON-RPC message is POSTed to the server endpoint, which answers
+ * with a JSON body or with an SSE stream carrying the response. The
+ * session id returned by `initialize` is sent back with every request.
+ *
+ * @see https://modelcontextprotocol.io/specification/2025-03-26/basic/transports
+ */
+
+import {
+  MCP_PROTOCOL_VERSION,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  type McpCallToolResult,
+  type McpGetPromptResult,
+  type McpInitializeResult,
+  type McpPrompt,
+  type McpResource,
+  type McpResourceContents,
+  type McpServerCatalog,
+  type McpServerConfig,
+  type McpTool,
+} from './types';
+
+/**
+ * Default time limit of a request, in ms
+ */
+const DEFAULT_TIMEOUT = 30_000;
+
+/**
+ * Lists are paginated, stop after this many pages in case the server loops
+ */
+const MAX_PAGES = 50;
+
+const CLIENT_INFO = { name: 'bavini', version: '1.0.0' };
+
+/**
+ * A server that cannot be reached or that answered with an error,
+ * `code` is the JSON-RPC error code or the HTTP status
+ */
+export class McpError extends Error {
+  code?: number;
+
+  constructor(message: string, code?: number) {
+    super(message);
+    this.name = 'McpError';
+    this.code = code;
+  }
+}
+
+export interface McpClientOptions {
+  /** Fetch implementation, e.g. to go through a proxy */
+  fetch?: typeof fetch;
+
+  /** Time limit of a request in ms (default: 30s) */
+  timeout?: number;
+}
+
+export class McpClient {
+  readonly config: McpServerConfig;
+
+  private _fetch: typeof fetch;
+  private _timeout: number;
+  private _nextId = 1;
+  private _sessionId: string | null = null;
+  private _initialize: McpInitializeResult | null = null;
+
+  constructor(config: McpServerConfig, options: McpClientOptions = {}) {
+    this.config = config;
+    this._fetch = options.fetch ?? ((input, init) => globalThis.fetch(input, init));
+    this._timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  get connected(): boolean {
+    return this._initialize !== null;
+  }
+
+  /**
+   * Result of the initialize handshake, null until connected
+   */
+  get serverInfo(): McpInitializeResult | null {
+    return this._initialize;
+  }
+
+  /**
+   * Open a session with the server
+   */
+  async connect(): Promise<McpInitializeResult> {
+    const result = await this._request<McpInitializeResult>('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    });
+
+    this._initialize = result;
+    await this._notify('notifications/initialized');
+
+    return result;
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    return this._hasCapability('tools') ? this._paginate<McpTool>('tools/list', 'tools') : [];
+  }
+
+  async listPrompts(): Promise<McpPrompt[]> {
+    return this._hasCapability('prompts') ? this._paginate<McpPrompt>('prompts/list', 'prompts') : [];
+  }
+
+  async listResources(): Promise<McpResource[]> {
+    return this._hasCapability('resources') ? this._paginate<McpResource>('resources/list', 'resources') : [];
+  }
+
+  /**
+   * Tools, prompts and resources of the server
+   */
+  async listAll(): Promise<McpServerCatalog> {
+    return {
+      tools: await this.listTools(),
+      prompts: await this.listPrompts(),
+      resources: await this.listResources(),
+    };
+  }
+
+  async callTool(name: string, args: Record<string, unknown> = {}): Promise<McpCallToolResult> {
+    return this._request<McpCallToolResult>('tools/call', { name, arguments: args });
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<McpGetPromptResult> {
+    return this._request<McpGetPromptResult>('prompts/get', { name, arguments: args });
+  }
+
+  async readResource(uri: string): Promise<McpResourceContents[]> {
+    const result = await this._request<{ contents: McpResourceContents[] }>('resources/read', { uri });
+
+    return result.contents;
+  }
+
+  /**
+   * End the session, the server may not support it
+   */
+  async close(): Promise<void> {
+    const sessionId = this._sessionId;
+
+    this._sessionId = null;
+    this._initialize = null;
+
+    if (!sessionId) {
+      return;
+    }
+
+    try {
+      await this._fetch(this.config.url, {
+        method: 'DELETE',
+        headers: { ...this.config.headers, 'Mcp-Session-Id': sessionId },
+      });
+    } catch {
+      // the session expires on its own
+    }
+  }
+
+  private _hasCapability(capability: keyof McpInitializeResult['capabilities']): boolean {
+    if (!this._initialize) {
+      throw new McpError(`MCP server '${this.name}' is not connected`);
+    }
+
+    return this._initialize.capabilities[capability] !== undefined;
+  }
+
+  private async _paginate<T>(method: string, key: string): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const result = await this._request<Record<string, unknown>>(method, cursor ? { cursor } : {});
+
+      items.push(...((result[key] as T[] | undefined) ?? []));
+      cursor = result.nextCursor as string | undefined;
+
+      if (!cursor) {
+        break;
+      }
+    }
+
+    return items;
+  }
+
+  private async _request<T>(method: string, params: Record<string, unknown>): Promise<T> {
+    const id = this._nextId++;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this._timeout);
+
+    try {
+      const response = await this._post({ jsonrpc: '2.0', id, method, params }, controller.signal);
+      const message = await readResponse(response, id);
+
+      if (message.error) {
+        throw new McpError(`${method} failed: ${message.error.message}`, message.error.code);
+      }
+
+      return message.result as T;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new McpError(`${method} timed out after ${this._timeout}ms`);
+      }
+
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async _notify(method: string): Promise<void> {
+    const response = await this._post({ jsonrpc: '2.0', method });
+
+    await response.body?.cancel();
+  }
+
+  private async _post(message: JsonRpcRequest, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = {
+      ...this.config.headers,
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+    };
+
+    if (this._sessionId) {
+      headers['Mcp-Session-Id'] = this._sessionId;
+    }
+
+    if (this._initialize) {
+      headers['MCP-Protocol-Version'] = this._initialize.protocolVersion;
+    }
+
+    let response: Response;
+
+    try {
+      response = await this._fetch(this.config.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(message),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      throw new McpError(
+        `MCP server '${this.name}' is unreachable: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+
+      // the server dropped the session, a new one starts with the next connect()
+      if (response.status === 404 && this._sessionId) {
+        this._sessionId = null;
+        this._initialize = null;
+      }
+
+      throw new McpError(`MCP server '${this.name}' answered ${response.status} to ${message.method}`, response.status);
+    }
+
+    const sessionId = response.headers.get('Mcp-Session-Id');
+
+    if (sessionId) {
+      this._sessionId = sessionId;
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Response to a request, from a JSON body or from the messages of an SSE stream
+ */
+async function readResponse(response: Response, id: number): Promise<JsonRpcResponse> {
+  const contentType = response.headers.get('Content-Type') ?? '';
+
+  if (contentType.includes('text/event-stream')) {
+    for await (const data of readEventData(response)) {
+      const match = findResponse(JSON.parse(data), id);
+
+      if (match) {
+        return match;
+      }
+    }
+
+    throw new McpError(`The stream ended without a response to request ${id}`);
+  }
+
+  const match = findResponse(await response.json(), id);
+
+  if (!match) {
+    throw new McpError(`The server did not answer request ${id}`);
+  }
+
+  return match;
+}
+
+/**
+ * The response to a request in a message or a batch, server requests and notifications are skipped
+ */
+function findResponse(payload: unknown, id: number): JsonRpcResponse | null {
+  const messages = (Array.isArray(payload) ? payload : [payload]) as JsonRpcResponse[];
+
+  return messages.find((message) => message?.id === id && ('result' in message || 'error' in message)) ?? null;
+}
+
+/**
+ * Data of the events of an SSE stream
+ */
+async function* readEventData(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  // leaving the loop early cancels the rest of the stream
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const events = buffer.split(/\r?\n\r?\n/);
+
+      // the last part is an incomplete event until the stream ends
+      buffer = done ? '' : (events.pop() ?? '');
+
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).replace(/^ /, ''))
+          .join('\n');
+
+        if (data) {
+          yield data;
+        }
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}
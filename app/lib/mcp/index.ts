@@ -0,0 +1,17 @@
+/**
+ * Model Context Protocol client
+ *
+ * @module mcp
+ */
+
+export { McpClient, McpError, type McpClientOptions } from './client';
+export {
+  createMcpToolSet,
+  formatToolResult,
+  getMcpCategory,
+  getMcpToolName,
+  isMcpToolName,
+  registerMcpTools,
+  type McpToolSet,
+} from './tools';
+export * from './types';
@@ -0,0 +1,123 @@
+/**
+ * Bridge between MCP servers and the agent ToolRegistry.
+ *
+ * The tools of a server are registered under the `mcp:<server>` category
+ * with namespaced names (`mcp__<server>__<tool>`), so two servers can
+ * expose tools with the same name without clashing with built-in tools.
+ */
+
+import type { ToolHandler, ToolRegistry } from '~/lib/agents/core/tool-registry';
+import type { ToolDefinition, ToolExecutionResult, ToolInputSchema } from '~/lib/agents/types';
+import type { McpClient } from './client';
+import type { McpCallToolResult, McpContent, McpTool } from './types';
+
+const TOOL_PREFIX = 'mcp';
+const SEPARATOR = '__';
+
+/**
+ * Tool names accepted by the LLM APIs: ^[a-zA-Z0-9_-]{1,64}$
+ */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Tools of a server, ready for `ToolRegistry.registerBatch` or `BaseAgent.registerTools`
+ */
+export interface McpToolSet {
+  category: string;
+  definitions: ToolDefinition[];
+  handlers: Record<string, ToolHandler>;
+}
+
+function sanitize(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+/**
+ * Category of the tools of a server
+ */
+export function getMcpCategory(serverName: string): string {
+  return `${TOOL_PREFIX}:${serverName}`;
+}
+
+/**
+ * Name of a server tool in the registry, e.g. `mcp__linear__create_issue`
+ */
+export function getMcpToolName(serverName: string, toolName: string): string {
+  return [TOOL_PREFIX, sanitize(serverName), sanitize(toolName)].join(SEPARATOR).slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+export function isMcpToolName(name: string): boolean {
+  return name.startsWith(`${TOOL_PREFIX}${SEPARATOR}`);
+}
+
+/**
+ * Output of a tool call for the LLM: the text contents, the other
+ * contents are only described
+ */
+export function formatToolResult(result: McpCallToolResult): ToolExecutionResult {
+  const output = result.content.map(formatContent).join('\n');
+
+  if (result.isError) {
+    return { success: false, output: null, error: output || 'The MCP tool failed' };
+  }
+
+  return { success: true, output };
+}
+
+function formatContent(content: McpContent): string {
+  switch (content.type) {
+    case 'text':
+      return content.text;
+    case 'resource':
+      return content.resource.text ?? `[resource ${content.resource.uri}]`;
+    default:
+      return `[${content.type} ${content.mimeType}]`;
+  }
+}
+
+/**
+ * Definitions and handlers of the tools of a connected server
+ */
+export function createMcpToolSet(client: McpClient, tools: McpTool[]): McpToolSet {
+  const definitions: ToolDefinition[] = [];
+  const handlers: Record<string, ToolHandler> = {};
+
+  for (const tool of tools) {
+    const name = getMcpToolName(client.name, tool.name);
+
+    definitions.push({
+      name,
+      description: `[${client.name}] ${tool.description ?? tool.name}`,
+      inputSchema: {
+        type: 'object',
+        properties: (tool.inputSchema.properties ?? {}) as ToolInputSchema['properties'],
+        required: tool.inputSchema.required,
+      },
+    });
+
+    handlers[name] = async (input) => {
+      try {
+        return formatToolResult(await client.callTool(tool.name, input));
+      } catch (error) {
+        return { success: false, output: null, error: error instanceof Error ? error.message : String(error) };
+      }
+    };
+  }
+
+  return { category: getMcpCategory(client.name), definitions, handlers };
+}
+
+/**
+ * List the tools of a connected server and register them, the tools
+ * previously registered for this server are replaced
+ *
+ * @returns the number of registered tools
+ */
+export async function registerMcpTools(registry: ToolRegistry, client: McpClient): Promise<number> {
+  const toolSet = createMcpToolSet(client, await client.listTools());
+
+  registry.unregisterCategory(toolSet.category);
+  registry.registerBatch(toolSet.definitions, toolSet.handlers, toolSet.category);
+
+  return registry.getByCategory(toolSet.category).length;
+}
@@ -0,0 +1,136 @@
+/**
+ * Types of the Model Context Protocol (MCP) client.
+ *
+ * Only the subset used by BAVINI is described: the lifecycle, tools,
+ * prompts and resources of a server reached over Streamable HTTP.
+ */
+
+/**
+ * Protocol revision sent in the initialize request
+ */
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+/**
+ * An MCP server configured for a project
+ */
+export interface McpServerConfig {
+  /** Name of the server, used to namespace its tools (e.g. `linear`) */
+  name: string;
+
+  /** Endpoint of the server (Streamable HTTP) */
+  url: string;
+
+  /** Extra headers sent with every request (e.g. `Authorization`) */
+  headers?: Record<string, string>;
+
+  /** Disabled servers are kept in the configuration but not connected */
+  enabled?: boolean;
+}
+
+/*
+ * JSON-RPC 2.0
+ */
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: number;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse<T = unknown> {
+  jsonrpc: '2.0';
+  id: number | null;
+  result?: T;
+  error?: JsonRpcError;
+}
+
+/*
+ * Server capabilities
+ */
+
+export interface McpServerInfo {
+  name: string;
+  version: string;
+}
+
+export interface McpInitializeResult {
+  protocolVersion: string;
+  serverInfo: McpServerInfo;
+  capabilities: {
+    tools?: Record<string, unknown>;
+    prompts?: Record<string, unknown>;
+    resources?: Record<string, unknown>;
+  };
+  instructions?: string;
+}
+
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema: {
+    type: 'object';
+    properties?: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/*
+ * Contents
+ */
+
+export type McpContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'audio'; data: string; mimeType: string }
+  | { type: 'resource'; resource: McpResourceContents };
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+export interface McpCallToolResult {
+  content: McpContent[];
+  isError?: boolean;
+}
+
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: McpContent;
+}
+
+export interface McpGetPromptResult {
+  description?: string;
+  messages: McpPromptMessage[];
+}
+
+/**
+ * Everything a server exposes, as listed after connecting
+ */
+export interface McpServerCatalog {
+  tools: McpTool[];
+  prompts: McpPrompt[];
+  resources: McpResource[];
+}
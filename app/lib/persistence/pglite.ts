@@ -13,6 +13,7 @@ import {
   CREATE_TABLES_SQL,
   GET_SCHEMA_VERSION_SQL,
   INSERT_SCHEMA_VERSION_SQL,
+  MIGRATE_V3_TO_V4_SQL,
   SCHEMA_VERSION,
 } from './schema';
 
@@ -126,6 +127,16 @@ async function runMigrations(db: PGlite): Promise<void> {
     logger.info('Migration to v3 complete');
   }
 
+  // migration v3 → v4: add the LLM usage table
+  if (schemaVersion < 4) {
+    logger.info('Running migration: creating LLM usage table...');
+
+    await db.exec(MIGRATE_V3_TO_V4_SQL);
+    await db.query(INSERT_SCHEMA_VERSION_SQL, [4]);
+    schemaVersion = 4;
+    logger.info('Migration to v4 complete');
+  }
+
   logger.info(`Schema migration complete (now v${SCHEMA_VERSION})`);
 }
 
@@ -2,7 +2,7 @@
  * PGlite database schema for BAVINI chat persistence.
  */
 
-export const SCHEMA_VERSION = 3;
+export const SCHEMA_VERSION = 4;
 
 export const CREATE_TABLES_SQL = `
   CREATE TABLE IF NOT EXISTS chats (
@@ -60,6 +60,34 @@ export const CREATE_CHECKPOINTS_TABLE_SQL = `
   CREATE INDEX IF NOT EXISTS idx_checkpoints_trigger ON checkpoints(trigger_type);
 `;
 
+/**
+ * Schema for LLM usage records (token and cost accounting).
+ * No foreign key on chat_id: the daily totals must survive chat deletion.
+ */
+export const CREATE_USAGE_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS llm_usage (
+    id TEXT PRIMARY KEY,
+    chat_id TEXT,
+
+    -- Agent type, or 'chat' for the chat mode
+    source TEXT NOT NULL,
+    model TEXT NOT NULL,
+
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+    cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+    -- Local day (YYYY-MM-DD) for daily totals
+    day TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_llm_usage_chat ON llm_usage(chat_id, source);
+  CREATE INDEX IF NOT EXISTS idx_llm_usage_day ON llm_usage(day);
+`;
+
 export const INSERT_SCHEMA_VERSION_SQL = `
   INSERT INTO schema_version (version)
   VALUES ($1)
@@ -85,3 +113,8 @@ export const MIGRATE_V2_TO_V3_SQL = `
   DROP TABLE IF EXISTS checkpoints;
   ${CREATE_CHECKPOINTS_TABLE_SQL}
 `;
+
+/**
+ * Migration SQL for upgrading from v3 to v4 (adds LLM usage table).
+ */
+export const MIGRATE_V3_TO_V4_SQL = CREATE_USAGE_TABLE_SQL;
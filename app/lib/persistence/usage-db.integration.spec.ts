@@ -0,0 +1,133 @@
+/**
+ * Integration tests for usage-db.
+ * These tests use real PGLite (no mocks) to verify the aggregates.
+ */
+
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import type { UsageRecord } from '~/lib/usage';
+import { CREATE_TABLES_SQL, CREATE_USAGE_TABLE_SQL } from './schema';
+import {
+  clearUsageRecords,
+  getChatUsageTotals,
+  getUsageByAgent,
+  getUsageByChat,
+  getUsageByDay,
+  getUsageRecords,
+  insertUsageRecord,
+} from './usage-db';
+
+let sequence = 0;
+
+function createRecord(overrides: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    id: `usage-${++sequence}`,
+    chatId: 'chat-1',
+    source: 'coder',
+    model: 'claude-sonnet-4-5-20250929',
+    inputTokens: 1000,
+    outputTokens: 200,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    costUsd: 0.006,
+    createdAt: new Date(2026, 9, 19, 10, 0, 0),
+    ...overrides,
+  };
+}
+
+describe('usage-db Integration Tests', () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = new PGlite();
+    await db.waitReady;
+
+    await db.exec(CREATE_TABLES_SQL);
+    await db.exec(CREATE_USAGE_TABLE_SQL);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await clearUsageRecords(db);
+  });
+
+  it('should store records and read them back', async () => {
+    const record = createRecord({ cacheReadTokens: 500 });
+
+    await insertUsageRecord(db, record);
+    await insertUsageRecord(db, record);
+
+    const records = await getUsageRecords(db, { chatId: 'chat-1' });
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toEqual(record);
+  });
+
+  it('should load the records of a chat or of a day', async () => {
+    await insertUsageRecord(db, createRecord({ chatId: 'chat-1', createdAt: new Date(2026, 9, 18, 10) }));
+    await insertUsageRecord(db, createRecord({ chatId: 'chat-2', createdAt: new Date(2026, 9, 19, 10) }));
+    await insertUsageRecord(db, createRecord({ chatId: 'chat-3', createdAt: new Date(2026, 9, 17, 10) }));
+
+    const records = await getUsageRecords(db, { chatId: 'chat-1', day: '2026-10-19' });
+
+    expect(records.map((record) => record.chatId)).toEqual(['chat-1', 'chat-2']);
+  });
+
+  it('should aggregate per chat', async () => {
+    await insertUsageRecord(db, createRecord({ costUsd: 0.01 }));
+    await insertUsageRecord(db, createRecord({ source: 'orchestrator', costUsd: 0.02 }));
+    await insertUsageRecord(db, createRecord({ chatId: 'chat-2', costUsd: 0.5 }));
+
+    const totals = await getChatUsageTotals(db, 'chat-1');
+
+    expect(totals).toMatchObject({ inputTokens: 2000, outputTokens: 400, calls: 2 });
+    expect(totals.costUsd).toBeCloseTo(0.03);
+
+    const byChat = await getUsageByChat(db);
+
+    expect(byChat.map((row) => row.chatId)).toEqual(['chat-2', 'chat-1']);
+  });
+
+  it('should return empty totals for a chat without usage', async () => {
+    expect(await getChatUsageTotals(db, 'unknown')).toEqual({
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      costUsd: 0,
+      calls: 0,
+    });
+  });
+
+  it('should aggregate per agent type', async () => {
+    await insertUsageRecord(db, createRecord({ source: 'coder', costUsd: 0.05 }));
+    await insertUsageRecord(db, createRecord({ source: 'coder', costUsd: 0.05 }));
+    await insertUsageRecord(db, createRecord({ source: 'orchestrator', costUsd: 0.01 }));
+    await insertUsageRecord(db, createRecord({ source: 'chat', chatId: 'chat-2', costUsd: 0.2 }));
+
+    const all = await getUsageByAgent(db);
+    const chat = await getUsageByAgent(db, 'chat-1');
+
+    expect(all.map((row) => row.source)).toEqual(['chat', 'coder', 'orchestrator']);
+    expect(chat.map((row) => [row.source, row.calls])).toEqual([
+      ['coder', 2],
+      ['orchestrator', 1],
+    ]);
+  });
+
+  it('should aggregate per day, most recent first', async () => {
+    await insertUsageRecord(db, createRecord({ createdAt: new Date(2026, 9, 17, 23, 30) }));
+    await insertUsageRecord(db, createRecord({ createdAt: new Date(2026, 9, 19, 8) }));
+    await insertUsageRecord(db, createRecord({ createdAt: new Date(2026, 9, 19, 18) }));
+
+    const days = await getUsageByDay(db, 2);
+
+    expect(days.map((row) => [row.day, row.calls])).toEqual([
+      ['2026-10-19', 2],
+      ['2026-10-17', 1],
+    ]);
+  });
+});
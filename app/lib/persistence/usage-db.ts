@@ -0,0 +1,198 @@
+/**
+ * Database layer for LLM usage records.
+ * Stores one row per LLM call and aggregates them per chat, agent type and day.
+ */
+
+import type { PGlite } from '@electric-sql/pglite';
+import { createEmptyTotals, getDayKey, type UsageRecord, type UsageTotals } from '~/lib/usage';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('UsageDB');
+
+/**
+ * Database row structure for usage records.
+ */
+interface UsageRow {
+  id: string;
+  chat_id: string | null;
+  source: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  cost_usd: number;
+  day: string;
+  created_at: string | Date;
+}
+
+/**
+ * Database row structure for aggregated usage.
+ */
+interface UsageTotalsRow {
+  key: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  cost_usd: number;
+  calls: number;
+}
+
+export interface ChatUsageTotals extends UsageTotals {
+  chatId: string | null;
+}
+
+export interface AgentUsageTotals extends UsageTotals {
+  source: string;
+}
+
+export interface DailyUsageTotals extends UsageTotals {
+  day: string;
+}
+
+/**
+ * Aggregated columns, cast so PGlite returns numbers instead of bigints.
+ */
+const TOTALS_COLUMNS = `
+  COALESCE(SUM(input_tokens), 0)::INTEGER AS input_tokens,
+  COALESCE(SUM(output_tokens), 0)::INTEGER AS output_tokens,
+  COALESCE(SUM(cache_read_tokens), 0)::INTEGER AS cache_read_tokens,
+  COALESCE(SUM(cache_write_tokens), 0)::INTEGER AS cache_write_tokens,
+  COALESCE(SUM(cost_usd), 0)::DOUBLE PRECISION AS cost_usd,
+  COUNT(*)::INTEGER AS calls
+`;
+
+function rowToUsageRecord(row: UsageRow): UsageRecord {
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    source: row.source,
+    model: row.model,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    cacheReadTokens: row.cache_read_tokens,
+    cacheWriteTokens: row.cache_write_tokens,
+    costUsd: row.cost_usd,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function rowToTotals(row: UsageTotalsRow): UsageTotals {
+  return {
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    cacheReadTokens: row.cache_read_tokens,
+    cacheWriteTokens: row.cache_write_tokens,
+    costUsd: row.cost_usd,
+    calls: row.calls,
+  };
+}
+
+/**
+ * Save a usage record.
+ */
+export async function insertUsageRecord(db: PGlite, record: UsageRecord): Promise<void> {
+  await db.query(
+    `INSERT INTO llm_usage (
+      id, chat_id, source, model,
+      input_tokens, output_tokens, cache_read_tokens, cache_write_tokens,
+      cost_usd, day, created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    ON CONFLICT (id) DO NOTHING`,
+    [
+      record.id,
+      record.chatId,
+      record.source,
+      record.model,
+      record.inputTokens,
+      record.outputTokens,
+      record.cacheReadTokens,
+      record.cacheWriteTokens,
+      record.costUsd,
+      getDayKey(record.createdAt),
+      record.createdAt.toISOString(),
+    ],
+  );
+
+  logger.trace(`Recorded usage ${record.id} of ${record.source} (${record.model})`);
+}
+
+/**
+ * Get the records of a chat and of a day, used to restore the budgets after a reload.
+ */
+export async function getUsageRecords(
+  db: PGlite,
+  filter: { chatId?: string | null; day?: string },
+): Promise<UsageRecord[]> {
+  const result = await db.query<UsageRow>(
+    `SELECT * FROM llm_usage
+     WHERE ($1::TEXT IS NOT NULL AND chat_id = $1) OR ($2::TEXT IS NOT NULL AND day = $2)
+     ORDER BY created_at ASC`,
+    [filter.chatId ?? null, filter.day ?? null],
+  );
+
+  return result.rows.map(rowToUsageRecord);
+}
+
+/**
+ * Get the totals of a chat.
+ */
+export async function getChatUsageTotals(db: PGlite, chatId: string): Promise<UsageTotals> {
+  const result = await db.query<UsageTotalsRow>(
+    `SELECT chat_id AS key, ${TOTALS_COLUMNS} FROM llm_usage WHERE chat_id = $1 GROUP BY chat_id`,
+    [chatId],
+  );
+
+  return result.rows[0] ? rowToTotals(result.rows[0]) : createEmptyTotals();
+}
+
+/**
+ * Get the totals per chat, most expensive first.
+ */
+export async function getUsageByChat(db: PGlite, limit = 20): Promise<ChatUsageTotals[]> {
+  const result = await db.query<UsageTotalsRow>(
+    `SELECT chat_id AS key, ${TOTALS_COLUMNS} FROM llm_usage
+     GROUP BY chat_id ORDER BY cost_usd DESC, calls DESC LIMIT $1`,
+    [limit],
+  );
+
+  return result.rows.map((row) => ({ chatId: row.key, ...rowToTotals(row) }));
+}
+
+/**
+ * Get the totals per agent type, for one chat or for all of them.
+ */
+export async function getUsageByAgent(db: PGlite, chatId?: string): Promise<AgentUsageTotals[]> {
+  const result = chatId
+    ? await db.query<UsageTotalsRow>(
+        `SELECT source AS key, ${TOTALS_COLUMNS} FROM llm_usage
+         WHERE chat_id = $1 GROUP BY source ORDER BY cost_usd DESC, calls DESC`,
+        [chatId],
+      )
+    : await db.query<UsageTotalsRow>(
+        `SELECT source AS key, ${TOTALS_COLUMNS} FROM llm_usage GROUP BY source ORDER BY cost_usd DESC, calls DESC`,
+      );
+
+  return result.rows.map((row) => ({ source: row.key ?? 'unknown', ...rowToTotals(row) }));
+}
+
+/**
+ * Get the totals of the last days, most recent first.
+ */
+export async function getUsageByDay(db: PGlite, days = 7): Promise<DailyUsageTotals[]> {
+  const result = await db.query<UsageTotalsRow>(
+    `SELECT day AS key, ${TOTALS_COLUMNS} FROM llm_usage GROUP BY day ORDER BY day DESC LIMIT $1`,
+    [days],
+  );
+
+  return result.rows.map((row) => ({ day: row.key ?? '', ...rowToTotals(row) }));
+}
+
+/**
+ * Delete all usage records.
+ */
+export async function clearUsageRecords(db: PGlite): Promise<void> {
+  await db.query('DELETE FROM llm_usage');
+  logger.info('Cleared usage records');
+}
@@ -0,0 +1,95 @@
+// @vitest-environment node
+import { generateText, streamText, wrapLanguageModel } from 'ai';
+import { MockLanguageModelV3, simulateReadableStream } from 'ai/test';
+import { describe, expect, it, vi } from 'vitest';
+import { createReplayMiddleware } from '../middleware';
+import { LLMRecording } from '../recording';
+
+const USAGE = {
+  inputTokens: { total: 10, noCache: 10, cacheRead: undefined, cacheWrite: undefined },
+  outputTokens: { total: 5, text: 5, reasoning: undefined },
+};
+
+function createModel() {
+  return new MockLanguageModelV3({
+    doStream: async () => ({
+      stream: simulateReadableStream({
+        chunks: [
+          { type: 'response-metadata', id: 'msg_1', timestamp: new Date('2026-01-01T00:00:00Z') },
+          { type: 'text-start', id: 't1' },
+          { type: 'text-delta', id: 't1', delta: 'Hello ' },
+          { type: 'text-delta', id: 't1', delta: 'world' },
+          { type: 'text-end', id: 't1' },
+          { type: 'tool-call', toolCallId: 'call_1', toolName: 'web_search', input: '{"query":"bavini"}' },
+          { type: 'finish', usage: USAGE, finishReason: { unified: 'tool-calls', raw: 'tool_use' } },
+        ],
+      }),
+    }),
+    doGenerate: async () => ({
+      content: [{ type: 'text', text: 'Generated' }],
+      finishReason: { unified: 'stop', raw: 'end_turn' },
+      usage: USAGE,
+      warnings: [],
+    }),
+  });
+}
+
+function createOfflineModel() {
+  return new MockLanguageModelV3({
+    doStream: async () => {
+      throw new Error('network');
+    },
+    doGenerate: async () => {
+      throw new Error('network');
+    },
+  });
+}
+
+function wrap(model: MockLanguageModelV3, recording: LLMRecording) {
+  return wrapLanguageModel({ model, middleware: createReplayMiddleware(recording, 'chat') });
+}
+
+async function collect(model: ReturnType<typeof wrap>, prompt: string) {
+  const result = streamText({ model, prompt });
+  const parts: string[] = [];
+
+  for await (const part of result.fullStream) {
+    parts.push(part.type === 'text-delta' ? `text:${part.text}` : part.type);
+  }
+
+  return { parts, text: await result.text, toolCalls: await result.toolCalls };
+}
+
+describe('createReplayMiddleware', () => {
+  it('should record streamed parts and replay them offline', async () => {
+    const recorder = new LLMRecording({ mode: 'record' });
+    const recorded = await collect(wrap(createModel(), recorder), 'Say hello');
+
+    expect(recorder.interactions).toHaveLength(1);
+    expect(recorder.interactions[0].chunks).toHaveLength(7);
+
+    const player = new LLMRecording({ mode: 'replay', fixture: JSON.parse(JSON.stringify(recorder.toJSON())) });
+    const replayed = await collect(wrap(createOfflineModel(), player), 'Say hello');
+
+    expect(replayed).toEqual(recorded);
+    expect(replayed.text).toBe('Hello world');
+    expect(replayed.toolCalls[0]).toMatchObject({ toolName: 'web_search', input: { query: 'bavini' } });
+  });
+
+  it('should record generated responses', async () => {
+    const recorder = new LLMRecording({ mode: 'record' });
+    await generateText({ model: wrap(createModel(), recorder), prompt: 'Generate' });
+
+    const player = new LLMRecording({ mode: 'replay', fixture: recorder.toJSON() });
+    const result = await generateText({ model: wrap(createOfflineModel(), player), prompt: 'Generate' });
+
+    expect(result.text).toBe('Generated');
+  });
+
+  it('should fail when the stream was not recorded', async () => {
+    const player = new LLMRecording({ mode: 'replay' });
+    const result = streamText({ model: wrap(createOfflineModel(), player), prompt: 'Say hello', onError: vi.fn() });
+
+    await expect(result.text).rejects.toThrow();
+  });
+});
@@ -0,0 +1,132 @@
+// @vitest-environment node
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { closeRecording, openRecording } from '../file';
+import { LLMRecording, ReplayError, createRequestKey, getActiveRecording, setActiveRecording } from '../recording';
+
+const REQUEST = { model: 'claude', messages: [{ role: 'user', content: 'Hello' }] };
+
+function record(...requests: Array<{ request: unknown; response: string; source?: string }>): LLMRecording {
+  const recording = new LLMRecording({ mode: 'record' });
+
+  for (const { request, response, source = 'coder' } of requests) {
+    recording.record({ kind: 'message', source, request, response });
+  }
+
+  return recording;
+}
+
+function replay(recording: LLMRecording, lenient = false): LLMRecording {
+  return new LLMRecording({ mode: 'replay', fixture: recording.toJSON(), lenient });
+}
+
+describe('createRequestKey', () => {
+  it('should not depend on key order or undefined fields', () => {
+    expect(createRequestKey({ a: 1, b: { c: 2, d: undefined } })).toBe(createRequestKey({ b: { c: 2 }, a: 1 }));
+  });
+
+  it('should change with the request', () => {
+    expect(createRequestKey(REQUEST)).not.toBe(createRequestKey({ ...REQUEST, model: 'gpt' }));
+  });
+});
+
+describe('LLMRecording', () => {
+  it('should replay responses by request', () => {
+    const recording = replay(
+      record(
+        { request: { ...REQUEST, turn: 1 }, response: 'first' },
+        { request: { ...REQUEST, turn: 2 }, response: 'second' },
+      ),
+    );
+
+    expect(recording.take('message', 'coder', { ...REQUEST, turn: 2 }).response).toBe('second');
+    expect(recording.take('message', 'coder', { turn: 1, ...REQUEST }).response).toBe('first');
+    expect(recording.pending).toEqual([]);
+  });
+
+  it('should replay identical requests in recorded order', () => {
+    const recording = replay(record({ request: REQUEST, response: 'first' }, { request: REQUEST, response: 'second' }));
+
+    expect(recording.take('message', 'coder', REQUEST).response).toBe('first');
+    expect(recording.take('message', 'coder', REQUEST).response).toBe('second');
+    expect(() => recording.take('message', 'coder', REQUEST)).toThrow(ReplayError);
+  });
+
+  it('should fall back to the next interaction of the source when the request changed in lenient mode', () => {
+    const recording = replay(
+      record({ request: REQUEST, response: 'explore', source: 'explore' }, { request: REQUEST, response: 'coder' }),
+      true,
+    );
+
+    expect(recording.take('message', 'coder', { ...REQUEST, model: 'other' }).response).toBe('coder');
+  });
+
+  it('should fail on changed requests with a diff of the request', () => {
+    const recording = replay(record({ request: REQUEST, response: 'first' }));
+
+    expect(() => recording.take('message', 'coder', { ...REQUEST, model: 'other' })).toThrow(
+      /Request of coder changed since it was recorded[\s\S]*-  "model": "claude"\n\+  "model": "other"/,
+    );
+  });
+
+  it('should fail on requests of a source without recorded interactions', () => {
+    const recording = replay(record({ request: REQUEST, response: 'first' }));
+
+    expect(() => recording.take('message', 'explore', REQUEST)).toThrow(/No recorded message interaction of explore/);
+  });
+
+  it('should send and record in record mode', async () => {
+    const recording = new LLMRecording({ mode: 'record' });
+    const send = vi.fn().mockResolvedValue({ text: 'Hi' });
+
+    await expect(recording.run('message', 'coder', REQUEST, send)).resolves.toEqual({ text: 'Hi' });
+    expect(recording.interactions[0]).toMatchObject({ kind: 'message', source: 'coder', response: { text: 'Hi' } });
+  });
+
+  it('should not send in replay mode', async () => {
+    const recording = replay(record({ request: REQUEST, response: 'Hi' }));
+    const send = vi.fn();
+
+    await expect(recording.run('message', 'coder', REQUEST, send)).resolves.toBe('Hi');
+    expect(send).not.toHaveBeenCalled();
+  });
+});
+
+describe('fixture files', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'llm-replay-'));
+  });
+
+  afterEach(async () => {
+    setActiveRecording(null);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should write the fixture in record mode and replay it', async () => {
+    const path = join(dir, 'fixtures/session.json');
+    const recorder = await openRecording(path, { mode: 'record' });
+
+    expect(getActiveRecording()).toBe(recorder);
+
+    await recorder.run('message', 'coder', REQUEST, async () => 'Hi');
+    await closeRecording(recorder);
+
+    expect(getActiveRecording()).toBeNull();
+    expect(JSON.parse(await readFile(path, 'utf-8')).interactions).toHaveLength(1);
+
+    const player = await openRecording(path, { mode: 'replay' });
+
+    await expect(player.run('message', 'coder', REQUEST, async () => 'network')).resolves.toBe('Hi');
+    await closeRecording(player);
+  });
+
+  it('should explain how to create a missing fixture', async () => {
+    await expect(openRecording(join(dir, 'missing.json'), { mode: 'replay' })).rejects.toThrow(
+      'run with LLM_REPLAY_MODE=record',
+    );
+  });
+});
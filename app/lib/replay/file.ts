@@ -0,0 +1,81 @@
+/**
+ * Fixture files for recorded LLM sessions (Node only: tests and scripts).
+ *
+ * ```ts
+ * const recording = await openRecording('app/lib/agents/tests/fixtures/routing.json');
+ * // ... run the agents or the chat stream
+ * await closeRecording(recording);
+ * ```
+ *
+ * `LLM_REPLAY_MODE=record` re-records the fixtures against the real providers,
+ * otherwise they are replayed offline.
+ *
+ * @module replay/file
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { LLMRecording, ReplayError, setActiveRecording } from './recording';
+import type { ReplayFixture, ReplayMode } from './types';
+
+export interface OpenRecordingOptions {
+  /** Defaults to `LLM_REPLAY_MODE`, then `replay` */
+  mode?: ReplayMode;
+  lenient?: boolean;
+}
+
+export function getReplayModeFromEnv(): ReplayMode {
+  return process.env.LLM_REPLAY_MODE === 'record' ? 'record' : 'replay';
+}
+
+export async function loadFixture(path: string): Promise<ReplayFixture> {
+  let content: string;
+
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch {
+    throw new ReplayError(`Fixture ${path} not found, run with LLM_REPLAY_MODE=record to create it`);
+  }
+
+  const fixture = JSON.parse(content) as ReplayFixture;
+
+  if (fixture.version !== 1 || !Array.isArray(fixture.interactions)) {
+    throw new ReplayError(`Fixture ${path} has an unsupported format`);
+  }
+
+  return fixture;
+}
+
+export async function saveFixture(path: string, recording: LLMRecording): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(recording.toJSON(), null, 2) + '\n');
+}
+
+const recordingPaths = new WeakMap<LLMRecording, string>();
+
+/**
+ * Create a recording for the fixture file and make it the active one
+ */
+export async function openRecording(path: string, options: OpenRecordingOptions = {}): Promise<LLMRecording> {
+  const mode = options.mode ?? getReplayModeFromEnv();
+  const fixture = mode === 'replay' ? await loadFixture(path) : undefined;
+  const recording = new LLMRecording({ mode, fixture, lenient: options.lenient });
+
+  recordingPaths.set(recording, path);
+  setActiveRecording(recording);
+
+  return recording;
+}
+
+/**
+ * Deactivate the recording and write the fixture in record mode
+ */
+export async function closeRecording(recording: LLMRecording): Promise<void> {
+  setActiveRecording(null);
+
+  const path = recordingPaths.get(recording);
+
+  if (recording.mode === 'record' && path) {
+    await saveFixture(path, recording);
+  }
+}
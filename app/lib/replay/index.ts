@@ -0,0 +1,22 @@
+/**
+ * LLM record/replay
+ *
+ * Records the requests and responses of the LLM providers (agents and
+ * `/api/chat`) to fixture files and serves them back offline, for
+ * deterministic agent tests. File access lives in `~/lib/replay/file`
+ * to keep `node:fs` out of the browser bundle.
+ *
+ * @module replay
+ */
+
+export {
+  LLMRecording,
+  ReplayError,
+  createRequestKey,
+  stableStringify,
+  getActiveRecording,
+  setActiveRecording,
+} from './recording';
+export { createReplayMiddleware } from './middleware';
+
+export type { ReplayMode, InteractionKind, RecordedInteraction, ReplayFixture, LLMRecordingOptions } from './types';
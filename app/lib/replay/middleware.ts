@@ -0,0 +1,107 @@
+/**
+ * AI SDK middleware recording or replaying the calls of a language model.
+ *
+ * Wraps the model used by `streamText`, so `/api/chat` streams can be recorded
+ * part by part (text deltas, tool calls, finish) and replayed offline.
+ *
+ * @module replay/middleware
+ */
+
+import { simulateReadableStream, type LanguageModelMiddleware } from 'ai';
+import type { LLMRecording } from './recording';
+
+type WrapStreamOptions = Parameters<NonNullable<LanguageModelMiddleware['wrapStream']>>[0];
+type StreamResult = Awaited<ReturnType<WrapStreamOptions['doStream']>>;
+type StreamPart = StreamResult['stream'] extends ReadableStream<infer Part> ? Part : never;
+type GenerateResult = Awaited<ReturnType<WrapStreamOptions['doGenerate']>>;
+
+/**
+ * The part of the call options that decides the answer
+ * (the abort signal and headers change on every call)
+ */
+function getRequest({ params, model }: Pick<WrapStreamOptions, 'params' | 'model'>) {
+  return {
+    model: `${model.provider}:${model.modelId}`,
+    prompt: params.prompt,
+    tools: params.tools,
+    toolChoice: params.toolChoice,
+    maxOutputTokens: params.maxOutputTokens,
+    temperature: params.temperature,
+    responseFormat: params.responseFormat,
+  };
+}
+
+/**
+ * Dates do not survive JSON, response metadata needs them back
+ */
+function reviveTimestamp<T>(value: T): T {
+  const item = value as { timestamp?: unknown; response?: { timestamp?: unknown } };
+
+  if (typeof item?.timestamp === 'string') {
+    return { ...value, timestamp: new Date(item.timestamp) };
+  }
+
+  if (typeof item?.response?.timestamp === 'string') {
+    return { ...value, response: { ...item.response, timestamp: new Date(item.response.timestamp) } };
+  }
+
+  return value;
+}
+
+function toJSON<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+export function createReplayMiddleware(recording: LLMRecording, source: string): LanguageModelMiddleware {
+  return {
+    specificationVersion: 'v3',
+
+    async wrapGenerate({ doGenerate, params, model }) {
+      const request = getRequest({ params, model });
+
+      if (recording.mode === 'replay') {
+        return reviveTimestamp(recording.take('generate', source, request).response as GenerateResult);
+      }
+
+      const result = await doGenerate();
+
+      recording.record({ kind: 'generate', source, request, response: toJSON({ ...result, request: undefined }) });
+
+      return result;
+    },
+
+    async wrapStream({ doStream, params, model }) {
+      const request = getRequest({ params, model });
+
+      if (recording.mode === 'replay') {
+        const chunks = (recording.take('stream', source, request).chunks ?? []) as StreamPart[];
+
+        return {
+          stream: simulateReadableStream({
+            chunks: chunks.map(reviveTimestamp),
+            initialDelayInMs: null,
+            chunkDelayInMs: null,
+          }),
+        };
+      }
+
+      const result = await doStream();
+      const chunks: StreamPart[] = [];
+
+      const stream = result.stream.pipeThrough(
+        new TransformStream<StreamPart, StreamPart>({
+          transform(chunk, controller) {
+            chunks.push(chunk);
+            controller.enqueue(chunk);
+          },
+          flush() {
+            // only complete streams are kept, an aborted call is not a valid answer
+            recording.record({ kind: 'stream', source, request, chunks: toJSON(chunks) });
+          },
+        }),
+      );
+
+      return { ...result, stream };
+    },
+  };
+}
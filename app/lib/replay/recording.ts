@@ -0,0 +1,198 @@
+/**
+ * Record and replay of LLM exchanges.
+ *
+ * In record mode every request goes to the provider and the exchange is kept;
+ * in replay mode requests are answered from the recorded fixture, matched on a
+ * hash of the normalized request. The active recording is process-wide so the
+ * agents' `LLMClient` and the `/api/chat` stream pick it up without plumbing.
+ *
+ * @module replay/recording
+ */
+
+import { createTwoFilesPatch } from 'diff';
+import { createScopedLogger } from '~/utils/logger';
+import type { InteractionKind, LLMRecordingOptions, RecordedInteraction, ReplayFixture, ReplayMode } from './types';
+
+const logger = createScopedLogger('LLMReplay');
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+/*
+ * =============================================================================
+ * REQUEST KEYS
+ * =============================================================================
+ */
+
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined && typeof item !== 'function')
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+    return Object.fromEntries(entries.map(([name, item]) => [name, normalize(item)]));
+  }
+
+  return value;
+}
+
+/**
+ * JSON with sorted keys, so equal requests give equal strings
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(normalize(value)) ?? 'undefined';
+}
+
+/**
+ * FNV-1a hash of the normalized request
+ */
+export function createRequestKey(request: unknown): string {
+  const text = stableStringify(request);
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return `${(hash >>> 0).toString(16).padStart(8, '0')}-${text.length.toString(16)}`;
+}
+
+/**
+ * Diff of a request against the recorded one it was expected to match
+ */
+function diffRequests(recorded: unknown, request: unknown): string {
+  const format = (value: unknown) => JSON.stringify(normalize(value), null, 2) + '\n';
+
+  return createTwoFilesPatch('recorded', 'request', format(recorded), format(request));
+}
+
+/*
+ * =============================================================================
+ * RECORDING
+ * =============================================================================
+ */
+
+export class LLMRecording {
+  readonly mode: ReplayMode;
+  private _lenient: boolean;
+  private _interactions: RecordedInteraction[];
+  private _used = new Set<RecordedInteraction>();
+
+  constructor(options: LLMRecordingOptions) {
+    this.mode = options.mode;
+    this._lenient = options.lenient ?? false;
+
+    // a new recording starts from scratch
+    this._interactions = options.mode === 'replay' ? [...(options.fixture?.interactions ?? [])] : [];
+  }
+
+  get interactions(): readonly RecordedInteraction[] {
+    return this._interactions;
+  }
+
+  /**
+   * Recorded interactions not served yet
+   */
+  get pending(): readonly RecordedInteraction[] {
+    return this._interactions.filter((interaction) => !this._used.has(interaction));
+  }
+
+  /**
+   * Keep an exchange (record mode only)
+   */
+  record(interaction: Omit<RecordedInteraction, 'key'>): void {
+    if (this.mode !== 'record') {
+      throw new ReplayError('Cannot record in replay mode');
+    }
+
+    this._interactions.push({
+      ...interaction,
+      key: createRequestKey(interaction.request),
+      request: normalize(interaction.request),
+    });
+  }
+
+  /**
+   * Find the recorded answer to a request (replay mode only)
+   */
+  take(kind: InteractionKind, source: string, request: unknown): RecordedInteraction {
+    if (this.mode !== 'replay') {
+      throw new ReplayError('Cannot replay in record mode');
+    }
+
+    const key = createRequestKey(request);
+    const candidates = this.pending.filter((interaction) => interaction.kind === kind && interaction.source === source);
+    let interaction = candidates.find((candidate) => candidate.key === key);
+
+    if (!interaction && this._lenient && candidates.length > 0) {
+      interaction = candidates[0];
+      logger.warn(`Request of ${source} changed since it was recorded, replaying the next ${kind} interaction`);
+    }
+
+    if (!interaction && candidates.length > 0) {
+      throw new ReplayError(
+        `Request of ${source} changed since it was recorded, re-record with LLM_REPLAY_MODE=record if expected:\n` +
+          diffRequests(candidates[0].request, request),
+      );
+    }
+
+    if (!interaction) {
+      throw new ReplayError(`No recorded ${kind} interaction of ${source} for request ${key}`);
+    }
+
+    this._used.add(interaction);
+
+    return interaction;
+  }
+
+  /**
+   * Answer a request from the recording, or send it and record the answer
+   */
+  async run<T>(kind: InteractionKind, source: string, request: unknown, send: () => Promise<T>): Promise<T> {
+    if (this.mode === 'replay') {
+      return this.take(kind, source, request).response as T;
+    }
+
+    const response = await send();
+
+    this.record({ kind, source, request, response: JSON.parse(JSON.stringify(response)) });
+
+    return response;
+  }
+
+  toJSON(): ReplayFixture {
+    return { version: 1, interactions: this._interactions };
+  }
+}
+
+/*
+ * =============================================================================
+ * ACTIVE RECORDING
+ * =============================================================================
+ */
+
+let activeRecording: LLMRecording | null = null;
+
+/**
+ * Recording used by every LLM call of the process, null to call providers directly
+ */
+export function setActiveRecording(recording: LLMRecording | null): void {
+  activeRecording = recording;
+}
+
+export function getActiveRecording(): LLMRecording | null {
+  return activeRecording;
+}
@@ -0,0 +1,61 @@
+/**
+ * Types for recorded LLM sessions.
+ *
+ * @module replay/types
+ */
+
+/**
+ * `record` calls the provider and keeps every exchange,
+ * `replay` serves the recorded exchanges without network.
+ */
+export type ReplayMode = 'record' | 'replay';
+
+/**
+ * `message` is a non-streamed Anthropic call (agents' `LLMClient`),
+ * `generate` and `stream` are AI SDK model calls (`/api/chat`).
+ */
+export type InteractionKind = 'message' | 'generate' | 'stream';
+
+/**
+ * One request and what the provider answered
+ */
+export interface RecordedInteraction {
+  kind: InteractionKind;
+
+  /** Who made the call (agent name, `chat`) */
+  source: string;
+
+  /** Hash of the normalized request */
+  key: string;
+
+  /** Normalized request, kept to debug replay misses */
+  request: unknown;
+
+  /** Full response of `message` and `generate` calls */
+  response?: unknown;
+
+  /** Stream parts of `stream` calls, in order */
+  chunks?: unknown[];
+}
+
+/**
+ * Content of a fixture file
+ */
+export interface ReplayFixture {
+  version: 1;
+  interactions: RecordedInteraction[];
+}
+
+export interface LLMRecordingOptions {
+  mode: ReplayMode;
+
+  /** Interactions to replay */
+  fixture?: ReplayFixture;
+
+  /**
+   * Answer a request that differs from the recording with the next unused
+   * interaction of the same kind and source. By default a changed request
+   * fails with a diff against the recorded one.
+   */
+  lenient?: boolean;
+}
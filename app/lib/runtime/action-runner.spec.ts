@@ -54,16 +54,22 @@ vi.mock('~/utils/logger', () => ({
 // mock MountManager (BAVINI filesystem)
 const mockMkdir = vi.fn().mockResolvedValue(undefined);
 const mockWriteFile = vi.fn().mockResolvedValue(undefined);
+const mockReadTextFile = vi.fn().mockResolvedValue('');
 
 vi.mock('~/lib/runtime/filesystem', () => ({
   getSharedMountManager: vi.fn(() => ({
     mkdir: mockMkdir,
     writeFile: mockWriteFile,
     readFile: vi.fn().mockResolvedValue(''),
+    readTextFile: mockReadTextFile,
     exists: vi.fn().mockResolvedValue(true),
   })),
 }));
 
+vi.mock('~/lib/persistence/useChatHistory', () => ({
+  chatId: { get: vi.fn(() => 'chat-42') },
+}));
+
 const ACTION_ID = 'action_1';
 const ARTIFACT_ID = 'artifact_1';
 const MESSAGE_ID = 'msg_1';
@@ -175,6 +181,54 @@ describe('ActionRunner', () => {
     });
   });
 
+  describe('runAction - patch actions', () => {
+    const runPatch = async (content: string) => {
+      const actionRunnerModule = await import('./action-runner');
+      const runner = new actionRunnerModule.ActionRunner();
+
+      const actionData = {
+        actionId: ACTION_ID,
+        artifactId: ARTIFACT_ID,
+        messageId: MESSAGE_ID,
+        action: { type: 'patch' as const, filePath: 'src/config.ts', content },
+      };
+
+      runner.addAction(actionData);
+      await runner.runAction(actionData);
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      return runner.actions.get()[ACTION_ID];
+    };
+
+    it('should apply the patch to the current file content', async () => {
+      mockReadTextFile.mockResolvedValueOnce('export const port = 3000;\nexport const host = "localhost";\n');
+
+      const action = await runPatch(
+        '<<<<<<< SEARCH\nexport const port = 3000;\n=======\nexport const port = 8080;\n>>>>>>> REPLACE',
+      );
+
+      expect(action.status).toBe('complete');
+      expect(mockReadTextFile).toHaveBeenCalledWith('src/config.ts');
+      expect(mockWriteFile).toHaveBeenCalledWith(
+        'src/config.ts',
+        new TextEncoder().encode('export const port = 8080;\nexport const host = "localhost";\n'),
+      );
+    });
+
+    it('should fail without writing when a block does not apply', async () => {
+      mockReadTextFile.mockResolvedValueOnce('export const port = 3000;\n');
+
+      const action = await runPatch(
+        '<<<<<<< SEARCH\nexport const port = 4000;\n=======\nexport const port = 8080;\n>>>>>>> REPLACE',
+      );
+
+      expect(action.status).toBe('failed');
+      expect(action.status === 'failed' && action.error).toContain('bloc 1');
+      expect(mockWriteFile).not.toHaveBeenCalled();
+    });
+  });
+
   describe('runAction - shell actions', () => {
     it('should execute a shell action', async () => {
       const actionRunnerModule = await import('./action-runner');
@@ -287,6 +341,7 @@ describe('ActionRunner', () => {
       expect(gitOps.commit).toHaveBeenCalledWith({
         dir: '/home/project',
         message: 'Test commit message',
+        chatId: 'chat-42',
       });
     });
 
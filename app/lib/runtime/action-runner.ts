@@ -2,7 +2,7 @@
  * =============================================================================
  * BAVINI Action Runner
  * =============================================================================
- * Handles execution of actions (file, shell, git, python, github).
+ * Handles execution of actions (file, patch, shell, git, python, github).
  *
  * NOTE: This module is being migrated from WebContainer to BAVINI native runtime.
  * Some features (like optimized install) are temporarily disabled.
@@ -22,6 +22,7 @@ import type { ActionCallbackData } from './message-parser';
 import { raceWithTimeout, EXECUTION_LIMITS } from '~/lib/security/timeout';
 import { AgentExecutionError, PythonExecutionError, ExecutionError, TimeoutError, toAppError } from '~/lib/errors';
 import { getSharedMountManager } from '~/lib/runtime/filesystem';
+import { applyPatch } from './patch';
 
 // Install phase type (simplified from removed optimized-installer)
 type InstallPhase = 'checking' | 'installing' | 'restoring' | 'complete';
@@ -337,6 +338,10 @@ export class ActionRunner {
           await this.#runFileAction(action);
           break;
         }
+        case 'patch': {
+          await this.#runPatchAction(action);
+          break;
+        }
         case 'git': {
           await this.#runGitAction(action);
           break;
@@ -769,6 +774,39 @@ export class ActionRunner {
     }
   }
 
+  async #runPatchAction(action: ActionState) {
+    if (action.type !== 'patch') {
+      unreachable('Expected patch action');
+    }
+
+    const pathValidation = validateFilePath(action.filePath);
+
+    if (!pathValidation.valid) {
+      logger.error(`Chemin de fichier rejeté: ${action.filePath} - ${pathValidation.reason}`);
+      throw new ExecutionError(`Chemin de fichier non autorisé: ${pathValidation.reason}`);
+    }
+
+    const fs = getSharedMountManager();
+    let content: string;
+
+    try {
+      content = await fs.readTextFile(action.filePath);
+    } catch {
+      throw new Error(`Impossible de patcher ${action.filePath} : le fichier n'existe pas, utilise une action file`);
+    }
+
+    // Every block applies or the file is left untouched (PatchError says which one failed)
+    const patched = applyPatch(content, action.content);
+
+    try {
+      await fs.writeFile(action.filePath, new TextEncoder().encode(patched));
+      logger.debug(`File patched ${action.filePath}`);
+    } catch (error) {
+      logger.error(`Échec de l'écriture du fichier ${action.filePath}:`, error);
+      throw new Error(`Impossible d'écrire le fichier: ${action.filePath}`);
+    }
+  }
+
   async #runGitAction(action: ActionState) {
     if (action.type !== 'git') {
       unreachable('Expected git action');
@@ -820,7 +858,11 @@ export class ActionRunner {
         }
         case 'commit': {
           const message = gitAction.message || 'Commit via BAVINI';
-          await gitOps.commit({ dir, message });
+
+          // loaded on use, the chat history module brings the workbench with it
+          const { chatId } = await import('~/lib/persistence/useChatHistory');
+
+          await gitOps.commit({ dir, message, chatId: chatId.get() });
           logger.debug(`Committed with message: ${message}`);
           break;
         }
@@ -56,6 +56,9 @@ import {
   type SSRBridgeConfig,
 } from '../quickjs/ssr-bridge';
 import { withTimeout, TIMEOUTS, TimeoutError } from '../utils/timeout';
+import { SourceMapConsumer, extractInlineSourceMap } from '../dev-server/source-map';
+import { createRuntimeError } from '../dev-server/stack-trace';
+import type { HMRError } from '../dev-server/types';
 // FIX 3.1: Import HMR manager
 import { HMRManager, createHMRManager, classifyChange } from './hmr-manager';
 // Phase 1.1: Import Build Worker Manager for off-thread compilation
@@ -99,8 +102,11 @@ import {
   type PreviewResult,
   type ServiceWorkerFunctions,
   createPreviewWithMode as modularCreatePreview,
+  createPreviewWithAssets,
   // Plugins (Phase 3.2)
   type PluginContext,
+  type PackageSource,
+  PackageResolver,
   createVirtualFsPlugin,
   createEsmShPlugin,
   // Bootstrap (Phase 3.3)
@@ -122,7 +128,14 @@ import {
   buildVanillaProject as modularBuildVanillaProject,
   // Bundle Limits (Phase 1.2 Refactoring)
   checkBundleSizeLimits,
+  checkChunkSizeLimits,
   logBundleSize,
+
+  // Bundle Analysis
+  PREVIEW_ENTRY_ASSET,
+  collectBundleOutputs,
+  analyzeBundle,
+  toPreviewAsset,
 } from './browser-build';
 
 const logger = createScopedLogger('BrowserBuildAdapter');
@@ -235,6 +248,20 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
   private _lastChangeAnalysis: ChangeAnalysis | null = null;
   private _incrementalEnabled = true;
 
+  /**
+   * Installed packages (node_modules) resolved before the CDN
+   * A new resolver per build, its reads are cached for that build only
+   */
+  private _packageSource: PackageSource | null = null;
+  private _packageResolver: PackageResolver | null = null;
+
+  /**
+   * Scripts shown in the preview (entry and chunks) by preview path,
+   * their inline source map is read on the first runtime error they are part of
+   */
+  private _previewScripts = new Map<string, string>();
+  private _previewSourceMaps = new Map<string, SourceMapConsumer | null>();
+
   get status(): RuntimeStatus {
     return this._status;
   }
@@ -266,6 +293,14 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
     }
   }
 
+  /**
+   * Resolve bare imports against the packages installed in this source,
+   * null to fetch every package from the CDN
+   */
+  setPackageSource(source: PackageSource | null): void {
+    this._packageSource = source;
+  }
+
   /**
    * Phase 1.3: Check if incremental builds are enabled
    */
@@ -732,7 +767,10 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
         format: 'esm',
         target: 'es2020',
         minify: options.minify ?? options.mode === 'production',
-        sourcemap: options.sourcemap ? 'inline' : false,
+        sourcemap: (options.sourcemap ?? options.mode === 'development') ? 'inline' : false,
+        splitting: options.splitting,
+        chunkNames: 'chunks/[name]-[hash]',
+        metafile: true,
         define: {
           'process.env.NODE_ENV': `"${options.mode}"`,
           ...options.define,
@@ -740,7 +778,7 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
         jsx: jsxConfig.jsx,
         jsxImportSource: jsxConfig.jsxImportSource,
         // virtual-fs first to handle local files and path aliases (@/) before esm-sh
-        // esm-sh will handle remaining bare imports (npm packages)
+        // esm-sh will handle bare imports of packages missing from node_modules
         // Phase 1.2: Use modular plugins with centralized context
         plugins: [
           createVirtualFsPlugin(this.getPluginContext()),
@@ -780,6 +818,8 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
     // Clear CSS aggregator for fresh build
     this._cssAggregator.clear();
 
+    this._packageResolver = this._packageSource ? new PackageResolver(this._packageSource) : null;
+
     try {
       // Detect framework from project files
       this._detectedFramework = detectFramework(this._files);
@@ -826,6 +866,17 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
       // Get JSX configuration for the detected framework
       const jsxConfig = getJsxConfig(this._detectedFramework);
 
+      // Dynamic imports become chunks only when the Service Worker can serve them to the preview
+      const buildOptions: BuildOptions = {
+        ...options,
+        splitting:
+          options.splitting ??
+          (options.mode === 'development' &&
+            options.preview !== false &&
+            shouldAttemptServiceWorker() &&
+            isModularServiceWorkerReady()),
+      };
+
       // FIX: Bug #2 - Yield to event loop before heavy esbuild operation
       // This allows the browser to process pending input events
       await yieldToEventLoop();
@@ -833,14 +884,17 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
       // Phase 1.1: Try worker build first, fall back to main thread
       let result: esbuild.BuildResult;
 
-      if (this._workerInitialized && this._buildWorkerManager?.isReady()) {
+      // The build worker only sees the project files, installed packages are bundled on the main thread
+      const hasInstalledPackages = (await this._packageResolver?.hasInstalledPackages()) ?? false;
+
+      if (this._workerInitialized && this._buildWorkerManager?.isReady() && !hasInstalledPackages) {
         try {
           logger.debug('Using Build Worker for off-thread compilation');
           const workerResult = await this._buildWorkerManager.build(
             this._files,
             bootstrapEntry,
             entryDir,
-            options,
+            buildOptions,
             jsxConfig
           );
 
@@ -850,6 +904,12 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
             outputFiles: [
               { path: '/dist/stdin.js', text: workerResult.code, contents: new Uint8Array(), hash: '' },
               ...(workerResult.css ? [{ path: '/dist/stdin.css', text: workerResult.css, contents: new Uint8Array(), hash: '' }] : []),
+              ...Object.entries(workerResult.chunks ?? {}).map(([path, text]) => ({
+                path: `/dist/${path}`,
+                text,
+                contents: new Uint8Array(),
+                hash: '',
+              })),
             ],
             errors: workerResult.errors.map((e) => ({
               text: e.message,
@@ -887,7 +947,7 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
               pluginName: '',
               detail: undefined,
             })),
-            metafile: undefined,
+            metafile: workerResult.metafile,
             mangleCache: undefined,
           };
 
@@ -895,12 +955,12 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
         } catch (workerError) {
           logger.warn('Worker build failed, falling back to main thread:', workerError);
           // Fall through to main thread build
-          result = await this.buildOnMainThread(bootstrapEntry, entryDir, options, jsxConfig);
+          result = await this.buildOnMainThread(bootstrapEntry, entryDir, buildOptions, jsxConfig);
         }
       } else {
         // Build with esbuild on main thread
         // FIX 2.1: Added timeout to prevent infinite hangs
-        result = await this.buildOnMainThread(bootstrapEntry, entryDir, options, jsxConfig);
+        result = await this.buildOnMainThread(bootstrapEntry, entryDir, buildOptions, jsxConfig);
       }
 
       this.emitBuildProgress('bundling', 80);
@@ -908,16 +968,15 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
       // Debug: log all output files
       logger.debug('esbuild outputFiles:', result.outputFiles?.map((f) => ({ path: f.path, size: f.text.length })));
 
-      // Extract outputs - esbuild may use different extensions or paths
-      const jsOutput = result.outputFiles?.find((f) => f.path.endsWith('.js') || f.path.includes('stdin'));
-      const cssOutput = result.outputFiles?.find((f) => f.path.endsWith('.css'));
-
-      const code = jsOutput?.text || '';
+      // Extract outputs: the entry script, its CSS and the chunks of its dynamic imports
+      const outputs = collectBundleOutputs(result.outputFiles);
+      const { code, chunks } = outputs;
+      const analysis = result.metafile ? analyzeBundle(result.metafile, outputs) : undefined;
 
       // Aggregate CSS from the aggregator (Tailwind, Vue, Svelte, Astro components)
       // and combine with any direct CSS output from esbuild
       const aggregatedCss = this._cssAggregator.aggregate();
-      const esbuildCss = cssOutput?.text || '';
+      const esbuildCss = outputs.css;
       let css = aggregatedCss + (esbuildCss ? `\n\n/* esbuild output */\n${esbuildCss}` : '');
 
       // For Next.js projects, extract and inject Google Fonts CSS
@@ -935,7 +994,7 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
       logger.info(`CSS Aggregation: ${this._cssAggregator.size} sources, ${aggregatedCss.length} chars`);
 
       // Phase 1.2: Use modular bundle limits checking
-      const bundleCheck = checkBundleSizeLimits(code, css);
+      const bundleCheck = checkBundleSizeLimits(code, css, Object.values(chunks));
       logBundleSize(bundleCheck.jsKB, bundleCheck.cssKB, bundleCheck.totalKB);
 
       // Convert esbuild errors/warnings and merge with bundle size checks
@@ -953,6 +1012,7 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
       // Merge bundle warnings with esbuild warnings
       const warnings: BuildWarning[] = [
         ...bundleCheck.warnings,
+        ...(buildOptions.splitting && analysis ? checkChunkSizeLimits(analysis) : []),
         ...result.warnings.map((w) => ({
           message: w.text,
           file: w.location?.file,
@@ -969,9 +1029,16 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
       // Create preview
       logger.debug(`Build result: code=${code.length} chars, errors=${errors.length}`);
 
-      if (code && errors.length === 0) {
+      if (options.preview === false) {
+        logger.debug('Preview left as it is');
+      } else if (code && errors.length === 0) {
         logger.debug('Creating preview...');
-        await this.createPreview(code, css, options);
+
+        if (!(await this.createPreview(code, css, options, chunks))) {
+          logger.warn('Chunks cannot be served to the preview, rebuilding as a single bundle');
+          return this.build({ ...options, splitting: false });
+        }
+
         logger.debug('Preview created');
       } else {
         logger.warn(`Skipping preview: code empty=${!code}, errors=${errors.length}`);
@@ -982,8 +1049,8 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
       this._status = 'ready';
       this.emitStatusChange('ready');
 
-      // Phase 1.3: Cache the successful build and update metrics
-      if (this._incrementalEnabled && code) {
+      // Phase 1.3: Cache the successful build and update metrics, builds without preview (exports) stay out of it
+      if (this._incrementalEnabled && code && options.preview !== false) {
         const wasFullRebuild = changeAnalysis?.requiresFullRebuild ?? true;
         const cachedCount = changeAnalysis?.skippable.length ?? 0;
         const rebuiltCount = this._files.size - cachedCount;
@@ -1013,6 +1080,8 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
         warnings,
         buildTime: performance.now() - startTime,
         hash,
+        chunks: Object.keys(chunks).length > 0 ? chunks : undefined,
+        analysis,
       };
     } catch (error) {
       // Reset to ready instead of staying in error - allows retries when more files are written
@@ -1074,6 +1143,36 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
     return this._preview;
   }
 
+  /**
+   * Runtime error of the preview with its stack trace at the original locations
+   * of the project files, from the inline source maps of the previewed scripts
+   */
+  remapRuntimeError(message: string, stack: string = ''): HMRError {
+    return createRuntimeError(message, stack, (file) => this._getPreviewSourceMap(file));
+  }
+
+  /**
+   * Source map of the preview script a stack frame belongs to
+   */
+  private _getPreviewSourceMap(file: string): SourceMapConsumer | null {
+    // A single bundle is imported from a blob URL by the preview loader
+    const path = file.startsWith('blob:')
+      ? PREVIEW_ENTRY_ASSET
+      : [...this._previewScripts.keys()].find((script) => file.endsWith(`/${script}`));
+
+    if (!path) {
+      return null;
+    }
+
+    if (!this._previewSourceMaps.has(path)) {
+      const sourceMap = extractInlineSourceMap(this._previewScripts.get(path) ?? '');
+
+      this._previewSourceMaps.set(path, sourceMap ? new SourceMapConsumer(sourceMap) : null);
+    }
+
+    return this._previewSourceMaps.get(path) ?? null;
+  }
+
   /**
    * Refresh preview
    */
@@ -1165,6 +1264,7 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
       resolveRelativePath: (base: string, relative: string) => this.resolveRelativePath(base, relative),
       getLoader: (path: string) => this.getLoader(path),
       nextjsShims: NEXTJS_SHIMS,
+      packages: this._packageResolver ?? undefined,
       moduleCache: moduleCache,
       logger: {
         debug: (...args: unknown[]) => logger.debug(...args),
@@ -1317,8 +1417,15 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
   /**
    * Create preview using Service Worker (preferred) or srcdoc (fallback)
    * Phase 1.2: Uses modular preview creator with adapter-specific state management
+   *
+   * @returns false when the bundle has chunks the Service Worker cannot serve
    */
-  private async createPreview(code: string, css: string, options: BuildOptions): Promise<void> {
+  private async createPreview(
+    code: string,
+    css: string,
+    options: BuildOptions,
+    chunks: Record<string, string> = {},
+  ): Promise<boolean> {
     try {
       // Find HTML template
       let htmlTemplate = this._files.get('/index.html') || this._files.get('/public/index.html');
@@ -1336,8 +1443,23 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
         ssrContent = await this.trySSRRender(options);
       }
 
+      // A split bundle is served as scripts, its entry imports the chunks next to it
+      const scripts = new Map([[PREVIEW_ENTRY_ASSET, code]]);
+
+      for (const [path, chunk] of Object.entries(chunks)) {
+        scripts.set(toPreviewAsset(path), chunk);
+      }
+
+      const isSplit = scripts.size > 1;
+
       // Inject bundle into HTML (with SSR content if available)
-      const html = this.injectBundleWithSSR(htmlTemplate, code, css, ssrContent);
+      const html = this.injectBundleWithSSR(
+        htmlTemplate,
+        code,
+        css,
+        ssrContent,
+        isSplit ? `./${PREVIEW_ENTRY_ASSET}` : undefined,
+      );
 
       // Phase 1.2: Use modular preview creator with SW functions
       const swFunctions: ServiceWorkerFunctions = {
@@ -1354,15 +1476,26 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
       };
 
       // Use modular preview creator
-      const result = await modularCreatePreview(html, swFunctions, revokeOldBlobUrl);
+      const result = isSplit
+        ? await createPreviewWithAssets(html, Object.fromEntries(scripts), swFunctions)
+        : await modularCreatePreview(html, swFunctions, revokeOldBlobUrl);
+
+      if (!result) {
+        return false;
+      }
 
       // Update adapter state and emit event
       if (result.mode === 'service-worker') {
         resetServiceWorkerFailures();
       }
 
+      this._previewScripts = scripts;
+      this._previewSourceMaps.clear();
+
       this._preview = result.preview;
       this.emitPreviewReady(this._preview);
+
+      return true;
     } catch (error) {
       logger.error('Failed to create preview:', error);
       throw error;
@@ -1432,6 +1565,7 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
     code: string,
     css: string,
     ssrContent: SSRContent | null,
+    entryUrl?: string,
   ): string {
     // Get bundle injection options
     const customTheme = this.extractTailwindCustomColors();
@@ -1444,6 +1578,7 @@ export class BrowserBuildAdapter extends BaseRuntimeAdapter {
       hasCustomColors,
       hmrClientScript,
       alwaysInjectTailwind: true,
+      entryUrl,
     };
 
     // Use modular bundle injector with SSR support
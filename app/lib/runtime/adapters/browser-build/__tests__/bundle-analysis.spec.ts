@@ -0,0 +1,100 @@
+/**
+ * =============================================================================
+ * BAVINI CLOUD - Bundle Analysis Tests
+ * =============================================================================
+ * Tests for the split bundle outputs, their analysis and the chunk size limits.
+ * =============================================================================
+ */
+
+import type { Metafile, OutputFile } from 'esbuild-wasm';
+import { describe, it, expect } from 'vitest';
+import { analyzeBundle, collectBundleOutputs } from '../utils/bundle-analysis';
+import { BUNDLE_LIMITS, checkChunkSizeLimits } from '../utils/bundle-limits';
+
+function outputFile(path: string, text: string): OutputFile {
+  return { path, text, contents: new Uint8Array(), hash: '' };
+}
+
+const OUTPUT_FILES = [
+  outputFile(
+    '/dist/stdin.js',
+    'import("./chunks/Page-X7K2.js");\n//# sourceMappingURL=data:application/json;base64,e30=',
+  ),
+  outputFile('/dist/stdin.css', 'body{margin:0}'),
+  outputFile('/dist/chunks/Page-X7K2.js', 'export default "page";'),
+  outputFile('/dist/chunks/Page-X7K2.css', '.page{color:red}'),
+];
+
+const METAFILE: Metafile = {
+  inputs: {},
+  outputs: {
+    'dist/stdin.js': {
+      bytes: 120,
+      inputs: { '__bootstrap__.tsx': { bytesInOutput: 30 } },
+      imports: [],
+      exports: [],
+      entryPoint: '__bootstrap__.tsx',
+    },
+    'dist/chunks/Page-X7K2.js': {
+      bytes: 80,
+      inputs: {
+        'virtual-fs:/src/Page.tsx': { bytesInOutput: 12 },
+        'esm-sh:https://esm.sh/chart.js': { bytesInOutput: 40 },
+        'virtual-fs:/src/types.ts': { bytesInOutput: 0 },
+      },
+      imports: [],
+      exports: ['default'],
+      entryPoint: 'virtual-fs:/src/Page.tsx',
+    },
+    'dist/stdin.css': { bytes: 14, inputs: {}, imports: [], exports: [] },
+  },
+};
+
+describe('collectBundleOutputs', () => {
+  it('should separate the entry script, its CSS and its chunks', () => {
+    const outputs = collectBundleOutputs(OUTPUT_FILES);
+
+    expect(outputs.code).toContain('./chunks/Page-X7K2.js');
+    expect(outputs.css).toBe('body{margin:0}\n.page{color:red}');
+    expect(outputs.chunks).toEqual({ 'chunks/Page-X7K2.js': 'export default "page";' });
+  });
+});
+
+describe('analyzeBundle', () => {
+  it('should measure the chunks and their modules at their preview path', () => {
+    const analysis = analyzeBundle(METAFILE, collectBundleOutputs(OUTPUT_FILES));
+
+    expect(analysis).toEqual([
+      {
+        path: 'assets/index.js',
+        isEntry: true,
+        bytes: 'import("./chunks/Page-X7K2.js");'.length,
+        modules: [{ path: '__bootstrap__.tsx', bytes: 30 }],
+      },
+      {
+        path: 'assets/chunks/Page-X7K2.js',
+        isEntry: false,
+        bytes: 'export default "page";'.length,
+        modules: [
+          { path: 'https://esm.sh/chart.js', bytes: 40 },
+          { path: '/src/Page.tsx', bytes: 12 },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('checkChunkSizeLimits', () => {
+  it('should warn about the chunks above the limit only', () => {
+    const limit = BUNDLE_LIMITS.CHUNK_WARNING_KB * 1024;
+
+    const warnings = checkChunkSizeLimits([
+      { path: 'assets/index.js', isEntry: true, bytes: limit, modules: [] },
+      { path: 'assets/chunks/Editor-A1B2.js', isEntry: false, bytes: limit + 1024, modules: [] },
+    ]);
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].file).toBe('assets/chunks/Editor-A1B2.js');
+    expect(warnings[0].message).toContain('dynamic import()');
+  });
+});
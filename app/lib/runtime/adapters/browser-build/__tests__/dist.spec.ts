@@ -0,0 +1,58 @@
+/**
+ * =============================================================================
+ * BAVINI CLOUD - Production Dist Tests
+ * =============================================================================
+ * Tests for the layout of the files of a production build.
+ * =============================================================================
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createDistFiles, createStaticDistFiles } from '../dist';
+
+describe('createDistFiles', () => {
+  it('should write hashed assets and reference them from index.html', () => {
+    const files = new Map([
+      [
+        '/index.html',
+        '<html><head><title>Demo</title></head><body><div id="root"></div><script type="module" src="/src/main.tsx"></script></body></html>',
+      ],
+      ['/src/main.tsx', 'console.log(1)'],
+    ]);
+
+    const dist = createDistFiles('console.log(1)', 'body{margin:0}', files);
+    const script = [...dist.keys()].find((path) => path.endsWith('.js'));
+    const style = [...dist.keys()].find((path) => path.endsWith('.css'));
+
+    expect(script).toMatch(/^assets\/index-[0-9a-f]{8}\.js$/);
+    expect(style).toMatch(/^assets\/index-[0-9a-f]{8}\.css$/);
+
+    const html = dist.get('index.html')!;
+
+    expect(html).toContain(`src="/${script}"`);
+    expect(html).toContain(`href="/${style}"`);
+    expect(html).not.toContain('/src/main.tsx');
+    expect(dist.has('src/main.tsx')).toBe(false);
+  });
+
+  it('should copy the public folder to the root', () => {
+    const files = new Map([['/public/favicon.svg', '<svg></svg>']]);
+
+    const dist = createDistFiles('', '', files);
+
+    expect(dist.get('favicon.svg')).toBe('<svg></svg>');
+    expect(dist.get('index.html')).toContain('<div id="root"></div>');
+  });
+});
+
+describe('createStaticDistFiles', () => {
+  it('should keep the project files but node_modules and .git', () => {
+    const files = new Map([
+      ['/index.html', '<html></html>'],
+      ['/css/style.css', 'body{}'],
+      ['/node_modules/lib/index.js', ''],
+      ['/.git/HEAD', ''],
+    ]);
+
+    expect([...createStaticDistFiles(files).keys()]).toEqual(['index.html', 'css/style.css']);
+  });
+});
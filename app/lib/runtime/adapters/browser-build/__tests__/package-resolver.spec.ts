@@ -0,0 +1,146 @@
+/**
+ * @vitest-environment node
+ */
+
+/**
+ * =============================================================================
+ * BAVINI CLOUD - Package Resolver Tests
+ * =============================================================================
+ * Bare imports resolved against installed node_modules, and bundled offline
+ * through the virtual-fs plugin.
+ * =============================================================================
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as esbuild from 'esbuild-wasm';
+import { PackageResolver, EMPTY_MODULE, resolveExports, type PackageSource } from '../plugins/package-resolver';
+import { createVirtualFsPlugin } from '../plugins/virtual-fs-plugin';
+import type { PluginContext } from '../plugins/types';
+
+function createSource(files: Record<string, string>): PackageSource {
+  return {
+    root: '/',
+    readFile: async (path) => files[path] ?? null,
+    exists: async (path) => Object.keys(files).some((file) => file.startsWith(`${path}/`)),
+  };
+}
+
+const pkg = (json: object) => JSON.stringify(json);
+
+describe('resolveExports', () => {
+  it('should pick the first matching condition in the order of the package', () => {
+    const exports = { '.': { node: './node.js', browser: './browser.js', default: './index.js' } };
+
+    expect(resolveExports(exports, '.')).toBe('./browser.js');
+  });
+
+  it('should resolve nested conditions, subpaths and patterns', () => {
+    const exports = {
+      '.': { import: { browser: './esm/browser.mjs', default: './esm/index.mjs' }, require: './cjs/index.js' },
+      './button': './dist/button.js',
+      './icons/*': './dist/icons/*.js',
+    };
+
+    expect(resolveExports(exports, '.')).toBe('./esm/browser.mjs');
+    expect(resolveExports(exports, './button')).toBe('./dist/button.js');
+    expect(resolveExports(exports, './icons/arrow')).toBe('./dist/icons/arrow.js');
+    expect(resolveExports(exports, './missing')).toBeNull();
+  });
+
+  it('should treat a string or condition map as the main export', () => {
+    expect(resolveExports('./main.js', '.')).toBe('./main.js');
+    expect(resolveExports({ require: './main.cjs' }, '.')).toBeNull();
+  });
+});
+
+describe('PackageResolver', () => {
+  it('should prefer the browser and module fields over main', async () => {
+    const resolver = new PackageResolver(
+      createSource({
+        '/node_modules/a/package.json': pkg({ main: 'main.js', module: 'module.js' }),
+        '/node_modules/a/main.js': '',
+        '/node_modules/a/module.js': '',
+        '/node_modules/b/package.json': pkg({ main: 'main.js', module: 'module.js', browser: 'browser.js' }),
+        '/node_modules/b/browser.js': '',
+      }),
+    );
+
+    expect(await resolver.resolve('a')).toBe('/node_modules/a/module.js');
+    expect(await resolver.resolve('b')).toBe('/node_modules/b/browser.js');
+    expect(await resolver.resolve('missing')).toBeNull();
+  });
+
+  it('should resolve nested dependencies and scoped subpaths', async () => {
+    const resolver = new PackageResolver(
+      createSource({
+        '/node_modules/dep/package.json': pkg({ version: '2.0.0' }),
+        '/node_modules/dep/index.js': '',
+        '/node_modules/app/node_modules/dep/package.json': pkg({ version: '1.0.0' }),
+        '/node_modules/app/node_modules/dep/index.js': '',
+        '/node_modules/@scope/ui/package.json': pkg({}),
+        '/node_modules/@scope/ui/lib/button/index.js': '',
+      }),
+    );
+
+    expect(await resolver.resolve('dep', '/node_modules/app/lib')).toBe('/node_modules/app/node_modules/dep/index.js');
+    expect(await resolver.resolve('dep')).toBe('/node_modules/dep/index.js');
+    expect(await resolver.resolve('@scope/ui/lib/button')).toBe('/node_modules/@scope/ui/lib/button/index.js');
+  });
+
+  it('should apply browser maps and follow workspace links', async () => {
+    const resolver = new PackageResolver(
+      createSource({
+        '/node_modules/c/package.json': pkg({ main: 'index.js', browser: { './node.js': './web.js', fs: false } }),
+        '/node_modules/c/index.js': '',
+        '/node_modules/c/node.js': '',
+        '/node_modules/c/web.js': '',
+        '/node_modules/@acme/ui/package.json': pkg({ name: '@acme/ui', _link: '../../../packages/ui' }),
+        '/packages/ui/package.json': pkg({ name: '@acme/ui', exports: { '.': './src/index.ts' } }),
+        '/packages/ui/src/index.ts': '',
+      }),
+    );
+
+    expect(await resolver.resolveRelative('./node', '/node_modules/c')).toBe('/node_modules/c/web.js');
+    expect(await resolver.resolve('fs', '/node_modules/c')).toBe(EMPTY_MODULE);
+    expect(await resolver.resolve('@acme/ui')).toBe('/packages/ui/src/index.ts');
+  });
+});
+
+describe('virtual-fs plugin with installed packages', () => {
+  it('should bundle installed ESM and CommonJS packages without the CDN', async () => {
+    const source = createSource({
+      '/node_modules/esm-pkg/package.json': pkg({ type: 'module', exports: { import: './index.mjs' } }),
+      '/node_modules/esm-pkg/index.mjs': "export { shout } from './shout.mjs';",
+      '/node_modules/esm-pkg/shout.mjs': 'export const shout = (text) => text.toUpperCase();',
+      '/node_modules/cjs-pkg/package.json': pkg({ main: 'lib/index.js' }),
+      '/node_modules/cjs-pkg/lib/index.js': "exports.greet = (name) => 'hello ' + name;",
+    });
+    const files = new Map([
+      [
+        '/src/main.ts',
+        "import { shout } from 'esm-pkg';\nimport cjs from 'cjs-pkg';\nexport default shout(cjs.greet('bavini'));",
+      ],
+    ]);
+    const context = {
+      files,
+      findFile: (path: string) => (files.has(path) ? path : null),
+      getLoader: () => 'ts',
+      packages: new PackageResolver(source),
+      nextjsShims: {},
+      logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    } as unknown as PluginContext;
+
+    const result = await esbuild.build({
+      entryPoints: ['/src/main.ts'],
+      bundle: true,
+      format: 'cjs',
+      write: false,
+      plugins: [createVirtualFsPlugin(context)],
+    });
+
+    const module = { exports: {} as { default?: string } };
+    new Function('module', 'exports', result.outputFiles[0].text)(module, module.exports);
+
+    expect(module.exports.default).toBe('HELLO BAVINI');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * =============================================================================
+ * BAVINI CLOUD - Production Dist
+ * =============================================================================
+ * Files of a production build, laid out like a Vite `dist` folder:
+ * index.html, hashed assets, and the public folder copied to the root.
+ * =============================================================================
+ */
+
+import { generateHash } from './utils/path-utils';
+import { generateTailwindCdnScript, injectProductionAssets } from './preview';
+
+/**
+ * HTML of the build when the project has none
+ */
+const DEFAULT_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>App</title>
+</head>
+<body>
+  <div id="root"></div>
+</body>
+</html>
+`;
+
+/**
+ * Folders of a project left out of a static build
+ */
+const STATIC_EXCLUDED_FOLDERS = ['node_modules', '.git'];
+
+/**
+ * Files of a bundled production build
+ *
+ * @param code - Minified JavaScript bundle
+ * @param css - CSS of the bundle
+ * @param files - Project files, by path from the project root
+ * @returns Build files, by path relative to the build root
+ */
+export function createDistFiles(code: string, css: string, files: Map<string, string>): Map<string, string> {
+  const dist = new Map<string, string>();
+
+  for (const [path, content] of files) {
+    if (path.startsWith('/public/') && path !== '/public/index.html') {
+      dist.set(path.substring('/public/'.length), content);
+    }
+  }
+
+  const script = `assets/index-${contentHash(code)}.js`;
+  const style = css ? `assets/index-${contentHash(css)}.css` : undefined;
+
+  dist.set(script, code);
+
+  if (style) {
+    dist.set(style, css);
+  }
+
+  const template = files.get('/index.html') ?? files.get('/public/index.html') ?? DEFAULT_HTML;
+  let html = injectProductionAssets(template, { script: `/${script}`, style: style && `/${style}` });
+
+  // Same fallback as the preview when Tailwind could not be compiled
+  if (css.includes('Tailwind compilation failed')) {
+    html = html.replace('</head>', `${generateTailwindCdnScript('', false)}\n</head>`);
+  }
+
+  dist.set('index.html', html);
+
+  return dist;
+}
+
+/**
+ * Files of a vanilla HTML project, served as they are
+ *
+ * @param files - Project files, by path from the project root
+ * @returns Build files, by path relative to the build root
+ */
+export function createStaticDistFiles(files: Map<string, string>): Map<string, string> {
+  const dist = new Map<string, string>();
+
+  for (const [path, content] of files) {
+    const relativePath = path.replace(/^\//, '');
+
+    if (!relativePath.split('/').some((segment) => STATIC_EXCLUDED_FOLDERS.includes(segment))) {
+      dist.set(relativePath, content);
+    }
+  }
+
+  return dist;
+}
+
+/**
+ * Eight hexadecimal characters of the content hash, for cache busting
+ */
+function contentHash(content: string): string {
+  return generateHash(content).padStart(8, '0').slice(0, 8);
+}
@@ -43,9 +43,19 @@ export {
   BUNDLE_LIMITS,
   type BundleSizeCheckResult,
   checkBundleSizeLimits,
+  checkChunkSizeLimits,
+  isChunkOversized,
   logBundleSize,
 } from './utils/bundle-limits';
 
+export {
+  PREVIEW_ENTRY_ASSET,
+  type BundleOutputs,
+  collectBundleOutputs,
+  analyzeBundle,
+  toPreviewAsset,
+} from './utils/bundle-analysis';
+
 // Preview (Phase 3.4)
 export {
   // Configuration
@@ -68,17 +78,21 @@ export {
   generateBaseStyles,
   generateTailwindCdnScript,
   generateKeyboardForwardingScript,
+  generateErrorReportingScript,
   // Bundle injection
   type SSRContent,
   type BundleInjectionOptions,
+  type ProductionAssets,
   injectBundle,
   injectBundleWithSSR,
+  injectProductionAssets,
   // Preview creation
   type PreviewResult,
   type ServiceWorkerFunctions,
   verifyServiceWorkerServing,
   createPreviewWithServiceWorker,
   createPreviewWithSrcdoc,
+  createPreviewWithAssets,
   createPreview as createPreviewWithMode,
 } from './preview';
 
@@ -90,6 +104,9 @@ export {
   type CompilerResult,
   type ContentFile,
   type ModuleCache,
+  type PackageSource,
+  PackageResolver,
+  EMPTY_MODULE,
   createVirtualFsPlugin,
   createEsmShPlugin,
   getCdnStats,
@@ -144,3 +161,6 @@ export {
   collectCssFiles,
   collectJsFiles,
 } from './vanilla-build';
+
+// Production Dist
+export { createDistFiles, createStaticDistFiles } from './dist';
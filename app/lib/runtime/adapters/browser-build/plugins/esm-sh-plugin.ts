@@ -2,7 +2,8 @@
  * =============================================================================
  * BAVINI CLOUD - ESM.sh Plugin (Optimized)
  * =============================================================================
- * esbuild plugin for resolving npm packages via esm.sh CDN.
+ * esbuild plugin for resolving npm packages via esm.sh CDN, for the packages
+ * missing from node_modules (installed ones are bundled by virtual-fs).
  *
  * Phase 0 Optimizations:
  * - Pending fetches deduplication (avoid duplicate concurrent requests)
@@ -263,7 +264,7 @@ export function createEsmShPlugin(context: PluginContext): esbuild.Plugin {
         }
 
         // Handle imports from virtual-fs files (like 'react' from App.tsx)
-        // This is the critical case - bare imports need to go to esm.sh
+        // that no installed package resolved
         const packageName = args.path;
 
         // Phase 1.3: Track npm dependency
@@ -15,6 +15,7 @@ export type {
 } from './types';
 
 export { createVirtualFsPlugin } from './virtual-fs-plugin';
+export { type PackageSource, PackageResolver, EMPTY_MODULE } from './package-resolver';
 export {
   type ModuleCache,
   createEsmShPlugin,
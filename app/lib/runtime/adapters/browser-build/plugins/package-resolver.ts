@@ -0,0 +1,384 @@
+/**
+ * =============================================================================
+ * BAVINI CLOUD - Package Resolver
+ * =============================================================================
+ * Resolves bare imports against the packages BaviniPM installed in
+ * node_modules, so the preview bundles the exact installed versions and
+ * builds without network.
+ *
+ * This resolver handles:
+ * - Nested node_modules (dependencies of dependencies)
+ * - Workspace links (package.json `_link`)
+ * - `exports` with the browser/import/module/default conditions
+ * - `browser` (string or replacement map), `module` and `main` fields
+ * - Extension and directory index resolution
+ *
+ * CommonJS files are bundled as they are, esbuild wraps them and handles the
+ * import/require interop.
+ * =============================================================================
+ */
+
+/**
+ * Files of the installed packages
+ */
+export interface PackageSource {
+  /** Directory holding node_modules */
+  root: string;
+
+  /** Read a file, null when it does not exist */
+  readFile(path: string): Promise<string | null>;
+
+  /** Whether a file or directory exists */
+  exists(path: string): Promise<boolean>;
+}
+
+/**
+ * Marker for modules replaced by `false` in a `browser` map
+ */
+export const EMPTY_MODULE = '\0empty';
+
+/**
+ * Export conditions, in order of preference, for a browser ESM bundle
+ */
+const CONDITIONS = ['browser', 'import', 'module', 'default'];
+
+/**
+ * Extensions tried for extensionless requests
+ */
+const EXTENSIONS = ['.js', '.mjs', '.cjs', '.jsx', '.ts', '.tsx', '.json'];
+
+interface PackageJson {
+  name?: string;
+  main?: string;
+  module?: string;
+  browser?: string | Record<string, string | false>;
+  exports?: unknown;
+  _link?: string;
+}
+
+interface InstalledPackage {
+  dir: string;
+  json: PackageJson;
+}
+
+/**
+ * Resolver over a package source, with the reads cached for one build
+ */
+export class PackageResolver {
+  private _source: PackageSource;
+  private _files = new Map<string, Promise<string | null>>();
+
+  constructor(source: PackageSource) {
+    this._source = source;
+  }
+
+  /**
+   * Whether any package is installed
+   */
+  async hasInstalledPackages(): Promise<boolean> {
+    return this._source.exists(joinPath(this._source.root, 'node_modules')).catch(() => false);
+  }
+
+  /**
+   * Resolve a bare import to a file path, EMPTY_MODULE or null when the package
+   * is not installed
+   *
+   * @param specifier - Bare import (e.g. 'react', '@scope/pkg/sub')
+   * @param importerDir - Directory of the importing file, inside node_modules or not
+   */
+  async resolve(specifier: string, importerDir?: string): Promise<string | null> {
+    const { name, subpath } = splitSpecifier(specifier);
+
+    // `"fs": false` in the browser map of the importing package
+    const owner = importerDir ? await this._findOwner(importerDir) : null;
+    const browser = owner?.json.browser;
+
+    if (browser && typeof browser === 'object' && browser[specifier] === false) {
+      return EMPTY_MODULE;
+    }
+
+    const pkg = await this._findPackage(name, importerDir);
+
+    if (!pkg) {
+      return null;
+    }
+
+    const resolved = await this._resolveInPackage(pkg, subpath);
+
+    return resolved === null ? null : this._applyBrowserMap(pkg, resolved);
+  }
+
+  /**
+   * Resolve a relative import from a file inside node_modules
+   */
+  async resolveRelative(request: string, importerDir: string): Promise<string | null> {
+    const target = joinPath(importerDir, request);
+    const resolved = (await this._resolveFile(target)) ?? (await this._resolveDirectory(target));
+
+    if (resolved === null) {
+      return null;
+    }
+
+    const pkg = await this._findOwner(importerDir);
+
+    return pkg ? this._applyBrowserMap(pkg, resolved) : resolved;
+  }
+
+  /**
+   * Read an installed file
+   */
+  readFile(path: string): Promise<string | null> {
+    let pending = this._files.get(path);
+
+    if (!pending) {
+      pending = this._source.readFile(path).catch(() => null);
+      this._files.set(path, pending);
+    }
+
+    return pending;
+  }
+
+  private async _findPackage(name: string, importerDir?: string): Promise<InstalledPackage | null> {
+    for (const dir of this._lookupDirs(importerDir)) {
+      let pkgDir = joinPath(dir, name);
+      let json = await this._readJson(joinPath(pkgDir, 'package.json'));
+
+      // Workspace packages are links to their own directory
+      if (json && typeof json._link === 'string') {
+        pkgDir = joinPath(pkgDir, json._link);
+        json = (await this._readJson(joinPath(pkgDir, 'package.json'))) ?? {};
+      }
+
+      if (json) {
+        return { dir: pkgDir, json };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * node_modules directories from the importer up to the root, like Node
+   */
+  private _lookupDirs(importerDir?: string): string[] {
+    const root = joinPath(this._source.root, '.');
+    const dirs: string[] = [];
+    let dir = importerDir && (importerDir + '/').startsWith(root === '/' ? '/' : root + '/') ? importerDir : root;
+
+    while (true) {
+      if (!dir.endsWith('/node_modules')) {
+        dirs.push(joinPath(dir, 'node_modules'));
+      }
+
+      if (dir === root || dir === '/') {
+        return dirs;
+      }
+
+      dir = dir.substring(0, dir.lastIndexOf('/')) || '/';
+    }
+  }
+
+  /**
+   * Package containing a file inside node_modules
+   */
+  private async _findOwner(dir: string): Promise<InstalledPackage | null> {
+    while (dir.includes('/node_modules/')) {
+      const json = await this._readJson(joinPath(dir, 'package.json'));
+
+      if (json) {
+        return { dir, json };
+      }
+
+      dir = dir.substring(0, dir.lastIndexOf('/')) || '/';
+    }
+
+    return null;
+  }
+
+  private async _resolveInPackage(pkg: InstalledPackage, subpath: string): Promise<string | null> {
+    const { dir, json } = pkg;
+
+    if (json.exports !== undefined && json.exports !== null) {
+      const target = resolveExports(json.exports, subpath ? `./${subpath}` : '.');
+
+      return target ? this._resolveFile(joinPath(dir, target)) : null;
+    }
+
+    if (subpath) {
+      const target = joinPath(dir, subpath);
+
+      return (await this._resolveFile(target)) ?? this._resolveDirectory(target);
+    }
+
+    return this._resolveDirectory(dir);
+  }
+
+  private async _resolveDirectory(dir: string): Promise<string | null> {
+    const json = await this._readJson(joinPath(dir, 'package.json'));
+    const browser = typeof json?.browser === 'string' ? json.browser : undefined;
+
+    for (const entry of [browser, json?.module, json?.main]) {
+      if (entry) {
+        const target = joinPath(dir, entry);
+        const resolved = (await this._resolveFile(target)) ?? (await this._resolveIndex(target));
+
+        if (resolved) {
+          return resolved;
+        }
+      }
+    }
+
+    return this._resolveIndex(dir);
+  }
+
+  private async _resolveIndex(dir: string): Promise<string | null> {
+    return this._resolveFile(joinPath(dir, 'index'));
+  }
+
+  private async _resolveFile(path: string): Promise<string | null> {
+    for (const candidate of [path, ...EXTENSIONS.map((ext) => path + ext)]) {
+      if ((await this.readFile(candidate)) !== null) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Apply the replacements of a `browser` map to a resolved file
+   */
+  private async _applyBrowserMap(pkg: InstalledPackage, resolved: string): Promise<string | null> {
+    const { browser } = pkg.json;
+
+    if (!browser || typeof browser !== 'object') {
+      return resolved;
+    }
+
+    for (const [from, to] of Object.entries(browser)) {
+      const source = (await this._resolveFile(joinPath(pkg.dir, from))) ?? joinPath(pkg.dir, from);
+
+      if (source === resolved) {
+        return to === false ? EMPTY_MODULE : this._resolveFile(joinPath(pkg.dir, to));
+      }
+    }
+
+    return resolved;
+  }
+
+  private async _readJson(path: string): Promise<PackageJson | null> {
+    const content = await this.readFile(path);
+
+    if (content === null) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(content) as PackageJson;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Split a bare import into package name and subpath
+ */
+export function splitSpecifier(specifier: string): { name: string; subpath: string } {
+  const parts = specifier.split('/');
+  const length = specifier.startsWith('@') ? 2 : 1;
+
+  return { name: parts.slice(0, length).join('/'), subpath: parts.slice(length).join('/') };
+}
+
+/**
+ * Resolve a subpath ('.' or './sub') through a package `exports` field
+ */
+export function resolveExports(exports: unknown, subpath: string): string | null {
+  const isSubpathMap =
+    typeof exports === 'object' &&
+    exports !== null &&
+    !Array.isArray(exports) &&
+    Object.keys(exports)[0]?.startsWith('.');
+
+  if (!isSubpathMap) {
+    return subpath === '.' ? resolveTarget(exports, '') : null;
+  }
+
+  const map = exports as Record<string, unknown>;
+
+  if (subpath in map) {
+    return resolveTarget(map[subpath], '');
+  }
+
+  // Patterns ('./*', './utils/*.js'), the longest prefix wins
+  let best: { key: string; match: string } | null = null;
+
+  for (const key of Object.keys(map)) {
+    const star = key.indexOf('*');
+
+    if (star === -1) {
+      continue;
+    }
+
+    const prefix = key.substring(0, star);
+    const suffix = key.substring(star + 1);
+
+    if (
+      subpath.startsWith(prefix) &&
+      subpath.endsWith(suffix) &&
+      subpath.length >= key.length - 1 &&
+      (!best || prefix.length > best.key.indexOf('*'))
+    ) {
+      best = { key, match: subpath.substring(prefix.length, subpath.length - suffix.length) };
+    }
+  }
+
+  return best ? resolveTarget(map[best.key], best.match) : null;
+}
+
+function resolveTarget(target: unknown, match: string): string | null {
+  if (typeof target === 'string') {
+    return target.replace(/\*/g, match);
+  }
+
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      const resolved = resolveTarget(item, match);
+
+      if (resolved) {
+        return resolved;
+      }
+    }
+
+    return null;
+  }
+
+  if (target && typeof target === 'object') {
+    for (const [condition, value] of Object.entries(target)) {
+      if (CONDITIONS.includes(condition)) {
+        const resolved = resolveTarget(value, match);
+
+        if (resolved) {
+          return resolved;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+function joinPath(base: string, relative: string): string {
+  const parts: string[] = [];
+
+  for (const part of `${base}/${relative}`.split('/')) {
+    if (part === '..') {
+      parts.pop();
+    } else if (part && part !== '.') {
+      parts.push(part);
+    }
+  }
+
+  return '/' + parts.join('/');
+}
@@ -8,6 +8,7 @@
 
 import type * as esbuild from 'esbuild-wasm';
 import type { CSSAggregator, CSSType } from '../../css-aggregator';
+import type { PackageResolver } from './package-resolver';
 
 /**
  * Plugin context providing access to build state
@@ -31,6 +32,9 @@ export interface PluginContext {
   /** Next.js shim code map */
   nextjsShims: Record<string, string>;
 
+  /** Installed packages, bare imports fall back to the CDN without them */
+  packages?: PackageResolver;
+
   /** Module cache for CDN responses */
   moduleCache: {
     has: (key: string) => boolean;
@@ -7,6 +7,7 @@
  * This plugin handles:
  * - Next.js shims (next/image, next/link, etc.)
  * - Tailwind CSS imports
+ * - Installed packages (node_modules, CDN fallback when missing)
  * - Path aliases (@/)
  * - Relative imports
  * - Framework compilation (Vue, Svelte, Astro)
@@ -16,6 +17,7 @@
 
 import type * as esbuild from 'esbuild-wasm';
 import type { PluginContext, ContentFile } from './types';
+import { EMPTY_MODULE, splitSpecifier } from './package-resolver';
 import {
   loadCompiler,
   hasCompilerFor,
@@ -39,6 +41,7 @@ export function createVirtualFsPlugin(context: PluginContext): esbuild.Plugin {
     resolveRelativePath,
     getLoader,
     nextjsShims,
+    packages,
     logger,
     onDependencyResolved,
   } = context;
@@ -128,6 +131,71 @@ export function createVirtualFsPlugin(context: PluginContext): esbuild.Plugin {
         };
       });
 
+      /*
+       * =========================================================================
+       * Installed Packages (node_modules)
+       * =========================================================================
+       */
+
+      if (packages) {
+        // Resolve bare imports against node_modules, esm-sh only gets missing packages
+        build.onResolve({ filter: /^[^./]/ }, async (args) => {
+          if (args.namespace === 'esm-sh' || /^https?:\/\//.test(args.path)) {
+            return null;
+          }
+
+          const importerDir = args.namespace === 'node-modules' ? args.resolveDir : undefined;
+          const resolved = await packages.resolve(args.path, importerDir);
+
+          if (!resolved) {
+            logger.debug(`Package not installed, using CDN: ${args.path}`);
+            return null;
+          }
+
+          // Phase 1.3: Track npm dependency
+          if (args.importer) {
+            trackDependency(args.importer, splitSpecifier(args.path).name, true);
+          }
+
+          logger.debug(`Resolving installed package: ${args.path} -> ${resolved}`);
+
+          return { path: resolved, namespace: 'node-modules' };
+        });
+
+        // Relative imports inside installed packages
+        build.onResolve({ filter: /^\./, namespace: 'node-modules' }, async (args) => {
+          const resolved = await packages.resolveRelative(args.path, args.resolveDir);
+
+          if (!resolved) {
+            return { errors: [{ text: `Cannot resolve ${args.path} from ${args.importer}` }] };
+          }
+
+          return { path: resolved, namespace: 'node-modules' };
+        });
+
+        // Load installed files, esbuild handles the CommonJS interop
+        build.onLoad({ filter: /.*/, namespace: 'node-modules' }, async (args) => {
+          if (args.path === EMPTY_MODULE) {
+            return { contents: 'module.exports = {};', loader: 'js' };
+          }
+
+          const content = await packages.readFile(args.path);
+
+          if (content === null) {
+            return { errors: [{ text: `File not found: ${args.path}` }] };
+          }
+
+          const resolveDir = args.path.substring(0, args.path.lastIndexOf('/')) || '/';
+          const loader = getLoader(args.path);
+
+          if (loader === 'css') {
+            return await handlePlainCssFile(args.path, content, resolveDir, files, cssAggregator, logger);
+          }
+
+          return { contents: content, loader: /\.(c|m)?js$/.test(args.path) ? 'js' : loader, resolveDir };
+        });
+      }
+
       // =========================================================================
       // Path Alias Resolution (@/)
       // =========================================================================
@@ -207,8 +275,8 @@ export function createVirtualFsPlugin(context: PluginContext): esbuild.Plugin {
 
       // Resolve absolute imports from virtual fs - but NOT esm.sh CDN paths
       build.onResolve({ filter: /^\// }, (args) => {
-        // Skip if coming from esm-sh namespace
-        if (args.namespace === 'esm-sh') {
+        // Skip if coming from esm-sh or installed packages
+        if (args.namespace === 'esm-sh' || args.namespace === 'node-modules') {
           return null;
         }
 
@@ -12,6 +12,7 @@ import {
   generateBaseStyles,
   generateTailwindCdnScript,
   generateKeyboardForwardingScript,
+  generateErrorReportingScript,
 } from './html-template';
 
 const logger = createScopedLogger('BundleInjector');
@@ -39,6 +40,9 @@ export interface BundleInjectionOptions {
   hmrClientScript?: string;
   /** Always inject Tailwind CDN regardless of CSS content (default: true) */
   alwaysInjectTailwind?: boolean;
+
+  /** URL of the entry script served with the preview, the code is then not inlined */
+  entryUrl?: string;
 }
 
 /**
@@ -60,6 +64,34 @@ const TAILWIND_LINK_PATTERNS = [
   /<link[^>]*\s+href=["'][^"']*\/node_modules\/tailwindcss[^"']*["'][^>]*\/?>/gi,
 ];
 
+/**
+ * Built assets of a production build, as referenced from its HTML file
+ */
+export interface ProductionAssets {
+  script: string;
+  style?: string;
+}
+
+/**
+ * Reference the built assets from the project HTML, in place of its entry script
+ *
+ * @param html - HTML template
+ * @param assets - Paths of the built script and stylesheet
+ * @returns HTML of the production build
+ */
+export function injectProductionAssets(html: string, assets: ProductionAssets): string {
+  for (const pattern of [...ENTRY_SCRIPT_PATTERNS, ...TAILWIND_LINK_PATTERNS]) {
+    html = html.replace(pattern, '');
+  }
+
+  const tags = [
+    ...(assets.style ? [`<link rel="stylesheet" href="${assets.style}">`] : []),
+    `<script type="module" src="${assets.script}"></script>`,
+  ];
+
+  return html.replace('</head>', `  ${tags.join('\n  ')}\n</head>`);
+}
+
 /**
  * Inject bundle into HTML
  *
@@ -147,18 +179,23 @@ export function injectBundle(
 
   // Inject JS bundle using base64 encoding
   // This avoids all escaping issues (backticks, </script>, quotes, etc.)
-  const base64Code = btoa(unescape(encodeURIComponent(code)));
+  // A split bundle is imported from its URL instead, so its chunks resolve next to it
+  const base64Code = options.entryUrl ? '' : btoa(unescape(encodeURIComponent(code)));
+  const importCode = options.entryUrl
+    ? '    await import(' + JSON.stringify(options.entryUrl) + ');\n'
+    : `    const base64 = "${base64Code}";\n` +
+      '    const code = decodeURIComponent(escape(atob(base64)));\n' +
+      '    const blob = new Blob([code], { type: "text/javascript" });\n' +
+      '    const url = URL.createObjectURL(blob);\n' +
+      '    await import(url);\n' +
+      '    URL.revokeObjectURL(url);\n';
   const loaderScript = '<script type="module">\n' +
     '(async function() {\n' +
     '  try {\n' +
-    '    const base64 = "' + base64Code + '";\n' +
-    '    const code = decodeURIComponent(escape(atob(base64)));\n' +
-    '    const blob = new Blob([code], { type: "text/javascript" });\n' +
-    '    const url = URL.createObjectURL(blob);\n' +
-    '    await import(url);\n' +
-    '    URL.revokeObjectURL(url);\n' +
+    importCode +
     '  } catch (e) {\n' +
     '    console.error("[BAVINI] Failed to load bundle:", e);\n' +
+    '    if (window.__BAVINI_REPORT_ERROR__) window.__BAVINI_REPORT_ERROR__(e);\n' +
     '  }\n' +
     '})();\n' +
     '</script>';
@@ -174,6 +211,10 @@ export function injectBundle(
   const keyboardScript = generateKeyboardForwardingScript();
   html = html.replace('<head>', `<head>\n${keyboardScript}`);
 
+  // Add runtime error reporting, first in head to catch errors of every script
+  const errorReportingScript = generateErrorReportingScript();
+  html = html.replace('<head>', () => `<head>\n${errorReportingScript}`);
+
   // Inject HMR client script if provided
   if (options.hmrClientScript) {
     html = html.replace('</body>', `${options.hmrClientScript}\n</body>`);
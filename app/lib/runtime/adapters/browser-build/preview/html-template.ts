@@ -6,6 +6,8 @@
  * =============================================================================
  */
 
+import { generateErrorOverlayCode } from '~/lib/runtime/dev-server/error-overlay';
+
 /**
  * Default CSS variables for BAVINI design system
  */
@@ -425,3 +427,45 @@ export function generateKeyboardForwardingScript(): string {
 })();
 </script>`;
 }
+
+/**
+ * Generate runtime error reporting script for iframe
+ * Uncaught errors are sent to the parent window, which remaps their stack trace
+ * with the source map of the bundle and sends them back to the error overlay
+ *
+ * @returns Error reporting script HTML string
+ */
+export function generateErrorReportingScript(): string {
+  return `
+<script>${generateErrorOverlayCode({ dismissible: true })}</script>
+<script>
+(function() {
+  if (!window.parent || window.parent === window) return;
+
+  function reportError(error) {
+    var message = error && error.message ? error.message : String(error);
+    var stack = error && error.stack ? String(error.stack) : '';
+
+    window.parent.postMessage({ type: 'error', payload: { message: message, stack: stack } }, '*');
+  }
+
+  window.addEventListener('error', function(e) {
+    reportError(e.error || e.message);
+  });
+
+  window.addEventListener('unhandledrejection', function(e) {
+    reportError(e.reason);
+  });
+
+  // Errors of the bundle evaluation reject its import instead
+  window.__BAVINI_REPORT_ERROR__ = reportError;
+
+  // Remapped error sent back by the parent window
+  window.addEventListener('message', function(e) {
+    if (!e.data || e.data.type !== 'bavini-error-overlay' || !window.__BAVINI_ERROR_OVERLAY__) return;
+
+    window.__BAVINI_ERROR_OVERLAY__.show([e.data.payload]);
+  });
+})();
+</script>`;
+}
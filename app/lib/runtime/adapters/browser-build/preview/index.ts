@@ -36,14 +36,17 @@ export {
   generateBaseStyles,
   generateTailwindCdnScript,
   generateKeyboardForwardingScript,
+  generateErrorReportingScript,
 } from './html-template';
 
 // Bundle injection
 export {
   type SSRContent,
   type BundleInjectionOptions,
+  type ProductionAssets,
   injectBundle,
   injectBundleWithSSR,
+  injectProductionAssets,
 } from './bundle-injector';
 
 // Preview creation
@@ -53,5 +56,6 @@ export {
   verifyServiceWorkerServing,
   createPreviewWithServiceWorker,
   createPreviewWithSrcdoc,
+  createPreviewWithAssets,
   createPreview,
 } from './preview-creator';
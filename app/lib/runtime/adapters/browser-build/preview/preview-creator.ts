@@ -89,17 +89,20 @@ export async function verifyServiceWorkerServing(url: string): Promise<boolean>
  *
  * @param html - HTML content to serve
  * @param swFunctions - Service Worker functions
+ * @param assets - Other files of the preview, by path relative to index.html
  * @returns Preview info if successful, null if failed
  */
 export async function createPreviewWithServiceWorker(
   html: string,
-  swFunctions: ServiceWorkerFunctions
+  swFunctions: ServiceWorkerFunctions,
+  assets: Record<string, string> = {},
 ): Promise<PreviewInfo | null> {
   const buildId = Date.now().toString();
   const { setPreviewFiles, getPreviewUrl } = swFunctions;
 
-  // Send the HTML to the Service Worker
+  // Send the HTML and its assets to the Service Worker
   const files: Record<string, string> = {
+    ...assets,
     'index.html': html,
   };
 
@@ -200,3 +203,38 @@ export async function createPreview(
     mode: 'srcdoc',
   };
 }
+
+/**
+ * Create a preview whose bundle is split in several scripts
+ * Only the Service Worker can serve them, there is no srcdoc fallback
+ *
+ * @param html - HTML content, loading its entry script from the assets
+ * @param assets - Scripts of the bundle, by path relative to index.html
+ * @param swFunctions - Service Worker functions
+ * @returns Preview result, null if the Service Worker cannot serve the preview
+ */
+export async function createPreviewWithAssets(
+  html: string,
+  assets: Record<string, string>,
+  swFunctions: ServiceWorkerFunctions,
+): Promise<PreviewResult | null> {
+  if (!shouldAttemptServiceWorker() || !isServiceWorkerReady()) {
+    logger.debug(`Split bundle cannot be previewed (${getPreviewModeReason()})`);
+
+    return null;
+  }
+
+  const preview = await createPreviewWithServiceWorker(html, swFunctions, assets);
+
+  if (!preview) {
+    incrementSwFailures();
+    logger.warn('Service Worker failed to serve the split bundle');
+
+    return null;
+  }
+
+  return {
+    preview,
+    mode: 'service-worker',
+  };
+}
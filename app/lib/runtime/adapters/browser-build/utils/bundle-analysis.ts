@@ -0,0 +1,116 @@
+/**
+ * =============================================================================
+ * BAVINI CLOUD - Bundle Analysis
+ * =============================================================================
+ * Splits the esbuild outputs into the entry script and its chunks, and
+ * measures the size of each chunk and of the modules it contains.
+ * =============================================================================
+ */
+
+import type { Metafile, OutputFile } from 'esbuild-wasm';
+import { normalizeSource } from '../../../dev-server/source-map';
+import type { ChunkInfo } from '../../../types';
+
+/**
+ * Path of the entry script in the preview, its chunks are served next to it
+ */
+export const PREVIEW_ENTRY_ASSET = 'assets/index.js';
+
+/**
+ * Output of the stdin entry, relative to the build outdir
+ */
+const ENTRY_OUTPUT = 'stdin.js';
+
+/**
+ * Outputs of a build: the entry script, its CSS and the chunks it imports
+ */
+export interface BundleOutputs {
+  code: string;
+  css: string;
+
+  /** Chunks by path relative to the entry script (e.g. `chunks/Page-X7K2.js`) */
+  chunks: Record<string, string>;
+}
+
+/**
+ * Entry script, CSS and chunks of the esbuild output files
+ */
+export function collectBundleOutputs(outputFiles: OutputFile[] = []): BundleOutputs {
+  const outputs: BundleOutputs = { code: '', css: '', chunks: {} };
+
+  // without splitting, the single script is the entry whatever its name
+  const entry =
+    outputFiles.find((file) => toOutputPath(file.path) === ENTRY_OUTPUT) ??
+    outputFiles.find((file) => file.path.endsWith('.js'));
+
+  for (const file of outputFiles) {
+    const path = toOutputPath(file.path);
+
+    if (file === entry) {
+      outputs.code = file.text;
+    } else if (path.endsWith('.css')) {
+      // the CSS of lazy chunks is loaded up front with the entry
+      outputs.css = outputs.css ? `${outputs.css}\n${file.text}` : file.text;
+    } else if (path.endsWith('.js')) {
+      outputs.chunks[path] = file.text;
+    }
+  }
+
+  return outputs;
+}
+
+/**
+ * Size of each chunk of a build and of its modules, the entry first
+ * then the heaviest chunks
+ *
+ * @param metafile - metafile of the build
+ * @param outputs - outputs of the build, chunk sizes leave their inline source map out
+ */
+export function analyzeBundle(metafile: Metafile, outputs: BundleOutputs): ChunkInfo[] {
+  const chunks: ChunkInfo[] = [];
+
+  for (const [outputPath, output] of Object.entries(metafile.outputs)) {
+    const path = toOutputPath(outputPath);
+
+    if (!path.endsWith('.js')) {
+      continue;
+    }
+
+    const isEntry = path === ENTRY_OUTPUT;
+    const code = isEntry ? outputs.code : outputs.chunks[path];
+
+    const modules = Object.entries(output.inputs)
+      .map(([input, { bytesInOutput }]) => ({ path: normalizeSource(input), bytes: bytesInOutput }))
+      .filter((module) => module.bytes > 0)
+      .sort((a, b) => b.bytes - a.bytes);
+
+    chunks.push({
+      path: isEntry ? PREVIEW_ENTRY_ASSET : toPreviewAsset(path),
+      isEntry,
+      bytes: code === undefined ? output.bytes : stripInlineSourceMap(code).length,
+      modules,
+    });
+  }
+
+  return chunks.sort((a, b) => Number(b.isEntry) - Number(a.isEntry) || b.bytes - a.bytes);
+}
+
+/**
+ * Preview path of a chunk, next to the entry script it is imported from
+ */
+export function toPreviewAsset(chunkPath: string): string {
+  return `${PREVIEW_ENTRY_ASSET.slice(0, PREVIEW_ENTRY_ASSET.lastIndexOf('/') + 1)}${chunkPath}`;
+}
+
+/**
+ * Output path relative to the outdir, esbuild reports metafile paths relative to its working directory
+ */
+function toOutputPath(path: string): string {
+  return path.replace(/^(?:\.\.\/)*\/?dist\//, '');
+}
+
+function stripInlineSourceMap(code: string): string {
+  const index = code.lastIndexOf('\n//# sourceMappingURL=');
+
+  return index === -1 ? code : code.slice(0, index);
+}
@@ -7,7 +7,7 @@
  */
 
 import { createScopedLogger } from '~/utils/logger';
-import type { BuildWarning, BuildError } from '../../../types';
+import type { BuildWarning, BuildError, ChunkInfo } from '../../../types';
 
 const logger = createScopedLogger('BundleLimits');
 
@@ -31,6 +31,9 @@ export const BUNDLE_LIMITS = {
   TOTAL_WARNING_KB: 3000,
   /** Error threshold for total bundle (35MB) */
   TOTAL_ERROR_KB: 35000,
+
+  /** Warning threshold for a single chunk of a split bundle (500KB) */
+  CHUNK_WARNING_KB: 500,
 } as const;
 
 /**
@@ -54,10 +57,11 @@ export interface BundleSizeCheckResult {
  *
  * @param code - JavaScript code
  * @param css - CSS code
+ * @param chunks - Code of the chunks loaded with dynamic import()
  * @returns Check result with warnings and errors
  */
-export function checkBundleSizeLimits(code: string, css: string): BundleSizeCheckResult {
-  const jsKB = code.length / 1024;
+export function checkBundleSizeLimits(code: string, css: string, chunks: string[] = []): BundleSizeCheckResult {
+  const jsKB = chunks.reduce((size, chunk) => size + chunk.length, code.length) / 1024;
   const cssKB = css.length / 1024;
   const totalKB = jsKB + cssKB;
 
@@ -110,6 +114,34 @@ export function checkBundleSizeLimits(code: string, css: string): BundleSizeChec
   return { warnings, errors, jsKB, cssKB, totalKB };
 }
 
+/**
+ * Warn about the chunks of a split bundle above the chunk size limit
+ *
+ * @param chunks - Chunks of the bundle
+ * @returns One warning per oversized chunk
+ */
+export function checkChunkSizeLimits(chunks: ChunkInfo[]): BuildWarning[] {
+  return chunks
+    .filter((chunk) => isChunkOversized(chunk))
+    .map((chunk) => {
+      const chunkKB = chunk.bytes / 1024;
+
+      logger.warn(`Chunk ${chunk.path} exceeds warning limit: ${chunkKB.toFixed(0)}KB`);
+
+      return {
+        message: `Chunk ${chunk.path} is large (${chunkKB.toFixed(0)}KB > ${BUNDLE_LIMITS.CHUNK_WARNING_KB}KB). Consider loading some of its modules with dynamic import().`,
+        file: chunk.path,
+      };
+    });
+}
+
+/**
+ * Whether a chunk is above the chunk size limit
+ */
+export function isChunkOversized(chunk: ChunkInfo): boolean {
+  return chunk.bytes / 1024 > BUNDLE_LIMITS.CHUNK_WARNING_KB;
+}
+
 /**
  * Log bundle size summary
  */
@@ -13,5 +13,14 @@ export {
   BUNDLE_LIMITS,
   type BundleSizeCheckResult,
   checkBundleSizeLimits,
+  checkChunkSizeLimits,
+  isChunkOversized,
   logBundleSize,
 } from './bundle-limits';
+export {
+  PREVIEW_ENTRY_ASSET,
+  type BundleOutputs,
+  collectBundleOutputs,
+  analyzeBundle,
+  toPreviewAsset,
+} from './bundle-analysis';
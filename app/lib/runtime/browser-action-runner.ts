@@ -13,6 +13,7 @@ import type { BoltAction } from '~/types/actions';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
 import type { ActionCallbackData } from './message-parser';
+import { applyPatch } from './patch';
 import { browserFilesStore } from '~/lib/stores/browser-files';
 
 const logger = createScopedLogger('BrowserActionRunner');
@@ -136,6 +137,10 @@ export class BrowserActionRunner {
           await this.#runFileAction(action);
           break;
         }
+        case 'patch': {
+          await this.#runPatchAction(action);
+          break;
+        }
         case 'shell': {
           await this.#runShellAction(action);
           break;
@@ -170,6 +175,23 @@ export class BrowserActionRunner {
     await browserFilesStore.writeFile(action.filePath, action.content);
   }
 
+  async #runPatchAction(action: ActionState) {
+    if (action.type !== 'patch') {
+      unreachable('Expected patch action');
+    }
+
+    const file = browserFilesStore.getFile(action.filePath);
+
+    if (!file) {
+      throw new Error(`Impossible de patcher ${action.filePath} : le fichier n'existe pas, utilise une action file`);
+    }
+
+    logger.info(`Patching file: ${action.filePath}`);
+
+    // Every block applies or the file is left untouched
+    await browserFilesStore.writeFile(action.filePath, applyPatch(file.content, action.content));
+  }
+
   async #runShellAction(action: ActionState) {
     if (action.type !== 'shell') {
       unreachable('Expected shell action');
@@ -9,8 +9,10 @@
 
 import { BrowserBuildAdapter } from './adapters/browser-build-adapter';
 import type { PreviewInfo, BuildOptions, BundleResult, FileMap } from './types';
+import type { HMRError } from './dev-server/types';
 import { createScopedLogger } from '~/utils/logger';
-import { warmupCache, moduleCache } from './adapters/browser-build';
+import { warmupCache, moduleCache, createDistFiles, createStaticDistFiles } from './adapters/browser-build';
+import { getSharedMountManager } from './filesystem';
 
 const logger = createScopedLogger('BrowserBuildService');
 
@@ -85,6 +87,15 @@ class BrowserBuildService {
       },
     });
 
+    // Bundle the packages npm installed in the project filesystem, the CDN only serves missing ones
+    const fs = getSharedMountManager();
+
+    this.adapter.setPackageSource({
+      root: '/',
+      readFile: (path) => fs.readTextFile(path).catch(() => null),
+      exists: (path) => fs.exists(path),
+    });
+
     // Initialize the adapter (loads esbuild-wasm)
     logger.info('Initializing BrowserBuildAdapter...');
     await this.adapter.init();
@@ -150,11 +161,51 @@ class BrowserBuildService {
       logger.error('Build failed with errors:', result.errors);
     } else {
       logger.info(`Build successful in ${Math.round(result.buildTime)}ms`);
+
+      // Sizes of the previewed bundle, shown by the bundle analyzer
+      const store = await getWorkbenchStore();
+      store.bundleAnalysis.set(result.analysis);
     }
 
     return result;
   }
 
+  /**
+   * Build the project for production (minified, hashed assets, real index.html)
+   * without touching the preview, and return the files of the build
+   */
+  async buildProduction(files: FileMap, entryPoint: string = '/src/main.tsx'): Promise<Map<string, string>> {
+    // Vanilla HTML projects are served as they are
+    if (entryPoint.endsWith('.html')) {
+      return createStaticDistFiles(files);
+    }
+
+    if (!this.adapter) {
+      await this.init();
+    }
+
+    if (!this.adapter) {
+      throw new Error('Build adapter not initialized');
+    }
+
+    await this.adapter.writeFiles(files);
+
+    const result = await this.adapter.build({
+      entryPoint,
+      mode: 'production',
+      minify: true,
+      preview: false,
+    });
+
+    if (result.errors.length > 0) {
+      throw new Error(`Production build failed: ${result.errors.map((error) => error.message).join('\n')}`);
+    }
+
+    logger.info(`Production build successful in ${Math.round(result.buildTime)}ms`);
+
+    return createDistFiles(result.code, result.css, files);
+  }
+
   /**
    * Write a single file to the adapter
    */
@@ -173,6 +224,13 @@ class BrowserBuildService {
     return this.adapter?.getPreview() ?? null;
   }
 
+  /**
+   * Runtime error of the preview, with its stack trace at the original locations
+   */
+  remapRuntimeError(message: string, stack?: string): HMRError {
+    return this.adapter?.remapRuntimeError(message, stack) ?? { message, stack, kind: 'runtime' };
+  }
+
   /**
    * Refresh the preview
    */
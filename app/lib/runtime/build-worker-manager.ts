@@ -9,6 +9,7 @@
  * =============================================================================
  */
 
+import type { Metafile } from 'esbuild-wasm';
 import { createScopedLogger } from '~/utils/logger';
 import type { BuildOptions, BundleResult, BuildError, BuildWarning } from './types';
 
@@ -39,6 +40,7 @@ interface BuildPayload {
   options: {
     minify: boolean;
     sourcemap: boolean;
+    splitting: boolean;
     mode: 'development' | 'production';
     define?: Record<string, string>;
   };
@@ -60,6 +62,8 @@ interface WorkerResponse {
   result?: {
     code: string;
     css: string;
+    chunks: Record<string, string>;
+    metafile?: Metafile;
     errors: BuildError[];
     warnings: BuildWarning[];
     buildTime: number;
@@ -67,8 +71,15 @@ interface WorkerResponse {
   error?: string;
 }
 
+/**
+ * Result of a worker build, with the esbuild metafile to analyze the bundle
+ */
+export interface WorkerBuildResult extends BundleResult {
+  metafile?: Metafile;
+}
+
 interface PendingRequest {
-  resolve: (result: BundleResult) => void;
+  resolve: (result: WorkerBuildResult) => void;
   reject: (error: Error) => void;
   timeout: ReturnType<typeof setTimeout>;
 }
@@ -198,6 +209,8 @@ export class BuildWorkerManager {
           pending.resolve({
             code: data.result.code,
             css: data.result.css,
+            chunks: data.result.chunks,
+            metafile: data.result.metafile,
             errors: data.result.errors,
             warnings: data.result.warnings,
             buildTime: data.result.buildTime,
@@ -239,7 +252,7 @@ export class BuildWorkerManager {
     entryDir: string,
     options: BuildOptions,
     jsxConfig: { jsx: 'transform' | 'automatic'; jsxImportSource?: string }
-  ): Promise<BundleResult> {
+  ): Promise<WorkerBuildResult> {
     if (!this.initialized) {
       await this.init();
     }
@@ -263,7 +276,8 @@ export class BuildWorkerManager {
       entryDir,
       options: {
         minify: options.minify ?? options.mode === 'production',
-        sourcemap: options.sourcemap ?? false,
+        sourcemap: options.sourcemap ?? options.mode === 'development',
+        splitting: options.splitting ?? false,
         mode: options.mode,
         define: options.define,
       },
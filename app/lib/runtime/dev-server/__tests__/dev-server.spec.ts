@@ -4,6 +4,8 @@
 
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { DevServer, createDevServer } from '../dev-server';
+import { MountManager } from '../../filesystem/mount-manager';
+import { MemoryBackend } from '../../filesystem/backends/memory-backend';
 import type { DevServerPlugin, VirtualRequest } from '../types';
 
 describe('DevServer', () => {
@@ -321,6 +323,55 @@ describe('DevServer', () => {
     });
   });
 
+  describe('watchFilesystem', () => {
+    let fs: MountManager;
+
+    beforeEach(async () => {
+      fs = new MountManager();
+      await fs.init({ mounts: [{ path: '/', backend: new MemoryBackend() }] });
+      await fs.writeTextFile('/project/src/app.tsx', 'export default 1;', { createParents: true });
+    });
+
+    afterEach(async () => {
+      await fs.destroy();
+    });
+
+    it('should serve the changes of the watched directory', async () => {
+      const callback = vi.fn();
+      server.onFileChange(callback);
+      server.watchFilesystem(fs, '/project', { debounce: 0 });
+
+      await server.listen();
+      await fs.writeTextFile('/project/src/app.tsx', 'export default 2;');
+      await fs.writeTextFile('/project/src/new.ts', 'export const x = 1;');
+
+      await vi.waitFor(() => {
+        expect(callback).toHaveBeenCalledWith(expect.objectContaining({ type: 'add', path: '/src/new.ts' }));
+      });
+
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({ type: 'change', path: '/src/app.tsx' }));
+      expect(fileSystem.get('/src/app.tsx')).toBe('export default 2;');
+
+      await fs.unlink('/project/src/new.ts');
+
+      await vi.waitFor(() => {
+        expect(callback).toHaveBeenCalledWith(expect.objectContaining({ type: 'unlink', path: '/src/new.ts' }));
+      });
+
+      expect(fileSystem.has('/src/new.ts')).toBe(false);
+    });
+
+    it('should stop watching once closed', async () => {
+      server.watchFilesystem(fs, '/project', { debounce: 0 });
+
+      await server.listen();
+      await server.close();
+      await fs.writeTextFile('/project/src/app.tsx', 'export default 2;');
+
+      expect(fileSystem.get('/src/app.tsx')).not.toBe('export default 2;');
+    });
+  });
+
   describe('transformRequest', () => {
     it('should transform existing file', async () => {
       await server.listen();
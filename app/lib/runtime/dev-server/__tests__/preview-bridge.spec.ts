@@ -0,0 +1,53 @@
+/**
+ * Unit tests for DevServerBridge
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createPreviewBridge, type DevServerBridge } from '../preview-bridge';
+import { getSharedMountManager, resetSharedMountManager } from '../../filesystem/mount-manager';
+import { MemoryBackend } from '../../filesystem/backends/memory-backend';
+
+describe('DevServerBridge', () => {
+  let bridge: DevServerBridge;
+  let fileSystem: Map<string, string>;
+
+  beforeEach(async () => {
+    await getSharedMountManager().init({ mounts: [{ path: '/', backend: new MemoryBackend() }] });
+    await getSharedMountManager().writeTextFile('/src/app.tsx', 'export default 1;', { createParents: true });
+
+    fileSystem = new Map([['/src/app.tsx', 'export default 1;']]);
+    bridge = createPreviewBridge(fileSystem);
+  });
+
+  afterEach(async () => {
+    await bridge.stop();
+    await resetSharedMountManager();
+  });
+
+  it('should serve the changes of the shared filesystem', async () => {
+    const callback = vi.fn();
+    bridge.getDevServer().onFileChange(callback);
+
+    await bridge.start();
+    await getSharedMountManager().writeTextFile('/src/app.tsx', 'export default 2;');
+
+    await vi.waitFor(() => {
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({ type: 'change', path: '/src/app.tsx' }));
+    });
+
+    expect(fileSystem.get('/src/app.tsx')).toBe('export default 2;');
+  });
+
+  it('should ignore node_modules and stop watching once stopped', async () => {
+    await bridge.start();
+    await getSharedMountManager().writeTextFile('/node_modules/react/index.js', 'module.exports = {};', {
+      createParents: true,
+    });
+    await bridge.stop();
+    await getSharedMountManager().writeTextFile('/src/app.tsx', 'export default 2;');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(fileSystem.has('/node_modules/react/index.js')).toBe(false);
+    expect(fileSystem.get('/src/app.tsx')).toBe('export default 1;');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for source maps and stack trace remapping
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SourceMapConsumer, extractInlineSourceMap, type RawSourceMap } from '../source-map';
+import { createRuntimeError, parseStack, remapStack } from '../stack-trace';
+
+/**
+ * Bundle line 1 maps to App.tsx 1:1, bundle line 2 to App.tsx 3:3 then 3:8 from column 6
+ */
+const SOURCE_MAP: RawSourceMap = {
+  version: 3,
+  sources: ['virtual-fs:/src/App.tsx'],
+  names: [],
+  mappings: 'AAAA;AAEE,KAAK',
+};
+
+const sourceMapFor = (file: string) => (file.startsWith('blob:') ? new SourceMapConsumer(SOURCE_MAP) : null);
+
+describe('SourceMapConsumer', () => {
+  const consumer = new SourceMapConsumer(SOURCE_MAP);
+
+  it('should find the original position of a bundle position', () => {
+    expect(consumer.originalPositionFor(2, 2)).toEqual({ source: '/src/App.tsx', line: 3, column: 3 });
+    expect(consumer.originalPositionFor(2, 9)).toEqual({ source: '/src/App.tsx', line: 3, column: 8 });
+  });
+
+  it('should return null for unmapped lines', () => {
+    expect(consumer.originalPositionFor(5, 1)).toBeNull();
+  });
+});
+
+describe('extractInlineSourceMap', () => {
+  it('should read the source map ending a bundle', () => {
+    const base64 = Buffer.from(JSON.stringify(SOURCE_MAP)).toString('base64');
+    const code = `console.log(1);\n//# sourceMappingURL=data:application/json;base64,${base64}\n`;
+
+    expect(extractInlineSourceMap(code)).toEqual(SOURCE_MAP);
+  });
+
+  it('should return null without source map', () => {
+    expect(extractInlineSourceMap('console.log(1);')).toBeNull();
+  });
+});
+
+describe('remapStack', () => {
+  const stack = [
+    'TypeError: items is undefined',
+    '    at App (blob:http://localhost:5173/4f1c:2:9)',
+    '    at http://localhost:5173/preview/index.html:10:3',
+  ].join('\n');
+
+  it('should rewrite the frames of the bundle at their original location', () => {
+    const result = remapStack(stack, sourceMapFor);
+
+    expect(result.stack).toBe(
+      [
+        'TypeError: items is undefined',
+        '    at App (/src/App.tsx:3:8)',
+        '    at http://localhost:5173/preview/index.html:10:3',
+      ].join('\n'),
+    );
+    expect(result.frames).toEqual([
+      { functionName: 'App', file: '/src/App.tsx', line: 3, column: 8 },
+      { functionName: undefined, file: 'http://localhost:5173/preview/index.html', line: 10, column: 3 },
+    ]);
+  });
+
+  it('should parse Firefox and Safari frames', () => {
+    expect(parseStack('App@blob:http://localhost:5173/4f1c:2:9')).toEqual([
+      { functionName: 'App', file: 'blob:http://localhost:5173/4f1c', line: 2, column: 9 },
+    ]);
+  });
+
+  it('should locate a runtime error at its first project frame', () => {
+    const error = createRuntimeError('items is undefined', stack, sourceMapFor);
+
+    expect(error.kind).toBe('runtime');
+    expect(error.loc).toEqual({ file: '/src/App.tsx', line: 3, column: 8 });
+  });
+});
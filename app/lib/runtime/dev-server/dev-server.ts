@@ -20,6 +20,8 @@ import type {
   HotUpdateContext,
   PluginContext,
 } from './types';
+import type { MountManager, WatchEvent as FilesystemWatchEvent, WatchHandle, WatchOptions } from '../filesystem';
+import { relative } from '../filesystem/path-utils';
 import { ModuleGraph, createModuleGraph } from './module-graph';
 import { VirtualServer, createVirtualServer } from './virtual-server';
 import { HMRServer, createHMRServer, createHMRError } from './hmr-server';
@@ -50,6 +52,8 @@ export class DevServer implements DevServerInstance {
   private fileSystem: Map<string, string>;
   private plugins: DevServerPlugin[] = [];
   private watchCallbacks: Array<(event: WatchEvent) => void> = [];
+  private _filesystemWatches: WatchHandle[] = [];
+  private _filesystemChanges: Promise<void> = Promise.resolve();
   private started = false;
 
   constructor(
@@ -118,6 +122,12 @@ export class DevServer implements DevServerInstance {
    */
   async close(): Promise<void> {
     this.started = false;
+
+    for (const handle of this._filesystemWatches) {
+      handle.unsubscribe();
+    }
+    this._filesystemWatches = [];
+
     this.hmrServer?.close();
     this.moduleGraph.clear();
     this.virtualServer.clearCache();
@@ -300,7 +310,12 @@ if (import.meta.hot) {
    * Restart the server
    */
   async restart(): Promise<void> {
+    // Keep syncing the watched directories across the restart
+    const filesystemWatches = this._filesystemWatches;
+    this._filesystemWatches = [];
+
     await this.close();
+    this._filesystemWatches = filesystemWatches;
     this.moduleGraph = createModuleGraph();
     this.virtualServer = createVirtualServer(this.moduleGraph, this.fileSystem, this.config);
     this.virtualServer.setTransformer(this.transformModule.bind(this));
@@ -343,6 +358,81 @@ if (import.meta.hot) {
     };
   }
 
+  /**
+   * Serve a directory of the virtual filesystem: its changes update the
+   * served files and trigger HMR like writeFile() and deleteFile()
+   * @param root - Directory served at `/`
+   * @returns Function to stop watching
+   */
+  watchFilesystem(fs: MountManager, root: string = '/', options: WatchOptions = {}): () => void {
+    const handle = fs.watch(
+      root,
+      (event) => {
+        // Apply the changes in order, each one reads the filesystem
+        this._filesystemChanges = this._filesystemChanges
+          .then(() => this._applyFilesystemChange(fs, root, event))
+          .catch((error) => console.error('[DevServer] Failed to apply file change:', error));
+      },
+      options,
+    );
+
+    this._filesystemWatches.push(handle);
+
+    return () => {
+      handle.unsubscribe();
+      this._filesystemWatches = this._filesystemWatches.filter((watch) => watch !== handle);
+    };
+  }
+
+  /**
+   * Apply a change of the virtual filesystem to the served files
+   */
+  private async _applyFilesystemChange(fs: MountManager, root: string, event: FilesystemWatchEvent): Promise<void> {
+    const toServedPath = (path: string) => {
+      const relativePath = relative(root, path);
+      return relativePath === '.' ? '/' : `/${relativePath}`;
+    };
+
+    if (event.type === 'delete' || event.type === 'rename') {
+      this._deleteServedFiles(toServedPath(event.oldPath ?? event.path));
+    }
+
+    if (event.type === 'delete') {
+      return;
+    }
+
+    const stat = await fs.stat(event.path).catch(() => null);
+
+    if (!stat) {
+      return;
+    }
+
+    // A created or renamed directory brings its files
+    const files = stat.isDirectory ? await fs.getAllFiles(event.path) : [event.path];
+
+    for (const file of files) {
+      const path = toServedPath(file);
+      const content = await fs.readTextFile(file);
+
+      if (this.fileSystem.get(path) !== content) {
+        this.writeFile(path, content);
+      }
+    }
+  }
+
+  /**
+   * Delete a served file, or the served files of a directory
+   */
+  private _deleteServedFiles(path: string): void {
+    const prefix = path === '/' ? '/' : `${path}/`;
+
+    for (const file of Array.from(this.fileSystem.keys())) {
+      if (file === path || file.startsWith(prefix)) {
+        this.deleteFile(file);
+      }
+    }
+  }
+
   /**
    * Write file and trigger HMR
    */
@@ -6,7 +6,7 @@
  * =============================================================================
  */
 
-import type { HMRError } from './types';
+import type { HMRError, StackFrame } from './types';
 
 /**
  * Error overlay configuration
@@ -233,6 +233,38 @@ function generateStyles(theme: ErrorOverlayTheme): string {
       white-space: pre;
     }
 
+    .stack-frames {
+      display: flex;
+      flex-direction: column;
+      background: var(--bavini-code-bg);
+      border-radius: 6px;
+      padding: 8px;
+    }
+
+    .stack-frame {
+      display: flex;
+      gap: 8px;
+      padding: 4px 8px;
+      border: none;
+      border-radius: 4px;
+      background: none;
+      text-align: left;
+      font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace;
+      font-size: 12px;
+      line-height: 1.6;
+      color: rgba(255, 255, 255, 0.4);
+      white-space: pre;
+    }
+
+    .stack-frame.source {
+      color: rgba(255, 255, 255, 0.8);
+      cursor: pointer;
+    }
+
+    .stack-frame.source:hover {
+      background: rgba(255, 255, 255, 0.1);
+    }
+
     .plugin-info {
       display: inline-block;
       padding: 4px 8px;
@@ -290,14 +322,21 @@ function generateOverlayHTML(errors: HMRError[], config: ErrorOverlayConfig): st
     `
     : '';
 
-  const stackHTML = error.stack
+  const stackHTML = error.frames?.length
     ? `
+      <div class="stack">
+        <div class="stack-title">Stack Trace</div>
+        <div class="stack-frames">${formatStackFrames(error.frames)}</div>
+      </div>
+    `
+    : error.stack
+      ? `
       <div class="stack">
         <div class="stack-title">Stack Trace</div>
         <div class="stack-trace">${escapeHTML(cleanStack(error.stack))}</div>
       </div>
     `
-    : '';
+      : '';
 
   const pluginHTML = error.plugin
     ? `<div class="plugin-info">Plugin: ${escapeHTML(error.plugin)}</div>`
@@ -312,7 +351,7 @@ function generateOverlayHTML(errors: HMRError[], config: ErrorOverlayConfig): st
             <svg class="icon" viewBox="0 0 24 24">
               <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
             </svg>
-            Build Error
+            ${error.kind === 'runtime' ? 'Runtime Error' : 'Build Error'}
           </h1>
           ${config.dismissible ? `
             <button class="close-btn" onclick="this.getRootNode().host.remove()">
@@ -370,6 +409,24 @@ function formatCodeFrame(frame: string): string {
     .join('');
 }
 
+/**
+ * Format stack frames, the frames of project files open the file in the editor on click
+ */
+function formatStackFrames(frames: StackFrame[]): string {
+  return frames
+    .slice(0, 10)
+    .map((frame) => {
+      const name = frame.functionName ? `<span>${escapeHTML(frame.functionName)}</span>` : '';
+      const location = `<span class="location">${escapeHTML(`${frame.file}:${frame.line}:${frame.column}`)}</span>`;
+      const isSource = frame.file.startsWith('/') && !frame.file.includes('/node_modules/');
+
+      return isSource
+        ? `<button class="stack-frame source" data-file="${escapeHTML(frame.file)}" data-line="${frame.line}" data-column="${frame.column}">${name}${location}</button>`
+        : `<div class="stack-frame">${name}${location}</div>`;
+    })
+    .join('');
+}
+
 /**
  * Clean stack trace for display
  */
@@ -407,6 +464,7 @@ export function generateErrorOverlayCode(config: Partial<ErrorOverlayConfig> = {
   const escapeHTMLCode = escapeHTML.toString();
   const formatCodeFrameCode = formatCodeFrame.toString();
   const cleanStackCode = cleanStack.toString();
+  const formatStackFramesCode = formatStackFrames.toString();
   const generateStylesCode = generateStyles.toString();
 
   return `
@@ -417,6 +475,7 @@ export function generateErrorOverlayCode(config: Partial<ErrorOverlayConfig> = {
   const escapeHTML = ${escapeHTMLCode};
   const formatCodeFrame = ${formatCodeFrameCode};
   const cleanStack = ${cleanStackCode};
+  const formatStackFrames = ${formatStackFramesCode};
   const generateStyles = ${generateStylesCode};
   const DEFAULT_THEME = ${JSON.stringify(DEFAULT_THEME)};
   const config = ${JSON.stringify(fullConfig)};
@@ -433,9 +492,13 @@ export function generateErrorOverlayCode(config: Partial<ErrorOverlayConfig> = {
       ? '<div class="frame"><div class="frame-header">Code Frame</div><div class="frame-code">' + formatCodeFrame(error.frame) + '</div></div>'
       : '';
 
-    const stackHTML = error.stack
-      ? '<div class="stack"><div class="stack-title">Stack Trace</div><div class="stack-trace">' + escapeHTML(cleanStack(error.stack)) + '</div></div>'
-      : '';
+    const stackHTML = error.frames && error.frames.length
+      ? '<div class="stack"><div class="stack-title">Stack Trace</div><div class="stack-frames">' + formatStackFrames(error.frames) + '</div></div>'
+      : error.stack
+        ? '<div class="stack"><div class="stack-title">Stack Trace</div><div class="stack-trace">' + escapeHTML(cleanStack(error.stack)) + '</div></div>'
+        : '';
+
+    const title = error.kind === 'runtime' ? 'Runtime Error' : 'Build Error';
 
     const pluginHTML = error.plugin
       ? '<div class="plugin-info">Plugin: ' + escapeHTML(error.plugin) + '</div>'
@@ -447,7 +510,7 @@ export function generateErrorOverlayCode(config: Partial<ErrorOverlayConfig> = {
 
     return '<style>' + generateStyles(theme) + '</style>' +
       '<div class="overlay"><div class="container">' +
-      '<div class="header"><h1 class="title"><svg class="icon" viewBox="0 0 24 24"><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/></svg>Build Error</h1>' + dismissButton + '</div>' +
+      '<div class="header"><h1 class="title"><svg class="icon" viewBox="0 0 24 24"><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/></svg>' + title + '</h1>' + dismissButton + '</div>' +
       '<div class="content">' + pluginHTML +
       '<div class="file-info"><svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor" opacity="0.5"><path d="M14 2H6c-1.1 0-1.99.9-1.99 2L4 20c0 1.1.89 2 1.99 2H18c1.1 0 2-.9 2-2V8l-6-6zm2 16H8v-2h8v2zm0-4H8v-2h8v2zm-3-5V3.5L18.5 9H13z"/></svg>' +
       '<span class="file-path">' + escapeHTML(fileInfo) + '</span>' +
@@ -463,6 +526,20 @@ export function generateErrorOverlayCode(config: Partial<ErrorOverlayConfig> = {
     constructor() {
       super();
       this.attachShadow({ mode: 'open' });
+
+      // Open the frames of project files in the editor of the parent window
+      this.shadowRoot.addEventListener('click', function(event) {
+        const frame = event.target.closest('[data-file]');
+        if (!frame || !window.parent || window.parent === window) return;
+        window.parent.postMessage({
+          type: 'bavini-open-file',
+          payload: {
+            file: frame.dataset.file,
+            line: Number(frame.dataset.line),
+            column: Number(frame.dataset.column),
+          },
+        }, '*');
+      });
     }
 
     show(errors) {
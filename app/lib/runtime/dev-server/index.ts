@@ -23,6 +23,12 @@ export { generateHMRClientCode } from './hmr-client';
 export { generateErrorOverlayCode, createErrorOverlay } from './error-overlay';
 export type { ErrorOverlayConfig } from './error-overlay';
 
+// Source maps and stack traces
+export { SourceMapConsumer, extractInlineSourceMap, normalizeSource } from './source-map';
+export type { RawSourceMap, OriginalPosition } from './source-map';
+export { parseStack, remapStack, createRuntimeError, isProjectSource } from './stack-trace';
+export type { SourceMapLookup } from './stack-trace';
+
 // Plugins
 export { reactRefreshPlugin, vueHMRPlugin, cssHMRPlugin } from './plugins';
 
@@ -41,6 +47,7 @@ export type {
   HMRPayload,
   HMRUpdate,
   HMRError,
+  StackFrame,
   HotUpdateContext,
 
   // Server types
@@ -12,6 +12,7 @@ import { reactRefreshPlugin, vueHMRPlugin, cssHMRPlugin } from './plugins';
 import { generateHMRClientCode } from './hmr-client';
 import { generateErrorOverlayCode } from './error-overlay';
 import type { DevServerConfig, HMRError, WatchEvent } from './types';
+import { getSharedMountManager } from '~/lib/runtime/filesystem';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('DevServerBridge');
@@ -30,6 +31,9 @@ export interface PreviewBridgeConfig extends Partial<DevServerConfig> {
   onPreviewUpdate?: (html: string) => void;
   /** Callback for errors */
   onError?: (error: HMRError) => void;
+
+  /** Directory of the shared filesystem served by the dev server */
+  watchRoot?: string;
 }
 
 /**
@@ -41,6 +45,7 @@ export class DevServerBridge {
   private hmrClientCode: string;
   private errorOverlayCode: string;
   private lastBuildResult: { code: string; css: string } | null = null;
+  private _stopWatching: (() => void) | null = null;
 
   constructor(fileSystem: Map<string, string>, config: PreviewBridgeConfig = {}) {
     this.config = {
@@ -49,6 +54,7 @@ export class DevServerBridge {
       reactRefresh: true,
       vueHMR: true,
       cssHMR: true,
+      watchRoot: '/',
       ...config,
     };
 
@@ -87,6 +93,12 @@ export class DevServerBridge {
    */
   async start(): Promise<void> {
     await this.devServer.listen();
+
+    // The changes of the shared filesystem drive the served files and HMR
+    this._stopWatching = this.devServer.watchFilesystem(getSharedMountManager(), this.config.watchRoot, {
+      ignore: ['node_modules', '.git'],
+    });
+
     logger.info('DevServerBridge started');
   }
 
@@ -94,6 +106,8 @@ export class DevServerBridge {
    * Stop the dev server
    */
   async stop(): Promise<void> {
+    this._stopWatching?.();
+    this._stopWatching = null;
     await this.devServer.close();
     logger.info('DevServerBridge stopped');
   }
@@ -0,0 +1,211 @@
+/**
+ * =============================================================================
+ * BAVINI Dev Server - Source Maps
+ * =============================================================================
+ * Reads the inline source map of a bundle to find the original location
+ * of a bundle position.
+ * =============================================================================
+ */
+
+/**
+ * Source map, as emitted by esbuild
+ */
+export interface RawSourceMap {
+  version: number;
+  sources: string[];
+  sourcesContent?: Array<string | null>;
+  names?: string[];
+  mappings: string;
+}
+
+/**
+ * Original location of a bundle position (1-based line and column)
+ */
+export interface OriginalPosition {
+  source: string;
+  line: number;
+  column: number;
+  name?: string;
+}
+
+interface MappingSegment {
+  generatedColumn: number;
+  sourceIndex?: number;
+  sourceLine?: number;
+  sourceColumn?: number;
+  nameIndex?: number;
+}
+
+const INLINE_SOURCE_MAP =
+  /^\/\/# sourceMappingURL=data:application\/json;(?:charset=utf-8;)?base64,([A-Za-z0-9+/=]+)\s*$/;
+
+const BASE64_DIGITS = new Map(
+  [...'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'].map((char, index) => [char, index]),
+);
+
+/**
+ * Original positions of a bundle, mappings are decoded on the first lookup
+ */
+export class SourceMapConsumer {
+  private readonly _sources: string[];
+  private readonly _names: string[];
+  private _lines: MappingSegment[][] | null = null;
+
+  constructor(private readonly _raw: RawSourceMap) {
+    this._sources = _raw.sources.map(normalizeSource);
+    this._names = _raw.names ?? [];
+  }
+
+  /**
+   * Original location of a bundle position, null when it has no mapping
+   *
+   * @param line - 1-based line in the bundle
+   * @param column - 1-based column in the bundle
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    this._lines ??= decodeMappings(this._raw.mappings);
+
+    const segments = this._lines[line - 1];
+
+    if (!segments?.length) {
+      return null;
+    }
+
+    const segment = findSegment(segments, column - 1);
+
+    if (segment?.sourceIndex === undefined || segment.sourceLine === undefined || segment.sourceColumn === undefined) {
+      return null;
+    }
+
+    return {
+      source: this._sources[segment.sourceIndex],
+      line: segment.sourceLine + 1,
+      column: segment.sourceColumn + 1,
+      name: segment.nameIndex === undefined ? undefined : this._names[segment.nameIndex],
+    };
+  }
+}
+
+/**
+ * Source map of the `sourceMappingURL` data URL ending a bundle
+ */
+export function extractInlineSourceMap(code: string): RawSourceMap | null {
+  const match = code.slice(code.lastIndexOf('//# sourceMappingURL=')).match(INLINE_SOURCE_MAP);
+
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const bytes = Uint8Array.from(atob(match[1]), (char) => char.charCodeAt(0));
+
+    return JSON.parse(new TextDecoder().decode(bytes)) as RawSourceMap;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Project path of a source, without the esbuild plugin namespace
+ * (`virtual-fs:/src/App.tsx` is `/src/App.tsx`, `esm-sh:https://…` a URL)
+ */
+export function normalizeSource(source: string): string {
+  return source.replace(/^[a-z][\w-]*:(?!\/\/)/i, '');
+}
+
+function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = [];
+  let sourceIndex = 0;
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  let nameIndex = 0;
+
+  for (const line of mappings.split(';')) {
+    const segments: MappingSegment[] = [];
+    let generatedColumn = 0;
+
+    for (const encoded of line.split(',')) {
+      if (!encoded) {
+        continue;
+      }
+
+      const values = decodeVlq(encoded);
+
+      generatedColumn += values[0];
+
+      if (values.length < 4) {
+        segments.push({ generatedColumn });
+        continue;
+      }
+
+      sourceIndex += values[1];
+      sourceLine += values[2];
+      sourceColumn += values[3];
+
+      const segment: MappingSegment = { generatedColumn, sourceIndex, sourceLine, sourceColumn };
+
+      if (values.length > 4) {
+        nameIndex += values[4];
+        segment.nameIndex = nameIndex;
+      }
+
+      segments.push(segment);
+    }
+
+    lines.push(segments);
+  }
+
+  return lines;
+}
+
+/**
+ * Values of a Base64 VLQ segment
+ */
+function decodeVlq(encoded: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of encoded) {
+    const digit = BASE64_DIGITS.get(char);
+
+    if (digit === undefined) {
+      throw new Error(`Invalid source map mapping: ${encoded}`);
+    }
+
+    value += (digit & 31) << shift;
+
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+
+  return values;
+}
+
+/**
+ * Last segment of a line starting at or before a 0-based column
+ */
+function findSegment(segments: MappingSegment[], column: number): MappingSegment | undefined {
+  let low = 0;
+  let high = segments.length - 1;
+  let found: MappingSegment | undefined;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+
+    if (segments[middle].generatedColumn <= column) {
+      found = segments[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return found;
+}
@@ -0,0 +1,114 @@
+/**
+ * =============================================================================
+ * BAVINI Dev Server - Stack Traces
+ * =============================================================================
+ * Parses the stack traces of the preview and remaps their bundle positions
+ * to the original project files.
+ * =============================================================================
+ */
+
+import type { SourceMapConsumer } from './source-map';
+import type { HMRError, StackFrame } from './types';
+
+/**
+ * V8 frame: `    at fn (url:1:2)` or `    at url:1:2`
+ */
+const V8_FRAME = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?\s*$/;
+
+/**
+ * Firefox and Safari frame: `fn@url:1:2`
+ */
+const GECKO_FRAME = /^\s*(.*?)@(.+?):(\d+):(\d+)\s*$/;
+
+/**
+ * Frames of a stack trace, lines that are not frames are left out
+ */
+export function parseStack(stack: string): StackFrame[] {
+  return stack.split('\n').flatMap((line) => {
+    const frame = parseFrame(line);
+
+    return frame ? [frame] : [];
+  });
+}
+
+/**
+ * Source map of a script of the preview, null for the scripts without one
+ */
+export type SourceMapLookup = (file: string) => SourceMapConsumer | null;
+
+/**
+ * Stack trace with the frames of the bundle at their original location
+ *
+ * @param stack - stack trace of the preview
+ * @param sourceMapFor - source map of the bundle script (entry or chunk) a frame belongs to
+ */
+export function remapStack(stack: string, sourceMapFor: SourceMapLookup): { stack: string; frames: StackFrame[] } {
+  const frames: StackFrame[] = [];
+
+  const lines = stack.split('\n').map((line) => {
+    const frame = parseFrame(line);
+
+    if (!frame) {
+      return line;
+    }
+
+    const position = sourceMapFor(frame.file)?.originalPositionFor(frame.line, frame.column) ?? null;
+
+    if (!position) {
+      frames.push(frame);
+      return line;
+    }
+
+    frames.push({ ...frame, file: position.source, line: position.line, column: position.column });
+
+    return line.replace(
+      `${frame.file}:${frame.line}:${frame.column}`,
+      `${position.source}:${position.line}:${position.column}`,
+    );
+  });
+
+  return { stack: lines.join('\n'), frames };
+}
+
+/**
+ * Runtime error of the preview, located at its first frame in the project sources
+ *
+ * @param sourceMapFor - source maps of the bundle scripts, the stack is kept as it is without them
+ */
+export function createRuntimeError(message: string, stack: string, sourceMapFor: SourceMapLookup | null): HMRError {
+  const remapped = sourceMapFor ? remapStack(stack, sourceMapFor) : { stack, frames: parseStack(stack) };
+  const origin = remapped.frames.find((frame) => isProjectSource(frame.file));
+
+  return {
+    message,
+    stack: remapped.stack,
+    frames: remapped.frames,
+    kind: 'runtime',
+    id: origin?.file,
+    loc: origin && { file: origin.file, line: origin.line, column: origin.column },
+  };
+}
+
+/**
+ * Whether a frame file is a project file, not a package or a script of the page
+ */
+export function isProjectSource(file: string): boolean {
+  return file.startsWith('/') && !file.includes('/node_modules/');
+}
+
+function parseFrame(line: string): StackFrame | null {
+  const match = line.match(V8_FRAME) ?? line.match(GECKO_FRAME);
+
+  if (!match) {
+    return null;
+  }
+
+  const [, functionName, file, frameLine, column] = match;
+
+  return {
+    functionName: functionName || undefined,
+    file,
+    line: Number(frameLine),
+    column: Number(column),
+  };
+}
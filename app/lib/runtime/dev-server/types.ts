@@ -88,6 +88,22 @@ export interface HMRError {
     line: number;
     column: number;
   };
+
+  /** Error of the build or thrown by the running app */
+  kind?: 'build' | 'runtime';
+
+  /** Parsed stack trace, at the original locations when a source map is available */
+  frames?: StackFrame[];
+}
+
+/**
+ * Frame of a stack trace (1-based line and column)
+ */
+export interface StackFrame {
+  functionName?: string;
+  file: string;
+  line: number;
+  column: number;
 }
 
 /**
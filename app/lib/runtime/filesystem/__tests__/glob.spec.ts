@@ -0,0 +1,85 @@
+/**
+ * Tests for glob matching and expansion
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MountManager } from '../mount-manager';
+import { MemoryBackend } from '../backends/memory-backend';
+import { expandGlob, globToRegExp, hasGlobMagic, matchGlob } from '../glob';
+
+describe('glob', () => {
+  describe('hasGlobMagic', () => {
+    it('should detect unescaped glob characters', () => {
+      expect(hasGlobMagic('*.ts')).toBe(true);
+      expect(hasGlobMagic('file?.txt')).toBe(true);
+      expect(hasGlobMagic('{a,b}')).toBe(true);
+      expect(hasGlobMagic('\\*.ts')).toBe(false);
+      expect(hasGlobMagic('src/index.ts')).toBe(false);
+    });
+  });
+
+  describe('matchGlob', () => {
+    it('should match single segments', () => {
+      expect(matchGlob('index.ts', '*.ts')).toBe(true);
+      expect(matchGlob('src/index.ts', '*.ts')).toBe(false);
+      expect(matchGlob('file1.txt', 'file[0-9].txt')).toBe(true);
+      expect(matchGlob('filea.txt', 'file[!0-9].txt')).toBe(true);
+    });
+
+    it('should match ** across directories', () => {
+      expect(matchGlob('src/a/b/index.ts', 'src/**/*.ts')).toBe(true);
+      expect(matchGlob('src/index.ts', 'src/**/*.ts')).toBe(true);
+      expect(matchGlob('lib/index.ts', 'src/**/*.ts')).toBe(false);
+    });
+
+    it('should support brace alternatives', () => {
+      expect(matchGlob('app.tsx', '*.{ts,tsx}')).toBe(true);
+      expect(matchGlob('app.js', '*.{ts,tsx}')).toBe(false);
+    });
+
+    it('should not match hidden files unless asked', () => {
+      expect(matchGlob('.env', '*')).toBe(false);
+      expect(matchGlob('.env', '*', { dot: true })).toBe(true);
+      expect(matchGlob('.env', '.*')).toBe(true);
+    });
+
+    it('should support case-insensitive matching', () => {
+      expect(globToRegExp('*.TS', { nocase: true }).test('index.ts')).toBe(true);
+    });
+  });
+
+  describe('expandGlob', () => {
+    let fs: MountManager;
+
+    beforeEach(async () => {
+      fs = new MountManager();
+      await fs.init({ mounts: [{ path: '/', backend: new MemoryBackend() }] });
+      await fs.mkdir('/project/src/components', { recursive: true });
+      await fs.writeTextFile('/project/src/index.ts', '');
+      await fs.writeTextFile('/project/src/app.tsx', '');
+      await fs.writeTextFile('/project/src/components/Button.tsx', '');
+      await fs.writeTextFile('/project/.env', '');
+    });
+
+    afterEach(async () => {
+      await fs.destroy();
+    });
+
+    it('should return relative matches for relative patterns', async () => {
+      expect(await expandGlob(fs, 'src/*', '/project')).toEqual(['src/app.tsx', 'src/components', 'src/index.ts']);
+    });
+
+    it('should return absolute matches for absolute patterns', async () => {
+      expect(await expandGlob(fs, '/project/src/*.ts')).toEqual(['/project/src/index.ts']);
+    });
+
+    it('should expand ** recursively', async () => {
+      expect(await expandGlob(fs, '**/*.tsx', '/project')).toEqual(['src/app.tsx', 'src/components/Button.tsx']);
+    });
+
+    it('should skip hidden files and return nothing when unmatched', async () => {
+      expect(await expandGlob(fs, '*', '/project')).toEqual(['src']);
+      expect(await expandGlob(fs, '*.md', '/project')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Tests for filesystem watching
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MountManager } from '../mount-manager';
+import { MemoryBackend } from '../backends/memory-backend';
+import { WatcherRegistry } from '../watcher';
+import { TextUtils, type WatchEvent } from '../types';
+
+describe('WatcherRegistry', () => {
+  let registry: WatcherRegistry;
+  let events: WatchEvent[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    registry = new WatcherRegistry();
+    events = [];
+  });
+
+  afterEach(() => {
+    registry.close();
+    vi.useRealTimers();
+  });
+
+  it('should report the changes once they settle', () => {
+    registry.watch('/src', (event) => events.push(event));
+
+    registry.emit({ type: 'create', path: '/src/a.ts' });
+    vi.advanceTimersByTime(40);
+    registry.emit({ type: 'modify', path: '/src/b.ts' });
+    vi.advanceTimersByTime(40);
+
+    expect(events).toEqual([]);
+
+    vi.advanceTimersByTime(10);
+
+    expect(events).toEqual([
+      { type: 'create', path: '/src/a.ts' },
+      { type: 'modify', path: '/src/b.ts' },
+    ]);
+  });
+
+  it('should report each change at once without debounce', () => {
+    registry.watch('/', (event) => events.push(event), { debounce: 0 });
+
+    registry.emit({ type: 'create', path: '/a.ts' });
+    registry.emit({ type: 'modify', path: '/a.ts' });
+
+    expect(events).toEqual([
+      { type: 'create', path: '/a.ts' },
+      { type: 'modify', path: '/a.ts' },
+    ]);
+  });
+
+  it('should merge the changes of a path in a batch', () => {
+    registry.watch('/', (event) => events.push(event));
+
+    registry.emit({ type: 'create', path: '/created.ts' });
+    registry.emit({ type: 'modify', path: '/created.ts' });
+    registry.emit({ type: 'create', path: '/temp.ts' });
+    registry.emit({ type: 'delete', path: '/temp.ts' });
+    registry.emit({ type: 'delete', path: '/replaced.ts' });
+    registry.emit({ type: 'create', path: '/replaced.ts' });
+    vi.runAllTimers();
+
+    expect(events).toEqual([
+      { type: 'create', path: '/created.ts' },
+      { type: 'modify', path: '/replaced.ts' },
+    ]);
+  });
+
+  it('should filter the changes by subtree and globs', () => {
+    registry.watch('/project', (event) => events.push(event), {
+      include: '**/*.{ts,tsx}',
+      ignore: 'node_modules',
+    });
+
+    registry.emit({ type: 'modify', path: '/project/src/App.tsx' });
+    registry.emit({ type: 'modify', path: '/project/src/App.css' });
+    registry.emit({ type: 'modify', path: '/project/node_modules/react/index.ts' });
+    registry.emit({ type: 'modify', path: '/other/index.ts' });
+    vi.runAllTimers();
+
+    expect(events).toEqual([{ type: 'modify', path: '/project/src/App.tsx' }]);
+  });
+
+  it('should only report direct children when not recursive', () => {
+    registry.watch('/src', (event) => events.push(event), { recursive: false });
+
+    registry.emit({ type: 'create', path: '/src/index.ts' });
+    registry.emit({ type: 'create', path: '/src/components/Button.tsx' });
+    vi.runAllTimers();
+
+    expect(events).toEqual([{ type: 'create', path: '/src/index.ts' }]);
+  });
+
+  it('should report a copy then delete run through rename() as one rename', async () => {
+    registry.watch('/', (event) => events.push(event));
+
+    await registry.rename('/src', '/lib', async () => {
+      registry.emit({ type: 'create', path: '/lib' });
+      registry.emit({ type: 'create', path: '/lib/index.ts' });
+      registry.emit({ type: 'delete', path: '/src/index.ts' });
+      registry.emit({ type: 'delete', path: '/src' });
+    });
+    vi.runAllTimers();
+
+    expect(events).toEqual([{ type: 'rename', path: '/lib', oldPath: '/src' }]);
+  });
+
+  it('should not report an unrelated delete and create of the same name as a rename', () => {
+    registry.watch('/', (event) => events.push(event));
+
+    registry.emit({ type: 'delete', path: '/src/a/index.ts' });
+    registry.emit({ type: 'create', path: '/src/b/index.ts' });
+    vi.runAllTimers();
+
+    expect(events).toEqual([
+      { type: 'delete', path: '/src/a/index.ts' },
+      { type: 'create', path: '/src/b/index.ts' },
+    ]);
+  });
+
+  it('should report a rename out of the watched path as a delete', () => {
+    registry.watch('/src', (event) => events.push(event));
+
+    registry.emit({ type: 'rename', path: '/trash/App.tsx', oldPath: '/src/App.tsx' });
+    vi.runAllTimers();
+
+    expect(events).toEqual([{ type: 'delete', path: '/src/App.tsx' }]);
+  });
+
+  it('should stop reporting once unsubscribed', () => {
+    const handle = registry.watch('/', (event) => events.push(event));
+
+    registry.emit({ type: 'create', path: '/a.ts' });
+    handle.unsubscribe();
+    vi.runAllTimers();
+
+    expect(events).toEqual([]);
+  });
+});
+
+describe('MemoryBackend watching', () => {
+  let backend: MemoryBackend;
+  let events: WatchEvent[];
+
+  beforeEach(async () => {
+    backend = new MemoryBackend();
+    await backend.init();
+    events = [];
+    backend.watch('/', (event) => events.push(event), { debounce: 0 });
+  });
+
+  afterEach(async () => {
+    await backend.destroy();
+  });
+
+  it('should report file and directory changes', async () => {
+    await backend.writeFile('/src/index.ts', TextUtils.encode('a'), { createParents: true });
+    await backend.writeFile('/src/index.ts', TextUtils.encode('b'));
+    await backend.rename('/src/index.ts', '/src/main.ts');
+    await backend.rmdir('/src', { recursive: true });
+
+    expect(events).toEqual([
+      { type: 'create', path: '/src' },
+      { type: 'create', path: '/src/index.ts' },
+      { type: 'modify', path: '/src/index.ts' },
+      { type: 'rename', path: '/src/main.ts', oldPath: '/src/index.ts' },
+      { type: 'delete', path: '/src/main.ts' },
+      { type: 'delete', path: '/src' },
+    ]);
+  });
+});
+
+describe('MountManager watching', () => {
+  let manager: MountManager;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    manager = new MountManager();
+    await manager.init({
+      mounts: [
+        { path: '/', backend: new MemoryBackend() },
+        { path: '/tmp', backend: new MemoryBackend() },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await manager.destroy();
+    vi.useRealTimers();
+  });
+
+  it('should report the changes of every mount at their full path', async () => {
+    const events: WatchEvent[] = [];
+    manager.watch('/', (event) => events.push(event));
+
+    await manager.writeTextFile('/index.ts', 'root');
+    await manager.writeTextFile('/tmp/cache.json', '{}');
+    vi.runAllTimers();
+
+    expect(events).toEqual([
+      { type: 'create', path: '/index.ts' },
+      { type: 'create', path: '/tmp/cache.json' },
+    ]);
+  });
+
+  it('should report a move across mounts as a rename', async () => {
+    await manager.writeTextFile('/tmp/draft.ts', 'draft');
+
+    const events: WatchEvent[] = [];
+    manager.watch('/', (event) => events.push(event));
+
+    await manager.rename('/tmp/draft.ts', '/draft.ts');
+    vi.runAllTimers();
+
+    expect(events).toEqual([{ type: 'rename', path: '/draft.ts', oldPath: '/tmp/draft.ts' }]);
+  });
+});
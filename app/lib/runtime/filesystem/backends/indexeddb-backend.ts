@@ -20,9 +20,13 @@ import type {
   WriteFileOptions,
   BackendCapabilities,
   BackendInitOptions,
+  WatchCallback,
+  WatchHandle,
+  WatchOptions,
 } from '../types';
 import { createFSError, FileMode } from '../types';
 import { normalizePath, dirname, basename, isInside } from '../path-utils';
+import { WatcherRegistry } from '../watcher';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('IndexedDBBackend');
@@ -66,13 +70,14 @@ export class IndexedDBBackend implements FSBackend {
   readonly capabilities: BackendCapabilities = {
     persistent: true,
     syncAccess: false,
-    watchable: false,
+    watchable: true,
     maxFileSize: 0,
     maxStorage: 0,
   };
 
   private _db: IDBDatabase | null = null;
   private _initialized = false;
+  private _watchers = new WatcherRegistry();
 
   async init(_options?: BackendInitOptions): Promise<void> {
     if (this._initialized) {
@@ -97,6 +102,8 @@ export class IndexedDBBackend implements FSBackend {
   }
 
   async destroy(): Promise<void> {
+    this._watchers.close();
+
     if (this._db) {
       this._db.close();
       this._db = null;
@@ -325,6 +332,7 @@ export class IndexedDBBackend implements FSBackend {
 
     const existingRecord = await this._getFileRecord(normalized);
     await this._createFileRecord(normalized, data, options?.mode ?? FileMode.FILE, existingRecord ?? undefined);
+    this._watchers.emit({ type: existingRecord ? 'modify' : 'create', path: normalized });
   }
 
   async unlink(path: string): Promise<void> {
@@ -344,6 +352,7 @@ export class IndexedDBBackend implements FSBackend {
     }
 
     await this._deleteFileRecord(normalized);
+    this._watchers.emit({ type: 'delete', path: normalized });
   }
 
   async copyFile(src: string, dest: string): Promise<void> {
@@ -386,6 +395,7 @@ export class IndexedDBBackend implements FSBackend {
           throw createFSError('ENOENT', 'no such file or directory', currentPath);
         }
         await this._createDirRecord(currentPath, options?.mode ?? FileMode.DIR);
+        this._watchers.emit({ type: 'create', path: currentPath });
       }
     }
   }
@@ -421,6 +431,7 @@ export class IndexedDBBackend implements FSBackend {
       // Delete all children recursively
       for (const filePath of childFiles) {
         await this._deleteFileRecord(filePath);
+        this._watchers.emit({ type: 'delete', path: filePath });
       }
 
       // Get all subdirectories (including nested)
@@ -432,12 +443,15 @@ export class IndexedDBBackend implements FSBackend {
         const filesInDir = await this._getAllFilesInDir(dirPath);
         for (const filePath of filesInDir) {
           await this._deleteFileRecord(filePath);
+          this._watchers.emit({ type: 'delete', path: filePath });
         }
         await this._deleteDirRecord(dirPath);
+        this._watchers.emit({ type: 'delete', path: dirPath });
       }
     }
 
     await this._deleteDirRecord(normalized);
+    this._watchers.emit({ type: 'delete', path: normalized });
   }
 
   private async _getAllNestedDirs(dirPath: string): Promise<string[]> {
@@ -581,15 +595,17 @@ export class IndexedDBBackend implements FSBackend {
     // Check if source exists
     const oldStat = await this.stat(oldPath);
 
-    if (oldStat.isDirectory) {
-      // Rename directory and all contents
-      await this._renameDirectory(oldNormalized, newNormalized);
-    } else {
-      // Rename file
-      const data = await this.readFile(oldPath);
-      await this.writeFile(newPath, data);
-      await this.unlink(oldPath);
-    }
+    await this._watchers.rename(oldNormalized, newNormalized, async () => {
+      if (oldStat.isDirectory) {
+        // Rename directory and all contents
+        await this._renameDirectory(oldNormalized, newNormalized);
+      } else {
+        // Rename file
+        const data = await this.readFile(oldPath);
+        await this.writeFile(newPath, data);
+        await this.unlink(oldPath);
+      }
+    });
   }
 
   private async _renameDirectory(oldPath: string, newPath: string): Promise<void> {
@@ -636,6 +652,10 @@ export class IndexedDBBackend implements FSBackend {
     });
   }
 
+  watch(path: string, callback: WatchCallback, options?: WatchOptions): WatchHandle {
+    return this._watchers.watch(path, callback, options);
+  }
+
   async flush(): Promise<void> {
     // IndexedDB writes are already persisted
   }
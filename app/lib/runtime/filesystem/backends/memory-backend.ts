@@ -16,9 +16,13 @@ import type {
   WriteFileOptions,
   BackendCapabilities,
   BackendInitOptions,
+  WatchCallback,
+  WatchHandle,
+  WatchOptions,
 } from '../types';
 import { createFSError, FileMode } from '../types';
-import { normalizePath, dirname, basename } from '../path-utils';
+import { normalizePath, dirname, basename, join } from '../path-utils';
+import { WatcherRegistry } from '../watcher';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('MemoryBackend');
@@ -83,6 +87,25 @@ function createDirNode(mode: number = FileMode.DIR): DirNode {
   };
 }
 
+/**
+ * Paths below a directory node, children before their parent
+ */
+function getDescendantPaths(dir: DirNode, path: string): string[] {
+  const paths: string[] = [];
+
+  for (const [name, child] of dir.children) {
+    const childPath = join(path, name);
+
+    if (child.type === 'directory') {
+      paths.push(...getDescendantPaths(child, childPath));
+    }
+
+    paths.push(childPath);
+  }
+
+  return paths;
+}
+
 /**
  * Memory-based filesystem backend
  * Stores everything in RAM, cleared on page reload
@@ -92,13 +115,14 @@ export class MemoryBackend implements FSBackend {
   readonly capabilities: BackendCapabilities = {
     persistent: false,
     syncAccess: true,
-    watchable: false,
+    watchable: true,
     maxFileSize: 0,
     maxStorage: 0,
   };
 
   private _root: DirNode | null = null;
   private _initialized = false;
+  private _watchers = new WatcherRegistry();
 
   async init(_options?: BackendInitOptions): Promise<void> {
     if (this._initialized) {
@@ -111,6 +135,7 @@ export class MemoryBackend implements FSBackend {
   }
 
   async destroy(): Promise<void> {
+    this._watchers.close();
     this._root = null;
     this._initialized = false;
     logger.info('Memory backend destroyed');
@@ -213,6 +238,7 @@ export class MemoryBackend implements FSBackend {
     }
 
     parent.mtime = now;
+    this._watchers.emit({ type: existing ? 'modify' : 'create', path: normalized });
   }
 
   async unlink(path: string): Promise<void> {
@@ -237,6 +263,7 @@ export class MemoryBackend implements FSBackend {
 
     parent.children.delete(name);
     parent.mtime = Date.now();
+    this._watchers.emit({ type: 'delete', path: normalizePath(path) });
   }
 
   async copyFile(src: string, dest: string): Promise<void> {
@@ -276,6 +303,7 @@ export class MemoryBackend implements FSBackend {
         current.children.set(part, newDir);
         current.mtime = now;
         current = newDir;
+        this._watchers.emit({ type: 'create', path: '/' + parts.slice(0, i + 1).join('/') });
       }
     }
   }
@@ -306,6 +334,14 @@ export class MemoryBackend implements FSBackend {
 
     parent.children.delete(name);
     parent.mtime = Date.now();
+
+    const normalized = normalizePath(path);
+
+    for (const descendant of getDescendantPaths(node, normalized)) {
+      this._watchers.emit({ type: 'delete', path: descendant });
+    }
+
+    this._watchers.emit({ type: 'delete', path: normalized });
   }
 
   async readdir(path: string): Promise<string[]> {
@@ -399,12 +435,18 @@ export class MemoryBackend implements FSBackend {
     // Add to new location
     newResult.parent.children.set(newResult.name, node);
     newResult.parent.mtime = Date.now();
+
+    this._watchers.emit({ type: 'rename', path: normalizePath(newPath), oldPath: normalizePath(oldPath) });
   }
 
   async flush(): Promise<void> {
     // No-op for memory backend
   }
 
+  watch(path: string, callback: WatchCallback, options?: WatchOptions): WatchHandle {
+    return this._watchers.watch(path, callback, options);
+  }
+
   /**
    * Clear all data (for testing)
    */
@@ -23,9 +23,13 @@ import type {
   WriteFileOptions,
   BackendCapabilities,
   BackendInitOptions,
+  WatchCallback,
+  WatchHandle,
+  WatchOptions,
 } from '../types';
 import { createFSError, FileMode } from '../types';
-import { normalizePath, dirname, basename } from '../path-utils';
+import { normalizePath, dirname, basename, join } from '../path-utils';
+import { WatcherRegistry } from '../watcher';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('OPFSBackend');
@@ -62,13 +66,14 @@ export class OPFSBackend implements FSBackend {
   readonly capabilities: BackendCapabilities = {
     persistent: true,
     syncAccess: false,
-    watchable: false,
+    watchable: true,
     maxFileSize: 0,
     maxStorage: 0,
   };
 
   private _root: FileSystemDirectoryHandle | null = null;
   private _initialized = false;
+  private _watchers = new WatcherRegistry();
   private _rootPath: string = '/';
 
   async init(options?: BackendInitOptions): Promise<void> {
@@ -92,6 +97,7 @@ export class OPFSBackend implements FSBackend {
   }
 
   async destroy(): Promise<void> {
+    this._watchers.close();
     this._root = null;
     this._initialized = false;
     logger.info('OPFS backend destroyed');
@@ -302,6 +308,7 @@ export class OPFSBackend implements FSBackend {
         : this._createDefaultMetadata(options?.mode ?? FileMode.FILE);
 
       await this._setMetadata(parent, fileName, metadata);
+      this._watchers.emit({ type: existingMeta ? 'modify' : 'create', path: normalized });
     } catch (error) {
       if (error instanceof DOMException && error.name === 'TypeMismatchError') {
         throw createFSError('EISDIR', 'illegal operation on a directory', path);
@@ -327,6 +334,7 @@ export class OPFSBackend implements FSBackend {
       await parent.getFileHandle(fileName);
       await parent.removeEntry(fileName);
       await this._deleteMetadata(parent, fileName);
+      this._watchers.emit({ type: 'delete', path: normalized });
     } catch (error) {
       if (error instanceof DOMException) {
         if (error.name === 'NotFoundError') {
@@ -385,6 +393,8 @@ export class OPFSBackend implements FSBackend {
           if (parentHandle) {
             await this._setMetadata(parentHandle, part, this._createDefaultMetadata(options?.mode ?? FileMode.DIR));
           }
+
+          this._watchers.emit({ type: 'create', path: '/' + parts.slice(0, i + 1).join('/') });
           continue;
         }
         // Re-throw FSError
@@ -427,8 +437,17 @@ export class OPFSBackend implements FSBackend {
         }
       }
 
+      // OPFS removes the contents at once, list them first to report their deletion
+      const descendants =
+        options?.recursive && this._watchers.watching ? await this._getDescendantPaths(normalized) : [];
+
       await parent.removeEntry(dirName, { recursive: options?.recursive ?? false });
       await this._deleteMetadata(parent, dirName);
+
+      for (const descendant of descendants) {
+        this._watchers.emit({ type: 'delete', path: descendant });
+      }
+      this._watchers.emit({ type: 'delete', path: normalized });
     } catch (error) {
       if (error instanceof DOMException) {
         if (error.name === 'NotFoundError') {
@@ -569,16 +588,18 @@ export class OPFSBackend implements FSBackend {
     // OPFS doesn't support rename directly, so we copy + delete
     const oldStat = await this.stat(oldPath);
 
-    if (oldStat.isDirectory) {
-      // For directories, recursively copy
-      await this._copyDirectory(oldPath, newPath);
-      await this.rmdir(oldPath, { recursive: true });
-    } else {
-      // For files, copy then delete
-      const data = await this.readFile(oldPath);
-      await this.writeFile(newPath, data);
-      await this.unlink(oldPath);
-    }
+    await this._watchers.rename(oldPath, newPath, async () => {
+      if (oldStat.isDirectory) {
+        // For directories, recursively copy
+        await this._copyDirectory(oldPath, newPath);
+        await this.rmdir(oldPath, { recursive: true });
+      } else {
+        // For files, copy then delete
+        const data = await this.readFile(oldPath);
+        await this.writeFile(newPath, data);
+        await this.unlink(oldPath);
+      }
+    });
   }
 
   /**
@@ -602,10 +623,33 @@ export class OPFSBackend implements FSBackend {
     }
   }
 
+  /**
+   * Paths below a directory, children before their parent
+   */
+  private async _getDescendantPaths(path: string): Promise<string[]> {
+    const paths: string[] = [];
+
+    for (const entry of await this.readdirWithTypes(path)) {
+      const entryPath = join(path, entry.name);
+
+      if (entry.isDirectory) {
+        paths.push(...(await this._getDescendantPaths(entryPath)));
+      }
+
+      paths.push(entryPath);
+    }
+
+    return paths;
+  }
+
   async flush(): Promise<void> {
     // OPFS writes are already persisted
   }
 
+  watch(path: string, callback: WatchCallback, options?: WatchOptions): WatchHandle {
+    return this._watchers.watch(path, callback, options);
+  }
+
   /**
    * Clear all data (for testing)
    */
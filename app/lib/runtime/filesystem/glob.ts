@@ -0,0 +1,301 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Glob Matching
+ * =============================================================================
+ * Shell-style glob patterns for the virtual filesystem.
+ * Supports *, ?, [...] classes, {a,b} alternatives, ** (any depth)
+ * and backslash escapes.
+ * =============================================================================
+ */
+
+import type { MountManager } from './mount-manager';
+import { normalizePath } from './path-utils';
+
+/**
+ * Glob options
+ */
+export interface GlobOptions {
+  /** Let wildcards match names starting with a dot (default: false) */
+  dot?: boolean;
+
+  /** Case-insensitive matching (default: false) */
+  nocase?: boolean;
+}
+
+/**
+ * Check if a pattern contains unescaped glob characters
+ */
+export function hasGlobMagic(pattern: string): boolean {
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+
+    if (char === '*' || char === '?' || char === '[' || char === '{') {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Escape glob characters so a string matches literally
+ */
+export function escapeGlob(text: string): string {
+  return text.replace(/[*?[\]{}\\]/g, '\\$&');
+}
+
+/**
+ * Remove backslash escapes from a literal pattern segment
+ */
+export function unescapeGlob(pattern: string): string {
+  return pattern.replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching whole paths.
+ * A `**` segment matches any number of directories (including none).
+ */
+export function globToRegExp(pattern: string, options: GlobOptions = {}): RegExp {
+  const segments = pattern.split('/');
+  let source = '';
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const isLast = i === segments.length - 1;
+
+    if (segment === '**') {
+      const anySegment = options.dot ? '[^/]*' : '(?!\\.)[^/]*';
+      source += isLast ? `(?:${anySegment}(?:/${anySegment})*)?` : `(?:${anySegment}/)*`;
+      continue;
+    }
+
+    source += segmentToRegExpSource(segment, options);
+
+    if (!isLast) {
+      source += '/';
+    }
+  }
+
+  return new RegExp(`^${source}$`, options.nocase ? 'i' : '');
+}
+
+/**
+ * Test a path against a glob pattern
+ */
+export function matchGlob(path: string, pattern: string, options: GlobOptions = {}): boolean {
+  return globToRegExp(pattern, options).test(path);
+}
+
+/**
+ * Expand a glob pattern against the filesystem.
+ * Relative patterns are resolved from `cwd` and returned relative to it,
+ * absolute patterns return absolute paths. Results are sorted.
+ */
+export async function expandGlob(
+  fs: MountManager,
+  pattern: string,
+  cwd: string = '/',
+  options: GlobOptions = {},
+): Promise<string[]> {
+  const absolute = pattern.startsWith('/');
+  const segments = pattern.split('/').filter(Boolean);
+  let candidates: Array<{ abs: string; rel: string }> = [{ abs: absolute ? '/' : normalizePath(cwd), rel: '' }];
+
+  for (let i = 0; i < segments.length && candidates.length > 0; i++) {
+    const segment = segments[i];
+    const isLast = i === segments.length - 1;
+    const next: Array<{ abs: string; rel: string }> = [];
+
+    if (segment === '**') {
+      for (const candidate of candidates) {
+        if (!isLast) {
+          next.push(candidate);
+        }
+
+        await walk(fs, candidate, isLast, options, next);
+      }
+    } else if (!hasGlobMagic(segment)) {
+      const name = unescapeGlob(segment);
+
+      for (const candidate of candidates) {
+        const entry = joinCandidate(candidate, name);
+
+        try {
+          const stat = await fs.stat(entry.abs);
+
+          if (isLast || stat.isDirectory) {
+            next.push(entry);
+          }
+        } catch {
+          // Does not exist
+        }
+      }
+    } else {
+      const regex = new RegExp(`^${segmentToRegExpSource(segment, options)}$`, options.nocase ? 'i' : '');
+
+      for (const candidate of candidates) {
+        let entries;
+
+        try {
+          entries = await fs.readdirWithTypes(candidate.abs);
+        } catch {
+          continue;
+        }
+
+        for (const entry of entries) {
+          if (!regex.test(entry.name) || (!isLast && !entry.isDirectory)) {
+            continue;
+          }
+
+          next.push(joinCandidate(candidate, entry.name));
+        }
+      }
+    }
+
+    candidates = next;
+  }
+
+  const results = candidates.map((candidate) => (absolute ? candidate.abs : candidate.rel)).filter(Boolean);
+
+  return Array.from(new Set(results)).sort();
+}
+
+/**
+ * Collect every descendant of a directory (directories only unless `includeFiles`)
+ */
+async function walk(
+  fs: MountManager,
+  dir: { abs: string; rel: string },
+  includeFiles: boolean,
+  options: GlobOptions,
+  out: Array<{ abs: string; rel: string }>,
+): Promise<void> {
+  let entries;
+
+  try {
+    entries = await fs.readdirWithTypes(dir.abs);
+  } catch {
+    return;
+  }
+
+  for (const entry of entries) {
+    if (!options.dot && entry.name.startsWith('.')) {
+      continue;
+    }
+
+    const child = joinCandidate(dir, entry.name);
+
+    if (entry.isDirectory) {
+      out.push(child);
+      await walk(fs, child, includeFiles, options, out);
+    } else if (includeFiles) {
+      out.push(child);
+    }
+  }
+}
+
+/**
+ * Append a name to a candidate path
+ */
+function joinCandidate(candidate: { abs: string; rel: string }, name: string): { abs: string; rel: string } {
+  return {
+    abs: normalizePath(name, candidate.abs),
+    rel: candidate.rel ? `${candidate.rel}/${name}` : name,
+  };
+}
+
+/**
+ * Convert a single path segment to a regular expression source
+ */
+function segmentToRegExpSource(segment: string, options: GlobOptions): string {
+  let source = '';
+  let braceDepth = 0;
+
+  // Hidden files only match patterns that start with a literal dot
+  if (!options.dot && segment.length > 0 && segment[0] !== '.' && (segment[0] === '*' || segment[0] === '?')) {
+    source += '(?!\\.)';
+  }
+
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+
+    switch (char) {
+      case '\\':
+        if (i + 1 < segment.length) {
+          source += escapeRegExp(segment[++i]);
+        } else {
+          source += '\\\\';
+        }
+
+        break;
+
+      case '*':
+        source += '[^/]*';
+        break;
+
+      case '?':
+        source += '[^/]';
+        break;
+
+      case '[': {
+        const close = segment.indexOf(']', i + 2);
+
+        if (close === -1) {
+          source += '\\[';
+          break;
+        }
+
+        let body = segment.substring(i + 1, close);
+
+        if (body.startsWith('!') || body.startsWith('^')) {
+          body = `^${body.substring(1)}`;
+        }
+
+        source += `[${body.replace(/\\/g, '\\\\')}]`;
+        i = close;
+        break;
+      }
+
+      case '{':
+        braceDepth++;
+        source += '(?:';
+        break;
+
+      case '}':
+        if (braceDepth > 0) {
+          braceDepth--;
+          source += ')';
+        } else {
+          source += '\\}';
+        }
+
+        break;
+
+      case ',':
+        source += braceDepth > 0 ? '|' : ',';
+        break;
+
+      default:
+        source += escapeRegExp(char);
+    }
+  }
+
+  // Close any brace group left open at the end of the segment
+  while (braceDepth-- > 0) {
+    source += ')';
+  }
+
+  return source;
+}
+
+/**
+ * Escape a character for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
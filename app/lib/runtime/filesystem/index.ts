@@ -18,6 +18,7 @@ export type {
   WatchEventType,
   WatchCallback,
   WatchHandle,
+  WatchOptions,
   BackendCapabilities,
   BackendInitOptions,
   MountPoint,
@@ -43,6 +44,12 @@ export {
   getAncestors,
 } from './path-utils';
 
+// Glob matching
+export { hasGlobMagic, escapeGlob, unescapeGlob, globToRegExp, matchGlob, expandGlob, type GlobOptions } from './glob';
+
+// Watching
+export { WatcherRegistry } from './watcher';
+
 // Security utilities (FIX 1.4: Path traversal protection)
 export {
   SecurityError,
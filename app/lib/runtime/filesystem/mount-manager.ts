@@ -19,9 +19,13 @@ import type {
   RmdirOptions,
   WriteFileOptions,
   MountPoint,
+  WatchCallback,
+  WatchHandle,
+  WatchOptions,
 } from './types';
 import { createFSError, TextUtils } from './types';
-import { normalizePath, isInside, basename } from './path-utils';
+import { normalizePath, isInside, join } from './path-utils';
+import { WatcherRegistry } from './watcher';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('MountManager');
@@ -40,6 +44,10 @@ export interface MountManagerConfig {
 export class MountManager {
   private _mounts: MountPoint[] = [];
   private _initialized = false;
+  private _watchers = new WatcherRegistry();
+
+  /** Subscriptions to the changes of each mounted backend, by mount path */
+  private _backendWatches = new Map<string, WatchHandle>();
 
   /**
    * Initialize the mount manager with backends
@@ -64,9 +72,13 @@ export class MountManager {
    * Destroy the mount manager and all backends
    */
   async destroy(): Promise<void> {
+    this._watchers.close();
+
     for (const mount of this._mounts) {
+      this._backendWatches.get(mount.path)?.unsubscribe();
       await mount.backend.destroy();
     }
+    this._backendWatches.clear();
     this._mounts = [];
     this._initialized = false;
     logger.info('Mount manager destroyed');
@@ -92,6 +104,23 @@ export class MountManager {
     this._mounts.push({ path: normalizedPath, backend, readonly });
     this._mounts.sort((a, b) => b.path.length - a.path.length);
 
+    // Forward the backend changes at once, the watchers of the manager batch them
+    if (backend.watch) {
+      const handle = backend.watch(
+        '/',
+        (event) => {
+          this._watchers.emit({
+            type: event.type,
+            path: join(normalizedPath, event.path),
+            oldPath: event.oldPath === undefined ? undefined : join(normalizedPath, event.oldPath),
+          });
+        },
+        { debounce: 0 },
+      );
+
+      this._backendWatches.set(normalizedPath, handle);
+    }
+
     logger.info(`Mounted ${backend.name} at ${normalizedPath}`);
   }
 
@@ -107,6 +136,8 @@ export class MountManager {
     }
 
     const mount = this._mounts[index];
+    this._backendWatches.get(normalizedPath)?.unsubscribe();
+    this._backendWatches.delete(normalizedPath);
     await mount.backend.destroy();
     this._mounts.splice(index, 1);
 
@@ -326,14 +357,16 @@ export class MountManager {
       // Cross-mount rename: copy + delete
       const stat = await this.stat(oldPath);
 
-      if (stat.isDirectory) {
-        await this._crossMountCopyDirectory(oldPath, newPath);
-        await this.rmdir(oldPath, { recursive: true });
-      } else {
-        const data = await this.readFile(oldPath);
-        await this.writeFile(newPath, data);
-        await this.unlink(oldPath);
-      }
+      await this._watchers.rename(oldPath, newPath, async () => {
+        if (stat.isDirectory) {
+          await this._crossMountCopyDirectory(oldPath, newPath);
+          await this.rmdir(oldPath, { recursive: true });
+        } else {
+          const data = await this.readFile(oldPath);
+          await this.writeFile(newPath, data);
+          await this.unlink(oldPath);
+        }
+      });
     }
   }
 
@@ -358,6 +391,15 @@ export class MountManager {
     }
   }
 
+  /**
+   * Watch a path for changes across the mounts below it.
+   * Changes of backends without watch() support are not reported.
+   * @returns Handle to stop watching
+   */
+  watch(path: string, callback: WatchCallback, options?: WatchOptions): WatchHandle {
+    return this._watchers.watch(path, callback, options);
+  }
+
   /**
    * Flush all backends
    */
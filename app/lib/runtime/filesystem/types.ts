@@ -99,6 +99,23 @@ export interface WatchHandle {
   unsubscribe: () => void;
 }
 
+/**
+ * Options for watch()
+ */
+export interface WatchOptions {
+  /** Watch the whole subtree, not only the direct children (default: true) */
+  recursive?: boolean;
+
+  /** Only report paths matching these globs, relative to the watched path */
+  include?: string | string[];
+
+  /** Never report paths matching these globs (nor what is below them), relative to the watched path */
+  ignore?: string | string[];
+
+  /** Delay in ms for changes to settle before reporting them as a batch, 0 reports each change at once (default: 50) */
+  debounce?: number;
+}
+
 /**
  * Backend capabilities for feature detection
  */
@@ -251,7 +268,7 @@ export interface FSBackend {
    * Watch a path for changes
    * @returns Handle to stop watching
    */
-  watch?(path: string, callback: WatchCallback): WatchHandle;
+  watch?(path: string, callback: WatchCallback, options?: WatchOptions): WatchHandle;
 }
 
 /**
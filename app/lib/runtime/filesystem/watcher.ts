@@ -0,0 +1,285 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Watcher Registry
+ * =============================================================================
+ * Change subscriptions shared by the backends and the mount manager.
+ * Each subscription filters the changes by subtree and globs, then batches
+ * them until they settle for its debounce delay. A batch reports at most one
+ * event per path. Backends without native rename copy then delete, they run
+ * the copy through rename() so that watchers only see the move.
+ * =============================================================================
+ */
+
+import type { WatchCallback, WatchEvent, WatchHandle, WatchOptions } from './types';
+import { matchGlob, type GlobOptions } from './glob';
+import { normalizePath, relative, isInside } from './path-utils';
+
+/**
+ * Default delay to batch changes, in ms
+ */
+const DEFAULT_DEBOUNCE = 50;
+
+/**
+ * Globs of a subscription match hidden files like any other
+ */
+const GLOB_OPTIONS: GlobOptions = { dot: true };
+
+interface Subscription {
+  root: string;
+  callback: WatchCallback;
+  recursive: boolean;
+  include: string[];
+  ignore: string[];
+  debounce: number;
+
+  /** Changes of the current batch by path, in the order they happened */
+  pending: Map<string, WatchEvent>;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface Move {
+  oldPath: string;
+  newPath: string;
+}
+
+/**
+ * Watchers of a filesystem, notified of the changes emitted by its operations
+ */
+export class WatcherRegistry {
+  private _subscriptions = new Set<Subscription>();
+  private _moves = new Set<Move>();
+
+  /**
+   * Whether anyone watches, to skip collecting changes nobody reads
+   */
+  get watching(): boolean {
+    return this._subscriptions.size > 0;
+  }
+
+  /**
+   * Watch a path and, unless `recursive` is false, everything below it
+   */
+  watch(path: string, callback: WatchCallback, options: WatchOptions = {}): WatchHandle {
+    const subscription: Subscription = {
+      root: normalizePath(path),
+      callback,
+      recursive: options.recursive ?? true,
+      include: toArray(options.include),
+      ignore: toArray(options.ignore),
+      debounce: options.debounce ?? DEFAULT_DEBOUNCE,
+      pending: new Map(),
+      timer: null,
+    };
+
+    this._subscriptions.add(subscription);
+
+    return {
+      unsubscribe: () => this._unsubscribe(subscription),
+    };
+  }
+
+  /**
+   * Report a change to the watchers of its path
+   */
+  emit(event: WatchEvent): void {
+    if (this._isMoving(event)) {
+      return;
+    }
+
+    for (const subscription of this._subscriptions) {
+      const scoped = scopeEvent(subscription, event);
+
+      if (!scoped) {
+        continue;
+      }
+
+      if (subscription.debounce <= 0) {
+        subscription.callback(scoped);
+        continue;
+      }
+
+      queueEvent(subscription.pending, scoped);
+
+      if (subscription.timer) {
+        clearTimeout(subscription.timer);
+      }
+
+      subscription.timer = setTimeout(() => this._flush(subscription), subscription.debounce);
+    }
+  }
+
+  /**
+   * Run a rename done by copy then delete and report it as one rename:
+   * the changes below both paths are dropped while it runs
+   */
+  async rename(oldPath: string, newPath: string, move: () => Promise<void>): Promise<void> {
+    const entry: Move = { oldPath: normalizePath(oldPath), newPath: normalizePath(newPath) };
+
+    this._moves.add(entry);
+
+    try {
+      await move();
+    } finally {
+      this._moves.delete(entry);
+    }
+
+    this.emit({ type: 'rename', path: entry.newPath, oldPath: entry.oldPath });
+  }
+
+  /**
+   * Stop all the watchers, pending changes are dropped
+   */
+  close(): void {
+    for (const subscription of this._subscriptions) {
+      this._unsubscribe(subscription);
+    }
+  }
+
+  private _isMoving(event: WatchEvent): boolean {
+    for (const move of this._moves) {
+      if (isInside(move.oldPath, event.path) || isInside(move.newPath, event.path)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private _flush(subscription: Subscription): void {
+    const events = [...subscription.pending.values()];
+
+    subscription.pending.clear();
+    subscription.timer = null;
+
+    for (const event of events) {
+      subscription.callback(event);
+    }
+  }
+
+  private _unsubscribe(subscription: Subscription): void {
+    if (subscription.timer) {
+      clearTimeout(subscription.timer);
+    }
+
+    subscription.pending.clear();
+    subscription.timer = null;
+    this._subscriptions.delete(subscription);
+  }
+}
+
+function toArray(patterns: string | string[] | undefined): string[] {
+  if (!patterns) {
+    return [];
+  }
+
+  return Array.isArray(patterns) ? patterns : [patterns];
+}
+
+/**
+ * Event as seen by a subscription, a rename crossing its scope is a create or a delete
+ */
+function scopeEvent(subscription: Subscription, event: WatchEvent): WatchEvent | null {
+  const watched = isWatched(subscription, event.path);
+
+  if (event.type !== 'rename' || !event.oldPath) {
+    return watched ? event : null;
+  }
+
+  const oldWatched = isWatched(subscription, event.oldPath);
+
+  if (watched && oldWatched) {
+    return event;
+  }
+
+  if (watched) {
+    return { type: 'create', path: event.path };
+  }
+
+  return oldWatched ? { type: 'delete', path: event.oldPath } : null;
+}
+
+function isWatched(subscription: Subscription, path: string): boolean {
+  const { root, recursive, include, ignore } = subscription;
+
+  if (!isInside(root, path)) {
+    return false;
+  }
+
+  if (path === root) {
+    return true;
+  }
+
+  const relativePath = relative(root, path);
+  const segments = relativePath.split('/');
+
+  if (!recursive && segments.length > 1) {
+    return false;
+  }
+
+  if (include.length > 0 && !include.some((pattern) => matchGlob(relativePath, pattern, GLOB_OPTIONS))) {
+    return false;
+  }
+
+  // an ignored directory hides everything below it
+  for (let i = 1; i <= segments.length; i++) {
+    const ancestor = segments.slice(0, i).join('/');
+
+    if (ignore.some((pattern) => matchGlob(ancestor, pattern, GLOB_OPTIONS))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Add a change to a batch, merged with the previous change of its path
+ */
+function queueEvent(pending: Map<string, WatchEvent>, event: WatchEvent): void {
+  if (event.type === 'rename' && event.oldPath) {
+    const previous = pending.get(event.oldPath);
+
+    pending.delete(event.oldPath);
+
+    // a path created in this batch is only created at its new name
+    if (previous?.type === 'create') {
+      queueEvent(pending, { type: 'create', path: event.path });
+      return;
+    }
+
+    const oldPath = previous?.type === 'rename' ? previous.oldPath : event.oldPath;
+
+    pending.set(event.path, { type: 'rename', path: event.path, oldPath });
+
+    return;
+  }
+
+  const previous = pending.get(event.path);
+  const merged = previous ? mergeEvents(previous, event) : event;
+
+  pending.delete(event.path);
+
+  if (merged) {
+    pending.set(merged.path, merged);
+  }
+}
+
+/**
+ * Net change of two changes of the same path, null when they cancel out
+ */
+function mergeEvents(previous: WatchEvent, event: WatchEvent): WatchEvent | null {
+  switch (previous.type) {
+    case 'create': {
+      return event.type === 'delete' ? null : previous;
+    }
+    case 'delete': {
+      return event.type === 'create' ? { type: 'modify', path: event.path } : event;
+    }
+    case 'rename': {
+      return event.type === 'delete' ? { type: 'delete', path: previous.oldPath ?? event.path } : previous;
+    }
+    default: {
+      return event.type === 'create' ? { type: 'modify', path: event.path } : event;
+    }
+  }
+}
@@ -34,6 +34,8 @@ export type {
   FileRecord,
   Loader,
   BundleResult,
+  ChunkInfo,
+  ModuleSize,
   BuildError,
   BuildWarning,
   ConsoleLog,
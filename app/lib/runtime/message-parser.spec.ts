@@ -326,6 +326,28 @@ describe('StreamingMessageParser', () => {
     });
   });
 
+  describe('patch actions', () => {
+    it('should parse the file path and keep the patch content as is', () => {
+      const onActionClose = vi.fn();
+
+      const parser = new StreamingMessageParser({
+        artifactElement: () => '',
+        callbacks: { onActionClose },
+      });
+
+      const patch = '<<<<<<< SEARCH\nconst a = 1;\n=======\nconst a = 2;\n>>>>>>> REPLACE';
+      const input = `<boltArtifact title="Edit" id="artifact_1"><boltAction type="patch" filePath="src/a.ts">\n${patch}\n</boltAction></boltArtifact>`;
+
+      parser.parse('msg_1', input);
+
+      expect(onActionClose).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: { type: 'patch', filePath: 'src/a.ts', content: patch },
+        }),
+      );
+    });
+  });
+
   describe('python actions', () => {
     it('should parse python action without packages', () => {
       const onActionOpen = vi.fn();
@@ -7,6 +7,7 @@ import type {
   GitHubAction,
   GitHubOperation,
   GitOperation,
+  PatchAction,
   PythonAction,
   RestartAction,
   ShellAction,
@@ -321,14 +322,14 @@ export class StreamingMessageParser {
       content: '',
     };
 
-    if (actionType === 'file') {
+    if (actionType === 'file' || actionType === 'patch') {
       const filePath = this.#extractAttribute(actionTag, 'filePath') as string;
 
       if (!filePath) {
         logger.debug('File path not specified');
       }
 
-      (actionAttributes as FileAction).filePath = filePath;
+      (actionAttributes as FileAction | PatchAction).filePath = filePath;
     } else if (actionType === 'git') {
       const operation = this.#extractAttribute(actionTag, 'operation') as GitOperation;
 
@@ -432,7 +433,7 @@ export class StreamingMessageParser {
       logger.warn(`Unknown action type '${actionType}'`);
     }
 
-    return actionAttributes as FileAction | ShellAction | GitAction | PythonAction | GitHubAction;
+    return actionAttributes as FileAction | PatchAction | ShellAction | GitAction | PythonAction | GitHubAction;
   }
 
   #extractAttribute(tag: string, attributeName: string): string | undefined {
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for Node.js assert module
+ */
+
+import { describe, it, expect } from 'vitest';
+import assert, { AssertionError, strict } from '../core-modules/assert';
+
+describe('assert module', () => {
+  it('should be callable like assert.ok', () => {
+    expect(() => assert(true)).not.toThrow();
+    expect(() => assert(0, 'zero')).toThrow(AssertionError);
+    expect(() => assert.ok('')).toThrow('The expression evaluated to a falsy value');
+  });
+
+  it('should expose assertion details on the error', () => {
+    try {
+      assert.strictEqual(1, 2);
+    } catch (error) {
+      expect(error).toBeInstanceOf(AssertionError);
+      expect(error).toMatchObject({ code: 'ERR_ASSERTION', actual: 1, expected: 2, operator: 'strictEqual' });
+      expect((error as AssertionError).generatedMessage).toBe(true);
+    }
+  });
+
+  it('should compare loosely and strictly', () => {
+    expect(() => assert.equal(1, '1')).not.toThrow();
+    expect(() => assert.equal(NaN, NaN)).not.toThrow();
+    expect(() => assert.strictEqual(1, '1')).toThrow(AssertionError);
+    expect(() => assert.notStrictEqual(1, '1')).not.toThrow();
+  });
+
+  it('should compare deeply', () => {
+    const actual = { a: [1, { b: new Date(0) }], m: new Map([[{ k: 1 }, new Set([1, 2])]]) };
+    const expected = { a: [1, { b: new Date(0) }], m: new Map([[{ k: 1 }, new Set([2, 1])]]) };
+
+    expect(() => assert.deepStrictEqual(actual, expected)).not.toThrow();
+    expect(() => assert.deepEqual({ a: 1 }, { a: '1' })).not.toThrow();
+    expect(() => assert.deepStrictEqual({ a: 1 }, { a: '1' })).toThrow(AssertionError);
+    expect(() => assert.deepStrictEqual([1, 2], { 0: 1, 1: 2 })).toThrow(AssertionError);
+    expect(() => assert.notDeepStrictEqual(new Uint8Array([1]), new Uint8Array([2]))).not.toThrow();
+  });
+
+  it('should handle cyclic structures', () => {
+    const a: Record<string, unknown> = { name: 'a' };
+    const b: Record<string, unknown> = { name: 'a' };
+    a.self = a;
+    b.self = b;
+
+    expect(() => assert.deepStrictEqual(a, b)).not.toThrow();
+  });
+
+  it('should check thrown errors', () => {
+    const fn = () => {
+      throw new TypeError('bad input');
+    };
+
+    expect(() => assert.throws(fn, TypeError)).not.toThrow();
+    expect(() => assert.throws(fn, /bad/)).not.toThrow();
+    expect(() => assert.throws(fn, { name: 'TypeError', message: /input/ })).not.toThrow();
+    expect(() => assert.throws(fn, RangeError)).toThrow(AssertionError);
+    expect(() => assert.throws(() => undefined)).toThrow('Missing expected exception.');
+    expect(() => assert.doesNotThrow(fn)).toThrow('Got unwanted exception.');
+  });
+
+  it('should check rejections', async () => {
+    await expect(assert.rejects(Promise.reject(new Error('nope')), /nope/)).resolves.toBeUndefined();
+    await expect(assert.rejects(async () => undefined)).rejects.toThrow('Missing expected rejection.');
+    await expect(assert.doesNotReject(Promise.resolve(1))).resolves.toBeUndefined();
+  });
+
+  it('should match strings against regular expressions', () => {
+    expect(() => assert.match('hello', /^h/)).not.toThrow();
+    expect(() => assert.doesNotMatch('hello', /^h/)).toThrow(AssertionError);
+  });
+
+  it('should throw custom messages and errors', () => {
+    expect(() => assert.fail('boom')).toThrow('boom');
+    expect(() => assert.equal(1, 2, new RangeError('custom'))).toThrow(RangeError);
+    expect(() => assert.ifError(null)).not.toThrow();
+    expect(() => assert.ifError(new Error('oops'))).toThrow('ifError got unwanted exception: oops');
+  });
+
+  it('should use strict comparisons in strict mode', () => {
+    expect(() => strict.equal(1, '1')).toThrow(AssertionError);
+    expect(() => strict.deepEqual({ a: 1 }, { a: '1' })).toThrow(AssertionError);
+    expect(assert.strict).toBe(strict);
+    expect(strict.strict).toBe(strict);
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Unit tests for child_process running commands through the virtual shell
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MountManager } from '../../filesystem/mount-manager';
+import { MemoryBackend } from '../../filesystem/backends/memory-backend';
+import { createShellProcessLauncher } from '../../terminal/shell-launcher';
+import { setProcessLauncher, setSyncProcessLauncher } from '../process-launcher';
+import { isPortListening, resetServerRegistry } from '../server-registry';
+import * as childProcess from '../core-modules/child_process';
+import type { ChildProcess } from '../core-modules/child_process';
+
+interface Outcome {
+  code: number | null;
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+  events: string[];
+}
+
+const waitForClose = (child: ChildProcess) =>
+  new Promise<Outcome>((resolve) => {
+    const outcome: Outcome = { code: null, signal: null, stdout: '', stderr: '', events: [] };
+
+    child.stdout?.on('data', (chunk) => {
+      outcome.stdout += String(chunk);
+    });
+    child.stderr?.on('data', (chunk) => {
+      outcome.stderr += String(chunk);
+    });
+    child.on('exit', () => outcome.events.push('exit'));
+    child.on('close', (code, signal) => {
+      outcome.events.push('close');
+      outcome.code = code as number | null;
+      outcome.signal = signal as string | null;
+      resolve(outcome);
+    });
+  });
+
+describe('child_process', () => {
+  let fs: MountManager;
+
+  beforeEach(async () => {
+    fs = new MountManager();
+    await fs.init({ mounts: [{ path: '/', backend: new MemoryBackend() }] });
+    await fs.mkdir('/project/node_modules/greeter', { recursive: true });
+    await fs.writeTextFile(
+      '/project/node_modules/greeter/package.json',
+      JSON.stringify({ name: 'greeter', main: 'lib/main.js' }),
+    );
+    await fs.mkdir('/project/node_modules/greeter/lib', { recursive: true });
+    await fs.writeTextFile('/project/node_modules/greeter/lib/main.js', "module.exports = (name) => 'Hello ' + name;");
+
+    setProcessLauncher(createShellProcessLauncher(fs, { cwd: '/project' }));
+  });
+
+  afterEach(async () => {
+    setProcessLauncher(null);
+    resetServerRegistry();
+    await fs.destroy();
+  });
+
+  describe('spawn', () => {
+    it('should run builtins and stream their output', async () => {
+      const outcome = await waitForClose(childProcess.spawn('echo', ['hello world']));
+
+      expect(outcome).toMatchObject({ code: 0, signal: null, stdout: 'hello world\n', events: ['exit', 'close'] });
+    });
+
+    it('should report exit codes and missing commands', async () => {
+      expect((await waitForClose(childProcess.spawn('false'))).code).toBe(1);
+
+      const missing = await waitForClose(childProcess.spawn('no-such-command'));
+
+      expect(missing.code).toBe(127);
+      expect(missing.stderr).toContain('no-such-command: command not found');
+    });
+
+    it('should pipe stdin to the process', async () => {
+      const child = childProcess.spawn('sort');
+      const closed = waitForClose(child);
+
+      child.stdin!.write('pear\napple\n');
+      child.stdin!.end('banana\n');
+
+      expect((await closed).stdout).toBe('apple\nbanana\npear\n');
+    });
+
+    it('should fail with ENOENT without a shell', async () => {
+      setProcessLauncher(null);
+
+      const child = childProcess.spawn('echo', ['hi']);
+      const error = await new Promise<Error>((resolve) => child.on('error', (err) => resolve(err as Error)));
+
+      expect(error).toMatchObject({ code: 'ENOENT', message: 'spawn echo ENOENT' });
+    });
+  });
+
+  describe('node', () => {
+    it('should run scripts with their dependencies and arguments', async () => {
+      await fs.writeTextFile(
+        '/project/index.js',
+        "const greet = require('greeter');\nconst { suffix } = require('./lib/util');\nconsole.log(greet(process.argv[2]) + suffix);",
+      );
+      await fs.mkdir('/project/lib');
+      await fs.writeTextFile('/project/lib/util.js', "exports.suffix = '!';");
+
+      const outcome = await waitForClose(childProcess.spawn('node', ['index.js', 'Ada']));
+
+      expect(outcome).toMatchObject({ code: 0, stdout: 'Hello Ada!\n', stderr: '' });
+    });
+
+    it('should run ES module entry points', async () => {
+      await fs.writeTextFile(
+        '/project/main.mjs',
+        "import greet from 'greeter';\nimport { setTimeout as sleep } from 'node:timers/promises';\nawait sleep(10);\nconsole.log(greet(process.argv[2]));",
+      );
+      await fs.mkdir('/project/app');
+      await fs.writeTextFile('/project/app/package.json', JSON.stringify({ type: 'module' }));
+      await fs.writeTextFile('/project/app/index.js', 'export const ok = true;\nconsole.log(import.meta.url);');
+
+      expect(await waitForClose(childProcess.spawn('node', ['main.mjs', 'Ada']))).toMatchObject({
+        code: 0,
+        stdout: 'Hello Ada\n',
+        stderr: '',
+      });
+      expect((await waitForClose(childProcess.spawn('node', ['app/index.js']))).stdout).toBe(
+        'file:///project/app/index.js\n',
+      );
+    });
+
+    it('should run package binaries found on the PATH', async () => {
+      await fs.mkdir('/project/node_modules/.bin');
+      await fs.writeTextFile(
+        '/project/node_modules/.bin/greet',
+        "#!/usr/bin/env node\nconsole.log(require('../greeter/lib/main.js')(process.argv.slice(2).join(' ')));\n",
+      );
+
+      const outcome = await waitForClose(
+        childProcess.spawn('greet', ['the', 'world'], {
+          env: { PATH: '/project/node_modules/.bin:/usr/bin' },
+        }),
+      );
+
+      expect(outcome).toMatchObject({ code: 0, stdout: 'Hello the world\n' });
+    });
+
+    it('should wait for timers and honour process.exit', async () => {
+      await fs.writeTextFile(
+        '/project/timers.js',
+        "setTimeout(() => { console.log('later'); process.exit(3); }, 20);\nconsole.log('now');",
+      );
+
+      const outcome = await waitForClose(childProcess.spawn('node', ['timers.js']));
+
+      expect(outcome).toMatchObject({ code: 3, stdout: 'now\nlater\n' });
+    });
+
+    it('should read piped stdin', async () => {
+      await fs.writeTextFile(
+        '/project/upper.js',
+        "let input = '';\nprocess.stdin.on('data', (d) => { input += d; });\nprocess.stdin.on('end', () => process.stdout.write(input.toUpperCase()));",
+      );
+
+      const outcome = await waitForClose(childProcess.exec('echo shout | node upper.js'));
+
+      expect(outcome.stdout).toBe('SHOUT\n');
+    });
+
+    it('should report uncaught exceptions', async () => {
+      await fs.writeTextFile('/project/crash.js', "throw new TypeError('boom');");
+
+      const outcome = await waitForClose(childProcess.spawn('node', ['crash.js']));
+
+      expect(outcome.code).toBe(1);
+      expect(outcome.stderr).toContain('TypeError');
+      expect(outcome.stderr).toContain('boom');
+    });
+
+    it('should stop on kill()', async () => {
+      await fs.writeTextFile('/project/forever.js', "setInterval(() => console.log('tick'), 5);");
+
+      const child = childProcess.spawn('node', ['forever.js']);
+      const closed = waitForClose(child);
+
+      child.stdout!.once('data', () => child.kill());
+
+      expect(await closed).toMatchObject({ code: null, signal: 'SIGTERM' });
+      expect(child.killed).toBe(true);
+    });
+
+    it('should keep serving until killed and free the port', async () => {
+      await fs.writeTextFile(
+        '/project/server.js',
+        "require('http').createServer((req, res) => res.end('ok')).listen(3000, () => console.log('ready'));",
+      );
+
+      const child = childProcess.spawn('node', ['server.js']);
+      const closed = waitForClose(child);
+
+      await new Promise((resolve) => child.stdout!.once('data', resolve));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(child.exitCode).toBeNull();
+      expect(isPortListening(3000)).toBe(true);
+
+      child.kill();
+
+      expect(await closed).toMatchObject({ signal: 'SIGTERM' });
+      expect(isPortListening(3000)).toBe(false);
+
+      // The port can be used again
+      const again = childProcess.spawn('node', ['server.js']);
+      const closedAgain = waitForClose(again);
+
+      await new Promise((resolve) => again.stdout!.once('data', resolve));
+      again.kill();
+
+      expect((await closedAgain).stderr).toBe('');
+    });
+
+    it('should exit once its servers are closed or unref()ed', async () => {
+      await fs.writeTextFile(
+        '/project/oneshot.js',
+        "const http = require('http');\nconst server = http.createServer().listen(0, () => server.close(() => console.log('closed')));\nhttp.createServer().listen(0).unref();",
+      );
+
+      const outcome = await waitForClose(childProcess.spawn('node', ['oneshot.js']));
+
+      expect(outcome).toMatchObject({ code: 0, stdout: 'closed\n' });
+    });
+
+    it('should report EADDRINUSE without an error listener as an uncaught exception', async () => {
+      await fs.writeTextFile(
+        '/project/twice.js',
+        "const http = require('http');\nhttp.createServer().listen(4000);\nhttp.createServer().listen(4000);",
+      );
+
+      const outcome = await waitForClose(childProcess.spawn('node', ['twice.js']));
+
+      expect(outcome.code).toBe(1);
+      expect(outcome.stderr).toContain('EADDRINUSE');
+      expect(isPortListening(4000)).toBe(false);
+    });
+  });
+
+  describe('exec', () => {
+    it('should run whole command lines in the shell', async () => {
+      const result = await new Promise<{ error: Error | null; stdout: unknown }>((resolve) => {
+        childProcess.exec('echo one && echo two | wc -l', (error, stdout) => resolve({ error, stdout }));
+      });
+
+      expect(result.error).toBeNull();
+      expect(result.stdout).toBe('one\n1\n');
+    });
+
+    it('should pass an error with the exit code on failure', async () => {
+      const error = await new Promise<childProcess.ExecException | null>((resolve) => {
+        childProcess.exec('cat missing.txt', (err) => resolve(err));
+      });
+
+      expect(error).toMatchObject({ code: 1, cmd: 'cat missing.txt', killed: false });
+      expect(error?.message).toContain('Command failed: cat missing.txt');
+    });
+
+    it('should reject the synchronous variants without a synchronous launcher', () => {
+      expect(() => childProcess.execSync('echo hi')).toThrow(expect.objectContaining({ code: 'ERR_NOT_SUPPORTED' }));
+      expect(childProcess.spawnSync('echo').error).toMatchObject({ code: 'ERR_NOT_SUPPORTED' });
+    });
+
+    it('should run the synchronous variants through the synchronous launcher', () => {
+      const commands: string[] = [];
+
+      setSyncProcessLauncher(({ command, stdin }) => {
+        commands.push(command);
+
+        if (command.startsWith('cat')) {
+          return { status: 1, stdout: '', stderr: 'cat: missing.txt: No such file or directory\n' };
+        }
+
+        return { status: 0, stdout: stdin ?? 'hi\n', stderr: '' };
+      });
+
+      try {
+        expect(childProcess.execSync('echo hi', { encoding: 'utf8' })).toBe('hi\n');
+        expect(String(childProcess.execFileSync('echo', ['hello world']))).toBe('hi\n');
+
+        const result = childProcess.spawnSync('read', { input: 'piped', encoding: 'utf8' });
+
+        expect(result).toMatchObject({ status: 0, stdout: 'piped', stderr: '', signal: null });
+        expect(() => childProcess.execSync('cat missing.txt', { stdio: 'pipe' })).toThrow(
+          expect.objectContaining({ status: 1, message: expect.stringContaining('Command failed: cat missing.txt') }),
+        );
+        expect(commands).toEqual(['echo hi', "echo 'hello world'", 'read', 'cat missing.txt']);
+      } finally {
+        setSyncProcessLauncher(null);
+      }
+    });
+  });
+
+  describe('fork', () => {
+    it('should exchange messages over the IPC channel', async () => {
+      await fs.writeTextFile(
+        '/project/worker.js',
+        "process.on('message', (msg) => {\n  if (msg.done) { process.disconnect(); return; }\n  process.send({ doubled: msg.value * 2 });\n});",
+      );
+
+      const child = childProcess.fork('worker.js', [], { silent: true });
+      const received: unknown[] = [];
+      const closed = waitForClose(child);
+
+      child.on('message', (message) => {
+        received.push(message);
+        child.send({ done: true });
+      });
+      child.send({ value: 21 });
+
+      expect((await closed).code).toBe(0);
+      expect(received).toEqual([{ doubled: 42 }]);
+      expect(child.connected).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Unit tests for os, zlib, https, buffer and worker_threads, and for loading
+ * core modules through require()
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as os from '../core-modules/os';
+import * as zlib from '../core-modules/zlib';
+import * as https from '../core-modules/https';
+import * as bufferModule from '../core-modules/buffer';
+import * as workerThreads from '../core-modules/worker_threads';
+import { Buffer } from '../globals/buffer';
+import { ModuleLoader } from '../module/require';
+import type { ModuleFS } from '../module/types';
+
+const emptyFs: ModuleFS = {
+  readFile: async () => '',
+  readFileSync: () => '',
+  existsSync: () => false,
+  statSync: () => ({ isFile: () => false, isDirectory: () => false }),
+  readdirSync: () => [],
+};
+
+type ZlibFunction = (input: string | Buffer, callback: (error: Error | null, result: Buffer) => void) => void;
+
+const run = (fn: ZlibFunction, input: string | Buffer) =>
+  new Promise<Buffer>((resolve, reject) => fn(input, (error, result) => (error ? reject(error) : resolve(result))));
+
+const collect = (stream: zlib.ZlibBase, input: Uint8Array) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+
+    stream.on('data', (chunk) => chunks.push(chunk as Buffer));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+    stream.end(input);
+  });
+
+describe('os module', () => {
+  it('should describe a linux machine', () => {
+    expect(os.platform()).toBe('linux');
+    expect(os.type()).toBe('Linux');
+    expect(os.EOL).toBe('\n');
+    expect(os.homedir()).toBe('/home');
+    expect(os.tmpdir()).toBe('/tmp');
+    expect(os.cpus().length).toBe(os.availableParallelism());
+    expect(os.totalmem()).toBeGreaterThan(0);
+    expect(os.networkInterfaces().lo[0].address).toBe('127.0.0.1');
+    expect(os.constants.signals.SIGTERM).toBe(15);
+  });
+
+  it('should validate priorities', () => {
+    os.setPriority(5);
+
+    expect(os.getPriority()).toBe(5);
+    expect(() => os.setPriority(42)).toThrow(RangeError);
+  });
+});
+
+describe('zlib module', () => {
+  const text = 'hello zlib '.repeat(100);
+
+  it('should round-trip gzip, deflate and raw deflate', async () => {
+    const gzip = (input: string) => run(zlib.gzip, input);
+    const gunzip = (input: Buffer) => run(zlib.gunzip, input);
+    const deflate = (input: string) => run(zlib.deflate, input);
+    const inflate = (input: Buffer) => run(zlib.inflate, input);
+    const deflateRaw = (input: string) => run(zlib.deflateRaw, input);
+    const inflateRaw = (input: Buffer) => run(zlib.inflateRaw, input);
+
+    const gzipped = await gzip(text);
+
+    expect(gzipped[0]).toBe(0x1f);
+    expect(gzipped[1]).toBe(0x8b);
+    expect(gzipped.length).toBeLessThan(text.length);
+    expect((await gunzip(gzipped)).toString()).toBe(text);
+    expect((await inflate(await deflate(text))).toString()).toBe(text);
+    expect((await inflateRaw(await deflateRaw(text))).toString()).toBe(text);
+  });
+
+  it('should detect the format when unzipping', async () => {
+    const gzipped = await collect(zlib.createGzip(), Buffer.from(text));
+    const deflated = await collect(zlib.createDeflate(), Buffer.from(text));
+
+    expect((await collect(zlib.createUnzip(), gzipped)).toString()).toBe(text);
+    expect((await collect(zlib.createUnzip(), deflated)).toString()).toBe(text);
+  });
+
+  it('should report corrupt input as a data error', async () => {
+    const callback = vi.fn();
+
+    await new Promise<void>((resolve) => {
+      zlib.gunzip(Buffer.from('not gzip'), (error, result) => {
+        callback(error, result);
+        resolve();
+      });
+    });
+
+    expect(callback.mock.calls[0][0]).toMatchObject({ code: 'Z_DATA_ERROR', errno: zlib.constants.Z_DATA_ERROR });
+  });
+
+  it('should round-trip the synchronous APIs and interoperate with the streams', async () => {
+    const gzipped = zlib.gzipSync(text, { level: 9 });
+
+    expect(zlib.gunzipSync(gzipped).toString()).toBe(text);
+    expect((await run(zlib.gunzip, gzipped)).toString()).toBe(text);
+    expect(zlib.gunzipSync(await run(zlib.gzip, text)).toString()).toBe(text);
+    expect(zlib.inflateSync(zlib.deflateSync(text)).toString()).toBe(text);
+    expect(zlib.inflateRawSync(zlib.deflateRawSync(Buffer.from(text))).toString()).toBe(text);
+    expect(zlib.unzipSync(zlib.deflateSync(text)).toString()).toBe(text);
+    expect(zlib.unzipSync(gzipped).toString()).toBe(text);
+  });
+
+  it('should report corrupt input and bad levels from the synchronous APIs', () => {
+    expect(() => zlib.inflateSync(Buffer.from('not zlib'))).toThrow(expect.objectContaining({ code: 'Z_DATA_ERROR' }));
+    expect(() => zlib.gzipSync(text, { level: 12 })).toThrow(RangeError);
+  });
+
+  it('should reject brotli APIs', () => {
+    expect(() => zlib.brotliCompressSync()).toThrow(expect.objectContaining({ code: 'ERR_NOT_SUPPORTED' }));
+    expect(() => zlib.createBrotliCompress()).toThrow(expect.objectContaining({ code: 'ERR_NOT_SUPPORTED' }));
+  });
+
+  it('should compute crc32 checksums', () => {
+    expect(zlib.crc32('hello')).toBe(0x3610a686);
+    expect(zlib.crc32('world', zlib.crc32('hello '))).toBe(zlib.crc32('hello world'));
+  });
+});
+
+describe('https module', () => {
+  it('should use an https agent', () => {
+    expect(https.globalAgent.defaultPort).toBe(443);
+    expect(https.globalAgent.protocol).toBe('https:');
+  });
+
+  it('should default requests to https on port 443', () => {
+    const req = https.request({ hostname: 'example.com', path: '/api' });
+
+    expect(req.protocol).toBe('https:');
+    expect(req.port).toBe(443);
+    req.abort();
+  });
+});
+
+describe('buffer module', () => {
+  it('should expose Buffer and helpers', () => {
+    expect(bufferModule.Buffer).toBe(Buffer);
+    expect(bufferModule.constants.MAX_LENGTH).toBe(bufferModule.kMaxLength);
+    expect(bufferModule.isUtf8(Buffer.from('héllo'))).toBe(true);
+    expect(bufferModule.isUtf8(new Uint8Array([0xff]))).toBe(false);
+    expect(bufferModule.isAscii(Buffer.from('hello'))).toBe(true);
+    expect(bufferModule.transcode(Buffer.from('é'), 'utf8', 'latin1')).toEqual(Buffer.from([0xe9]));
+  });
+});
+
+describe('worker_threads module', () => {
+  it('should report the main thread', () => {
+    expect(workerThreads.isMainThread).toBe(true);
+    expect(workerThreads.parentPort).toBeNull();
+  });
+
+  it('should emit an error when starting a worker', async () => {
+    const worker = new workerThreads.Worker('./worker.js');
+    const error = await new Promise<Error>((resolve) => worker.on('error', (err) => resolve(err as Error)));
+
+    expect(error).toMatchObject({ code: 'ERR_WORKER_UNSUPPORTED_OPERATION' });
+  });
+});
+
+describe('require() of core modules', () => {
+  const requireFn = new ModuleLoader(emptyFs).createRequire('/index.js');
+
+  it('should load every newly supported module with and without the node: prefix', () => {
+    for (const name of ['os', 'url', 'querystring', 'assert', 'buffer', 'https', 'zlib', 'worker_threads']) {
+      expect(requireFn(name)).toBeDefined();
+      expect(requireFn(`node:${name}`)).toBe(requireFn(name));
+    }
+  });
+
+  it('should return a callable assert', () => {
+    const assert = requireFn('assert') as (value: unknown) => void;
+
+    expect(() => assert(false)).toThrow();
+    expect(requireFn('assert/strict')).toBe((assert as unknown as { strict: unknown }).strict);
+  });
+
+  it('should load timers and timers/promises', async () => {
+    const { setTimeout } = requireFn('timers/promises') as {
+      setTimeout: (ms: number, value: string) => Promise<string>;
+    };
+
+    expect(typeof (requireFn('timers') as { setImmediate: unknown }).setImmediate).toBe('function');
+    await expect(setTimeout(1, 'done')).resolves.toBe('done');
+  });
+
+  it('should expose Buffer from the buffer module', () => {
+    expect((requireFn('buffer') as { Buffer: unknown }).Buffer).toBe(Buffer);
+  });
+});
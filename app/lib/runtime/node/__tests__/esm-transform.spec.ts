@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the ESM transform and ES modules in the module loader
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformESM } from '../module/esm-transform';
+import { ModuleLoader } from '../module/require';
+import type { ModuleFS } from '../module/types';
+
+function createFS(files: Record<string, string>): ModuleFS {
+  const isDirectory = (path: string) => Object.keys(files).some((file) => file.startsWith(`${path}/`));
+
+  return {
+    readFile: async (path) => files[path],
+    readFileSync: (path) => {
+      if (!(path in files)) {
+        throw new Error(`ENOENT: ${path}`);
+      }
+
+      return files[path];
+    },
+    existsSync: (path) => path in files || isDirectory(path),
+    statSync: (path) => {
+      if (!(path in files) && !isDirectory(path)) {
+        throw new Error(`ENOENT: ${path}`);
+      }
+
+      return { isFile: () => path in files, isDirectory: () => isDirectory(path) };
+    },
+    readdirSync: () => [],
+  };
+}
+
+describe('transformESM', () => {
+  it('should hoist imports and list their specifiers', () => {
+    const { code, imports } = transformESM(
+      "console.log(a);\nimport a, { b as c } from './a.js';\nimport * as ns from 'pkg';\nimport './side.js';",
+    );
+
+    expect(imports).toEqual(['./a.js', 'pkg', './side.js']);
+    expect(code.split('\n')).toHaveLength(4);
+    expect(code.indexOf('__esm.import("./a.js")')).toBeLessThan(code.indexOf('console.log(a)'));
+  });
+
+  it('should ignore import and export inside strings, comments, templates and regexps', () => {
+    const source = [
+      'const text = \'import x from "y"\';',
+      '// export default 1',
+      'const template = `export ${"import z from \'w\'"}`;',
+      'const pattern = /import a from "b"/;',
+    ].join('\n');
+
+    expect(transformESM(source).imports).toEqual([]);
+  });
+
+  it('should reject unsupported statements', () => {
+    expect(() => transformESM("import { a from './a.js';")).toThrow(SyntaxError);
+  });
+});
+
+describe('ES modules in the module loader', () => {
+  it('should run ES modules importing each other and CommonJS modules', () => {
+    const loader = new ModuleLoader(
+      createFS({
+        '/app/main.mjs': [
+          "import greet, { punctuation as mark } from './greet.mjs';",
+          "import * as all from './greet.mjs';",
+          "import legacy, { version } from './legacy.cjs';",
+          "import path from 'node:path';",
+          'export const result = [greet("Ada") + mark, typeof all.default, legacy.name, version, path.basename("/x/y.js")];',
+          'export { mark as punctuation };',
+          "export * from './greet.mjs';",
+        ].join('\n'),
+        '/app/greet.mjs':
+          "export default function greet(name) { return `Hello ${name}`; }\nexport const punctuation = '!';",
+        '/app/legacy.cjs': "module.exports = { name: 'legacy', version: 2 };",
+      }),
+      { cwd: '/app' },
+    );
+
+    const exports = loader.loadMain('/app/main.mjs') as Record<string, unknown>;
+
+    expect(exports.result).toEqual(['Hello Ada!', 'function', 'legacy', 2, 'y.js']);
+    expect(exports.punctuation).toBe('!');
+    expect(Object.keys(exports)).not.toContain('default');
+  });
+
+  it('should treat .js files of "type": "module" packages as ES modules', () => {
+    const loader = new ModuleLoader(
+      createFS({
+        '/app/package.json': JSON.stringify({ type: 'module' }),
+        '/app/index.js':
+          "import { value } from './value.js';\nexport default value * 2;\nexport const url = import.meta.url;",
+        '/app/value.js': 'export let value = 21;',
+      }),
+      { cwd: '/app' },
+    );
+
+    const exports = loader.loadMain('/app/index.js') as Record<string, unknown>;
+
+    expect(exports.default).toBe(42);
+    expect(exports.url).toBe('file:///app/index.js');
+  });
+
+  it('should give CommonJS modules requiring an ES module its namespace', () => {
+    const loader = new ModuleLoader(
+      createFS({
+        '/app/main.cjs':
+          "const esm = require('./lib.mjs');\nmodule.exports = [esm.default, esm.named, esm.__esModule];",
+        '/app/lib.mjs': "export default 'default';\nexport function named() { return 'named'; }",
+      }),
+      { cwd: '/app' },
+    );
+
+    const [defaultExport, named, esModule] = loader.loadMain('/app/main.cjs') as [string, () => string, boolean];
+
+    expect(defaultExport).toBe('default');
+    expect(named()).toBe('named');
+    expect(esModule).toBe(true);
+  });
+
+  it('should run bodies using top-level await as async functions', async () => {
+    const loader = new ModuleLoader(
+      createFS({
+        '/app/main.mjs': "const value = await Promise.resolve('done');\nexport { value };",
+      }),
+      { cwd: '/app' },
+    );
+
+    const exports = loader.loadMain('/app/main.mjs') as Record<string, unknown>;
+    const pending = loader.pendingEvaluations();
+
+    expect(pending).not.toBeNull();
+    await pending;
+    expect(exports.value).toBe('done');
+    expect(loader.pendingEvaluations()).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for http.Server and the server registry
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createServer, type IncomingMessage, type ServerResponse } from '../core-modules/http';
+import { dispatchServerRequest, getListeningPorts, onServerPortChange, resetServerRegistry } from '../server-registry';
+
+const decode = (body: Uint8Array) => new TextDecoder().decode(body);
+
+const listen = (server: ReturnType<typeof createServer>, port: number) =>
+  new Promise<void>((resolve) => server.listen(port, resolve));
+
+describe('http.Server', () => {
+  afterEach(() => {
+    resetServerRegistry();
+  });
+
+  it('should register its port when listening and release it on close', async () => {
+    const events = vi.fn();
+    const unsubscribe = onServerPortChange(events);
+    const server = createServer(() => undefined);
+
+    await listen(server, 3000);
+
+    expect(getListeningPorts()).toEqual([3000]);
+    expect(server.address()?.port).toBe(3000);
+
+    server.close();
+
+    expect(getListeningPorts()).toEqual([]);
+    expect(events.mock.calls).toEqual([
+      [3000, 'open'],
+      [3000, 'close'],
+    ]);
+
+    unsubscribe();
+  });
+
+  it('should route requests to the request listener', async () => {
+    const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ method: req.method, url: req.url, host: req.headers.host }));
+    });
+
+    await listen(server, 3000);
+
+    const response = await dispatchServerRequest(3000, {
+      method: 'get',
+      url: '/api/users?page=2',
+      headers: { Host: 'localhost:3000' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('application/json');
+    expect(JSON.parse(decode(response.body))).toEqual({
+      method: 'GET',
+      url: '/api/users?page=2',
+      host: 'localhost:3000',
+    });
+  });
+
+  it('should deliver the request body to data listeners added later', async () => {
+    const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      setTimeout(() => {
+        let body = '';
+
+        req.on('data', (chunk) => {
+          body += String(chunk);
+        });
+        req.on('end', () => res.end(`received ${body}`));
+      }, 0);
+    });
+
+    await listen(server, 3000);
+
+    const response = await dispatchServerRequest(3000, {
+      method: 'POST',
+      url: '/',
+      headers: {},
+      body: new TextEncoder().encode('hello'),
+    });
+
+    expect(decode(response.body)).toBe('received hello');
+  });
+
+  it('should keep repeated headers and send stored cookies back', async () => {
+    const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      if (req.url === '/login') {
+        res.setHeader('Set-Cookie', ['session=abc; Path=/; HttpOnly', 'theme=dark']);
+      } else if (req.url === '/logout') {
+        res.setHeader('Set-Cookie', 'session=; Max-Age=0');
+      }
+
+      res.end(req.headers.cookie ?? '');
+    });
+
+    await listen(server, 3000);
+
+    const login = await dispatchServerRequest(3000, { method: 'GET', url: '/login', headers: {} });
+
+    expect(login.headers['set-cookie']).toEqual(['session=abc; Path=/; HttpOnly', 'theme=dark']);
+    expect(decode((await dispatchServerRequest(3000, { method: 'GET', url: '/', headers: {} })).body)).toBe(
+      'session=abc; theme=dark',
+    );
+
+    await dispatchServerRequest(3000, { method: 'GET', url: '/logout', headers: {} });
+
+    expect(decode((await dispatchServerRequest(3000, { method: 'GET', url: '/', headers: {} })).body)).toBe(
+      'theme=dark',
+    );
+  });
+
+  it('should use the standard status text when only statusCode is set', async () => {
+    const server = createServer((_req: IncomingMessage, res: ServerResponse) => {
+      res.statusCode = 404;
+      res.end('missing');
+    });
+
+    await listen(server, 3000);
+
+    const response = await dispatchServerRequest(3000, { method: 'GET', url: '/nope', headers: {} });
+
+    expect(response.status).toBe(404);
+    expect(response.statusText).toBe('Not Found');
+  });
+
+  it('should answer 502 when nothing listens and 500 when the handler throws', async () => {
+    expect((await dispatchServerRequest(4000, { method: 'GET', url: '/', headers: {} })).status).toBe(502);
+
+    const server = createServer(() => {
+      throw new Error('boom');
+    });
+
+    await listen(server, 3000);
+
+    const response = await dispatchServerRequest(3000, { method: 'GET', url: '/', headers: {} });
+
+    expect(response.status).toBe(500);
+    expect(decode(response.body)).toBe('boom');
+  });
+
+  it('should emit EADDRINUSE when the port is taken', async () => {
+    await listen(createServer(), 3000);
+
+    const second = createServer();
+    const error = await new Promise<NodeJS.ErrnoException>((resolve) => {
+      second.on('error', (err) => resolve(err as NodeJS.ErrnoException));
+      second.listen(3000);
+    });
+
+    expect(error.code).toBe('EADDRINUSE');
+    expect(second.listening).toBe(false);
+  });
+
+  it('should pick a free port for listen(0)', async () => {
+    const server = createServer();
+
+    await listen(server, 0);
+
+    expect(server.address()?.port).toBeGreaterThan(0);
+    expect(getListeningPorts()).toEqual([server.address()?.port]);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for node processes running in workers: the sync channel and the
+ * host driving a worker runtime (run in-thread with a fake message channel)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MountManager } from '../../filesystem/mount-manager';
+import { MemoryBackend } from '../../filesystem/backends/memory-backend';
+import { setProcessLauncher, setSyncProcessLauncher } from '../process-launcher';
+import { setServerRegistryBridge } from '../server-registry';
+import { SyncCaller, SyncResponder, SYNC_BUFFER_SIZE } from '../worker/sync-channel';
+import { runNodeProcessInWorker, type NodeWorker } from '../worker/process-host';
+import { startNodeWorker, type WorkerScope } from '../worker/worker-runtime';
+import type { SyncCall } from '../worker/protocol';
+
+/**
+ * Host and worker ends delivering messages asynchronously, like postMessage()
+ */
+function createWorkerPair(): { worker: NodeWorker; terminated: () => boolean } {
+  const hostListeners: Record<string, Array<(event: unknown) => void>> = { message: [], error: [] };
+  const workerListeners: Array<(event: unknown) => void> = [];
+  let terminated = false;
+
+  const deliver = (listeners: Array<(event: unknown) => void>, data: unknown) =>
+    setTimeout(() => {
+      if (!terminated) {
+        listeners.forEach((listener) => listener({ data }));
+      }
+    }, 0);
+
+  const scope: WorkerScope = {
+    postMessage: (message) => deliver(hostListeners.message, message),
+    addEventListener: (_type, listener) => workerListeners.push(listener as (event: unknown) => void),
+  };
+
+  startNodeWorker(scope);
+
+  const worker = {
+    postMessage: (message: unknown) => deliver(workerListeners, message),
+    addEventListener: (type: string, listener: (event: unknown) => void) => hostListeners[type].push(listener),
+    terminate: () => {
+      terminated = true;
+    },
+  } as NodeWorker;
+
+  return { worker, terminated: () => terminated };
+}
+
+describe('sync channel', () => {
+  const respondWith = (respond: (responder: SyncResponder) => void) => {
+    const buffer = new SharedArrayBuffer(SYNC_BUFFER_SIZE);
+    const responder = new SyncResponder(buffer);
+
+    // The answer is written before the caller waits, so Atomics.wait() returns at once
+    return new SyncCaller(buffer, (call: SyncCall) =>
+      call.method === 'continue' ? responder.continue() : respond(responder),
+    );
+  };
+
+  it('should return results larger than the buffer', () => {
+    const text = 'é'.repeat(SYNC_BUFFER_SIZE);
+    const caller = respondWith((responder) => responder.respond({ result: { text } }));
+
+    expect(caller.call({ method: 'listen', port: 3000 })).toEqual({ text });
+  });
+
+  it('should throw errors with their code', () => {
+    const caller = respondWith((responder) =>
+      responder.respond({ error: { name: 'Error', message: 'listen EADDRINUSE', code: 'EADDRINUSE' } }),
+    );
+
+    expect(() => caller.call({ method: 'listen', port: 3000 })).toThrow(
+      expect.objectContaining({ message: 'listen EADDRINUSE', code: 'EADDRINUSE' }),
+    );
+  });
+});
+
+describe('node processes in workers', () => {
+  let fs: MountManager;
+
+  beforeEach(async () => {
+    fs = new MountManager();
+    await fs.init({ mounts: [{ path: '/', backend: new MemoryBackend() }] });
+    await fs.mkdir('/project', { recursive: true });
+  });
+
+  afterEach(async () => {
+    setServerRegistryBridge(null);
+    setProcessLauncher(null);
+    setSyncProcessLauncher(null);
+    await fs.destroy();
+  });
+
+  const run = (options: { filename?: string; eval?: string; signal?: AbortSignal }) => {
+    const { worker, terminated } = createWorkerPair();
+    let stdout = '';
+    let stderr = '';
+
+    const exited = runNodeProcessInWorker(
+      {
+        fs,
+        cwd: '/project',
+        ...options,
+        stdout: (data) => {
+          stdout += data;
+        },
+        stderr: (data) => {
+          stderr += data;
+        },
+      },
+      worker,
+    ).then((code) => ({ code, stdout, stderr, terminated: terminated() }));
+
+    return exited;
+  };
+
+  it('should run scripts reading the filesystem of the page', async () => {
+    await fs.writeTextFile('/project/data.txt', 'from the page');
+    await fs.writeTextFile('/project/lib.js', "module.exports = 'lib';");
+    await fs.writeTextFile(
+      '/project/main.js',
+      [
+        "const lib = require('./lib');",
+        "require('fs').promises.readFile('/project/data.txt', 'utf8').then((text) => {",
+        '  console.log(lib, text);',
+        "  return require('fs').promises.writeFile('/project/out.txt', text.toUpperCase());",
+        '});',
+      ].join('\n'),
+    );
+
+    const outcome = await run({ filename: 'main.js' });
+
+    expect(outcome).toMatchObject({ code: 0, stdout: 'lib from the page\n', stderr: '', terminated: true });
+    expect(await fs.readTextFile('/project/out.txt')).toBe('FROM THE PAGE');
+  });
+
+  it('should report errors and exit codes', async () => {
+    const outcome = await run({
+      eval: "require('fs').promises.readFile('/missing').catch((error) => {\n  console.error(error.code);\n  process.exitCode = 3;\n});",
+    });
+
+    expect(outcome.code).toBe(3);
+    expect(outcome.stderr).toContain('ENOENT');
+  });
+
+  it('should exit with the signal code when killed', async () => {
+    const controller = new AbortController();
+    const exited = run({ eval: "setInterval(() => {}, 1000); console.log('started');", signal: controller.signal });
+
+    setTimeout(() => controller.abort(), 50);
+
+    expect(await exited).toMatchObject({ code: 130, stdout: 'started\n', terminated: true });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for Node.js stream module
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Readable, Writable, Transform } from '../core-modules/stream';
+
+describe('stream', () => {
+  describe('Readable', () => {
+    it('should start flowing when a data listener is added', async () => {
+      const readable = new Readable({ read: () => undefined });
+      const chunks: string[] = [];
+
+      readable.push('a');
+      readable.push('b');
+      readable.push(null);
+
+      await new Promise<void>((resolve) => {
+        readable.on('data', (chunk) => chunks.push(String(chunk)));
+
+        // Added after 'data': still called once the data was emitted
+        readable.on('end', () => resolve());
+      });
+
+      expect(chunks.join('')).toBe('ab');
+    });
+
+    it('should stay paused when paused before the data listener runs', async () => {
+      const readable = new Readable({ read: () => undefined });
+      const onData = vi.fn();
+
+      readable.push('a');
+      readable.pause();
+      readable.on('data', onData);
+
+      await Promise.resolve();
+
+      expect(onData).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Writable', () => {
+    it('should call final and finish only after pending async writes', async () => {
+      const events: string[] = [];
+      const writable = new Writable({
+        write(chunk, _encoding, callback) {
+          setTimeout(() => {
+            events.push(`write ${chunk}`);
+            callback();
+          }, 5);
+        },
+        final(callback) {
+          events.push('final');
+          callback();
+        },
+      });
+
+      writable.on('finish', () => events.push('finish'));
+
+      await new Promise<void>((resolve) => {
+        writable.write('a');
+        writable.write('b');
+        writable.end(() => {
+          events.push('end callback');
+          resolve();
+        });
+      });
+
+      expect(events).toEqual(['write a', 'write b', 'final', 'finish', 'end callback']);
+    });
+  });
+
+  describe('Transform', () => {
+    it('should flush after an asynchronous transform', async () => {
+      const transform = new Transform({
+        transform(chunk, _encoding, callback) {
+          setTimeout(() => callback(null, String(chunk).toUpperCase()), 5);
+        },
+        flush(callback) {
+          callback(null, '!');
+        },
+      });
+      const chunks: string[] = [];
+
+      await new Promise<void>((resolve) => {
+        transform.on('data', (chunk) => chunks.push(String(chunk)));
+        transform.on('end', () => resolve());
+        transform.end('hello');
+      });
+
+      expect(chunks).toEqual(['HELLO', '!']);
+    });
+  });
+});
@@ -0,0 +1,728 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Assert Module
+ * =============================================================================
+ * Node.js assert module implementation, including the strict mode variant.
+ * =============================================================================
+ */
+
+import { inspect } from './util';
+
+/**
+ * Expected error accepted by throws() and rejects()
+ */
+export type ErrorMatcher =
+  | RegExp
+  | (new (...args: any[]) => Error)
+  | ((error: unknown) => boolean)
+  | Record<string, unknown>
+  | Error;
+
+/**
+ * AssertionError options
+ */
+export interface AssertionErrorOptions {
+  message?: string;
+  actual?: unknown;
+  expected?: unknown;
+  operator?: string;
+}
+
+/**
+ * Error thrown when an assertion fails
+ */
+export class AssertionError extends Error {
+  code = 'ERR_ASSERTION';
+  actual: unknown;
+  expected: unknown;
+  operator: string | undefined;
+  generatedMessage: boolean;
+
+  constructor(options: AssertionErrorOptions) {
+    const generatedMessage = options.message === undefined;
+
+    super(
+      generatedMessage
+        ? `${inspect(options.actual)} ${options.operator} ${inspect(options.expected)}`
+        : String(options.message),
+    );
+
+    this.name = 'AssertionError';
+    this.actual = options.actual;
+    this.expected = options.expected;
+    this.operator = options.operator;
+    this.generatedMessage = generatedMessage;
+  }
+}
+
+type Message = string | Error | undefined;
+
+function innerFail(
+  options: Omit<AssertionErrorOptions, 'message'> & { message?: Message; defaultMessage: string },
+): never {
+  if (options.message instanceof Error) {
+    throw options.message;
+  }
+
+  const error = new AssertionError({
+    message: options.message ?? options.defaultMessage,
+    actual: options.actual,
+    expected: options.expected,
+    operator: options.operator,
+  });
+
+  error.generatedMessage = options.message === undefined;
+  throw error;
+}
+
+/*
+ * -----------------------------------------------------------------------------
+ * Deep equality
+ * -----------------------------------------------------------------------------
+ */
+
+function isObjectLike(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+function isDeepEqual(a: unknown, b: unknown, strict: boolean, memo: Map<object, object>): boolean {
+  if (strict ? Object.is(a, b) : a === b) {
+    return true;
+  }
+
+  if (!isObjectLike(a) || !isObjectLike(b)) {
+    if (strict || isObjectLike(a) || isObjectLike(b)) {
+      return false;
+    }
+
+    return a == b || (Number.isNaN(a) && Number.isNaN(b));
+  }
+
+  if (strict && Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+    return false;
+  }
+
+  if (Object.prototype.toString.call(a) !== Object.prototype.toString.call(b)) {
+    return false;
+  }
+
+  // Cyclic structures: assume equal while the pair is being compared
+  if (memo.get(a) === b) {
+    return true;
+  }
+
+  memo.set(a, b);
+
+  try {
+    return compareObjects(a, b, strict, memo);
+  } finally {
+    memo.delete(a);
+  }
+}
+
+function compareObjects(a: object, b: object, strict: boolean, memo: Map<object, object>): boolean {
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    if (a.getTime() !== b.getTime()) {
+      return false;
+    }
+  } else if (a instanceof RegExp && b instanceof RegExp) {
+    if (a.source !== b.source || a.flags !== b.flags || a.lastIndex !== b.lastIndex) {
+      return false;
+    }
+  } else if (a instanceof Error && b instanceof Error) {
+    if (a.message !== b.message || a.name !== b.name) {
+      return false;
+    }
+  } else if (ArrayBuffer.isView(a) && ArrayBuffer.isView(b)) {
+    const bytesA = new Uint8Array(a.buffer, a.byteOffset, a.byteLength);
+    const bytesB = new Uint8Array(b.buffer, b.byteOffset, b.byteLength);
+
+    if (bytesA.length !== bytesB.length || bytesA.some((byte, i) => byte !== bytesB[i])) {
+      return false;
+    }
+  } else if (isBoxedPrimitive(a) && isBoxedPrimitive(b)) {
+    if (!Object.is(a.valueOf(), b.valueOf())) {
+      return false;
+    }
+  }
+
+  if (a instanceof Map && b instanceof Map) {
+    if (!compareMaps(a, b, strict, memo)) {
+      return false;
+    }
+  } else if (a instanceof Set && b instanceof Set) {
+    if (!compareSets(a, b, strict, memo)) {
+      return false;
+    }
+  }
+
+  return compareKeys(a, b, strict, memo);
+}
+
+function compareKeys(a: object, b: object, strict: boolean, memo: Map<object, object>): boolean {
+  const keysA = ownKeys(a, strict);
+  const keysB = ownKeys(b, strict);
+
+  if (keysA.length !== keysB.length) {
+    return false;
+  }
+
+  const recordA = a as Record<PropertyKey, unknown>;
+  const recordB = b as Record<PropertyKey, unknown>;
+
+  for (const key of keysA) {
+    if (!Object.prototype.propertyIsEnumerable.call(b, key)) {
+      return false;
+    }
+
+    if (!isDeepEqual(recordA[key], recordB[key], strict, memo)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function ownKeys(value: object, strict: boolean): PropertyKey[] {
+  // Typed array elements were already compared byte by byte
+  const keys: PropertyKey[] = ArrayBuffer.isView(value) ? [] : Object.keys(value);
+
+  if (strict) {
+    for (const symbol of Object.getOwnPropertySymbols(value)) {
+      if (Object.prototype.propertyIsEnumerable.call(value, symbol)) {
+        keys.push(symbol);
+      }
+    }
+  }
+
+  return keys;
+}
+
+function compareMaps(a: Map<unknown, unknown>, b: Map<unknown, unknown>, strict: boolean, memo: Map<object, object>) {
+  if (a.size !== b.size) {
+    return false;
+  }
+
+  const unmatched = new Set(b.keys());
+
+  for (const [key, value] of a) {
+    if (!isObjectLike(key) && b.has(key)) {
+      if (!isDeepEqual(value, b.get(key), strict, memo)) {
+        return false;
+      }
+
+      unmatched.delete(key);
+      continue;
+    }
+
+    if (
+      !takeMatch(
+        unmatched,
+        (candidate) => isDeepEqual(key, candidate, strict, memo) && isDeepEqual(value, b.get(candidate), strict, memo),
+      )
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function compareSets(a: Set<unknown>, b: Set<unknown>, strict: boolean, memo: Map<object, object>) {
+  if (a.size !== b.size) {
+    return false;
+  }
+
+  const unmatched = new Set(b);
+
+  for (const value of a) {
+    if (!isObjectLike(value) && unmatched.has(value)) {
+      unmatched.delete(value);
+      continue;
+    }
+
+    if (!takeMatch(unmatched, (candidate) => isDeepEqual(value, candidate, strict, memo))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Remove the first entry of `candidates` accepted by `predicate`
+ */
+function takeMatch(candidates: Set<unknown>, predicate: (candidate: unknown) => boolean): boolean {
+  for (const candidate of candidates) {
+    if (predicate(candidate)) {
+      candidates.delete(candidate);
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function isBoxedPrimitive(value: object): value is { valueOf(): unknown } {
+  return value instanceof Number || value instanceof String || value instanceof Boolean;
+}
+
+/**
+ * Check if two values are deeply equal using strict comparison
+ */
+export function isDeepStrictEqual(actual: unknown, expected: unknown): boolean {
+  return isDeepEqual(actual, expected, true, new Map());
+}
+
+/*
+ * -----------------------------------------------------------------------------
+ * Assertions
+ * -----------------------------------------------------------------------------
+ */
+
+/**
+ * Assert that a value is truthy
+ */
+export function ok(...args: [value?: unknown, message?: Message]): void {
+  const [value, message] = args;
+
+  if (args.length === 0) {
+    innerFail({
+      actual: undefined,
+      expected: true,
+      operator: '==',
+      defaultMessage: 'No value argument passed to `assert.ok()`',
+    });
+  }
+
+  if (!value) {
+    innerFail({
+      message,
+      actual: value,
+      expected: true,
+      operator: '==',
+      defaultMessage: `The expression evaluated to a falsy value:\n\n  assert.ok(${inspect(value)})\n`,
+    });
+  }
+}
+
+/**
+ * Assert loose equality (==)
+ */
+export function equal(actual: unknown, expected: unknown, message?: Message): void {
+  if (!(actual == expected || (Number.isNaN(actual) && Number.isNaN(expected)))) {
+    innerFail({
+      message,
+      actual,
+      expected,
+      operator: '==',
+      defaultMessage: `${inspect(actual)} == ${inspect(expected)}`,
+    });
+  }
+}
+
+/**
+ * Assert loose inequality (!=)
+ */
+export function notEqual(actual: unknown, expected: unknown, message?: Message): void {
+  if (actual == expected || (Number.isNaN(actual) && Number.isNaN(expected))) {
+    innerFail({
+      message,
+      actual,
+      expected,
+      operator: '!=',
+      defaultMessage: `${inspect(actual)} != ${inspect(expected)}`,
+    });
+  }
+}
+
+/**
+ * Assert strict equality (Object.is)
+ */
+export function strictEqual(actual: unknown, expected: unknown, message?: Message): void {
+  if (!Object.is(actual, expected)) {
+    innerFail({
+      message,
+      actual,
+      expected,
+      operator: 'strictEqual',
+      defaultMessage: `Expected values to be strictly equal:\n\n${inspect(actual)} !== ${inspect(expected)}\n`,
+    });
+  }
+}
+
+/**
+ * Assert strict inequality
+ */
+export function notStrictEqual(actual: unknown, expected: unknown, message?: Message): void {
+  if (Object.is(actual, expected)) {
+    innerFail({
+      message,
+      actual,
+      expected,
+      operator: 'notStrictEqual',
+      defaultMessage: `Expected "actual" to be strictly unequal to: ${inspect(expected)}`,
+    });
+  }
+}
+
+/**
+ * Assert loose deep equality
+ */
+export function deepEqual(actual: unknown, expected: unknown, message?: Message): void {
+  if (!isDeepEqual(actual, expected, false, new Map())) {
+    innerFail({
+      message,
+      actual,
+      expected,
+      operator: 'deepEqual',
+      defaultMessage: `Expected values to be loosely deep-equal:\n\n${inspect(actual)}\n\nshould loosely deep-equal\n\n${inspect(expected)}`,
+    });
+  }
+}
+
+/**
+ * Assert loose deep inequality
+ */
+export function notDeepEqual(actual: unknown, expected: unknown, message?: Message): void {
+  if (isDeepEqual(actual, expected, false, new Map())) {
+    innerFail({
+      message,
+      actual,
+      expected,
+      operator: 'notDeepEqual',
+      defaultMessage: `"actual" deepEqual "expected": ${inspect(actual)}`,
+    });
+  }
+}
+
+/**
+ * Assert strict deep equality
+ */
+export function deepStrictEqual(actual: unknown, expected: unknown, message?: Message): void {
+  if (!isDeepStrictEqual(actual, expected)) {
+    innerFail({
+      message,
+      actual,
+      expected,
+      operator: 'deepStrictEqual',
+      defaultMessage: `Expected values to be strictly deep-equal:\n\n${inspect(actual)}\n\nshould equal\n\n${inspect(expected)}`,
+    });
+  }
+}
+
+/**
+ * Assert strict deep inequality
+ */
+export function notDeepStrictEqual(actual: unknown, expected: unknown, message?: Message): void {
+  if (isDeepStrictEqual(actual, expected)) {
+    innerFail({
+      message,
+      actual,
+      expected,
+      operator: 'notDeepStrictEqual',
+      defaultMessage: `Expected "actual" not to be strictly deep-equal to: ${inspect(expected)}`,
+    });
+  }
+}
+
+/**
+ * Assert that a string matches a regular expression
+ */
+export function match(value: string, regExp: RegExp, message?: Message): void {
+  if (typeof value !== 'string' || !regExp.test(value)) {
+    innerFail({
+      message,
+      actual: value,
+      expected: regExp,
+      operator: 'match',
+      defaultMessage:
+        typeof value !== 'string'
+          ? `The "string" argument must be of type string. Received ${inspect(value)}`
+          : `The input did not match the regular expression ${inspect(regExp)}. Input:\n\n${inspect(value)}\n`,
+    });
+  }
+}
+
+/**
+ * Assert that a string does not match a regular expression
+ */
+export function doesNotMatch(value: string, regExp: RegExp, message?: Message): void {
+  if (typeof value !== 'string' || regExp.test(value)) {
+    innerFail({
+      message,
+      actual: value,
+      expected: regExp,
+      operator: 'doesNotMatch',
+      defaultMessage:
+        typeof value !== 'string'
+          ? `The "string" argument must be of type string. Received ${inspect(value)}`
+          : `The input was expected to not match the regular expression ${inspect(regExp)}. Input:\n\n${inspect(value)}\n`,
+    });
+  }
+}
+
+/**
+ * Throw an AssertionError
+ */
+export function fail(message: Message = 'Failed'): never {
+  return innerFail({ message, operator: 'fail', defaultMessage: 'Failed' });
+}
+
+/**
+ * Throw `value` if it is neither null nor undefined
+ */
+export function ifError(value: unknown): void {
+  if (value === null || value === undefined) {
+    return;
+  }
+
+  const detail = value instanceof Error ? value.message : inspect(value);
+  const error = new AssertionError({
+    message: `ifError got unwanted exception: ${detail}`,
+    actual: value,
+    expected: null,
+    operator: 'ifError',
+  });
+
+  error.generatedMessage = false;
+  throw error;
+}
+
+/*
+ * -----------------------------------------------------------------------------
+ * Exceptions
+ * -----------------------------------------------------------------------------
+ */
+
+const NO_EXCEPTION = Symbol('NO_EXCEPTION');
+
+function getActual(fn: () => unknown): unknown {
+  if (typeof fn !== 'function') {
+    throw new TypeError(`The "fn" argument must be of type function. Received ${inspect(fn)}`);
+  }
+
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+
+  return NO_EXCEPTION;
+}
+
+async function waitActual(promiseFn: Promise<unknown> | (() => Promise<unknown>)): Promise<unknown> {
+  try {
+    await (typeof promiseFn === 'function' ? promiseFn() : promiseFn);
+  } catch (error) {
+    return error;
+  }
+
+  return NO_EXCEPTION;
+}
+
+function isErrorClass(value: unknown): value is new (...args: any[]) => Error {
+  return typeof value === 'function' && (value === Error || value.prototype instanceof Error);
+}
+
+function matchesExpected(actual: unknown, expected: ErrorMatcher, operator: string, message: Message): boolean {
+  if (expected instanceof RegExp) {
+    return expected.test(String(actual));
+  }
+
+  if (isErrorClass(expected)) {
+    return actual instanceof expected;
+  }
+
+  if (typeof expected === 'function') {
+    return (expected as (error: unknown) => boolean)(actual) === true;
+  }
+
+  if (!isObjectLike(actual)) {
+    return false;
+  }
+
+  const keys = expected instanceof Error ? ['name', 'message'] : Object.keys(expected);
+  const actualRecord = actual as Record<string, unknown>;
+  const expectedRecord = expected as Record<string, unknown>;
+
+  for (const key of keys) {
+    const expectedValue = expectedRecord[key];
+    const actualValue = actualRecord[key];
+
+    if (expectedValue instanceof RegExp && typeof actualValue === 'string') {
+      if (!expectedValue.test(actualValue)) {
+        return false;
+      }
+    } else if (!isDeepStrictEqual(actualValue, expectedValue)) {
+      innerFail({
+        message,
+        actual,
+        expected,
+        operator,
+        defaultMessage: `Expected values to be strictly deep-equal:\n\n${key}: ${inspect(actualValue)} !== ${inspect(expectedValue)}\n`,
+      });
+    }
+  }
+
+  return true;
+}
+
+function expectsError(
+  operator: 'throws' | 'rejects',
+  actual: unknown,
+  error: ErrorMatcher | string | undefined,
+  message: Message,
+): void {
+  if (typeof error === 'string') {
+    message = error;
+    error = undefined;
+  }
+
+  if (actual === NO_EXCEPTION) {
+    const name = isErrorClass(error) ? ` (${error.name})` : '';
+    const details = message ? `: ${message}` : '.';
+
+    innerFail({
+      message: message instanceof Error ? message : undefined,
+      actual: undefined,
+      expected: error,
+      operator,
+      defaultMessage: `Missing expected ${operator === 'throws' ? 'exception' : 'rejection'}${name}${details}`,
+    });
+  }
+
+  if (error !== undefined && !matchesExpected(actual, error, operator, message)) {
+    if (isErrorClass(error) || error instanceof RegExp || typeof error !== 'function') {
+      innerFail({
+        message,
+        actual,
+        expected: error,
+        operator,
+        defaultMessage: `The error is expected to match ${inspect(error)}. Received ${inspect(actual)}`,
+      });
+    }
+
+    // A validation function returning something other than true rethrows the error
+    throw actual;
+  }
+}
+
+function expectsNoError(
+  operator: 'doesNotThrow' | 'doesNotReject',
+  actual: unknown,
+  error: ErrorMatcher | string | undefined,
+  message: Message,
+): void {
+  if (actual === NO_EXCEPTION) {
+    return;
+  }
+
+  if (typeof error === 'string') {
+    message = error;
+    error = undefined;
+  }
+
+  if (error === undefined || matchesExpected(actual, error, operator, message)) {
+    const details = message ? `: ${message}` : '.';
+    const detail = actual instanceof Error ? actual.message : inspect(actual);
+
+    innerFail({
+      actual,
+      expected: error,
+      operator,
+      defaultMessage: `Got unwanted ${operator === 'doesNotThrow' ? 'exception' : 'rejection'}${details}\nActual message: "${detail}"`,
+    });
+  }
+
+  throw actual;
+}
+
+/**
+ * Assert that a function throws
+ */
+export function throws(fn: () => unknown, error?: ErrorMatcher | string, message?: Message): void {
+  expectsError('throws', getActual(fn), error, message);
+}
+
+/**
+ * Assert that a function does not throw
+ */
+export function doesNotThrow(fn: () => unknown, error?: ErrorMatcher | string, message?: Message): void {
+  expectsNoError('doesNotThrow', getActual(fn), error, message);
+}
+
+/**
+ * Assert that a promise (or async function) rejects
+ */
+export async function rejects(
+  promiseFn: Promise<unknown> | (() => Promise<unknown>),
+  error?: ErrorMatcher | string,
+  message?: Message,
+): Promise<void> {
+  expectsError('rejects', await waitActual(promiseFn), error, message);
+}
+
+/**
+ * Assert that a promise (or async function) does not reject
+ */
+export async function doesNotReject(
+  promiseFn: Promise<unknown> | (() => Promise<unknown>),
+  error?: ErrorMatcher | string,
+  message?: Message,
+): Promise<void> {
+  expectsNoError('doesNotReject', await waitActual(promiseFn), error, message);
+}
+
+/*
+ * -----------------------------------------------------------------------------
+ * Module shape
+ * -----------------------------------------------------------------------------
+ */
+
+const assertions = {
+  AssertionError,
+  ok,
+  equal,
+  notEqual,
+  strictEqual,
+  notStrictEqual,
+  deepEqual,
+  notDeepEqual,
+  deepStrictEqual,
+  notDeepStrictEqual,
+  match,
+  doesNotMatch,
+  throws,
+  doesNotThrow,
+  rejects,
+  doesNotReject,
+  fail,
+  ifError,
+};
+
+type AssertModule = typeof ok & typeof assertions & { strict: StrictAssertModule };
+type StrictAssertModule = typeof ok & typeof assertions & { strict: StrictAssertModule };
+
+/**
+ * Strict assertion mode: equal() and deepEqual() behave like their strict variants
+ */
+export const strict = Object.assign((...args: Parameters<typeof ok>) => ok(...args), assertions, {
+  equal: strictEqual,
+  notEqual: notStrictEqual,
+  deepEqual: deepStrictEqual,
+  notDeepEqual: notDeepStrictEqual,
+}) as StrictAssertModule;
+
+strict.strict = strict;
+
+/**
+ * The assert function, callable like assert.ok()
+ */
+const assert = Object.assign((...args: Parameters<typeof ok>) => ok(...args), assertions, { strict }) as AssertModule;
+
+export default assert;
@@ -0,0 +1,93 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Buffer Module
+ * =============================================================================
+ * Node.js buffer module implementation. Exposes the global Buffer class along
+ * with the module-level constants and helpers.
+ * =============================================================================
+ */
+
+import { Buffer } from '../globals/buffer';
+import type { BufferEncoding } from '../types';
+
+export { Buffer };
+
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const { Blob, File, atob, btoa } = globalThis;
+
+/**
+ * Largest size allowed for a single Buffer
+ */
+export const kMaxLength = 2 ** 32;
+
+/**
+ * Largest length allowed for a string
+ */
+export const kStringMaxLength = 2 ** 29 - 24;
+
+export const constants = {
+  MAX_LENGTH: kMaxLength,
+  MAX_STRING_LENGTH: kStringMaxLength,
+};
+
+/**
+ * Number of bytes shown by buffer.inspect()
+ */
+export const INSPECT_MAX_BYTES = 50;
+
+/**
+ * Allocate an uninitialized buffer
+ * @deprecated Use Buffer.allocUnsafeSlow() instead
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export function SlowBuffer(size: number): Buffer {
+  return Buffer.allocUnsafe(size);
+}
+
+/**
+ * Check if the input only contains valid UTF-8
+ */
+export function isUtf8(input: ArrayBuffer | ArrayBufferView): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(input);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if the input only contains ASCII bytes
+ */
+export function isAscii(input: ArrayBuffer | ArrayBufferView): boolean {
+  const bytes = ArrayBuffer.isView(input)
+    ? new Uint8Array(input.buffer, input.byteOffset, input.byteLength)
+    : new Uint8Array(input);
+
+  return bytes.every((byte) => byte < 0x80);
+}
+
+/**
+ * Re-encode a buffer from one character encoding to another
+ */
+export function transcode(source: Uint8Array, fromEnc: BufferEncoding, toEnc: BufferEncoding): Buffer {
+  const input = Buffer.isBuffer(source) ? source : Buffer.from(source);
+
+  return Buffer.from(input.toString(fromEnc), toEnc);
+}
+
+export default {
+  Blob,
+  Buffer,
+  File,
+  INSPECT_MAX_BYTES,
+  SlowBuffer,
+  atob,
+  btoa,
+  constants,
+  isAscii,
+  isUtf8,
+  kMaxLength,
+  kStringMaxLength,
+  transcode,
+};
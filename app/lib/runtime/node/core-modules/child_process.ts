@@ -3,7 +3,10 @@
  * BAVINI Container - Child Process Module
  * =============================================================================
  * Node.js child_process module implementation for browser environment.
- * Provides mock/simulated process spawning using Web Workers.
+ * Processes run through the virtual shell registered as process launcher:
+ * builtins, package binaries and `node <file>` with piped stdio, exit codes,
+ * kill() signals and IPC channels for fork(). The synchronous functions block
+ * on the page, so they only work in node processes running in a worker.
  * =============================================================================
  */
 
@@ -11,6 +14,13 @@ import { EventEmitter } from './events';
 import { Readable, Writable } from './stream';
 import { Buffer } from '../globals/buffer';
 import type { BufferEncoding } from '../types';
+import {
+  createIpcChannel,
+  getProcessLauncher,
+  getSyncProcessLauncher,
+  type IpcEndpoint,
+  type SyncProcessResult,
+} from '../process-launcher';
 
 /**
  * Spawn options
@@ -54,7 +64,10 @@ export interface ForkOptions extends SpawnOptions {
 }
 
 export type StdioOption = 'pipe' | 'ignore' | 'inherit' | 'ipc' | number | null | undefined;
-export type StdioOptions = [StdioOption, StdioOption, StdioOption] | [StdioOption, StdioOption, StdioOption, StdioOption] | StdioOption;
+export type StdioOptions =
+  | [StdioOption, StdioOption, StdioOption]
+  | [StdioOption, StdioOption, StdioOption, StdioOption]
+  | StdioOption;
 
 /**
  * Spawn result
@@ -75,7 +88,40 @@ export interface ExecResult {
 }
 
 /**
- * Process stream wrapper
+ * Exec callback
+ */
+export type ExecCallback = (error: ExecException | null, stdout: string | Buffer, stderr: string | Buffer) => void;
+
+/**
+ * Error passed to exec callbacks when the command fails
+ */
+export interface ExecException extends Error {
+  cmd?: string;
+  killed?: boolean;
+  code?: number | string;
+  signal?: NodeJS.Signals | null;
+}
+
+/**
+ * The process spawning children. Children inherit its cwd and environment,
+ * and `stdio: 'inherit'` writes to its streams.
+ */
+export interface ParentProcess {
+  cwd(): string;
+  env: Record<string, string | undefined>;
+  stdout(data: string): void;
+  stderr(data: string): void;
+}
+
+/**
+ * Exit code reported when a process cannot be spawned (-ENOENT)
+ */
+const SPAWN_ERROR_EXIT_CODE = -2;
+
+let nextPid = 1000;
+
+/**
+ * Process stdin: buffers everything written until the process starts
  */
 class ProcessStream extends Writable {
   private _data: Buffer[] = [];
@@ -89,6 +135,18 @@ class ProcessStream extends Writable {
   getData(): Buffer {
     return Buffer.concat(this._data);
   }
+
+  /**
+   * Resolve once the input is complete. Nothing written yet means the child
+   * gets no input; a started input has to be ended first.
+   */
+  whenComplete(): Promise<void> {
+    if (this._data.length === 0 || this.writableFinished) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => this.once('finish', () => resolve()));
+  }
 }
 
 /**
@@ -96,7 +154,7 @@ class ProcessStream extends Writable {
  */
 export class ChildProcess extends EventEmitter {
   pid: number;
-  connected: boolean = true;
+  connected: boolean = false;
   signalCode: NodeJS.Signals | null = null;
   exitCode: number | null = null;
   killed: boolean = false;
@@ -111,18 +169,22 @@ export class ChildProcess extends EventEmitter {
   private _command: string;
   private _args: string[];
   private _options: SpawnOptions;
+  private _parent: ParentProcess | null;
   private _abortController: AbortController;
+  private _ipc: IpcEndpoint | null = null;
+  private _childIpc: IpcEndpoint | undefined;
+  private _exited = false;
 
-  constructor(command: string, args: string[] = [], options: SpawnOptions = {}) {
+  constructor(command: string, args: string[] = [], options: SpawnOptions = {}, parent: ParentProcess | null = null) {
     super();
 
     this._command = command;
     this._args = args;
     this._options = options;
+    this._parent = parent;
     this._abortController = new AbortController();
 
-    // Generate fake PID
-    this.pid = Math.floor(Math.random() * 32768) + 1000;
+    this.pid = nextPid++;
     this.spawnfile = command;
     this.spawnargs = [command, ...args];
 
@@ -133,119 +195,209 @@ export class ChildProcess extends EventEmitter {
 
     // Handle abort signal
     if (options.signal) {
-      options.signal.addEventListener('abort', () => this.kill());
+      options.signal.addEventListener('abort', () => this.kill(options.killSignal));
+    }
+
+    if (options.timeout && options.timeout > 0) {
+      const timer = setTimeout(() => this.kill(options.killSignal), options.timeout);
+      this.once('exit', () => clearTimeout(timer));
     }
 
     // Start execution
     this._execute();
   }
 
-  private _setupStdio(): void {
+  private _stdioOptions(): StdioOption[] {
     const stdio = this._options.stdio ?? 'pipe';
-    const stdioArr: StdioOptions = Array.isArray(stdio) ? stdio : [stdio, stdio, stdio];
+    return Array.isArray(stdio) ? stdio : [stdio, stdio, stdio];
+  }
+
+  private _setupStdio(): void {
+    const stdioArr = this._stdioOptions();
 
-    // stdin
-    if (stdioArr[0] === 'pipe') {
+    // Missing entries default to pipes, like Node.js
+    if ((stdioArr[0] ?? 'pipe') === 'pipe') {
       this.stdin = new ProcessStream();
     }
 
-    // stdout
-    if (stdioArr[1] === 'pipe') {
+    if ((stdioArr[1] ?? 'pipe') === 'pipe') {
       this.stdout = new Readable();
     }
 
-    // stderr
-    if (stdioArr[2] === 'pipe') {
+    if ((stdioArr[2] ?? 'pipe') === 'pipe') {
       this.stderr = new Readable();
     }
+
+    if (stdioArr.includes('ipc')) {
+      const [parentEnd, childEnd] = createIpcChannel();
+
+      this._ipc = parentEnd;
+      this._childIpc = childEnd;
+      this.connected = true;
+
+      parentEnd.onMessage((message) => this.emit('message', message));
+      parentEnd.onDisconnect(() => {
+        this.connected = false;
+        this.emit('disconnect');
+      });
+    }
+  }
+
+  /**
+   * Where an output stream goes
+   */
+  private _outputSink(fd: 1 | 2): (data: string) => void {
+    const stream = fd === 1 ? this.stdout : this.stderr;
+
+    if (stream) {
+      return (data) => stream.push(Buffer.from(data));
+    }
+
+    if (this._stdioOptions()[fd] === 'inherit' && this._parent) {
+      return fd === 1 ? (data) => this._parent!.stdout(data) : (data) => this._parent!.stderr(data);
+    }
+
+    return () => undefined;
+  }
+
+  /**
+   * Command line run by the shell
+   */
+  private _commandLine(): string {
+    if (this._options.shell) {
+      return [this._command, ...this._args].join(' ');
+    }
+
+    return [this._command, ...this._args].map(quoteArgument).join(' ');
   }
 
   private async _execute(): Promise<void> {
-    // Simulate async startup
+    // Let the caller attach listeners and write stdin first
     await new Promise((resolve) => setTimeout(resolve, 0));
 
-    // Emit spawn event
-    this.emit('spawn');
+    const handler = commandHandlers[this._command];
+    const launcher = getProcessLauncher();
 
-    try {
-      // Execute based on command
-      const result = await this._runCommand();
+    if (!handler && !launcher) {
+      this._spawnFailed();
+      return;
+    }
 
-      // Emit output
-      if (this.stdout && result.stdout) {
-        (this.stdout as Readable).push(result.stdout);
-        (this.stdout as Readable).push(null);
-      }
+    await (this.stdin as ProcessStream | null)?.whenComplete();
+
+    if (this.killed) {
+      this._exit(null);
+      return;
+    }
+
+    this.emit('spawn');
 
-      if (this.stderr && result.stderr) {
-        (this.stderr as Readable).push(result.stderr);
-        (this.stderr as Readable).push(null);
+    try {
+      let exitCode: number;
+
+      if (handler) {
+        const result = await handler(this._args, this._options);
+
+        this._outputSink(1)(result.stdout.toString());
+        this._outputSink(2)(result.stderr.toString());
+        exitCode = result.exitCode;
+      } else {
+        exitCode = await launcher!({
+          command: this._commandLine(),
+          cwd: this._options.cwd ?? this._parent?.cwd(),
+          env: childEnvironment(this._options, this._parent),
+          stdin: this.stdin ? (this.stdin as ProcessStream).getData().toString() : undefined,
+          stdout: this._outputSink(1),
+          stderr: this._outputSink(2),
+          signal: this._abortController.signal,
+          ipc: this._childIpc,
+        });
       }
 
-      // Emit close
-      this.exitCode = result.exitCode;
-      this.emit('close', result.exitCode, null);
-      this.emit('exit', result.exitCode, null);
+      this._exit(this.killed ? null : exitCode);
     } catch (err) {
       this.emit('error', err);
-      this.exitCode = 1;
-      this.emit('close', 1, null);
-      this.emit('exit', 1, null);
+      this._exit(1);
     }
   }
 
-  private async _runCommand(): Promise<{ stdout: Buffer; stderr: Buffer; exitCode: number }> {
-    // Get command handlers
-    const handler = commandHandlers[this._command];
+  /**
+   * No shell is available to run the command
+   */
+  private _spawnFailed(): void {
+    const error = new Error(`spawn ${this._command} ENOENT`) as Error & Record<string, unknown>;
+    error.errno = SPAWN_ERROR_EXIT_CODE;
+    error.code = 'ENOENT';
+    error.syscall = `spawn ${this._command}`;
+    error.path = this._command;
+    error.spawnargs = this._args;
+
+    this.emit('error', error);
+    this._exit(SPAWN_ERROR_EXIT_CODE);
+  }
 
-    if (handler) {
-      return handler(this._args, this._options);
+  /**
+   * Report the end of the process: 'exit', then 'close' once stdio is done
+   */
+  private _exit(code: number | null): void {
+    if (this._exited) {
+      return;
     }
 
-    // Unknown command
-    return {
-      stdout: Buffer.alloc(0),
-      stderr: Buffer.from(`bash: ${this._command}: command not found\n`),
-      exitCode: 127,
-    };
+    this._exited = true;
+    this.exitCode = code;
+
+    (this.stdout as Readable | null)?.push(null);
+    (this.stderr as Readable | null)?.push(null);
+
+    if (this._ipc?.connected) {
+      this._ipc.disconnect();
+    }
+
+    this.emit('exit', code, this.signalCode);
+    this.emit('close', code, this.signalCode);
   }
 
   /**
    * Kill the process
    */
   kill(signal?: NodeJS.Signals | number): boolean {
-    if (this.killed) return false;
+    if (this.killed || this._exited) {
+      return false;
+    }
 
     this.killed = true;
-    this._abortController.abort();
 
     const sig = typeof signal === 'number' ? signal : signal || 'SIGTERM';
     this.signalCode = typeof sig === 'string' ? sig : null;
 
-    this.emit('close', null, this.signalCode);
-    this.emit('exit', null, this.signalCode);
+    this._abortController.abort();
 
     return true;
   }
 
   /**
-   * Send a message (for IPC)
+   * Send a message to the child (fork IPC channel)
    */
   send(message: unknown, callback?: (error: Error | null) => void): boolean {
-    if (!this.connected) {
-      const error = new Error('Channel closed');
-
-      if (callback) callback(error);
+    if (!this._ipc?.connected) {
+      const error = new Error('Channel closed') as Error & { code: string };
+      error.code = 'ERR_IPC_CHANNEL_CLOSED';
+
+      if (callback) {
+        queueMicrotask(() => callback(error));
+      } else {
+        queueMicrotask(() => this.emit('error', error));
+      }
 
       return false;
     }
 
-    // Emit message to self for simulation
-    queueMicrotask(() => {
-      this.emit('message', message);
+    this._ipc.send(message);
 
-      if (callback) callback(null);
-    });
+    if (callback) {
+      setTimeout(() => callback(null), 0);
+    }
 
     return true;
   }
@@ -254,10 +406,7 @@ export class ChildProcess extends EventEmitter {
    * Disconnect IPC channel
    */
   disconnect(): void {
-    if (!this.connected) return;
-
-    this.connected = false;
-    this.emit('disconnect');
+    this._ipc?.disconnect();
   }
 
   /**
@@ -276,106 +425,38 @@ export class ChildProcess extends EventEmitter {
 }
 
 /**
- * Command handlers for built-in commands
+ * Environment of a child: explicit env, or the parent's one
  */
-type CommandHandler = (args: string[], options: SpawnOptions) => Promise<{ stdout: Buffer; stderr: Buffer; exitCode: number }>;
-
-const commandHandlers: Record<string, CommandHandler> = {
-  echo: async (args) => ({
-    stdout: Buffer.from(args.join(' ') + '\n'),
-    stderr: Buffer.alloc(0),
-    exitCode: 0,
-  }),
-
-  pwd: async (_args, options) => ({
-    stdout: Buffer.from((options.cwd || '/') + '\n'),
-    stderr: Buffer.alloc(0),
-    exitCode: 0,
-  }),
-
-  env: async (_args, options) => {
-    const env = options.env || {};
-    const output = Object.entries(env)
-      .map(([k, v]) => `${k}=${v}`)
-      .join('\n');
-    return {
-      stdout: Buffer.from(output + '\n'),
-      stderr: Buffer.alloc(0),
-      exitCode: 0,
-    };
-  },
-
-  true: async () => ({
-    stdout: Buffer.alloc(0),
-    stderr: Buffer.alloc(0),
-    exitCode: 0,
-  }),
-
-  false: async () => ({
-    stdout: Buffer.alloc(0),
-    stderr: Buffer.alloc(0),
-    exitCode: 1,
-  }),
-
-  sleep: async (args) => {
-    const seconds = parseFloat(args[0]) || 0;
-    await new Promise((resolve) => setTimeout(resolve, seconds * 1000));
-    return {
-      stdout: Buffer.alloc(0),
-      stderr: Buffer.alloc(0),
-      exitCode: 0,
-    };
-  },
-
-  printf: async (args) => {
-    const format = args[0] || '';
-    const values = args.slice(1);
-    let output = format;
-    let i = 0;
-    output = output.replace(/%[sd]/g, () => values[i++] || '');
-    output = output.replace(/\\n/g, '\n');
-    return {
-      stdout: Buffer.from(output),
-      stderr: Buffer.alloc(0),
-      exitCode: 0,
-    };
-  },
-
-  cat: async (args, options) => {
-    // Would need filesystem access
-    return {
-      stdout: Buffer.alloc(0),
-      stderr: Buffer.from(`cat: ${args[0]}: No such file or directory\n`),
-      exitCode: 1,
-    };
-  },
-
-  node: async (args) => {
-    // Simulate node execution
-    return {
-      stdout: Buffer.from(`Node.js simulation: ${args.join(' ')}\n`),
-      stderr: Buffer.alloc(0),
-      exitCode: 0,
-    };
-  },
-
-  npm: async (args) => {
-    const subcommand = args[0];
-    return {
-      stdout: Buffer.from(`npm ${subcommand}: simulated\n`),
-      stderr: Buffer.alloc(0),
-      exitCode: 0,
-    };
-  },
-
-  npx: async (args) => {
-    return {
-      stdout: Buffer.from(`npx ${args.join(' ')}: simulated\n`),
-      stderr: Buffer.alloc(0),
-      exitCode: 0,
-    };
-  },
-};
+function childEnvironment(options: SpawnOptions, parent: ParentProcess | null): Record<string, string> | undefined {
+  const env = options.env ?? parent?.env;
+
+  if (!env) {
+    return undefined;
+  }
+
+  return Object.fromEntries(Object.entries(env).filter((entry): entry is [string, string] => entry[1] !== undefined));
+}
+
+/**
+ * Quote an argument for the shell when needed
+ */
+function quoteArgument(arg: string): string {
+  if (arg !== '' && /^[\w@%+=:,./-]+$/.test(arg)) {
+    return arg;
+  }
+
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Command handlers for custom commands (take precedence over the shell)
+ */
+type CommandHandler = (
+  args: string[],
+  options: SpawnOptions,
+) => Promise<{ stdout: Buffer; stderr: Buffer; exitCode: number }>;
+
+const commandHandlers: Record<string, CommandHandler> = {};
 
 /**
  * Register a custom command handler
@@ -385,264 +466,309 @@ export function registerCommandHandler(command: string, handler: CommandHandler)
 }
 
 /**
- * Spawn a child process
+ * Error for the synchronous APIs outside of node processes: the page thread
+ * runs the shell and cannot block while waiting for it
  */
-export function spawn(command: string, args?: string[] | SpawnOptions, options?: SpawnOptions): ChildProcess {
-  if (!Array.isArray(args)) {
-    options = args;
-    args = [];
-  }
+function createSyncError(name: string): Error {
+  const error = new Error(
+    `child_process.${name}() is only supported in node processes running in a worker, use the async version`,
+  ) as Error & { code: string };
+  error.code = 'ERR_NOT_SUPPORTED';
 
-  return new ChildProcess(command, args, options);
+  return error;
 }
 
 /**
- * Spawn a child process synchronously
+ * Run a command line to completion, blocking the thread
  */
-export function spawnSync(command: string, args?: string[] | SpawnSyncOptions, options?: SpawnSyncOptions): SpawnSyncResult {
-  if (!Array.isArray(args)) {
-    options = args;
-    args = [];
-  }
+function runSync(
+  name: string,
+  command: string,
+  options: SpawnSyncOptions,
+  parent: ParentProcess | null,
+): SyncProcessResult {
+  const launcher = getSyncProcessLauncher();
 
-  // Simulate synchronous execution
-  const handler = commandHandlers[command] as CommandHandler | undefined;
-
-  if (handler !== undefined) {
-    // We can't actually run this synchronously, so return a mock result
-    return {
-      pid: Math.floor(Math.random() * 32768) + 1000,
-      output: [null, Buffer.alloc(0), Buffer.alloc(0)],
-      stdout: Buffer.alloc(0),
-      stderr: Buffer.alloc(0),
-      status: 0,
-      signal: null,
-    };
+  if (!launcher) {
+    throw createSyncError(name);
   }
 
-  return {
-    pid: 0,
-    output: [null, null, Buffer.from(`bash: ${command}: command not found\n`)],
-    stdout: Buffer.alloc(0),
-    stderr: Buffer.from(`bash: ${command}: command not found\n`),
-    status: 127,
-    signal: null,
-  };
+  return launcher({
+    command,
+    cwd: options.cwd ?? parent?.cwd(),
+    env: childEnvironment(options, parent),
+    stdin: options.input === undefined ? undefined : String(options.input),
+    timeout: options.timeout,
+  });
 }
 
 /**
- * Execute a command in a shell
+ * Output of a synchronous call, a Buffer unless an encoding is given
+ */
+function syncOutput(data: string, encoding: SpawnSyncOptions['encoding'] | undefined): Buffer | string {
+  return encoding && encoding !== 'buffer' ? Buffer.from(data).toString(encoding) : Buffer.from(data);
+}
+
+/**
+ * execSync/execFileSync: return stdout, throw when the command fails
  */
-export function exec(
+function execOutput(
   command: string,
-  options?: ExecOptions | ((error: Error | null, stdout: string | Buffer, stderr: string | Buffer) => void),
-  callback?: (error: Error | null, stdout: string | Buffer, stderr: string | Buffer) => void,
-): ChildProcess {
-  if (typeof options === 'function') {
-    callback = options;
-    options = {};
+  result: SyncProcessResult,
+  options: SpawnSyncOptions,
+  parent: ParentProcess | null,
+): Buffer | string {
+  const stdout = syncOutput(result.stdout, options.encoding);
+  const stderr = syncOutput(result.stderr, options.encoding);
+
+  // Like Node.js, stderr goes to the parent unless stdio is configured
+  if (options.stdio === undefined && result.stderr) {
+    parent?.stderr(result.stderr);
   }
 
-  const opts = options || {};
-
-  // Parse command for shell execution
-  const parts = command.split(/\s+/);
-  const cmd = parts[0];
-  const args = parts.slice(1);
+  if (result.status !== 0) {
+    const error = new Error(`Command failed: ${command}\n${result.stderr}`) as Error & Record<string, unknown>;
+    error.status = result.status;
+    error.signal = result.status === null ? 'SIGTERM' : null;
+    error.stdout = stdout;
+    error.stderr = stderr;
+    error.output = [null, stdout, stderr];
+    throw error;
+  }
 
-  const child = spawn(cmd, args, { ...opts, shell: true });
+  return stdout;
+}
 
+/**
+ * Collect the output of a child and report it to an exec-style callback
+ */
+function collectOutput(child: ChildProcess, cmd: string, options: ExecOptions, callback?: ExecCallback): void {
   const stdoutChunks: Buffer[] = [];
   const stderrChunks: Buffer[] = [];
+  let spawnError: Error | null = null;
 
-  if (child.stdout) {
-    child.stdout.on('data', (...args: unknown[]) => {
-      const chunk = args[0] as Buffer;
-      stdoutChunks.push(chunk);
-    });
-  }
+  child.stdout?.on('data', (...args: unknown[]) => {
+    stdoutChunks.push(args[0] as Buffer);
+  });
 
-  if (child.stderr) {
-    child.stderr.on('data', (...args: unknown[]) => {
-      const chunk = args[0] as Buffer;
-      stderrChunks.push(chunk);
-    });
-  }
+  child.stderr?.on('data', (...args: unknown[]) => {
+    stderrChunks.push(args[0] as Buffer);
+  });
+
+  child.on('error', (...args: unknown[]) => {
+    spawnError = args[0] as Error;
+  });
 
   child.on('close', (...args: unknown[]) => {
     const code = args[0] as number | null;
+    const signal = args[1] as NodeJS.Signals | null;
     const stdout = Buffer.concat(stdoutChunks);
     const stderr = Buffer.concat(stderrChunks);
-    const encoding = opts.encoding !== 'buffer' ? (opts.encoding || 'utf8') as BufferEncoding : null;
+    const encoding = options.encoding !== 'buffer' ? ((options.encoding || 'utf8') as BufferEncoding) : null;
 
-    if (callback) {
-      const error = code !== 0 ? new Error(`Command failed: ${command}`) : null;
-
-      callback(
-        error,
-        encoding ? stdout.toString(encoding) : stdout,
-        encoding ? stderr.toString(encoding) : stderr,
-      );
+    if (!callback) {
+      return;
     }
-  });
 
-  child.on('error', (...args: unknown[]) => {
-    const err = args[0] as Error;
-    if (callback) {
-      callback(err, '', '');
+    let error: ExecException | null = spawnError;
+
+    if (!error && code !== 0) {
+      error = new Error(`Command failed: ${cmd}\n${stderr.toString()}`) as ExecException;
+      error.code = code ?? undefined;
+      error.killed = child.killed;
+      error.signal = signal;
+      error.cmd = cmd;
     }
+
+    callback(error, encoding ? stdout.toString(encoding) : stdout, encoding ? stderr.toString(encoding) : stderr);
   });
+}
 
-  return child;
+/**
+ * child_process API bound to a parent process
+ */
+export interface ChildProcessModule {
+  ChildProcess: typeof ChildProcess;
+  spawn(command: string, args?: string[] | SpawnOptions, options?: SpawnOptions): ChildProcess;
+  spawnSync(command: string, args?: string[] | SpawnSyncOptions, options?: SpawnSyncOptions): SpawnSyncResult;
+  exec(command: string, options?: ExecOptions | ExecCallback, callback?: ExecCallback): ChildProcess;
+  execSync(command: string, options?: SpawnSyncOptions): Buffer | string;
+  execFile(
+    file: string,
+    args?: string[] | ExecFileOptions | ExecCallback,
+    options?: ExecFileOptions | ExecCallback,
+    callback?: ExecCallback,
+  ): ChildProcess;
+  execFileSync(file: string, args?: string[] | SpawnSyncOptions, options?: SpawnSyncOptions): Buffer | string;
+  fork(modulePath: string, args?: string[] | ForkOptions, options?: ForkOptions): ChildProcess;
+  registerCommandHandler: typeof registerCommandHandler;
 }
 
 /**
- * Execute a command synchronously in a shell
+ * Create the child_process API for a parent process.
+ * Node programs get their own instance so children inherit their cwd, env and streams.
  */
-export function execSync(command: string, options?: SpawnSyncOptions): Buffer | string {
-  const parts = command.split(/\s+/);
-  const result = spawnSync(parts[0], parts.slice(1), { ...options, shell: true });
+export function createChildProcessModule(parent: ParentProcess | null = null): ChildProcessModule {
+  const spawnChild = (command: string, args?: string[] | SpawnOptions, options?: SpawnOptions): ChildProcess => {
+    if (!Array.isArray(args)) {
+      options = args;
+      args = [];
+    }
 
-  if (result.error) {
-    throw result.error;
-  }
+    return new ChildProcess(command, args, options, parent);
+  };
 
-  if (result.status !== 0) {
-    const error = new Error(`Command failed: ${command}`) as Error & { status: number; stderr: Buffer };
-    error.status = result.status ?? 1;
-    error.stderr = result.stderr as Buffer;
-    throw error;
-  }
+  return {
+    ChildProcess,
 
-  const encoding = options?.encoding;
+    spawn: spawnChild,
 
-  if (encoding === 'buffer' || !encoding) {
-    return result.stdout;
-  }
+    spawnSync(command: string, args?: string[] | SpawnSyncOptions, options?: SpawnSyncOptions): SpawnSyncResult {
+      if (!Array.isArray(args)) {
+        options = args;
+        args = [];
+      }
 
-  return (result.stdout as Buffer).toString(encoding as BufferEncoding);
-}
+      const opts = options ?? {};
+      const commandLine = opts.shell ? [command, ...args].join(' ') : [command, ...args].map(quoteArgument).join(' ');
+
+      try {
+        const result = runSync('spawnSync', commandLine, opts, parent);
+        const stdout = syncOutput(result.stdout, opts.encoding);
+        const stderr = syncOutput(result.stderr, opts.encoding);
+
+        return {
+          pid: nextPid++,
+          output: [null, stdout, stderr],
+          stdout,
+          stderr,
+          status: result.status,
+          signal: result.status === null ? 'SIGTERM' : null,
+        };
+      } catch (error) {
+        return {
+          pid: 0,
+          output: [null, null, null],
+          stdout: Buffer.alloc(0),
+          stderr: Buffer.alloc(0),
+          status: null,
+          signal: null,
+          error: error as Error,
+        };
+      }
+    },
 
-/**
- * Execute a file
- */
-export function execFile(
-  file: string,
-  args?: string[] | ExecFileOptions | ((error: Error | null, stdout: string | Buffer, stderr: string | Buffer) => void),
-  options?: ExecFileOptions | ((error: Error | null, stdout: string | Buffer, stderr: string | Buffer) => void),
-  callback?: (error: Error | null, stdout: string | Buffer, stderr: string | Buffer) => void,
-): ChildProcess {
-  if (typeof args === 'function') {
-    callback = args;
-    args = [];
-    options = {};
-  } else if (typeof options === 'function') {
-    callback = options;
-    options = {};
-  }
+    exec(command: string, options?: ExecOptions | ExecCallback, callback?: ExecCallback): ChildProcess {
+      if (typeof options === 'function') {
+        callback = options;
+        options = {};
+      }
 
-  const argsArr = Array.isArray(args) ? args : [];
-  const opts = (typeof args === 'object' && !Array.isArray(args) ? args : options || {}) as ExecFileOptions;
+      const opts = options || {};
+
+      // The whole command line goes to the shell (operators, quotes, expansion)
+      const child = spawnChild(command, [], { ...opts, shell: true });
+      collectOutput(child, command, opts, callback);
+
+      return child;
+    },
+
+    execSync(command: string, options: SpawnSyncOptions = {}): Buffer | string {
+      return execOutput(command, runSync('execSync', command, options, parent), options, parent);
+    },
+
+    execFile(
+      file: string,
+      args?: string[] | ExecFileOptions | ExecCallback,
+      options?: ExecFileOptions | ExecCallback,
+      callback?: ExecCallback,
+    ): ChildProcess {
+      if (typeof args === 'function') {
+        callback = args;
+        args = [];
+        options = {};
+      } else if (typeof options === 'function') {
+        callback = options;
+        options = {};
+      }
 
-  const child = spawn(file, argsArr, opts);
+      const argsArr = Array.isArray(args) ? args : [];
+      const opts = (typeof args === 'object' && !Array.isArray(args) ? args : options || {}) as ExecFileOptions;
 
-  const stdoutChunks: Buffer[] = [];
-  const stderrChunks: Buffer[] = [];
+      const child = spawnChild(file, argsArr, opts);
+      collectOutput(child, [file, ...argsArr].join(' '), opts, callback);
 
-  if (child.stdout) {
-    child.stdout.on('data', (...eventArgs: unknown[]) => {
-      const chunk = eventArgs[0] as Buffer;
-      stdoutChunks.push(chunk);
-    });
-  }
+      return child;
+    },
 
-  if (child.stderr) {
-    child.stderr.on('data', (...eventArgs: unknown[]) => {
-      const chunk = eventArgs[0] as Buffer;
-      stderrChunks.push(chunk);
-    });
-  }
+    execFileSync(file: string, args?: string[] | SpawnSyncOptions, options?: SpawnSyncOptions): Buffer | string {
+      if (!Array.isArray(args)) {
+        options = args;
+        args = [];
+      }
 
-  child.on('close', (...eventArgs: unknown[]) => {
-    const code = eventArgs[0] as number | null;
-    const stdout = Buffer.concat(stdoutChunks);
-    const stderr = Buffer.concat(stderrChunks);
-    const encoding = opts.encoding !== 'buffer' ? (opts.encoding || 'utf8') as BufferEncoding : null;
+      const opts = options ?? {};
+      const commandLine = [file, ...args].map(quoteArgument).join(' ');
 
-    if (callback) {
-      const error = code !== 0 ? new Error(`Command failed: ${file}`) : null;
+      return execOutput(commandLine, runSync('execFileSync', commandLine, opts, parent), opts, parent);
+    },
 
-      callback(
-        error,
-        encoding ? stdout.toString(encoding) : stdout,
-        encoding ? stderr.toString(encoding) : stderr,
-      );
-    }
-  });
+    fork(modulePath: string, args?: string[] | ForkOptions, options?: ForkOptions): ChildProcess {
+      if (!Array.isArray(args)) {
+        options = args;
+        args = [];
+      }
 
-  return child;
-}
+      const opts: ForkOptions = {
+        ...options,
+        stdio: options?.silent ? ['pipe', 'pipe', 'pipe', 'ipc'] : ['pipe', 'inherit', 'inherit', 'ipc'],
+      };
 
-/**
- * Execute a file synchronously
- */
-export function execFileSync(file: string, args?: string[] | SpawnSyncOptions, options?: SpawnSyncOptions): Buffer | string {
-  if (!Array.isArray(args)) {
-    options = args;
-    args = [];
-  }
+      return spawnChild('node', [...(options?.execArgv ?? []), modulePath, ...(args || [])], opts);
+    },
 
-  const result = spawnSync(file, args, options);
+    registerCommandHandler,
+  };
+}
 
-  if (result.error) {
-    throw result.error;
-  }
+const defaultModule = createChildProcessModule();
 
-  if (result.status !== 0) {
-    const error = new Error(`Command failed: ${file}`) as Error & { status: number; stderr: Buffer };
-    error.status = result.status ?? 1;
-    error.stderr = result.stderr as Buffer;
-    throw error;
-  }
+/**
+ * Spawn a child process
+ */
+export const spawn = defaultModule.spawn;
 
-  const encoding = options?.encoding;
+/**
+ * Spawn a child process synchronously (node processes only, reports an error elsewhere)
+ */
+export const spawnSync = defaultModule.spawnSync;
 
-  if (encoding === 'buffer' || !encoding) {
-    return result.stdout;
-  }
+/**
+ * Execute a command in a shell
+ */
+export const exec = defaultModule.exec;
 
-  return (result.stdout as Buffer).toString(encoding as BufferEncoding);
-}
+/**
+ * Execute a command synchronously in a shell (node processes only, throws elsewhere)
+ */
+export const execSync = defaultModule.execSync;
 
 /**
- * Fork a Node.js process (simulated)
+ * Execute a file
  */
-export function fork(modulePath: string, args?: string[] | ForkOptions, options?: ForkOptions): ChildProcess {
-  if (!Array.isArray(args)) {
-    options = args;
-    args = [];
-  }
+export const execFile = defaultModule.execFile;
 
-  const opts: ForkOptions = {
-    ...options,
-    stdio: ['pipe', 'pipe', 'pipe', 'ipc'],
-  };
+/**
+ * Execute a file synchronously (node processes only, throws elsewhere)
+ */
+export const execFileSync = defaultModule.execFileSync;
 
-  // In browser, we simulate fork with a special spawn
-  return spawn('node', [modulePath, ...(args || [])], opts);
-}
+/**
+ * Fork a Node.js process with an IPC channel
+ */
+export const fork = defaultModule.fork;
 
 /**
  * Default export
  */
-export default {
-  ChildProcess,
-  spawn,
-  spawnSync,
-  exec,
-  execSync,
-  execFile,
-  execFileSync,
-  fork,
-  registerCommandHandler,
-};
+export default defaultModule;
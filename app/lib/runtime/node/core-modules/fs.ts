@@ -6,7 +6,8 @@
  * =============================================================================
  */
 
-import type { MountManager } from '../../filesystem';
+import type { MountManager, WatchEvent, WatchHandle } from '../../filesystem';
+import { normalizePath, basename, relative } from '../../filesystem/path-utils';
 import type { Stats, Dirent, BufferEncoding } from '../types';
 import { Buffer } from '../globals/buffer';
 import { EventEmitter } from './events';
@@ -365,6 +366,106 @@ export function copyFile(src: string, dest: string, callback: (err: NodeJS.Errno
     .catch((err) => callback(createError(err, src)));
 }
 
+/**
+ * Watch options
+ */
+export interface WatchOptions {
+  encoding?: BufferEncoding | null;
+  persistent?: boolean;
+  recursive?: boolean;
+}
+
+/**
+ * Watch listener, `rename` reports an entry appearing or disappearing, `change` its contents
+ */
+export type WatchListener = (eventType: 'rename' | 'change', filename: string | null) => void;
+
+/**
+ * Watcher returned by watch(), emits 'change' for each change and 'close' once closed
+ */
+export class FSWatcher extends EventEmitter {
+  private _path: string;
+  private _handle: WatchHandle | null;
+
+  constructor(path: string, options: WatchOptions = {}) {
+    super();
+
+    this._path = normalizePath(path);
+    this._handle = getFs().watch(this._path, (event) => this._onChange(event), {
+      recursive: options.recursive ?? false,
+    });
+  }
+
+  /**
+   * Stop watching
+   */
+  close(): void {
+    if (!this._handle) {
+      return;
+    }
+
+    this._handle.unsubscribe();
+    this._handle = null;
+    this.emit('close');
+  }
+
+  /**
+   * No-op: a watcher never keeps the browser runtime alive
+   */
+  ref(): this {
+    return this;
+  }
+
+  /**
+   * No-op: a watcher never keeps the browser runtime alive
+   */
+  unref(): this {
+    return this;
+  }
+
+  private _onChange(event: WatchEvent): void {
+    if (event.type === 'modify') {
+      this.emit('change', 'change', this._filename(event.path));
+      return;
+    }
+
+    // like Node, a rename is reported for both names
+    if (event.oldPath) {
+      this.emit('change', 'rename', this._filename(event.oldPath));
+    }
+
+    this.emit('change', 'rename', this._filename(event.path));
+  }
+
+  /**
+   * Name reported for a path, relative to the watched directory
+   */
+  private _filename(path: string): string {
+    return path === this._path ? basename(path) : relative(this._path, path);
+  }
+}
+
+/**
+ * Watch a file or directory for changes
+ */
+export function watch(filename: string, options?: WatchOptions | BufferEncoding, listener?: WatchListener): FSWatcher;
+export function watch(filename: string, listener?: WatchListener): FSWatcher;
+export function watch(
+  filename: string,
+  optionsOrListener?: WatchOptions | BufferEncoding | WatchListener,
+  maybeListener?: WatchListener,
+): FSWatcher {
+  const listener = typeof optionsOrListener === 'function' ? optionsOrListener : maybeListener;
+  const options = typeof optionsOrListener === 'object' ? optionsOrListener : {};
+  const watcher = new FSWatcher(filename, options);
+
+  if (listener) {
+    watcher.on('change', (eventType, name) => listener(eventType as 'rename' | 'change', name as string | null));
+  }
+
+  return watcher;
+}
+
 // ============================================================================
 // Sync Functions
 // ============================================================================
@@ -650,6 +751,8 @@ export default {
   exists,
   rename,
   copyFile,
+  watch,
+  FSWatcher,
   readFileSync,
   writeFileSync,
   existsSync,
@@ -3,13 +3,21 @@
  * BAVINI Container - HTTP Module
  * =============================================================================
  * Node.js http module implementation for browser environment.
- * Uses fetch API for client requests and provides mock server functionality.
+ * Uses fetch API for client requests. Listening servers are registered on
+ * their port so the preview can route requests to them.
  * =============================================================================
  */
 
 import { EventEmitter } from './events';
 import { Readable, Writable, Duplex } from './stream';
 import { Buffer } from '../globals/buffer';
+import {
+  registerServer,
+  unregisterServer,
+  type RegisteredServer,
+  type ServerRequest,
+  type ServerResponseData,
+} from '../server-registry';
 
 /**
  * HTTP methods
@@ -111,10 +119,47 @@ export class IncomingMessage extends Readable {
   aborted: boolean = false;
   complete: boolean = false;
 
+  /** Request body not pushed yet (undefined once delivered) */
+  private _pendingBody?: Buffer | null;
+
   constructor() {
     super();
   }
 
+  /**
+   * Set the body of a server request. It is pushed when the handler starts
+   * reading, so `data`/`end` listeners added later do not miss it.
+   */
+  _setBody(body?: Buffer): void {
+    this._pendingBody = body ?? null;
+  }
+
+  resume(): this {
+    this._deliverBody();
+    return super.resume();
+  }
+
+  read(size?: number): unknown {
+    this._deliverBody();
+    return super.read(size);
+  }
+
+  private _deliverBody(): void {
+    if (this._pendingBody === undefined) {
+      return;
+    }
+
+    const body = this._pendingBody;
+    this._pendingBody = undefined;
+
+    if (body && body.length > 0) {
+      this.push(body);
+    }
+
+    this.complete = true;
+    this.push(null);
+  }
+
   /**
    * Set headers from Response or headers object
    */
@@ -266,6 +311,25 @@ export class ServerResponse extends Writable {
     return Buffer.concat(this._chunks);
   }
 
+  /**
+   * Convert the finished response for the preview
+   */
+  _toResponseData(): ServerResponseData {
+    const headers: Record<string, string | string[]> = {};
+
+    for (const [name, value] of Object.entries(this.headers)) {
+      if (value !== undefined) {
+        headers[name] = Array.isArray(value) ? value.map(String) : String(value);
+      }
+    }
+
+    // statusMessage keeps its 'OK' default when only statusCode was assigned
+    const statusText =
+      this.statusMessage === 'OK' && this.statusCode !== 200 ? STATUS_CODES[this.statusCode] || '' : this.statusMessage;
+
+    return { status: this.statusCode, statusText, headers, body: new Uint8Array(this._getBody()) };
+  }
+
   /**
    * Write and end
    */
@@ -376,7 +440,8 @@ export class ClientRequest extends Writable {
       const opts = url;
       this.protocol = opts.protocol || 'http:';
       this.host = opts.hostname || opts.host || 'localhost';
-      this.port = typeof opts.port === 'string' ? parseInt(opts.port) : opts.port || 80;
+      this.port =
+        (typeof opts.port === 'string' ? parseInt(opts.port) : opts.port) || (this.protocol === 'https:' ? 443 : 80);
       this.path = opts.path || '/';
       this.method = opts.method || 'GET';
 
@@ -635,9 +700,18 @@ export class Agent extends EventEmitter {
 export const globalAgent = new Agent({ keepAlive: true });
 
 /**
- * Server - HTTP server implementation (mock for browser)
+ * Options accepted by Server.listen({ ... })
  */
-export class Server extends EventEmitter {
+export interface ListenOptions {
+  port?: number | string;
+  host?: string;
+}
+
+/**
+ * Server - HTTP server bound to a virtual port.
+ * Requests come from the preview through the server registry.
+ */
+export class Server extends EventEmitter implements RegisteredServer {
   listening: boolean = false;
   maxHeadersCount: number = 2000;
   timeout: number = 0;
@@ -648,7 +722,7 @@ export class Server extends EventEmitter {
 
   private _port: number = 0;
   private _hostname: string = 'localhost';
-  private _handlers: Map<string, (req: IncomingMessage, res: ServerResponse) => void> = new Map();
+  private _ref: boolean = true;
 
   constructor(options?: ServerOptions | ((req: IncomingMessage, res: ServerResponse) => void), requestListener?: (req: IncomingMessage, res: ServerResponse) => void) {
     super();
@@ -663,9 +737,19 @@ export class Server extends EventEmitter {
   }
 
   /**
-   * Start listening
+   * Start listening on a virtual port (0 picks a free one)
    */
-  listen(port?: number, hostname?: string | (() => void), backlog?: number | (() => void), callback?: () => void): this {
+  listen(
+    port?: number | string | ListenOptions | (() => void),
+    hostname?: string | (() => void),
+    backlog?: number | (() => void),
+    callback?: () => void,
+  ): this {
+    if (typeof port === 'function') {
+      callback = port;
+      port = undefined;
+    }
+
     if (typeof hostname === 'function') {
       callback = hostname;
       hostname = undefined;
@@ -676,7 +760,22 @@ export class Server extends EventEmitter {
       backlog = undefined;
     }
 
-    this._port = port || 0;
+    if (port !== null && typeof port === 'object') {
+      hostname = port.host;
+      port = port.port;
+    }
+
+    if (this.listening) {
+      unregisterServer(this._port, this);
+    }
+
+    try {
+      this._port = registerServer(Number(port) || 0, this);
+    } catch (error) {
+      queueMicrotask(() => this.emit('error', error));
+      return this;
+    }
+
     this._hostname = (hostname as string) || 'localhost';
     this.listening = true;
 
@@ -694,6 +793,15 @@ export class Server extends EventEmitter {
    * Close the server
    */
   close(callback?: (error?: Error) => void): this {
+    if (!this.listening) {
+      if (callback) {
+        callback(new Error('Server is not running.'));
+      }
+
+      return this;
+    }
+
+    unregisterServer(this._port, this);
     this.listening = false;
     this.emit('close');
 
@@ -715,6 +823,26 @@ export class Server extends EventEmitter {
     };
   }
 
+  /**
+   * Keep the process alive while listening (the default)
+   */
+  ref(): this {
+    this._ref = true;
+    return this;
+  }
+
+  /**
+   * Let the process exit even though the server listens
+   */
+  unref(): this {
+    this._ref = false;
+    return this;
+  }
+
+  hasRef(): boolean {
+    return this._ref;
+  }
+
   /**
    * Set timeout
    */
@@ -732,46 +860,80 @@ export class Server extends EventEmitter {
    * Close all connections
    */
   closeAllConnections(): void {
-    // Not applicable in browser mock
+    // Requests are not backed by connections
   }
 
   /**
    * Close idle connections
    */
   closeIdleConnections(): void {
-    // Not applicable in browser mock
+    // Requests are not backed by connections
   }
 
   /**
-   * Handle a request (for testing/mocking)
+   * Run the request listeners for a request routed from the preview
    */
-  _handleRequest(method: string, url: string, headers: Record<string, string>, body?: Buffer): Promise<{ statusCode: number; headers: OutgoingHttpHeaders; body: Buffer }> {
+  handleRequest(request: ServerRequest): Promise<ServerResponseData> {
     return new Promise((resolve, reject) => {
       const req = new IncomingMessage();
-      req.method = method;
-      req.url = url;
-      req._setHeaders(headers);
+      req.method = request.method.toUpperCase();
+      req.url = request.url;
+      req.socket = createSocket(this._port);
+      req._setHeaders(request.headers);
+      req._setBody(request.body ? Buffer.from(request.body) : undefined);
 
-      if (body) {
-        req.push(body);
-      }
+      const res = new ServerResponse();
 
-      req.push(null);
-      req.complete = true;
+      res.on('finish', () => resolve(res._toResponseData()));
 
-      const res = new ServerResponse();
+      try {
+        if (this.listenerCount('request') === 0) {
+          res.statusCode = 404;
+          res.end();
 
-      res.on('finish', () => {
-        resolve({
-          statusCode: res.statusCode,
-          headers: res.getHeaders(),
-          body: res._getBody(),
-        });
-      });
+          return;
+        }
 
-      this.emit('request', req, res);
+        this.emit('request', req, res);
+      } catch (error) {
+        reject(error);
+      }
     });
   }
+
+  /**
+   * Handle a request (for testing/mocking)
+   */
+  async _handleRequest(
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    body?: Buffer,
+  ): Promise<{ statusCode: number; headers: OutgoingHttpHeaders; body: Buffer }> {
+    const response = await this.handleRequest({ method, url, headers, body });
+
+    return {
+      statusCode: response.status,
+      headers: response.headers,
+      body: Buffer.from(response.body),
+    };
+  }
+}
+
+/**
+ * Minimal socket for req.socket (frameworks read addresses and listen for close)
+ */
+function createSocket(localPort: number) {
+  return Object.assign(new EventEmitter(), {
+    remoteAddress: '127.0.0.1',
+    remotePort: 0,
+    remoteFamily: 'IPv4',
+    localAddress: '127.0.0.1',
+    localPort,
+    encrypted: false,
+    readable: true,
+    writable: true,
+  });
 }
 
 /**
@@ -0,0 +1,110 @@
+/**
+ * =============================================================================
+ * BAVINI Container - HTTPS Module
+ * =============================================================================
+ * Node.js https module implementation. Outgoing requests go through fetch like
+ * http; servers are plain http.Server instances since TLS is terminated by the
+ * browser in front of the preview.
+ * =============================================================================
+ */
+
+import {
+  Agent as HttpAgent,
+  ClientRequest,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+  createServer as createHttpServer,
+  request as httpRequest,
+  type RequestOptions,
+  type ServerOptions,
+} from './http';
+
+/**
+ * TLS options accepted (and ignored) by https.createServer()
+ */
+export interface HttpsServerOptions extends ServerOptions {
+  key?: string | Uint8Array | Array<string | Uint8Array>;
+  cert?: string | Uint8Array | Array<string | Uint8Array>;
+  ca?: string | Uint8Array | Array<string | Uint8Array>;
+  pfx?: string | Uint8Array;
+  passphrase?: string;
+}
+
+type ResponseCallback = (res: IncomingMessage) => void;
+
+/**
+ * HTTPS agent
+ */
+export class Agent extends HttpAgent {
+  constructor(options?: ConstructorParameters<typeof HttpAgent>[0]) {
+    super(options);
+
+    this.defaultPort = 443;
+    this.protocol = 'https:';
+  }
+}
+
+/**
+ * Global HTTPS agent
+ */
+export const globalAgent = new Agent({ keepAlive: true });
+
+/**
+ * Create an HTTPS server
+ */
+export function createServer(
+  options?: HttpsServerOptions | ((req: IncomingMessage, res: ServerResponse) => void),
+  requestListener?: (req: IncomingMessage, res: ServerResponse) => void,
+): Server {
+  if (typeof options === 'function') {
+    return createHttpServer(options);
+  }
+
+  return createHttpServer(options ?? {}, requestListener);
+}
+
+/**
+ * Make an HTTPS request
+ */
+export function request(
+  url: string | URL | RequestOptions,
+  options?: RequestOptions | ResponseCallback,
+  callback?: ResponseCallback,
+): ClientRequest {
+  if (typeof options === 'function') {
+    callback = options;
+    options = undefined;
+  }
+
+  if (typeof url === 'string' || url instanceof URL) {
+    return httpRequest(url, { protocol: 'https:', ...options }, callback);
+  }
+
+  return httpRequest({ protocol: 'https:', ...url, ...options }, callback);
+}
+
+/**
+ * Make an HTTPS GET request
+ */
+export function get(
+  url: string | URL | RequestOptions,
+  options?: RequestOptions | ResponseCallback,
+  callback?: ResponseCallback,
+): ClientRequest {
+  const req = request(url, options, callback);
+  req.end();
+
+  return req;
+}
+
+export { Server };
+
+export default {
+  Agent,
+  Server,
+  createServer,
+  get,
+  globalAgent,
+  request,
+};
@@ -15,6 +15,14 @@ export * as stream from './stream';
 export * as http from './http';
 export * as crypto from './crypto';
 export * as child_process from './child_process';
+export * as https from './https';
+export * as os from './os';
+export * as url from './url';
+export * as querystring from './querystring';
+export * as assert from './assert';
+export * as buffer from './buffer';
+export * as zlib from './zlib';
+export * as worker_threads from './worker_threads';
 
 // Export default classes
 export { EventEmitter } from './events';
@@ -22,12 +30,6 @@ export { Readable, Writable, Duplex, Transform, PassThrough } from './stream';
 export { Server, IncomingMessage, ServerResponse, ClientRequest, Agent } from './http';
 export { Hash, Hmac, Cipher, Decipher, ECDH } from './crypto';
 export { ChildProcess } from './child_process';
-
-// Will be added as implemented:
-// export * as https from './https';
-// export * as child_process from './child_process';
-// export * as os from './os';
-// export * as url from './url';
-// export * as querystring from './querystring';
-// export * as assert from './assert';
-// export * as buffer from './buffer';
+export { AssertionError } from './assert';
+export { Gzip, Gunzip, Deflate, Inflate, DeflateRaw, InflateRaw, Unzip } from './zlib';
+export { Worker } from './worker_threads';
@@ -0,0 +1,360 @@
+/**
+ * =============================================================================
+ * BAVINI Container - OS Module
+ * =============================================================================
+ * Node.js os module implementation. Describes the virtual Linux machine the
+ * runtime emulates, using browser hints where they exist.
+ * =============================================================================
+ */
+
+/**
+ * CPU information returned by cpus()
+ */
+export interface CpuInfo {
+  model: string;
+  speed: number;
+  times: { user: number; nice: number; sys: number; idle: number; irq: number };
+}
+
+/**
+ * Network interface information returned by networkInterfaces()
+ */
+export interface NetworkInterfaceInfo {
+  address: string;
+  netmask: string;
+  family: 'IPv4' | 'IPv6';
+  mac: string;
+  internal: boolean;
+  cidr: string | null;
+  scopeid?: number;
+}
+
+/**
+ * User information returned by userInfo()
+ */
+export interface UserInfo<T = string> {
+  username: T;
+  uid: number;
+  gid: number;
+  shell: T | null;
+  homedir: T;
+}
+
+const HOSTNAME = 'bavini';
+const USERNAME = 'bavini';
+const HOME_DIR = '/home';
+const TMP_DIR = '/tmp';
+const KERNEL_RELEASE = '6.0.0-bavini';
+const DEFAULT_TOTAL_MEMORY = 4 * 1024 * 1024 * 1024;
+
+const startTime = Date.now();
+const priorities = new Map<number, number>();
+
+/**
+ * End-of-line marker
+ */
+export const EOL = '\n';
+
+/**
+ * Path of the null device
+ */
+export const devNull = '/dev/null';
+
+/**
+ * OS constants (Linux values)
+ */
+export const constants = {
+  UV_UDP_REUSEADDR: 4,
+  dlopen: { RTLD_LAZY: 1, RTLD_NOW: 2, RTLD_GLOBAL: 256, RTLD_LOCAL: 0 },
+  errno: {
+    E2BIG: 7,
+    EACCES: 13,
+    EADDRINUSE: 98,
+    EADDRNOTAVAIL: 99,
+    EAGAIN: 11,
+    EBADF: 9,
+    EBUSY: 16,
+    ECONNREFUSED: 111,
+    ECONNRESET: 104,
+    EEXIST: 17,
+    EINTR: 4,
+    EINVAL: 22,
+    EIO: 5,
+    EISDIR: 21,
+    EMFILE: 24,
+    ENOENT: 2,
+    ENOSPC: 28,
+    ENOSYS: 38,
+    ENOTDIR: 20,
+    ENOTEMPTY: 39,
+    ENOTSUP: 95,
+    EPERM: 1,
+    EPIPE: 32,
+    ETIMEDOUT: 110,
+  },
+  signals: {
+    SIGHUP: 1,
+    SIGINT: 2,
+    SIGQUIT: 3,
+    SIGILL: 4,
+    SIGTRAP: 5,
+    SIGABRT: 6,
+    SIGIOT: 6,
+    SIGBUS: 7,
+    SIGFPE: 8,
+    SIGKILL: 9,
+    SIGUSR1: 10,
+    SIGSEGV: 11,
+    SIGUSR2: 12,
+    SIGPIPE: 13,
+    SIGALRM: 14,
+    SIGTERM: 15,
+    SIGCHLD: 17,
+    SIGCONT: 18,
+    SIGSTOP: 19,
+    SIGTSTP: 20,
+    SIGTTIN: 21,
+    SIGTTOU: 22,
+    SIGURG: 23,
+    SIGXCPU: 24,
+    SIGXFSZ: 25,
+    SIGVTALRM: 26,
+    SIGPROF: 27,
+    SIGWINCH: 28,
+    SIGIO: 29,
+    SIGPOLL: 29,
+    SIGPWR: 30,
+    SIGSYS: 31,
+  },
+  priority: {
+    PRIORITY_LOW: 19,
+    PRIORITY_BELOW_NORMAL: 10,
+    PRIORITY_NORMAL: 0,
+    PRIORITY_ABOVE_NORMAL: -7,
+    PRIORITY_HIGH: -14,
+    PRIORITY_HIGHEST: -20,
+  },
+};
+
+/**
+ * Operating system platform
+ */
+export function platform(): string {
+  return 'linux';
+}
+
+/**
+ * Operating system name as returned by uname(3)
+ */
+export function type(): string {
+  return 'Linux';
+}
+
+/**
+ * Operating system release
+ */
+export function release(): string {
+  return KERNEL_RELEASE;
+}
+
+/**
+ * Kernel version string
+ */
+export function version(): string {
+  return '#1 SMP BAVINI';
+}
+
+/**
+ * CPU architecture
+ */
+export function arch(): string {
+  return 'x64';
+}
+
+/**
+ * Machine type as returned by uname(3)
+ */
+export function machine(): string {
+  return 'x86_64';
+}
+
+/**
+ * CPU endianness
+ */
+export function endianness(): 'BE' | 'LE' {
+  return new Uint8Array(new Uint16Array([1]).buffer)[0] === 1 ? 'LE' : 'BE';
+}
+
+/**
+ * Host name
+ */
+export function hostname(): string {
+  return HOSTNAME;
+}
+
+/**
+ * Home directory of the current user
+ */
+export function homedir(): string {
+  return HOME_DIR;
+}
+
+/**
+ * Default directory for temporary files
+ */
+export function tmpdir(): string {
+  return TMP_DIR;
+}
+
+/**
+ * Logical CPU cores, one entry per core reported by the browser
+ */
+export function cpus(): CpuInfo[] {
+  const count = availableParallelism();
+  const cores: CpuInfo[] = [];
+
+  for (let i = 0; i < count; i++) {
+    cores.push({
+      model: 'BAVINI Virtual CPU',
+      speed: 0,
+      times: { user: 0, nice: 0, sys: 0, idle: 0, irq: 0 },
+    });
+  }
+
+  return cores;
+}
+
+/**
+ * Default amount of parallelism a program should use
+ */
+export function availableParallelism(): number {
+  const concurrency = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : undefined;
+
+  return concurrency && concurrency > 0 ? concurrency : 1;
+}
+
+/**
+ * Total system memory in bytes
+ */
+export function totalmem(): number {
+  const deviceMemory =
+    typeof navigator !== 'undefined' ? (navigator as Navigator & { deviceMemory?: number }).deviceMemory : undefined;
+
+  return deviceMemory ? deviceMemory * 1024 * 1024 * 1024 : DEFAULT_TOTAL_MEMORY;
+}
+
+/**
+ * Free system memory in bytes
+ */
+export function freemem(): number {
+  const memory = (performance as Performance & { memory?: { jsHeapSizeLimit: number; usedJSHeapSize: number } }).memory;
+
+  if (memory) {
+    return Math.max(0, memory.jsHeapSizeLimit - memory.usedJSHeapSize);
+  }
+
+  return Math.floor(totalmem() / 2);
+}
+
+/**
+ * System uptime in seconds (time since the runtime started)
+ */
+export function uptime(): number {
+  return Math.floor((Date.now() - startTime) / 1000);
+}
+
+/**
+ * 1, 5 and 15 minute load averages (always 0 outside of a real kernel)
+ */
+export function loadavg(): number[] {
+  return [0, 0, 0];
+}
+
+/**
+ * Network interfaces (only the loopback interface exists)
+ */
+export function networkInterfaces(): Record<string, NetworkInterfaceInfo[]> {
+  return {
+    lo: [
+      {
+        address: '127.0.0.1',
+        netmask: '255.0.0.0',
+        family: 'IPv4',
+        mac: '00:00:00:00:00:00',
+        internal: true,
+        cidr: '127.0.0.1/8',
+      },
+      {
+        address: '::1',
+        netmask: 'ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff',
+        family: 'IPv6',
+        mac: '00:00:00:00:00:00',
+        internal: true,
+        cidr: '::1/128',
+        scopeid: 0,
+      },
+    ],
+  };
+}
+
+/**
+ * Information about the current user
+ */
+export function userInfo(_options?: { encoding?: string }): UserInfo {
+  return {
+    username: USERNAME,
+    uid: 1000,
+    gid: 1000,
+    shell: '/bin/sh',
+    homedir: HOME_DIR,
+  };
+}
+
+/**
+ * Scheduling priority of a process
+ */
+export function getPriority(pid = 0): number {
+  return priorities.get(pid) ?? constants.priority.PRIORITY_NORMAL;
+}
+
+/**
+ * Set the scheduling priority of a process
+ */
+export function setPriority(pid: number, priority?: number): void {
+  if (priority === undefined) {
+    priority = pid;
+    pid = 0;
+  }
+
+  if (!Number.isInteger(priority) || priority < -20 || priority > 19) {
+    throw new RangeError(`The value of "priority" is out of range. It must be >= -20 && <= 19. Received ${priority}`);
+  }
+
+  priorities.set(pid, priority);
+}
+
+export default {
+  EOL,
+  arch,
+  availableParallelism,
+  constants,
+  cpus,
+  devNull,
+  endianness,
+  freemem,
+  getPriority,
+  homedir,
+  hostname,
+  loadavg,
+  machine,
+  networkInterfaces,
+  platform,
+  release,
+  setPriority,
+  tmpdir,
+  totalmem,
+  type,
+  uptime,
+  userInfo,
+  version,
+};
@@ -0,0 +1,167 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Querystring Module
+ * =============================================================================
+ * Node.js querystring module implementation.
+ * =============================================================================
+ */
+
+/**
+ * Parsed query string (keys repeated in the input become arrays)
+ */
+export type ParsedUrlQuery = Record<string, string | string[]>;
+
+/**
+ * Values accepted by stringify()
+ */
+export type ParsedUrlQueryInput = Record<
+  string,
+  string | number | boolean | bigint | ReadonlyArray<string | number | boolean | bigint> | null | undefined
+>;
+
+export interface ParseOptions {
+  /** Maximum number of keys to parse, 0 removes the limit (default: 1000) */
+  maxKeys?: number;
+
+  decodeURIComponent?: (str: string) => string;
+}
+
+export interface StringifyOptions {
+  encodeURIComponent?: (str: string) => string;
+}
+
+/**
+ * Percent-encode a string for use in a query string
+ */
+export function escape(str: unknown): string {
+  return encodeURIComponent(typeof str === 'string' ? str : String(str));
+}
+
+/**
+ * Decode a percent-encoded string, keeping malformed sequences that cannot be decoded
+ */
+export function unescape(str: string): string {
+  try {
+    return decodeURIComponent(str);
+  } catch {
+    return str.replace(/(?:%[0-9a-f]{2})+/gi, (sequence) => {
+      try {
+        return decodeURIComponent(sequence);
+      } catch {
+        return sequence;
+      }
+    });
+  }
+}
+
+/**
+ * Parse a query string into an object
+ */
+export function parse(str: string, sep = '&', eq = '=', options: ParseOptions = {}): ParsedUrlQuery {
+  const result: ParsedUrlQuery = Object.create(null);
+
+  if (typeof str !== 'string' || str.length === 0) {
+    return result;
+  }
+
+  const separator = sep || '&';
+  const assignment = eq || '=';
+  const maxKeys = options.maxKeys ?? 1000;
+  const decode = options.decodeURIComponent ?? unescape;
+
+  let pairs = str.split(separator);
+
+  if (maxKeys > 0 && pairs.length > maxKeys) {
+    pairs = pairs.slice(0, maxKeys);
+  }
+
+  for (const pair of pairs) {
+    if (pair.length === 0) {
+      continue;
+    }
+
+    const index = pair.indexOf(assignment);
+    const rawKey = index >= 0 ? pair.slice(0, index) : pair;
+    const rawValue = index >= 0 ? pair.slice(index + assignment.length) : '';
+    const key = decodeComponent(rawKey, decode);
+    const value = decodeComponent(rawValue, decode);
+    const existing = result[key];
+
+    if (existing === undefined) {
+      result[key] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      result[key] = [existing, value];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Serialize an object into a query string
+ */
+export function stringify(obj: ParsedUrlQueryInput, sep = '&', eq = '=', options: StringifyOptions = {}): string {
+  if (obj === null || typeof obj !== 'object') {
+    return '';
+  }
+
+  const encode = options.encodeURIComponent ?? escape;
+  const fields: string[] = [];
+
+  for (const key of Object.keys(obj)) {
+    const value = obj[key];
+    const prefix = encode(key) + eq;
+
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        fields.push(prefix + encode(stringifyPrimitive(item)));
+      }
+    } else {
+      fields.push(prefix + encode(stringifyPrimitive(value)));
+    }
+  }
+
+  return fields.join(sep);
+}
+
+function decodeComponent(str: string, decode: (str: string) => string): string {
+  const value = str.replace(/\+/g, ' ');
+
+  try {
+    return decode(value);
+  } catch {
+    return unescape(value);
+  }
+}
+
+function stringifyPrimitive(value: unknown): string {
+  switch (typeof value) {
+    case 'string':
+      return value;
+    case 'number':
+      return Number.isFinite(value) ? String(value) : '';
+    case 'bigint':
+      return String(value);
+    case 'boolean':
+      return value ? 'true' : 'false';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Aliases kept for compatibility
+ */
+export const decode = parse;
+export const encode = stringify;
+
+export default {
+  decode,
+  encode,
+  escape,
+  parse,
+  stringify,
+  unescape,
+};
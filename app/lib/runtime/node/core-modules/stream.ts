@@ -335,6 +335,25 @@ export class Readable extends EventEmitter {
     return this;
   }
 
+  /**
+   * Adding a 'data' listener switches the stream to flowing mode, unless it
+   * was explicitly paused. Deferred so that listeners attached right after
+   * (e.g. 'end') are in place before data is emitted.
+   */
+  on(eventName: string | symbol, listener: (...args: unknown[]) => void): this {
+    super.on(eventName, listener);
+
+    if (eventName === 'data') {
+      queueMicrotask(() => {
+        if (this._readableState.flowing !== false) {
+          this.resume();
+        }
+      });
+    }
+
+    return this;
+  }
+
   /**
    * Set encoding
    */
@@ -575,25 +594,14 @@ export class Writable extends EventEmitter {
 
     state.ended = true;
 
-    // Process remaining buffer
-    this._processBuffer();
-
-    // Call final
-    if (!state.finalCalled) {
-      state.finalCalled = true;
-      this._final((err) => {
-        if (err) {
-          this.emit('error', err);
-        } else {
-          state.finished = true;
-          this.writableFinished = true;
-          this.emit('finish');
-
-          if (callback) callback();
-        }
-      });
+    if (callback) {
+      this.once('finish', callback);
     }
 
+    // Process remaining buffer, then call final once every write completed
+    this._processBuffer();
+    this._callFinal();
+
     return this;
   }
 
@@ -663,6 +671,7 @@ export class Writable extends EventEmitter {
     if (state.buffer.length === 0) {
       if (state.ended && !state.finished) {
         this.emit('drain');
+        this._callFinal();
       }
 
       return;
@@ -704,6 +713,29 @@ export class Writable extends EventEmitter {
       });
     }
   }
+
+  /**
+   * Call _final() once the stream ended and every pending write completed
+   */
+  protected _callFinal(): void {
+    const state = this._writableState;
+
+    if (!state.ended || state.finalCalled || state.writing || state.buffer.length > 0) {
+      return;
+    }
+
+    state.finalCalled = true;
+
+    this._final((err) => {
+      if (err) {
+        this.emit('error', err);
+      } else {
+        state.finished = true;
+        this.writableFinished = true;
+        this.emit('finish');
+      }
+    });
+  }
 }
 
 /**
@@ -773,6 +805,14 @@ export class Duplex extends Readable {
   uncork(): void {
     Writable.prototype.uncork.call(this);
   }
+
+  protected _processBuffer(): void {
+    (Writable.prototype as unknown as { _processBuffer(): void })._processBuffer.call(this);
+  }
+
+  protected _callFinal(): void {
+    (Writable.prototype as unknown as { _callFinal(): void })._callFinal.call(this);
+  }
 }
 
 /**
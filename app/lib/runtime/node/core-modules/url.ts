@@ -0,0 +1,454 @@
+/**
+ * =============================================================================
+ * BAVINI Container - URL Module
+ * =============================================================================
+ * Node.js url module implementation. The WHATWG API comes from the browser;
+ * the legacy parse/format/resolve API is implemented on top of it.
+ * =============================================================================
+ */
+
+import { resolve as resolvePath } from './path';
+import { stringify as stringifyQuery, parse as parseQuery, type ParsedUrlQuery } from './querystring';
+
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const { URL, URLSearchParams } = globalThis;
+
+/**
+ * Legacy URL object returned by url.parse()
+ */
+export interface UrlObject {
+  protocol: string | null;
+  slashes: boolean | null;
+  auth: string | null;
+  host: string | null;
+  port: string | null;
+  hostname: string | null;
+  hash: string | null;
+  search: string | null;
+  query: string | ParsedUrlQuery | null;
+  pathname: string | null;
+  path: string | null;
+  href: string;
+}
+
+/**
+ * Input accepted by url.format()
+ */
+export type UrlObjectInput = Partial<Omit<UrlObject, 'query'>> & {
+  query?: string | Record<string, unknown> | null;
+};
+
+/**
+ * Options of url.format() for WHATWG URL objects
+ */
+export interface URLFormatOptions {
+  auth?: boolean;
+  fragment?: boolean;
+  search?: boolean;
+  unicode?: boolean;
+}
+
+/**
+ * Protocols that always use `//` before the host
+ */
+const SLASHED_PROTOCOLS = new Set(['http:', 'https:', 'ftp:', 'gopher:', 'file:', 'ws:', 'wss:']);
+
+/**
+ * Protocols that never have a host
+ */
+const HOSTLESS_PROTOCOLS = new Set(['javascript:']);
+
+const URL_PATTERN = /^([a-z][a-z0-9+.-]*:)?(\/\/)?([^?#]*)(\?[^#]*)?(#.*)?$/i;
+
+/*
+ * -----------------------------------------------------------------------------
+ * Legacy API
+ * -----------------------------------------------------------------------------
+ */
+
+/**
+ * Parse a URL string into a legacy URL object
+ * @deprecated Use the WHATWG URL API instead
+ */
+export function parse(urlString: string, parseQueryString = false, slashesDenoteHost = false): UrlObject {
+  if (typeof urlString !== 'string') {
+    throw new TypeError(`The "url" argument must be of type string. Received ${typeof urlString}`);
+  }
+
+  const [, rawProtocol, slashes, rest = '', search, hash] = URL_PATTERN.exec(urlString.trim()) ?? [];
+  const protocol = rawProtocol ? rawProtocol.toLowerCase() : null;
+  const result: UrlObject = {
+    protocol,
+    slashes: slashes ? true : null,
+    auth: null,
+    host: null,
+    port: null,
+    hostname: null,
+    hash: hash ?? null,
+    search: search ?? null,
+    query: null,
+    pathname: null,
+    path: null,
+    href: '',
+  };
+
+  let pathname = rest;
+  const hasHost =
+    protocol !== null
+      ? !HOSTLESS_PROTOCOLS.has(protocol) && (slashes !== undefined || !SLASHED_PROTOCOLS.has(protocol))
+      : slashes !== undefined && slashesDenoteHost;
+
+  if (hasHost) {
+    const hostEnd = rest.search(/[/\\]|$/);
+    let authority = rest.slice(0, hostEnd);
+
+    pathname = rest.slice(hostEnd);
+
+    const at = authority.lastIndexOf('@');
+
+    if (at >= 0) {
+      result.auth = decodeURIComponent(authority.slice(0, at));
+      authority = authority.slice(at + 1);
+    }
+
+    const portMatch = /:(\d*)$/.exec(authority);
+
+    if (portMatch) {
+      result.port = portMatch[1] || null;
+      authority = authority.slice(0, portMatch.index);
+    }
+
+    result.hostname = authority.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+    result.host = authority.toLowerCase() + (result.port ? `:${result.port}` : '');
+  } else if (slashes) {
+    pathname = `//${rest}`;
+  }
+
+  if (protocol !== null && SLASHED_PROTOCOLS.has(protocol) && result.hostname !== null && pathname === '') {
+    pathname = '/';
+  }
+
+  result.pathname = pathname || null;
+
+  if (search !== undefined) {
+    result.query = parseQueryString ? parseQuery(search.slice(1)) : search.slice(1);
+  } else if (parseQueryString) {
+    result.search = '';
+    result.query = Object.create(null);
+  }
+
+  result.path = (result.pathname ?? '') + (result.search ?? '') || null;
+  result.href = format(result);
+
+  return result;
+}
+
+/**
+ * Format a legacy URL object or a WHATWG URL as a string
+ */
+export function format(urlObject: string | UrlObjectInput | URL, options?: URLFormatOptions): string {
+  if (typeof urlObject === 'string') {
+    return parse(urlObject).href;
+  }
+
+  if (urlObject instanceof URL) {
+    return formatWhatwgUrl(urlObject, options);
+  }
+
+  if (urlObject === null || typeof urlObject !== 'object') {
+    throw new TypeError(`The "urlObject" argument must be one of type object or string. Received ${urlObject}`);
+  }
+
+  let protocol = urlObject.protocol || '';
+
+  if (protocol && !protocol.endsWith(':')) {
+    protocol += ':';
+  }
+
+  const auth = urlObject.auth ? `${encodeURIComponent(urlObject.auth).replace(/%3A/gi, ':')}@` : '';
+
+  let host = '';
+
+  if (urlObject.host) {
+    host = auth + urlObject.host;
+  } else if (urlObject.hostname) {
+    const hostname = urlObject.hostname.includes(':') ? `[${urlObject.hostname}]` : urlObject.hostname;
+    host = auth + hostname + (urlObject.port ? `:${urlObject.port}` : '');
+  }
+
+  let pathname = (urlObject.pathname || '').replace(/[?#]/g, (char) => encodeURIComponent(char));
+  let search = urlObject.search || '';
+
+  if (!search && urlObject.query && typeof urlObject.query === 'object') {
+    const query = stringifyQuery(urlObject.query as Parameters<typeof stringifyQuery>[0]);
+    search = query ? `?${query}` : '';
+  }
+
+  if (search && !search.startsWith('?')) {
+    search = `?${search}`;
+  }
+
+  search = search.replace(/#/g, '%23');
+
+  let hash = urlObject.hash || '';
+
+  if (hash && !hash.startsWith('#')) {
+    hash = `#${hash}`;
+  }
+
+  if (urlObject.slashes || ((!protocol || SLASHED_PROTOCOLS.has(protocol)) && (host || protocol === 'file:'))) {
+    if (urlObject.slashes || host) {
+      host = `//${host}`;
+    }
+
+    if (pathname && !pathname.startsWith('/')) {
+      pathname = `/${pathname}`;
+    }
+  }
+
+  return protocol + host + pathname + search + hash;
+}
+
+/**
+ * Resolve a target URL relative to a base URL
+ * @deprecated Use the WHATWG URL API instead
+ */
+export function resolve(from: string, to: string): string {
+  const resolved = new URL(to, new URL(from, 'resolve://'));
+
+  if (resolved.protocol === 'resolve:') {
+    // `from` was relative: keep the result relative as well
+    const { pathname, search, hash } = resolved;
+    return pathname + search + hash;
+  }
+
+  return resolved.toString();
+}
+
+function formatWhatwgUrl(url: URL, options: URLFormatOptions = {}): string {
+  const { auth = true, fragment = true, search = true, unicode = false } = options;
+
+  let result = `${url.protocol}`;
+
+  if (url.host || url.protocol === 'file:') {
+    result += '//';
+  }
+
+  if (auth && (url.username || url.password)) {
+    result += url.username + (url.password ? `:${url.password}` : '') + '@';
+  }
+
+  result += unicode ? domainToUnicode(url.hostname) + (url.port ? `:${url.port}` : '') : url.host;
+  result += url.pathname;
+
+  if (search) {
+    result += url.search;
+  }
+
+  if (fragment) {
+    result += url.hash;
+  }
+
+  return result;
+}
+
+/*
+ * -----------------------------------------------------------------------------
+ * File URLs
+ * -----------------------------------------------------------------------------
+ */
+
+/**
+ * Convert a file: URL to an absolute path
+ */
+export function fileURLToPath(url: string | URL): string {
+  const parsed = typeof url === 'string' ? new URL(url) : url;
+
+  if (parsed.protocol !== 'file:') {
+    throw createError('ERR_INVALID_URL_SCHEME', 'The URL must be of scheme file');
+  }
+
+  if (parsed.hostname !== '' && parsed.hostname !== 'localhost') {
+    throw createError('ERR_INVALID_FILE_URL_HOST', 'File URL host must be "localhost" or empty on linux');
+  }
+
+  if (/%2f/i.test(parsed.pathname)) {
+    throw createError('ERR_INVALID_FILE_URL_PATH', 'File URL path must not include encoded / characters');
+  }
+
+  return decodeURIComponent(parsed.pathname);
+}
+
+/**
+ * Convert a path to a file: URL, resolving it against the working directory
+ */
+export function pathToFileURL(filepath: string): URL {
+  let resolved = resolvePath(filepath);
+
+  // resolve() strips the trailing slash, which is significant in a URL
+  if (filepath.endsWith('/') && !resolved.endsWith('/')) {
+    resolved += '/';
+  }
+
+  const encoded = resolved.replace(/[%\\\n\r\t#?]/g, (char) => encodeURIComponent(char));
+
+  return new URL(`file://${encoded}`);
+}
+
+/**
+ * Options object for http.request() built from a WHATWG URL
+ */
+export function urlToHttpOptions(url: URL): Record<string, unknown> {
+  const options: Record<string, unknown> = {
+    protocol: url.protocol,
+    hostname: url.hostname.replace(/^\[(.*)\]$/, '$1'),
+    hash: url.hash,
+    search: url.search,
+    pathname: url.pathname,
+    path: `${url.pathname}${url.search}`,
+    href: url.href,
+  };
+
+  if (url.port !== '') {
+    options.port = Number(url.port);
+  }
+
+  if (url.username || url.password) {
+    options.auth = `${decodeURIComponent(url.username)}:${decodeURIComponent(url.password)}`;
+  }
+
+  return options;
+}
+
+/*
+ * -----------------------------------------------------------------------------
+ * Domains
+ * -----------------------------------------------------------------------------
+ */
+
+/**
+ * Punycode ASCII serialization of a domain, or '' if it is invalid
+ */
+export function domainToASCII(domain: string): string {
+  try {
+    return new URL(`http://${domain}`).hostname;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Unicode serialization of a domain, or '' if it is invalid
+ */
+export function domainToUnicode(domain: string): string {
+  const ascii = domainToASCII(domain);
+
+  if (!ascii) {
+    return '';
+  }
+
+  try {
+    return ascii
+      .split('.')
+      .map((label) => (label.startsWith('xn--') ? decodePunycode(label.slice(4)) : label))
+      .join('.');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Decode a punycode label (RFC 3492)
+ */
+function decodePunycode(input: string): string {
+  const BASE = 36;
+  const T_MIN = 1;
+  const T_MAX = 26;
+  const SKEW = 38;
+  const DAMP = 700;
+
+  const adapt = (delta: number, numPoints: number, firstTime: boolean) => {
+    let k = 0;
+
+    delta = firstTime ? Math.floor(delta / DAMP) : delta >> 1;
+    delta += Math.floor(delta / numPoints);
+
+    while (delta > ((BASE - T_MIN) * T_MAX) >> 1) {
+      delta = Math.floor(delta / (BASE - T_MIN));
+      k += BASE;
+    }
+
+    return k + Math.floor(((BASE - T_MIN + 1) * delta) / (delta + SKEW));
+  };
+
+  const digit = (code: number) => {
+    if (code >= 48 && code <= 57) {
+      return code - 22;
+    }
+
+    if (code >= 65 && code <= 90) {
+      return code - 65;
+    }
+
+    if (code >= 97 && code <= 122) {
+      return code - 97;
+    }
+
+    throw new RangeError('Invalid punycode input');
+  };
+
+  const basicEnd = input.lastIndexOf('-');
+  const output = basicEnd > 0 ? Array.from(input.slice(0, basicEnd), (char) => char.codePointAt(0)!) : [];
+
+  let n = 128;
+  let i = 0;
+  let bias = 72;
+
+  for (let index = basicEnd > 0 ? basicEnd + 1 : 0; index < input.length; ) {
+    const oldi = i;
+
+    for (let w = 1, k = BASE; ; k += BASE) {
+      if (index >= input.length) {
+        throw new RangeError('Invalid punycode input');
+      }
+
+      const d = digit(input.charCodeAt(index++));
+      i += d * w;
+
+      const t = k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias;
+
+      if (d < t) {
+        break;
+      }
+
+      w *= BASE - t;
+    }
+
+    bias = adapt(i - oldi, output.length + 1, oldi === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    output.splice(i++, 0, n);
+  }
+
+  return String.fromCodePoint(...output);
+}
+
+function createError(code: string, message: string): TypeError & { code: string } {
+  const error = new TypeError(message) as TypeError & { code: string };
+  error.code = code;
+
+  return error;
+}
+
+export default {
+  URL,
+  URLSearchParams,
+  domainToASCII,
+  domainToUnicode,
+  fileURLToPath,
+  format,
+  parse,
+  pathToFileURL,
+  resolve,
+  urlToHttpOptions,
+};
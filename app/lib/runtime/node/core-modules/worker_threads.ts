@@ -0,0 +1,149 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Worker Threads Module
+ * =============================================================================
+ * Node.js worker_threads module implementation. Code always runs on the main
+ * thread; message channels come from the browser. Spawning a Worker emits an
+ * ERR_WORKER_UNSUPPORTED_OPERATION error so callers can fall back to running
+ * the work inline.
+ * =============================================================================
+ */
+
+import { EventEmitter } from './events';
+
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export const { MessageChannel, MessagePort, BroadcastChannel } = globalThis;
+
+/**
+ * The runtime never runs inside a worker thread
+ */
+export const isMainThread = true;
+export const parentPort = null;
+export const workerData = null;
+export const threadId = 0;
+export const resourceLimits = {};
+
+/**
+ * Symbol identifying the environment data shared with workers
+ */
+export const SHARE_ENV = Symbol.for('nodejs.worker_threads.SHARE_ENV');
+
+const environmentData = new Map<unknown, unknown>();
+
+/**
+ * Worker options
+ */
+export interface WorkerOptions {
+  argv?: unknown[];
+  env?: Record<string, string> | symbol;
+  eval?: boolean;
+  workerData?: unknown;
+  stdin?: boolean;
+  stdout?: boolean;
+  stderr?: boolean;
+  name?: string;
+  transferList?: unknown[];
+  resourceLimits?: Record<string, number>;
+}
+
+/**
+ * Worker thread (not supported: emits 'error' then 'exit')
+ */
+export class Worker extends EventEmitter {
+  readonly threadId = -1;
+  readonly resourceLimits = {};
+  readonly stdin = null;
+  readonly stdout = null;
+  readonly stderr = null;
+
+  constructor(filename: string | URL, _options: WorkerOptions = {}) {
+    super();
+
+    const error = new Error(
+      `Cannot start worker '${String(filename)}': worker threads are not supported in the browser runtime`,
+    ) as Error & { code: string };
+    error.code = 'ERR_WORKER_UNSUPPORTED_OPERATION';
+
+    queueMicrotask(() => {
+      this.emit('error', error);
+      this.emit('exit', 1);
+    });
+  }
+
+  postMessage(_value: unknown, _transferList?: unknown[]): void {
+    // The worker never started: messages are dropped
+  }
+
+  ref(): void {
+    // No-op
+  }
+
+  unref(): void {
+    // No-op
+  }
+
+  terminate(): Promise<number> {
+    return Promise.resolve(1);
+  }
+
+  getHeapSnapshot(): Promise<never> {
+    return Promise.reject(new Error('Worker is not running'));
+  }
+}
+
+/**
+ * Read a value set with setEnvironmentData()
+ */
+export function getEnvironmentData(key: unknown): unknown {
+  return environmentData.get(key);
+}
+
+/**
+ * Share a value with workers spawned from this thread
+ */
+export function setEnvironmentData(key: unknown, value: unknown): void {
+  if (value === undefined) {
+    environmentData.delete(key);
+  } else {
+    environmentData.set(key, value);
+  }
+}
+
+/**
+ * Mark an object as not transferable (no-op, nothing is transferred)
+ */
+export function markAsUntransferable(_object: object): void {
+  // No-op
+}
+
+/**
+ * Move a MessagePort to another context (only the main context exists)
+ */
+export function moveMessagePortToContext(port: MessagePort): MessagePort {
+  return port;
+}
+
+/**
+ * Receive a single message synchronously from a port (not possible with browser ports)
+ */
+export function receiveMessageOnPort(_port: MessagePort): undefined {
+  return undefined;
+}
+
+export default {
+  BroadcastChannel,
+  MessageChannel,
+  MessagePort,
+  SHARE_ENV,
+  Worker,
+  getEnvironmentData,
+  isMainThread,
+  markAsUntransferable,
+  moveMessagePortToContext,
+  parentPort,
+  receiveMessageOnPort,
+  resourceLimits,
+  setEnvironmentData,
+  threadId,
+  workerData,
+};
@@ -0,0 +1,644 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Zlib Module
+ * =============================================================================
+ * Node.js zlib module implementation on top of the browser CompressionStream
+ * and DecompressionStream APIs (gzip, deflate and raw deflate).
+ *
+ * Those APIs are asynchronous only, so the *Sync variants use fflate.
+ * Brotli is not available in the browser runtime: its functions throw
+ * ERR_NOT_SUPPORTED.
+ * =============================================================================
+ */
+
+import * as fflate from 'fflate';
+import { Buffer } from '../globals/buffer';
+import { Transform } from './stream';
+import type { BufferEncoding } from '../types';
+
+type StreamFormat = 'gzip' | 'deflate' | 'deflate-raw';
+
+type ZlibMode = 'compress' | 'decompress';
+
+type InputType = string | ArrayBuffer | ArrayBufferView;
+
+type CompressCallback = (error: Error | null, result: Buffer) => void;
+
+/**
+ * Options accepted by the zlib functions and classes
+ */
+export interface ZlibOptions {
+  flush?: number;
+  finishFlush?: number;
+  chunkSize?: number;
+  windowBits?: number;
+  level?: number;
+  memLevel?: number;
+  strategy?: number;
+  dictionary?: ArrayBufferView | ArrayBuffer;
+  info?: boolean;
+  maxOutputLength?: number;
+}
+
+/**
+ * Zlib constants
+ */
+export const constants = {
+  Z_NO_FLUSH: 0,
+  Z_PARTIAL_FLUSH: 1,
+  Z_SYNC_FLUSH: 2,
+  Z_FULL_FLUSH: 3,
+  Z_FINISH: 4,
+  Z_BLOCK: 5,
+  Z_OK: 0,
+  Z_STREAM_END: 1,
+  Z_NEED_DICT: 2,
+  Z_ERRNO: -1,
+  Z_STREAM_ERROR: -2,
+  Z_DATA_ERROR: -3,
+  Z_MEM_ERROR: -4,
+  Z_BUF_ERROR: -5,
+  Z_VERSION_ERROR: -6,
+  Z_NO_COMPRESSION: 0,
+  Z_BEST_SPEED: 1,
+  Z_BEST_COMPRESSION: 9,
+  Z_DEFAULT_COMPRESSION: -1,
+  Z_FILTERED: 1,
+  Z_HUFFMAN_ONLY: 2,
+  Z_RLE: 3,
+  Z_FIXED: 4,
+  Z_DEFAULT_STRATEGY: 0,
+  ZLIB_VERNUM: 4865,
+  DEFLATE: 1,
+  INFLATE: 2,
+  GZIP: 3,
+  GUNZIP: 4,
+  DEFLATERAW: 5,
+  INFLATERAW: 6,
+  UNZIP: 7,
+  BROTLI_DECODE: 8,
+  BROTLI_ENCODE: 9,
+  Z_MIN_WINDOWBITS: 8,
+  Z_MAX_WINDOWBITS: 15,
+  Z_DEFAULT_WINDOWBITS: 15,
+  Z_MIN_CHUNK: 64,
+  Z_MAX_CHUNK: Infinity,
+  Z_DEFAULT_CHUNK: 16384,
+  Z_MIN_MEMLEVEL: 1,
+  Z_MAX_MEMLEVEL: 9,
+  Z_DEFAULT_MEMLEVEL: 8,
+  Z_MIN_LEVEL: -1,
+  Z_MAX_LEVEL: 9,
+  Z_DEFAULT_LEVEL: -1,
+  BROTLI_OPERATION_PROCESS: 0,
+  BROTLI_OPERATION_FLUSH: 1,
+  BROTLI_OPERATION_FINISH: 2,
+  BROTLI_OPERATION_EMIT_METADATA: 3,
+  BROTLI_PARAM_MODE: 0,
+  BROTLI_PARAM_QUALITY: 1,
+  BROTLI_PARAM_LGWIN: 2,
+  BROTLI_PARAM_SIZE_HINT: 5,
+  BROTLI_MIN_QUALITY: 0,
+  BROTLI_MAX_QUALITY: 11,
+  BROTLI_DEFAULT_QUALITY: 11,
+};
+
+/*
+ * -----------------------------------------------------------------------------
+ * Helpers
+ * -----------------------------------------------------------------------------
+ */
+
+function toBytes(input: InputType, encoding?: BufferEncoding): Uint8Array {
+  if (typeof input === 'string') {
+    return Buffer.from(input, encoding);
+  }
+
+  if (ArrayBuffer.isView(input)) {
+    return new Uint8Array(input.buffer, input.byteOffset, input.byteLength);
+  }
+
+  if (input instanceof ArrayBuffer) {
+    return new Uint8Array(input);
+  }
+
+  throw new TypeError(
+    'The "buffer" argument must be of type string or an instance of Buffer, TypedArray, DataView, or ArrayBuffer',
+  );
+}
+
+/**
+ * Pick the decompression format from the stream header (gzip magic bytes or zlib)
+ */
+function detectFormat(bytes: Uint8Array): StreamFormat {
+  return bytes[0] === 0x1f && bytes[1] === 0x8b ? 'gzip' : 'deflate';
+}
+
+function createStream(mode: ZlibMode, format: StreamFormat): CompressionStream | DecompressionStream {
+  return mode === 'compress' ? new CompressionStream(format) : new DecompressionStream(format);
+}
+
+function createDataError(cause: unknown): Error {
+  const error = new Error(cause instanceof Error ? cause.message : 'incorrect header check') as Error & {
+    code: string;
+    errno: number;
+  };
+  error.code = 'Z_DATA_ERROR';
+  error.errno = constants.Z_DATA_ERROR;
+
+  return error;
+}
+
+function createUnsupportedError(name: string): Error {
+  const error = new Error(`zlib.${name}() is not supported in the browser runtime`) as Error & { code: string };
+  error.code = 'ERR_NOT_SUPPORTED';
+
+  return error;
+}
+
+type DeflateLevel = NonNullable<fflate.DeflateOptions['level']>;
+
+/**
+ * Map a Node.js level (-1 for the default) and dictionary to fflate options
+ */
+function toFflateOptions(options?: ZlibOptions): { level?: DeflateLevel; dictionary?: Uint8Array } {
+  const result: { level?: DeflateLevel; dictionary?: Uint8Array } = {};
+
+  if (options?.level !== undefined && options.level !== constants.Z_DEFAULT_COMPRESSION) {
+    if (!Number.isInteger(options.level) || options.level < 0 || options.level > 9) {
+      throw new RangeError(`The value of "options.level" is out of range. Received ${options.level}`);
+    }
+
+    result.level = options.level as DeflateLevel;
+  }
+
+  if (options?.dictionary) {
+    result.dictionary = toBytes(options.dictionary);
+  }
+
+  return result;
+}
+
+/**
+ * Run a whole buffer through fflate synchronously
+ */
+function processSync(input: InputType, mode: ZlibMode, format: StreamFormat | 'auto', options?: ZlibOptions): Buffer {
+  const bytes = toBytes(input);
+  const fflateOptions = toFflateOptions(options);
+
+  if (mode === 'compress') {
+    if (format === 'gzip') {
+      return Buffer.from(fflate.gzipSync(bytes, fflateOptions));
+    }
+
+    return Buffer.from(
+      format === 'deflate' ? fflate.zlibSync(bytes, fflateOptions) : fflate.deflateSync(bytes, fflateOptions),
+    );
+  }
+
+  const resolved = format === 'auto' ? detectFormat(bytes) : format;
+
+  try {
+    if (resolved === 'gzip') {
+      return Buffer.from(fflate.gunzipSync(bytes));
+    }
+
+    return Buffer.from(
+      resolved === 'deflate'
+        ? fflate.unzlibSync(bytes, { dictionary: fflateOptions.dictionary })
+        : fflate.inflateSync(bytes, { dictionary: fflateOptions.dictionary }),
+    );
+  } catch (error) {
+    throw createDataError(error);
+  }
+}
+
+/**
+ * Run a whole buffer through a (de)compression stream
+ */
+async function processBuffer(input: Uint8Array, mode: ZlibMode, format: StreamFormat): Promise<Buffer> {
+  const stream = createStream(mode, format);
+  const writer = stream.writable.getWriter();
+  const reader = stream.readable.getReader();
+  const chunks: Buffer[] = [];
+
+  // Errors surface through the reader below
+  writer.write(input as BufferSource).catch(() => undefined);
+  writer.close().catch(() => undefined);
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        break;
+      }
+
+      chunks.push(Buffer.from(value));
+    }
+  } catch (error) {
+    throw mode === 'decompress' ? createDataError(error) : error;
+  }
+
+  return Buffer.concat(chunks);
+}
+
+function runAsync(
+  name: string,
+  mode: ZlibMode,
+  format: StreamFormat | 'auto',
+  input: InputType,
+  options: ZlibOptions | CompressCallback | undefined,
+  callback: CompressCallback | undefined,
+): void {
+  if (typeof options === 'function') {
+    callback = options;
+  }
+
+  if (typeof callback !== 'function') {
+    throw new TypeError(`The "callback" argument of zlib.${name}() must be of type function`);
+  }
+
+  const done = callback;
+
+  let bytes: Uint8Array;
+
+  try {
+    bytes = toBytes(input);
+  } catch (error) {
+    queueMicrotask(() => done(error as Error, Buffer.alloc(0)));
+    return;
+  }
+
+  processBuffer(bytes, mode, format === 'auto' ? detectFormat(bytes) : format).then(
+    (result) => done(null, result),
+    (error: Error) => done(error, Buffer.alloc(0)),
+  );
+}
+
+/*
+ * -----------------------------------------------------------------------------
+ * Streams
+ * -----------------------------------------------------------------------------
+ */
+
+/**
+ * Transform stream piping its chunks through a (de)compression stream
+ */
+export class ZlibBase extends Transform {
+  bytesWritten = 0;
+
+  private _mode: ZlibMode;
+  private _format: StreamFormat | 'auto';
+  private _writer?: WritableStreamDefaultWriter<BufferSource>;
+  private _reading?: Promise<void>;
+  private _error: Error | null = null;
+
+  constructor(mode: ZlibMode, format: StreamFormat | 'auto', _options?: ZlibOptions) {
+    super();
+
+    this._mode = mode;
+    this._format = format;
+  }
+
+  _transform(chunk: unknown, encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    let bytes: Uint8Array;
+
+    try {
+      bytes = toBytes(chunk as InputType, encoding);
+    } catch (error) {
+      callback(error as Error);
+      return;
+    }
+
+    this.bytesWritten += bytes.byteLength;
+
+    const writer = this._getWriter(bytes);
+
+    writer.write(bytes as BufferSource).then(
+      () => callback(),
+      (error) => callback(this._error ?? createDataError(error)),
+    );
+  }
+
+  _flush(callback: (error?: Error | null) => void): void {
+    if (!this._writer) {
+      // Nothing was written: still emit a valid empty stream when compressing
+      if (this._mode === 'decompress') {
+        callback();
+        return;
+      }
+
+      this._getWriter(new Uint8Array(0));
+    }
+
+    this._writer!.close().catch(() => undefined);
+    this._reading!.then(() => callback(this._error));
+  }
+
+  /**
+   * Flush pending data (data is flushed as soon as the stream produces it)
+   */
+  flush(kind?: number | (() => void), callback?: () => void): void {
+    const done = typeof kind === 'function' ? kind : callback;
+
+    if (done) {
+      queueMicrotask(done);
+    }
+  }
+
+  /**
+   * Change the compression level (not supported by CompressionStream, kept for compatibility)
+   */
+  params(level: number, strategy: number, callback?: () => void): void {
+    if (callback) {
+      queueMicrotask(callback);
+    }
+  }
+
+  reset(): void {
+    this._writer = undefined;
+    this._reading = undefined;
+    this._error = null;
+  }
+
+  close(callback?: () => void): void {
+    if (callback) {
+      this.once('close', callback);
+    }
+
+    this.destroy();
+  }
+
+  private _getWriter(firstChunk: Uint8Array): WritableStreamDefaultWriter<BufferSource> {
+    if (this._writer) {
+      return this._writer;
+    }
+
+    const format = this._format === 'auto' ? detectFormat(firstChunk) : this._format;
+    const stream = createStream(this._mode, format);
+
+    this._writer = stream.writable.getWriter();
+    this._reading = this._pump(stream.readable.getReader());
+
+    return this._writer;
+  }
+
+  private async _pump(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<void> {
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          return;
+        }
+
+        this.push(Buffer.from(value));
+      }
+    } catch (error) {
+      this._error = this._mode === 'decompress' ? createDataError(error) : (error as Error);
+    }
+  }
+}
+
+export class Gzip extends ZlibBase {
+  constructor(options?: ZlibOptions) {
+    super('compress', 'gzip', options);
+  }
+}
+
+export class Gunzip extends ZlibBase {
+  constructor(options?: ZlibOptions) {
+    super('decompress', 'gzip', options);
+  }
+}
+
+export class Deflate extends ZlibBase {
+  constructor(options?: ZlibOptions) {
+    super('compress', 'deflate', options);
+  }
+}
+
+export class Inflate extends ZlibBase {
+  constructor(options?: ZlibOptions) {
+    super('decompress', 'deflate', options);
+  }
+}
+
+export class DeflateRaw extends ZlibBase {
+  constructor(options?: ZlibOptions) {
+    super('compress', 'deflate-raw', options);
+  }
+}
+
+export class InflateRaw extends ZlibBase {
+  constructor(options?: ZlibOptions) {
+    super('decompress', 'deflate-raw', options);
+  }
+}
+
+/**
+ * Decompress either a gzip or a zlib stream, detected from its header
+ */
+export class Unzip extends ZlibBase {
+  constructor(options?: ZlibOptions) {
+    super('decompress', 'auto', options);
+  }
+}
+
+export function createGzip(options?: ZlibOptions): Gzip {
+  return new Gzip(options);
+}
+
+export function createGunzip(options?: ZlibOptions): Gunzip {
+  return new Gunzip(options);
+}
+
+export function createDeflate(options?: ZlibOptions): Deflate {
+  return new Deflate(options);
+}
+
+export function createInflate(options?: ZlibOptions): Inflate {
+  return new Inflate(options);
+}
+
+export function createDeflateRaw(options?: ZlibOptions): DeflateRaw {
+  return new DeflateRaw(options);
+}
+
+export function createInflateRaw(options?: ZlibOptions): InflateRaw {
+  return new InflateRaw(options);
+}
+
+export function createUnzip(options?: ZlibOptions): Unzip {
+  return new Unzip(options);
+}
+
+export function createBrotliCompress(): never {
+  throw createUnsupportedError('createBrotliCompress');
+}
+
+export function createBrotliDecompress(): never {
+  throw createUnsupportedError('createBrotliDecompress');
+}
+
+/*
+ * -----------------------------------------------------------------------------
+ * Convenience methods
+ * -----------------------------------------------------------------------------
+ */
+
+export function gzip(buffer: InputType, options: ZlibOptions | CompressCallback, callback?: CompressCallback): void {
+  runAsync('gzip', 'compress', 'gzip', buffer, options, callback);
+}
+
+export function gunzip(buffer: InputType, options: ZlibOptions | CompressCallback, callback?: CompressCallback): void {
+  runAsync('gunzip', 'decompress', 'gzip', buffer, options, callback);
+}
+
+export function deflate(buffer: InputType, options: ZlibOptions | CompressCallback, callback?: CompressCallback): void {
+  runAsync('deflate', 'compress', 'deflate', buffer, options, callback);
+}
+
+export function inflate(buffer: InputType, options: ZlibOptions | CompressCallback, callback?: CompressCallback): void {
+  runAsync('inflate', 'decompress', 'deflate', buffer, options, callback);
+}
+
+export function deflateRaw(
+  buffer: InputType,
+  options: ZlibOptions | CompressCallback,
+  callback?: CompressCallback,
+): void {
+  runAsync('deflateRaw', 'compress', 'deflate-raw', buffer, options, callback);
+}
+
+export function inflateRaw(
+  buffer: InputType,
+  options: ZlibOptions | CompressCallback,
+  callback?: CompressCallback,
+): void {
+  runAsync('inflateRaw', 'decompress', 'deflate-raw', buffer, options, callback);
+}
+
+export function unzip(buffer: InputType, options: ZlibOptions | CompressCallback, callback?: CompressCallback): void {
+  runAsync('unzip', 'decompress', 'auto', buffer, options, callback);
+}
+
+export function brotliCompress(): never {
+  throw createUnsupportedError('brotliCompress');
+}
+
+export function brotliDecompress(): never {
+  throw createUnsupportedError('brotliDecompress');
+}
+
+export function gzipSync(buffer: InputType, options?: ZlibOptions): Buffer {
+  return processSync(buffer, 'compress', 'gzip', options);
+}
+
+export function gunzipSync(buffer: InputType, options?: ZlibOptions): Buffer {
+  return processSync(buffer, 'decompress', 'gzip', options);
+}
+
+export function deflateSync(buffer: InputType, options?: ZlibOptions): Buffer {
+  return processSync(buffer, 'compress', 'deflate', options);
+}
+
+export function inflateSync(buffer: InputType, options?: ZlibOptions): Buffer {
+  return processSync(buffer, 'decompress', 'deflate', options);
+}
+
+export function deflateRawSync(buffer: InputType, options?: ZlibOptions): Buffer {
+  return processSync(buffer, 'compress', 'deflate-raw', options);
+}
+
+export function inflateRawSync(buffer: InputType, options?: ZlibOptions): Buffer {
+  return processSync(buffer, 'decompress', 'deflate-raw', options);
+}
+
+export function unzipSync(buffer: InputType, options?: ZlibOptions): Buffer {
+  return processSync(buffer, 'decompress', 'auto', options);
+}
+
+export function brotliCompressSync(): never {
+  throw createUnsupportedError('brotliCompressSync');
+}
+
+export function brotliDecompressSync(): never {
+  throw createUnsupportedError('brotliDecompressSync');
+}
+
+/*
+ * -----------------------------------------------------------------------------
+ * Checksums
+ * -----------------------------------------------------------------------------
+ */
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * CRC-32 checksum, optionally continuing from a previous value
+ */
+export function crc32(data: string | ArrayBufferView, value = 0): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  const bytes = toBytes(data);
+  let crc = (value ^ 0xffffffff) >>> 0;
+
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export default {
+  Deflate,
+  DeflateRaw,
+  Gunzip,
+  Gzip,
+  Inflate,
+  InflateRaw,
+  Unzip,
+  brotliCompress,
+  brotliCompressSync,
+  brotliDecompress,
+  brotliDecompressSync,
+  constants,
+  crc32,
+  createBrotliCompress,
+  createBrotliDecompress,
+  createDeflate,
+  createDeflateRaw,
+  createGunzip,
+  createGzip,
+  createInflate,
+  createInflateRaw,
+  createUnzip,
+  deflate,
+  deflateRaw,
+  deflateRawSync,
+  deflateSync,
+  gunzip,
+  gunzipSync,
+  gzip,
+  gzipSync,
+  inflate,
+  inflateRaw,
+  inflateRawSync,
+  inflateSync,
+  unzip,
+  unzipSync,
+};
@@ -155,7 +155,7 @@ export function createConsole(config: ConsoleConfig = {}): ConsoleObject {
       });
 
       // Add remaining args
-      const remaining = args.slice(argIndex).map((a) => formatValue(a));
+      const remaining = args.slice(argIndex).map(formatArg);
 
       if (remaining.length > 0) {
         return str + ' ' + remaining.join(' ');
@@ -164,7 +164,14 @@ export function createConsole(config: ConsoleConfig = {}): ConsoleObject {
       return str;
     }
 
-    return args.map((a) => formatValue(a)).join(' ');
+    return args.map(formatArg).join(' ');
+  }
+
+  /**
+   * Format a top-level argument (strings are printed as is, like Node.js)
+   */
+  function formatArg(arg: unknown): string {
+    return typeof arg === 'string' ? arg : formatValue(arg);
   }
 
   /**
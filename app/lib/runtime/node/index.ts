@@ -52,6 +52,14 @@ export * as stream from './core-modules/stream';
 export * as http from './core-modules/http';
 export * as crypto from './core-modules/crypto';
 export * as child_process from './core-modules/child_process';
+export * as https from './core-modules/https';
+export * as os from './core-modules/os';
+export * as url from './core-modules/url';
+export * as querystring from './core-modules/querystring';
+export * as assert from './core-modules/assert';
+export * as buffer from './core-modules/buffer';
+export * as zlib from './core-modules/zlib';
+export * as worker_threads from './core-modules/worker_threads';
 
 // Export classes
 export { EventEmitter } from './core-modules/events';
@@ -60,6 +68,33 @@ export { Server, IncomingMessage, ServerResponse, ClientRequest } from './core-m
 export { Hash, Hmac } from './core-modules/crypto';
 export { ChildProcess } from './core-modules/child_process';
 
+// HTTP servers listening on virtual ports
+export {
+  registerServer,
+  unregisterServer,
+  getListeningPorts,
+  isPortListening,
+  dispatchServerRequest,
+  onServerPortChange,
+  resetServerRegistry,
+  type ServerRequest,
+  type ServerResponseData,
+  type RegisteredServer,
+  type ServerPortEvent,
+} from './server-registry';
+
+// Processes spawned through the virtual shell
+export {
+  setProcessLauncher,
+  getProcessLauncher,
+  createIpcChannel,
+  type ProcessLauncher,
+  type ProcessLaunchOptions,
+  type IpcEndpoint,
+} from './process-launcher';
+
+export { runNodeProcess, type NodeProcessOptions } from './process-runner';
+
 // Module System
 export {
   ModuleResolver,
@@ -69,6 +104,7 @@ export {
   createRequire,
   ESMLoader,
   createESMLoader,
+  PreloadedModuleFS,
 } from './module';
 
 export type {
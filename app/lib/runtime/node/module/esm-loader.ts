@@ -129,9 +129,49 @@ export class ESMLoader {
         const mod = await import('../core-modules/child_process');
         return { ...mod, default: mod.default };
       }
+      case 'https': {
+        const mod = await import('../core-modules/https');
+        return { ...mod, default: mod.default };
+      }
+      case 'os': {
+        const mod = await import('../core-modules/os');
+        return { ...mod, default: mod.default };
+      }
+      case 'url': {
+        const mod = await import('../core-modules/url');
+        return { ...mod, default: mod.default };
+      }
+      case 'querystring': {
+        const mod = await import('../core-modules/querystring');
+        return { ...mod, default: mod.default };
+      }
+      case 'assert': {
+        const mod = await import('../core-modules/assert');
+        return { ...mod, default: mod.default };
+      }
+      case 'assert/strict': {
+        const { strict } = await import('../core-modules/assert');
+        return { ...strict, default: strict };
+      }
       case 'buffer': {
-        const { Buffer } = await import('../globals/buffer');
-        return { Buffer, default: { Buffer } };
+        const mod = await import('../core-modules/buffer');
+        return { ...mod, default: mod.default };
+      }
+      case 'zlib': {
+        const mod = await import('../core-modules/zlib');
+        return { ...mod, default: mod.default };
+      }
+      case 'worker_threads': {
+        const mod = await import('../core-modules/worker_threads');
+        return { ...mod, default: mod.default };
+      }
+      case 'timers': {
+        const { timers } = await import('../globals/timers');
+        return { ...timers, default: timers };
+      }
+      case 'timers/promises': {
+        const { timersPromises } = await import('../globals/timers');
+        return { ...timersPromises, default: timersPromises };
       }
       default:
         throw new Error(`Built-in module '${name}' not implemented`);
@@ -0,0 +1,689 @@
+/**
+ * =============================================================================
+ * BAVINI Container - ESM Transform
+ * =============================================================================
+ * Rewrites an ES module into a function body the module loader can run next
+ * to CommonJS modules. import declarations become calls to `__esm.import()`
+ * hoisted to the top, exports become getters on module.exports (so they
+ * are readable before the body ran, for circular imports), `import.meta` and
+ * `import()` go through the `__esm` helpers. Imported bindings are copied
+ * when the import runs instead of being live. Line numbers are preserved.
+ * =============================================================================
+ */
+
+/**
+ * Keywords after which a `/` starts a regular expression
+ */
+const REGEX_AFTER_KEYWORDS = new Set([
+  'return',
+  'typeof',
+  'instanceof',
+  'in',
+  'of',
+  'new',
+  'delete',
+  'void',
+  'throw',
+  'case',
+  'do',
+  'else',
+  'yield',
+  'await',
+]);
+
+interface Token {
+  type: 'name' | 'string' | 'punct' | 'other';
+  value: string;
+  start: number;
+  end: number;
+
+  /** Bracket depth the token is in (brackets count at their outer depth) */
+  depth: number;
+
+  /** A line break separates the token from the previous one */
+  newline: boolean;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Result of the transform
+ */
+export interface ESMTransformResult {
+  /** Function body, run with the `__esm` helpers of the module loader in scope */
+  code: string;
+
+  /** Specifiers of the static imports and re-exports, in order */
+  imports: string[];
+}
+
+/**
+ * Transform an ES module into a function body
+ */
+export function transformESM(source: string): ESMTransformResult {
+  const tokens = tokenize(source);
+  const edits: Edit[] = [];
+  const exported: Array<[string, string]> = [];
+  const loads: string[] = [];
+  const bindings: string[] = [];
+  const stars: string[] = [];
+  const imports: string[] = [];
+
+  const load = (specifier: string): string => {
+    const name = `__esm_${loads.length}`;
+
+    loads.push(`const ${name} = __esm.import(${JSON.stringify(specifier)});`);
+    imports.push(specifier);
+
+    return name;
+  };
+
+  // Statements are blanked out instead of removed to keep line numbers
+  const remove = (start: number, end: number, text = '') => {
+    edits.push({ start, end, text: text + source.slice(start, end).replace(/[^\n]/g, '') });
+  };
+
+  let index = 0;
+
+  while (index < tokens.length) {
+    const token = tokens[index];
+    const previous = tokens[index - 1];
+    const next = tokens[index + 1];
+
+    if (token.type !== 'name' || previous?.value === '.') {
+      index++;
+      continue;
+    }
+
+    if (token.value === 'import' && next?.value === '.' && tokens[index + 2]?.value === 'meta') {
+      edits.push({ start: token.start, end: tokens[index + 2].end, text: '__esm.meta' });
+      index += 3;
+      continue;
+    }
+
+    if (token.value === 'import' && next?.value === '(') {
+      edits.push({ start: token.start, end: token.end, text: '__esm.dynamicImport' });
+      index++;
+      continue;
+    }
+
+    if (token.depth !== 0 || (token.value !== 'import' && token.value !== 'export')) {
+      index++;
+      continue;
+    }
+
+    const end =
+      token.value === 'import'
+        ? parseImport(tokens, index, (specifier, clause) => {
+            const namespace = load(specifier);
+            bindings.push(...clause.map(([imported, local]) => importBinding(namespace, imported, local)));
+          })
+        : parseExport(tokens, index, {
+            local: (name, local) => exported.push([name, local]),
+            from: (specifier, names) => {
+              const namespace = load(specifier);
+              exported.push(...names.map(([imported, name]): [string, string] => [name, member(namespace, imported)]));
+            },
+            star: (specifier) => stars.push(load(specifier)),
+            defaultExpression: (start, bodyStart) => {
+              remove(start, bodyStart, 'const __esm_default = ');
+              exported.push(['default', '__esm_default']);
+            },
+            keyword: (start, keywordEnd) => remove(start, keywordEnd),
+          });
+
+    if (end === null) {
+      throw new SyntaxError(`Unsupported ${token.value} statement at offset ${token.start}`);
+    }
+
+    // Declarations stay in place and are scanned further for import() and import.meta
+    if (edits.some((edit) => edit.start === token.start)) {
+      index++;
+      continue;
+    }
+
+    remove(token.start, end);
+    index = tokens.findIndex((candidate) => candidate.start >= end);
+
+    if (index === -1) {
+      break;
+    }
+  }
+
+  const getters = exported.map(([name, local]) => `${JSON.stringify(name)}: () => ${local}`).join(', ');
+
+  // Header on the first line so the line numbers of the body don't move
+  const header = [
+    '"use strict";',
+    `__esm.define({ ${getters} });`,
+    ...loads,
+    ...stars.map((namespace) => `__esm.exportStar(${namespace});`),
+    ...bindings,
+  ].join(' ');
+
+  return { code: `${header}${applyEdits(source, edits)}`, imports };
+}
+
+/**
+ * Parse an import declaration, returns the end offset or null
+ */
+function parseImport(
+  tokens: Token[],
+  index: number,
+  onImport: (specifier: string, clause: Array<[string, string]>) => void,
+): number | null {
+  let position = index + 1;
+  const clause: Array<[string, string]> = [];
+
+  // import 'side-effect'
+  if (tokens[position]?.type === 'string') {
+    onImport(unquote(tokens[position].value), []);
+    return statementEnd(tokens, position + 1);
+  }
+
+  if (tokens[position]?.type === 'name' && tokens[position].value !== 'from' && tokens[position + 1]?.value !== 'as') {
+    clause.push(['default', tokens[position].value]);
+    position++;
+
+    if (tokens[position]?.value === ',') {
+      position++;
+    }
+  }
+
+  if (tokens[position]?.value === '*') {
+    if (tokens[position + 1]?.value !== 'as' || tokens[position + 2]?.type !== 'name') {
+      return null;
+    }
+
+    clause.push(['*', tokens[position + 2].value]);
+    position += 3;
+  } else if (tokens[position]?.value === '{') {
+    const list = parseSpecifierList(tokens, position);
+
+    if (!list) {
+      return null;
+    }
+
+    clause.push(...list.specifiers);
+    position = list.next;
+  }
+
+  if (tokens[position]?.value !== 'from' || tokens[position + 1]?.type !== 'string') {
+    return null;
+  }
+
+  onImport(unquote(tokens[position + 1].value), clause);
+
+  return statementEnd(tokens, skipAttributes(tokens, position + 2));
+}
+
+interface ExportHandlers {
+  /** `export { local as name }` and exported declarations */
+  local(name: string, local: string): void;
+
+  /** `export { imported as name } from 'specifier'` */
+  from(specifier: string, names: Array<[string, string]>): void;
+
+  /** `export * from 'specifier'` */
+  star(specifier: string): void;
+
+  /** `export default <expression>`, from the keyword to the expression */
+  defaultExpression(start: number, bodyStart: number): void;
+
+  /** `export` (and `default`) in front of a declaration that stays in place */
+  keyword(start: number, keywordEnd: number): void;
+}
+
+/**
+ * Parse an export declaration, returns the end offset or null
+ */
+function parseExport(tokens: Token[], index: number, handlers: ExportHandlers): number | null {
+  const start = tokens[index].start;
+  let position = index + 1;
+  const token = tokens[position];
+
+  if (!token) {
+    return null;
+  }
+
+  if (token.value === '*') {
+    let namespace: string | null = null;
+
+    position++;
+
+    if (tokens[position]?.value === 'as') {
+      const alias = tokens[position + 1];
+
+      if (!alias) {
+        return null;
+      }
+
+      namespace = alias.type === 'string' ? unquote(alias.value) : alias.value;
+      position += 2;
+    }
+
+    if (tokens[position]?.value !== 'from' || tokens[position + 1]?.type !== 'string') {
+      return null;
+    }
+
+    const specifier = unquote(tokens[position + 1].value);
+
+    if (namespace) {
+      handlers.from(specifier, [['*', namespace]]);
+    } else {
+      handlers.star(specifier);
+    }
+
+    return statementEnd(tokens, skipAttributes(tokens, position + 2));
+  }
+
+  if (token.value === '{') {
+    const list = parseSpecifierList(tokens, position);
+
+    if (!list) {
+      return null;
+    }
+
+    position = list.next;
+
+    if (tokens[position]?.value === 'from' && tokens[position + 1]?.type === 'string') {
+      handlers.from(unquote(tokens[position + 1].value), list.specifiers);
+      return statementEnd(tokens, skipAttributes(tokens, position + 2));
+    }
+
+    for (const [local, name] of list.specifiers) {
+      handlers.local(name, local);
+    }
+
+    return statementEnd(tokens, position);
+  }
+
+  if (token.value === 'default') {
+    const declaration = parseDeclarationName(tokens, position + 1);
+
+    if (declaration?.name) {
+      handlers.keyword(start, tokens[position + 1].start);
+      handlers.local('default', declaration.name);
+
+      return declaration.end;
+    }
+
+    handlers.defaultExpression(start, tokens[position + 1]?.start ?? token.end);
+
+    return tokens[position + 1]?.start ?? token.end;
+  }
+
+  if (token.value === 'var' || token.value === 'let' || token.value === 'const') {
+    handlers.keyword(start, token.start);
+
+    for (const name of parseVariableNames(tokens, position + 1)) {
+      handlers.local(name, name);
+    }
+
+    return token.end;
+  }
+
+  const declaration = parseDeclarationName(tokens, position);
+
+  if (!declaration?.name) {
+    return null;
+  }
+
+  handlers.keyword(start, token.start);
+  handlers.local(declaration.name, declaration.name);
+
+  return declaration.end;
+}
+
+/**
+ * `{ a, b as c, 'd' as e }`, as [imported, local] pairs
+ */
+function parseSpecifierList(
+  tokens: Token[],
+  open: number,
+): { specifiers: Array<[string, string]>; next: number } | null {
+  const specifiers: Array<[string, string]> = [];
+  let position = open + 1;
+
+  while (tokens[position] && tokens[position].value !== '}') {
+    const imported = tokens[position];
+
+    if (imported.type !== 'name' && imported.type !== 'string') {
+      return null;
+    }
+
+    const importedName = imported.type === 'string' ? unquote(imported.value) : imported.value;
+    let local = importedName;
+
+    position++;
+
+    if (tokens[position]?.value === 'as') {
+      const alias = tokens[position + 1];
+
+      if (!alias) {
+        return null;
+      }
+
+      local = alias.type === 'string' ? unquote(alias.value) : alias.value;
+      position += 2;
+    }
+
+    specifiers.push([importedName, local]);
+
+    if (tokens[position]?.value === ',') {
+      position++;
+    }
+  }
+
+  return tokens[position] ? { specifiers, next: position + 1 } : null;
+}
+
+/**
+ * Name of a function or class declaration, null if it is not one
+ */
+function parseDeclarationName(tokens: Token[], position: number): { name: string | null; end: number } | null {
+  let current = position;
+
+  if (tokens[current]?.value === 'async' && tokens[current + 1]?.value === 'function') {
+    current++;
+  }
+
+  if (tokens[current]?.value !== 'function' && tokens[current]?.value !== 'class') {
+    return null;
+  }
+
+  current++;
+
+  if (tokens[current]?.value === '*') {
+    current++;
+  }
+
+  const name = tokens[current]?.type === 'name' && tokens[current].value !== 'extends' ? tokens[current].value : null;
+
+  return { name, end: tokens[current]?.start ?? tokens[position].end };
+}
+
+/**
+ * Names bound by `a = 1, { b, c: d } = obj, [e] = list`
+ */
+function parseVariableNames(tokens: Token[], position: number): string[] {
+  const names: string[] = [];
+  const depth = tokens[position]?.depth ?? 0;
+  let current = position;
+  let inBinding = true;
+
+  while (current < tokens.length) {
+    const token = tokens[current];
+
+    if (token.depth === depth) {
+      if (token.value === ';') {
+        break;
+      }
+
+      if (token.value === '=') {
+        inBinding = false;
+      } else if (token.value === ',') {
+        inBinding = true;
+      } else if (!inBinding && token.newline && startsStatement(tokens, current)) {
+        break;
+      }
+    }
+
+    // Binding identifiers of patterns: not keys (`key:`) nor default values
+    if (
+      inBinding &&
+      token.type === 'name' &&
+      tokens[current + 1]?.value !== ':' &&
+      tokens[current - 1]?.value !== '='
+    ) {
+      names.push(token.value);
+    }
+
+    current++;
+  }
+
+  return names;
+}
+
+/**
+ * A line break ends the statement before this token (automatic semicolon)
+ */
+function startsStatement(tokens: Token[], position: number): boolean {
+  const previous = tokens[position - 1];
+  const token = tokens[position];
+
+  if (
+    previous.type === 'punct' &&
+    !/^[)\]}]$/.test(previous.value) &&
+    previous.value !== '++' &&
+    previous.value !== '--'
+  ) {
+    return false;
+  }
+
+  return token.type === 'name' || token.type === 'string' || token.value === '{' || token.value === ';';
+}
+
+/**
+ * Skip `with { type: 'json' }` (or `assert`) after a module specifier
+ */
+function skipAttributes(tokens: Token[], position: number): number {
+  if (
+    (tokens[position]?.value === 'with' || tokens[position]?.value === 'assert') &&
+    tokens[position + 1]?.value === '{'
+  ) {
+    const close = tokens.findIndex((token, index) => index > position && token.value === '}');
+    return close === -1 ? position : close + 1;
+  }
+
+  return position;
+}
+
+/**
+ * End offset of a statement whose last token is before `position`
+ */
+function statementEnd(tokens: Token[], position: number): number {
+  if (tokens[position]?.value === ';') {
+    return tokens[position].end;
+  }
+
+  return tokens[position - 1].end;
+}
+
+function importBinding(namespace: string, imported: string, local: string): string {
+  if (imported === '*') {
+    return `const ${local} = ${namespace};`;
+  }
+
+  return `const ${local} = ${member(namespace, imported)};`;
+}
+
+function member(namespace: string, name: string): string {
+  if (name === '*') {
+    return namespace;
+  }
+
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? `${namespace}.${name}` : `${namespace}[${JSON.stringify(name)}]`;
+}
+
+function unquote(literal: string): string {
+  return literal.slice(1, -1).replace(/\\(.)/g, '$1');
+}
+
+function applyEdits(source: string, edits: Edit[]): string {
+  let result = '';
+  let offset = 0;
+
+  for (const edit of [...edits].sort((a, b) => a.start - b.start)) {
+    result += source.slice(offset, edit.start) + edit.text;
+    offset = edit.end;
+  }
+
+  return result + source.slice(offset);
+}
+
+/**
+ * Split a source into tokens, skipping comments and the content of template
+ * literals. Only what the transform needs is told apart.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+
+  // Bracket stack, a template literal `${` is marked to resume the template on its `}`
+  const brackets: string[] = [];
+  let position = 0;
+  let newline = false;
+
+  const push = (type: Token['type'], start: number, end: number) => {
+    const value = source.slice(start, end);
+    let depth = brackets.length;
+
+    if (value === ')' || value === ']' || value === '}') {
+      depth--;
+    }
+
+    tokens.push({ type, value, start, end, depth, newline });
+    newline = false;
+  };
+
+  const regexAllowed = () => {
+    const last = tokens[tokens.length - 1];
+
+    if (!last) {
+      return true;
+    }
+
+    if (last.type === 'name') {
+      return REGEX_AFTER_KEYWORDS.has(last.value);
+    }
+
+    return last.type === 'punct' && last.value !== ')' && last.value !== ']';
+  };
+
+  // Skip a template literal from after its backtick (or a `}` ending a substitution)
+  const skipTemplate = (from: number): number => {
+    let current = from;
+
+    while (current < source.length) {
+      const char = source[current];
+
+      if (char === '\\') {
+        current += 2;
+      } else if (char === '`') {
+        return current + 1;
+      } else if (char === '$' && source[current + 1] === '{') {
+        brackets.push('${');
+        return current + 2;
+      } else {
+        current++;
+      }
+    }
+
+    return current;
+  };
+
+  while (position < source.length) {
+    const char = source[position];
+
+    if (char === '\n') {
+      newline = true;
+      position++;
+    } else if (/\s/.test(char)) {
+      position++;
+    } else if (char === '/' && source[position + 1] === '/') {
+      const end = source.indexOf('\n', position);
+      position = end === -1 ? source.length : end;
+    } else if (char === '/' && source[position + 1] === '*') {
+      const end = source.indexOf('*/', position + 2);
+      const stop = end === -1 ? source.length : end + 2;
+
+      newline ||= source.slice(position, stop).includes('\n');
+      position = stop;
+    } else if (char === '"' || char === "'") {
+      let end = position + 1;
+
+      while (end < source.length && source[end] !== char && source[end] !== '\n') {
+        end += source[end] === '\\' ? 2 : 1;
+      }
+
+      push('string', position, end + 1);
+      position = end + 1;
+    } else if (char === '`') {
+      const start = position;
+
+      position = skipTemplate(position + 1);
+      push('other', start, position);
+    } else if (char === '/' && regexAllowed()) {
+      let end = position + 1;
+      let inClass = false;
+
+      while (end < source.length && source[end] !== '\n' && (inClass || source[end] !== '/')) {
+        if (source[end] === '\\') {
+          end++;
+        } else if (source[end] === '[') {
+          inClass = true;
+        } else if (source[end] === ']') {
+          inClass = false;
+        }
+
+        end++;
+      }
+
+      end++;
+
+      while (end < source.length && /[a-z]/i.test(source[end])) {
+        end++;
+      }
+
+      push('other', position, end);
+      position = end;
+    } else if (/[A-Za-z_$\u0080-\uffff]/.test(char)) {
+      let end = position + 1;
+
+      while (end < source.length && /[\w$\u0080-\uffff]/.test(source[end])) {
+        end++;
+      }
+
+      push('name', position, end);
+      position = end;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[position + 1] ?? ''))) {
+      let end = position + 1;
+
+      while (end < source.length && /[\w.]/.test(source[end])) {
+        end++;
+      }
+
+      push('other', position, end);
+      position = end;
+    } else if (char === '}' && brackets[brackets.length - 1] === '${') {
+      brackets.pop();
+
+      const start = position;
+
+      position = skipTemplate(position + 1);
+      push('other', start, position);
+    } else {
+      const three = source.slice(position, position + 3);
+      const two = source.slice(position, position + 2);
+      const length = three === '...' ? 3 : ['=>', '++', '--', '?.', '??'].includes(two) ? 2 : 1;
+
+      if (char === '(' || char === '[' || char === '{') {
+        push('punct', position, position + 1);
+        brackets.push(char);
+      } else if (char === ')' || char === ']' || char === '}') {
+        push('punct', position, position + 1);
+        brackets.pop();
+      } else {
+        push('punct', position, position + length);
+      }
+
+      position += length;
+    }
+  }
+
+  return tokens;
+}
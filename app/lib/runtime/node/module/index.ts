@@ -27,5 +27,8 @@ export { ModuleResolver, createResolver } from './resolver';
 // CommonJS Loader
 export { ModuleLoader, createModuleLoader, createRequire } from './require';
 
+// Preloaded module graph for synchronous require()
+export { PreloadedModuleFS, type PreloadSource } from './preloaded-fs';
+
 // ESM Loader
 export { ESMLoader, createESMLoader } from './esm-loader';
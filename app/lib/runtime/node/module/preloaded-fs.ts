@@ -0,0 +1,249 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Preloaded Module FS
+ * =============================================================================
+ * Synchronous ModuleFS over an asynchronous filesystem. The module graph of an
+ * entry file is crawled ahead of time (following static require() calls and
+ * import declarations) so that require() can read every module synchronously
+ * while the program runs.
+ * =============================================================================
+ */
+
+import * as path from '../core-modules/path';
+import { ModuleResolver } from './resolver';
+import type { ModuleFS, ResolvedModule } from './types';
+
+/**
+ * Asynchronous filesystem the modules are preloaded from (MountManager)
+ */
+export interface PreloadSource {
+  readTextFile(path: string): Promise<string>;
+  stat(path: string): Promise<{ isFile: boolean; isDirectory: boolean }>;
+}
+
+/**
+ * Static `require('...')` calls
+ */
+const REQUIRE_PATTERN = /\brequire\s*\(\s*(['"`])([^'"`\n]+)\1\s*\)/g;
+
+/**
+ * Static `import ... from '...'`, `export ... from '...'`, `import '...'` and `import('...')`
+ */
+const IMPORT_PATTERN = /\b(?:import|export)\s*(?:[\w$*{}\s,]*?\bfrom\s*|\(\s*)?(['"`])([^'"`\n]+)\1/g;
+
+/**
+ * Upper bound of resolution passes for a single specifier
+ */
+const MAX_RESOLVE_PASSES = 64;
+
+type Entry = { kind: 'file'; content?: string } | { kind: 'directory' } | { kind: 'missing' };
+
+/**
+ * ModuleFS serving preloaded files synchronously
+ */
+export class PreloadedModuleFS implements ModuleFS {
+  private _source: PreloadSource;
+  private _entries = new Map<string, Entry>();
+
+  /** Paths queried synchronously before they were fetched */
+  private _pending = new Set<string>();
+
+  constructor(source: PreloadSource) {
+    this._source = source;
+  }
+
+  /**
+   * Add an in-memory file (e.g. code passed to `node -e`)
+   */
+  addFile(filename: string, content: string): void {
+    this._entries.set(filename, { kind: 'file', content });
+  }
+
+  /**
+   * Resolve a specifier, fetching whatever the resolver needs to look at
+   */
+  async resolve(specifier: string, parentPath: string): Promise<ResolvedModule> {
+    for (let pass = 0; pass < MAX_RESOLVE_PASSES; pass++) {
+      this._pending.clear();
+
+      // A fresh resolver so no package.json miss stays cached between passes
+      const resolver = new ModuleResolver(this);
+
+      try {
+        const resolved = resolver.resolve(specifier, parentPath);
+
+        if (this._pending.size === 0) {
+          return resolved;
+        }
+      } catch (error) {
+        if (this._pending.size === 0) {
+          throw error;
+        }
+      }
+
+      await Promise.all([...this._pending].map((pending) => this._fetch(pending)));
+    }
+
+    throw new Error(`Cannot find module '${specifier}'`);
+  }
+
+  /**
+   * Preload a module and everything it statically requires
+   */
+  async preload(filename: string): Promise<void> {
+    const queue = [filename];
+    const visited = new Set<string>();
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+
+      if (visited.has(current)) {
+        continue;
+      }
+
+      visited.add(current);
+
+      const content = await this._load(current);
+
+      if (content === null || current.endsWith('.json')) {
+        continue;
+      }
+
+      for (const match of [...content.matchAll(REQUIRE_PATTERN), ...content.matchAll(IMPORT_PATTERN)]) {
+        try {
+          const resolved = await this.resolve(match[2], current);
+
+          if (!resolved.isBuiltin) {
+            queue.push(resolved.filename);
+          }
+        } catch {
+          // Optional or dynamic dependency, require() reports it if reached
+        }
+      }
+    }
+  }
+
+  async readFile(filename: string): Promise<string> {
+    const content = await this._load(filename);
+
+    if (content === null) {
+      throw createNotFoundError(filename);
+    }
+
+    return content;
+  }
+
+  readFileSync(filename: string): string {
+    const entry = this._lookup(filename);
+
+    if (entry?.kind !== 'file' || entry.content === undefined) {
+      throw createNotFoundError(filename);
+    }
+
+    return entry.content;
+  }
+
+  existsSync(filename: string): boolean {
+    const entry = this._lookup(filename);
+    return entry !== null && entry.kind !== 'missing';
+  }
+
+  statSync(filename: string): { isFile(): boolean; isDirectory(): boolean } {
+    const entry = this._lookup(filename);
+
+    if (!entry || entry.kind === 'missing') {
+      throw createNotFoundError(filename);
+    }
+
+    return {
+      isFile: () => entry.kind === 'file',
+      isDirectory: () => entry.kind === 'directory',
+    };
+  }
+
+  readdirSync(dirname: string): string[] {
+    const prefix = dirname.endsWith('/') ? dirname : `${dirname}/`;
+    const names = new Set<string>();
+
+    for (const [filename, entry] of this._entries) {
+      if (entry.kind !== 'missing' && filename.startsWith(prefix)) {
+        names.add(filename.slice(prefix.length).split('/')[0]);
+      }
+    }
+
+    return [...names];
+  }
+
+  /**
+   * Look up a path, recording it for the next fetch when it is unknown
+   */
+  private _lookup(filename: string): Entry | null {
+    const normalized = path.normalize(filename);
+    const entry = this._entries.get(normalized);
+
+    if (!entry) {
+      this._pending.add(normalized);
+      return null;
+    }
+
+    // package.json content is needed by the resolver itself
+    if (entry.kind === 'file' && entry.content === undefined && path.basename(normalized) === 'package.json') {
+      this._pending.add(normalized);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Fetch the type of a path (and the content of package.json files)
+   */
+  private async _fetch(filename: string): Promise<Entry> {
+    const known = this._entries.get(filename);
+
+    if (known && (known.kind !== 'file' || known.content !== undefined)) {
+      return known;
+    }
+
+    let entry: Entry;
+
+    try {
+      const stat = await this._source.stat(filename);
+      entry = stat.isFile ? { kind: 'file' } : stat.isDirectory ? { kind: 'directory' } : { kind: 'missing' };
+    } catch {
+      entry = { kind: 'missing' };
+    }
+
+    if (entry.kind === 'file' && path.basename(filename) === 'package.json') {
+      entry.content = await this._source.readTextFile(filename);
+    }
+
+    this._entries.set(filename, entry);
+
+    return entry;
+  }
+
+  /**
+   * Load the content of a file, null when it does not exist
+   */
+  private async _load(filename: string): Promise<string | null> {
+    const normalized = path.normalize(filename);
+    const entry = await this._fetch(normalized);
+
+    if (entry.kind !== 'file') {
+      return null;
+    }
+
+    if (entry.content === undefined) {
+      entry.content = await this._source.readTextFile(normalized);
+    }
+
+    return entry.content;
+  }
+}
+
+function createNotFoundError(filename: string): Error {
+  const error = new Error(`ENOENT: no such file or directory, open '${filename}'`) as Error & { code: string };
+  error.code = 'ENOENT';
+
+  return error;
+}
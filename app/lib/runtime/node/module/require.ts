@@ -8,7 +8,15 @@
 
 import * as path from '../core-modules/path';
 import { ModuleResolver } from './resolver';
-import type { ModuleFS, NodeModule, RequireFunction, ModuleLoaderOptions } from './types';
+import { transformESM } from './esm-transform';
+import type {
+  ModuleFS,
+  NodeModule,
+  RequireFunction,
+  ModuleLoaderOptions,
+  ModuleNamespace,
+  ResolvedModule,
+} from './types';
 
 // Import built-in modules
 import * as pathModule from '../core-modules/path';
@@ -19,7 +27,15 @@ import * as streamModule from '../core-modules/stream';
 import * as httpModule from '../core-modules/http';
 import * as cryptoModule from '../core-modules/crypto';
 import * as childProcessModule from '../core-modules/child_process';
-import { Buffer } from '../globals/buffer';
+import * as httpsModule from '../core-modules/https';
+import * as osModule from '../core-modules/os';
+import * as urlModule from '../core-modules/url';
+import * as querystringModule from '../core-modules/querystring';
+import assertModule from '../core-modules/assert';
+import * as bufferModule from '../core-modules/buffer';
+import * as zlibModule from '../core-modules/zlib';
+import * as workerThreadsModule from '../core-modules/worker_threads';
+import { timers, timersPromises } from '../globals/timers';
 
 /**
  * Built-in module registry
@@ -33,9 +49,24 @@ const BUILTIN_MODULES: Record<string, unknown> = {
   http: httpModule,
   crypto: cryptoModule,
   child_process: childProcessModule,
-  buffer: { Buffer },
+  https: httpsModule,
+  os: osModule,
+  url: urlModule,
+  querystring: querystringModule,
+  assert: assertModule,
+  'assert/strict': assertModule.strict,
+  buffer: bufferModule,
+  zlib: zlibModule,
+  worker_threads: workerThreadsModule,
+  timers,
+  'timers/promises': timersPromises,
 };
 
+/**
+ * Constructor of async functions, for ES modules using top-level await
+ */
+const ASYNC_FUNCTION = Object.getPrototypeOf(async () => undefined).constructor as FunctionConstructor;
+
 /**
  * Module loader class
  */
@@ -46,12 +77,20 @@ export class ModuleLoader {
   private _builtins: Record<string, unknown>;
   private _mainModule: NodeModule | undefined;
   private _cwd: string;
+  private _globals: Record<string, unknown>;
+
+  /** Filenames of the modules compiled as ES modules */
+  private _esModules = new Set<string>();
+
+  /** Bodies of ES modules still running after a top-level await */
+  private _evaluations = new Map<string, Promise<unknown>>();
 
   constructor(fs: ModuleFS, options: ModuleLoaderOptions = {}) {
     this._fs = fs;
     this._cwd = options.cwd || '/';
     this._resolver = new ModuleResolver(fs, options.extensions);
     this._builtins = { ...BUILTIN_MODULES, ...options.builtins };
+    this._globals = options.globals ?? {};
   }
 
   /**
@@ -101,9 +140,13 @@ export class ModuleLoader {
    * Require a module
    */
   private _require(id: string, parentFilename: string): unknown {
-    // Resolve the module
-    const resolved = this._resolver.resolve(id, parentFilename);
+    return this._load(this._resolver.resolve(id, parentFilename), parentFilename);
+  }
 
+  /**
+   * Load a resolved module
+   */
+  private _load(resolved: ResolvedModule, parentFilename: string): unknown {
     // Return built-in module
     if (resolved.isBuiltin) {
       const builtin = this._builtins[resolved.filename];
@@ -132,6 +175,8 @@ export class ModuleLoader {
       // Load based on format
       if (resolved.format === 'json') {
         this._compileJSON(module, resolved.filename);
+      } else if (resolved.format === 'module') {
+        this._compileESM(module, resolved.filename);
       } else {
         this._compileJS(module, resolved.filename);
       }
@@ -191,9 +236,52 @@ export class ModuleLoader {
       // Execute the wrapped module
       // Note: In a real implementation, this would use QuickJS or similar
       // For now, we use Function constructor (has limitations)
-      const fn = new Function('exports', 'require', 'module', '__filename', '__dirname', wrapper);
+      const globalNames = Object.keys(this._globals);
+      const fn = new Function('exports', 'require', 'module', '__filename', '__dirname', ...globalNames, wrapper);
+
+      fn.call(exports, exports, require, module, __filename, __dirname, ...Object.values(this._globals));
+    } catch (error) {
+      const err = error as Error;
+      err.message = `Error loading module '${filename}': ${err.message}`;
+      throw err;
+    }
+  }
+
+  /**
+   * Compile an ES module. Its imports load modules like require() does, with
+   * the ESM interop of Node.js: the default export of a CommonJS module is
+   * module.exports.
+   */
+  private _compileESM(module: NodeModule, filename: string): void {
+    const helpers = this._createESMHelpers(module, filename);
+    const globalNames = Object.keys(this._globals);
+
+    this._esModules.add(filename);
+
+    try {
+      const { code } = transformESM(this._wrap(this._fs.readFileSync(filename)));
+      let fn: (...args: unknown[]) => unknown;
+
+      try {
+        fn = new Function('__esm', ...globalNames, code) as typeof fn;
+      } catch (error) {
+        // `await` outside of a function: the body runs as an async function
+        if (!(error instanceof SyntaxError) || !/\bawait\b/.test(code)) {
+          throw error;
+        }
+
+        fn = new ASYNC_FUNCTION('__esm', ...globalNames, code) as typeof fn;
+      }
+
+      const result = fn.call(undefined, helpers, ...Object.values(this._globals));
 
-      fn.call(exports, exports, require, module, __filename, __dirname);
+      if (result instanceof Promise) {
+        this._evaluations.set(filename, result);
+        result.then(
+          () => this._evaluations.delete(filename),
+          () => undefined,
+        );
+      }
     } catch (error) {
       const err = error as Error;
       err.message = `Error loading module '${filename}': ${err.message}`;
@@ -201,6 +289,79 @@ export class ModuleLoader {
     }
   }
 
+  /**
+   * Values behind `__esm` in transformed ES modules
+   */
+  private _createESMHelpers(module: NodeModule, filename: string) {
+    const exports = module.exports as Record<string, unknown>;
+
+    Object.defineProperty(exports, '__esModule', { value: true });
+
+    return {
+      meta: {
+        url: `file://${filename}`,
+        filename,
+        dirname: path.dirname(filename),
+        resolve: (specifier: string) => {
+          const resolved = this._resolver.resolve(specifier, filename);
+          return resolved.isBuiltin ? `node:${resolved.filename}` : `file://${resolved.filename}`;
+        },
+      },
+      import: (specifier: string) => this._importNamespace(specifier, filename),
+      dynamicImport: async (specifier: unknown) => {
+        const namespace = this._importNamespace(String(specifier), filename);
+        const resolved = this._resolver.resolve(String(specifier), filename);
+
+        await this._evaluations.get(resolved.filename);
+
+        return namespace;
+      },
+      define: (getters: Record<string, () => unknown>) => {
+        for (const [name, get] of Object.entries(getters)) {
+          Object.defineProperty(exports, name, { enumerable: true, get });
+        }
+      },
+      exportStar: (namespace: ModuleNamespace) => {
+        for (const name of Object.keys(namespace)) {
+          if (name !== 'default' && !Object.prototype.hasOwnProperty.call(exports, name)) {
+            Object.defineProperty(exports, name, { enumerable: true, get: () => namespace[name] });
+          }
+        }
+      },
+    };
+  }
+
+  /**
+   * Namespace object of an imported module
+   */
+  private _importNamespace(specifier: string, parentFilename: string): ModuleNamespace {
+    const resolved = this._resolver.resolve(specifier, parentFilename);
+    const exports = this._load(resolved, parentFilename);
+
+    if (this._esModules.has(resolved.filename)) {
+      return exports as ModuleNamespace;
+    }
+
+    const isObject = (typeof exports === 'object' && exports !== null) || typeof exports === 'function';
+
+    // Built-in modules are namespaces themselves, with their object as default export
+    const defaultExport =
+      resolved.isBuiltin && isObject && 'default' in (exports as object)
+        ? (exports as ModuleNamespace).default
+        : exports;
+    const namespace: ModuleNamespace = { default: defaultExport };
+
+    if (isObject) {
+      for (const name of Object.keys(exports)) {
+        if (name !== 'default') {
+          namespace[name] = (exports as Record<string, unknown>)[name];
+        }
+      }
+    }
+
+    return namespace;
+  }
+
   /**
    * Compile a JSON module
    */
@@ -220,8 +381,8 @@ export class ModuleLoader {
    * Wrap module code
    */
   private _wrap(content: string): string {
-    // Node.js module wrapper
-    return content;
+    // Node.js module wrapper, the hashbang of executables is ignored like in Node.js
+    return content.replace(/^#!.*/, '');
   }
 
   /**
@@ -234,8 +395,12 @@ export class ModuleLoader {
     this._cache.set(absolutePath, this._mainModule);
 
     try {
-      if (absolutePath.endsWith('.json')) {
+      const format = this._resolver.getFormat(absolutePath);
+
+      if (format === 'json') {
         this._compileJSON(this._mainModule, absolutePath);
+      } else if (format === 'module') {
+        this._compileESM(this._mainModule, absolutePath);
       } else {
         this._compileJS(this._mainModule, absolutePath);
       }
@@ -248,11 +413,24 @@ export class ModuleLoader {
     }
   }
 
+  /**
+   * Promise settling once the ES modules loaded so far finished their
+   * top-level await, null when none is running
+   */
+  pendingEvaluations(): Promise<void> | null {
+    if (this._evaluations.size === 0) {
+      return null;
+    }
+
+    return Promise.all(this._evaluations.values()).then(() => undefined);
+  }
+
   /**
    * Clear the module cache
    */
   clearCache(): void {
     this._cache.clear();
+    this._esModules.clear();
     this._resolver.clearCache();
   }
 
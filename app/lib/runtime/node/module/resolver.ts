@@ -19,6 +19,7 @@ const DEFAULT_EXTENSIONS = ['.js', '.mjs', '.cjs', '.json', '.node'];
  */
 const BUILTIN_MODULES = new Set([
   'assert',
+  'assert/strict',
   'buffer',
   'child_process',
   'cluster',
@@ -45,6 +46,7 @@ const BUILTIN_MODULES = new Set([
   'string_decoder',
   'sys',
   'timers',
+  'timers/promises',
   'tls',
   'tty',
   'url',
@@ -109,7 +111,7 @@ export class ModuleResolver {
       if (resolved) {
         return {
           filename: resolved,
-          format: this._getFormat(resolved),
+          format: this.getFormat(resolved),
           isBuiltin: false,
         };
       }
@@ -119,26 +121,26 @@ export class ModuleResolver {
 
     // Resolve as node_modules package
     const searchPaths = options?.paths || this._getNodeModulePaths(path.dirname(parentPath));
+    const parts = specifier.split('/');
+    const packageName = parts[0].startsWith('@') && parts.length > 1 ? `${parts[0]}/${parts[1]}` : parts[0];
+    const subpath = parts.slice(packageName.split('/').length).join('/');
 
     for (const searchPath of searchPaths) {
-      const packagePath = path.join(searchPath, specifier);
+      // Linked packages resolve from their real directory, like symlinks in Node.js
+      const pkgPath = this._followLink(path.join(searchPath, packageName));
+      const packagePath = subpath ? path.join(pkgPath, subpath) : pkgPath;
       const resolved = this._resolveFile(packagePath) || this._resolveDirectory(packagePath);
 
       if (resolved) {
         return {
           filename: resolved,
-          format: this._getFormat(resolved),
+          format: this.getFormat(resolved),
           isBuiltin: false,
         };
       }
 
       // Try subpath exports
-      const parts = specifier.split('/');
-      const packageName = parts[0].startsWith('@') ? `${parts[0]}/${parts[1]}` : parts[0];
-      const subpath = parts.slice(packageName.split('/').length).join('/');
-
       if (subpath) {
-        const pkgPath = path.join(searchPath, packageName);
         const pkgJson = this._loadPackageJson(pkgPath);
 
         if (pkgJson?.exports) {
@@ -147,23 +149,11 @@ export class ModuleResolver {
           if (exportResolved) {
             return {
               filename: exportResolved,
-              format: this._getFormat(exportResolved),
+              format: this.getFormat(exportResolved),
               isBuiltin: false,
             };
           }
         }
-
-        // Fallback to direct file
-        const directPath = path.join(pkgPath, subpath);
-        const directResolved = this._resolveFile(directPath) || this._resolveDirectory(directPath);
-
-        if (directResolved) {
-          return {
-            filename: directResolved,
-            format: this._getFormat(directResolved),
-            isBuiltin: false,
-          };
-        }
       }
     }
 
@@ -200,6 +190,15 @@ export class ModuleResolver {
     return paths;
   }
 
+  /**
+   * Directory a package really lives in: the target of a workspace link
+   */
+  private _followLink(pkgPath: string): string {
+    const link = this._loadPackageJson(pkgPath)?._link;
+
+    return typeof link === 'string' ? path.resolve(pkgPath, link) : pkgPath;
+  }
+
   /**
    * Resolve as a file
    */
@@ -348,7 +347,7 @@ export class ModuleResolver {
   /**
    * Get module format from filename
    */
-  private _getFormat(filename: string): 'commonjs' | 'module' | 'json' {
+  getFormat(filename: string): 'commonjs' | 'module' | 'json' {
     if (filename.endsWith('.json')) {
       return 'json';
     }
@@ -69,6 +69,12 @@ export interface PackageJson {
   dependencies?: Record<string, string>;
   devDependencies?: Record<string, string>;
   peerDependencies?: Record<string, string>;
+
+  /**
+   * Linked package (npm workspaces): its directory, relative to this one.
+   * The filesystem has no symlinks, BaviniPM writes this instead.
+   */
+  _link?: string;
 }
 
 /**
@@ -87,6 +93,9 @@ export interface ModuleLoaderOptions {
   nodeModulesPath?: string;
   builtins?: Record<string, unknown>;
   extensions?: string[];
+
+  /** Extra free variables exposed to every CommonJS module (e.g. `process`) */
+  globals?: Record<string, unknown>;
 }
 
 /**
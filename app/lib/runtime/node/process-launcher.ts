@@ -0,0 +1,193 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Process Launcher
+ * =============================================================================
+ * Bridge between child_process and the virtual shell. The terminal layer
+ * registers a launcher that runs command lines through its executor; spawned
+ * processes stream their output back and can talk to their parent over an
+ * IPC channel (fork).
+ * =============================================================================
+ */
+
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ProcessLauncher');
+
+/**
+ * One end of an IPC channel between a parent and a child process
+ */
+export interface IpcEndpoint {
+  readonly connected: boolean;
+
+  /** Send a message to the other end, false when the channel is closed */
+  send(message: unknown): boolean;
+
+  onMessage(listener: (message: unknown) => void): void;
+  onDisconnect(listener: () => void): void;
+
+  /** Close the channel for both ends */
+  disconnect(): void;
+}
+
+/**
+ * Process to launch
+ */
+export interface ProcessLaunchOptions {
+  /** Shell command line */
+  command: string;
+
+  cwd?: string;
+  env?: Record<string, string>;
+
+  /** Data written to the process stdin */
+  stdin?: string;
+
+  stdout: (data: string) => void;
+  stderr: (data: string) => void;
+
+  /** Aborted when the process is killed */
+  signal: AbortSignal;
+
+  /** Child end of the IPC channel for forked processes */
+  ipc?: IpcEndpoint;
+}
+
+/**
+ * Runs a command line and resolves with its exit code
+ */
+export type ProcessLauncher = (options: ProcessLaunchOptions) => Promise<number>;
+
+/**
+ * Command run to completion while the caller blocks (execSync, spawnSync)
+ */
+export interface SyncProcessLaunchOptions {
+  command: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  stdin?: string;
+
+  /** Milliseconds before the process is killed */
+  timeout?: number;
+}
+
+/**
+ * Outcome of a command run to completion, status is null when it was killed
+ */
+export interface SyncProcessResult {
+  status: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Runs a command line and blocks until it exits. Only threads that may block
+ * (node processes running in a worker) have one.
+ */
+export type SyncProcessLauncher = (options: SyncProcessLaunchOptions) => SyncProcessResult;
+
+let launcher: ProcessLauncher | null = null;
+let syncLauncher: SyncProcessLauncher | null = null;
+
+/**
+ * Set the launcher used by child_process (null to unregister)
+ */
+export function setProcessLauncher(processLauncher: ProcessLauncher | null): void {
+  launcher = processLauncher;
+  logger.debug(processLauncher ? 'Process launcher registered' : 'Process launcher removed');
+}
+
+/**
+ * Get the registered launcher
+ */
+export function getProcessLauncher(): ProcessLauncher | null {
+  return launcher;
+}
+
+/**
+ * Set the launcher used by the synchronous child_process functions (null to unregister)
+ */
+export function setSyncProcessLauncher(processLauncher: SyncProcessLauncher | null): void {
+  syncLauncher = processLauncher;
+}
+
+/**
+ * Get the registered synchronous launcher
+ */
+export function getSyncProcessLauncher(): SyncProcessLauncher | null {
+  return syncLauncher;
+}
+
+/**
+ * Create a connected pair of IPC endpoints.
+ * Messages are serialized as JSON and delivered asynchronously, like Node.js.
+ */
+export function createIpcChannel(): [IpcEndpoint, IpcEndpoint] {
+  let connected = true;
+  const messageListeners: [Array<(message: unknown) => void>, Array<(message: unknown) => void>] = [[], []];
+  const disconnectListeners: [Array<() => void>, Array<() => void>] = [[], []];
+
+  // Messages sent before the other end listens wait for its first listener
+  const queues: [unknown[], unknown[]] = [[], []];
+
+  const deliver = (side: 0 | 1, message: unknown) => {
+    if (messageListeners[side].length === 0) {
+      queues[side].push(message);
+      return;
+    }
+
+    for (const listener of messageListeners[side]) {
+      listener(message);
+    }
+  };
+
+  const disconnect = () => {
+    if (!connected) {
+      return;
+    }
+
+    connected = false;
+
+    setTimeout(() => {
+      for (const listener of [...disconnectListeners[0], ...disconnectListeners[1]]) {
+        listener();
+      }
+    }, 0);
+  };
+
+  const createEndpoint = (side: 0 | 1): IpcEndpoint => ({
+    get connected() {
+      return connected;
+    },
+
+    send(message: unknown): boolean {
+      if (!connected) {
+        return false;
+      }
+
+      const serialized = JSON.stringify(message);
+
+      // Queued before any disconnect notification, so in-flight messages still arrive
+      setTimeout(() => deliver(side === 0 ? 1 : 0, serialized === undefined ? undefined : JSON.parse(serialized)), 0);
+
+      return true;
+    },
+
+    onMessage(listener: (message: unknown) => void): void {
+      messageListeners[side].push(listener);
+
+      const pending = queues[side].splice(0);
+
+      if (pending.length > 0) {
+        setTimeout(() => pending.forEach((message) => listener(message)), 0);
+      }
+    },
+
+    onDisconnect(listener: () => void): void {
+      disconnectListeners[side].push(listener);
+    },
+
+    disconnect,
+  });
+
+  return [createEndpoint(0), createEndpoint(1)];
+}
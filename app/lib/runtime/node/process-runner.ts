@@ -0,0 +1,571 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Node Process Runner
+ * =============================================================================
+ * Runs a script the way `node <file>` does: the module graph is preloaded from
+ * the virtual filesystem, the program gets its own process, console and timers,
+ * and the process exits once nothing keeps it alive anymore (pending timers, a
+ * listening server, an IPC channel with message listeners) or when it calls
+ * process.exit(). Its servers are closed when it exits or gets killed.
+ * =============================================================================
+ */
+
+import type { MountManager } from '../filesystem';
+import type { ProcessObject, TimerHandle } from './types';
+import type { IpcEndpoint } from './process-launcher';
+import { createProcess, ExitError } from './globals/process';
+import { createConsole } from './globals/console';
+import { ModuleLoader } from './module/require';
+import { PreloadedModuleFS } from './module/preloaded-fs';
+import { createChildProcessModule } from './core-modules/child_process';
+import * as http from './core-modules/http';
+import * as https from './core-modules/https';
+import * as path from './core-modules/path';
+
+/**
+ * Exit code of a process interrupted by a signal (same as the terminal)
+ */
+export const SIGNAL_EXIT_CODE = 130;
+
+/**
+ * Node process to run
+ */
+export interface NodeProcessOptions {
+  fs: MountManager;
+
+  /** Script to run, relative to cwd */
+  filename?: string;
+
+  /** Code to evaluate instead of a script (`node -e`) */
+  eval?: string;
+
+  /** Arguments passed to the script */
+  args?: string[];
+
+  cwd: string;
+  env?: Record<string, string | undefined>;
+  stdin?: string;
+  stdout: (data: string) => void;
+  stderr: (data: string) => void;
+  signal?: AbortSignal;
+  ipc?: IpcEndpoint;
+
+  /** Operations run for the process elsewhere (filesystem calls of a worker) */
+  activity?: ProcessActivity;
+}
+
+/**
+ * Pending operations keep the process alive, like Node.js I/O
+ */
+export interface ProcessActivity {
+  readonly pending: number;
+  onSettle(listener: () => void): void;
+}
+
+interface ProcessTimer {
+  nativeId: ReturnType<typeof setTimeout>;
+  interval: boolean;
+  ref: boolean;
+}
+
+/**
+ * Run a Node.js program and resolve with its exit code
+ */
+export function runNodeProcess(options: NodeProcessOptions): Promise<number> {
+  return new NodeProcess(options).run();
+}
+
+/**
+ * A running Node.js program
+ */
+class NodeProcess {
+  private _options: NodeProcessOptions;
+  private _process: ProcessObject;
+  private _timers = new Map<number, ProcessTimer>();
+  private _nextTimerId = 1;
+  private _messageListeners = 0;
+  private _servers = new Set<http.Server>();
+  private _evaluating = false;
+  private _idleCheck: ReturnType<typeof setTimeout> | null = null;
+  private _finished = false;
+  private _resolveExit!: (code: number) => void;
+  private _exited: Promise<number>;
+
+  constructor(options: NodeProcessOptions) {
+    this._options = options;
+    this._exited = new Promise((resolve) => {
+      this._resolveExit = resolve;
+    });
+
+    const env = Object.fromEntries(
+      Object.entries(options.env ?? {}).filter((entry): entry is [string, string] => entry[1] !== undefined),
+    );
+
+    this._process = createProcess({
+      cwd: options.cwd,
+      env,
+      argv: ['node', ...(options.filename ? [this._entryPath()] : []), ...(options.args ?? [])],
+      stdout: options.stdout,
+      stderr: options.stderr,
+    });
+
+    this._setupExit();
+    this._setupIpc();
+    options.activity?.onSettle(() => this._scheduleIdleCheck());
+  }
+
+  async run(): Promise<number> {
+    const { signal } = this._options;
+
+    if (signal?.aborted) {
+      return SIGNAL_EXIT_CODE;
+    }
+
+    signal?.addEventListener('abort', () => this._finish(SIGNAL_EXIT_CODE, true), { once: true });
+
+    const moduleFs = new PreloadedModuleFS(this._options.fs);
+    let entry: string;
+
+    try {
+      entry = await this._prepareEntry(moduleFs);
+    } catch (error) {
+      this._options.stderr(formatError(error));
+      this._finish(1, false);
+
+      return this._exited;
+    }
+
+    const loader = new ModuleLoader(moduleFs, {
+      cwd: this._options.cwd,
+      builtins: {
+        process: this._process,
+        child_process: createChildProcessModule({
+          cwd: () => this._process.cwd(),
+          env: this._process.env,
+          stdout: this._options.stdout,
+          stderr: this._options.stderr,
+        }),
+        http: this._createServerModule(http),
+        https: this._createServerModule(https),
+      },
+      globals: this._createGlobals(),
+    });
+
+    this._invoke(() => loader.loadMain(entry));
+    this._awaitEvaluation(loader.pendingEvaluations());
+    this._listenIpc();
+
+    if (this._options.stdin !== undefined) {
+      const data = this._options.stdin;
+
+      this._setTimer(
+        () => {
+          this._process.emit('stdin:data', data);
+          this._process.emit('stdin:end');
+        },
+        0,
+        [],
+        false,
+      );
+    }
+
+    this._scheduleIdleCheck();
+
+    return this._exited;
+  }
+
+  /**
+   * Absolute path of the script
+   */
+  private _entryPath(): string {
+    return path.resolve(this._options.cwd, this._options.filename ?? '');
+  }
+
+  /**
+   * Preload the program and return the module to start from
+   */
+  private async _prepareEntry(moduleFs: PreloadedModuleFS): Promise<string> {
+    if (this._options.eval !== undefined) {
+      const filename = path.join(this._options.cwd, '[eval]');
+
+      moduleFs.addFile(filename, this._options.eval);
+      await moduleFs.preload(filename);
+
+      return filename;
+    }
+
+    const resolved = await moduleFs.resolve(this._entryPath(), path.join(this._options.cwd, '[main]'));
+
+    await moduleFs.preload(resolved.filename);
+
+    return resolved.filename;
+  }
+
+  /**
+   * Free variables of every module: the process, a console writing to its
+   * streams and timers tracked to know when the program is done
+   */
+  private _createGlobals(): Record<string, unknown> {
+    const { stdout, stderr } = this._options;
+
+    return {
+      process: this._process,
+      console: createConsole({ stdout, stderr, colorMode: false }),
+      setTimeout: (callback: (...args: unknown[]) => void, ms = 0, ...args: unknown[]) =>
+        this._setTimer(callback, ms, args, false),
+      setInterval: (callback: (...args: unknown[]) => void, ms = 0, ...args: unknown[]) =>
+        this._setTimer(callback, ms, args, true),
+      setImmediate: (callback: (...args: unknown[]) => void, ...args: unknown[]) =>
+        this._setTimer(callback, 0, args, false),
+      clearTimeout: (handle?: TimerHandle | number) => this._clearTimer(handle),
+      clearInterval: (handle?: TimerHandle | number) => this._clearTimer(handle),
+      clearImmediate: (handle?: TimerHandle | number) => this._clearTimer(handle),
+    };
+  }
+
+  /**
+   * ES modules running a top-level await keep the process alive until they
+   * settle, a rejection is an uncaught exception
+   */
+  private _awaitEvaluation(evaluation: Promise<void> | null): void {
+    if (!evaluation) {
+      return;
+    }
+
+    this._evaluating = true;
+
+    evaluation
+      .catch((error) => this._handleError(error))
+      .finally(() => {
+        this._evaluating = false;
+        this._scheduleIdleCheck();
+      });
+  }
+
+  /**
+   * http or https module whose servers belong to this process
+   */
+  private _createServerModule(module: typeof http | typeof https): Record<string, unknown> {
+    const track = (server: http.Server) => this._trackServer(server);
+
+    class Server extends http.Server {
+      constructor(...args: ConstructorParameters<typeof http.Server>) {
+        super(...args);
+        track(this);
+      }
+    }
+
+    const createServer = (...args: Parameters<typeof http.createServer>) => track(module.createServer(...args));
+
+    return { ...module, Server, createServer, default: { ...module.default, Server, createServer } };
+  }
+
+  /**
+   * A listening server keeps the process alive, its events run as program code
+   * so an unhandled 'error' (EADDRINUSE) is an uncaught exception of the process
+   */
+  private _trackServer(server: http.Server): http.Server {
+    const emit = server.emit.bind(server);
+    const unref = server.unref.bind(server);
+
+    this._servers.add(server);
+
+    server.emit = (event: string | symbol, ...args: unknown[]) => {
+      // Errors of request handlers become 500 responses, like before
+      if (event === 'request') {
+        return emit(event, ...args);
+      }
+
+      let handled = false;
+
+      this._invoke(() => {
+        handled = emit(event, ...args);
+      });
+
+      return handled;
+    };
+
+    server.unref = () => {
+      unref();
+      this._scheduleIdleCheck();
+
+      return server;
+    };
+
+    server.on('close', () => this._scheduleIdleCheck());
+
+    return server;
+  }
+
+  /**
+   * Make process.exit() end the run
+   */
+  private _setupExit(): void {
+    const exit = this._process.exit;
+
+    this._process.exit = (code?: number): never => {
+      const exitCode = code ?? this._process.exitCode ?? 0;
+
+      this._finish(exitCode, false);
+
+      return exit(exitCode);
+    };
+  }
+
+  /**
+   * Expose the IPC channel of forked processes on the process object
+   */
+  private _setupIpc(): void {
+    const { ipc } = this._options;
+
+    if (!ipc) {
+      return;
+    }
+
+    const proc = this._process;
+    const on = proc.on;
+    const once = proc.once;
+    const off = proc.off;
+
+    // Like Node.js, the channel only keeps the process alive while someone listens
+    const track = (event: string, delta: number) => {
+      if (event === 'message') {
+        this._messageListeners = Math.max(0, this._messageListeners + delta);
+        this._scheduleIdleCheck();
+      }
+    };
+
+    proc.on = (event, listener) => {
+      track(event, 1);
+      return on(event, listener);
+    };
+
+    proc.once = (event, listener) => {
+      track(event, 1);
+      return once(event, listener);
+    };
+
+    proc.off = (event, listener) => {
+      track(event, -1);
+      return off(event, listener);
+    };
+
+    proc.connected = true;
+
+    proc.send = (message, callback) => {
+      const sent = ipc.send(message);
+
+      if (callback) {
+        setTimeout(() => callback(sent ? null : new Error('Channel closed')), 0);
+      }
+
+      return sent;
+    };
+
+    proc.disconnect = () => ipc.disconnect();
+  }
+
+  /**
+   * Deliver IPC messages, once the program had a chance to add its listeners
+   */
+  private _listenIpc(): void {
+    const { ipc } = this._options;
+
+    if (!ipc) {
+      return;
+    }
+
+    ipc.onMessage((message) => {
+      this._invoke(() => this._process.emit('message', message));
+      this._scheduleIdleCheck();
+    });
+
+    ipc.onDisconnect(() => {
+      this._process.connected = false;
+      this._invoke(() => this._process.emit('disconnect'));
+      this._scheduleIdleCheck();
+    });
+  }
+
+  private _setTimer(
+    callback: (...args: unknown[]) => void,
+    ms: number,
+    args: unknown[],
+    interval: boolean,
+  ): TimerHandle {
+    const id = this._nextTimerId++;
+
+    const fire = () => {
+      if (!interval) {
+        this._timers.delete(id);
+      }
+
+      this._invoke(() => callback(...args));
+      this._scheduleIdleCheck();
+    };
+
+    const timer: ProcessTimer = {
+      nativeId: interval ? setInterval(fire, ms) : setTimeout(fire, ms),
+      interval,
+      ref: true,
+    };
+
+    this._timers.set(id, timer);
+
+    const handle: TimerHandle = {
+      ref: () => {
+        timer.ref = true;
+        return handle;
+      },
+      unref: () => {
+        timer.ref = false;
+        this._scheduleIdleCheck();
+
+        return handle;
+      },
+      hasRef: () => timer.ref,
+      refresh: () => {
+        if (this._timers.has(id)) {
+          clearNativeTimer(timer);
+          timer.nativeId = interval ? setInterval(fire, ms) : setTimeout(fire, ms);
+        }
+
+        return handle;
+      },
+      [Symbol.toPrimitive]: () => id,
+    };
+
+    return handle;
+  }
+
+  private _clearTimer(handle: TimerHandle | number | undefined): void {
+    if (handle === undefined || handle === null) {
+      return;
+    }
+
+    const id = Number(handle);
+    const timer = this._timers.get(id);
+
+    if (timer) {
+      clearNativeTimer(timer);
+      this._timers.delete(id);
+      this._scheduleIdleCheck();
+    }
+  }
+
+  /**
+   * Run program code, turning exceptions into uncaught exceptions
+   */
+  private _invoke(fn: () => unknown): void {
+    if (this._finished) {
+      return;
+    }
+
+    try {
+      fn();
+    } catch (error) {
+      this._handleError(error);
+    }
+  }
+
+  private _handleError(error: unknown): void {
+    if (error instanceof ExitError) {
+      this._finish(error.code, false);
+      return;
+    }
+
+    if (this._finished || this._process.emit('uncaughtException', error)) {
+      return;
+    }
+
+    this._options.stderr(formatError(error));
+    this._finish(1, true);
+  }
+
+  /**
+   * Exit once nothing keeps the process alive. The check runs on a later task
+   * so promise callbacks queued by the program run first.
+   */
+  private _scheduleIdleCheck(): void {
+    if (this._finished) {
+      return;
+    }
+
+    if (this._idleCheck !== null) {
+      clearTimeout(this._idleCheck);
+    }
+
+    this._idleCheck = setTimeout(() => {
+      this._idleCheck = null;
+
+      const hasRefTimers = [...this._timers.values()].some((timer) => timer.ref);
+      const serving = [...this._servers].some((server) => server.listening && server.hasRef());
+      const listening = this._options.ipc?.connected === true && this._messageListeners > 0;
+      const busy = (this._options.activity?.pending ?? 0) > 0;
+
+      if (!hasRefTimers && !serving && !listening && !busy && !this._evaluating) {
+        this._finish(this._process.exitCode ?? 0, true);
+      }
+    }, 0);
+  }
+
+  private _finish(code: number, emitExit: boolean): void {
+    if (this._finished) {
+      return;
+    }
+
+    this._finished = true;
+
+    if (this._idleCheck !== null) {
+      clearTimeout(this._idleCheck);
+    }
+
+    for (const timer of this._timers.values()) {
+      clearNativeTimer(timer);
+    }
+
+    this._timers.clear();
+
+    // Frees the ports, the 'close' listeners of a finished process don't run
+    for (const server of this._servers) {
+      if (server.listening) {
+        server.close();
+      }
+    }
+
+    this._servers.clear();
+
+    if (emitExit) {
+      try {
+        this._process.emit('exit', code);
+      } catch {
+        // The process is gone either way
+      }
+    }
+
+    if (this._options.ipc?.connected) {
+      this._options.ipc.disconnect();
+    }
+
+    this._resolveExit(code);
+  }
+}
+
+function clearNativeTimer(timer: ProcessTimer): void {
+  if (timer.interval) {
+    clearInterval(timer.nativeId);
+  } else {
+    clearTimeout(timer.nativeId);
+  }
+}
+
+/**
+ * Format an uncaught error like Node.js does
+ */
+function formatError(error: unknown): string {
+  if (error instanceof Error) {
+    return `${error.stack ?? `${error.name}: ${error.message}`}\n`;
+  }
+
+  return `Uncaught ${String(error)}\n`;
+}
@@ -0,0 +1,267 @@
+/**
+ * =============================================================================
+ * BAVINI Container - HTTP Server Registry
+ * =============================================================================
+ * Tracks the http.Server instances listening on virtual ports so the preview
+ * can route requests for a port to the user's request handler.
+ * The browser drops Set-Cookie from responses built by a service worker and
+ * never shows it the Cookie header, so cookies are kept here, per port.
+ * =============================================================================
+ */
+
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ServerRegistry');
+
+/**
+ * First port handed out for listen(0)
+ */
+const EPHEMERAL_PORT_START = 49152;
+
+/**
+ * Serializable request sent by the preview
+ */
+export interface ServerRequest {
+  method: string;
+
+  /** Path and query string, e.g. `/api/users?page=2` */
+  url: string;
+
+  headers: Record<string, string>;
+  body?: Uint8Array;
+}
+
+/**
+ * Serializable response returned to the preview
+ */
+export interface ServerResponseData {
+  status: number;
+  statusText: string;
+
+  /** Repeated headers (set-cookie) keep one entry per value */
+  headers: Record<string, string | string[]>;
+  body: Uint8Array;
+}
+
+/**
+ * A server able to handle requests for its port
+ */
+export interface RegisteredServer {
+  handleRequest(request: ServerRequest): Promise<ServerResponseData>;
+}
+
+/**
+ * Port lifecycle event
+ */
+export type ServerPortEvent = 'open' | 'close';
+
+type ServerPortListener = (port: number, event: ServerPortEvent) => void;
+
+/**
+ * Registry of another thread. Node processes run in workers, their servers
+ * are registered on the page where the preview sends requests.
+ */
+export interface ServerRegistryBridge {
+  register(port: number, server: RegisteredServer): number;
+  unregister(port: number, server: RegisteredServer): void;
+}
+
+const servers = new Map<number, RegisteredServer>();
+const cookieJars = new Map<number, Map<string, string>>();
+const listeners = new Set<ServerPortListener>();
+let nextEphemeralPort = EPHEMERAL_PORT_START;
+let bridge: ServerRegistryBridge | null = null;
+
+/**
+ * Send registrations to another thread (null to keep them local)
+ */
+export function setServerRegistryBridge(registryBridge: ServerRegistryBridge | null): void {
+  bridge = registryBridge;
+}
+
+/**
+ * Register a server on a port.
+ * Throws an EADDRINUSE error if another server already listens on it.
+ */
+export function registerServer(port: number, server: RegisteredServer): number {
+  if (bridge) {
+    return bridge.register(port, server);
+  }
+
+  if (port === 0) {
+    while (servers.has(nextEphemeralPort)) {
+      nextEphemeralPort++;
+    }
+
+    port = nextEphemeralPort++;
+  }
+
+  if (servers.has(port) && servers.get(port) !== server) {
+    const error = new Error(`listen EADDRINUSE: address already in use :::${port}`) as Error & {
+      code: string;
+      port: number;
+    };
+    error.code = 'EADDRINUSE';
+    error.port = port;
+    throw error;
+  }
+
+  servers.set(port, server);
+  logger.info(`Server listening on port ${port}`);
+  emit(port, 'open');
+
+  return port;
+}
+
+/**
+ * Remove the server registered on a port
+ */
+export function unregisterServer(port: number, server: RegisteredServer): void {
+  if (bridge) {
+    bridge.unregister(port, server);
+    return;
+  }
+
+  if (servers.get(port) !== server) {
+    return;
+  }
+
+  servers.delete(port);
+  logger.info(`Server on port ${port} closed`);
+  emit(port, 'close');
+}
+
+/**
+ * Ports with a listening server, in ascending order
+ */
+export function getListeningPorts(): number[] {
+  return Array.from(servers.keys()).sort((a, b) => a - b);
+}
+
+/**
+ * Check if a server listens on a port
+ */
+export function isPortListening(port: number): boolean {
+  return servers.has(port);
+}
+
+/**
+ * Dispatch a request to the server listening on a port.
+ * Resolves with a 502 response when nothing listens there.
+ */
+export async function dispatchServerRequest(port: number, request: ServerRequest): Promise<ServerResponseData> {
+  const server = servers.get(port);
+
+  if (!server) {
+    return textResponse(502, 'Bad Gateway', `No server listening on port ${port}`);
+  }
+
+  try {
+    const response = await server.handleRequest(withCookies(port, request));
+
+    storeCookies(port, response.headers['set-cookie']);
+
+    return response;
+  } catch (error) {
+    logger.error(`Request ${request.method} ${request.url} on port ${port} failed:`, error);
+    return textResponse(500, 'Internal Server Error', error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Subscribe to servers opening and closing ports
+ */
+export function onServerPortChange(listener: ServerPortListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Close every registered port (used when the runtime is reset)
+ */
+export function resetServerRegistry(): void {
+  const ports = getListeningPorts();
+
+  servers.clear();
+  cookieJars.clear();
+  nextEphemeralPort = EPHEMERAL_PORT_START;
+
+  for (const port of ports) {
+    emit(port, 'close');
+  }
+}
+
+/**
+ * Add the cookies stored for a port, unless the request already has some
+ */
+function withCookies(port: number, request: ServerRequest): ServerRequest {
+  const jar = cookieJars.get(port);
+  const hasCookieHeader = Object.keys(request.headers).some((name) => name.toLowerCase() === 'cookie');
+
+  if (!jar?.size || hasCookieHeader) {
+    return request;
+  }
+
+  const cookie = Array.from(jar, ([name, value]) => `${name}=${value}`).join('; ');
+
+  return { ...request, headers: { ...request.headers, cookie } };
+}
+
+/**
+ * Record the Set-Cookie values of a response (Max-Age=0 or a past Expires
+ * deletes the cookie; Path and Domain are ignored)
+ */
+function storeCookies(port: number, setCookie: string | string[] | undefined): void {
+  if (!setCookie) {
+    return;
+  }
+
+  const jar = cookieJars.get(port) ?? new Map<string, string>();
+
+  for (const header of Array.isArray(setCookie) ? setCookie : [setCookie]) {
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+
+    if (separator <= 0) {
+      continue;
+    }
+
+    const name = pair.slice(0, separator).trim();
+    const expired = attributes.some((attribute) => {
+      const [key, value = ''] = attribute.split('=').map((part) => part.trim());
+
+      if (key.toLowerCase() === 'max-age') {
+        return Number(value) <= 0;
+      }
+
+      return key.toLowerCase() === 'expires' && Date.parse(value) <= Date.now();
+    });
+
+    if (expired) {
+      jar.delete(name);
+    } else {
+      jar.set(name, pair.slice(separator + 1).trim());
+    }
+  }
+
+  cookieJars.set(port, jar);
+}
+
+function emit(port: number, event: ServerPortEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(port, event);
+    } catch (error) {
+      logger.warn('Error in server port listener:', error);
+    }
+  }
+}
+
+function textResponse(status: number, statusText: string, text: string): ServerResponseData {
+  return {
+    status,
+    statusText,
+    headers: { 'content-type': 'text/plain; charset=utf-8' },
+    body: new TextEncoder().encode(text),
+  };
+}
@@ -44,6 +44,14 @@ export interface ProcessObject {
   chdir: (directory: string) => void;
   /** Exit process */
   exit: (code?: number) => never;
+
+  /** Exit code used when the process exits on its own */
+  exitCode?: number;
+
+  /** IPC methods, only set for processes started with fork() */
+  send?: (message: unknown, callback?: (error: Error | null) => void) => boolean;
+  connected?: boolean;
+  disconnect?: () => void;
   /** Next tick */
   nextTick: (callback: () => void, ...args: unknown[]) => void;
   /** High-resolution time */
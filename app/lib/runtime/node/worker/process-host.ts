@@ -0,0 +1,434 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Node Process Host
+ * =============================================================================
+ * Page side of node processes running in workers. Each process gets its own
+ * worker: a busy loop or a blocking execSync() no longer freezes the page, and
+ * the fs module of the worker is bound to the filesystem of its process only.
+ * The host serves the worker's filesystem calls, registers its servers, runs
+ * its children through the shell and answers its blocking calls.
+ *
+ * Without cross-origin isolation (no SharedArrayBuffer) the process runs on
+ * the page as before.
+ * =============================================================================
+ */
+
+import { createScopedLogger } from '~/utils/logger';
+import { setFilesystem } from '../core-modules/fs';
+import { runNodeProcess, SIGNAL_EXIT_CODE, type NodeProcessOptions } from '../process-runner';
+import {
+  createIpcChannel,
+  getProcessLauncher,
+  type IpcEndpoint,
+  type SyncProcessLaunchOptions,
+  type SyncProcessResult,
+} from '../process-launcher';
+import { registerServer, unregisterServer, type RegisteredServer, type ServerResponseData } from '../server-registry';
+import { SyncResponder, SYNC_BUFFER_SIZE } from './sync-channel';
+import {
+  FILESYSTEM_METHODS,
+  deserializeError,
+  serializeError,
+  type HostMessage,
+  type SyncCall,
+  type WorkerMessage,
+  type WorkerSpawnOptions,
+} from './protocol';
+
+const logger = createScopedLogger('NodeProcessHost');
+
+/**
+ * Time given to a killed process to exit before its worker is terminated
+ */
+const KILL_GRACE_MS = 1000;
+
+/**
+ * The Worker API, as far as the host uses it
+ */
+export interface NodeWorker {
+  postMessage(message: HostMessage): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<WorkerMessage>) => void): void;
+  addEventListener(type: 'error', listener: (event: ErrorEvent) => void): void;
+  terminate(): void;
+}
+
+// Vite worker import - loaded lazily to avoid SSR issues
+let nodeWorkerClass: (new () => Worker) | null = null;
+
+async function createNodeWorker(): Promise<NodeWorker> {
+  if (!nodeWorkerClass) {
+    const workerModule = await import('~/workers/node-process.worker.ts?worker');
+    nodeWorkerClass = workerModule.default;
+  }
+
+  return new nodeWorkerClass();
+}
+
+/**
+ * Whether node processes can run in workers: blocking calls need shared memory
+ */
+export function canRunInWorker(): boolean {
+  return typeof Worker !== 'undefined' && typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated;
+}
+
+/**
+ * Run a Node.js program, in a worker when possible, and resolve with its exit code
+ */
+export async function launchNodeProcess(options: NodeProcessOptions): Promise<number> {
+  if (canRunInWorker()) {
+    return runNodeProcessInWorker(options, await createNodeWorker());
+  }
+
+  // On the page every process shares the fs module, it follows the last launch
+  setFilesystem(options.fs);
+
+  return runNodeProcess(options);
+}
+
+/**
+ * Run a Node.js program in the given worker
+ */
+export function runNodeProcessInWorker(options: NodeProcessOptions, worker: NodeWorker): Promise<number> {
+  return new WorkerProcess(options, worker).run();
+}
+
+interface PendingRequest {
+  resolve: (response: ServerResponseData) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A node process running in a worker, seen from the page
+ */
+class WorkerProcess {
+  private _options: NodeProcessOptions;
+  private _worker: NodeWorker;
+  private _syncBuffer = new SharedArrayBuffer(SYNC_BUFFER_SIZE);
+  private _responder = new SyncResponder(this._syncBuffer);
+  private _servers = new Map<number, RegisteredServer>();
+  private _requests = new Map<number, PendingRequest>();
+  private _children = new Map<number, { controller: AbortController; ipc?: IpcEndpoint }>();
+  private _execs = new Set<AbortController>();
+  private _nextRequestId = 1;
+  private _killTimer: ReturnType<typeof setTimeout> | null = null;
+  private _finished = false;
+  private _resolveExit!: (code: number) => void;
+  private _exited: Promise<number>;
+
+  constructor(options: NodeProcessOptions, worker: NodeWorker) {
+    this._options = options;
+    this._worker = worker;
+    this._exited = new Promise((resolve) => {
+      this._resolveExit = resolve;
+    });
+  }
+
+  run(): Promise<number> {
+    const { signal, ipc } = this._options;
+
+    if (signal?.aborted) {
+      this._finish(SIGNAL_EXIT_CODE);
+      return this._exited;
+    }
+
+    signal?.addEventListener('abort', () => this._kill(), { once: true });
+
+    this._worker.addEventListener('message', ({ data }) => this._handleMessage(data));
+    this._worker.addEventListener('error', (event) => {
+      event.preventDefault?.();
+      this._options.stderr(`${event.message || 'The node process worker failed'}\n`);
+      this._finish(1);
+    });
+
+    ipc?.onMessage((message) => this._post({ type: 'ipc:message', message }));
+    ipc?.onDisconnect(() => this._post({ type: 'ipc:disconnect' }));
+
+    this._post({
+      type: 'run',
+      options: {
+        filename: this._options.filename,
+        eval: this._options.eval,
+        args: this._options.args,
+        cwd: this._options.cwd,
+        env: this._options.env,
+        stdin: this._options.stdin,
+        ipc: ipc !== undefined,
+      },
+      syncBuffer: this._syncBuffer,
+    });
+
+    return this._exited;
+  }
+
+  private _post(message: HostMessage): void {
+    if (!this._finished) {
+      this._worker.postMessage(message);
+    }
+  }
+
+  private _handleMessage(message: WorkerMessage): void {
+    switch (message.type) {
+      case 'output': {
+        (message.fd === 1 ? this._options.stdout : this._options.stderr)(message.data);
+        break;
+      }
+      case 'exit': {
+        this._finish(message.code);
+        break;
+      }
+      case 'call': {
+        this._callFilesystem(message.id, message.method, message.args);
+        break;
+      }
+      case 'sync': {
+        this._handleSyncCall(message);
+        break;
+      }
+      case 'close': {
+        const server = this._servers.get(message.port);
+
+        if (server) {
+          this._servers.delete(message.port);
+          unregisterServer(message.port, server);
+        }
+
+        break;
+      }
+      case 'response': {
+        const request = this._requests.get(message.id);
+
+        this._requests.delete(message.id);
+
+        if (message.error) {
+          request?.reject(deserializeError(message.error));
+        } else if (message.response) {
+          request?.resolve(message.response);
+        }
+
+        break;
+      }
+      case 'ipc:send': {
+        this._options.ipc?.send(message.message);
+        break;
+      }
+      case 'ipc:disconnect': {
+        this._options.ipc?.disconnect();
+        break;
+      }
+      case 'child:spawn': {
+        this._spawnChild(message.child, message.options);
+        break;
+      }
+      case 'child:kill': {
+        this._children.get(message.child)?.controller.abort();
+        break;
+      }
+      case 'child:message': {
+        this._children.get(message.child)?.ipc?.send(message.message);
+        break;
+      }
+      case 'child:disconnect': {
+        this._children.get(message.child)?.ipc?.disconnect();
+        break;
+      }
+    }
+  }
+
+  private _callFilesystem(id: number, method: string, args: unknown[]): void {
+    // Only whitelisted methods, the worker runs untrusted program code
+    if (!(FILESYSTEM_METHODS as readonly string[]).includes(method)) {
+      this._post({ type: 'reply', id, error: { name: 'Error', message: `Unknown filesystem method: ${method}` } });
+      return;
+    }
+
+    const fs = this._options.fs as unknown as Record<string, (...params: unknown[]) => Promise<unknown>>;
+
+    Promise.resolve()
+      .then(() => fs[method](...args))
+      .then(
+        (result) => this._post({ type: 'reply', id, result }),
+        (error) => this._post({ type: 'reply', id, error: serializeError(error) }),
+      );
+  }
+
+  private _handleSyncCall(call: SyncCall): void {
+    switch (call.method) {
+      case 'listen': {
+        try {
+          let port = call.port;
+          const server = this._createServerProxy(() => port);
+
+          port = registerServer(call.port, server);
+          this._servers.set(port, server);
+          this._responder.respond({ result: port });
+        } catch (error) {
+          this._responder.respond({ error: serializeError(error) });
+        }
+
+        break;
+      }
+      case 'exec': {
+        this._exec(call.options).then(
+          (result) => this._responder.respond({ result }),
+          (error) => this._responder.respond({ error: serializeError(error) }),
+        );
+        break;
+      }
+      case 'continue': {
+        this._responder.continue();
+        break;
+      }
+    }
+  }
+
+  /**
+   * Server registered on the page, its requests are handled in the worker
+   */
+  private _createServerProxy(port: () => number): RegisteredServer {
+    return {
+      handleRequest: (request) =>
+        new Promise((resolve, reject) => {
+          const id = this._nextRequestId++;
+
+          this._requests.set(id, { resolve, reject });
+          this._post({ type: 'request', id, port: port(), request });
+        }),
+    };
+  }
+
+  /**
+   * Run a command to completion for execSync() and spawnSync()
+   */
+  private async _exec(options: SyncProcessLaunchOptions): Promise<SyncProcessResult> {
+    const launcher = getProcessLauncher();
+
+    if (!launcher) {
+      throw Object.assign(new Error(`spawnSync ${options.command} ENOENT`), { code: 'ENOENT' });
+    }
+
+    const controller = new AbortController();
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    const timer = options.timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, options.timeout)
+      : null;
+
+    this._execs.add(controller);
+
+    try {
+      const status = await launcher({
+        command: options.command,
+        cwd: options.cwd,
+        env: options.env,
+        stdin: options.stdin,
+        stdout: (data) => {
+          stdout += data;
+        },
+        stderr: (data) => {
+          stderr += data;
+        },
+        signal: controller.signal,
+      });
+
+      return { status: timedOut ? null : status, stdout, stderr };
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+
+      this._execs.delete(controller);
+    }
+  }
+
+  /**
+   * Run a child of the program through the shell, like every spawned process
+   */
+  private _spawnChild(id: number, options: WorkerSpawnOptions): void {
+    const launcher = getProcessLauncher();
+
+    if (!launcher) {
+      this._post({ type: 'child:output', child: id, fd: 2, data: `spawn ${options.command} ENOENT\n` });
+      this._post({ type: 'child:exit', child: id, code: 127 });
+
+      return;
+    }
+
+    const controller = new AbortController();
+    let ipc: IpcEndpoint | undefined;
+    let childIpc: IpcEndpoint | undefined;
+
+    if (options.ipc) {
+      [ipc, childIpc] = createIpcChannel();
+      ipc.onMessage((message) => this._post({ type: 'child:message', child: id, message }));
+      ipc.onDisconnect(() => this._post({ type: 'child:disconnect', child: id }));
+    }
+
+    this._children.set(id, { controller, ipc });
+
+    launcher({
+      command: options.command,
+      cwd: options.cwd,
+      env: options.env,
+      stdin: options.stdin,
+      stdout: (data) => this._post({ type: 'child:output', child: id, fd: 1, data }),
+      stderr: (data) => this._post({ type: 'child:output', child: id, fd: 2, data }),
+      signal: controller.signal,
+      ipc: childIpc,
+    })
+      .catch((error) => {
+        logger.error(`Child process failed: ${options.command}`, error);
+        return 1;
+      })
+      .then((code) => {
+        this._children.delete(id);
+        this._post({ type: 'child:exit', child: id, code });
+      });
+  }
+
+  /**
+   * Ask the process to exit, terminate its worker if it does not
+   */
+  private _kill(): void {
+    this._post({ type: 'kill' });
+    this._killTimer = setTimeout(() => this._finish(SIGNAL_EXIT_CODE), KILL_GRACE_MS);
+  }
+
+  private _finish(code: number): void {
+    if (this._finished) {
+      return;
+    }
+
+    this._finished = true;
+
+    if (this._killTimer) {
+      clearTimeout(this._killTimer);
+    }
+
+    this._worker.terminate();
+
+    for (const [port, server] of this._servers) {
+      unregisterServer(port, server);
+    }
+
+    for (const request of this._requests.values()) {
+      request.reject(new Error('The server process exited'));
+    }
+
+    for (const { controller } of this._children.values()) {
+      controller.abort();
+    }
+
+    for (const controller of this._execs) {
+      controller.abort();
+    }
+
+    this._servers.clear();
+    this._requests.clear();
+    this._children.clear();
+    this._resolveExit(code);
+  }
+}
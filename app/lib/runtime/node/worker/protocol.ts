@@ -0,0 +1,126 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Node Worker Protocol
+ * =============================================================================
+ * Messages exchanged between the page (host) and the worker running a node
+ * process. The filesystem, the shell and the server registry stay on the page:
+ * the worker reaches them with asynchronous calls, or with blocking calls over
+ * a shared buffer when Node.js APIs are synchronous (listen, execSync).
+ * =============================================================================
+ */
+
+import type { ServerRequest, ServerResponseData } from '../server-registry';
+import type { SyncProcessLaunchOptions } from '../process-launcher';
+
+/**
+ * MountManager methods the worker may call
+ */
+export const FILESYSTEM_METHODS = [
+  'readFile',
+  'readTextFile',
+  'writeFile',
+  'writeTextFile',
+  'unlink',
+  'mkdir',
+  'rmdir',
+  'readdir',
+  'readdirWithTypes',
+  'stat',
+  'exists',
+  'rename',
+  'copyFile',
+] as const;
+
+export type FilesystemMethod = (typeof FILESYSTEM_METHODS)[number];
+
+/**
+ * Error crossing the thread boundary (structured clone drops `code`)
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  code?: string;
+}
+
+/**
+ * Process to run, the serializable part of NodeProcessOptions
+ */
+export interface WorkerRunOptions {
+  filename?: string;
+  eval?: string;
+  args?: string[];
+  cwd: string;
+  env?: Record<string, string | undefined>;
+  stdin?: string;
+
+  /** The process has an IPC channel to its parent (fork) */
+  ipc: boolean;
+}
+
+/**
+ * Child process started by the program, run by the shell of the page
+ */
+export interface WorkerSpawnOptions {
+  command: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  stdin?: string;
+  ipc: boolean;
+}
+
+/**
+ * Blocking calls, answered through the shared buffer
+ */
+export type SyncCall =
+  | { method: 'listen'; port: number }
+  | { method: 'exec'; options: SyncProcessLaunchOptions }
+
+  /** Next chunk of a response larger than the shared buffer */
+  | { method: 'continue' };
+
+export type HostMessage =
+  | { type: 'run'; options: WorkerRunOptions; syncBuffer: SharedArrayBuffer }
+  | { type: 'kill' }
+  | { type: 'reply'; id: number; result?: unknown; error?: SerializedError }
+  | { type: 'request'; id: number; port: number; request: ServerRequest }
+  | { type: 'ipc:message'; message: unknown }
+  | { type: 'ipc:disconnect' }
+  | { type: 'child:output'; child: number; fd: 1 | 2; data: string }
+  | { type: 'child:exit'; child: number; code: number }
+  | { type: 'child:message'; child: number; message: unknown }
+  | { type: 'child:disconnect'; child: number };
+
+export type WorkerMessage =
+  | { type: 'output'; fd: 1 | 2; data: string }
+  | { type: 'exit'; code: number }
+  | { type: 'call'; id: number; method: FilesystemMethod; args: unknown[] }
+  | ({ type: 'sync' } & SyncCall)
+  | { type: 'close'; port: number }
+  | { type: 'response'; id: number; response?: ServerResponseData; error?: SerializedError }
+  | { type: 'ipc:send'; message: unknown }
+  | { type: 'ipc:disconnect' }
+  | { type: 'child:spawn'; child: number; options: WorkerSpawnOptions }
+  | { type: 'child:kill'; child: number }
+  | { type: 'child:message'; child: number; message: unknown }
+  | { type: 'child:disconnect'; child: number };
+
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof Error) {
+    const { code } = error as Error & { code?: unknown };
+    return { name: error.name, message: error.message, code: typeof code === 'string' ? code : undefined };
+  }
+
+  return { name: 'Error', message: String(error) };
+}
+
+export function deserializeError(serialized: SerializedError): Error {
+  const error = new Error(serialized.message) as Error & { code?: string };
+
+  error.name = serialized.name;
+
+  if (serialized.code) {
+    error.code = serialized.code;
+  }
+
+  return error;
+}
@@ -0,0 +1,137 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Sync Channel
+ * =============================================================================
+ * Blocking calls from a worker to the page. The worker posts the call and
+ * waits on a SharedArrayBuffer with Atomics.wait(); the page answers
+ * asynchronously by writing a JSON response into the buffer and notifying it.
+ * Responses larger than the buffer are read in chunks.
+ *
+ * Buffer layout: state, total length and chunk length (Int32), then the data.
+ * =============================================================================
+ */
+
+import { deserializeError, type SerializedError, type SyncCall } from './protocol';
+
+/**
+ * Size of the shared buffer (responses above are chunked)
+ */
+export const SYNC_BUFFER_SIZE = 1024 * 1024;
+
+const HEADER_BYTES = 12;
+const STATE = 0;
+const TOTAL_LENGTH = 1;
+const CHUNK_LENGTH = 2;
+
+const PENDING = 1;
+const READY = 2;
+
+interface SyncResponse {
+  result?: unknown;
+  error?: SerializedError;
+}
+
+/**
+ * Worker side: make a call and block until the page answered
+ */
+export class SyncCaller {
+  private _header: Int32Array;
+  private _data: Uint8Array;
+  private _post: (call: SyncCall) => void;
+
+  constructor(buffer: SharedArrayBuffer, post: (call: SyncCall) => void) {
+    this._header = new Int32Array(buffer, 0, HEADER_BYTES / 4);
+    this._data = new Uint8Array(buffer, HEADER_BYTES);
+    this._post = post;
+  }
+
+  call(call: SyncCall): unknown {
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    let total: number;
+
+    this._request(call);
+
+    do {
+      const length = this._header[CHUNK_LENGTH];
+
+      // slice() copies out of the shared memory, TextDecoder rejects shared views
+      chunks.push(this._data.slice(0, length));
+      received += length;
+      total = this._header[TOTAL_LENGTH];
+
+      if (received < total) {
+        this._request({ method: 'continue' });
+      }
+    } while (received < total);
+
+    const bytes = new Uint8Array(received);
+    let offset = 0;
+
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    const response = JSON.parse(new TextDecoder().decode(bytes)) as SyncResponse;
+
+    if (response.error) {
+      throw deserializeError(response.error);
+    }
+
+    return response.result;
+  }
+
+  private _request(call: SyncCall): void {
+    Atomics.store(this._header, STATE, PENDING);
+    this._post(call);
+    Atomics.wait(this._header, STATE, PENDING);
+  }
+}
+
+/**
+ * Page side: write the answers of the worker's blocking calls
+ */
+export class SyncResponder {
+  private _header: Int32Array;
+  private _data: Uint8Array;
+  private _pending: Uint8Array | null = null;
+  private _offset = 0;
+
+  constructor(buffer: SharedArrayBuffer) {
+    this._header = new Int32Array(buffer, 0, HEADER_BYTES / 4);
+    this._data = new Uint8Array(buffer, HEADER_BYTES);
+  }
+
+  respond(response: SyncResponse): void {
+    this._pending = new TextEncoder().encode(JSON.stringify(response));
+    this._offset = 0;
+    this._writeChunk();
+  }
+
+  /**
+   * Answer a `continue` call with the next chunk
+   */
+  continue(): void {
+    if (this._pending) {
+      this._writeChunk();
+    }
+  }
+
+  private _writeChunk(): void {
+    const pending = this._pending!;
+    const chunk = pending.subarray(this._offset, this._offset + this._data.length);
+
+    this._data.set(chunk);
+    this._offset += chunk.length;
+    this._header[TOTAL_LENGTH] = pending.length;
+    this._header[CHUNK_LENGTH] = chunk.length;
+
+    if (this._offset >= pending.length) {
+      this._pending = null;
+    }
+
+    Atomics.store(this._header, STATE, READY);
+    Atomics.notify(this._header, STATE);
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Node Worker Runtime
+ * =============================================================================
+ * Runs one node process inside a worker. The fs module, child_process and the
+ * server registry of the worker are wired to the page: filesystem calls and
+ * spawned children go through messages, listen() and the synchronous
+ * child_process functions block on the sync channel.
+ * =============================================================================
+ */
+
+import type { MountManager } from '../../filesystem';
+import { setFilesystem } from '../core-modules/fs';
+import { runNodeProcess, type ProcessActivity } from '../process-runner';
+import {
+  createIpcChannel,
+  setProcessLauncher,
+  setSyncProcessLauncher,
+  type IpcEndpoint,
+  type ProcessLauncher,
+  type SyncProcessResult,
+} from '../process-launcher';
+import { setServerRegistryBridge, type RegisteredServer } from '../server-registry';
+import { SyncCaller } from './sync-channel';
+import {
+  FILESYSTEM_METHODS,
+  deserializeError,
+  serializeError,
+  type FilesystemMethod,
+  type HostMessage,
+  type WorkerMessage,
+  type WorkerRunOptions,
+} from './protocol';
+
+/**
+ * The worker global scope, as far as the runtime uses it
+ */
+export interface WorkerScope {
+  postMessage(message: WorkerMessage): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<HostMessage>) => void): void;
+}
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface Child {
+  resolve: (code: number) => void;
+  stdout: (data: string) => void;
+  stderr: (data: string) => void;
+
+  /** Program side of the child's IPC channel */
+  ipc?: IpcEndpoint;
+}
+
+/**
+ * Wait for the process to run and run it
+ */
+export function startNodeWorker(scope: WorkerScope): void {
+  const post = (message: WorkerMessage) => scope.postMessage(message);
+  const calls = new Map<number, PendingCall>();
+  const children = new Map<number, Child>();
+  const servers = new Map<number, RegisteredServer>();
+  const controller = new AbortController();
+
+  // Parent end (standing for the page) and program end of the fork IPC channel
+  let ipc: [IpcEndpoint, IpcEndpoint] | null = null;
+  let nextId = 1;
+
+  scope.addEventListener('message', ({ data: message }) => {
+    switch (message.type) {
+      case 'run': {
+        const sync = new SyncCaller(message.syncBuffer, (call) => post({ type: 'sync', ...call }));
+
+        run(message.options, sync);
+        break;
+      }
+      case 'kill': {
+        controller.abort();
+        break;
+      }
+      case 'reply': {
+        const call = calls.get(message.id);
+
+        calls.delete(message.id);
+
+        if (message.error) {
+          call?.reject(deserializeError(message.error));
+        } else {
+          call?.resolve(message.result);
+        }
+
+        settleListeners.forEach((listener) => listener());
+
+        break;
+      }
+      case 'request': {
+        handleRequest(message.id, message.port, message.request);
+        break;
+      }
+      case 'ipc:message': {
+        ipc?.[0].send(message.message);
+        break;
+      }
+      case 'ipc:disconnect': {
+        ipc?.[0].disconnect();
+        break;
+      }
+      case 'child:output': {
+        const child = children.get(message.child);
+        (message.fd === 1 ? child?.stdout : child?.stderr)?.(message.data);
+        break;
+      }
+      case 'child:exit': {
+        children.get(message.child)?.resolve(message.code);
+        children.delete(message.child);
+        break;
+      }
+      case 'child:message': {
+        children.get(message.child)?.ipc?.send(message.message);
+        break;
+      }
+      case 'child:disconnect': {
+        children.get(message.child)?.ipc?.disconnect();
+        break;
+      }
+    }
+  });
+
+  const settleListeners: Array<() => void> = [];
+
+  // Filesystem calls in flight keep the process alive until they settle
+  const activity: ProcessActivity = {
+    get pending() {
+      return calls.size;
+    },
+    onSettle: (listener) => settleListeners.push(listener),
+  };
+
+  const call = (method: FilesystemMethod, args: unknown[]) =>
+    new Promise<unknown>((resolve, reject) => {
+      const id = nextId++;
+
+      calls.set(id, { resolve, reject });
+      post({ type: 'call', id, method, args });
+    });
+
+  const handleRequest = (id: number, port: number, request: Parameters<RegisteredServer['handleRequest']>[0]) => {
+    const server = servers.get(port);
+
+    if (!server) {
+      post({ type: 'response', id, error: { name: 'Error', message: `No server listening on port ${port}` } });
+      return;
+    }
+
+    server.handleRequest(request).then(
+      (response) => post({ type: 'response', id, response }),
+      (error) => post({ type: 'response', id, error: serializeError(error) }),
+    );
+  };
+
+  // Children of the program run on the page, like every shell command
+  const launcher: ProcessLauncher = (options) =>
+    new Promise((resolve) => {
+      const id = nextId++;
+
+      children.set(id, { resolve, stdout: options.stdout, stderr: options.stderr, ipc: options.ipc });
+
+      options.signal.addEventListener('abort', () => post({ type: 'child:kill', child: id }), { once: true });
+      options.ipc?.onMessage((message) => post({ type: 'child:message', child: id, message }));
+      options.ipc?.onDisconnect(() => post({ type: 'child:disconnect', child: id }));
+
+      post({
+        type: 'child:spawn',
+        child: id,
+        options: {
+          command: options.command,
+          cwd: options.cwd,
+          env: options.env,
+          stdin: options.stdin,
+          ipc: options.ipc !== undefined,
+        },
+      });
+    });
+
+  const run = (options: WorkerRunOptions, sync: SyncCaller) => {
+    const filesystem = Object.fromEntries(
+      FILESYSTEM_METHODS.map((method) => [method, (...args: unknown[]) => call(method, args)]),
+    );
+
+    // Only the methods the fs module and the preloader use are forwarded
+    setFilesystem(filesystem as unknown as MountManager);
+
+    setServerRegistryBridge({
+      register: (port, server) => {
+        const assigned = sync.call({ method: 'listen', port }) as number;
+
+        servers.set(assigned, server);
+
+        return assigned;
+      },
+      unregister: (port, server) => {
+        if (servers.get(port) === server) {
+          servers.delete(port);
+          post({ type: 'close', port });
+        }
+      },
+    });
+
+    setProcessLauncher(launcher);
+    setSyncProcessLauncher(
+      (launchOptions) => sync.call({ method: 'exec', options: launchOptions }) as SyncProcessResult,
+    );
+
+    if (options.ipc) {
+      ipc = createIpcChannel();
+      ipc[0].onMessage((message) => post({ type: 'ipc:send', message }));
+      ipc[0].onDisconnect(() => post({ type: 'ipc:disconnect' }));
+    }
+
+    runNodeProcess({
+      ...options,
+      fs: filesystem as unknown as MountManager,
+      stdout: (data) => post({ type: 'output', fd: 1, data }),
+      stderr: (data) => post({ type: 'output', fd: 2, data }),
+      signal: controller.signal,
+      ipc: ipc?.[1],
+      activity,
+    }).then((code) => post({ type: 'exit', code }));
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * Tests for npm outdated, update and audit
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MountManager } from '../../filesystem/mount-manager';
+import { MemoryBackend } from '../../filesystem/backends/memory-backend';
+import { BaviniPM } from '../bavini-pm';
+import { RegistryClient } from '../registry/registry-client';
+import { auditPackages, hasFindingsAtLevel, parseAdvisories } from '../audit/audit';
+import type { FlatDependency, PackageMetadata } from '../types';
+
+const REGISTRY: Record<string, { latest: string; versions: string[] }> = {
+  lodash: { latest: '4.17.21', versions: ['4.17.15', '4.17.20', '4.17.21'] },
+  react: { latest: '19.0.0', versions: ['18.2.0', '18.3.1', '19.0.0'] },
+  ms: { latest: '2.1.3', versions: ['2.1.2', '2.1.3'] },
+};
+
+const BULK_ADVISORIES = {
+  lodash: [
+    {
+      id: 1523,
+      title: 'Prototype Pollution in lodash',
+      severity: 'high',
+      vulnerable_versions: '<4.17.19',
+      url: 'https://github.com/advisories/GHSA-p6mc-m468-83gw',
+      cwe: ['CWE-400'],
+    },
+    { id: 1673, title: 'Command Injection in lodash', severity: 'critical', vulnerable_versions: '<4.17.21' },
+  ],
+  ms: [{ id: 46, title: 'Regular Expression Denial of Service', severity: 'moderate', vulnerable_versions: '<2.0.0' }],
+};
+
+describe('audit', () => {
+  describe('parseAdvisories', () => {
+    it('should read the bulk advisory format', () => {
+      const advisories = parseAdvisories(JSON.stringify(BULK_ADVISORIES));
+
+      expect(advisories).toHaveLength(3);
+      expect(advisories[0]).toEqual({
+        id: '1523',
+        name: 'lodash',
+        title: 'Prototype Pollution in lodash',
+        severity: 'high',
+        vulnerableVersions: '<4.17.19',
+        url: 'https://github.com/advisories/GHSA-p6mc-m468-83gw',
+        cwe: ['CWE-400'],
+      });
+    });
+
+    it('should read npm audit v6 reports and advisory arrays', () => {
+      const report = { advisories: { '46': { module_name: 'ms', vulnerable_versions: '<2.0.0', severity: 'low' } } };
+      const list = [{ name: 'ms', vulnerableVersions: '>=1.0.0 <2.0.0', severity: 'unknown' }];
+
+      expect(parseAdvisories(JSON.stringify(report))[0]).toMatchObject({ id: '46', name: 'ms', severity: 'low' });
+      expect(parseAdvisories(JSON.stringify(list))[0]).toMatchObject({
+        id: 'ms@>=1.0.0 <2.0.0',
+        severity: 'moderate',
+      });
+    });
+
+    it('should reject invalid datasets', () => {
+      expect(() => parseAdvisories('{')).toThrow('Invalid advisory JSON');
+      expect(() => parseAdvisories(JSON.stringify({ ms: {} }))).toThrow('must be an array');
+      expect(() => parseAdvisories(JSON.stringify([{ name: 'ms' }]))).toThrow('vulnerable_versions');
+    });
+  });
+
+  describe('auditPackages', () => {
+    const advisories = parseAdvisories(JSON.stringify(BULK_ADVISORIES));
+    const installed = [
+      { name: 'lodash', version: '4.17.15', path: 'node_modules/lodash' },
+      { name: 'lodash', version: '4.17.15', path: 'node_modules/a/node_modules/lodash' },
+      { name: 'ms', version: '2.1.3', path: 'node_modules/ms' },
+    ];
+
+    it('should group copies of a vulnerable version and sort by severity', () => {
+      const report = auditPackages(installed, advisories, { direct: new Set(['node_modules/lodash']) });
+
+      expect(report.scanned).toBe(3);
+      expect(report.findings.map((finding) => [finding.advisory.id, finding.paths.length, finding.direct])).toEqual([
+        ['1673', 2, true],
+        ['1523', 2, true],
+      ]);
+      expect(report.summary).toEqual({ info: 0, low: 0, moderate: 0, high: 1, critical: 1 });
+      expect(hasFindingsAtLevel(report, 'critical')).toBe(true);
+    });
+
+    it('should skip advisories below the audit level', () => {
+      const report = auditPackages(installed, advisories, { auditLevel: 'critical' });
+
+      expect(report.findings.map((finding) => finding.advisory.id)).toEqual(['1673']);
+      expect(hasFindingsAtLevel(auditPackages([installed[2]], advisories), 'info')).toBe(false);
+    });
+  });
+
+  describe('BaviniPM', () => {
+    let fs: MountManager;
+
+    const writeJson = (path: string, data: unknown) => fs.writeTextFile(path, JSON.stringify(data));
+    const installVersion = (name: string, version: string, base = '/home/project') =>
+      fs
+        .mkdir(`${base}/node_modules/${name}`, { recursive: true })
+        .then(() => writeJson(`${base}/node_modules/${name}/package.json`, { name, version }));
+
+    beforeEach(async () => {
+      fs = new MountManager();
+      await fs.init({ mounts: [{ path: '/', backend: new MemoryBackend() }] });
+      await fs.mkdir('/home/project', { recursive: true });
+      await writeJson('/home/project/package.json', {
+        name: 'app',
+        version: '1.0.0',
+        dependencies: { lodash: '^4.17.0', react: '^18.2.0' },
+        devDependencies: { ms: '~2.1.0', local: 'file:../local' },
+      });
+      await installVersion('lodash', '4.17.15');
+      await installVersion('react', '18.3.1');
+      await installVersion('ms', '2.1.3');
+      await installVersion('ms', '1.0.0', '/home/project/node_modules/lodash');
+
+      vi.spyOn(RegistryClient.prototype, 'getPackageMetadata').mockImplementation(async (name: string) => {
+        const entry = REGISTRY[name];
+
+        return {
+          name,
+          'dist-tags': { latest: entry.latest },
+          versions: Object.fromEntries(
+            entry.versions.map((version) => [
+              version,
+              { name, version, dist: { tarball: `https://registry.test/${name}-${version}.tgz`, shasum: '' } },
+            ]),
+          ),
+        } as PackageMetadata;
+      });
+    });
+
+    afterEach(async () => {
+      vi.restoreAllMocks();
+      await fs.destroy();
+    });
+
+    it('should list outdated dependencies with wanted and latest versions', async () => {
+      const pm = new BaviniPM({ filesystem: fs, cacheEnabled: false });
+
+      expect(await pm.outdated()).toEqual([
+        {
+          name: 'lodash',
+          current: '4.17.15',
+          wanted: '4.17.21',
+          latest: '4.17.21',
+          range: '^4.17.0',
+          type: 'dependencies',
+          dependent: '.',
+        },
+        {
+          name: 'react',
+          current: '18.3.1',
+          wanted: '18.3.1',
+          latest: '19.0.0',
+          range: '^18.2.0',
+          type: 'dependencies',
+          dependent: '.',
+        },
+      ]);
+    });
+
+    it('should update the selected packages and pin the others', async () => {
+      const installed: FlatDependency[] = [];
+      const pm = new BaviniPM({ filesystem: fs, cacheEnabled: false });
+
+      vi.spyOn(
+        BaviniPM.prototype as unknown as { _installPackage: (dep: FlatDependency) => Promise<void> },
+        '_installPackage',
+      ).mockImplementation(async (dep) => {
+        installed.push(dep);
+      });
+
+      const result = await pm.update(['lodash']);
+
+      expect(result.errors).toEqual([]);
+      expect(result.updated).toEqual([{ name: 'lodash', dependent: '.', from: '4.17.15', to: '4.17.21' }]);
+      expect(Object.fromEntries(installed.map((dep) => [dep.name, dep.version]))).toEqual({
+        lodash: '4.17.21',
+        react: '18.3.1',
+        ms: '2.1.3',
+      });
+
+      // package.json keeps its ranges, the lockfile records the new versions
+      const packageJson = JSON.parse(await fs.readTextFile('/home/project/package.json'));
+      const lockfile = JSON.parse(await fs.readTextFile('/home/project/package-lock.json'));
+
+      expect(packageJson.dependencies.lodash).toBe('^4.17.0');
+      expect(lockfile.packages['node_modules/lodash'].version).toBe('4.17.21');
+    });
+
+    it('should audit nested copies from the project advisory file', async () => {
+      await fs.mkdir('/home/project/.bavini', { recursive: true });
+      await writeJson('/home/project/.bavini/advisories.json', BULK_ADVISORIES);
+
+      const pm = new BaviniPM({ filesystem: fs, cacheEnabled: false });
+      const report = await pm.audit();
+
+      expect(report.scanned).toBe(4);
+      expect(report.findings.map((finding) => `${finding.advisory.name}@${finding.version}:${finding.paths}`)).toEqual([
+        'lodash@4.17.15:node_modules/lodash',
+        'lodash@4.17.15:node_modules/lodash',
+        'ms@1.0.0:node_modules/lodash/node_modules/ms',
+      ]);
+      expect(report.findings.map((finding) => finding.direct)).toEqual([true, true, false]);
+    });
+
+    it('should report a missing advisory file', async () => {
+      const pm = new BaviniPM({ filesystem: fs, cacheEnabled: false });
+
+      await expect(pm.audit()).rejects.toThrow('Advisory file not found: .bavini/advisories.json');
+      await expect(pm.audit({ advisories: [] })).resolves.toMatchObject({ findings: [], scanned: 4 });
+    });
+  });
+});
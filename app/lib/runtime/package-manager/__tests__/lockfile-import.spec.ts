@@ -0,0 +1,286 @@
+/**
+ * Tests for pnpm, yarn and npm lockfile import
+ */
+
+import { describe, it, expect } from 'vitest';
+import { importLockfile, importNpmLockfile } from '../lockfile/lockfile-import';
+import { importPnpmLockfile } from '../lockfile/pnpm-lockfile';
+import { importYarnLockfile } from '../lockfile/yarn-lockfile';
+import { formatLockfileDrift, getRegistryTarballUrl } from '../lockfile/lock-graph';
+import type { FlatDependency } from '../types';
+
+const versions = (flat: Map<string, FlatDependency>) =>
+  Object.fromEntries([...flat].map(([path, dep]) => [path, dep.version]));
+
+const PNPM_V9 = `lockfileVersion: '9.0'
+
+settings:
+  autoInstallPeers: true
+
+importers:
+
+  .:
+    dependencies:
+      react:
+        specifier: ^18.2.0
+        version: 18.2.0
+      react-dom:
+        specifier: ^18.2.0
+        version: 18.2.0(react@18.2.0)
+      strip-ansi-cjs:
+        specifier: npm:strip-ansi@^6.0.1
+        version: strip-ansi@6.0.1
+    devDependencies:
+      js-tokens:
+        specifier: ^3.0.0
+        version: 3.0.2
+
+packages:
+
+  js-tokens@3.0.2:
+    resolution: {integrity: sha512-js3}
+
+  js-tokens@4.0.0:
+    resolution: {integrity: sha512-js4}
+
+  loose-envify@1.4.0:
+    resolution: {integrity: sha512-le}
+    hasBin: true
+
+  react-dom@18.2.0:
+    resolution: {integrity: sha512-rd}
+    peerDependencies:
+      react: ^18.2.0
+
+  react@18.2.0:
+    resolution: {integrity: sha512-react}
+
+  strip-ansi@6.0.1:
+    resolution: {integrity: sha512-sa}
+
+  fsevents@2.3.3:
+    resolution: {integrity: sha512-fs}
+    os: [darwin]
+
+snapshots:
+
+  js-tokens@3.0.2: {}
+
+  js-tokens@4.0.0: {}
+
+  loose-envify@1.4.0:
+    dependencies:
+      js-tokens: 4.0.0
+
+  react-dom@18.2.0(react@18.2.0):
+    dependencies:
+      loose-envify: 1.4.0
+      react: 18.2.0
+
+  react@18.2.0:
+    dependencies:
+      loose-envify: 1.4.0
+    optionalDependencies:
+      fsevents: 2.3.3
+
+  strip-ansi@6.0.1: {}
+
+  fsevents@2.3.3:
+    optional: true
+`;
+
+const PNPM_V6 = `lockfileVersion: '6.0'
+
+dependencies:
+  lodash:
+    specifier: ^4.17.0
+    version: 4.17.21
+
+packages:
+
+  /lodash@4.17.21:
+    resolution: {integrity: sha512-lodash}
+    dev: false
+`;
+
+const PNPM_V5 = `lockfileVersion: 5.4
+
+specifiers:
+  '@scope/pkg': ^1.0.0
+
+dependencies:
+  '@scope/pkg': 1.2.0_react@18.2.0
+
+packages:
+
+  /@scope/pkg/1.2.0_react@18.2.0:
+    resolution: {integrity: sha512-scoped}
+    dev: false
+`;
+
+const YARN_CLASSIC = `# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+# yarn lockfile v1
+
+
+"@babel/code-frame@^7.0.0", "@babel/code-frame@^7.10.4":
+  version "7.12.13"
+  resolved "https://registry.yarnpkg.com/@babel/code-frame/-/code-frame-7.12.13.tgz#dcfc826b"
+  integrity sha512-code-frame
+  dependencies:
+    "@babel/highlight" "^7.10.4"
+
+"@babel/highlight@^7.10.4":
+  version "7.10.4"
+  resolved "https://registry.yarnpkg.com/@babel/highlight/-/highlight-7.10.4.tgz#7d1bdfd6"
+  integrity sha512-highlight
+  dependencies:
+    js-tokens "^4.0.0"
+
+js-tokens@^3.0.0:
+  version "3.0.2"
+  resolved "https://registry.yarnpkg.com/js-tokens/-/js-tokens-3.0.2.tgz#9866df39"
+
+"js-tokens@^4.0.0":
+  version "4.0.0"
+  resolved "https://registry.yarnpkg.com/js-tokens/-/js-tokens-4.0.0.tgz#19203fb5"
+  integrity sha512-js4
+`;
+
+const YARN_BERRY = `# This file is generated by running "yarn install" inside your project.
+
+__metadata:
+  version: 8
+  cacheKey: 10c0
+
+"app@workspace:.":
+  version: 0.0.0-use.local
+  resolution: "app@workspace:."
+  dependencies:
+    lodash: "npm:^4.17.0"
+  languageName: unknown
+  linkType: soft
+
+"lodash@npm:^4.17.0, lodash@npm:^4.17.20":
+  version: 4.17.21
+  resolution: "lodash@npm:4.17.21"
+  checksum: 10c0/d8cbea072bb08655bb4c989da418994b073a608dffa608b09ac04b43a791b12aeae7cd7ad919aa4c925f33b48490b5cfe6c1f71d827956071dae2e7bb3a6b74c
+  languageName: node
+  linkType: hard
+`;
+
+describe('lockfile import', () => {
+  describe('pnpm', () => {
+    it('should lay out a v9 lockfile with hoisting, aliases and nested conflicts', () => {
+      const locked = importPnpmLockfile(PNPM_V9);
+
+      expect(versions(locked.flat)).toEqual({
+        'node_modules/react': '18.2.0',
+        'node_modules/loose-envify': '1.4.0',
+        'node_modules/js-tokens': '3.0.2',
+        'node_modules/loose-envify/node_modules/js-tokens': '4.0.0',
+        'node_modules/react-dom': '18.2.0',
+        'node_modules/strip-ansi-cjs': '6.0.1',
+      });
+      expect(locked.flat.get('node_modules/react')).toMatchObject({
+        integrity: 'sha512-react',
+        resolved: 'https://registry.npmjs.org/react/-/react-18.2.0.tgz',
+      });
+      expect(locked.flat.get('node_modules/strip-ansi-cjs')?.resolved).toBe(
+        'https://registry.npmjs.org/strip-ansi/-/strip-ansi-6.0.1.tgz',
+      );
+    });
+
+    it('should read v6 and v5 lockfiles', () => {
+      expect(versions(importPnpmLockfile(PNPM_V6).flat)).toEqual({ 'node_modules/lodash': '4.17.21' });
+
+      const v5 = importPnpmLockfile(PNPM_V5, { '.': { '@scope/pkg': '^1.0.0' } });
+
+      expect(v5.flat.get('node_modules/@scope/pkg')).toMatchObject({
+        version: '1.2.0',
+        resolved: 'https://registry.npmjs.org/@scope/pkg/-/pkg-1.2.0.tgz',
+      });
+      expect(v5.drift).toEqual([]);
+    });
+
+    it('should report drift against package.json', () => {
+      const locked = importPnpmLockfile(PNPM_V6, {
+        '.': { lodash: '^4.18.0', zod: '^3.0.0' },
+      });
+
+      expect(locked.drift).toEqual([
+        { importer: '.', name: 'lodash', kind: 'changed', range: '^4.18.0', locked: '^4.17.0' },
+        { importer: '.', name: 'zod', kind: 'missing', range: '^3.0.0' },
+      ]);
+
+      const extraneous = importPnpmLockfile(PNPM_V6, { '.': {} });
+
+      expect(extraneous.drift.map(formatLockfileDrift)).toEqual([
+        'lodash@^4.17.0 is in the lockfile but not in package.json',
+      ]);
+    });
+
+    it('should reject files without a lockfile version', () => {
+      expect(() => importPnpmLockfile('packages: {}')).toThrow('missing lockfileVersion');
+    });
+  });
+
+  describe('yarn', () => {
+    it('should import a classic lockfile from the package.json ranges', () => {
+      const locked = importYarnLockfile(YARN_CLASSIC, {
+        '.': { '@babel/code-frame': '^7.0.0', 'js-tokens': '^3.0.0' },
+      });
+
+      expect(versions(locked.flat)).toEqual({
+        'node_modules/@babel/code-frame': '7.12.13',
+        'node_modules/@babel/highlight': '7.10.4',
+        'node_modules/@babel/highlight/node_modules/js-tokens': '4.0.0',
+        'node_modules/js-tokens': '3.0.2',
+      });
+      expect(locked.flat.get('node_modules/@babel/code-frame')).toMatchObject({
+        resolved: 'https://registry.yarnpkg.com/@babel/code-frame/-/code-frame-7.12.13.tgz',
+        integrity: 'sha512-code-frame',
+      });
+      expect(locked.drift).toEqual([]);
+    });
+
+    it('should report ranges missing from the lockfile', () => {
+      const locked = importYarnLockfile(YARN_CLASSIC, { '.': { 'js-tokens': '^5.0.0' } });
+
+      expect(locked.drift).toEqual([{ importer: '.', name: 'js-tokens', kind: 'missing', range: '^5.0.0' }]);
+    });
+
+    it('should import a berry lockfile and skip workspace entries', () => {
+      const locked = importYarnLockfile(YARN_BERRY, { '.': { lodash: '^4.17.0' } });
+
+      expect(versions(locked.flat)).toEqual({ 'node_modules/lodash': '4.17.21' });
+      expect(locked.flat.get('node_modules/lodash')?.resolved).toBe(getRegistryTarballUrl('lodash', '4.17.21'));
+      expect(locked.drift).toEqual([]);
+    });
+  });
+
+  describe('npm', () => {
+    const content = JSON.stringify({
+      name: 'app',
+      version: '1.0.0',
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app', version: '1.0.0', dependencies: { lodash: '^4.17.0' } },
+        'node_modules/lodash': { version: '4.17.21', resolved: 'https://registry.npmjs.org/lodash.tgz' },
+        'node_modules/ms': { version: '2.1.3', resolved: 'https://registry.npmjs.org/ms.tgz' },
+      },
+    });
+
+    it('should compare root specifiers and locked versions with package.json', () => {
+      expect(importNpmLockfile(content, { '.': { lodash: '^4.17.0' } }).drift).toEqual([]);
+      expect(importNpmLockfile(content, { '.': { lodash: '^4.17.0', ms: '^3.0.0' } }).drift).toEqual([
+        { importer: '.', name: 'ms', kind: 'changed', range: '^3.0.0', locked: '2.1.3' },
+      ]);
+    });
+
+    it('should dispatch on the lockfile format', () => {
+      expect(importLockfile('npm', content).format).toBe('npm');
+      expect(importLockfile('pnpm', PNPM_V6).format).toBe('pnpm');
+      expect(importLockfile('yarn', YARN_CLASSIC).format).toBe('yarn');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for the package.json script runner
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  runPackageScript,
+  buildScriptEnv,
+  buildScriptPath,
+  getLifecycleSequence,
+  quoteScriptArgs,
+} from '../scripts/script-runner';
+import { PMError, type PackageJson, type ScriptCommandExecutor } from '../types';
+
+const packageJson: PackageJson = {
+  name: 'my-app',
+  version: '1.2.3',
+  config: { port: 8080 },
+  engines: { node: '>=18' },
+  scripts: {
+    prebuild: 'rm -rf dist',
+    build: 'tsc',
+    postbuild: 'echo done',
+    test: 'vitest',
+  },
+};
+
+describe('script-runner', () => {
+  describe('getLifecycleSequence', () => {
+    it('should include pre and post hooks when defined', () => {
+      expect(getLifecycleSequence(packageJson.scripts!, 'build')).toEqual(['prebuild', 'build', 'postbuild']);
+    });
+
+    it('should only include the script without hooks', () => {
+      expect(getLifecycleSequence(packageJson.scripts!, 'test')).toEqual(['test']);
+    });
+
+    it('should skip hooks when ignoring scripts', () => {
+      expect(getLifecycleSequence(packageJson.scripts!, 'build', true)).toEqual(['build']);
+    });
+  });
+
+  describe('quoteScriptArgs', () => {
+    it('should leave simple arguments untouched', () => {
+      expect(quoteScriptArgs(['--watch', 'src/index.ts'])).toBe('--watch src/index.ts');
+    });
+
+    it('should quote arguments with spaces and quotes', () => {
+      expect(quoteScriptArgs(['hello world', "it's"])).toBe(`'hello world' 'it'\\''s'`);
+    });
+  });
+
+  describe('buildScriptPath', () => {
+    it('should list node_modules/.bin from the root upwards before the inherited PATH', () => {
+      expect(buildScriptPath('/home/project', '/usr/bin')).toBe(
+        '/home/project/node_modules/.bin:/home/node_modules/.bin:/node_modules/.bin:/usr/bin',
+      );
+    });
+  });
+
+  describe('buildScriptEnv', () => {
+    it('should expose npm_package and lifecycle variables', () => {
+      const env = buildScriptEnv(packageJson, {
+        projectRoot: '/home/project',
+        scriptName: 'build',
+        script: 'tsc',
+        baseEnv: { HOME: '/home', PATH: '/usr/bin', UNSET: undefined },
+      });
+
+      expect(env.npm_package_name).toBe('my-app');
+      expect(env.npm_package_version).toBe('1.2.3');
+      expect(env.npm_package_config_port).toBe('8080');
+      expect(env.npm_package_engines_node).toBe('>=18');
+      expect(env.npm_package_json).toBe('/home/project/package.json');
+      expect(env.npm_lifecycle_event).toBe('build');
+      expect(env.npm_lifecycle_script).toBe('tsc');
+      expect(env.HOME).toBe('/home');
+      expect(env.PATH.startsWith('/home/project/node_modules/.bin:')).toBe(true);
+      expect('UNSET' in env).toBe(false);
+    });
+  });
+
+  describe('runPackageScript', () => {
+    it('should run hooks in order and pass extra args to the main script only', async () => {
+      const executor = vi.fn<ScriptCommandExecutor>(async () => 0);
+
+      const result = await runPackageScript(packageJson, 'build', ['--pretty'], {
+        projectRoot: '/home/project',
+        executor,
+        silent: true,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(executor.mock.calls.map(([command]) => command)).toEqual(['rm -rf dist', 'tsc --pretty', 'echo done']);
+      expect(executor.mock.calls[1][1].env.npm_lifecycle_event).toBe('build');
+      expect(executor.mock.calls[1][1].cwd).toBe('/home/project');
+    });
+
+    it('should stop at the first failing step and return its exit code', async () => {
+      const executor: ScriptCommandExecutor = vi.fn(async (command) => (command === 'tsc' ? 2 : 0));
+
+      const result = await runPackageScript(packageJson, 'build', [], {
+        projectRoot: '/home/project',
+        executor,
+        silent: true,
+      });
+
+      expect(result.exitCode).toBe(2);
+      expect(executor).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stream and collect output with the npm banner', async () => {
+      const stdout = vi.fn();
+      const executor: ScriptCommandExecutor = async (_command, ctx) => {
+        ctx.stdout('compiled\n');
+        ctx.stderr('warning\n');
+
+        return 0;
+      };
+
+      const result = await runPackageScript(packageJson, 'test', [], {
+        projectRoot: '/home/project',
+        executor,
+        stdout,
+      });
+
+      expect(result.stdout).toContain('> my-app@1.2.3 test\n> vitest');
+      expect(result.stdout).toContain('compiled\n');
+      expect(result.stderr).toBe('warning\n');
+      expect(stdout).toHaveBeenCalledWith('compiled\n');
+    });
+
+    it('should not run anything once aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const executor: ScriptCommandExecutor = vi.fn(async () => 0);
+
+      const result = await runPackageScript(packageJson, 'test', [], {
+        projectRoot: '/home/project',
+        executor,
+        signal: controller.signal,
+      });
+
+      expect(result.exitCode).toBe(130);
+      expect(executor).not.toHaveBeenCalled();
+    });
+
+    it('should throw a SCRIPT_ERROR for missing scripts', async () => {
+      await expect(
+        runPackageScript(packageJson, 'lint', [], { projectRoot: '/home/project', executor: async () => 0 }),
+      ).rejects.toBeInstanceOf(PMError);
+    });
+  });
+});
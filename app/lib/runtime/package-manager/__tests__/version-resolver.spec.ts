@@ -261,6 +261,13 @@ describe('version-resolver', () => {
       expect(satisfies('2.0.0', '1.0.0 || 2.0.0')).toBe(true);
       expect(satisfies('1.5.0', '1.0.0 || 2.0.0')).toBe(false);
     });
+
+    it('should satisfy comparator sets', () => {
+      expect(satisfies('1.2.2', '>=1.0.0 <1.2.3')).toBe(true);
+      expect(satisfies('1.2.3', '>=1.0.0 <1.2.3')).toBe(false);
+      expect(satisfies('0.9.0', '>= 1.0.0 < 1.2.3')).toBe(false);
+      expect(satisfies('2.0.4', '>=1.0.0 <1.2.3 || >=2.0.0 <2.0.5')).toBe(true);
+    });
   });
 
   describe('maxSatisfying', () => {
@@ -0,0 +1,294 @@
+/**
+ * Tests for npm workspaces support
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MountManager } from '../../filesystem/mount-manager';
+import { MemoryBackend } from '../../filesystem/backends/memory-backend';
+import { BaviniPM } from '../bavini-pm';
+import { ModuleLoader } from '../../node/module/require';
+import { PreloadedModuleFS } from '../../node/module/preloaded-fs';
+import { DependencyTree } from '../resolver/dependency-tree';
+import type { RegistryClient } from '../registry/registry-client';
+import { generateLockfile, parseLockfile, stringifyLockfile, extractFlatDeps } from '../lockfile/lockfile-parser';
+import {
+  discoverWorkspaces,
+  findWorkspace,
+  getWorkspacePatterns,
+  resolveWorkspaceRange,
+  splitWorkspaceDependencies,
+} from '../workspaces/workspaces';
+import type { PackageMetadata, WorkspacePackage } from '../types';
+
+function workspace(name: string, version: string, path: string): WorkspacePackage {
+  return { name, version, path, packageJson: { name, version } };
+}
+
+/**
+ * Registry stub serving the given name -> versions -> dependencies
+ */
+function createRegistry(packages: Record<string, Record<string, Record<string, string>>>): RegistryClient {
+  return {
+    async getPackageMetadata(name: string): Promise<PackageMetadata> {
+      const versions = packages[name];
+
+      if (!versions) {
+        throw new Error(`Not found: ${name}`);
+      }
+
+      const latest = Object.keys(versions).pop()!;
+
+      return {
+        name,
+        'dist-tags': { latest },
+        versions: Object.fromEntries(
+          Object.entries(versions).map(([version, dependencies]) => [
+            version,
+            {
+              name,
+              version,
+              dependencies,
+              dist: { tarball: `https://registry.test/${name}-${version}.tgz`, shasum: '' },
+            },
+          ]),
+        ),
+      };
+    },
+  } as unknown as RegistryClient;
+}
+
+describe('workspaces', () => {
+  describe('getWorkspacePatterns', () => {
+    it('should accept the npm array and yarn object forms', () => {
+      expect(getWorkspacePatterns({ name: 'a', version: '1.0.0', workspaces: ['packages/*'] })).toEqual(['packages/*']);
+      expect(getWorkspacePatterns({ name: 'a', version: '1.0.0', workspaces: { packages: ['apps/*'] } })).toEqual([
+        'apps/*',
+      ]);
+      expect(getWorkspacePatterns({ name: 'a', version: '1.0.0' })).toEqual([]);
+    });
+  });
+
+  describe('resolveWorkspaceRange', () => {
+    it('should map workspace: ranges to the workspace version', () => {
+      expect(resolveWorkspaceRange('workspace:*', '1.2.3')).toBe('1.2.3');
+      expect(resolveWorkspaceRange('workspace:^', '1.2.3')).toBe('^1.2.3');
+      expect(resolveWorkspaceRange('workspace:~', '1.2.3')).toBe('~1.2.3');
+      expect(resolveWorkspaceRange('workspace:^1.0.0', '1.2.3')).toBe('^1.0.0');
+    });
+  });
+
+  describe('splitWorkspaceDependencies', () => {
+    const workspaces = [workspace('@acme/ui', '1.2.0', 'packages/ui'), workspace('utils', '2.0.0', 'packages/utils')];
+
+    it('should link workspace packages and keep registry dependencies', () => {
+      const split = splitWorkspaceDependencies(
+        { '@acme/ui': 'workspace:*', utils: '^2.0.0', react: '^18.0.0' },
+        workspaces,
+      );
+
+      expect(split.links.map((ws) => ws.name)).toEqual(['@acme/ui', 'utils']);
+      expect(split.external).toEqual({ react: '^18.0.0' });
+      expect(split.errors).toEqual([]);
+    });
+
+    it('should fetch from the registry when the workspace does not satisfy a plain range', () => {
+      const split = splitWorkspaceDependencies({ utils: '^1.0.0' }, workspaces);
+
+      expect(split.external).toEqual({ utils: '^1.0.0' });
+    });
+
+    it('should report unsatisfied workspace: ranges', () => {
+      const split = splitWorkspaceDependencies({ missing: 'workspace:*', utils: 'workspace:^1.0.0' }, workspaces);
+
+      expect(split.errors).toHaveLength(2);
+      expect(split.errors[0]).toContain('no workspace package named missing');
+    });
+  });
+
+  describe('findWorkspace', () => {
+    it('should find workspaces by name or directory', () => {
+      const workspaces = [workspace('@acme/ui', '1.0.0', 'packages/ui')];
+
+      expect(findWorkspace(workspaces, '@acme/ui')?.path).toBe('packages/ui');
+      expect(findWorkspace(workspaces, './packages/ui/')?.name).toBe('@acme/ui');
+      expect(findWorkspace(workspaces, 'ui')).toBeUndefined();
+    });
+  });
+
+  describe('DependencyTree with workspaces', () => {
+    it('should hoist shared dependencies and nest conflicting ones under the workspace', async () => {
+      const tree = new DependencyTree(
+        createRegistry({
+          lodash: { '3.10.1': {}, '4.17.21': {} },
+          react: { '18.2.0': {} },
+        }),
+      );
+
+      const { flat } = await tree.resolve(
+        { lodash: '^4.17.0' },
+        {
+          workspaces: [
+            {
+              name: 'app',
+              version: '1.0.0',
+              path: 'packages/app',
+              dependencies: { lodash: '^4.0.0', react: '^18.0.0' },
+            },
+            { name: 'legacy', version: '1.0.0', path: 'packages/legacy', dependencies: { lodash: '^3.0.0' } },
+          ],
+        },
+      );
+
+      expect([...flat.keys()].sort()).toEqual([
+        'node_modules/lodash',
+        'node_modules/react',
+        'packages/legacy/node_modules/lodash',
+      ]);
+      expect(flat.get('node_modules/lodash')?.version).toBe('4.17.21');
+      expect(flat.get('packages/legacy/node_modules/lodash')?.version).toBe('3.10.1');
+    });
+  });
+
+  describe('lockfile', () => {
+    it('should write workspace links and directories in the npm v3 layout', () => {
+      const ui: WorkspacePackage = {
+        name: '@acme/ui',
+        version: '1.0.0',
+        path: 'packages/ui',
+        packageJson: { name: '@acme/ui', version: '1.0.0', dependencies: { react: '^18.0.0' } },
+      };
+      const flat = new Map([
+        [
+          'node_modules/react',
+          { name: 'react', version: '18.2.0', resolved: 'https://registry.test/react.tgz', path: 'node_modules/react' },
+        ],
+      ]);
+
+      const lockfile = generateLockfile('monorepo', '1.0.0', flat, {
+        workspaces: [ui],
+        workspacePatterns: ['packages/*'],
+      });
+
+      expect(lockfile.packages['']).toEqual({ name: 'monorepo', version: '1.0.0', workspaces: ['packages/*'] });
+      expect(lockfile.packages['node_modules/@acme/ui']).toEqual({ resolved: 'packages/ui', link: true });
+      expect(lockfile.packages['packages/ui']).toMatchObject({ name: '@acme/ui', dependencies: { react: '^18.0.0' } });
+
+      const { lockfile: parsed } = parseLockfile(stringifyLockfile(lockfile));
+
+      expect(parsed.packages['node_modules/@acme/ui']).toEqual({ resolved: 'packages/ui', link: true });
+      expect([...extractFlatDeps(parsed).keys()]).toEqual(['node_modules/react']);
+    });
+  });
+
+  describe('BaviniPM', () => {
+    let fs: MountManager;
+
+    const writeJson = (path: string, data: unknown) => fs.writeTextFile(path, JSON.stringify(data));
+
+    beforeEach(async () => {
+      fs = new MountManager();
+      await fs.init({ mounts: [{ path: '/', backend: new MemoryBackend() }] });
+      await fs.mkdir('/home/project/packages/ui', { recursive: true });
+      await fs.mkdir('/home/project/packages/app', { recursive: true });
+      await fs.mkdir('/home/project/packages/docs', { recursive: true });
+
+      await writeJson('/home/project/package.json', {
+        name: 'monorepo',
+        version: '1.0.0',
+        workspaces: ['packages/*', '!packages/docs'],
+      });
+      await writeJson('/home/project/packages/ui/package.json', {
+        name: '@acme/ui',
+        version: '1.0.0',
+        main: 'index.js',
+        bin: { 'ui-cli': './cli.js' },
+      });
+      await writeJson('/home/project/packages/app/package.json', {
+        name: 'app',
+        version: '0.1.0',
+        dependencies: { '@acme/ui': 'workspace:^' },
+      });
+      await writeJson('/home/project/packages/docs/package.json', { name: 'docs', version: '0.0.0' });
+    });
+
+    afterEach(async () => {
+      await fs.destroy();
+    });
+
+    it('should discover workspaces and honour negated patterns', async () => {
+      const workspaces = await discoverWorkspaces(fs, '/home/project', {
+        name: 'monorepo',
+        version: '1.0.0',
+        workspaces: ['packages/*', '!packages/docs'],
+      });
+
+      expect(workspaces.map((ws) => `${ws.name}:${ws.path}`)).toEqual(['app:packages/app', '@acme/ui:packages/ui']);
+    });
+
+    it('should reject duplicate workspace names', async () => {
+      await writeJson('/home/project/packages/docs/package.json', { name: 'app', version: '0.0.0' });
+
+      await expect(
+        discoverWorkspaces(fs, '/home/project', { name: 'monorepo', version: '1.0.0', workspaces: ['packages/*'] }),
+      ).rejects.toThrow('Workspace name app is used by both');
+    });
+
+    it('should link workspaces into node_modules and write the lockfile', async () => {
+      const pm = new BaviniPM({ filesystem: fs, cacheEnabled: false });
+      const result = await pm.install();
+
+      expect(result.errors).toEqual([]);
+      expect(JSON.parse(await fs.readTextFile('/home/project/node_modules/@acme/ui/package.json'))).toEqual({
+        name: '@acme/ui',
+        version: '1.0.0',
+        _link: '../../../packages/ui',
+      });
+      expect(await fs.readTextFile('/home/project/node_modules/.bin/ui-cli')).toContain(
+        "require('../../packages/ui/cli.js')",
+      );
+
+      const lockfile = JSON.parse(await fs.readTextFile('/home/project/package-lock.json'));
+
+      expect(lockfile.packages['node_modules/app']).toEqual({ resolved: 'packages/app', link: true });
+      expect(lockfile.packages['packages/app'].dependencies).toEqual({ '@acme/ui': 'workspace:^' });
+      expect(lockfile.packages['packages/docs']).toBeUndefined();
+    });
+
+    it('should resolve linked workspaces from their own directory', async () => {
+      await writeJson('/home/project/packages/ui/package.json', {
+        name: '@acme/ui',
+        version: '1.0.0',
+        type: 'module',
+        exports: { '.': './src/index.js', './button': './src/button.js' },
+      });
+      await fs.mkdir('/home/project/packages/ui/src', { recursive: true });
+      await fs.writeTextFile('/home/project/packages/ui/src/index.js', "export const name = 'ui';");
+      await fs.writeTextFile('/home/project/packages/ui/src/button.js', "export default 'button';");
+      await fs.writeTextFile('/home/project/packages/ui/src/theme.js', "export const color = 'blue';");
+      await fs.writeTextFile(
+        '/home/project/packages/app/main.cjs',
+        [
+          "const ui = require('@acme/ui');",
+          "const button = require('@acme/ui/button');",
+          "const theme = require('@acme/ui/src/theme.js');",
+          'module.exports = [ui.name, button.default, theme.color, require.resolve("@acme/ui")];',
+        ].join('\n'),
+      );
+
+      await new BaviniPM({ filesystem: fs, cacheEnabled: false }).install();
+
+      const moduleFs = new PreloadedModuleFS(fs);
+
+      await moduleFs.preload('/home/project/packages/app/main.cjs');
+
+      const loader = new ModuleLoader(moduleFs, { cwd: '/home/project/packages/app' });
+
+      expect(loader.loadMain('/home/project/packages/app/main.cjs')).toEqual([
+        'ui',
+        'button',
+        'blue',
+        '/home/project/packages/ui/src/index.js',
+      ]);
+    });
+  });
+});
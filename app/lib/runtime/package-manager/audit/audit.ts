@@ -0,0 +1,198 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Audit
+ * =============================================================================
+ * Checks installed package versions against a local advisory dataset.
+ * The dataset uses the npm formats: the bulk advisory endpoint response
+ * (`{ "<name>": [advisory, ...] }`), an `npm audit --json` v6 report
+ * (`{ "advisories": { "<id>": advisory } }`) or a plain advisory array.
+ * =============================================================================
+ */
+
+import type { Advisory, AuditFinding, AuditReport, AuditSeverity } from '../types';
+import { PMError } from '../types';
+import { isValidRange, satisfies } from '../resolver/version-resolver';
+
+/**
+ * Advisory file read by `npm audit` when no other file is given
+ */
+export const DEFAULT_ADVISORY_FILE = '.bavini/advisories.json';
+
+/**
+ * Severities from lowest to highest
+ */
+export const AUDIT_SEVERITIES: AuditSeverity[] = ['info', 'low', 'moderate', 'high', 'critical'];
+
+/**
+ * Installed copy of a package
+ */
+export interface InstalledPackage {
+  name: string;
+  version: string;
+
+  /** Path relative to the project root (e.g. node_modules/a/node_modules/b) */
+  path: string;
+}
+
+/**
+ * Parse an advisory dataset
+ */
+export function parseAdvisories(content: string): Advisory[] {
+  let data: unknown;
+
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new PMError('INVALID_ADVISORIES', `Invalid advisory JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const advisories: Advisory[] = [];
+
+  if (Array.isArray(data)) {
+    for (const entry of data) {
+      advisories.push(toAdvisory(entry));
+    }
+  } else if (isObject(data) && isObject(data.advisories)) {
+    for (const [id, entry] of Object.entries(data.advisories)) {
+      advisories.push(toAdvisory(entry, undefined, id));
+    }
+  } else if (isObject(data)) {
+    for (const [name, entries] of Object.entries(data)) {
+      if (!Array.isArray(entries)) {
+        throw new PMError('INVALID_ADVISORIES', `Advisories for ${name} must be an array`);
+      }
+
+      for (const entry of entries) {
+        advisories.push(toAdvisory(entry, name));
+      }
+    }
+  } else {
+    throw new PMError('INVALID_ADVISORIES', 'Advisory file must contain an object or an array');
+  }
+
+  return advisories;
+}
+
+/**
+ * Match installed packages against advisories.
+ * Copies of the same version are reported once, with all their paths;
+ * `direct` holds the node_modules paths of the declared dependencies.
+ */
+export function auditPackages(
+  installed: InstalledPackage[],
+  advisories: Advisory[],
+  options: { direct?: Set<string>; auditLevel?: AuditSeverity } = {},
+): AuditReport {
+  const byName = new Map<string, Advisory[]>();
+  const minLevel = AUDIT_SEVERITIES.indexOf(options.auditLevel ?? 'info');
+
+  for (const advisory of advisories) {
+    if (AUDIT_SEVERITIES.indexOf(advisory.severity) >= minLevel) {
+      byName.set(advisory.name, [...(byName.get(advisory.name) ?? []), advisory]);
+    }
+  }
+
+  const findings = new Map<string, AuditFinding>();
+
+  for (const pkg of installed) {
+    for (const advisory of byName.get(pkg.name) ?? []) {
+      if (!satisfies(pkg.version, advisory.vulnerableVersions)) {
+        continue;
+      }
+
+      const key = `${advisory.id}@${pkg.version}`;
+      const finding = findings.get(key);
+
+      if (finding) {
+        finding.paths.push(pkg.path);
+        finding.direct ||= options.direct?.has(pkg.path) ?? false;
+      } else {
+        findings.set(key, {
+          advisory,
+          version: pkg.version,
+          paths: [pkg.path],
+          direct: options.direct?.has(pkg.path) ?? false,
+        });
+      }
+    }
+  }
+
+  const sorted = [...findings.values()].sort(
+    (a, b) =>
+      AUDIT_SEVERITIES.indexOf(b.advisory.severity) - AUDIT_SEVERITIES.indexOf(a.advisory.severity) ||
+      a.advisory.name.localeCompare(b.advisory.name),
+  );
+
+  const summary = Object.fromEntries(AUDIT_SEVERITIES.map((severity) => [severity, 0])) as Record<
+    AuditSeverity,
+    number
+  >;
+
+  for (const finding of sorted) {
+    summary[finding.advisory.severity]++;
+  }
+
+  return { findings: sorted, scanned: installed.length, summary };
+}
+
+/**
+ * Check whether a report has findings at or above a severity
+ */
+export function hasFindingsAtLevel(report: AuditReport, level: AuditSeverity): boolean {
+  const minLevel = AUDIT_SEVERITIES.indexOf(level);
+  return report.findings.some((finding) => AUDIT_SEVERITIES.indexOf(finding.advisory.severity) >= minLevel);
+}
+
+/**
+ * Check a severity name
+ */
+export function isAuditSeverity(value: string): value is AuditSeverity {
+  return (AUDIT_SEVERITIES as string[]).includes(value);
+}
+
+/**
+ * Normalize an advisory entry (snake_case npm fields or camelCase)
+ */
+function toAdvisory(entry: unknown, name?: string, key?: string): Advisory {
+  if (!isObject(entry)) {
+    throw new PMError('INVALID_ADVISORIES', 'Advisory entries must be objects');
+  }
+
+  const packageName = name ?? getString(entry, 'module_name') ?? getString(entry, 'name');
+  const range = getString(entry, 'vulnerable_versions') ?? getString(entry, 'vulnerableVersions');
+  const id = entry.id ?? entry.source ?? key ?? getString(entry, 'url');
+
+  if (!packageName || !range || !isValidRange(range)) {
+    throw new PMError(
+      'INVALID_ADVISORIES',
+      `Advisory ${String(id ?? '?')} needs a package name and a valid vulnerable_versions range`,
+    );
+  }
+
+  const severity = getString(entry, 'severity') ?? 'moderate';
+
+  return {
+    id: String(id ?? `${packageName}@${range}`),
+    name: packageName,
+    title: getString(entry, 'title') ?? 'Vulnerability',
+    severity: isAuditSeverity(severity) ? severity : 'moderate',
+    vulnerableVersions: range,
+    url: getString(entry, 'url'),
+    cwe: Array.isArray(entry.cwe) ? entry.cwe.map(String) : typeof entry.cwe === 'string' ? [entry.cwe] : undefined,
+  };
+}
+
+/**
+ * Type guard for JSON objects
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Safely get string value
+ */
+function getString(obj: Record<string, unknown>, key: string): string | undefined {
+  const value = obj[key];
+  return typeof value === 'string' ? value : undefined;
+}
@@ -0,0 +1,17 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Audit Module
+ * =============================================================================
+ * Public exports for dependency auditing.
+ * =============================================================================
+ */
+
+export {
+  DEFAULT_ADVISORY_FILE,
+  AUDIT_SEVERITIES,
+  parseAdvisories,
+  auditPackages,
+  hasFindingsAtLevel,
+  isAuditSeverity,
+  type InstalledPackage,
+} from './audit';
@@ -10,18 +10,40 @@
 import type { MountManager } from '../filesystem';
 import type {
   PackageJson,
+  PackageMetadata,
   InstallOptions,
   InstallResult,
   InstallProgress,
   FlatDependency,
   ScriptResult,
+  ScriptCommandExecutor,
+  RunScriptOptions,
+  WorkspacePackage,
+  ImportedLockfile,
+  LockfileFormat,
+  OutdatedPackage,
+  UpdateResult,
+  AuditOptions,
+  AuditReport,
 } from './types';
 import { PMError } from './types';
 import { RegistryClient } from './registry/registry-client';
 import { extractTarball, shouldIncludeFile } from './registry/tarball-extractor';
-import { DependencyTree } from './resolver/dependency-tree';
+import { DependencyTree, type WorkspaceDependencies } from './resolver/dependency-tree';
+import { VersionResolver, isValidRange } from './resolver/version-resolver';
 import { PackageCache, getPackageCache } from './cache/package-cache';
-import { parseLockfile, generateLockfile, stringifyLockfile, extractFlatDeps } from './lockfile/lockfile-parser';
+import { generateLockfile, stringifyLockfile } from './lockfile/lockfile-parser';
+import { importLockfile, LOCKFILE_NAMES } from './lockfile/lockfile-import';
+import { formatLockfileDrift, type DeclaredDependencies } from './lockfile/lock-graph';
+import { runPackageScript } from './scripts/script-runner';
+import { auditPackages, parseAdvisories, DEFAULT_ADVISORY_FILE, type InstalledPackage } from './audit/audit';
+import {
+  discoverWorkspaces,
+  findWorkspace,
+  getWorkspacePatterns,
+  isWorkspaceRange,
+  splitWorkspaceDependencies,
+} from './workspaces/workspaces';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('BaviniPM');
@@ -38,6 +60,9 @@ export interface BaviniPMConfig {
   registryUrl?: string;
   /** Enable package caching */
   cacheEnabled?: boolean;
+
+  /** Executor for package.json scripts (provided by the shell) */
+  scriptExecutor?: ScriptCommandExecutor;
 }
 
 /**
@@ -49,8 +74,10 @@ export class BaviniPM {
   private _projectRoot: string;
   private _registry: RegistryClient;
   private _dependencyTree: DependencyTree;
+  private _versionResolver = new VersionResolver();
   private _cache: PackageCache;
   private _cacheEnabled: boolean;
+  private _scriptExecutor: ScriptCommandExecutor | undefined;
   private _initialized = false;
 
   constructor(config: BaviniPMConfig) {
@@ -60,6 +87,14 @@ export class BaviniPM {
     this._dependencyTree = new DependencyTree(this._registry);
     this._cache = getPackageCache();
     this._cacheEnabled = config.cacheEnabled ?? true;
+    this._scriptExecutor = config.scriptExecutor;
+  }
+
+  /**
+   * Project root directory
+   */
+  get projectRoot(): string {
+    return this._projectRoot;
   }
 
   /**
@@ -80,6 +115,172 @@ export class BaviniPM {
    * Install packages
    */
   async install(packages?: string[], options: InstallOptions = {}): Promise<InstallResult> {
+    return this._install(packages, options);
+  }
+
+  /**
+   * List dependencies whose installed version is behind the registry:
+   * `wanted` is the highest version within the declared range, `latest`
+   * the `latest` dist-tag. Workspaces are checked after the root.
+   */
+  async outdated(): Promise<OutdatedPackage[]> {
+    await this.init();
+
+    const packageJson = await this._readPackageJson();
+    const workspaces = await discoverWorkspaces(this._fs, this._projectRoot, packageJson);
+    const dependents = [{ path: '.', packageJson }, ...workspaces];
+    const workspaceNames = new Set(workspaces.map((workspace) => workspace.name));
+    const outdated: OutdatedPackage[] = [];
+
+    for (const dependent of dependents) {
+      for (const type of ['dependencies', 'devDependencies'] as const) {
+        for (const [name, range] of Object.entries(dependent.packageJson[type] ?? {})) {
+          // Workspace links and non-registry specs (git, file:, npm: aliases) are not tracked
+          if (workspaceNames.has(name) || isWorkspaceRange(range) || !isValidRange(range)) {
+            continue;
+          }
+
+          let metadata: PackageMetadata;
+
+          try {
+            metadata = await this._registry.getPackageMetadata(name);
+          } catch (error) {
+            logger.warn(`Cannot check ${name}: ${error instanceof Error ? error.message : error}`);
+            continue;
+          }
+
+          const distTags = metadata['dist-tags'];
+          const wanted = this._versionResolver.resolveVersion(Object.keys(metadata.versions), range, distTags);
+          const latest = distTags.latest ?? wanted;
+          const current = await this._readInstalledVersion(dependent.path, name);
+
+          if (!wanted || !latest || (current === wanted && current === latest)) {
+            continue;
+          }
+
+          outdated.push({ name, current, wanted, latest, range, type, dependent: dependent.path });
+        }
+      }
+    }
+
+    return outdated;
+  }
+
+  /**
+   * Update dependencies to the highest version within their declared range.
+   * package.json is left as is; node_modules and package-lock.json are
+   * re-resolved with every dependency that is not updated pinned to its
+   * installed version.
+   */
+  async update(packages: string[] = [], options: InstallOptions = {}): Promise<UpdateResult> {
+    const selected = new Set(packages);
+    const outdated = (await this.outdated()).filter(
+      (pkg) => pkg.current !== pkg.wanted && (selected.size === 0 || selected.has(pkg.name)),
+    );
+
+    if (outdated.length === 0) {
+      return { success: true, installed: [], warnings: [], errors: [], duration: 0, updated: [] };
+    }
+
+    const pins: DeclaredDependencies = {};
+
+    if (selected.size > 0) {
+      const packageJson = await this._readPackageJson();
+      const workspaces = await discoverWorkspaces(this._fs, this._projectRoot, packageJson);
+
+      for (const dependent of [{ path: '.', packageJson }, ...workspaces]) {
+        pins[dependent.path] = {};
+
+        for (const [name, range] of Object.entries(this._getDependencies(dependent.packageJson, options))) {
+          // Aliases, git and file specs keep their spec
+          if (selected.has(name) || isWorkspaceRange(range) || !isValidRange(range)) {
+            continue;
+          }
+
+          const current = await this._readInstalledVersion(dependent.path, name);
+
+          if (current) {
+            pins[dependent.path][name] = current;
+          }
+        }
+      }
+    }
+
+    const result = await this._install(undefined, { ...options, force: true }, pins);
+
+    if (result.lockfile && result.lockfile !== 'npm') {
+      result.warnings.push(`${LOCKFILE_NAMES[result.lockfile]} is not updated by npm update`);
+    }
+
+    return {
+      ...result,
+      updated: outdated.map((pkg) => ({ name: pkg.name, dependent: pkg.dependent, from: pkg.current, to: pkg.wanted })),
+    };
+  }
+
+  /**
+   * Check installed packages (including nested copies) against an advisory dataset
+   */
+  async audit(options: AuditOptions = {}): Promise<AuditReport> {
+    await this.init();
+
+    let advisories = options.advisories;
+
+    if (!advisories) {
+      const file = options.advisoryFile ?? DEFAULT_ADVISORY_FILE;
+      let content: string;
+
+      try {
+        content = await this._readFile(file);
+      } catch {
+        throw new PMError('INVALID_ADVISORIES', `Advisory file not found: ${file}`);
+      }
+
+      advisories = parseAdvisories(content);
+    }
+
+    const packageJson = await this._readPackageJson();
+    const workspaces = await discoverWorkspaces(this._fs, this._projectRoot, packageJson);
+    const direct = new Set<string>();
+
+    // A workspace dependency is either nested in the workspace or hoisted to the root
+    for (const dependent of [{ path: '.', packageJson }, ...workspaces]) {
+      for (const name of Object.keys({
+        ...dependent.packageJson.dependencies,
+        ...dependent.packageJson.devDependencies,
+      })) {
+        direct.add(`node_modules/${name}`);
+
+        if (dependent.path !== '.') {
+          direct.add(`${dependent.path}/node_modules/${name}`);
+        }
+      }
+    }
+
+    const installed: InstalledPackage[] = [];
+
+    for (const base of ['', ...workspaces.map((workspace) => `${workspace.path}/`)]) {
+      await this._collectInstalled(`${base}node_modules`, installed);
+    }
+
+    const workspaceNames = new Set(workspaces.map((workspace) => workspace.name));
+
+    return auditPackages(
+      installed.filter((pkg) => !workspaceNames.has(pkg.name)),
+      advisories,
+      { direct, auditLevel: options.auditLevel },
+    );
+  }
+
+  /**
+   * Install packages, optionally pinning dependencies per importer
+   * ('.' or workspace path) to exact versions
+   */
+  private async _install(
+    packages: string[] | undefined,
+    options: InstallOptions,
+    pins: DeclaredDependencies = {},
+  ): Promise<InstallResult> {
     const startTime = Date.now();
     const result: InstallResult = {
       success: true,
@@ -94,6 +295,7 @@ export class BaviniPM {
 
       // Read project package.json
       const packageJson = await this._readPackageJson();
+      const workspaces = await discoverWorkspaces(this._fs, this._projectRoot, packageJson);
 
       // Determine what to install
       let dependencies: Record<string, string>;
@@ -117,44 +319,58 @@ export class BaviniPM {
         }
       } else {
         // Install all dependencies from package.json
-        dependencies = { ...packageJson.dependencies };
+        dependencies = { ...this._getDependencies(packageJson, options), ...pins['.'] };
+      }
 
-        if (!options.production) {
-          dependencies = { ...dependencies, ...packageJson.devDependencies };
+      // Monorepo: workspace packages are linked, their registry deps resolved with the root ones
+      const workspaceDependencies: WorkspaceDependencies[] = [];
+
+      if (workspaces.length > 0) {
+        const root = splitWorkspaceDependencies(dependencies, workspaces);
+        dependencies = root.external;
+        result.errors.push(...root.errors);
+
+        for (const workspace of workspaces) {
+          const split = splitWorkspaceDependencies(this._getDependencies(workspace.packageJson, options), workspaces);
+          result.errors.push(...split.errors.map((error) => `${workspace.name}: ${error}`));
+          workspaceDependencies.push({
+            name: workspace.name,
+            version: workspace.version,
+            path: workspace.path,
+            dependencies: { ...split.external, ...pins[workspace.path] },
+          });
         }
       }
 
-      if (Object.keys(dependencies).length === 0) {
+      if (Object.keys(dependencies).length === 0 && workspaces.length === 0) {
         logger.debug('No dependencies to install');
         result.duration = Date.now() - startTime;
         return result;
       }
 
-      // Check for existing lockfile
-      let existingLock: Map<string, FlatDependency> | null = null;
+      // Install the exact tree of the project lockfile when it matches package.json
+      const isFullInstall = !packages || packages.length === 0;
+      const locked = isFullInstall ? await this._readLockfile(dependencies, workspaceDependencies, result) : null;
+      let flat: Map<string, FlatDependency>;
 
-      if (!options.force) {
-        try {
-          const lockContent = await this._readFile('package-lock.json');
-          const { lockfile } = parseLockfile(lockContent);
-          existingLock = extractFlatDeps(lockfile);
-          logger.debug(`Found existing lockfile with ${existingLock.size} entries`);
-        } catch {
-          // No lockfile
-        }
+      if (locked && !options.force && !options.production && locked.drift.length === 0) {
+        logger.info(`Installing ${locked.flat.size} packages from ${LOCKFILE_NAMES[locked.format]}`);
+        flat = locked.flat;
+      } else {
+        // Resolve dependencies
+        this._emitProgress(options, 'resolving', 0, 1, undefined, 'Resolving dependencies...');
+
+        const resolution = await this._dependencyTree.resolve(dependencies, {
+          workspaces: workspaceDependencies,
+          onProgress: (pkg, depth) => {
+            this._emitProgress(options, 'resolving', depth, 10, pkg);
+          },
+        });
+
+        flat = resolution.flat;
+        result.warnings.push(...resolution.warnings);
       }
 
-      // Resolve dependencies
-      this._emitProgress(options, 'resolving', 0, 1, undefined, 'Resolving dependencies...');
-
-      const { flat, warnings } = await this._dependencyTree.resolve(dependencies, {
-        onProgress: (pkg, depth) => {
-          this._emitProgress(options, 'resolving', depth, 10, pkg);
-        },
-      });
-
-      result.warnings.push(...warnings);
-
       // Download and extract packages
       const total = flat.size;
       let current = 0;
@@ -172,9 +388,20 @@ export class BaviniPM {
         }
       }
 
-      // Generate lockfile
-      const newLockfile = generateLockfile(packageJson.name, packageJson.version, flat);
-      await this._writeFile('package-lock.json', stringifyLockfile(newLockfile));
+      // Link workspace packages
+      for (const [index, workspace] of workspaces.entries()) {
+        this._emitProgress(options, 'linking', index + 1, workspaces.length, workspace.name);
+        await this._linkWorkspace(workspace);
+      }
+
+      // Generate lockfile, unless the tree came from it or the project uses pnpm/yarn
+      if (flat !== locked?.flat && (!locked || locked.format === 'npm')) {
+        const newLockfile = generateLockfile(packageJson.name, packageJson.version, flat, {
+          workspaces,
+          workspacePatterns: getWorkspacePatterns(packageJson),
+        });
+        await this._writeFile('package-lock.json', stringifyLockfile(newLockfile));
+      }
 
       // Update package.json if needed
       if (packages && packages.length > 0 && !options.noSave) {
@@ -246,29 +473,44 @@ export class BaviniPM {
   }
 
   /**
-   * Run a package script
+   * Run a package script with its pre/post hooks
    */
-  async run(scriptName: string, args: string[] = []): Promise<ScriptResult> {
+  async run(scriptName: string, args: string[] = [], options: RunScriptOptions = {}): Promise<ScriptResult> {
     await this.init();
 
-    const packageJson = await this._readPackageJson();
-    const scripts = packageJson.scripts ?? {};
-    const script = scripts[scriptName];
+    const executor = options.executor ?? this._scriptExecutor;
 
-    if (!script) {
-      throw new PMError('SCRIPT_ERROR', `Script '${scriptName}' not found in package.json`);
+    if (!executor) {
+      throw new PMError('SCRIPT_ERROR', 'No script executor configured');
     }
 
-    // In browser environment, we can't run actual shell scripts
-    // This would need to be handled by the terminal/shell implementation
-    logger.info(`Would run script: ${script} ${args.join(' ')}`);
+    let packageJson = await this._readPackageJson();
+    let packageRoot = this._projectRoot;
 
-    return {
-      exitCode: 0,
-      stdout: `Script '${scriptName}' scheduled for execution`,
-      stderr: '',
-      duration: 0,
-    };
+    if (options.workspace) {
+      const workspace = findWorkspace(await this.getWorkspaces(), options.workspace);
+
+      if (!workspace) {
+        throw new PMError('SCRIPT_ERROR', `No workspace found: ${options.workspace}`);
+      }
+
+      packageJson = workspace.packageJson;
+      packageRoot = `${this._projectRoot}/${workspace.path}`;
+    }
+
+    return runPackageScript(packageJson, scriptName, args, {
+      ...options,
+      projectRoot: packageRoot,
+      executor,
+    });
+  }
+
+  /**
+   * List the workspace packages declared by the project package.json
+   */
+  async getWorkspaces(): Promise<WorkspacePackage[]> {
+    const packageJson = await this._readPackageJson();
+    return discoverWorkspaces(this._fs, this._projectRoot, packageJson);
   }
 
   /**
@@ -339,6 +581,7 @@ export class BaviniPM {
       if (cached) {
         logger.debug(`Using cached ${cacheKey}`);
         await this._writePackageFiles(dep.path, cached.files, cached.packageJson);
+        await this._linkBinaries(dep, cached.packageJson);
         return;
       }
     }
@@ -376,6 +619,174 @@ export class BaviniPM {
 
     // Write to filesystem
     await this._writePackageFiles(dep.path, files, packageJson);
+    await this._linkBinaries(dep, packageJson);
+  }
+
+  /**
+   * Version installed for a dependency of the root ('.') or of a workspace,
+   * looking in the workspace node_modules before the hoisted one
+   */
+  private async _readInstalledVersion(dependent: string, name: string): Promise<string | undefined> {
+    const candidates = dependent === '.' ? [''] : [`${dependent}/`, ''];
+
+    for (const base of candidates) {
+      try {
+        const pkgJson = await this._readJsonFile(`${base}node_modules/${name}/package.json`);
+        return pkgJson.version;
+      } catch {
+        // Not installed at this level
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Collect every package under a node_modules directory, recursing into nested ones
+   */
+  private async _collectInstalled(nodeModules: string, installed: InstalledPackage[]): Promise<void> {
+    let entries: string[];
+
+    try {
+      entries = await this._fs.readdir(`${this._projectRoot}/${nodeModules}`);
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.startsWith('.')) {
+        continue;
+      }
+
+      const names = entry.startsWith('@')
+        ? (await this._fs.readdir(`${this._projectRoot}/${nodeModules}/${entry}`)).map((scoped) => `${entry}/${scoped}`)
+        : [entry];
+
+      for (const name of names) {
+        const path = `${nodeModules}/${name}`;
+
+        try {
+          const pkgJson = await this._readJsonFile(`${path}/package.json`);
+
+          if (pkgJson.version) {
+            installed.push({ name, version: pkgJson.version, path });
+          }
+        } catch {
+          continue;
+        }
+
+        await this._collectInstalled(`${path}/node_modules`, installed);
+      }
+    }
+  }
+
+  /**
+   * Read the first lockfile found (package-lock.json, pnpm-lock.yaml, yarn.lock)
+   * and record its format and drift against package.json in the result
+   */
+  private async _readLockfile(
+    dependencies: Record<string, string>,
+    workspaces: WorkspaceDependencies[],
+    result: InstallResult,
+  ): Promise<ImportedLockfile | null> {
+    const declared: DeclaredDependencies = { '.': dependencies };
+
+    for (const workspace of workspaces) {
+      declared[workspace.path] = workspace.dependencies;
+    }
+
+    for (const format of Object.keys(LOCKFILE_NAMES) as LockfileFormat[]) {
+      let content: string;
+
+      try {
+        content = await this._readFile(LOCKFILE_NAMES[format]);
+      } catch {
+        continue;
+      }
+
+      try {
+        const locked = importLockfile(format, content, declared);
+
+        result.lockfile = format;
+        result.drift = locked.drift;
+        result.warnings.push(...locked.warnings);
+        result.warnings.push(...locked.drift.map((drift) => `Lockfile drift: ${formatLockfileDrift(drift)}`));
+        logger.debug(`Found ${LOCKFILE_NAMES[format]} with ${locked.flat.size} entries`);
+
+        return locked;
+      } catch (error) {
+        result.warnings.push(`Ignoring ${LOCKFILE_NAMES[format]}: ${error instanceof Error ? error.message : error}`);
+        return null;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Link a workspace package into node_modules.
+   * The virtual filesystem has no symlinks: node_modules/<name>/package.json
+   * points to the workspace directory (`_link`) and the module resolver
+   * follows it, so main, exports, type and subpaths come from the workspace.
+   */
+  private async _linkWorkspace(workspace: WorkspacePackage): Promise<void> {
+    const linkPath = `node_modules/${workspace.name}`;
+    const toRoot = '../'.repeat(linkPath.split('/').length);
+
+    await this._fs.mkdir(`${this._projectRoot}/${linkPath}`, { recursive: true });
+    await this._writeFile(
+      `${linkPath}/package.json`,
+      JSON.stringify(
+        { name: workspace.name, version: workspace.version, _link: `${toRoot}${workspace.path}` },
+        null,
+        2,
+      ),
+    );
+
+    const { bin } = workspace.packageJson;
+
+    if (!bin) {
+      return;
+    }
+
+    const binaries: Record<string, string> =
+      typeof bin === 'string' ? { [workspace.name.split('/').pop()!]: bin } : bin;
+    const binDir = `${this._projectRoot}/node_modules/.bin`;
+
+    await this._fs.mkdir(binDir, { recursive: true });
+
+    for (const [binName, target] of Object.entries(binaries)) {
+      const shim = `#!/usr/bin/env node\nrequire('../../${workspace.path}/${target.replace(/^\.\//, '')}');\n`;
+      await this._writeFile(`${binDir}/${binName}`, shim);
+    }
+
+    logger.debug(`Linked workspace ${workspace.name} -> ${workspace.path}`);
+  }
+
+  /**
+   * Link package binaries into node_modules/.bin (top-level packages only)
+   */
+  private async _linkBinaries(dep: FlatDependency, packageJson: PackageJson): Promise<void> {
+    if (!packageJson.bin || dep.path !== `node_modules/${dep.name}`) {
+      return;
+    }
+
+    const binaries: Record<string, string> =
+      typeof packageJson.bin === 'string' ? { [dep.name.split('/').pop()!]: packageJson.bin } : packageJson.bin;
+    const binDir = `${this._projectRoot}/node_modules/.bin`;
+
+    await this._fs.mkdir(binDir, { recursive: true });
+
+    for (const [binName, target] of Object.entries(binaries)) {
+      const relativeTarget = target.replace(/^\.\//, '');
+
+      // Node-style shim: the .bin entry requires the real entry point
+      const shim = `#!/usr/bin/env node\nrequire('../${dep.name}/${relativeTarget}');\n`;
+      await this._writeFile(`${binDir}/${binName}`, shim);
+    }
+
+    dep.binaries = binaries;
+    logger.debug(`Linked ${Object.keys(binaries).length} binaries for ${dep.name}`);
   }
 
   /**
@@ -410,6 +821,17 @@ export class BaviniPM {
     logger.debug(`Wrote ${files.size} files to ${basePath}`);
   }
 
+  /**
+   * Dependencies to install for a package.json
+   */
+  private _getDependencies(packageJson: PackageJson, options: InstallOptions): Record<string, string> {
+    if (options.production) {
+      return { ...packageJson.dependencies };
+    }
+
+    return { ...packageJson.dependencies, ...packageJson.devDependencies };
+  }
+
   /**
    * Parse package spec (name@version)
    */
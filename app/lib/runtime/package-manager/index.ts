@@ -24,6 +24,20 @@ export type {
   PackageLockEntry,
   CachedPackage,
   ScriptResult,
+  ScriptCommandExecutor,
+  ScriptExecutionContext,
+  RunScriptOptions,
+  WorkspacePackage,
+  LockfileFormat,
+  LockfileDrift,
+  ImportedLockfile,
+  OutdatedPackage,
+  UpdateResult,
+  AuditSeverity,
+  Advisory,
+  AuditFinding,
+  AuditOptions,
+  AuditReport,
   SemverRange,
   ResolvedVersion,
   RegistryConfig,
@@ -53,6 +67,7 @@ export {
   type ParsedRange,
   type ResolutionOptions,
   type ResolutionResult,
+  type WorkspaceDependencies,
 } from './resolver';
 
 // Cache
@@ -67,4 +82,45 @@ export {
   hasPackage,
   getPackageVersions,
   mergeLockfiles,
+  importLockfile,
+  importNpmLockfile,
+  importPnpmLockfile,
+  importYarnLockfile,
+  detectLockfileDrift,
+  formatLockfileDrift,
+  LOCKFILE_NAMES,
+  type DeclaredDependencies,
 } from './lockfile';
+
+// Workspaces
+export {
+  WORKSPACE_PROTOCOL,
+  getWorkspacePatterns,
+  discoverWorkspaces,
+  isWorkspaceRange,
+  resolveWorkspaceRange,
+  splitWorkspaceDependencies,
+  findWorkspace,
+  type SplitDependencies,
+} from './workspaces';
+
+// Audit
+export {
+  DEFAULT_ADVISORY_FILE,
+  AUDIT_SEVERITIES,
+  parseAdvisories,
+  auditPackages,
+  hasFindingsAtLevel,
+  isAuditSeverity,
+  type InstalledPackage,
+} from './audit';
+
+// Scripts
+export {
+  runPackageScript,
+  buildScriptEnv,
+  buildScriptPath,
+  getLifecycleSequence,
+  quoteScriptArgs,
+  type PackageScriptOptions,
+} from './scripts';
@@ -15,5 +15,20 @@ export {
   getPackageVersions,
   mergeLockfiles,
   type ParseOptions,
+  type GenerateOptions,
   type ParseResult,
 } from './lockfile-parser';
+
+export { importLockfile, importNpmLockfile, LOCKFILE_NAMES } from './lockfile-import';
+export { importPnpmLockfile } from './pnpm-lockfile';
+export { importYarnLockfile } from './yarn-lockfile';
+export {
+  layoutLockGraph,
+  detectLockfileDrift,
+  formatLockfileDrift,
+  getRegistryTarballUrl,
+  type LockGraph,
+  type LockedPackage,
+  type LockedImport,
+  type DeclaredDependencies,
+} from './lock-graph';
@@ -0,0 +1,213 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Lock Graph
+ * =============================================================================
+ * Format-independent view of a lockfile: locked packages keyed by id, plus
+ * the direct dependencies of each importer (the root project and its
+ * workspaces). Used to lay pnpm and yarn lockfiles out as node_modules
+ * and to detect drift against package.json.
+ * =============================================================================
+ */
+
+import type { FlatDependency, ImportedLockfile, LockfileDrift, LockfileFormat } from '../types';
+import { DEFAULT_REGISTRY } from '../types';
+import { isValidRange, satisfies } from '../resolver/version-resolver';
+
+/**
+ * Package pinned by a lockfile
+ */
+export interface LockedPackage {
+  name: string;
+  version: string;
+  resolved: string;
+  integrity?: string;
+
+  /** Dependency name -> locked package id */
+  dependencies: Record<string, string>;
+}
+
+/**
+ * Direct dependency of an importer as recorded by the lockfile
+ */
+export interface LockedImport {
+  /** Locked package id (absent when the dependency is a workspace link) */
+  id?: string;
+
+  /** Range the lockfile was generated from, when the format records it */
+  specifier?: string;
+
+  /** Locked version */
+  version?: string;
+}
+
+/**
+ * Lockfile contents as a graph
+ */
+export interface LockGraph {
+  packages: Map<string, LockedPackage>;
+
+  /** Importer path ('.' for the root) -> dependency name -> locked import */
+  importers: Map<string, Record<string, LockedImport>>;
+}
+
+/**
+ * Dependencies declared in package.json files: importer path -> name -> range
+ */
+export type DeclaredDependencies = Record<string, Record<string, string>>;
+
+/**
+ * Registry tarball URL of a package version
+ */
+export function getRegistryTarballUrl(name: string, version: string, registry: string = DEFAULT_REGISTRY): string {
+  const basename = name.startsWith('@') ? name.split('/')[1] : name;
+  return `${registry.replace(/\/+$/, '')}/${name}/-/${basename}-${version}.tgz`;
+}
+
+/**
+ * Lay a lock graph out as node_modules entries with npm-style hoisting:
+ * root importer first, then workspaces, nesting conflicting versions under
+ * the package (or workspace) that needs them.
+ */
+export function layoutLockGraph(graph: LockGraph): Map<string, FlatDependency> {
+  const flat = new Map<string, FlatDependency>();
+  const hoisted = new Map<string, string>(); // name -> version at root
+
+  const visit = (dependencies: Record<string, string>, parentPath: string, ancestors: Set<string>) => {
+    const placed: Array<{ id: string; path: string; dependencies: Record<string, string> }> = [];
+
+    // Place every direct dependency before descending, so they win the root slots
+    for (const [name, id] of Object.entries(dependencies)) {
+      const pkg = graph.packages.get(id);
+
+      if (!pkg) {
+        continue;
+      }
+
+      const hoistedVersion = hoisted.get(name);
+      let path: string;
+
+      if (!hoistedVersion) {
+        path = `node_modules/${name}`;
+        hoisted.set(name, pkg.version);
+      } else if (hoistedVersion === pkg.version) {
+        continue;
+      } else {
+        path = parentPath ? `${parentPath}/node_modules/${name}` : `node_modules/${name}`;
+      }
+
+      if (flat.has(path)) {
+        continue;
+      }
+
+      flat.set(path, {
+        name,
+        version: pkg.version,
+        resolved: pkg.resolved,
+        integrity: pkg.integrity,
+        path,
+      });
+      placed.push({ id, path, dependencies: pkg.dependencies });
+    }
+
+    for (const child of placed) {
+      if (!ancestors.has(child.id)) {
+        visit(child.dependencies, child.path, new Set([...ancestors, child.id]));
+      }
+    }
+  };
+
+  const importers = [...graph.importers.keys()].sort((a, b) => (a === '.' ? -1 : b === '.' ? 1 : a.localeCompare(b)));
+
+  for (const importer of importers) {
+    const direct: Record<string, string> = {};
+
+    for (const [name, locked] of Object.entries(graph.importers.get(importer) ?? {})) {
+      if (locked.id) {
+        direct[name] = locked.id;
+      }
+    }
+
+    visit(direct, importer === '.' ? '' : importer, new Set());
+  }
+
+  return flat;
+}
+
+/**
+ * Compare the dependencies declared in package.json with the lockfile.
+ * A recorded specifier must match the declared range exactly (pnpm, npm);
+ * without one, the locked version must satisfy the range.
+ */
+export function detectLockfileDrift(
+  declared: DeclaredDependencies,
+  importers: Map<string, Record<string, LockedImport>>,
+): LockfileDrift[] {
+  const drift: LockfileDrift[] = [];
+
+  for (const [importer, dependencies] of Object.entries(declared)) {
+    const locked = importers.get(importer) ?? {};
+
+    for (const [name, range] of Object.entries(dependencies)) {
+      const entry = locked[name];
+
+      if (!entry) {
+        drift.push({ importer, name, kind: 'missing', range });
+      } else if (entry.specifier !== undefined ? entry.specifier !== range : !lockedVersionSatisfies(entry, range)) {
+        drift.push({ importer, name, kind: 'changed', range, locked: entry.specifier ?? entry.version });
+      }
+    }
+
+    for (const [name, entry] of Object.entries(locked)) {
+      if (entry.specifier !== undefined && !(name in dependencies)) {
+        drift.push({ importer, name, kind: 'extraneous', locked: entry.specifier });
+      }
+    }
+  }
+
+  return drift;
+}
+
+/**
+ * Build the imported lockfile result shared by the pnpm and yarn parsers
+ */
+export function importLockGraph(
+  format: LockfileFormat,
+  graph: LockGraph,
+  declared: DeclaredDependencies,
+  warnings: string[],
+): ImportedLockfile {
+  return {
+    format,
+    flat: layoutLockGraph(graph),
+    drift: detectLockfileDrift(declared, graph.importers),
+    warnings,
+  };
+}
+
+/**
+ * Describe a drift entry for the install output
+ */
+export function formatLockfileDrift(drift: LockfileDrift): string {
+  const where = drift.importer === '.' ? '' : `${drift.importer}: `;
+
+  if (drift.kind === 'missing') {
+    return `${where}${drift.name}@${drift.range} is not in the lockfile`;
+  }
+
+  if (drift.kind === 'extraneous') {
+    return `${where}${drift.name}@${drift.locked} is in the lockfile but not in package.json`;
+  }
+
+  return `${where}${drift.name} is ${drift.range} in package.json but ${drift.locked} in the lockfile`;
+}
+
+/**
+ * Check a locked version against a declared range (non-semver ranges are trusted)
+ */
+function lockedVersionSatisfies(entry: LockedImport, range: string): boolean {
+  if (!entry.version || !isValidRange(range) || /^[a-z]/i.test(range)) {
+    return true;
+  }
+
+  return satisfies(entry.version, range);
+}
@@ -0,0 +1,83 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Lockfile Import
+ * =============================================================================
+ * Detects the lockfile of a project (npm, pnpm or yarn) and maps it onto
+ * node_modules entries, with drift against package.json.
+ * =============================================================================
+ */
+
+import type { ImportedLockfile, LockfileFormat } from '../types';
+import { parseLockfile, extractFlatDeps } from './lockfile-parser';
+import { detectLockfileDrift, type DeclaredDependencies, type LockedImport } from './lock-graph';
+import { importPnpmLockfile } from './pnpm-lockfile';
+import { importYarnLockfile } from './yarn-lockfile';
+
+/**
+ * Lockfile names by format, in lookup order
+ */
+export const LOCKFILE_NAMES: Record<LockfileFormat, string> = {
+  npm: 'package-lock.json',
+  pnpm: 'pnpm-lock.yaml',
+  yarn: 'yarn.lock',
+};
+
+/**
+ * Import a lockfile of the given format
+ */
+export function importLockfile(
+  format: LockfileFormat,
+  content: string,
+  declared: DeclaredDependencies = {},
+): ImportedLockfile {
+  switch (format) {
+    case 'pnpm':
+      return importPnpmLockfile(content, declared);
+
+    case 'yarn':
+      return importYarnLockfile(content, declared);
+
+    case 'npm':
+    default:
+      return importNpmLockfile(content, declared);
+  }
+}
+
+/**
+ * Import a package-lock.json. Its entries already are node_modules paths;
+ * direct dependencies are read from the root and workspace entries.
+ */
+export function importNpmLockfile(content: string, declared: DeclaredDependencies = {}): ImportedLockfile {
+  const { lockfile, warnings } = parseLockfile(content, { strict: true });
+  const flat = extractFlatDeps(lockfile);
+  const importers = new Map<string, Record<string, LockedImport>>();
+
+  for (const [importer, dependencies] of Object.entries(declared)) {
+    const prefix = importer === '.' ? '' : `${importer}/`;
+    const entry = lockfile.packages[importer === '.' ? '' : importer];
+    const specifiers = { ...entry?.dependencies, ...entry?.devDependencies };
+    const imports: Record<string, LockedImport> = {};
+
+    for (const name of new Set([...Object.keys(dependencies), ...Object.keys(specifiers)])) {
+      // Workspace links are handled by the workspace linker
+      if (lockfile.packages[`node_modules/${name}`]?.link) {
+        continue;
+      }
+
+      const locked = flat.get(`${prefix}node_modules/${name}`) ?? flat.get(`node_modules/${name}`);
+
+      if (locked || specifiers[name]) {
+        imports[name] = { specifier: specifiers[name], version: locked?.version };
+      }
+    }
+
+    importers.set(importer, imports);
+  }
+
+  return {
+    format: 'npm',
+    flat,
+    drift: detectLockfileDrift(declared, importers),
+    warnings,
+  };
+}
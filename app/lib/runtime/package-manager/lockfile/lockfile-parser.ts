@@ -7,7 +7,7 @@
  * =============================================================================
  */
 
-import type { PackageLock, PackageLockEntry, FlatDependency } from '../types';
+import type { PackageLock, PackageLockEntry, FlatDependency, WorkspacePackage } from '../types';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('LockfileParser');
@@ -20,6 +20,17 @@ export interface ParseOptions {
   strict?: boolean;
 }
 
+/**
+ * Lockfile generation options
+ */
+export interface GenerateOptions {
+  /** Workspace globs of the root package.json */
+  workspacePatterns?: string[];
+
+  /** Workspace packages, written as directory entries plus node_modules links */
+  workspaces?: WorkspacePackage[];
+}
+
 /**
  * Lockfile parse result
  */
@@ -90,10 +101,19 @@ export function parseLockfile(content: string, options: ParseOptions = {}): Pars
  * Parse a package entry from lockfile
  */
 function parsePackageEntry(data: Record<string, unknown>, warnings: string[]): PackageLockEntry {
+  // Workspace links only carry the target directory
+  if (data.link === true) {
+    return { resolved: getString(data, 'resolved'), link: true };
+  }
+
   const entry: PackageLockEntry = {
     version: getString(data, 'version') ?? '0.0.0',
   };
 
+  if (hasKey(data, 'name') && typeof data.name === 'string') {
+    entry.name = data.name;
+  }
+
   if (hasKey(data, 'resolved') && typeof data.resolved === 'string') {
     entry.resolved = data.resolved;
   }
@@ -130,6 +150,20 @@ function parsePackageEntry(data: Record<string, unknown>, warnings: string[]): P
     }
   }
 
+  if (hasKey(data, 'devDependencies') && isObject(data.devDependencies)) {
+    entry.devDependencies = {};
+
+    for (const [name, version] of Object.entries(data.devDependencies)) {
+      if (typeof version === 'string') {
+        entry.devDependencies[name] = version;
+      }
+    }
+  }
+
+  if (hasKey(data, 'workspaces') && Array.isArray(data.workspaces)) {
+    entry.workspaces = data.workspaces.filter((pattern): pattern is string => typeof pattern === 'string');
+  }
+
   return entry;
 }
 
@@ -174,13 +208,30 @@ export function generateLockfile(
   projectName: string,
   projectVersion: string,
   flatDeps: Map<string, FlatDependency>,
+  options: GenerateOptions = {},
 ): PackageLock {
+  const workspaces = options.workspaces ?? [];
   const packages: Record<string, PackageLockEntry> = {
     '': {
       version: projectVersion,
     },
   };
 
+  if (workspaces.length > 0) {
+    packages[''] = {
+      name: projectName,
+      version: projectVersion,
+      workspaces: options.workspacePatterns,
+    };
+  }
+
+  for (const workspace of workspaces) {
+    packages[`node_modules/${workspace.name}`] = {
+      resolved: workspace.path,
+      link: true,
+    };
+  }
+
   for (const [path, dep] of flatDeps) {
     packages[path] = {
       version: dep.version,
@@ -189,6 +240,16 @@ export function generateLockfile(
     };
   }
 
+  // Workspace directories keep their declared ranges, like npm
+  for (const workspace of workspaces) {
+    packages[workspace.path] = {
+      name: workspace.name,
+      version: workspace.version,
+      dependencies: workspace.packageJson.dependencies,
+      devDependencies: workspace.packageJson.devDependencies,
+    };
+  }
+
   return {
     name: projectName,
     version: projectVersion,
@@ -211,8 +272,10 @@ export function extractFlatDeps(lockfile: PackageLock): Map<string, FlatDependen
   const flat = new Map<string, FlatDependency>();
 
   for (const [path, entry] of Object.entries(lockfile.packages)) {
-    // Skip root entry
-    if (path === '') continue;
+    // Skip root entry and workspace links
+    if (path === '' || entry.link) {
+      continue;
+    }
 
     // Extract package name from path
     const name = extractPackageName(path);
@@ -221,7 +284,7 @@ export function extractFlatDeps(lockfile: PackageLock): Map<string, FlatDependen
 
     flat.set(path, {
       name,
-      version: entry.version,
+      version: entry.version ?? '0.0.0',
       resolved: entry.resolved ?? '',
       integrity: entry.integrity,
       path,
@@ -308,7 +371,7 @@ export function getPackageVersions(lockfile: PackageLock, name: string): string[
   for (const [path, entry] of Object.entries(lockfile.packages)) {
     const pkgName = extractPackageName(path);
 
-    if (pkgName === name) {
+    if (pkgName === name && entry.version) {
       versions.push(entry.version);
     }
   }
@@ -0,0 +1,219 @@
+/**
+ * =============================================================================
+ * BAVINI Container - pnpm Lockfile
+ * =============================================================================
+ * Imports pnpm-lock.yaml (lockfile v5.x, v6 and v9) so installs reproduce
+ * the versions pinned by pnpm. Packages are laid out as a hoisted npm
+ * node_modules tree, not as pnpm's .pnpm store.
+ * =============================================================================
+ */
+
+import { parse as parseYaml } from 'yaml';
+import type { ImportedLockfile } from '../types';
+import {
+  getRegistryTarballUrl,
+  importLockGraph,
+  type DeclaredDependencies,
+  type LockGraph,
+  type LockedImport,
+} from './lock-graph';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('PnpmLockfile');
+
+/**
+ * Dependency sections of importers and packages
+ */
+const IMPORTER_SECTIONS = ['dependencies', 'devDependencies', 'optionalDependencies'] as const;
+
+type YamlObject = Record<string, unknown>;
+
+/**
+ * Import a pnpm-lock.yaml
+ */
+export function importPnpmLockfile(content: string, declared: DeclaredDependencies = {}): ImportedLockfile {
+  // Failsafe schema keeps every scalar a string (versions like 1.10 must not become numbers)
+  const data: unknown = parseYaml(content, { schema: 'failsafe' });
+
+  if (!isObject(data) || data.lockfileVersion === undefined) {
+    throw new Error('Invalid pnpm-lock.yaml: missing lockfileVersion');
+  }
+
+  const major = Math.floor(Number.parseFloat(String(data.lockfileVersion)));
+
+  if (Number.isNaN(major) || major < 5) {
+    throw new Error(`Unsupported pnpm lockfile version: ${data.lockfileVersion}`);
+  }
+
+  const warnings: string[] = [];
+  const graph: LockGraph = { packages: new Map(), importers: new Map() };
+
+  // Single projects keep their dependencies at the top level before v9
+  const importers = isObject(data.importers) ? data.importers : { '.': data };
+
+  for (const [path, importer] of Object.entries(importers)) {
+    if (isObject(importer)) {
+      graph.importers.set(path, parseImporter(importer, major));
+    }
+  }
+
+  // v9 splits resolution metadata (packages) from dependency edges (snapshots)
+  const packages = isObject(data.packages) ? data.packages : {};
+  const snapshots = major >= 9 ? (isObject(data.snapshots) ? data.snapshots : {}) : packages;
+
+  for (const [id, snapshot] of Object.entries(snapshots)) {
+    if (!isObject(snapshot)) {
+      continue;
+    }
+
+    const metadata = major >= 9 ? packages[stripPeerSuffix(id, major)] : snapshot;
+    const info = isObject(metadata) ? metadata : {};
+
+    if (!isInstallable(info)) {
+      continue;
+    }
+
+    const parsed = parsePackageId(id, major);
+    const name = getString(info, 'name') ?? parsed.name;
+    const version = getString(info, 'version') ?? parsed.version;
+    const resolution = isObject(info.resolution) ? info.resolution : {};
+    const tarball = getString(resolution, 'tarball');
+
+    if (!tarball && !/^\d/.test(version)) {
+      warnings.push(`${name}@${version}: unsupported resolution, skipped`);
+      continue;
+    }
+
+    const dependencies: Record<string, string> = {};
+
+    for (const section of ['dependencies', 'optionalDependencies']) {
+      const deps = snapshot[section];
+
+      if (!isObject(deps)) {
+        continue;
+      }
+
+      for (const [depName, ref] of Object.entries(deps)) {
+        if (typeof ref === 'string' && !ref.startsWith('link:')) {
+          dependencies[depName] = toPackageId(depName, ref, major);
+        }
+      }
+    }
+
+    graph.packages.set(id, {
+      name,
+      version,
+      resolved: tarball ?? getRegistryTarballUrl(name, version),
+      integrity: getString(resolution, 'integrity'),
+      dependencies,
+    });
+  }
+
+  logger.debug(`Imported pnpm lockfile v${data.lockfileVersion} with ${graph.packages.size} packages`);
+
+  return importLockGraph('pnpm', graph, declared, warnings);
+}
+
+/**
+ * Parse the direct dependencies of an importer.
+ * v5 stores versions with a separate `specifiers` map, v6+ stores
+ * `{ specifier, version }` objects.
+ */
+function parseImporter(importer: YamlObject, major: number): Record<string, LockedImport> {
+  const specifiers = isObject(importer.specifiers) ? importer.specifiers : {};
+  const imports: Record<string, LockedImport> = {};
+
+  for (const section of IMPORTER_SECTIONS) {
+    const deps = importer[section];
+
+    if (!isObject(deps)) {
+      continue;
+    }
+
+    for (const [name, value] of Object.entries(deps)) {
+      const ref = isObject(value) ? getString(value, 'version') : typeof value === 'string' ? value : undefined;
+      const specifier = isObject(value) ? getString(value, 'specifier') : getString(specifiers, name);
+
+      // Workspace links are handled by the workspace linker
+      if (!ref || ref.startsWith('link:')) {
+        continue;
+      }
+
+      imports[name] = {
+        id: toPackageId(name, ref, major),
+        specifier,
+        version: parsePackageId(toPackageId(name, ref, major), major).version,
+      };
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Turn a dependency reference into a package id.
+ * References are either a version (with peer suffix) or, for aliases,
+ * a full id of another package.
+ */
+function toPackageId(name: string, ref: string, major: number): string {
+  if (major >= 9) {
+    return ref.split('(')[0].indexOf('@', 1) > 0 ? ref : `${name}@${ref}`;
+  }
+
+  if (ref.startsWith('/')) {
+    return ref;
+  }
+
+  return major >= 6 ? `/${name}@${ref}` : `/${name}/${ref}`;
+}
+
+/**
+ * Extract name and version from a package id:
+ * `name@1.0.0(peer@1.0.0)` (v9), `/name@1.0.0(peer@1.0.0)` (v6), `/name/1.0.0_peer@1.0.0` (v5)
+ */
+function parsePackageId(id: string, major: number): { name: string; version: string } {
+  const key = stripPeerSuffix(id.replace(/^\//, ''), major);
+  const separator = major >= 6 ? key.indexOf('@', 1) : key.lastIndexOf('/');
+
+  if (separator <= 0) {
+    return { name: key, version: '' };
+  }
+
+  return { name: key.slice(0, separator), version: key.slice(separator + 1) };
+}
+
+/**
+ * Remove the peer dependency suffix of a package id or version
+ */
+function stripPeerSuffix(id: string, major: number): string {
+  if (major >= 6) {
+    return id.split('(')[0];
+  }
+
+  const slash = id.lastIndexOf('/');
+  const underscore = id.indexOf('_', slash + 1);
+
+  return underscore === -1 ? id : id.slice(0, underscore);
+}
+
+/**
+ * Platform-specific packages (native binaries) cannot run in the browser
+ */
+function isInstallable(info: YamlObject): boolean {
+  return info.os === undefined && info.cpu === undefined && info.libc === undefined;
+}
+
+/**
+ * Type guard for YAML mappings
+ */
+function isObject(value: unknown): value is YamlObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Safely get string value
+ */
+function getString(obj: YamlObject, key: string): string | undefined {
+  const value = obj[key];
+  return typeof value === 'string' ? value : undefined;
+}
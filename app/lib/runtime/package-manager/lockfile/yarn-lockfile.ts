@@ -0,0 +1,275 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Yarn Lockfile
+ * =============================================================================
+ * Imports yarn.lock, both the classic v1 format and the YAML format of
+ * Yarn 2+ (berry). Yarn does not record the direct dependencies of a
+ * project, so they are looked up from the package.json ranges.
+ * =============================================================================
+ */
+
+import { parse as parseYaml } from 'yaml';
+import type { ImportedLockfile } from '../types';
+import {
+  getRegistryTarballUrl,
+  importLockGraph,
+  type DeclaredDependencies,
+  type LockGraph,
+  type LockedImport,
+} from './lock-graph';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('YarnLockfile');
+
+/**
+ * Lockfile entry shared by both formats
+ */
+interface YarnEntry {
+  /** First descriptor of the entry, used as package id */
+  id: string;
+  name: string;
+  version: string;
+  resolved?: string;
+  integrity?: string;
+  dependencies: Record<string, string>;
+}
+
+/**
+ * Import a yarn.lock (classic or berry)
+ */
+export function importYarnLockfile(content: string, declared: DeclaredDependencies = {}): ImportedLockfile {
+  const warnings: string[] = [];
+  const berry = /^__metadata:/m.test(content);
+  const descriptors = berry ? parseBerryLockfile(content, warnings) : parseClassicLockfile(content);
+  const graph: LockGraph = { packages: new Map(), importers: new Map() };
+
+  for (const entry of new Set(descriptors.values())) {
+    const dependencies: Record<string, string> = {};
+
+    for (const [depName, range] of Object.entries(entry.dependencies)) {
+      const dependency = findEntry(descriptors, depName, range);
+
+      if (dependency) {
+        dependencies[depName] = dependency.id;
+      } else {
+        warnings.push(`${entry.name}@${entry.version}: ${depName}@${range} is not in yarn.lock`);
+      }
+    }
+
+    graph.packages.set(entry.id, {
+      name: entry.name,
+      version: entry.version,
+      resolved: entry.resolved ?? getRegistryTarballUrl(entry.name, entry.version),
+      integrity: entry.integrity,
+      dependencies,
+    });
+  }
+
+  for (const [importer, dependencies] of Object.entries(declared)) {
+    const imports: Record<string, LockedImport> = {};
+
+    for (const [name, range] of Object.entries(dependencies)) {
+      const entry = findEntry(descriptors, name, range);
+
+      if (entry) {
+        imports[name] = { id: entry.id, specifier: range, version: entry.version };
+      }
+    }
+
+    graph.importers.set(importer, imports);
+  }
+
+  logger.debug(`Imported ${berry ? 'berry' : 'classic'} yarn lockfile with ${graph.packages.size} packages`);
+
+  return importLockGraph('yarn', graph, declared, warnings);
+}
+
+/**
+ * Parse the classic (v1) format:
+ *
+ *   "@babel/code-frame@^7.0.0", "@babel/code-frame@^7.10.4":
+ *     version "7.12.13"
+ *     resolved "https://registry.yarnpkg.com/...tgz#sha1"
+ *     integrity sha512-...
+ *     dependencies:
+ *       "@babel/highlight" "^7.12.13"
+ */
+function parseClassicLockfile(content: string): Map<string, YarnEntry> {
+  const descriptors = new Map<string, YarnEntry>();
+  let current: YarnEntry | null = null;
+  let section: string | null = null;
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+
+    if (!trimmed || trimmed.startsWith('#')) {
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+
+    if (indent === 0) {
+      const keys = splitDescriptors(trimmed.replace(/:$/, ''));
+      const { name } = parseDescriptor(keys[0]);
+
+      current = { id: keys[0], name, version: '', dependencies: {} };
+      section = null;
+
+      for (const key of keys) {
+        descriptors.set(key, current);
+      }
+
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    if (trimmed.endsWith(':')) {
+      section = indent === 2 ? trimmed.slice(0, -1) : section;
+      continue;
+    }
+
+    const [key, value] = splitKeyValue(trimmed);
+
+    if (indent > 2 && (section === 'dependencies' || section === 'optionalDependencies')) {
+      current.dependencies[key] = value;
+    } else if (indent === 2) {
+      section = null;
+
+      if (key === 'version') {
+        current.version = value;
+      } else if (key === 'resolved') {
+        current.resolved = value.split('#')[0];
+      } else if (key === 'integrity') {
+        current.integrity = value;
+      }
+    }
+  }
+
+  return descriptors;
+}
+
+/**
+ * Parse the berry (Yarn 2+) YAML format. Workspaces and other soft links
+ * are left to the workspace linker; only npm packages are installed.
+ */
+function parseBerryLockfile(content: string, warnings: string[]): Map<string, YarnEntry> {
+  const data: unknown = parseYaml(content, { schema: 'failsafe' });
+  const descriptors = new Map<string, YarnEntry>();
+
+  if (!isObject(data)) {
+    throw new Error('Invalid yarn.lock');
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (key === '__metadata' || !isObject(value)) {
+      continue;
+    }
+
+    const keys = splitDescriptors(key);
+    const resolution = typeof value.resolution === 'string' ? value.resolution : keys[0];
+    const { name, range: reference } = parseDescriptor(resolution);
+
+    if (value.linkType === 'soft') {
+      continue;
+    }
+
+    // Patched packages (patch:name@npm%3A1.0.0#...) are installed unpatched from the registry
+    if (!reference.startsWith('npm:') && !reference.startsWith('patch:')) {
+      warnings.push(`${resolution}: unsupported resolution, skipped`);
+      continue;
+    }
+
+    const version = typeof value.version === 'string' ? value.version : reference.replace(/^npm:/, '');
+    const dependencies: Record<string, string> = {};
+
+    if (isObject(value.dependencies)) {
+      for (const [depName, range] of Object.entries(value.dependencies)) {
+        if (typeof range === 'string') {
+          dependencies[depName] = range;
+        }
+      }
+    }
+
+    const entry: YarnEntry = { id: keys[0], name, version, dependencies };
+
+    for (const descriptor of keys) {
+      descriptors.set(descriptor, entry);
+    }
+  }
+
+  return descriptors;
+}
+
+/**
+ * Find the entry for a dependency range (berry prefixes registry ranges with `npm:`)
+ */
+function findEntry(descriptors: Map<string, YarnEntry>, name: string, range: string): YarnEntry | undefined {
+  return descriptors.get(`${name}@${range}`) ?? descriptors.get(`${name}@npm:${range}`);
+}
+
+/**
+ * Split a comma-separated list of (possibly quoted) descriptors
+ */
+function splitDescriptors(list: string): string[] {
+  const descriptors: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of list) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      descriptors.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  descriptors.push(current.trim());
+
+  return descriptors.filter(Boolean);
+}
+
+/**
+ * Split `name@range` (the name may be scoped)
+ */
+function parseDescriptor(descriptor: string): { name: string; range: string } {
+  const at = descriptor.indexOf('@', 1);
+
+  if (at === -1) {
+    return { name: descriptor, range: '' };
+  }
+
+  return { name: descriptor.slice(0, at), range: descriptor.slice(at + 1) };
+}
+
+/**
+ * Split a classic `key value` line, unquoting both parts
+ */
+function splitKeyValue(line: string): [string, string] {
+  const match = line.match(/^("(?:[^"\\]|\\.)*"|\S+)\s+(.*)$/);
+
+  if (!match) {
+    return [unquote(line), ''];
+  }
+
+  return [unquote(match[1]), unquote(match[2])];
+}
+
+/**
+ * Remove surrounding double quotes
+ */
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+/**
+ * Type guard for YAML mappings
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
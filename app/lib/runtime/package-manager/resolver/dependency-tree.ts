@@ -27,6 +27,21 @@ export interface ResolutionOptions {
   maxDepth?: number;
   /** Progress callback */
   onProgress?: (pkg: string, depth: number) => void;
+
+  /** Workspace packages whose registry dependencies are resolved with the root ones */
+  workspaces?: WorkspaceDependencies[];
+}
+
+/**
+ * Registry dependencies of a workspace package
+ */
+export interface WorkspaceDependencies {
+  name: string;
+  version: string;
+
+  /** Directory relative to the project root */
+  path: string;
+  dependencies: Record<string, string>;
 }
 
 /**
@@ -114,8 +129,10 @@ export class DependencyTree {
       }
     }
 
+    const workspaceNodes = await this._resolveWorkspaces(rootNode, options, warnings);
+
     // Flatten tree for node_modules layout
-    const flat = this._flatten(rootNode);
+    const flat = this._flatten(rootNode, workspaceNodes);
 
     return {
       tree: rootNode,
@@ -124,6 +141,64 @@ export class DependencyTree {
     };
   }
 
+  /**
+   * Resolve workspace dependencies. A dependency is hoisted to the root when
+   * the root has none of that name yet, shared when the hoisted version
+   * satisfies the workspace range, and nested under the workspace otherwise.
+   */
+  private async _resolveWorkspaces(
+    rootNode: DependencyNode,
+    options: ResolutionOptions,
+    warnings: string[],
+  ): Promise<Map<string, DependencyNode>> {
+    const workspaceNodes = new Map<string, DependencyNode>();
+
+    for (const workspace of options.workspaces ?? []) {
+      const workspaceNode: DependencyNode = {
+        name: workspace.name,
+        version: workspace.version,
+        resolved: {
+          name: workspace.name,
+          version: workspace.version,
+          resolved: workspace.path,
+        },
+        dependencies: new Map(),
+        depth: 0,
+      };
+
+      for (const [name, range] of Object.entries(workspace.dependencies)) {
+        const hoisted = rootNode.dependencies.get(name);
+
+        if (hoisted && satisfies(hoisted.version, range)) {
+          continue;
+        }
+
+        try {
+          options.onProgress?.(name, 0);
+
+          const node = await this._resolvePackage(name, range, 1, workspaceNode, options);
+
+          if (!node || node.version === hoisted?.version) {
+            continue;
+          }
+
+          if (hoisted) {
+            workspaceNode.dependencies.set(name, node);
+          } else {
+            rootNode.dependencies.set(name, node);
+          }
+        } catch (error) {
+          const message = error instanceof PMError ? error.message : String(error);
+          warnings.push(`${workspace.name} > ${name}: ${message}`);
+        }
+      }
+
+      workspaceNodes.set(workspace.path, workspaceNode);
+    }
+
+    return workspaceNodes;
+  }
+
   /**
    * Resolve a single package and its dependencies
    * FIX 1.5: Added iteration limit and in-progress tracking
@@ -338,13 +413,21 @@ export class DependencyTree {
    * Flatten dependency tree for node_modules layout
    * Uses npm-style hoisting
    */
-  private _flatten(root: DependencyNode): Map<string, FlatDependency> {
+  private _flatten(
+    root: DependencyNode,
+    workspaceNodes: Map<string, DependencyNode> = new Map(),
+  ): Map<string, FlatDependency> {
     const flat = new Map<string, FlatDependency>();
     const hoisted = new Map<string, string>(); // name -> version at root
 
     // First pass: collect all packages and try to hoist
     this._collectPackages(root, flat, hoisted, '');
 
+    // Workspace conflicts land in <workspace>/node_modules
+    for (const [path, node] of workspaceNodes) {
+      this._collectPackages(node, flat, hoisted, path);
+    }
+
     return flat;
   }
 
@@ -37,4 +37,5 @@ export {
   calculateSize,
   type ResolutionOptions,
   type ResolutionResult,
+  type WorkspaceDependencies,
 } from './dependency-tree';
@@ -36,6 +36,7 @@ export type RangeType =
   | 'lte' // <=1.0.0
   | 'range' // 1.0.0 - 2.0.0
   | 'or' // 1.0.0 || 2.0.0
+  | 'and' // >=1.0.0 <2.0.0
   | 'any' // * or latest
   | 'tag'; // latest, next, etc.
 
@@ -212,6 +213,17 @@ export function parseRange(range: string): ParsedRange {
     }
   }
 
+  // Handle comparator sets (>=1.0.0 <2.0.0), allowing spaces after operators
+  const comparators = trimmed.replace(/([<>=~^]+)\s+/g, '$1').split(/\s+/);
+
+  if (comparators.length > 1) {
+    return {
+      type: 'and',
+      ranges: comparators.map(parseRange),
+      raw: trimmed,
+    };
+  }
+
   // Handle caret range (^1.0.0)
   if (trimmed.startsWith('^')) {
     const version = parseVersion(trimmed.slice(1));
@@ -362,6 +374,9 @@ export function satisfies(version: ParsedVersion | string, range: ParsedRange |
       if (!rng.ranges) return false;
       return rng.ranges.some((r) => satisfies(ver, r));
 
+    case 'and':
+      return rng.ranges ? rng.ranges.every((r) => satisfies(ver, r)) : false;
+
     case 'tag':
       // Tags need to be resolved via registry first
       return false;
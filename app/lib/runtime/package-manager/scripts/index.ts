@@ -0,0 +1,16 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Scripts Module
+ * =============================================================================
+ * Public exports for package.json script execution.
+ * =============================================================================
+ */
+
+export {
+  runPackageScript,
+  buildScriptEnv,
+  buildScriptPath,
+  getLifecycleSequence,
+  quoteScriptArgs,
+  type PackageScriptOptions,
+} from './script-runner';
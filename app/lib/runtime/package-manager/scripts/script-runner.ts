@@ -0,0 +1,256 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Script Runner
+ * =============================================================================
+ * Runs package.json scripts with npm semantics: pre/post lifecycle hooks,
+ * npm_* environment variables and node_modules/.bin on the PATH.
+ * Command lines are handed to an injected executor (the virtual shell).
+ * =============================================================================
+ */
+
+import type { PackageJson, RunScriptOptions, ScriptCommandExecutor, ScriptResult } from '../types';
+import { PMError } from '../types';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ScriptRunner');
+
+/**
+ * Exit code used when a script is interrupted (Ctrl+C)
+ */
+const ABORTED_EXIT_CODE = 130;
+
+/**
+ * Options for running a package script
+ */
+export interface PackageScriptOptions extends RunScriptOptions {
+  /** Package root (directory holding package.json) */
+  projectRoot: string;
+
+  /** Executor used to run each command line */
+  executor: ScriptCommandExecutor;
+}
+
+/**
+ * Get the lifecycle sequence for a script (pre<name>, <name>, post<name>)
+ */
+export function getLifecycleSequence(
+  scripts: Record<string, string>,
+  scriptName: string,
+  ignoreScripts = false,
+): string[] {
+  if (ignoreScripts) {
+    return [scriptName];
+  }
+
+  const sequence: string[] = [];
+
+  if (scripts[`pre${scriptName}`]) {
+    sequence.push(`pre${scriptName}`);
+  }
+
+  sequence.push(scriptName);
+
+  if (scripts[`post${scriptName}`]) {
+    sequence.push(`post${scriptName}`);
+  }
+
+  return sequence;
+}
+
+/**
+ * Quote extra arguments so they survive shell parsing
+ */
+export function quoteScriptArgs(args: string[]): string {
+  return args
+    .map((arg) => {
+      if (arg === '') {
+        return "''";
+      }
+
+      if (/^[\w@%+=:,./-]+$/.test(arg)) {
+        return arg;
+      }
+
+      return `'${arg.replace(/'/g, `'\\''`)}'`;
+    })
+    .join(' ');
+}
+
+/**
+ * Build the PATH for a script: every node_modules/.bin from the package root
+ * up to the filesystem root, followed by the inherited PATH
+ */
+export function buildScriptPath(projectRoot: string, basePath?: string): string {
+  const binDirs: string[] = [];
+  let dir = projectRoot.replace(/\/+$/, '') || '/';
+
+  while (true) {
+    binDirs.push(dir === '/' ? '/node_modules/.bin' : `${dir}/node_modules/.bin`);
+
+    if (dir === '/') {
+      break;
+    }
+
+    dir = dir.substring(0, dir.lastIndexOf('/')) || '/';
+  }
+
+  return basePath ? [...binDirs, basePath].join(':') : binDirs.join(':');
+}
+
+/**
+ * Build the environment for a lifecycle script.
+ * Mirrors npm >= 7: name, version, config, engines and bin are exposed as
+ * npm_package_* variables, plus npm_lifecycle_event and npm_lifecycle_script.
+ */
+export function buildScriptEnv(
+  packageJson: PackageJson,
+  options: {
+    projectRoot: string;
+    scriptName: string;
+    script: string;
+    baseEnv?: Record<string, string | undefined>;
+  },
+): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(options.baseEnv ?? {})) {
+    if (value !== undefined) {
+      env[key] = value;
+    }
+  }
+
+  env.PATH = buildScriptPath(options.projectRoot, env.PATH);
+  env.INIT_CWD = env.INIT_CWD ?? env.PWD ?? options.projectRoot;
+  env.PWD = options.projectRoot;
+  env.npm_command = 'run-script';
+  env.npm_lifecycle_event = options.scriptName;
+  env.npm_lifecycle_script = options.script;
+  env.npm_package_json = `${options.projectRoot}/package.json`;
+
+  if (packageJson.name) {
+    env.npm_package_name = packageJson.name;
+  }
+
+  if (packageJson.version) {
+    env.npm_package_version = packageJson.version;
+  }
+
+  flattenIntoEnv(env, 'npm_package_config_', packageJson.config);
+  flattenIntoEnv(env, 'npm_package_engines_', packageJson.engines);
+
+  if (typeof packageJson.bin === 'string') {
+    const binName = packageJson.name?.split('/').pop();
+
+    if (binName) {
+      env[`npm_package_bin_${toEnvKey(binName)}`] = packageJson.bin;
+    }
+  } else {
+    flattenIntoEnv(env, 'npm_package_bin_', packageJson.bin);
+  }
+
+  return env;
+}
+
+/**
+ * Run a script and its pre/post hooks, stopping at the first failure
+ */
+export async function runPackageScript(
+  packageJson: PackageJson,
+  scriptName: string,
+  args: string[],
+  options: PackageScriptOptions,
+): Promise<ScriptResult> {
+  const startTime = Date.now();
+  const scripts = packageJson.scripts ?? {};
+
+  if (!scripts[scriptName]) {
+    throw new PMError('SCRIPT_ERROR', `Missing script: "${scriptName}"`);
+  }
+
+  let stdout = '';
+  let stderr = '';
+  let exitCode = 0;
+
+  const writeStdout = (data: string) => {
+    stdout += data;
+    options.stdout?.(data);
+  };
+  const writeStderr = (data: string) => {
+    stderr += data;
+    options.stderr?.(data);
+  };
+
+  for (const event of getLifecycleSequence(scripts, scriptName, options.ignoreScripts)) {
+    if (options.signal?.aborted) {
+      exitCode = ABORTED_EXIT_CODE;
+      break;
+    }
+
+    // Extra arguments only go to the script that was asked for, like npm
+    const extraArgs = event === scriptName && args.length > 0 ? ` ${quoteScriptArgs(args)}` : '';
+    const command = `${scripts[event]}${extraArgs}`;
+
+    if (!options.silent) {
+      const id = packageJson.version ? `${packageJson.name}@${packageJson.version}` : packageJson.name;
+      writeStdout(`\n> ${id} ${event}\n> ${command}\n\n`);
+    }
+
+    const env = buildScriptEnv(packageJson, {
+      projectRoot: options.projectRoot,
+      scriptName: event,
+      script: command,
+      baseEnv: options.env,
+    });
+
+    logger.debug(`Running ${event}: ${command}`);
+
+    exitCode = await options.executor(command, {
+      cwd: options.projectRoot,
+      env,
+      stdout: writeStdout,
+      stderr: writeStderr,
+      signal: options.signal,
+    });
+
+    if (exitCode !== 0) {
+      logger.debug(`Script ${event} exited with code ${exitCode}`);
+      break;
+    }
+  }
+
+  return {
+    exitCode,
+    stdout,
+    stderr,
+    duration: Date.now() - startTime,
+  };
+}
+
+/**
+ * Flatten a (possibly nested) object into prefixed environment variables
+ */
+function flattenIntoEnv(env: Record<string, string>, prefix: string, value: unknown): void {
+  if (value === null || value === undefined) {
+    return;
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    env[prefix.replace(/_$/, '')] = Array.isArray(value) ? value.join('\n\n') : String(value);
+    return;
+  }
+
+  for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+    if (nested !== null && typeof nested === 'object' && !Array.isArray(nested)) {
+      flattenIntoEnv(env, `${prefix}${toEnvKey(key)}_`, nested);
+    } else if (nested !== null && nested !== undefined) {
+      env[`${prefix}${toEnvKey(key)}`] = Array.isArray(nested) ? nested.join('\n\n') : String(nested);
+    }
+  }
+}
+
+/**
+ * Turn a package.json key into a valid environment variable name segment
+ */
+function toEnvKey(key: string): string {
+  return key.replace(/[^a-zA-Z0-9_]/g, '_');
+}
@@ -22,11 +22,13 @@ export interface PackageJson {
   peerDependencies?: Record<string, string>;
   optionalDependencies?: Record<string, string>;
   scripts?: Record<string, string>;
+  config?: Record<string, unknown>;
   bin?: string | Record<string, string>;
   files?: string[];
   repository?: { type: string; url: string } | string;
   license?: string;
   engines?: { node?: string; npm?: string };
+  workspaces?: string[] | { packages?: string[]; nohoist?: string[] };
 }
 
 /**
@@ -105,6 +107,18 @@ export interface FlatDependency {
   binaries?: Record<string, string>;
 }
 
+/**
+ * Workspace package discovered from the root package.json `workspaces` globs
+ */
+export interface WorkspacePackage {
+  name: string;
+  version: string;
+
+  /** Directory relative to the project root (e.g. packages/ui) */
+  path: string;
+  packageJson: PackageJson;
+}
+
 /**
  * Install options
  */
@@ -143,6 +157,12 @@ export interface InstallResult {
   warnings: string[];
   errors: string[];
   duration: number;
+
+  /** Lockfile the install was checked against */
+  lockfile?: LockfileFormat;
+
+  /** Drift between package.json and that lockfile */
+  drift?: LockfileDrift[];
 }
 
 /**
@@ -159,13 +179,144 @@ export interface PackageLock {
  * Package-lock.json entry
  */
 export interface PackageLockEntry {
-  version: string;
+  /** Absent on workspace links */
+  version?: string;
+
+  /** Workspace package name (root and workspace entries) */
+  name?: string;
   resolved?: string;
   integrity?: string;
   dev?: boolean;
   optional?: boolean;
   dependencies?: Record<string, string>;
   peerDependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+
+  /** Workspace globs (root entry only) */
+  workspaces?: string[];
+
+  /** node_modules entry pointing at a workspace directory given in `resolved` */
+  link?: boolean;
+}
+
+/**
+ * Lockfile formats BaviniPM can install from
+ */
+export type LockfileFormat = 'npm' | 'pnpm' | 'yarn';
+
+/**
+ * Difference between package.json and a lockfile
+ */
+export interface LockfileDrift {
+  /** Importer path: '.' for the root package, else the workspace directory */
+  importer: string;
+  name: string;
+  kind: 'missing' | 'changed' | 'extraneous';
+
+  /** Range declared in package.json */
+  range?: string;
+
+  /** Specifier or version recorded in the lockfile */
+  locked?: string;
+}
+
+/**
+ * Lockfile mapped onto the node_modules layout
+ */
+export interface ImportedLockfile {
+  format: LockfileFormat;
+  flat: Map<string, FlatDependency>;
+  drift: LockfileDrift[];
+  warnings: string[];
+}
+
+/**
+ * Dependency behind the registry (npm outdated)
+ */
+export interface OutdatedPackage {
+  name: string;
+
+  /** Installed version (absent when the package is not installed) */
+  current?: string;
+
+  /** Highest version satisfying the declared range */
+  wanted: string;
+
+  /** Version of the `latest` dist-tag */
+  latest: string;
+  range: string;
+  type: 'dependencies' | 'devDependencies';
+
+  /** Declaring package: '.' for the root, else the workspace directory */
+  dependent: string;
+}
+
+/**
+ * Update result
+ */
+export interface UpdateResult extends InstallResult {
+  updated: Array<{ name: string; dependent: string; from?: string; to: string }>;
+}
+
+/**
+ * Advisory severity, lowest first
+ */
+export type AuditSeverity = 'info' | 'low' | 'moderate' | 'high' | 'critical';
+
+/**
+ * Security advisory for a range of package versions
+ */
+export interface Advisory {
+  id: string;
+  name: string;
+  title: string;
+  severity: AuditSeverity;
+
+  /** Semver range of the affected versions */
+  vulnerableVersions: string;
+  url?: string;
+  cwe?: string[];
+}
+
+/**
+ * Installed package matched by an advisory
+ */
+export interface AuditFinding {
+  advisory: Advisory;
+  version: string;
+
+  /** node_modules paths of the affected copies */
+  paths: string[];
+
+  /** Whether a package.json declares the package directly */
+  direct: boolean;
+}
+
+/**
+ * Audit options
+ */
+export interface AuditOptions {
+  /** Advisories to check; read from `advisoryFile` when absent */
+  advisories?: Advisory[];
+
+  /** Advisory JSON file, relative to the project root */
+  advisoryFile?: string;
+
+  /** Lowest severity to report */
+  auditLevel?: AuditSeverity;
+}
+
+/**
+ * Audit report
+ */
+export interface AuditReport {
+  findings: AuditFinding[];
+
+  /** Number of installed package copies checked */
+  scanned: number;
+
+  /** Number of findings per severity */
+  summary: Record<AuditSeverity, number>;
 }
 
 /**
@@ -193,6 +344,62 @@ export interface ScriptResult {
   duration: number;
 }
 
+/**
+ * Environment and I/O handed to a script command executor
+ */
+export interface ScriptExecutionContext {
+  /** Directory the command runs in (the package root) */
+  cwd: string;
+
+  /** Full environment, including npm_* variables and the augmented PATH */
+  env: Record<string, string>;
+
+  /** Write to stdout */
+  stdout: (data: string) => void;
+
+  /** Write to stderr */
+  stderr: (data: string) => void;
+
+  /** Abort signal (Ctrl+C) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Executes one script command line and resolves with its exit code.
+ * Provided by the shell (see terminal/builtins/npm.ts) so the package manager
+ * does not depend on the terminal implementation.
+ */
+export type ScriptCommandExecutor = (command: string, context: ScriptExecutionContext) => Promise<number>;
+
+/**
+ * Script run options
+ */
+export interface RunScriptOptions {
+  /** Command executor, overrides the one given in the BaviniPM config */
+  executor?: ScriptCommandExecutor;
+
+  /** Base environment (usually the shell environment) */
+  env?: Record<string, string | undefined>;
+
+  /** Streamed stdout */
+  stdout?: (data: string) => void;
+
+  /** Streamed stderr */
+  stderr?: (data: string) => void;
+
+  /** Abort signal */
+  signal?: AbortSignal;
+
+  /** Skip pre/post lifecycle scripts */
+  ignoreScripts?: boolean;
+
+  /** Do not print the "> name@version script" banner */
+  silent?: boolean;
+
+  /** Workspace (name or directory) to run the script in, BaviniPM only */
+  workspace?: string;
+}
+
 /**
  * Semver range types
  */
@@ -240,6 +447,7 @@ export const PMErrorCode = {
   DEPENDENCY_CONFLICT: 'DEPENDENCY_CONFLICT',
   SCRIPT_ERROR: 'SCRIPT_ERROR',
   INVALID_PACKAGE_JSON: 'INVALID_PACKAGE_JSON',
+  INVALID_ADVISORIES: 'INVALID_ADVISORIES',
   /** FIX 1.5: Added for circular dependency / infinite loop protection */
   RESOLUTION_LIMIT: 'RESOLUTION_LIMIT',
 } as const;
@@ -0,0 +1,18 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Workspaces Module
+ * =============================================================================
+ * Public exports for npm workspaces support.
+ * =============================================================================
+ */
+
+export {
+  WORKSPACE_PROTOCOL,
+  getWorkspacePatterns,
+  discoverWorkspaces,
+  isWorkspaceRange,
+  resolveWorkspaceRange,
+  splitWorkspaceDependencies,
+  findWorkspace,
+  type SplitDependencies,
+} from './workspaces';
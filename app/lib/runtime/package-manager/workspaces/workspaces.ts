@@ -0,0 +1,212 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Workspaces
+ * =============================================================================
+ * npm workspaces support: discovers workspace packages from the root
+ * package.json globs, resolves `workspace:` ranges and separates local
+ * links from registry dependencies.
+ * =============================================================================
+ */
+
+import type { MountManager } from '../../filesystem';
+import { expandGlob } from '../../filesystem/glob';
+import type { PackageJson, WorkspacePackage } from '../types';
+import { PMError } from '../types';
+import { satisfies } from '../resolver/version-resolver';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('Workspaces');
+
+/**
+ * Protocol prefix for ranges that must resolve to a workspace package
+ */
+export const WORKSPACE_PROTOCOL = 'workspace:';
+
+/**
+ * Dependencies of a package split between workspace links and registry packages
+ */
+export interface SplitDependencies {
+  /** Dependencies fetched from the registry */
+  external: Record<string, string>;
+
+  /** Dependencies satisfied by a workspace package */
+  links: WorkspacePackage[];
+
+  /** `workspace:` ranges that no workspace package satisfies */
+  errors: string[];
+}
+
+/**
+ * Get the workspace globs of a package.json (npm array or yarn `{ packages }` form)
+ */
+export function getWorkspacePatterns(packageJson: PackageJson): string[] {
+  const { workspaces } = packageJson;
+
+  if (Array.isArray(workspaces)) {
+    return workspaces;
+  }
+
+  return workspaces?.packages ?? [];
+}
+
+/**
+ * Discover workspace packages below the project root.
+ * Patterns starting with `!` exclude directories matched by earlier ones.
+ */
+export async function discoverWorkspaces(
+  fs: MountManager,
+  projectRoot: string,
+  packageJson: PackageJson,
+): Promise<WorkspacePackage[]> {
+  const patterns = getWorkspacePatterns(packageJson);
+  const directories = new Set<string>();
+
+  for (const raw of patterns) {
+    const negated = raw.startsWith('!');
+    const pattern = normalizeWorkspacePath(negated ? raw.slice(1) : raw);
+
+    if (!pattern) {
+      continue;
+    }
+
+    const matches = await expandGlob(fs, pattern, projectRoot);
+
+    for (const match of matches) {
+      if (negated) {
+        directories.delete(match);
+      } else if (!match.split('/').includes('node_modules')) {
+        directories.add(match);
+      }
+    }
+  }
+
+  const workspaces: WorkspacePackage[] = [];
+  const byName = new Map<string, string>();
+
+  for (const dir of [...directories].sort()) {
+    let workspaceJson: PackageJson;
+
+    try {
+      const data = await fs.readFile(`${projectRoot}/${dir}/package.json`);
+      workspaceJson = JSON.parse(new TextDecoder().decode(data));
+    } catch {
+      // Not a package directory
+      continue;
+    }
+
+    if (!workspaceJson.name) {
+      throw new PMError('INVALID_PACKAGE_JSON', `Workspace at ${dir} has no name in its package.json`);
+    }
+
+    const existing = byName.get(workspaceJson.name);
+
+    if (existing) {
+      throw new PMError(
+        'INVALID_PACKAGE_JSON',
+        `Workspace name ${workspaceJson.name} is used by both ${existing} and ${dir}`,
+        workspaceJson.name,
+      );
+    }
+
+    byName.set(workspaceJson.name, dir);
+    workspaces.push({
+      name: workspaceJson.name,
+      version: workspaceJson.version ?? '0.0.0',
+      path: dir,
+      packageJson: workspaceJson,
+    });
+  }
+
+  logger.debug(`Discovered ${workspaces.length} workspaces`);
+
+  return workspaces;
+}
+
+/**
+ * Check if a range uses the workspace protocol
+ */
+export function isWorkspaceRange(range: string): boolean {
+  return range.startsWith(WORKSPACE_PROTOCOL);
+}
+
+/**
+ * Turn a `workspace:` range into the range it stands for, given the
+ * workspace version: `*` pins the exact version, `^` and `~` prefix it,
+ * anything else is used as written.
+ */
+export function resolveWorkspaceRange(range: string, version: string): string {
+  const spec = isWorkspaceRange(range) ? range.slice(WORKSPACE_PROTOCOL.length) : range;
+
+  switch (spec) {
+    case '':
+    case '*':
+      return version;
+
+    case '^':
+    case '~':
+      return `${spec}${version}`;
+
+    default:
+      return spec;
+  }
+}
+
+/**
+ * Split dependencies between workspace links and registry packages.
+ * Like npm, a plain range is linked when a workspace of that name satisfies it.
+ */
+export function splitWorkspaceDependencies(
+  dependencies: Record<string, string>,
+  workspaces: WorkspacePackage[],
+): SplitDependencies {
+  const result: SplitDependencies = { external: {}, links: [], errors: [] };
+
+  for (const [name, range] of Object.entries(dependencies)) {
+    const workspace = workspaces.find((ws) => ws.name === name);
+
+    if (isWorkspaceRange(range)) {
+      if (!workspace) {
+        result.errors.push(`${name}@${range}: no workspace package named ${name}`);
+      } else if (!workspaceSatisfies(workspace, range)) {
+        result.errors.push(`${name}@${range}: workspace version ${workspace.version} does not match`);
+      } else {
+        result.links.push(workspace);
+      }
+
+      continue;
+    }
+
+    if (workspace && workspaceSatisfies(workspace, range)) {
+      result.links.push(workspace);
+    } else {
+      result.external[name] = range;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find a workspace by name or directory, as accepted by `npm -w`
+ */
+export function findWorkspace(workspaces: WorkspacePackage[], nameOrPath: string): WorkspacePackage | undefined {
+  const path = normalizeWorkspacePath(nameOrPath);
+
+  return workspaces.find((ws) => ws.name === nameOrPath || ws.path === path);
+}
+
+/**
+ * Check a workspace version against a (possibly `workspace:`) range
+ */
+function workspaceSatisfies(workspace: WorkspacePackage, range: string): boolean {
+  const resolved = resolveWorkspaceRange(range, workspace.version);
+
+  return resolved === '*' || resolved === 'latest' || satisfies(workspace.version, resolved);
+}
+
+/**
+ * Strip leading `./` and trailing slashes from a workspace path or pattern
+ */
+function normalizeWorkspacePath(path: string): string {
+  return path.replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+}
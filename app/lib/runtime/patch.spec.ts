@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, parsePatch, PatchError } from './patch';
+
+const FILE = [
+  'import { useState } from "react";',
+  '',
+  'export function Counter() {',
+  '  const [count, setCount] = useState(0);',
+  '',
+  '  return <button onClick={() => setCount(count + 1)}>{count}</button>;',
+  '}',
+  '',
+].join('\n');
+
+describe('applyPatch', () => {
+  describe('search/replace blocks', () => {
+    it('should replace every block', () => {
+      const patch = [
+        '<<<<<<< SEARCH',
+        '  const [count, setCount] = useState(0);',
+        '=======',
+        '  const [count, setCount] = useState(10);',
+        '>>>>>>> REPLACE',
+        '<<<<<<< SEARCH',
+        'export function Counter() {',
+        '=======',
+        'export default function Counter() {',
+        '>>>>>>> REPLACE',
+      ].join('\n');
+
+      const result = applyPatch(FILE, patch);
+
+      expect(result).toContain('useState(10)');
+      expect(result).toContain('export default function Counter() {');
+      expect(result.endsWith('}\n')).toBe(true);
+    });
+
+    it('should match despite indentation and trailing whitespace drift', () => {
+      const patch = [
+        '<<<<<<< SEARCH',
+        'const [count, setCount] = useState(0);   ',
+        '=======',
+        '  const count = 0;',
+        '>>>>>>> REPLACE',
+      ].join('\n');
+
+      expect(applyPatch(FILE, patch)).toContain('\n  const count = 0;\n');
+    });
+
+    it('should reject ambiguous blocks', () => {
+      const patch = ['<<<<<<< SEARCH', '', '=======', '// blank', '>>>>>>> REPLACE'].join('\n');
+
+      expect(() => applyPatch(FILE, patch)).toThrow(/correspond à 3 endroits/);
+    });
+
+    it('should report where the context diverges and apply nothing', () => {
+      const patch = [
+        '<<<<<<< SEARCH',
+        '  const [count, setCount] = useState(0);',
+        '=======',
+        '  const [count, setCount] = useState(1);',
+        '>>>>>>> REPLACE',
+        '<<<<<<< SEARCH',
+        'export function Counter() {',
+        '  const [value, setValue] = useState(0);',
+        '=======',
+        '',
+        '>>>>>>> REPLACE',
+      ].join('\n');
+
+      expect(() => applyPatch(FILE, patch)).toThrow(PatchError);
+      expect(() => applyPatch(FILE, patch)).toThrow(
+        'Le bloc 2 ne s\'applique pas : le contexte diverge à la ligne 4 : attendu "  const [value, setValue] = useState(0);"',
+      );
+    });
+  });
+
+  describe('unified diff', () => {
+    it('should apply hunks, using the header line to pick between matches', () => {
+      const content = ['a', 'x', 'b', 'a', 'x', 'b'].join('\n');
+      const patch = ['--- file', '+++ file', '@@ -4,3 +4,3 @@', ' a', '-x', '+y', ' b'].join('\n');
+
+      expect(applyPatch(content, patch)).toBe(['a', 'x', 'b', 'a', 'y', 'b'].join('\n'));
+    });
+
+    it('should apply several hunks in order', () => {
+      const patch = [
+        '@@ -1,2 +1,2 @@',
+        '-import { useState } from "react";',
+        "+import { useState } from 'react';",
+        ' ',
+        '@@ -4,1 +4,2 @@',
+        '   const [count, setCount] = useState(0);',
+        '+  const double = count * 2;',
+      ].join('\n');
+
+      const result = applyPatch(FILE, patch).split('\n');
+
+      expect(result[0]).toBe("import { useState } from 'react';");
+      expect(result[4]).toBe('  const double = count * 2;');
+    });
+
+    it('should keep CRLF line endings', () => {
+      const patch = ['@@ -1,2 +1,2 @@', ' one', '-two', '+deux'].join('\n');
+
+      expect(applyPatch('one\r\ntwo\r\n', patch)).toBe('one\r\ndeux\r\n');
+    });
+  });
+
+  it('should reject content that is not a patch', () => {
+    expect(() => parsePatch('export const a = 1;')).toThrow(/Format de patch non reconnu/);
+  });
+
+  it('should reject unterminated blocks', () => {
+    expect(() => parsePatch('<<<<<<< SEARCH\na\n=======\nb')).toThrow(/n'est pas terminé/);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * =============================================================================
+ * BAVINI Patch
+ * =============================================================================
+ * Applies the content of `patch` actions to a file. Two formats are accepted:
+ *
+ * - Search/replace blocks:
+ *     <<<<<<< SEARCH
+ *     old lines
+ *     =======
+ *     new lines
+ *     >>>>>>> REPLACE
+ *
+ * - Unified diff hunks (`@@ -a,b +c,d @@`, the ---/+++ headers are optional)
+ *
+ * Matching tolerates whitespace drift: exact lines first, then lines compared
+ * without trailing whitespace, then without indentation. Every block must
+ * apply or nothing is changed.
+ * =============================================================================
+ */
+
+const SEARCH_MARKER = /^<{5,} SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,}\s*$/;
+const REPLACE_MARKER = /^>{5,} REPLACE\s*$/;
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+/**
+ * Line comparisons, from the strictest to the most tolerant
+ */
+const MATCHERS: Array<(line: string) => string> = [(line) => line, (line) => line.trimEnd(), (line) => line.trim()];
+
+/**
+ * A block of the patch: lines to find and lines replacing them
+ */
+interface PatchBlock {
+  /** Label used in errors (e.g. "bloc 2", "hunk 1 (@@ -10,4 +10,6 @@)") */
+  label: string;
+  search: string[];
+  replace: string[];
+
+  /** Expected line (0-based) from the hunk header, closest match wins */
+  hint?: number;
+}
+
+/**
+ * A patch that does not apply, the message says which block and why
+ */
+export class PatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchError';
+  }
+}
+
+/**
+ * Apply a patch to the content of a file
+ *
+ * @throws PatchError when the patch is malformed or a block does not match
+ */
+export function applyPatch(content: string, patch: string): string {
+  const blocks = parsePatch(patch);
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  let lines = content.split(/\r?\n/);
+
+  for (const block of blocks) {
+    lines = applyBlock(lines, block);
+  }
+
+  return lines.join(eol);
+}
+
+/**
+ * Split a patch into blocks, whatever its format
+ */
+export function parsePatch(patch: string): PatchBlock[] {
+  const lines = patch.split(/\r?\n/);
+
+  if (lines.some((line) => SEARCH_MARKER.test(line))) {
+    return parseSearchReplace(lines);
+  }
+
+  if (lines.some((line) => HUNK_HEADER.test(line))) {
+    return parseUnifiedDiff(lines);
+  }
+
+  throw new PatchError(
+    'Format de patch non reconnu : utilise des blocs <<<<<<< SEARCH / ======= / >>>>>>> REPLACE ou un diff unifié (@@ -a,b +c,d @@)',
+  );
+}
+
+function parseSearchReplace(lines: string[]): PatchBlock[] {
+  const blocks: PatchBlock[] = [];
+  let current: PatchBlock | null = null;
+  let inReplace = false;
+
+  for (const line of lines) {
+    if (SEARCH_MARKER.test(line)) {
+      current = { label: `bloc ${blocks.length + 1}`, search: [], replace: [] };
+      inReplace = false;
+    } else if (current && !inReplace && DIVIDER_MARKER.test(line)) {
+      inReplace = true;
+    } else if (current && inReplace && REPLACE_MARKER.test(line)) {
+      blocks.push(current);
+      current = null;
+    } else if (current) {
+      (inReplace ? current.replace : current.search).push(line);
+    }
+  }
+
+  if (current) {
+    throw new PatchError(`Le ${current.label} n'est pas terminé par >>>>>>> REPLACE`);
+  }
+
+  for (const block of blocks) {
+    if (block.search.length === 0) {
+      throw new PatchError(`La section SEARCH du ${block.label} est vide`);
+    }
+  }
+
+  return blocks;
+}
+
+function parseUnifiedDiff(lines: string[]): PatchBlock[] {
+  const blocks: PatchBlock[] = [];
+  let current: PatchBlock | null = null;
+
+  for (const line of lines) {
+    const header = line.match(HUNK_HEADER);
+
+    if (header) {
+      current = {
+        label: `hunk ${blocks.length + 1} (${header[0]})`,
+        search: [],
+        replace: [],
+        hint: Math.max(0, Number(header[1]) - 1),
+      };
+      blocks.push(current);
+    } else if (!current || line.startsWith('\\')) {
+      // File headers before the first hunk, "\ No newline at end of file"
+      continue;
+    } else if (line.startsWith('-')) {
+      current.search.push(line.slice(1));
+    } else if (line.startsWith('+')) {
+      current.replace.push(line.slice(1));
+    } else {
+      // Context line, the leading space may have been stripped
+      const text = line.startsWith(' ') ? line.slice(1) : line;
+
+      current.search.push(text);
+      current.replace.push(text);
+    }
+  }
+
+  // A trailing empty line of the action content is not context
+  for (const block of blocks) {
+    while (block.search.length > 0 && block.search.at(-1) === '' && block.replace.at(-1) === '') {
+      block.search.pop();
+      block.replace.pop();
+    }
+  }
+
+  return blocks;
+}
+
+function applyBlock(lines: string[], block: PatchBlock): string[] {
+  // A hunk without context nor removed lines inserts at its line
+  if (block.search.length === 0) {
+    const at = Math.min(block.hint ?? lines.length, lines.length);
+
+    return [...lines.slice(0, at), ...block.replace, ...lines.slice(at)];
+  }
+
+  for (const normalize of MATCHERS) {
+    const matches = findMatches(lines, block.search, normalize);
+
+    if (matches.length === 0) {
+      continue;
+    }
+
+    if (matches.length > 1 && block.hint === undefined) {
+      throw new PatchError(
+        `Le ${block.label} correspond à ${matches.length} endroits du fichier (lignes ${matches.map((m) => m + 1).join(', ')}) : ajoute des lignes de contexte pour le rendre unique`,
+      );
+    }
+
+    const hint = block.hint ?? 0;
+    const at = matches.reduce((best, match) => (Math.abs(match - hint) < Math.abs(best - hint) ? match : best));
+
+    return [...lines.slice(0, at), ...block.replace, ...lines.slice(at + block.search.length)];
+  }
+
+  throw new PatchError(describeMismatch(lines, block));
+}
+
+function findMatches(lines: string[], search: string[], normalize: (line: string) => string): number[] {
+  const wanted = search.map(normalize);
+  const matches: number[] = [];
+
+  for (let start = 0; start + wanted.length <= lines.length; start++) {
+    if (wanted.every((line, offset) => normalize(lines[start + offset]) === line)) {
+      matches.push(start);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Say where the block diverges from the file, for the model to fix its patch
+ */
+function describeMismatch(lines: string[], block: PatchBlock): string {
+  const first = block.search.find((line) => line.trim() !== '') ?? block.search[0];
+  const candidates = lines
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => line.trim() !== '' && line.trim() === first.trim());
+
+  let detail = `la ligne ${JSON.stringify(first.trim())} est introuvable`;
+
+  // Longest run of matching lines from an occurrence of the first line
+  let best: { index: number; matched: number } | null = null;
+
+  for (const { index } of candidates) {
+    let matched = 0;
+
+    while (
+      matched < block.search.length &&
+      index + matched < lines.length &&
+      lines[index + matched].trim() === block.search[matched].trim()
+    ) {
+      matched++;
+    }
+
+    if (!best || matched > best.matched) {
+      best = { index, matched };
+    }
+  }
+
+  if (best) {
+    const expected = block.search[best.matched];
+    const actual = lines[best.index + best.matched];
+
+    detail =
+      `le contexte diverge à la ligne ${best.index + best.matched + 1} : ` +
+      `attendu ${JSON.stringify(expected)}, trouvé ${actual === undefined ? 'la fin du fichier' : JSON.stringify(actual)}`;
+  }
+
+  return `Le ${block.label} ne s'applique pas : ${detail}. Aucune modification n'a été faite, relis le fichier et renvoie un patch à jour.`;
+}
@@ -6,10 +6,20 @@
  * fixing issues with localStorage, form inputs, and browser APIs.
  *
  * FIX 2.2: Added event emitter for failure notifications and health check
+ *
+ * Also routes requests for /preview/__server__/<port>/, and the root-relative
+ * requests made by those pages, to the http.Server listening on that port in
+ * the Node.js runtime.
  */
 
 import { createScopedLogger } from '~/utils/logger';
 import { TIMEOUTS } from './utils/timeout';
+import {
+  dispatchServerRequest,
+  getListeningPorts,
+  onServerPortChange,
+  type ServerRequest,
+} from './node/server-registry';
 
 const logger = createScopedLogger('PreviewSW');
 
@@ -17,12 +27,16 @@ const logger = createScopedLogger('PreviewSW');
 export const PREVIEW_BASE_PATH = '/preview';
 export const PREVIEW_URL = `${PREVIEW_BASE_PATH}/index.html`;
 
+// Base path of requests routed to virtual http servers
+export const SERVER_PREVIEW_BASE_PATH = `${PREVIEW_BASE_PATH}/__server__`;
+
 // Service Worker state
 let swRegistration: ServiceWorkerRegistration | null = null;
 let isReady = false;
 let readyPromise: Promise<void> | null = null;
 let readyResolve: (() => void) | null = null;
 let messageListenerAdded = false;
+let serverPortsUnsubscribe: (() => void) | null = null;
 
 // Pending ping resolver (for one-time ping responses)
 let pendingPingResolve: ((value: boolean) => void) | null = null;
@@ -199,6 +213,10 @@ export async function initPreviewServiceWorker(): Promise<boolean> {
     // FIX 2.2: Start health check monitoring
     startHealthCheck();
 
+    // Tell the SW which virtual server ports it can route to
+    syncServerPorts();
+    serverPortsUnsubscribe ??= onServerPortChange(() => syncServerPorts());
+
     logger.info('Preview Service Worker ready');
     return true;
   } catch (error) {
@@ -249,6 +267,10 @@ function handleGlobalMessage(event: MessageEvent) {
       logger.debug('[SW]', payload);
       break;
 
+    case 'HTTP_REQUEST':
+      handleServerRequest(payload, event.ports[0]);
+      break;
+
     default:
       // Ignore unknown messages (they might be for MessageChannel ports)
       if (type) {
@@ -257,6 +279,51 @@ function handleGlobalMessage(event: MessageEvent) {
   }
 }
 
+/**
+ * Run a request forwarded by the SW through the virtual server and reply
+ * on the MessageChannel port
+ */
+async function handleServerRequest(payload: ServerRequest & { port: number }, replyPort?: MessagePort): Promise<void> {
+  if (!replyPort) {
+    logger.warn('HTTP_REQUEST without reply port');
+    return;
+  }
+
+  const { port, ...request } = payload;
+  const response = await dispatchServerRequest(port, request);
+
+  logger.debug(`${request.method} ${request.url} on port ${port}: ${response.status}`);
+
+  try {
+    replyPort.postMessage({ type: 'HTTP_RESPONSE', payload: response }, [response.body.buffer as ArrayBuffer]);
+  } catch (error) {
+    logger.error('Failed to send HTTP_RESPONSE:', error);
+  }
+}
+
+/**
+ * Send the listening server ports to the SW (it also records this page as
+ * the one that handles server requests)
+ */
+function syncServerPorts(): void {
+  if (!isReady || !swRegistration?.active) {
+    return;
+  }
+
+  try {
+    swRegistration.active.postMessage({ type: 'SERVER_PORTS', payload: { ports: getListeningPorts() } });
+  } catch (error) {
+    logger.error('Failed to send SERVER_PORTS:', error);
+  }
+}
+
+/**
+ * Get the preview URL of a virtual server port
+ */
+export function getServerPreviewUrl(port: number): string {
+  return `${SERVER_PREVIEW_BASE_PATH}/${port}/`;
+}
+
 /**
  * Ping the Service Worker to check if it's alive
  * Uses the global message handler instead of adding a new listener
@@ -459,6 +526,8 @@ export function getPreviewUrl(): string {
  */
 export async function unregisterPreviewServiceWorker(): Promise<void> {
   stopHealthCheck();
+  serverPortsUnsubscribe?.();
+  serverPortsUnsubscribe = null;
 
   if (swRegistration) {
     await swRegistration.unregister();
@@ -201,7 +201,7 @@ export class ModuleResolver {
         const nodeModulesDir = modulePath.startsWith('/')
           ? modulePath
           : path.join(checkDir, modulePath);
-        const packageDir = path.join(nodeModulesDir, packageName);
+        const packageDir = this._followLink(path.join(nodeModulesDir, packageName));
 
         if (this._fs.existsSync(packageDir)) {
           // Found the package, resolve the entry point
@@ -240,6 +240,19 @@ export class ModuleResolver {
     return null;
   }
 
+  /**
+   * Directory of a workspace package linked by BaviniPM (`_link` in its package.json)
+   */
+  private _followLink(packageDir: string): string {
+    try {
+      const pkgJson = JSON.parse(this._fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8') as string);
+
+      return typeof pkgJson._link === 'string' ? path.resolve(packageDir, pkgJson._link) : packageDir;
+    } catch {
+      return packageDir;
+    }
+  }
+
   /**
    * Check if specifier looks like an npm package
    */
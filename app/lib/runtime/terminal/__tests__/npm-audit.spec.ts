@@ -0,0 +1,91 @@
+/**
+ * Tests for `npm audit` and `npm outdated` output
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MountManager } from '../../filesystem/mount-manager';
+import { MemoryBackend } from '../../filesystem/backends/memory-backend';
+import { RegistryClient } from '../../package-manager/registry/registry-client';
+import type { PackageMetadata } from '../../package-manager';
+import { npmCommand } from '../builtins/npm';
+import { createShellState } from '../shell-state';
+import type { CommandContext } from '../types';
+
+describe('npm audit and outdated', () => {
+  let fs: MountManager;
+  let stdout: string;
+
+  const createContext = (cwd = '/home/project'): CommandContext => ({
+    fs,
+    state: createShellState({ cwd }),
+    stdout: (data) => {
+      stdout += data;
+    },
+    stderr: (data) => {
+      stdout += data;
+    },
+    dimensions: { cols: 80, rows: 24 },
+  });
+
+  beforeEach(async () => {
+    fs = new MountManager();
+    await fs.init({ mounts: [{ path: '/', backend: new MemoryBackend() }] });
+    await fs.mkdir('/home/project/node_modules/lodash', { recursive: true });
+    await fs.writeTextFile(
+      '/home/project/package.json',
+      JSON.stringify({ name: 'app', version: '1.0.0', dependencies: { lodash: '^4.17.0' } }),
+    );
+    await fs.writeTextFile(
+      '/home/project/node_modules/lodash/package.json',
+      JSON.stringify({ name: 'lodash', version: '4.17.15' }),
+    );
+    await fs.writeTextFile(
+      '/home/project/advisories.json',
+      JSON.stringify({
+        lodash: [{ id: 1523, title: 'Prototype Pollution', severity: 'high', vulnerable_versions: '<4.17.19' }],
+      }),
+    );
+
+    stdout = '';
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.destroy();
+  });
+
+  it('should list vulnerabilities and fail', async () => {
+    const result = await npmCommand.execute(['audit', '--advisories', 'advisories.json'], createContext());
+
+    expect(result.exitCode).toBe(1);
+    expect(stdout).toContain('Prototype Pollution');
+    expect(stdout).toContain('node_modules/lodash');
+    expect(stdout).toContain('1 vulnerability (1 high) in 1 packages');
+  });
+
+  it('should honour --audit-level', async () => {
+    const result = await npmCommand.execute(
+      ['audit', '--advisories=advisories.json', '--audit-level=critical'],
+      createContext(),
+    );
+
+    expect(result.exitCode).toBe(0);
+    expect(stdout).toContain('found 0 vulnerabilities');
+    expect((await npmCommand.execute(['audit', '--audit-level=severe'], createContext())).exitCode).toBe(1);
+    expect(stdout).toContain('Invalid audit level: severe');
+  });
+
+  it('should print outdated packages as a table', async () => {
+    vi.spyOn(RegistryClient.prototype, 'getPackageMetadata').mockResolvedValue({
+      name: 'lodash',
+      'dist-tags': { latest: '4.17.21' },
+      versions: { '4.17.15': {}, '4.17.21': {} },
+    } as unknown as PackageMetadata);
+
+    const result = await npmCommand.execute(['outdated'], createContext());
+
+    expect(result.exitCode).toBe(1);
+    expect(stdout).toMatch(/Package\s+Current\s+Wanted\s+Latest\s+Location/);
+    expect(stdout).toMatch(/lodash\s+4\.17\.15\s+4\.17\.21\s+4\.17\.21\s+node_modules\/lodash/);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for `npm run` executing package.json scripts through the virtual shell
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MountManager } from '../../filesystem/mount-manager';
+import { MemoryBackend } from '../../filesystem/backends/memory-backend';
+import { npmCommand } from '../builtins/npm';
+import { CommandExecutor } from '../command-executor';
+import { createShellState } from '../shell-state';
+import type { CommandContext } from '../types';
+
+describe('npm run', () => {
+  let fs: MountManager;
+  let stdout: string;
+  let stderr: string;
+
+  const createContext = (cwd = '/home/project'): CommandContext => ({
+    fs,
+    state: createShellState({ cwd }),
+    stdout: (data) => {
+      stdout += data;
+    },
+    stderr: (data) => {
+      stderr += data;
+    },
+    dimensions: { cols: 80, rows: 24 },
+  });
+
+  beforeEach(async () => {
+    fs = new MountManager();
+    await fs.init({ mounts: [{ path: '/', backend: new MemoryBackend() }] });
+    await fs.mkdir('/home/project/src', { recursive: true });
+    await fs.writeTextFile(
+      '/home/project/package.json',
+      JSON.stringify({
+        name: 'demo',
+        version: '0.1.0',
+        scripts: {
+          prebuild: 'mkdir dist',
+          build: 'echo building $npm_package_name@$npm_package_version',
+          postbuild: 'touch dist/done',
+          greet: 'echo hello',
+          broken: 'does-not-exist',
+          test: 'echo $npm_lifecycle_event',
+          tool: 'mytool --flag',
+        },
+      }),
+    );
+
+    stdout = '';
+    stderr = '';
+  });
+
+  afterEach(async () => {
+    await fs.destroy();
+  });
+
+  it('should run the script and its lifecycle hooks', async () => {
+    const result = await npmCommand.execute(['run', 'build'], createContext());
+
+    expect(result.exitCode).toBe(0);
+    expect(stdout).toContain('> demo@0.1.0 build');
+    expect(stdout).toContain('building demo@0.1.0\n');
+    expect(await fs.exists('/home/project/dist/done')).toBe(true);
+  });
+
+  it('should append arguments after -- to the script', async () => {
+    const result = await npmCommand.execute(['run', 'greet', '--', 'world'], createContext());
+
+    expect(result.exitCode).toBe(0);
+    expect(stdout).toContain('hello world\n');
+  });
+
+  it('should resolve the package root from a subdirectory', async () => {
+    const result = await npmCommand.execute(['test'], createContext('/home/project/src'));
+
+    expect(result.exitCode).toBe(0);
+    expect(stdout).toContain('test\n');
+  });
+
+  it('should propagate the exit code of a failing command', async () => {
+    const result = await npmCommand.execute(['run', 'broken'], createContext());
+
+    expect(result.exitCode).toBe(127);
+    expect(stderr).toContain('does-not-exist: command not found');
+  });
+
+  it('should report missing scripts', async () => {
+    const result = await npmCommand.execute(['run', 'nope'], createContext());
+
+    expect(result.exitCode).toBe(1);
+    expect(stdout).toContain('Missing script: "nope"');
+  });
+
+  it('should find binaries in node_modules/.bin through PATH', async () => {
+    await fs.mkdir('/home/project/node_modules/.bin', { recursive: true });
+    await fs.mkdir('/home/project/node_modules/mytool', { recursive: true });
+    await fs.writeTextFile(
+      '/home/project/node_modules/.bin/mytool',
+      "#!/usr/bin/env node\nrequire('../mytool/cli.js');\n",
+    );
+    await fs.writeTextFile(
+      '/home/project/node_modules/mytool/cli.js',
+      "console.log('mytool', process.argv.slice(2).join(' '));\n",
+    );
+
+    const result = await npmCommand.execute(['run', 'tool'], createContext());
+
+    // The binary is run by the node builtin
+    expect(result.exitCode).toBe(0);
+    expect(stdout).toContain('mytool --flag\n');
+  });
+
+  it('should report unknown commands as not found outside of scripts', async () => {
+    const result = await new CommandExecutor().execute({ command: 'mytool', args: [], raw: 'mytool' }, createContext());
+
+    expect(result.exitCode).toBe(127);
+  });
+
+  describe('workspaces', () => {
+    beforeEach(async () => {
+      await fs.mkdir('/home/project/packages/ui', { recursive: true });
+      await fs.mkdir('/home/project/packages/app', { recursive: true });
+      await fs.writeTextFile(
+        '/home/project/package.json',
+        JSON.stringify({ name: 'monorepo', version: '1.0.0', workspaces: ['packages/*'] }),
+      );
+      await fs.writeTextFile(
+        '/home/project/packages/ui/package.json',
+        JSON.stringify({ name: '@acme/ui', version: '1.0.0', scripts: { build: 'echo ui in $PWD' } }),
+      );
+      await fs.writeTextFile(
+        '/home/project/packages/app/package.json',
+        JSON.stringify({ name: 'app', version: '0.1.0', scripts: { lint: 'echo linting app' } }),
+      );
+    });
+
+    it('should run a script in the workspace given with -w', async () => {
+      const result = await npmCommand.execute(['run', 'build', '-w', '@acme/ui'], createContext());
+
+      expect(result.exitCode).toBe(0);
+      expect(stdout).toContain('> @acme/ui@1.0.0 build');
+      expect(stdout).toContain('ui in /home/project/packages/ui\n');
+    });
+
+    it('should accept a workspace directory from inside another workspace', async () => {
+      const result = await npmCommand.execute(
+        ['run', 'build', '--workspace=packages/ui'],
+        createContext('/home/project/packages/app'),
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(stdout).toContain('ui in /home/project/packages/ui\n');
+    });
+
+    it('should run in every workspace with --workspaces --if-present', async () => {
+      const result = await npmCommand.execute(['run', 'lint', '--workspaces', '--if-present'], createContext());
+
+      expect(result.exitCode).toBe(0);
+      expect(stdout).toContain('linting app\n');
+      expect(stdout).not.toContain('Missing script');
+    });
+
+    it('should fail for unknown workspaces and missing scripts', async () => {
+      expect((await npmCommand.execute(['run', 'build', '-w', 'nope'], createContext())).exitCode).toBe(1);
+      expect(stdout).toContain('No workspace found: nope');
+
+      expect((await npmCommand.execute(['run', 'lint', '-ws'], createContext())).exitCode).toBe(1);
+      expect(stdout).toContain('Missing script: "lint" in workspace @acme/ui');
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * =============================================================================
+ * Tests: Pipe Executor (pipe-executor.ts)
+ * =============================================================================
+ * Command lists, expansion, globbing and redirections against a memory fs.
+ * =============================================================================
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MountManager } from '../../filesystem/mount-manager';
+import { MemoryBackend } from '../../filesystem/backends/memory-backend';
+import { PipeExecutor } from '../pipe-executor';
+import { createShellState } from '../shell-state';
+import type { CommandContext, ShellState } from '../types';
+
+describe('PipeExecutor', () => {
+  let fs: MountManager;
+  let executor: PipeExecutor;
+  let stdout: string;
+  let stderr: string;
+
+  const createContext = (state: Partial<ShellState> = {}): CommandContext => ({
+    fs,
+    state: createShellState({ cwd: '/home/project', ...state }),
+    stdout: (data) => {
+      stdout += data;
+    },
+    stderr: (data) => {
+      stderr += data;
+    },
+    dimensions: { cols: 80, rows: 24 },
+  });
+
+  const run = (input: string, state?: Partial<ShellState>) => executor.executeCommandLine(input, createContext(state));
+
+  beforeEach(async () => {
+    fs = new MountManager();
+    await fs.init({ mounts: [{ path: '/', backend: new MemoryBackend() }] });
+    await fs.mkdir('/home/project', { recursive: true });
+
+    executor = new PipeExecutor();
+    stdout = '';
+    stderr = '';
+  });
+
+  afterEach(async () => {
+    await fs.destroy();
+  });
+
+  describe('command lists', () => {
+    it('should thread the working directory through &&', async () => {
+      const result = await run('mkdir src && cd src && touch index.ts');
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stateUpdates?.cwd).toBe('/home/project/src');
+      expect(await fs.exists('/home/project/src/index.ts')).toBe(true);
+    });
+
+    it('should skip && after a failure and run || instead', async () => {
+      const result = await run('false && echo skipped || echo recovered');
+
+      expect(result.exitCode).toBe(0);
+      expect(stdout).toBe('recovered\n');
+    });
+
+    it('should run every command separated by ;', async () => {
+      const result = await run('echo one; false; echo two');
+
+      expect(result.exitCode).toBe(0);
+      expect(stdout).toBe('one\ntwo\n');
+    });
+
+    it('should invert the status of negated pipelines', async () => {
+      expect((await run('! false')).exitCode).toBe(0);
+      expect((await run('! true')).exitCode).toBe(1);
+    });
+
+    it('should stop at exit with its status', async () => {
+      const result = await run('echo before; exit 3; echo after');
+
+      expect(result.exitCode).toBe(3);
+      expect(stdout).toBe('before\n');
+    });
+
+    it('should report syntax errors with status 2', async () => {
+      const result = await run('echo a &&');
+
+      expect(result.exitCode).toBe(2);
+      expect(stderr).toContain('syntax error');
+    });
+  });
+
+  describe('expansion', () => {
+    it('should expand variables and $?', async () => {
+      await run('echo $HOME ${USER} "${MISSING:-default}"; false; echo $?');
+
+      expect(stdout).toBe('/home user default\n1\n');
+    });
+
+    it('should not expand inside single quotes', async () => {
+      await run(`echo '$HOME' "$HOME"`);
+
+      expect(stdout).toBe('$HOME /home\n');
+    });
+
+    it('should substitute command output', async () => {
+      await run('echo "cwd is $(pwd)" `echo nested`');
+
+      expect(stdout).toBe('cwd is /home/project nested\n');
+    });
+
+    it('should split unquoted expansions into fields', async () => {
+      await fs.writeTextFile('/home/project/a', '');
+      await fs.writeTextFile('/home/project/b', '');
+
+      const result = await run('FILES="a b"; rm $FILES');
+
+      expect(result.exitCode).toBe(0);
+      expect(await fs.exists('/home/project/a')).toBe(false);
+      expect(await fs.exists('/home/project/b')).toBe(false);
+    });
+
+    it('should set shell variables and per-command environment', async () => {
+      const result = await run('GREETING=hello; NAME=world env');
+
+      expect(result.stateUpdates?.env).toEqual({ GREETING: 'hello' });
+      expect(stdout).toContain('NAME=world');
+    });
+  });
+
+  describe('globbing', () => {
+    beforeEach(async () => {
+      await fs.mkdir('/home/project/src/lib', { recursive: true });
+      await fs.writeTextFile('/home/project/src/index.ts', '');
+      await fs.writeTextFile('/home/project/src/app.ts', '');
+      await fs.writeTextFile('/home/project/src/style.css', '');
+      await fs.writeTextFile('/home/project/src/lib/util.ts', '');
+    });
+
+    it('should expand patterns relative to the working directory', async () => {
+      await run('echo src/*.ts');
+
+      expect(stdout).toBe('src/app.ts src/index.ts\n');
+    });
+
+    it('should expand ** recursively', async () => {
+      await run('echo **/*.ts', { cwd: '/home/project/src' });
+
+      expect(stdout).toBe('app.ts index.ts lib/util.ts\n');
+    });
+
+    it('should leave unmatched and quoted patterns alone', async () => {
+      await run('echo *.md "src/*.ts"');
+
+      expect(stdout).toBe('*.md src/*.ts\n');
+    });
+  });
+
+  describe('redirections', () => {
+    it('should redirect stderr to stdout with 2>&1', async () => {
+      await run('cat missing.txt > out.log 2>&1');
+
+      const log = await fs.readTextFile('/home/project/out.log');
+
+      expect(log).toContain('missing.txt');
+      expect(stderr).toBe('');
+    });
+
+    it('should send stderr through a pipe with 2>&1', async () => {
+      await run('cat missing.txt 2>&1 | cat > piped.log');
+
+      expect(await fs.readTextFile('/home/project/piped.log')).toContain('missing.txt');
+    });
+
+    it('should create empty files and append with >>', async () => {
+      await run('true > empty.txt; echo a >> log.txt; echo b >> log.txt');
+
+      expect(await fs.readTextFile('/home/project/empty.txt')).toBe('');
+      expect(await fs.readTextFile('/home/project/log.txt')).toBe('a\nb\n');
+    });
+
+    it('should read input relative to the working directory', async () => {
+      await fs.writeTextFile('/home/project/input.txt', 'from file\n');
+      await run('cat < input.txt');
+
+      expect(stdout).toBe('from file\n');
+    });
+  });
+});
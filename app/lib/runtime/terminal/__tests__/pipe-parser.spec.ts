@@ -7,11 +7,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import {
-  hasPipeOperators,
-  parsePipeline,
-  formatPipeline,
-} from '../pipe-parser';
+import { hasPipeOperators, parsePipeline, parseCommandList, ShellSyntaxError, formatPipeline } from '../pipe-parser';
 
 describe('hasPipeOperators', () => {
   describe('should return true for', () => {
@@ -197,6 +193,82 @@ describe('parsePipeline', () => {
       expect(result.commands[0].command).toBe('pwd');
       expect(result.commands[0].args).toEqual([]);
     });
+
+    it('should reject command lists', () => {
+      expect(() => parsePipeline('echo a; echo b')).toThrow(ShellSyntaxError);
+      expect(() => parsePipeline('echo a && echo b')).toThrow(ShellSyntaxError);
+      expect(() => parsePipeline('echo a\necho b')).toThrow(ShellSyntaxError);
+      expect(() => parsePipeline('npm start &')).toThrow(ShellSyntaxError);
+    });
+  });
+});
+
+describe('parseCommandList', () => {
+  it('should split on control operators', () => {
+    const list = parseCommandList('mkdir src && cd src || echo failed; touch a &');
+
+    expect(list.entries.map((entry) => entry.pipeline.commands[0].command)).toEqual(['mkdir', 'cd', 'echo', 'touch']);
+    expect(list.entries.map((entry) => entry.condition)).toEqual([undefined, '&&', '||', undefined]);
+    expect(list.entries[3].background).toBe(true);
+  });
+
+  it('should treat newlines as separators and skip comments', () => {
+    const list = parseCommandList('echo a # comment\necho b &&\necho c');
+
+    expect(list.entries).toHaveLength(3);
+    expect(list.entries[0].pipeline.commands[0].args).toEqual(['a']);
+    expect(list.entries[2].condition).toBe('&&');
+  });
+
+  it('should keep operators inside quotes and substitutions', () => {
+    const list = parseCommandList('echo "a && b" $(echo x; echo y)');
+
+    expect(list.entries).toHaveLength(1);
+    expect(list.entries[0].pipeline.commands[0].words?.[2].raw).toBe('$(echo x; echo y)');
+  });
+
+  it('should parse file descriptor redirections', () => {
+    const list = parseCommandList('build > out.log 2>&1; lint 2> err.log; test &> all.log');
+    const redirects = list.entries.map((entry) => entry.pipeline.commands[0].redirects?.map((r) => r.type));
+
+    expect(redirects).toEqual([['>', '2>&1'], ['2>'], ['&>']]);
+    expect(list.entries[0].pipeline.outputRedirect).toEqual({ type: '>', file: 'out.log' });
+  });
+
+  it('should collect leading assignments', () => {
+    const { entries } = parseCommandList('NODE_ENV=production PORT=3000 npm start');
+    const command = entries[0].pipeline.commands[0];
+
+    expect(command.assignments?.map((a) => a.name)).toEqual(['NODE_ENV', 'PORT']);
+    expect(command.command).toBe('npm');
+    expect(command.args).toEqual(['start']);
+  });
+
+  it('should keep quoting information on words', () => {
+    const { entries } = parseCommandList(`echo '$HOME' "$HOME" \\*`);
+    const words = entries[0].pipeline.commands[0].words!;
+
+    expect(words[1].parts).toEqual([{ text: '$HOME', quote: 'single' }]);
+    expect(words[2].parts).toEqual([{ text: '$HOME', quote: 'double' }]);
+    expect(words[3].parts).toEqual([{ text: '*', quote: 'single' }]);
+  });
+
+  it('should mark negated pipelines', () => {
+    expect(parseCommandList('! grep foo file').entries[0].pipeline.negated).toBe(true);
+  });
+
+  it('should reject dangling operators and unterminated quotes', () => {
+    expect(() => parseCommandList('echo a &&')).toThrow(ShellSyntaxError);
+    expect(() => parseCommandList('&& echo a')).toThrow(ShellSyntaxError);
+    expect(() => parseCommandList('echo a |')).toThrow(ShellSyntaxError);
+    expect(() => parseCommandList('echo "unterminated')).toThrow(ShellSyntaxError);
+  });
+
+  it('should reject empty commands around explicit separators', () => {
+    expect(() => parseCommandList('echo a;; echo b')).toThrow("syntax error near unexpected token `;;'");
+    expect(() => parseCommandList('echo a; ; echo b')).toThrow("syntax error near unexpected token `;'");
+    expect(() => parseCommandList('; echo a')).toThrow(ShellSyntaxError);
+    expect(parseCommandList('echo a;\n\necho b;').entries).toHaveLength(2);
   });
 });
 
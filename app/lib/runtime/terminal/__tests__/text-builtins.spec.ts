@@ -0,0 +1,246 @@
+/**
+ * =============================================================================
+ * Tests: Text Builtins (grep, find, head, tail, wc, sed, sort, uniq, diff, tree)
+ * =============================================================================
+ * Runs the text-processing commands through the shell against a memory fs.
+ * =============================================================================
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MountManager } from '../../filesystem/mount-manager';
+import { MemoryBackend } from '../../filesystem/backends/memory-backend';
+import { PipeExecutor } from '../pipe-executor';
+import { createShellState } from '../shell-state';
+import type { CommandContext } from '../types';
+
+describe('text builtins', () => {
+  let fs: MountManager;
+  let executor: PipeExecutor;
+  let stdout: string;
+  let stderr: string;
+
+  const run = (input: string) => {
+    const context: CommandContext = {
+      fs,
+      state: createShellState({ cwd: '/project' }),
+      stdout: (data) => {
+        stdout += data;
+      },
+      stderr: (data) => {
+        stderr += data;
+      },
+      dimensions: { cols: 80, rows: 24 },
+    };
+
+    return executor.executeCommandLine(input, context);
+  };
+
+  beforeEach(async () => {
+    fs = new MountManager();
+    await fs.init({ mounts: [{ path: '/', backend: new MemoryBackend() }] });
+    await fs.mkdir('/project/src/utils', { recursive: true });
+    await fs.writeTextFile('/project/src/index.ts', "import { add } from './utils/math';\n\nconsole.log(add(1, 2));\n");
+    await fs.writeTextFile(
+      '/project/src/utils/math.ts',
+      'export function add(a: number, b: number) {\n  return a + b;\n}\n// TODO: subtract\n',
+    );
+    await fs.writeTextFile('/project/README.md', '# Demo\nTODO: docs\n');
+    await fs.writeTextFile('/project/fruits.txt', 'pear\napple\npear\nbanana\napple\npear\n');
+
+    executor = new PipeExecutor();
+    stdout = '';
+    stderr = '';
+  });
+
+  afterEach(async () => {
+    await fs.destroy();
+  });
+
+  describe('grep', () => {
+    it('should search recursively with line numbers', async () => {
+      const result = await run('grep -rn TODO src');
+
+      expect(result.exitCode).toBe(0);
+      expect(stdout).toBe('src/utils/math.ts:4:// TODO: subtract\n');
+    });
+
+    it('should filter files with --include', async () => {
+      await run('grep -rl --include=*.md TODO .');
+
+      expect(stdout).toBe('./README.md\n');
+    });
+
+    it('should support -i, -v, -c and extended patterns', async () => {
+      await run('grep -c -v pear fruits.txt');
+      await run('grep -iE "^(APPLE|banana)$" fruits.txt');
+
+      expect(stdout).toBe('3\napple\nbanana\napple\n');
+    });
+
+    it('should print context lines with separators', async () => {
+      await run('grep -n -A1 banana fruits.txt');
+
+      expect(stdout).toBe('4:banana\n5-apple\n');
+    });
+
+    it('should exit 1 without match and 2 on a missing file', async () => {
+      expect((await run('grep kiwi fruits.txt')).exitCode).toBe(1);
+      expect((await run('grep kiwi missing.txt')).exitCode).toBe(2);
+      expect(stderr).toBe('grep: missing.txt: No such file or directory\n');
+    });
+
+    it('should read from a pipe', async () => {
+      await run('cat fruits.txt | grep -o "p[a-z]*"');
+
+      expect(stdout).toBe('pear\npple\npear\npple\npear\n');
+    });
+  });
+
+  describe('find', () => {
+    it('should find files by name', async () => {
+      await run('find . -name "*.ts"');
+
+      expect(stdout).toBe('./src/index.ts\n./src/utils/math.ts\n');
+    });
+
+    it('should filter by type and depth', async () => {
+      await run('find src -type d');
+      await run('find . -maxdepth 1 -type f');
+
+      expect(stdout).toBe('src\nsrc/utils\n./README.md\n./fruits.txt\n');
+    });
+
+    it('should support -path and negation', async () => {
+      await run('find src -type f -not -path "*/utils/*"');
+
+      expect(stdout).toBe('src/index.ts\n');
+    });
+  });
+
+  describe('head, tail and wc', () => {
+    it('should print the first and last lines', async () => {
+      await run('head -n 2 fruits.txt');
+      await run('tail -2 fruits.txt');
+      await run('tail -n +6 fruits.txt');
+
+      expect(stdout).toBe('pear\napple\napple\npear\npear\n');
+    });
+
+    it('should print headers for several files', async () => {
+      await run('head -n 1 README.md fruits.txt');
+
+      expect(stdout).toBe('==> README.md <==\n# Demo\n\n==> fruits.txt <==\npear\n');
+    });
+
+    it('should count lines, words and bytes', async () => {
+      await run('wc -l fruits.txt');
+      await run('cat README.md | wc -w');
+
+      expect(stdout).toBe('6 fruits.txt\n4\n');
+    });
+  });
+
+  describe('sort and uniq', () => {
+    it('should count unique lines', async () => {
+      await run('sort fruits.txt | uniq -c | sort -rn');
+
+      expect(stdout).toBe('      3 pear\n      2 apple\n      1 banana\n');
+    });
+
+    it('should sort on a field with a separator', async () => {
+      await fs.writeTextFile('/project/scores.csv', 'bob,12\nalice,3\ncarol,7\n');
+      await run('sort -t , -k 2 -n scores.csv');
+      await run('sort -u fruits.txt');
+
+      expect(stdout).toBe('alice,3\ncarol,7\nbob,12\napple\nbanana\npear\n');
+    });
+
+    it('should print only repeated or unique lines', async () => {
+      await run('sort fruits.txt | uniq -d');
+      await run('sort fruits.txt | uniq -u');
+
+      expect(stdout).toBe('apple\npear\nbanana\n');
+    });
+  });
+
+  describe('sed', () => {
+    it('should substitute with groups and flags', async () => {
+      await run("echo 'foo bar foo' | sed 's/foo/baz/'");
+      await run("echo 'foo bar foo' | sed 's/foo/baz/g'");
+      await run("echo 'foo bar foo' | sed 's/foo/baz/2'");
+      await run("echo 'a=1' | sed -E 's/([a-z])=([0-9])/\\2=\\1 [&]/'");
+
+      expect(stdout).toBe('baz bar foo\nbaz bar baz\nfoo bar baz\n1=a [a=1]\n');
+    });
+
+    it('should print selected lines with -n', async () => {
+      await run("sed -n '2,3p' fruits.txt");
+      await run("sed -n '/banana/,$p' fruits.txt");
+      await run("sed -n '$=' fruits.txt");
+
+      expect(stdout).toBe('apple\npear\nbanana\napple\npear\n6\n');
+    });
+
+    it('should delete lines and quit', async () => {
+      await run("sed '/pear/d' fruits.txt");
+      await run('sed 2q fruits.txt');
+
+      expect(stdout).toBe('apple\nbanana\napple\npear\napple\n');
+    });
+
+    it('should edit files in place', async () => {
+      const result = await run("sed -i 's/TODO/DONE/' README.md");
+
+      expect(result.exitCode).toBe(0);
+      expect(stdout).toBe('');
+      expect(await fs.readTextFile('/project/README.md')).toBe('# Demo\nDONE: docs\n');
+    });
+
+    it('should report script errors', async () => {
+      const result = await run("sed 'x' fruits.txt");
+
+      expect(result.exitCode).toBe(1);
+      expect(stderr).toContain("unknown command: `x'");
+    });
+  });
+
+  describe('diff', () => {
+    beforeEach(async () => {
+      await fs.writeTextFile('/project/a.txt', 'one\ntwo\nthree\n');
+      await fs.writeTextFile('/project/b.txt', 'one\n2\nthree\nfour\n');
+    });
+
+    it('should print a unified diff', async () => {
+      const result = await run('diff -u a.txt b.txt');
+
+      expect(result.exitCode).toBe(1);
+      expect(stdout).toBe('--- a.txt\n+++ b.txt\n@@ -1,3 +1,4 @@\n one\n-two\n+2\n three\n+four\n');
+    });
+
+    it('should print the normal format', async () => {
+      await run('diff a.txt b.txt');
+
+      expect(stdout).toBe('2c2\n< two\n---\n> 2\n3a4\n> four\n');
+    });
+
+    it('should exit 0 for identical files and 2 for missing ones', async () => {
+      expect((await run('diff a.txt a.txt')).exitCode).toBe(0);
+      expect((await run('diff a.txt missing.txt')).exitCode).toBe(2);
+      expect(stdout).toBe('');
+    });
+  });
+
+  describe('tree', () => {
+    it('should draw the directory tree', async () => {
+      await run('tree src');
+
+      expect(stdout).toBe('src\n├── index.ts\n└── utils\n    └── math.ts\n\n1 directory, 2 files\n');
+    });
+
+    it('should limit depth and ignore patterns', async () => {
+      await run('tree -L 1 -I "*.txt"');
+
+      expect(stdout).toBe('.\n├── README.md\n└── src\n\n1 directory, 1 file\n');
+    });
+  });
+});
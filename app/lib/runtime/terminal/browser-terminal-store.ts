@@ -12,6 +12,8 @@ import type { ITerminal } from '~/types/terminal';
 import type { MountManager } from '../filesystem';
 import type { VirtualPTY, ShellState } from './types';
 import { createVirtualPTY } from './virtual-pty';
+import { createShellProcessLauncher } from './shell-launcher';
+import { setProcessLauncher } from '../node/process-launcher';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('BrowserTerminalStore');
@@ -49,6 +51,14 @@ export class BrowserTerminalStore {
     this.#initialEnv = config.env ?? {};
     this.#initialCwd = config.cwd ?? '/home';
 
+    // child_process spawns run through the same shell as the terminal
+    setProcessLauncher(
+      createShellProcessLauncher(this.#fs, {
+        cwd: this.#initialCwd,
+        env: this.#initialEnv,
+      }),
+    );
+
     if (import.meta.hot) {
       import.meta.hot.data.showTerminal = this.showTerminal;
     }
@@ -139,6 +149,7 @@ export class BrowserTerminalStore {
       pty.destroy();
     }
     this.#terminals = [];
+    setProcessLauncher(null);
     logger.info('BrowserTerminalStore destroyed');
   }
 }
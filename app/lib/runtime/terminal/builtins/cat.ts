@@ -9,17 +9,29 @@ import { normalizePath, validatePath, SecurityError } from '../../filesystem';
 export const catCommand: BuiltinCommand = {
   name: 'cat',
   description: 'Display file contents',
-  usage: 'cat <file...>',
+  usage: 'cat [file...]',
 
   async execute(args: string[], context: CommandContext): Promise<CommandResult> {
+    // Without operands, copy standard input (pipes and < redirections)
     if (args.length === 0) {
-      context.stderr('cat: missing file operand\n');
-      return { exitCode: 1 };
+      if (context.stdin === undefined) {
+        context.stderr('cat: missing file operand\n');
+        return { exitCode: 1 };
+      }
+
+      context.stdout(context.stdin);
+
+      return { exitCode: 0 };
     }
 
     let exitCode = 0;
 
     for (const file of args) {
+      if (file === '-') {
+        context.stdout(context.stdin ?? '');
+        continue;
+      }
+
       try {
         // FIX 1.4: Validate path before any operation to prevent traversal attacks
         const resolvedPath = validatePath(
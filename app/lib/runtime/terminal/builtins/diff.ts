@@ -0,0 +1,131 @@
+/**
+ * diff - Compare files line by line
+ */
+
+import { diffArrays, structuredPatch } from 'diff';
+import type { BuiltinCommand, CommandContext, CommandResult } from '../types';
+import { lastValue, parseOptions, readInputs, splitLines } from './text-utils';
+
+export const diffCommand: BuiltinCommand = {
+  name: 'diff',
+  description: 'Compare files line by line',
+  usage: 'diff [-uq] [-U n] file1 file2',
+
+  async execute(args: string[], context: CommandContext): Promise<CommandResult> {
+    const options = parseOptions(args, {
+      flags: 'uq',
+      values: 'U',
+      longFlags: ['unified', 'brief'],
+      aliases: { unified: 'u', brief: 'q' },
+    });
+
+    if (options.error) {
+      context.stderr(`diff: ${options.error}\n`);
+      return { exitCode: 2 };
+    }
+
+    if (options.operands.length !== 2) {
+      context.stderr(
+        `diff: ${options.operands.length < 2 ? 'missing' : 'extra'} operand\nUsage: ${diffCommand.usage}\n`,
+      );
+      return { exitCode: 2 };
+    }
+
+    const [oldName, newName] = options.operands;
+    const { inputs, exitCode } = await readInputs('diff', options.operands, context);
+
+    if (exitCode !== 0) {
+      return { exitCode: 2 };
+    }
+
+    const [oldText, newText] = inputs.map((input) => input.content);
+
+    if (oldText === newText) {
+      return { exitCode: 0 };
+    }
+
+    if (options.flags.has('q')) {
+      context.stdout(`Files ${oldName} and ${newName} differ\n`);
+      return { exitCode: 1 };
+    }
+
+    const unifiedContext = lastValue(options, 'U');
+
+    if (options.flags.has('u') || unifiedContext !== undefined) {
+      context.stdout(formatUnified(oldName, newName, oldText, newText, Number(unifiedContext ?? 3)));
+    } else {
+      context.stdout(formatNormal(splitLines(oldText), splitLines(newText)));
+    }
+
+    return { exitCode: 1 };
+  },
+};
+
+/**
+ * Unified format (diff -u)
+ */
+function formatUnified(oldName: string, newName: string, oldText: string, newText: string, context: number): string {
+  const patch = structuredPatch(oldName, newName, oldText, newText, '', '', { context });
+
+  // Empty ranges start at the line before, as in GNU diff
+  const range = (start: number, lines: number) =>
+    lines === 1 ? `${start}` : `${lines === 0 ? start - 1 : start},${lines}`;
+
+  let output = `--- ${oldName}\n+++ ${newName}\n`;
+
+  for (const hunk of patch.hunks) {
+    output += `@@ -${range(hunk.oldStart, hunk.oldLines)} +${range(hunk.newStart, hunk.newLines)} @@\n`;
+    output += hunk.lines.map((line) => `${line}\n`).join('');
+  }
+
+  return output;
+}
+
+/**
+ * Normal format (`3c3`, `5a6,7`, `< old`, `> new`)
+ */
+function formatNormal(oldLines: string[], newLines: string[]): string {
+  const changes = diffArrays(oldLines, newLines);
+  const range = (start: number, end: number) => (start === end ? `${start}` : `${start},${end}`);
+  let output = '';
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (let i = 0; i < changes.length; i++) {
+    const change = changes[i];
+
+    if (!change.added && !change.removed) {
+      oldLine += change.value.length;
+      newLine += change.value.length;
+      continue;
+    }
+
+    const removed = change.removed ? change.value : [];
+    const next = changes[i + 1];
+    const added = change.added ? change.value : next?.added ? next.value : [];
+
+    if (change.removed && next?.added) {
+      i++;
+    }
+
+    if (removed.length > 0 && added.length > 0) {
+      output += `${range(oldLine + 1, oldLine + removed.length)}c${range(newLine + 1, newLine + added.length)}\n`;
+    } else if (removed.length > 0) {
+      output += `${range(oldLine + 1, oldLine + removed.length)}d${newLine}\n`;
+    } else {
+      output += `${oldLine}a${range(newLine + 1, newLine + added.length)}\n`;
+    }
+
+    output += removed.map((line) => `< ${line}\n`).join('');
+
+    if (removed.length > 0 && added.length > 0) {
+      output += '---\n';
+    }
+
+    output += added.map((line) => `> ${line}\n`).join('');
+    oldLine += removed.length;
+    newLine += added.length;
+  }
+
+  return output;
+}
@@ -0,0 +1,25 @@
+/**
+ * exit - Stop executing the current command line
+ */
+
+import type { BuiltinCommand, CommandContext, CommandResult } from '../types';
+
+export const exitCommand: BuiltinCommand = {
+  name: 'exit',
+  description: 'Exit the shell with a status',
+  usage: 'exit [n]',
+
+  async execute(args: string[], context: CommandContext): Promise<CommandResult> {
+    if (args.length === 0) {
+      return { exitCode: context.state.lastExitCode, exit: true };
+    }
+
+    if (!/^-?\d+$/.test(args[0])) {
+      context.stderr(`exit: ${args[0]}: numeric argument required\n`);
+      return { exitCode: 2, exit: true };
+    }
+
+    // Exit statuses are 8-bit like in POSIX shells
+    return { exitCode: ((parseInt(args[0], 10) % 256) + 256) % 256, exit: true };
+  },
+};
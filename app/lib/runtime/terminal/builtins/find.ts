@@ -0,0 +1,163 @@
+/**
+ * find - Search for files in a directory hierarchy
+ */
+
+import type { BuiltinCommand, CommandContext, CommandResult } from '../types';
+import { matchGlob } from '../../filesystem';
+import { displayPath, resolvePath, walkTree } from './text-utils';
+
+/**
+ * A single test of the find expression (all tests must pass)
+ */
+type FindTest = (entry: { name: string; path: string; display: string; isDirectory: boolean }) => boolean;
+
+export const findCommand: BuiltinCommand = {
+  name: 'find',
+  description: 'Search for files in a directory hierarchy',
+  usage: 'find [path...] [-name glob] [-iname glob] [-path glob] [-type f|d] [-maxdepth n] [-mindepth n] [-not test]',
+
+  async execute(args: string[], context: CommandContext): Promise<CommandResult> {
+    const paths: string[] = [];
+    let i = 0;
+
+    // Paths come before the first expression
+    while (i < args.length && !args[i].startsWith('-') && args[i] !== '!') {
+      paths.push(args[i++]);
+    }
+
+    if (paths.length === 0) {
+      paths.push('.');
+    }
+
+    const tests: FindTest[] = [];
+    let maxDepth = Infinity;
+    let minDepth = 0;
+    let negateNext = false;
+
+    for (; i < args.length; i++) {
+      const arg = args[i];
+      const value = args[i + 1];
+      let test: FindTest | null = null;
+
+      switch (arg) {
+        case '!':
+        case '-not':
+          negateNext = !negateNext;
+          continue;
+        case '-print':
+          continue;
+        case '-name':
+        case '-iname':
+        case '-path':
+        case '-ipath':
+        case '-type':
+        case '-maxdepth':
+        case '-mindepth':
+          if (value === undefined) {
+            context.stderr(`find: missing argument to \`${arg}'\n`);
+            return { exitCode: 1 };
+          }
+
+          i++;
+          break;
+        default:
+          context.stderr(`find: unknown predicate \`${arg}'\n`);
+          return { exitCode: 1 };
+      }
+
+      switch (arg) {
+        case '-name':
+        case '-iname': {
+          const nocase = arg === '-iname';
+          test = (entry) => matchGlob(entry.name, value, { dot: true, nocase });
+          break;
+        }
+        case '-path':
+        case '-ipath': {
+          const nocase = arg === '-ipath';
+          const regex = pathPatternToRegExp(value, nocase);
+          test = (entry) => regex.test(entry.display);
+          break;
+        }
+        case '-type':
+          if (value !== 'f' && value !== 'd') {
+            context.stderr(`find: Unknown argument to -type: ${value}\n`);
+            return { exitCode: 1 };
+          }
+
+          test = (entry) => entry.isDirectory === (value === 'd');
+          break;
+        case '-maxdepth':
+          maxDepth = Number(value);
+          break;
+        case '-mindepth':
+          minDepth = Number(value);
+          break;
+      }
+
+      if (test) {
+        const inner = test;
+        tests.push(negateNext ? (entry) => !inner(entry) : inner);
+      }
+
+      negateNext = false;
+    }
+
+    let exitCode = 0;
+
+    for (const operand of paths) {
+      const root = resolvePath(operand, context);
+      let isDirectory: boolean;
+
+      try {
+        isDirectory = (await context.fs.stat(root)).isDirectory;
+      } catch {
+        context.stderr(`find: '${operand}': No such file or directory\n`);
+        exitCode = 1;
+        continue;
+      }
+
+      const visit = (entry: { name: string; path: string; display: string; isDirectory: boolean }, depth: number) => {
+        if (depth >= minDepth && depth <= maxDepth && tests.every((test) => test(entry))) {
+          context.stdout(`${entry.display}\n`);
+        }
+      };
+
+      const rootName = root === '/' ? '/' : root.substring(root.lastIndexOf('/') + 1);
+      visit({ name: rootName, path: root, display: operand, isDirectory }, 0);
+
+      if (!isDirectory || maxDepth < 1) {
+        continue;
+      }
+
+      await walkTree(context.fs, root, (entry) => {
+        visit({ ...entry, display: displayPath(operand, root, entry.path) }, entry.depth);
+        return entry.depth < maxDepth;
+      });
+    }
+
+    return { exitCode };
+  },
+};
+
+/**
+ * Convert a -path pattern, where wildcards also match `/`
+ */
+function pathPatternToRegExp(pattern: string, nocase: boolean): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') {
+        return '.*';
+      }
+
+      if (char === '?') {
+        return '.';
+      }
+
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`, nocase ? 'i' : '');
+}
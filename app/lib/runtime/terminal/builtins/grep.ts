@@ -0,0 +1,260 @@
+/**
+ * grep - Search files for lines matching a pattern
+ */
+
+import type { BuiltinCommand, CommandContext, CommandResult } from '../types';
+import { matchGlob } from '../../filesystem';
+import { compilePattern, displayPath, lastValue, parseOptions, resolvePath, splitLines, walkTree } from './text-utils';
+
+interface GrepOptions {
+  regex: RegExp;
+  invert: boolean;
+  lineNumbers: boolean;
+  count: boolean;
+  filesWithMatches: boolean;
+  filesWithoutMatch: boolean;
+  onlyMatching: boolean;
+  quiet: boolean;
+  withFilename: boolean;
+  maxCount: number;
+  before: number;
+  after: number;
+}
+
+export const grepCommand: BuiltinCommand = {
+  name: 'grep',
+  description: 'Print lines matching a pattern',
+  usage: 'grep [-rnivclLowxqEFhH] [-A n] [-B n] [-C n] [-m n] [--include=glob] [--exclude=glob] pattern [file...]',
+
+  async execute(args: string[], context: CommandContext): Promise<CommandResult> {
+    const options = parseOptions(args, {
+      flags: 'rRnivclLowxqEFhHs',
+      values: 'eABCm',
+      longValues: ['include', 'exclude', 'exclude-dir', 'regexp', 'max-count', 'context'],
+      longFlags: ['recursive', 'ignore-case', 'line-number', 'count', 'invert-match', 'files-with-matches', 'quiet'],
+      aliases: {
+        recursive: 'r',
+        'ignore-case': 'i',
+        'line-number': 'n',
+        count: 'c',
+        'invert-match': 'v',
+        'files-with-matches': 'l',
+        quiet: 'q',
+        regexp: 'e',
+        'max-count': 'm',
+        context: 'C',
+      },
+    });
+
+    if (options.error) {
+      context.stderr(`grep: ${options.error}\n`);
+      return { exitCode: 2 };
+    }
+
+    const flags = options.flags;
+    const patterns = options.values.get('e') ?? [];
+    const operands = [...options.operands];
+
+    if (patterns.length === 0) {
+      const pattern = operands.shift();
+
+      if (pattern === undefined) {
+        context.stderr(`grep: missing pattern\nUsage: ${grepCommand.usage}\n`);
+        return { exitCode: 2 };
+      }
+
+      patterns.push(pattern);
+    }
+
+    const recursive = flags.has('r') || flags.has('R');
+
+    if (recursive && operands.length === 0) {
+      operands.push('.');
+    }
+
+    let regex: RegExp;
+
+    try {
+      // Several patterns match if any of them matches
+      const sources = patterns.map((pattern) => {
+        const { source } = compilePattern(pattern, {
+          extended: flags.has('E'),
+          fixed: flags.has('F'),
+          wordMatch: flags.has('w'),
+        });
+
+        return flags.has('x') ? `^(?:${source})$` : source;
+      });
+      regex = new RegExp(sources.join('|'), flags.has('i') ? 'i' : '');
+    } catch (error) {
+      context.stderr(`grep: invalid regular expression: ${error instanceof Error ? error.message : error}\n`);
+      return { exitCode: 2 };
+    }
+
+    const contextLines = Number(lastValue(options, 'C') ?? 0);
+    const grep: GrepOptions = {
+      regex,
+      invert: flags.has('v'),
+      lineNumbers: flags.has('n'),
+      count: flags.has('c'),
+      filesWithMatches: flags.has('l'),
+      filesWithoutMatch: flags.has('L'),
+      onlyMatching: flags.has('o'),
+      quiet: flags.has('q'),
+      withFilename: flags.has('H') || (!flags.has('h') && (recursive || operands.length > 1)),
+      maxCount: Number(lastValue(options, 'm') ?? Infinity),
+      before: Number(lastValue(options, 'B') ?? contextLines),
+      after: Number(lastValue(options, 'A') ?? contextLines),
+    };
+
+    const includes = options.values.get('include') ?? [];
+    const excludes = options.values.get('exclude') ?? [];
+    const excludeDirs = options.values.get('exclude-dir') ?? [];
+    const accepts = (name: string) =>
+      (includes.length === 0 || includes.some((glob) => matchGlob(name, glob))) &&
+      !excludes.some((glob) => matchGlob(name, glob));
+
+    let matched = false;
+    let hadError = false;
+
+    const searchText = (name: string, content: string) => {
+      matched = searchContent(name, content, grep, context) || matched;
+    };
+
+    if (operands.length === 0) {
+      searchText('(standard input)', context.stdin ?? '');
+    }
+
+    for (const operand of operands) {
+      if (grep.quiet && matched) {
+        break;
+      }
+
+      if (operand === '-') {
+        searchText('(standard input)', context.stdin ?? '');
+        continue;
+      }
+
+      const path = resolvePath(operand, context);
+      let isDirectory: boolean;
+
+      try {
+        isDirectory = (await context.fs.stat(path)).isDirectory;
+      } catch {
+        if (!flags.has('s')) {
+          context.stderr(`grep: ${operand}: No such file or directory\n`);
+        }
+
+        hadError = true;
+        continue;
+      }
+
+      if (!isDirectory) {
+        searchText(operand, await context.fs.readTextFile(path));
+        continue;
+      }
+
+      if (!recursive) {
+        context.stderr(`grep: ${operand}: Is a directory\n`);
+        hadError = true;
+        continue;
+      }
+
+      await walkTree(context.fs, path, async (entry) => {
+        if (entry.isDirectory) {
+          return !excludeDirs.some((glob) => matchGlob(entry.name, glob));
+        }
+
+        if (accepts(entry.name) && !(grep.quiet && matched)) {
+          searchText(displayPath(operand, path, entry.path), await context.fs.readTextFile(entry.path));
+        }
+
+        return true;
+      });
+    }
+
+    if (grep.quiet && matched) {
+      return { exitCode: 0 };
+    }
+
+    // Errors win over "no match" unless -q found something, like GNU grep
+    return { exitCode: hadError ? 2 : matched ? 0 : 1 };
+  },
+};
+
+/**
+ * Search one input and print results. Returns true if a line was selected.
+ */
+function searchContent(name: string, content: string, options: GrepOptions, context: CommandContext): boolean {
+  const lines = splitLines(content);
+  const selected: number[] = [];
+
+  for (let i = 0; i < lines.length && selected.length < options.maxCount; i++) {
+    if (options.regex.test(lines[i]) !== options.invert) {
+      selected.push(i);
+    }
+  }
+
+  if (options.quiet) {
+    return selected.length > 0;
+  }
+
+  if (options.filesWithMatches || options.filesWithoutMatch) {
+    if (selected.length > 0 === options.filesWithMatches) {
+      context.stdout(`${name}\n`);
+    }
+
+    return selected.length > 0;
+  }
+
+  const prefix = (index: number, separator: string) =>
+    `${options.withFilename ? `${name}${separator}` : ''}${options.lineNumbers ? `${index + 1}${separator}` : ''}`;
+
+  if (options.count) {
+    context.stdout(`${options.withFilename ? `${name}:` : ''}${selected.length}\n`);
+    return selected.length > 0;
+  }
+
+  if (options.onlyMatching && !options.invert) {
+    const global = new RegExp(options.regex.source, `${options.regex.flags}g`);
+
+    for (const index of selected) {
+      for (const match of lines[index].matchAll(global)) {
+        if (match[0]) {
+          context.stdout(`${prefix(index, ':')}${match[0]}\n`);
+        }
+      }
+    }
+
+    return selected.length > 0;
+  }
+
+  // Print selected lines with -A/-B context, separating groups with --
+  let lastPrinted = -1;
+  const selectedSet = new Set(selected);
+
+  for (const index of selected) {
+    const start = Math.max(0, index - options.before, lastPrinted + 1);
+    const end = Math.min(lines.length - 1, index + options.after);
+
+    if (lastPrinted !== -1 && start > lastPrinted + 1 && (options.before > 0 || options.after > 0)) {
+      context.stdout('--\n');
+    }
+
+    for (let i = start; i <= end; i++) {
+      if (i <= lastPrinted) {
+        continue;
+      }
+
+      // Context after a match may itself be a later match
+      if (i > index && selectedSet.has(i)) {
+        break;
+      }
+
+      context.stdout(`${prefix(i, selectedSet.has(i) ? ':' : '-')}${lines[i]}\n`);
+      lastPrinted = i;
+    }
+  }
+
+  return selected.length > 0;
+}
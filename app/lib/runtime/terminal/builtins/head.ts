@@ -0,0 +1,54 @@
+/**
+ * head - Output the first part of files
+ */
+
+import type { BuiltinCommand, CommandContext, CommandResult } from '../types';
+import { joinLines, lastValue, parseOptions, readInputs, splitLines } from './text-utils';
+
+export const headCommand: BuiltinCommand = {
+  name: 'head',
+  description: 'Output the first lines of files',
+  usage: 'head [-n lines] [-c bytes] [-q] [file...]',
+
+  async execute(args: string[], context: CommandContext): Promise<CommandResult> {
+    const options = parseOptions(args, {
+      flags: 'qv',
+      values: 'nc',
+      longValues: ['lines', 'bytes'],
+      aliases: { lines: 'n', bytes: 'c' },
+      numericOption: 'n',
+    });
+
+    if (options.error) {
+      context.stderr(`head: ${options.error}\n`);
+      return { exitCode: 1 };
+    }
+
+    const bytes = lastValue(options, 'c');
+    const count = Number(bytes ?? lastValue(options, 'n') ?? 10);
+
+    if (!Number.isInteger(count)) {
+      context.stderr(`head: invalid number of ${bytes ? 'bytes' : 'lines'}: '${bytes ?? lastValue(options, 'n')}'\n`);
+      return { exitCode: 1 };
+    }
+
+    const { inputs, exitCode } = await readInputs('head', options.operands, context);
+    const showHeaders = options.flags.has('v') || (inputs.length > 1 && !options.flags.has('q'));
+
+    inputs.forEach((input, index) => {
+      if (showHeaders) {
+        context.stdout(`${index > 0 ? '\n' : ''}==> ${input.name === '-' ? 'standard input' : input.name} <==\n`);
+      }
+
+      if (bytes !== undefined) {
+        // Negative counts print everything but the last N (slice does both)
+        context.stdout(input.content.slice(0, count));
+        return;
+      }
+
+      context.stdout(joinLines(splitLines(input.content).slice(0, count)));
+    });
+
+    return { exitCode };
+  },
+};
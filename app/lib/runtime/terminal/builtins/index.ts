@@ -23,6 +23,19 @@ import { exportCommand } from './export';
 import { helpCommand } from './help';
 import { npmCommand } from './npm';
 import { npxCommand } from './npx';
+import { nodeCommand } from './node';
+import { trueCommand, falseCommand } from './true';
+import { exitCommand } from './exit';
+import { grepCommand } from './grep';
+import { findCommand } from './find';
+import { headCommand } from './head';
+import { tailCommand } from './tail';
+import { wcCommand } from './wc';
+import { sedCommand } from './sed';
+import { sortCommand } from './sort';
+import { uniqCommand } from './uniq';
+import { diffCommand } from './diff';
+import { treeCommand } from './tree';
 
 /**
  * All builtin commands
@@ -44,6 +57,20 @@ const builtinCommands: BuiltinCommand[] = [
   helpCommand,
   npmCommand,
   npxCommand,
+  nodeCommand,
+  trueCommand,
+  falseCommand,
+  exitCommand,
+  grepCommand,
+  findCommand,
+  headCommand,
+  tailCommand,
+  wcCommand,
+  sedCommand,
+  sortCommand,
+  uniqCommand,
+  diffCommand,
+  treeCommand,
 ];
 
 /**
@@ -108,4 +135,18 @@ export {
   helpCommand,
   npmCommand,
   npxCommand,
+  nodeCommand,
+  trueCommand,
+  falseCommand,
+  exitCommand,
+  grepCommand,
+  findCommand,
+  headCommand,
+  tailCommand,
+  wcCommand,
+  sedCommand,
+  sortCommand,
+  uniqCommand,
+  diffCommand,
+  treeCommand,
 };
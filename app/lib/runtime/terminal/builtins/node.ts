@@ -0,0 +1,75 @@
+/**
+ * node - Run JavaScript files with the browser Node.js runtime
+ */
+
+import type { BuiltinCommand, CommandContext, CommandResult } from '../types';
+import { launchNodeProcess } from '../../node/worker/process-host';
+
+/**
+ * Version reported by `node --version` (same as process.version)
+ */
+const NODE_VERSION = 'v20.0.0';
+
+export const nodeCommand: BuiltinCommand = {
+  name: 'node',
+  description: 'Run a JavaScript file',
+  usage: 'node [-e script] [file] [args...]',
+
+  async execute(args: string[], context: CommandContext): Promise<CommandResult> {
+    let evalCode: string | undefined;
+    let index = 0;
+
+    // Node options come before the script, everything after belongs to it
+    while (index < args.length && args[index].startsWith('-')) {
+      const arg = args[index];
+
+      if (arg === '-v' || arg === '--version') {
+        context.stdout(`${NODE_VERSION}\n`);
+        return { exitCode: 0 };
+      }
+
+      if (arg === '-e' || arg === '--eval') {
+        if (index + 1 >= args.length) {
+          context.stderr(`node: ${arg} requires an argument\n`);
+          return { exitCode: 9 };
+        }
+
+        evalCode = args[index + 1];
+        index += 2;
+        break;
+      }
+
+      if (arg === '--') {
+        index++;
+        break;
+      }
+
+      context.stderr(`node: bad option: ${arg}\n`);
+
+      return { exitCode: 9 };
+    }
+
+    const filename = evalCode === undefined ? args[index++] : undefined;
+
+    if (evalCode === undefined && filename === undefined) {
+      context.stderr('node: the interactive REPL is not supported, pass a file or -e <script>\n');
+      return { exitCode: 9 };
+    }
+
+    const exitCode = await launchNodeProcess({
+      fs: context.fs,
+      filename,
+      eval: evalCode,
+      args: args.slice(index),
+      cwd: context.state.cwd,
+      env: context.state.env,
+      stdin: context.stdin,
+      stdout: context.stdout,
+      stderr: context.stderr,
+      signal: context.signal,
+      ipc: context.ipc,
+    });
+
+    return { exitCode };
+  },
+};
@@ -8,25 +8,81 @@
 
 import type { BuiltinCommand, CommandContext, CommandResult } from '../types';
 import type { MountManager } from '../../filesystem';
-import { BaviniPM } from '../../package-manager';
+import {
+  BaviniPM,
+  PMError,
+  LOCKFILE_NAMES,
+  AUDIT_SEVERITIES,
+  findWorkspace,
+  isAuditSeverity,
+  type AuditSeverity,
+  type PackageJson,
+  type ScriptCommandExecutor,
+  type WorkspacePackage,
+} from '../../package-manager';
 import { ANSI } from '../types';
 
 /**
- * Global BaviniPM instance (lazy initialized)
+ * Global BaviniPM instance (lazy initialized, recreated when the project changes)
  */
 let _pm: BaviniPM | null = null;
+let _pmFilesystem: MountManager | null = null;
 
 function getPM(filesystem: MountManager, cwd: string): BaviniPM {
-  if (!_pm) {
+  if (!_pm || _pm.projectRoot !== cwd || _pmFilesystem !== filesystem) {
     _pm = new BaviniPM({
       filesystem,
       projectRoot: cwd,
     });
+    _pmFilesystem = filesystem;
   }
 
   return _pm;
 }
 
+/**
+ * Find the nearest directory containing a package.json, like npm does
+ */
+async function findProjectRoot(fs: MountManager, cwd: string): Promise<string | null> {
+  let dir = cwd.replace(/\/+$/, '') || '/';
+
+  while (true) {
+    const candidate = dir === '/' ? '/package.json' : `${dir}/package.json`;
+
+    if (await fs.exists(candidate)) {
+      return dir;
+    }
+
+    if (dir === '/') {
+      return null;
+    }
+
+    dir = dir.substring(0, dir.lastIndexOf('/')) || '/';
+  }
+}
+
+/**
+ * Run script command lines through the virtual shell
+ */
+async function createShellScriptExecutor(ctx: CommandContext): Promise<ScriptCommandExecutor> {
+  // Loaded lazily: the pipe executor imports the builtins registry, which imports this module
+  const pipeExecutorModule = await import('../pipe-executor');
+  const executor = new pipeExecutorModule.PipeExecutor();
+
+  return async (command, scriptCtx) => {
+    const result = await executor.executeCommandLine(command, {
+      ...ctx,
+      state: { ...ctx.state, cwd: scriptCtx.cwd, env: scriptCtx.env },
+      stdout: scriptCtx.stdout,
+      stderr: scriptCtx.stderr,
+      signal: scriptCtx.signal,
+      stdin: undefined,
+    });
+
+    return result.exitCode;
+  };
+}
+
 /**
  * npm install command
  */
@@ -75,6 +131,10 @@ export const npmInstallCommand: BuiltinCommand = {
       if (result.success) {
         ctx.stdout(`${ANSI.GREEN}✓${ANSI.RESET} Installed ${result.installed.length} packages\n`);
 
+        if (result.lockfile && result.drift?.length === 0 && !force && !production) {
+          ctx.stdout(`  ${ANSI.DIM}from ${LOCKFILE_NAMES[result.lockfile]}${ANSI.RESET}\n`);
+        }
+
         for (const pkg of result.installed.slice(0, 10)) {
           ctx.stdout(`  ${ANSI.DIM}+${ANSI.RESET} ${pkg.name}@${pkg.version}\n`);
         }
@@ -153,13 +213,20 @@ export const npmUninstallCommand: BuiltinCommand = {
 export const npmRunCommand: BuiltinCommand = {
   name: 'npm-run',
   description: 'Run a package script',
-  usage: 'npm run <script> [-- args...]',
+  usage: 'npm run <script> [-w <workspace>] [--workspaces] [--if-present] [-- args...]',
 
   async execute(args: string[], ctx: CommandContext): Promise<CommandResult> {
+    const projectRoot = await findProjectRoot(ctx.fs, ctx.state.cwd);
+
+    if (!projectRoot) {
+      ctx.stdout(`${ANSI.RED}Error: Could not read package.json${ANSI.RESET}\n`);
+      return { exitCode: 1 };
+    }
+
     if (args.length === 0) {
       // List available scripts
       try {
-        const content = await ctx.fs.readFile(`${ctx.state.cwd}/package.json`);
+        const content = await ctx.fs.readFile(`${projectRoot}/package.json`);
         const packageJson = JSON.parse(new TextDecoder().decode(content));
         const scripts = packageJson.scripts ?? {};
 
@@ -181,30 +248,195 @@ export const npmRunCommand: BuiltinCommand = {
       }
     }
 
-    const scriptName = args[0];
-    const scriptArgs = args.slice(1).filter((a) => a !== '--');
-
-    const pm = getPM(ctx.fs, ctx.state.cwd);
+    // Everything after `--` is passed verbatim to the script
+    const separator = args.indexOf('--');
+    const ownArgs = separator === -1 ? args : args.slice(0, separator);
+    const passthrough = separator === -1 ? [] : args.slice(separator + 1);
+    const { positional, workspaces, allWorkspaces, ignoreScripts, silent, ifPresent } = parseRunArgs(ownArgs);
 
-    try {
-      const result = await pm.run(scriptName, scriptArgs);
+    const scriptName = positional[0];
+    const scriptArgs = [...positional.slice(1), ...passthrough];
 
-      if (result.stdout) {
-        ctx.stdout(result.stdout);
-      }
+    if (!scriptName) {
+      ctx.stdout(`${ANSI.RED}Error: Please specify a script to run${ANSI.RESET}\n`);
+      return { exitCode: 1 };
+    }
 
-      if (result.stderr) {
-        ctx.stdout(`${ANSI.RED}${result.stderr}${ANSI.RESET}`);
-      }
+    const useWorkspaces = allWorkspaces || workspaces.length > 0;
+    const pm = getPM(ctx.fs, useWorkspaces ? await findWorkspaceRoot(ctx.fs, projectRoot) : projectRoot);
+    let targets: RunTarget[];
 
-      return { exitCode: result.exitCode };
+    try {
+      targets = useWorkspaces
+        ? await getWorkspaceTargets(pm, allWorkspaces ? null : workspaces)
+        : [{ scripts: await readScripts(ctx.fs, projectRoot) }];
     } catch (error) {
       ctx.stdout(`${ANSI.RED}Error: ${error instanceof Error ? error.message : String(error)}${ANSI.RESET}\n`);
       return { exitCode: 1 };
     }
+
+    const executor = await createShellScriptExecutor(ctx);
+    let exitCode = 0;
+
+    for (const target of targets) {
+      if (ifPresent && !target.scripts[scriptName]) {
+        continue;
+      }
+
+      const where = target.workspace ? ` in workspace ${target.workspace.name}` : '';
+
+      try {
+        const result = await pm.run(scriptName, scriptArgs, {
+          executor,
+          env: ctx.state.env,
+          stdout: ctx.stdout,
+          stderr: ctx.stderr,
+          signal: ctx.signal,
+          ignoreScripts,
+          silent,
+          workspace: target.workspace?.path,
+        });
+
+        if (result.exitCode !== 0) {
+          exitCode = result.exitCode;
+
+          if (ctx.signal?.aborted) {
+            break;
+          }
+
+          ctx.stdout(
+            `${ANSI.RED}Lifecycle script \`${scriptName}\` failed with exit code ${result.exitCode}${where}${ANSI.RESET}\n`,
+          );
+        }
+      } catch (error) {
+        exitCode = 1;
+
+        if (error instanceof PMError && error.code === 'SCRIPT_ERROR') {
+          ctx.stdout(`${ANSI.RED}Error: ${error.message}${where}${ANSI.RESET}\n`);
+          ctx.stdout(`${ANSI.DIM}Run \`npm run\` to list available scripts${ANSI.RESET}\n`);
+        } else {
+          ctx.stdout(`${ANSI.RED}Error: ${error instanceof Error ? error.message : String(error)}${ANSI.RESET}\n`);
+        }
+      }
+    }
+
+    return { exitCode };
   },
 };
 
+/**
+ * Package a script runs in: the project itself or a workspace
+ */
+interface RunTarget {
+  workspace?: WorkspacePackage;
+  scripts: Record<string, string>;
+}
+
+/**
+ * Parse `npm run` options: -w/--workspace (repeatable), -ws/--workspaces,
+ * --if-present, --ignore-scripts and --silent
+ */
+function parseRunArgs(args: string[]) {
+  const parsed = {
+    positional: [] as string[],
+    workspaces: [] as string[],
+    allWorkspaces: false,
+    ignoreScripts: false,
+    silent: false,
+    ifPresent: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '-w' || arg === '--workspace') {
+      if (i + 1 < args.length) {
+        parsed.workspaces.push(args[++i]);
+      }
+    } else if (arg.startsWith('--workspace=')) {
+      parsed.workspaces.push(arg.slice('--workspace='.length));
+    } else if (arg === '-ws' || arg === '--workspaces') {
+      parsed.allWorkspaces = true;
+    } else if (arg === '--if-present') {
+      parsed.ifPresent = true;
+    } else if (arg === '--ignore-scripts') {
+      parsed.ignoreScripts = true;
+    } else if (arg === '--silent' || arg === '-s') {
+      parsed.silent = true;
+    } else if (!arg.startsWith('-')) {
+      parsed.positional.push(arg);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Find the workspace root: the nearest package.json declaring `workspaces`,
+ * starting from the package root (npm -w also works from inside a workspace)
+ */
+async function findWorkspaceRoot(fs: MountManager, packageRoot: string): Promise<string> {
+  let dir = packageRoot;
+
+  while (true) {
+    const packageJson = await readPackageJson(fs, dir);
+
+    if (packageJson?.workspaces) {
+      return dir;
+    }
+
+    if (dir === '/') {
+      return packageRoot;
+    }
+
+    dir = dir.substring(0, dir.lastIndexOf('/')) || '/';
+  }
+}
+
+/**
+ * Resolve -w names (or every workspace when `names` is null) to run targets
+ */
+async function getWorkspaceTargets(pm: BaviniPM, names: string[] | null): Promise<RunTarget[]> {
+  const available = await pm.getWorkspaces();
+
+  if (available.length === 0) {
+    throw new PMError('SCRIPT_ERROR', 'No workspaces found in package.json');
+  }
+
+  const selected = names
+    ? names.map((name) => {
+        const workspace = findWorkspace(available, name);
+
+        if (!workspace) {
+          throw new PMError('SCRIPT_ERROR', `No workspace found: ${name}`);
+        }
+
+        return workspace;
+      })
+    : available;
+
+  return selected.map((workspace) => ({ workspace, scripts: workspace.packageJson.scripts ?? {} }));
+}
+
+/**
+ * Read the scripts of a package.json (empty when unreadable)
+ */
+async function readScripts(fs: MountManager, packageRoot: string): Promise<Record<string, string>> {
+  return (await readPackageJson(fs, packageRoot))?.scripts ?? {};
+}
+
+/**
+ * Read a package.json, null when missing or invalid
+ */
+async function readPackageJson(fs: MountManager, dir: string): Promise<PackageJson | null> {
+  try {
+    const content = await fs.readFile(dir === '/' ? '/package.json' : `${dir}/package.json`);
+    return JSON.parse(new TextDecoder().decode(content));
+  } catch {
+    return null;
+  }
+}
+
 /**
  * npm list command
  */
@@ -239,6 +471,190 @@ export const npmListCommand: BuiltinCommand = {
   },
 };
 
+/**
+ * npm outdated command
+ */
+export const npmOutdatedCommand: BuiltinCommand = {
+  name: 'npm-outdated',
+  description: 'List outdated dependencies',
+  usage: 'npm outdated [packages...] [--json]',
+
+  async execute(args: string[], ctx: CommandContext): Promise<CommandResult> {
+    const json = args.includes('--json');
+    const names = args.filter((arg) => !arg.startsWith('-'));
+    const pm = getPM(ctx.fs, (await findProjectRoot(ctx.fs, ctx.state.cwd)) ?? ctx.state.cwd);
+
+    try {
+      const outdated = (await pm.outdated()).filter((pkg) => names.length === 0 || names.includes(pkg.name));
+
+      if (json) {
+        ctx.stdout(`${JSON.stringify(outdated, null, 2)}\n`);
+      } else if (outdated.length > 0) {
+        const rows = [
+          ['Package', 'Current', 'Wanted', 'Latest', 'Location'],
+          ...outdated.map((pkg) => [
+            pkg.name,
+            pkg.current ?? 'MISSING',
+            pkg.wanted,
+            pkg.latest,
+            pkg.dependent === '.' ? `node_modules/${pkg.name}` : pkg.dependent,
+          ]),
+        ];
+        const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+
+        for (const [index, row] of rows.entries()) {
+          const line = row.map((cell, column) => cell.padEnd(widths[column])).join('  ');
+
+          if (index === 0) {
+            ctx.stdout(`${ANSI.BOLD}${line}${ANSI.RESET}\n`);
+          } else {
+            // Red: an update within the range is available, yellow: only a new major/range
+            const pkg = outdated[index - 1];
+            ctx.stdout(`${pkg.current !== pkg.wanted ? ANSI.RED : ANSI.YELLOW}${line}${ANSI.RESET}\n`);
+          }
+        }
+      }
+
+      // Like npm, exit with 1 when something is outdated
+      return { exitCode: outdated.length > 0 ? 1 : 0 };
+    } catch (error) {
+      ctx.stdout(`${ANSI.RED}Error: ${error instanceof Error ? error.message : String(error)}${ANSI.RESET}\n`);
+      return { exitCode: 1 };
+    }
+  },
+};
+
+/**
+ * npm update command
+ */
+export const npmUpdateCommand: BuiltinCommand = {
+  name: 'npm-update',
+  description: 'Update packages within their semver ranges',
+  usage: 'npm update [packages...] [--production]',
+
+  async execute(args: string[], ctx: CommandContext): Promise<CommandResult> {
+    const packages = args.filter((arg) => !arg.startsWith('-'));
+    const production = args.includes('--production') || args.includes('--prod');
+    const pm = getPM(ctx.fs, (await findProjectRoot(ctx.fs, ctx.state.cwd)) ?? ctx.state.cwd);
+
+    ctx.stdout(`${ANSI.DIM}Checking for updates...${ANSI.RESET}\n`);
+
+    try {
+      const result = await pm.update(packages, { production });
+
+      if (!result.success) {
+        ctx.stdout(`${ANSI.RED}✗${ANSI.RESET} Update failed\n`);
+
+        for (const error of result.errors) {
+          ctx.stdout(`  ${ANSI.RED}${error}${ANSI.RESET}\n`);
+        }
+      } else if (result.updated.length === 0) {
+        ctx.stdout(`${ANSI.GREEN}✓${ANSI.RESET} All packages are up to date\n`);
+      } else {
+        ctx.stdout(`${ANSI.GREEN}✓${ANSI.RESET} Updated ${result.updated.length} packages\n`);
+
+        for (const pkg of result.updated) {
+          const where = pkg.dependent === '.' ? '' : ` ${ANSI.DIM}(${pkg.dependent})${ANSI.RESET}`;
+          ctx.stdout(`  ${ANSI.DIM}~${ANSI.RESET} ${pkg.name} ${pkg.from ?? 'missing'} → ${pkg.to}${where}\n`);
+        }
+      }
+
+      for (const warning of result.warnings) {
+        ctx.stdout(`${ANSI.YELLOW}⚠${ANSI.RESET} ${warning}\n`);
+      }
+
+      return { exitCode: result.success ? 0 : 1 };
+    } catch (error) {
+      ctx.stdout(`${ANSI.RED}Error: ${error instanceof Error ? error.message : String(error)}${ANSI.RESET}\n`);
+      return { exitCode: 1 };
+    }
+  },
+};
+
+/**
+ * npm audit command
+ */
+export const npmAuditCommand: BuiltinCommand = {
+  name: 'npm-audit',
+  description: 'Check installed packages against security advisories',
+  usage: `npm audit [--advisories <file>] [--audit-level=<${AUDIT_SEVERITIES.join('|')}>] [--json]`,
+
+  async execute(args: string[], ctx: CommandContext): Promise<CommandResult> {
+    let advisoryFile: string | undefined;
+    let auditLevel: AuditSeverity = 'info';
+    let json = false;
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      const level = arg === '--audit-level' ? args[++i] : arg.startsWith('--audit-level=') ? arg.slice(14) : null;
+
+      if (level !== null) {
+        if (!level || !isAuditSeverity(level)) {
+          ctx.stdout(`${ANSI.RED}Error: Invalid audit level: ${level ?? ''}${ANSI.RESET}\n`);
+          return { exitCode: 1 };
+        }
+
+        auditLevel = level;
+      } else if (arg === '--advisories') {
+        advisoryFile = args[++i];
+      } else if (arg.startsWith('--advisories=')) {
+        advisoryFile = arg.slice('--advisories='.length);
+      } else if (arg === '--json') {
+        json = true;
+      } else if (!arg.startsWith('-')) {
+        ctx.stdout(`${ANSI.RED}Error: npm audit ${arg} is not supported${ANSI.RESET}\n`);
+        return { exitCode: 1 };
+      }
+    }
+
+    const pm = getPM(ctx.fs, (await findProjectRoot(ctx.fs, ctx.state.cwd)) ?? ctx.state.cwd);
+
+    try {
+      const report = await pm.audit({
+        advisoryFile: advisoryFile && !advisoryFile.startsWith('/') ? `${ctx.state.cwd}/${advisoryFile}` : advisoryFile,
+        auditLevel,
+      });
+
+      if (json) {
+        ctx.stdout(`${JSON.stringify(report, null, 2)}\n`);
+        return { exitCode: report.findings.length > 0 ? 1 : 0 };
+      }
+
+      for (const finding of report.findings) {
+        const { advisory } = finding;
+        const color = advisory.severity === 'critical' || advisory.severity === 'high' ? ANSI.RED : ANSI.YELLOW;
+
+        ctx.stdout(`${ANSI.BOLD}${advisory.name}${ANSI.RESET}  ${advisory.vulnerableVersions}\n`);
+        ctx.stdout(`Severity: ${color}${advisory.severity}${ANSI.RESET}\n`);
+        ctx.stdout(`${advisory.title}${advisory.url ? ` - ${advisory.url}` : ''}\n`);
+
+        for (const path of finding.paths) {
+          ctx.stdout(`${ANSI.DIM}${path}${ANSI.RESET}\n`);
+        }
+
+        ctx.stdout('\n');
+      }
+
+      if (report.findings.length === 0) {
+        ctx.stdout(`${ANSI.GREEN}✓${ANSI.RESET} found 0 vulnerabilities in ${report.scanned} packages\n`);
+        return { exitCode: 0 };
+      }
+
+      const counts = AUDIT_SEVERITIES.filter((severity) => report.summary[severity] > 0)
+        .reverse()
+        .map((severity) => `${report.summary[severity]} ${severity}`);
+
+      const noun = report.findings.length === 1 ? 'vulnerability' : 'vulnerabilities';
+      ctx.stdout(`${report.findings.length} ${noun} (${counts.join(', ')}) in ${report.scanned} packages\n`);
+
+      return { exitCode: 1 };
+    } catch (error) {
+      ctx.stdout(`${ANSI.RED}Error: ${error instanceof Error ? error.message : String(error)}${ANSI.RESET}\n`);
+      return { exitCode: 1 };
+    }
+  },
+};
+
 /**
  * Main npm command dispatcher
  */
@@ -255,12 +671,19 @@ export const npmCommand: BuiltinCommand = {
       ctx.stdout('  install, i     Install packages\n');
       ctx.stdout('  uninstall, un  Remove packages\n');
       ctx.stdout('  run            Run a script\n');
+      ctx.stdout('  test, t        Run the test script\n');
+      ctx.stdout('  start          Run the start script\n');
       ctx.stdout('  list, ls       List installed packages\n');
+      ctx.stdout('  outdated       List outdated dependencies\n');
+      ctx.stdout('  update, up     Update packages within their ranges\n');
+      ctx.stdout('  audit          Check packages against advisories\n');
       ctx.stdout('\n');
       ctx.stdout('Options:\n');
       ctx.stdout('  --save-dev, -D   Save to devDependencies\n');
       ctx.stdout('  --production     Install production deps only\n');
       ctx.stdout('  --force, -f      Force reinstall\n');
+      ctx.stdout('  -w <workspace>   Run in a workspace (npm run)\n');
+      ctx.stdout('  --workspaces     Run in every workspace (npm run)\n');
       return { exitCode: 0 };
     }
 
@@ -283,10 +706,31 @@ export const npmCommand: BuiltinCommand = {
       case 'run-script':
         return npmRunCommand.execute(subArgs, ctx);
 
+      case 'test':
+      case 't':
+      case 'tst':
+        return npmRunCommand.execute(['test', ...subArgs], ctx);
+
+      case 'start':
+      case 'stop':
+      case 'restart':
+        return npmRunCommand.execute([subcommand, ...subArgs], ctx);
+
       case 'list':
       case 'ls':
         return npmListCommand.execute(subArgs, ctx);
 
+      case 'outdated':
+        return npmOutdatedCommand.execute(subArgs, ctx);
+
+      case 'update':
+      case 'up':
+      case 'upgrade':
+        return npmUpdateCommand.execute(subArgs, ctx);
+
+      case 'audit':
+        return npmAuditCommand.execute(subArgs, ctx);
+
       case 'init':
         return npmInit(subArgs, ctx);
 
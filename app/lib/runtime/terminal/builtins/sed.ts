@@ -0,0 +1,430 @@
+/**
+ * sed - Stream editor
+ */
+
+import type { BuiltinCommand, CommandContext, CommandResult } from '../types';
+import { compilePattern, parseOptions, readInputs, splitLines } from './text-utils';
+
+/**
+ * Line address (`3`, `$` or `/regex/`)
+ */
+type SedAddress = { kind: 'line'; line: number } | { kind: 'last' } | { kind: 'regex'; regex: RegExp };
+
+/**
+ * Parsed sed command
+ */
+interface SedCommand {
+  name: 's' | 'p' | 'd' | 'q' | '=';
+  start?: SedAddress;
+  end?: SedAddress;
+  negate: boolean;
+
+  /** Range state, true while between start and end */
+  inRange: boolean;
+
+  /** s command: regex, replacement and flags */
+  regex?: RegExp;
+  replacement?: string;
+  occurrence?: number;
+  global?: boolean;
+  print?: boolean;
+}
+
+/**
+ * Error thrown for an invalid sed script
+ */
+class SedScriptError extends Error {}
+
+export const sedCommand: BuiltinCommand = {
+  name: 'sed',
+  description: 'Stream editor for filtering and transforming text',
+  usage: 'sed [-nEi] [-e script] script [file...]',
+
+  async execute(args: string[], context: CommandContext): Promise<CommandResult> {
+    const options = parseOptions(args, {
+      flags: 'nEri',
+      values: 'e',
+      longFlags: ['quiet', 'silent', 'regexp-extended', 'in-place'],
+      longValues: ['expression'],
+      aliases: { quiet: 'n', silent: 'n', 'regexp-extended': 'E', 'in-place': 'i', expression: 'e' },
+    });
+
+    if (options.error) {
+      context.stderr(`sed: ${options.error}\n`);
+      return { exitCode: 1 };
+    }
+
+    const flags = options.flags;
+    const operands = [...options.operands];
+    const scripts = options.values.get('e') ?? [];
+
+    if (scripts.length === 0) {
+      const script = operands.shift();
+
+      if (script === undefined) {
+        context.stderr(`Usage: ${sedCommand.usage}\n`);
+        return { exitCode: 1 };
+      }
+
+      scripts.push(script);
+    }
+
+    let commands: SedCommand[];
+
+    try {
+      commands = parseScript(scripts.join('\n'), flags.has('E') || flags.has('r'));
+    } catch (error) {
+      context.stderr(`sed: -e expression #1: ${error instanceof Error ? error.message : String(error)}\n`);
+      return { exitCode: 1 };
+    }
+
+    const quiet = flags.has('n');
+
+    if (flags.has('i')) {
+      if (operands.length === 0) {
+        context.stderr('sed: no input files\n');
+        return { exitCode: 1 };
+      }
+
+      const { inputs, exitCode } = await readInputs('sed', operands, context);
+
+      // Each file is edited separately, with its own line numbers
+      for (const input of inputs) {
+        await context.fs.writeTextFile(
+          input.path!,
+          runScript(commands.map(resetRange), splitLines(input.content), quiet),
+        );
+      }
+
+      return { exitCode };
+    }
+
+    const { inputs, exitCode } = await readInputs('sed', operands, context);
+    const lines = inputs.flatMap((input) => splitLines(input.content));
+
+    context.stdout(runScript(commands, lines, quiet));
+
+    return { exitCode };
+  },
+};
+
+/**
+ * Copy a command with a fresh range state
+ */
+function resetRange(command: SedCommand): SedCommand {
+  return { ...command, inRange: false };
+}
+
+/**
+ * Run the script over the input lines and return the output
+ */
+function runScript(commands: SedCommand[], lines: string[], quiet: boolean): string {
+  let text = '';
+
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1;
+    const isLast = index === lines.length - 1;
+    let pattern = lines[index];
+    let deleted = false;
+    let quit = false;
+
+    for (const command of commands) {
+      if (!isSelected(command, pattern, lineNumber, isLast)) {
+        continue;
+      }
+
+      if (command.name === 'd') {
+        deleted = true;
+        break;
+      }
+
+      if (command.name === 'p') {
+        text += `${pattern}\n`;
+      } else if (command.name === '=') {
+        text += `${lineNumber}\n`;
+      } else if (command.name === 'q') {
+        quit = true;
+        break;
+      } else {
+        const result = substitute(pattern, command);
+
+        pattern = result.text;
+
+        if (result.replaced && command.print) {
+          text += `${pattern}\n`;
+        }
+      }
+    }
+
+    if (!deleted && !quiet) {
+      text += `${pattern}\n`;
+    }
+
+    if (quit) {
+      break;
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Check whether a command applies to the current line, updating range state
+ */
+function isSelected(command: SedCommand, line: string, lineNumber: number, isLast: boolean): boolean {
+  const matches = (address: SedAddress) => {
+    switch (address.kind) {
+      case 'line':
+        return address.line === lineNumber;
+      case 'last':
+        return isLast;
+      default:
+        return address.regex.test(line);
+    }
+  };
+
+  let selected: boolean;
+
+  if (!command.start) {
+    selected = true;
+  } else if (!command.end) {
+    selected = matches(command.start);
+  } else if (!command.inRange) {
+    selected = matches(command.start);
+
+    // A line number end at or before the start selects a single line
+    const end = command.end;
+    command.inRange = selected && !(end.kind === 'line' && end.line <= lineNumber) && !(end.kind === 'last' && isLast);
+  } else {
+    selected = true;
+
+    const end = command.end;
+    command.inRange = !(end.kind === 'line' ? lineNumber >= end.line : matches(end));
+  }
+
+  return command.negate ? !selected : selected;
+}
+
+/**
+ * Apply an s command to the pattern space
+ */
+function substitute(text: string, command: SedCommand): { text: string; replaced: boolean } {
+  const regex = command.regex!;
+  const occurrence = command.occurrence ?? 1;
+  let count = 0;
+  let replaced = false;
+
+  const result = text.replace(regex, (...match: unknown[]) => {
+    count++;
+
+    // Without g only the Nth match is replaced, with g the Nth and later ones
+    if (count < occurrence || (!command.global && count > occurrence)) {
+      return match[0] as string;
+    }
+
+    replaced = true;
+
+    const groups = match.slice(
+      0,
+      match.findIndex((value) => typeof value === 'number'),
+    ) as Array<string | undefined>;
+
+    return expandReplacement(command.replacement!, groups);
+  });
+
+  return { text: result, replaced };
+}
+
+/**
+ * Expand & and \1..\9 in a replacement
+ */
+function expandReplacement(replacement: string, groups: Array<string | undefined>): string {
+  let result = '';
+
+  for (let i = 0; i < replacement.length; i++) {
+    const char = replacement[i];
+
+    if (char === '&') {
+      result += groups[0];
+      continue;
+    }
+
+    if (char === '\\' && i + 1 < replacement.length) {
+      const next = replacement[++i];
+
+      if (/[0-9]/.test(next)) {
+        result += groups[Number(next)] ?? '';
+      } else if (next === 'n') {
+        result += '\n';
+      } else if (next === 't') {
+        result += '\t';
+      } else {
+        result += next;
+      }
+
+      continue;
+    }
+
+    result += char;
+  }
+
+  return result;
+}
+
+/**
+ * Parse a sed script into commands
+ */
+function parseScript(script: string, extended: boolean): SedCommand[] {
+  const commands: SedCommand[] = [];
+  let i = 0;
+
+  const skipBlanks = () => {
+    while (i < script.length && /[ \t]/.test(script[i])) {
+      i++;
+    }
+  };
+
+  // Read up to an unescaped delimiter, unescaping the delimiter itself
+  const readDelimited = (delimiter: string): string => {
+    let text = '';
+
+    while (i < script.length && script[i] !== delimiter) {
+      if (script[i] === '\\' && script[i + 1] === delimiter) {
+        text += delimiter;
+        i += 2;
+        continue;
+      }
+
+      if (script[i] === '\\' && i + 1 < script.length) {
+        text += script.substring(i, i + 2);
+        i += 2;
+        continue;
+      }
+
+      text += script[i++];
+    }
+
+    if (i >= script.length) {
+      throw new SedScriptError('unterminated address regex');
+    }
+
+    i++;
+
+    return text;
+  };
+
+  const readAddress = (): SedAddress | undefined => {
+    if (script[i] === '$') {
+      i++;
+      return { kind: 'last' };
+    }
+
+    const number = /^\d+/.exec(script.substring(i));
+
+    if (number) {
+      i += number[0].length;
+      return { kind: 'line', line: Number(number[0]) };
+    }
+
+    if (script[i] === '/' || script[i] === '\\') {
+      const delimiter = script[i] === '\\' ? script[i + 1] : '/';
+      i += script[i] === '\\' ? 2 : 1;
+
+      return { kind: 'regex', regex: compilePattern(readDelimited(delimiter), { extended }) };
+    }
+
+    return undefined;
+  };
+
+  while (i < script.length) {
+    skipBlanks();
+
+    if (script[i] === ';' || script[i] === '\n') {
+      i++;
+      continue;
+    }
+
+    if (i >= script.length) {
+      break;
+    }
+
+    const command: SedCommand = { name: 'p', negate: false, inRange: false };
+    command.start = readAddress();
+
+    if (command.start && script[i] === ',') {
+      i++;
+      command.end = readAddress();
+
+      if (!command.end) {
+        throw new SedScriptError("unexpected `,'");
+      }
+    }
+
+    skipBlanks();
+
+    if (script[i] === '!') {
+      command.negate = true;
+      i++;
+      skipBlanks();
+    }
+
+    const name = script[i++];
+
+    switch (name) {
+      case 'p':
+      case 'd':
+      case 'q':
+      case '=':
+        command.name = name;
+        break;
+      case 's': {
+        const delimiter = script[i++];
+
+        if (!delimiter || delimiter === '\n' || delimiter === '\\') {
+          throw new SedScriptError("unterminated `s' command");
+        }
+
+        const pattern = readDelimited(delimiter);
+        const replacement = readDelimited(delimiter);
+        let ignoreCase = false;
+
+        command.name = 's';
+        command.replacement = replacement;
+
+        while (i < script.length && /[gipIP0-9]/.test(script[i])) {
+          const flag = script[i];
+
+          if (flag === 'g') {
+            command.global = true;
+          } else if (flag === 'i' || flag === 'I') {
+            ignoreCase = true;
+          } else if (flag === 'p' || flag === 'P') {
+            command.print = true;
+          } else {
+            const digits = /^\d+/.exec(script.substring(i))![0];
+            command.occurrence = Number(digits);
+            i += digits.length - 1;
+          }
+
+          i++;
+        }
+
+        // Matches are counted for numeric flags, so the regex is always global
+        command.regex = compilePattern(pattern, { extended, ignoreCase, global: true });
+        break;
+      }
+      default:
+        throw new SedScriptError(name === undefined ? 'missing command' : `unknown command: \`${name}'`);
+    }
+
+    skipBlanks();
+
+    if (i < script.length && script[i] !== ';' && script[i] !== '\n' && script[i] !== '}') {
+      throw new SedScriptError('extra characters after command');
+    }
+
+    commands.push(command);
+  }
+
+  return commands;
+}
@@ -0,0 +1,104 @@
+/**
+ * sort - Sort lines of text
+ */
+
+import type { BuiltinCommand, CommandContext, CommandResult } from '../types';
+import { joinLines, lastValue, parseOptions, readInputs, splitLines } from './text-utils';
+
+export const sortCommand: BuiltinCommand = {
+  name: 'sort',
+  description: 'Sort lines of text',
+  usage: 'sort [-rnufb] [-k field[,field]] [-t sep] [file...]',
+
+  async execute(args: string[], context: CommandContext): Promise<CommandResult> {
+    const options = parseOptions(args, {
+      flags: 'rnufbs',
+      values: 'kt',
+      longFlags: ['reverse', 'numeric-sort', 'unique', 'ignore-case'],
+      longValues: ['key', 'field-separator'],
+      aliases: { reverse: 'r', 'numeric-sort': 'n', unique: 'u', 'ignore-case': 'f', key: 'k', 'field-separator': 't' },
+    });
+
+    if (options.error) {
+      context.stderr(`sort: ${options.error}\n`);
+      return { exitCode: 2 };
+    }
+
+    const flags = options.flags;
+    const separator = lastValue(options, 't');
+    const key = parseKey(lastValue(options, 'k'));
+
+    if (key === null) {
+      context.stderr(`sort: invalid key specification '${lastValue(options, 'k')}'\n`);
+      return { exitCode: 2 };
+    }
+
+    const { inputs, exitCode } = await readInputs('sort', options.operands, context);
+
+    if (exitCode !== 0) {
+      return { exitCode: 2 };
+    }
+
+    const lines = inputs.flatMap((input) => splitLines(input.content));
+
+    const extract = (line: string): string => {
+      let value = line;
+
+      if (key) {
+        const fields = separator ? line.split(separator) : line.trim().split(/\s+/);
+        value = fields.slice(key.start - 1, key.end ?? fields.length).join(separator ?? ' ');
+      }
+
+      if (flags.has('b')) {
+        value = value.trim();
+      }
+
+      return flags.has('f') ? value.toLowerCase() : value;
+    };
+
+    const compareKeys = (a: string, b: string): number => {
+      if (flags.has('n')) {
+        return (parseFloat(a) || 0) - (parseFloat(b) || 0);
+      }
+
+      return a < b ? -1 : a > b ? 1 : 0;
+    };
+
+    const compare = (a: string, b: string): number => {
+      let result = compareKeys(extract(a), extract(b));
+
+      // Last-resort comparison on the whole line, unless -s (stable)
+      if (result === 0 && !flags.has('s') && !flags.has('u')) {
+        result = a < b ? -1 : a > b ? 1 : 0;
+      }
+
+      return flags.has('r') ? -result : result;
+    };
+
+    const sorted = [...lines].sort(compare);
+    const output = flags.has('u')
+      ? sorted.filter((line, index) => index === 0 || compareKeys(extract(sorted[index - 1]), extract(line)) !== 0)
+      : sorted;
+
+    context.stdout(joinLines(output));
+
+    return { exitCode: 0 };
+  },
+};
+
+/**
+ * Parse a -k FIELD[,FIELD] specification (character offsets are ignored)
+ */
+function parseKey(spec: string | undefined): { start: number; end?: number } | null | undefined {
+  if (spec === undefined) {
+    return undefined;
+  }
+
+  const match = /^(\d+)(?:\.\d+)?[a-z]*(?:,(\d+)(?:\.\d+)?[a-z]*)?$/.exec(spec);
+
+  if (!match || Number(match[1]) < 1) {
+    return null;
+  }
+
+  return { start: Number(match[1]), end: match[2] ? Number(match[2]) : undefined };
+}
@@ -0,0 +1,61 @@
+/**
+ * tail - Output the last part of files
+ */
+
+import type { BuiltinCommand, CommandContext, CommandResult } from '../types';
+import { joinLines, lastValue, parseOptions, readInputs, splitLines } from './text-utils';
+
+export const tailCommand: BuiltinCommand = {
+  name: 'tail',
+  description: 'Output the last lines of files',
+  usage: 'tail [-n [+]lines] [-c [+]bytes] [-q] [file...]',
+
+  async execute(args: string[], context: CommandContext): Promise<CommandResult> {
+    const options = parseOptions(args, {
+      flags: 'qv',
+      values: 'nc',
+      longValues: ['lines', 'bytes'],
+      aliases: { lines: 'n', bytes: 'c' },
+      numericOption: 'n',
+    });
+
+    if (options.error) {
+      context.stderr(`tail: ${options.error}\n`);
+      return { exitCode: 1 };
+    }
+
+    const bytes = lastValue(options, 'c');
+    const raw = bytes ?? lastValue(options, 'n') ?? '10';
+
+    // +N means "starting from the Nth line/byte"
+    const fromStart = raw.startsWith('+');
+    const count = Math.abs(Number(raw));
+
+    if (!Number.isInteger(count)) {
+      context.stderr(`tail: invalid number of ${bytes ? 'bytes' : 'lines'}: '${raw}'\n`);
+      return { exitCode: 1 };
+    }
+
+    const { inputs, exitCode } = await readInputs('tail', options.operands, context);
+    const showHeaders = options.flags.has('v') || (inputs.length > 1 && !options.flags.has('q'));
+
+    inputs.forEach((input, index) => {
+      if (showHeaders) {
+        context.stdout(`${index > 0 ? '\n' : ''}==> ${input.name === '-' ? 'standard input' : input.name} <==\n`);
+      }
+
+      if (bytes !== undefined) {
+        const content = input.content;
+        context.stdout(fromStart ? content.slice(Math.max(count - 1, 0)) : count === 0 ? '' : content.slice(-count));
+
+        return;
+      }
+
+      const lines = splitLines(input.content);
+      const selected = fromStart ? lines.slice(Math.max(count - 1, 0)) : count === 0 ? [] : lines.slice(-count);
+      context.stdout(joinLines(selected));
+    });
+
+    return { exitCode };
+  },
+};
@@ -0,0 +1,416 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Text Utilities for Builtins
+ * =============================================================================
+ * Shared helpers for the coreutils-style builtins (grep, sed, sort, ...):
+ * option parsing, reading files or stdin, POSIX regex translation and
+ * directory walking on the MountManager.
+ * =============================================================================
+ */
+
+import type { CommandContext } from '../types';
+import type { MountManager } from '../../filesystem';
+import { normalizePath } from '../../filesystem';
+
+/**
+ * Option specification for parseOptions
+ */
+export interface OptionSpec {
+  /** Single-letter flags without value (e.g. 'rnic') */
+  flags?: string;
+
+  /** Single-letter options taking a value (e.g. 'eA') */
+  values?: string;
+
+  /** Long options without value (e.g. ['recursive']) */
+  longFlags?: string[];
+
+  /** Long options taking a value (e.g. ['include']) */
+  longValues?: string[];
+
+  /** Map long option names to short letters */
+  aliases?: Record<string, string>;
+
+  /** Accept a bare number as the value of this option (head -5) */
+  numericOption?: string;
+}
+
+/**
+ * Parsed command line options
+ */
+export interface ParsedOptions {
+  /** Flags set (short letters or long names) */
+  flags: Set<string>;
+
+  /** Option values, in order of appearance */
+  values: Map<string, string[]>;
+
+  /** Operands (files, patterns) */
+  operands: string[];
+
+  /** Error message for an invalid option */
+  error?: string;
+}
+
+/**
+ * A named input (file or standard input)
+ */
+export interface InputSource {
+  /** Display name ('-' or '(standard input)' for stdin) */
+  name: string;
+
+  /** Absolute path, undefined for stdin */
+  path?: string;
+
+  /** Text content */
+  content: string;
+}
+
+/**
+ * Entry visited while walking a directory tree
+ */
+export interface WalkEntry {
+  /** Absolute path */
+  path: string;
+
+  /** Entry name */
+  name: string;
+
+  /** Whether the entry is a directory */
+  isDirectory: boolean;
+
+  /** Depth below the starting directory (children are 1) */
+  depth: number;
+}
+
+/**
+ * Parse command line options getopt-style.
+ * Supports grouped short flags (-rn), attached values (-n5, -e foo),
+ * long options (--include=*.ts) and `--` to end options.
+ */
+export function parseOptions(args: string[], spec: OptionSpec): ParsedOptions {
+  const result: ParsedOptions = { flags: new Set(), values: new Map(), operands: [] };
+  const flags = spec.flags ?? '';
+  const values = spec.values ?? '';
+
+  const addValue = (name: string, value: string) => {
+    const list = result.values.get(name) ?? [];
+    list.push(value);
+    result.values.set(name, list);
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--') {
+      result.operands.push(...args.slice(i + 1));
+      break;
+    }
+
+    if (arg.startsWith('--')) {
+      const eq = arg.indexOf('=');
+      const rawName = eq === -1 ? arg.substring(2) : arg.substring(2, eq);
+      const name = spec.aliases?.[rawName] ?? rawName;
+
+      if (spec.longValues?.includes(rawName) || (name.length === 1 && values.includes(name))) {
+        const value = eq === -1 ? args[++i] : arg.substring(eq + 1);
+
+        if (value === undefined) {
+          result.error = `option '--${rawName}' requires an argument`;
+          return result;
+        }
+
+        addValue(name, value);
+      } else if (spec.longFlags?.includes(rawName) || (name.length === 1 && flags.includes(name))) {
+        result.flags.add(name);
+      } else {
+        result.error = `unrecognized option '${arg}'`;
+        return result;
+      }
+
+      continue;
+    }
+
+    if (!arg.startsWith('-') || arg === '-') {
+      result.operands.push(arg);
+      continue;
+    }
+
+    if (spec.numericOption && /^-\d+$/.test(arg)) {
+      addValue(spec.numericOption, arg.substring(1));
+      continue;
+    }
+
+    for (let j = 1; j < arg.length; j++) {
+      const letter = arg[j];
+
+      if (values.includes(letter)) {
+        const value = j + 1 < arg.length ? arg.substring(j + 1) : args[++i];
+
+        if (value === undefined) {
+          result.error = `option requires an argument -- '${letter}'`;
+          return result;
+        }
+
+        addValue(letter, value);
+        break;
+      }
+
+      if (!flags.includes(letter)) {
+        result.error = `invalid option -- '${letter}'`;
+        return result;
+      }
+
+      result.flags.add(letter);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get the last value of an option
+ */
+export function lastValue(options: ParsedOptions, name: string): string | undefined {
+  const list = options.values.get(name);
+  return list?.[list.length - 1];
+}
+
+/**
+ * Resolve a path against the shell working directory
+ */
+export function resolvePath(path: string, context: CommandContext): string {
+  return normalizePath(path, context.state.cwd);
+}
+
+/**
+ * Read the given files, or standard input when there are none (or for `-`).
+ * Errors are reported on stderr as `<command>: <file>: <reason>`.
+ */
+export async function readInputs(
+  command: string,
+  files: string[],
+  context: CommandContext,
+): Promise<{ inputs: InputSource[]; exitCode: number }> {
+  const inputs: InputSource[] = [];
+  let exitCode = 0;
+
+  if (files.length === 0) {
+    inputs.push({ name: '-', content: context.stdin ?? '' });
+    return { inputs, exitCode };
+  }
+
+  for (const file of files) {
+    if (file === '-') {
+      inputs.push({ name: '-', content: context.stdin ?? '' });
+      continue;
+    }
+
+    const path = resolvePath(file, context);
+
+    try {
+      const stat = await context.fs.stat(path);
+
+      if (stat.isDirectory) {
+        context.stderr(`${command}: ${file}: Is a directory\n`);
+        exitCode = 1;
+        continue;
+      }
+
+      inputs.push({ name: file, path, content: await context.fs.readTextFile(path) });
+    } catch {
+      context.stderr(`${command}: ${file}: No such file or directory\n`);
+      exitCode = 1;
+    }
+  }
+
+  return { inputs, exitCode };
+}
+
+/**
+ * Split text into lines, ignoring the empty string after a final newline
+ */
+export function splitLines(content: string): string[] {
+  if (content === '') {
+    return [];
+  }
+
+  const lines = content.split('\n');
+
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  return lines;
+}
+
+/**
+ * Join lines, terminating each with a newline
+ */
+export function joinLines(lines: string[]): string {
+  return lines.map((line) => `${line}\n`).join('');
+}
+
+/**
+ * POSIX character classes and their JavaScript equivalents
+ */
+const POSIX_CLASSES: Record<string, string> = {
+  alpha: 'a-zA-Z',
+  digit: '0-9',
+  alnum: 'a-zA-Z0-9',
+  upper: 'A-Z',
+  lower: 'a-z',
+  space: '\\s',
+  blank: ' \\t',
+  punct: '!-\\/:-@\\[-`{-~',
+  xdigit: '0-9A-Fa-f',
+  word: '\\w',
+};
+
+/**
+ * Compile a POSIX regular expression (BRE by default, ERE with `extended`)
+ * to a JavaScript RegExp
+ */
+export function compilePattern(
+  pattern: string,
+  options: { extended?: boolean; fixed?: boolean; ignoreCase?: boolean; wordMatch?: boolean; global?: boolean } = {},
+): RegExp {
+  let source = options.fixed ? pattern.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&') : translatePosix(pattern, options);
+
+  if (options.wordMatch) {
+    source = `(?<![\\w])(?:${source})(?![\\w])`;
+  }
+
+  return new RegExp(source, `${options.global ? 'g' : ''}${options.ignoreCase ? 'i' : ''}`);
+}
+
+/**
+ * Translate BRE/ERE syntax to JavaScript regex syntax
+ */
+function translatePosix(pattern: string, options: { extended?: boolean }): string {
+  // In BREs these are literal unless escaped, in EREs they are operators
+  const breOperators = '(){}+?|';
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\' && i + 1 < pattern.length) {
+      const next = pattern[++i];
+
+      if (next === '<' || next === '>') {
+        source += '\\b';
+      } else if (!options.extended && breOperators.includes(next)) {
+        source += next;
+      } else {
+        source += `\\${next}`;
+      }
+
+      continue;
+    }
+
+    if (char === '[') {
+      const end = findBracketEnd(pattern, i);
+
+      if (end !== -1) {
+        source += translateBracket(pattern.substring(i, end + 1));
+        i = end;
+        continue;
+      }
+    }
+
+    if (!options.extended && breOperators.includes(char)) {
+      source += `\\${char}`;
+      continue;
+    }
+
+    source += char;
+  }
+
+  return source;
+}
+
+/**
+ * Find the closing bracket of a bracket expression starting at `start`
+ */
+function findBracketEnd(pattern: string, start: number): number {
+  let i = start + 1;
+
+  if (pattern[i] === '^') {
+    i++;
+  }
+
+  // A leading ] is literal
+  if (pattern[i] === ']') {
+    i++;
+  }
+
+  for (; i < pattern.length; i++) {
+    if (pattern[i] === '[' && pattern[i + 1] === ':') {
+      const close = pattern.indexOf(':]', i + 2);
+
+      if (close !== -1) {
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (pattern[i] === ']') {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Translate a bracket expression, expanding [:class:] names
+ */
+function translateBracket(bracket: string): string {
+  const negated = bracket[1] === '^';
+  let body = bracket.substring(negated ? 2 : 1, bracket.length - 1);
+
+  // Backslashes are literal inside POSIX brackets
+  body = body.replace(/\\/g, '\\\\').replace(/^\]/, '\\]');
+  body = body.replace(/\[:([a-z]+):\]/g, (match, name: string) => POSIX_CLASSES[name] ?? match);
+
+  return `[${negated ? '^' : ''}${body}]`;
+}
+
+/**
+ * Walk a directory tree depth-first in name order.
+ * Returning false from the visitor skips the entry's children.
+ */
+export async function walkTree(
+  fs: MountManager,
+  root: string,
+  visit: (entry: WalkEntry) => boolean | void | Promise<boolean | void>,
+  depth = 1,
+): Promise<void> {
+  const entries = await fs.readdirWithTypes(root);
+
+  entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  for (const entry of entries) {
+    const path = root === '/' ? `/${entry.name}` : `${root}/${entry.name}`;
+    const descend = await visit({ path, name: entry.name, isDirectory: entry.isDirectory, depth });
+
+    if (entry.isDirectory && descend !== false) {
+      await walkTree(fs, path, visit, depth + 1);
+    }
+  }
+}
+
+/**
+ * Build a display path for an entry found under an operand
+ * (`find src` prints `src/a.ts`, `find .` prints `./a.ts`)
+ */
+export function displayPath(operand: string, root: string, path: string): string {
+  const relative = path.substring(root === '/' ? 1 : root.length + 1);
+
+  if (!relative) {
+    return operand;
+  }
+
+  return operand.endsWith('/') ? `${operand}${relative}` : `${operand}/${relative}`;
+}
@@ -0,0 +1,120 @@
+/**
+ * tree - List directory contents as a tree
+ */
+
+import type { BuiltinCommand, CommandContext, CommandResult } from '../types';
+import { matchGlob, type MountManager } from '../../filesystem';
+import { lastValue, parseOptions, resolvePath } from './text-utils';
+
+interface TreeOptions {
+  all: boolean;
+  directoriesOnly: boolean;
+  maxDepth: number;
+  ignore: string[];
+}
+
+interface TreeCounts {
+  directories: number;
+  files: number;
+}
+
+export const treeCommand: BuiltinCommand = {
+  name: 'tree',
+  description: 'List directory contents as a tree',
+  usage: 'tree [-ad] [-L level] [-I pattern] [directory...]',
+
+  async execute(args: string[], context: CommandContext): Promise<CommandResult> {
+    const options = parseOptions(args, {
+      flags: 'ad',
+      values: 'LI',
+      longFlags: ['noreport'],
+    });
+
+    if (options.error) {
+      context.stderr(`tree: ${options.error}\n`);
+      return { exitCode: 1 };
+    }
+
+    const level = lastValue(options, 'L');
+
+    if (level !== undefined && !(Number(level) > 0)) {
+      context.stderr('tree: Invalid level, must be greater than 0.\n');
+      return { exitCode: 1 };
+    }
+
+    const tree: TreeOptions = {
+      all: options.flags.has('a'),
+      directoriesOnly: options.flags.has('d'),
+      maxDepth: level === undefined ? Infinity : Number(level),
+      ignore: (options.values.get('I') ?? []).flatMap((pattern) => pattern.split('|')),
+    };
+
+    const counts: TreeCounts = { directories: 0, files: 0 };
+    const roots = options.operands.length > 0 ? options.operands : ['.'];
+    let exitCode = 0;
+
+    for (const root of roots) {
+      const path = resolvePath(root, context);
+
+      try {
+        if (!(await context.fs.stat(path)).isDirectory) {
+          throw new Error('not a directory');
+        }
+      } catch {
+        context.stdout(`${root}  [error opening dir]\n`);
+        exitCode = 2;
+        continue;
+      }
+
+      context.stdout(`${root}\n`);
+      await printTree(context.fs, path, '', 1, tree, counts, context);
+    }
+
+    if (!options.flags.has('noreport')) {
+      const directories = `${counts.directories} director${counts.directories === 1 ? 'y' : 'ies'}`;
+      const files = `${counts.files} file${counts.files === 1 ? '' : 's'}`;
+
+      context.stdout(`\n${tree.directoriesOnly ? directories : `${directories}, ${files}`}\n`);
+    }
+
+    return { exitCode };
+  },
+};
+
+/**
+ * Print the children of a directory with box-drawing prefixes
+ */
+async function printTree(
+  fs: MountManager,
+  dir: string,
+  prefix: string,
+  depth: number,
+  options: TreeOptions,
+  counts: TreeCounts,
+  context: CommandContext,
+): Promise<void> {
+  if (depth > options.maxDepth) {
+    return;
+  }
+
+  const entries = (await fs.readdirWithTypes(dir))
+    .filter((entry) => options.all || !entry.name.startsWith('.'))
+    .filter((entry) => !options.directoriesOnly || entry.isDirectory)
+    .filter((entry) => !options.ignore.some((pattern) => matchGlob(entry.name, pattern, { dot: true })))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const [index, entry] of entries.entries()) {
+    const isLast = index === entries.length - 1;
+
+    context.stdout(`${prefix}${isLast ? '└── ' : '├── '}${entry.name}\n`);
+
+    if (entry.isDirectory) {
+      counts.directories++;
+
+      const path = dir === '/' ? `/${entry.name}` : `${dir}/${entry.name}`;
+      await printTree(fs, path, `${prefix}${isLast ? '    ' : '│   '}`, depth + 1, options, counts, context);
+    } else {
+      counts.files++;
+    }
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * true / false - Return a successful or unsuccessful exit status
+ */
+
+import type { BuiltinCommand, CommandResult } from '../types';
+
+export const trueCommand: BuiltinCommand = {
+  name: 'true',
+  description: 'Do nothing, successfully',
+  usage: 'true',
+
+  async execute(): Promise<CommandResult> {
+    return { exitCode: 0 };
+  },
+};
+
+export const falseCommand: BuiltinCommand = {
+  name: 'false',
+  description: 'Do nothing, unsuccessfully',
+  usage: 'false',
+
+  async execute(): Promise<CommandResult> {
+    return { exitCode: 1 };
+  },
+};
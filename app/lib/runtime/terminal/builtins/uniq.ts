@@ -0,0 +1,60 @@
+/**
+ * uniq - Report or omit repeated lines
+ */
+
+import type { BuiltinCommand, CommandContext, CommandResult } from '../types';
+import { parseOptions, readInputs, splitLines } from './text-utils';
+
+export const uniqCommand: BuiltinCommand = {
+  name: 'uniq',
+  description: 'Report or omit adjacent repeated lines',
+  usage: 'uniq [-cdui] [file]',
+
+  async execute(args: string[], context: CommandContext): Promise<CommandResult> {
+    const options = parseOptions(args, {
+      flags: 'cdui',
+      longFlags: ['count', 'repeated', 'unique', 'ignore-case'],
+      aliases: { count: 'c', repeated: 'd', unique: 'u', 'ignore-case': 'i' },
+    });
+
+    if (options.error) {
+      context.stderr(`uniq: ${options.error}\n`);
+      return { exitCode: 1 };
+    }
+
+    if (options.operands.length > 1) {
+      context.stderr('uniq: output files are not supported, use a redirection\n');
+      return { exitCode: 1 };
+    }
+
+    const { inputs, exitCode } = await readInputs('uniq', options.operands, context);
+
+    if (exitCode !== 0) {
+      return { exitCode };
+    }
+
+    const flags = options.flags;
+    const normalize = (line: string) => (flags.has('i') ? line.toLowerCase() : line);
+    const groups: Array<{ line: string; count: number }> = [];
+
+    for (const line of splitLines(inputs[0].content)) {
+      const last = groups[groups.length - 1];
+
+      if (last && normalize(last.line) === normalize(line)) {
+        last.count++;
+      } else {
+        groups.push({ line, count: 1 });
+      }
+    }
+
+    for (const group of groups) {
+      if ((flags.has('d') && group.count < 2) || (flags.has('u') && group.count > 1)) {
+        continue;
+      }
+
+      context.stdout(flags.has('c') ? `${String(group.count).padStart(7)} ${group.line}\n` : `${group.line}\n`);
+    }
+
+    return { exitCode: 0 };
+  },
+};
@@ -0,0 +1,71 @@
+/**
+ * wc - Count lines, words and bytes
+ */
+
+import type { BuiltinCommand, CommandContext, CommandResult } from '../types';
+import { parseOptions, readInputs } from './text-utils';
+
+type Counter = 'l' | 'w' | 'm' | 'c';
+
+export const wcCommand: BuiltinCommand = {
+  name: 'wc',
+  description: 'Print newline, word and byte counts',
+  usage: 'wc [-lwcm] [file...]',
+
+  async execute(args: string[], context: CommandContext): Promise<CommandResult> {
+    const options = parseOptions(args, {
+      flags: 'lwcm',
+      longFlags: ['lines', 'words', 'bytes', 'chars'],
+      aliases: { lines: 'l', words: 'w', bytes: 'c', chars: 'm' },
+    });
+
+    if (options.error) {
+      context.stderr(`wc: ${options.error}\n`);
+      return { exitCode: 1 };
+    }
+
+    // Output order is always lines, words, chars, bytes
+    const selected = (['l', 'w', 'm', 'c'] as Counter[]).filter((flag) => options.flags.has(flag));
+    const counters: Counter[] = selected.length > 0 ? selected : ['l', 'w', 'c'];
+
+    const { inputs, exitCode } = await readInputs('wc', options.operands, context);
+    const encoder = new TextEncoder();
+    const rows: Array<{ counts: number[]; name: string }> = [];
+    const totals = counters.map(() => 0);
+
+    for (const input of inputs) {
+      const counts = counters.map((counter) => {
+        switch (counter) {
+          case 'l':
+            return (input.content.match(/\n/g) ?? []).length;
+          case 'w':
+            return input.content.split(/\s+/).filter(Boolean).length;
+          case 'm':
+            return [...input.content].length;
+          default:
+            return encoder.encode(input.content).length;
+        }
+      });
+
+      counts.forEach((count, index) => {
+        totals[index] += count;
+      });
+      rows.push({ counts, name: input.name === '-' ? '' : input.name });
+    }
+
+    if (inputs.length > 1) {
+      rows.push({ counts: totals, name: 'total' });
+    }
+
+    // A single count for a single input is printed without padding
+    const pad = counters.length > 1 || rows.length > 1;
+    const width = pad ? Math.max(...rows.flatMap((row) => row.counts.map((count) => String(count).length))) : 0;
+
+    for (const row of rows) {
+      const columns = row.counts.map((count) => String(count).padStart(width)).join(' ');
+      context.stdout(`${columns}${row.name ? ` ${row.name}` : ''}\n`);
+    }
+
+    return { exitCode };
+  },
+};
@@ -41,6 +41,13 @@ export class CommandExecutor {
         return result;
       }
 
+      // Look up package binaries (node_modules/.bin) on the PATH
+      const binaryPath = await this._resolveFromPath(command.command, context);
+
+      if (binaryPath) {
+        return await this._executeBinary(binaryPath, command, context);
+      }
+
       // Command not found
       context.stderr(`${command.command}: command not found\n`);
       context.stdout(TermFormat.gray(`Type 'help' for available commands.\n`));
@@ -63,6 +70,53 @@ export class CommandExecutor {
     }
   }
 
+  /**
+   * Resolve a command name against the PATH directories of the shell env
+   */
+  private async _resolveFromPath(name: string, context: CommandContext): Promise<string | null> {
+    if (name.includes('/')) {
+      return null;
+    }
+
+    const dirs = (context.state.env.PATH ?? '').split(':').filter(Boolean);
+
+    for (const dir of dirs) {
+      const candidate = `${dir}/${name}`;
+
+      try {
+        const stat = await context.fs.stat(candidate);
+
+        if (stat.isFile) {
+          return candidate;
+        }
+      } catch {
+        // Not in this directory
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Execute a package binary through the node builtin when one is registered
+   */
+  private async _executeBinary(
+    binaryPath: string,
+    command: ParsedCommand,
+    context: CommandContext,
+  ): Promise<CommandResult> {
+    const node = this._registry.get('node');
+
+    if (!node) {
+      context.stderr(`${command.command}: cannot execute ${binaryPath}: no Node.js runtime available\n`);
+      return { exitCode: 126 };
+    }
+
+    logger.debug(`Resolved '${command.command}' to ${binaryPath}`);
+
+    return node.execute([binaryPath, ...command.args], context);
+  }
+
   /**
    * Check if a command exists
    */
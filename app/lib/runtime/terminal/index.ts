@@ -47,15 +47,27 @@ export { CommandExecutor } from './command-executor';
 // FIX 3.2: Pipe parser and executor
 export {
   parsePipeline,
+  parseCommandList,
   hasPipeOperators,
   formatPipeline,
+  formatCommandList,
+  ShellSyntaxError,
   type ParsedPipeline,
+  type ParsedCommandList,
+  type CommandListEntry,
   type PipelineCommand,
   type Redirection,
   type PipeOperator,
+  type ListOperator,
+  type RedirectOperator,
+  type ShellWord,
 } from './pipe-parser';
+export { expandWords, expandWordToString, type ExpansionContext } from './shell-expansion';
 export { PipeExecutor, createPipeExecutor, type PipelineResult } from './pipe-executor';
 
+// child_process support
+export { createShellProcessLauncher } from './shell-launcher';
+
 // Builtin commands registry
 export { getCommandRegistry } from './builtins';
 
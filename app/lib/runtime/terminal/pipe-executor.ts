@@ -3,34 +3,67 @@
  * BAVINI Container - Pipe Executor
  * =============================================================================
  * FIX 3.2: Executes commands in a pipeline with proper I/O handling.
- * Supports pipes (|), output redirection (>, >>), and input redirection (<).
+ * Supports command lists (&&, ||, ;, &), pipes (|), redirections
+ * (<, >, >>, 2>, 2>&1, &>), variable assignments and word expansion.
  * =============================================================================
  */
 
-import type { CommandContext, CommandResult, ParsedCommand } from './types';
-import type { ParsedPipeline, PipelineCommand } from './pipe-parser';
+import type { CommandContext, ParsedCommand, ShellEnv, ShellState } from './types';
+import type { ParsedCommandList, ParsedPipeline, PipelineCommand } from './pipe-parser';
+import { parseCommandList, ShellSyntaxError } from './pipe-parser';
+import { expandWords, expandWordToString, type ExpansionContext } from './shell-expansion';
+import { applyStateUpdates } from './shell-state';
 import { CommandExecutor } from './command-executor';
-import type { MountManager } from '../filesystem';
+import { normalizePath } from '../filesystem';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('PipeExecutor');
 
+/**
+ * Exit code for syntax errors (same as bash)
+ */
+const SYNTAX_ERROR_EXIT_CODE = 2;
+
+/**
+ * Exit code when a command line is interrupted (Ctrl+C)
+ */
+const ABORTED_EXIT_CODE = 130;
+
 /**
  * Result of a pipeline execution
  */
 export interface PipelineResult {
   /** Exit code of the last command */
   exitCode: number;
-  /** Combined stdout output */
+
+  /** Stdout written to the terminal */
   stdout: string;
-  /** Combined stderr output */
+
+  /** Stderr written to the terminal */
   stderr: string;
-  /** State updates from all commands */
-  stateUpdates?: Record<string, unknown>;
+
+  /** State updates from all commands (cwd, env) */
+  stateUpdates?: Partial<ShellState>;
+
+  /** The `exit` builtin was called */
+  exited?: boolean;
 }
 
 /**
- * Pipeline executor for handling pipes and redirections
+ * Where a command output stream goes
+ */
+type OutputSink = { kind: 'stdout' } | { kind: 'stderr' } | { kind: 'pipe' } | { kind: 'file'; path: string };
+
+/**
+ * Pending file redirection, written once the command completes
+ */
+interface FileTarget {
+  append: boolean;
+  content: string;
+}
+
+/**
+ * Pipeline executor for handling command lists, pipes and redirections
  */
 export class PipeExecutor {
   private _commandExecutor: CommandExecutor;
@@ -39,13 +72,88 @@ export class PipeExecutor {
     this._commandExecutor = new CommandExecutor();
   }
 
+  /**
+   * Parse and execute a full command line
+   */
+  async executeCommandLine(input: string, context: CommandContext): Promise<PipelineResult> {
+    let list: ParsedCommandList;
+
+    try {
+      list = parseCommandList(input);
+    } catch (error) {
+      if (error instanceof ShellSyntaxError) {
+        const message = `bash: ${error.message}\n`;
+        context.stderr(message);
+
+        return { exitCode: SYNTAX_ERROR_EXIT_CODE, stdout: '', stderr: message };
+      }
+
+      throw error;
+    }
+
+    return this.executeList(list, context);
+  }
+
+  /**
+   * Execute a parsed command list, threading cwd/env/$? between entries
+   */
+  async executeList(list: ParsedCommandList, context: CommandContext): Promise<PipelineResult> {
+    const result: PipelineResult = { exitCode: context.state.lastExitCode, stdout: '', stderr: '' };
+    const updates: Partial<ShellState> = {};
+    let state = context.state;
+
+    for (const entry of list.entries) {
+      if (context.signal?.aborted) {
+        result.exitCode = ABORTED_EXIT_CODE;
+        break;
+      }
+
+      if ((entry.condition === '&&' && result.exitCode !== 0) || (entry.condition === '||' && result.exitCode === 0)) {
+        continue;
+      }
+
+      const entryContext: CommandContext = { ...context, state };
+
+      if (entry.background) {
+        // Output still reaches the terminal, the prompt does not wait
+        this.execute(entry.pipeline, entryContext).catch((error) => {
+          logger.error('Background job failed:', error);
+        });
+        result.exitCode = 0;
+        state = { ...state, lastExitCode: 0 };
+        continue;
+      }
+
+      const entryResult = await this.execute(entry.pipeline, entryContext);
+
+      result.stdout += entryResult.stdout;
+      result.stderr += entryResult.stderr;
+      result.exitCode = entryResult.exitCode;
+
+      if (entryResult.stateUpdates) {
+        state = applyStateUpdates(state, entryResult.stateUpdates);
+        mergeStateUpdates(updates, entryResult.stateUpdates);
+      }
+
+      state = { ...state, lastExitCode: result.exitCode };
+
+      if (entryResult.exited) {
+        result.exited = true;
+        break;
+      }
+    }
+
+    if (Object.keys(updates).length > 0) {
+      result.stateUpdates = updates;
+    }
+
+    return result;
+  }
+
   /**
    * Execute a parsed pipeline
    */
-  async execute(
-    pipeline: ParsedPipeline,
-    context: CommandContext
-  ): Promise<PipelineResult> {
+  async execute(pipeline: ParsedPipeline, context: CommandContext): Promise<PipelineResult> {
     const result: PipelineResult = {
       exitCode: 0,
       stdout: '',
@@ -56,118 +164,64 @@ export class PipeExecutor {
       return result;
     }
 
-    // Handle input redirection
-    let input = '';
-    if (pipeline.inputRedirect) {
-      try {
-        const content = await context.fs.readTextFile(pipeline.inputRedirect.file);
-        input = content;
-        logger.debug(`Read input from ${pipeline.inputRedirect.file}: ${content.length} chars`);
-      } catch (error) {
-        const errorMsg = `Cannot read ${pipeline.inputRedirect.file}: ${error instanceof Error ? error.message : error}\n`;
-        context.stderr(errorMsg);
-        result.stderr = errorMsg;
-        result.exitCode = 1;
-        return result;
-      }
-    }
-
-    // Execute pipeline
-    let currentInput = input;
+    const stateUpdates: Partial<ShellState> = {};
+    let currentInput = context.stdin;
     let lastExitCode = 0;
-    const stateUpdates: Record<string, unknown> = {};
 
     for (let i = 0; i < pipeline.commands.length; i++) {
       const cmd = pipeline.commands[i];
       const isLastCommand = i === pipeline.commands.length - 1;
+      let pipeOutput = '';
 
-      // Capture stdout for piping
-      let cmdStdout = '';
-      let cmdStderr = '';
-
-      // Create modified context for this command
-      const cmdContext: CommandContext = {
-        ...context,
-        stdout: (data: string) => {
-          cmdStdout += data;
-          // Only output to terminal if last command and no output redirect
-          if (isLastCommand && !pipeline.outputRedirect) {
+      const write = (sink: OutputSink, data: string, files: Map<string, FileTarget>) => {
+        switch (sink.kind) {
+          case 'stdout':
+            result.stdout += data;
             context.stdout(data);
-          }
-        },
-        stderr: (data: string) => {
-          cmdStderr += data;
-          // Always output stderr to terminal
-          context.stderr(data);
-        },
-        // Provide current input (from previous command or input redirect)
-        stdin: currentInput || undefined,
-      };
-
-      // Convert PipelineCommand to ParsedCommand
-      const parsedCmd: ParsedCommand = {
-        command: cmd.command,
-        args: cmd.args,
-        raw: cmd.raw,
+            break;
+          case 'stderr':
+            result.stderr += data;
+            context.stderr(data);
+            break;
+          case 'pipe':
+            pipeOutput += data;
+            break;
+          case 'file':
+            files.get(sink.path)!.content += data;
+            break;
+        }
       };
 
       try {
-        const cmdResult = await this._commandExecutor.execute(parsedCmd, cmdContext);
-        lastExitCode = cmdResult.exitCode;
-
-        // Merge state updates
-        if (cmdResult.stateUpdates) {
-          Object.assign(stateUpdates, cmdResult.stateUpdates);
-        }
+        const outcome = await this._executeCommand(cmd, context, {
+          stdin: currentInput,
+          stdoutSink: isLastCommand ? { kind: 'stdout' } : { kind: 'pipe' },
+          write,
+        });
 
-        // Use stdout as input for next command
-        currentInput = cmdStdout;
+        lastExitCode = outcome.exitCode;
 
-        // If command failed and not in pipeline, stop
-        if (lastExitCode !== 0 && pipeline.commands.length === 1) {
-          break;
+        // Commands inside a multi-command pipeline run in a subshell in bash
+        if (outcome.stateUpdates && pipeline.commands.length === 1) {
+          mergeStateUpdates(stateUpdates, outcome.stateUpdates);
         }
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        cmdStderr += `${cmd.command}: ${errorMsg}\n`;
-        context.stderr(`${cmd.command}: ${errorMsg}\n`);
-        lastExitCode = 1;
-        break;
-      }
-
-      result.stdout += cmdStdout;
-      result.stderr += cmdStderr;
-    }
 
-    // Handle output redirection
-    if (pipeline.outputRedirect && currentInput) {
-      try {
-        const filePath = pipeline.outputRedirect.file;
-
-        if (pipeline.outputRedirect.type === '>>') {
-          // Append mode
-          let existingContent = '';
-          try {
-            existingContent = await context.fs.readTextFile(filePath);
-          } catch {
-            // File doesn't exist, that's fine
-          }
-          await context.fs.writeTextFile(filePath, existingContent + currentInput);
-          logger.debug(`Appended ${currentInput.length} chars to ${filePath}`);
-        } else {
-          // Overwrite mode
-          await context.fs.writeTextFile(filePath, currentInput);
-          logger.debug(`Wrote ${currentInput.length} chars to ${filePath}`);
+        if (outcome.exited && pipeline.commands.length === 1) {
+          result.exited = true;
         }
       } catch (error) {
-        const errorMsg = `Cannot write to ${pipeline.outputRedirect.file}: ${error instanceof Error ? error.message : error}\n`;
-        context.stderr(errorMsg);
+        const errorMsg = `${cmd.command}: ${error instanceof Error ? error.message : String(error)}\n`;
         result.stderr += errorMsg;
+        context.stderr(errorMsg);
         lastExitCode = 1;
       }
+
+      // Use stdout as input for next command
+      currentInput = pipeOutput;
     }
 
-    result.exitCode = lastExitCode;
+    result.exitCode = pipeline.negated ? (lastExitCode === 0 ? 1 : 0) : lastExitCode;
+
     if (Object.keys(stateUpdates).length > 0) {
       result.stateUpdates = stateUpdates;
     }
@@ -188,6 +242,182 @@ export class PipeExecutor {
   listCommands(): string[] {
     return this._commandExecutor.listCommands();
   }
+
+  /**
+   * Expand, redirect and run a single command of a pipeline
+   */
+  private async _executeCommand(
+    cmd: PipelineCommand,
+    context: CommandContext,
+    io: {
+      stdin: string | undefined;
+      stdoutSink: OutputSink;
+      write: (sink: OutputSink, data: string, files: Map<string, FileTarget>) => void;
+    },
+  ): Promise<{ exitCode: number; stateUpdates?: Partial<ShellState>; exited?: boolean }> {
+    const state = context.state;
+    const expansion: ExpansionContext = {
+      env: state.env,
+      cwd: state.cwd,
+      lastExitCode: state.lastExitCode,
+      fs: context.fs,
+      commandSubstitution: (command) => this._captureOutput(command, context),
+    };
+
+    // Assignments
+    const assigned: ShellEnv = {};
+
+    for (const assignment of cmd.assignments ?? []) {
+      assigned[assignment.name] = await expandWordToString(assignment.value, {
+        ...expansion,
+        env: { ...state.env, ...assigned },
+      });
+    }
+
+    const words = cmd.words ? await expandWords(cmd.words, expansion) : [cmd.command, ...cmd.args];
+
+    // Redirections, applied left to right
+    const files = new Map<string, FileTarget>();
+    let stdin = io.stdin;
+    let stdoutSink = io.stdoutSink;
+    let stderrSink: OutputSink = { kind: 'stderr' };
+
+    for (const redirect of cmd.redirects ?? []) {
+      if (redirect.type === '2>&1') {
+        stderrSink = stdoutSink;
+        continue;
+      }
+
+      if (redirect.type === '>&2') {
+        stdoutSink = stderrSink;
+        continue;
+      }
+
+      const target = await expandWordToString(redirect.target!, expansion);
+      const path = normalizePath(target, state.cwd);
+
+      if (redirect.type === '<') {
+        try {
+          stdin = await context.fs.readTextFile(path);
+          logger.debug(`Read input from ${path}: ${stdin.length} chars`);
+        } catch {
+          io.write({ kind: 'stderr' }, `bash: ${target}: No such file or directory\n`, files);
+          return { exitCode: 1 };
+        }
+
+        continue;
+      }
+
+      const append = redirect.type.endsWith('>>');
+      const existing = files.get(path);
+
+      if (existing) {
+        // Re-opening the same file in truncate mode discards what was collected
+        existing.append = existing.append && append;
+      } else {
+        files.set(path, { append, content: '' });
+      }
+
+      const sink: OutputSink = { kind: 'file', path };
+
+      if (redirect.type.startsWith('2')) {
+        stderrSink = sink;
+      } else if (redirect.type.startsWith('&')) {
+        stdoutSink = sink;
+        stderrSink = sink;
+      } else {
+        stdoutSink = sink;
+      }
+    }
+
+    let exitCode = 0;
+    let stateUpdates: Partial<ShellState> | undefined;
+    let exited = false;
+
+    if (words.length === 0) {
+      // Bare assignments set shell variables
+      if (Object.keys(assigned).length > 0) {
+        stateUpdates = { env: assigned };
+      }
+    } else {
+      const [command, ...args] = words;
+      const parsedCmd: ParsedCommand = { command, args, raw: cmd.raw };
+
+      if (Object.keys(assigned).length > 0) {
+        parsedCmd.envOverrides = assigned as Record<string, string>;
+      }
+
+      const cmdContext: CommandContext = {
+        ...context,
+        state: Object.keys(assigned).length > 0 ? { ...state, env: { ...state.env, ...assigned } } : state,
+        stdout: (data: string) => io.write(stdoutSink, data, files),
+        stderr: (data: string) => io.write(stderrSink, data, files),
+        stdin,
+      };
+
+      const cmdResult = await this._commandExecutor.execute(parsedCmd, cmdContext);
+      exitCode = cmdResult.exitCode;
+      stateUpdates = cmdResult.stateUpdates;
+      exited = cmdResult.exit === true;
+    }
+
+    // Write redirected output (files are created even when nothing was written)
+    for (const [path, target] of files) {
+      try {
+        let content = target.content;
+
+        if (target.append) {
+          try {
+            content = (await context.fs.readTextFile(path)) + content;
+          } catch {
+            // File doesn't exist, that's fine
+          }
+        }
+
+        await context.fs.writeTextFile(path, content);
+        logger.debug(`Wrote ${target.content.length} chars to ${path}`);
+      } catch (error) {
+        io.write(
+          { kind: 'stderr' },
+          `bash: ${path}: ${error instanceof Error ? error.message : String(error)}\n`,
+          files,
+        );
+        exitCode = 1;
+      }
+    }
+
+    return { exitCode, stateUpdates, exited };
+  }
+
+  /**
+   * Run a command line in a "subshell" and capture its stdout ($(...))
+   */
+  private async _captureOutput(command: string, context: CommandContext): Promise<string> {
+    let output = '';
+
+    await this.executeCommandLine(command, {
+      ...context,
+      stdout: (data: string) => {
+        output += data;
+      },
+      stdin: undefined,
+    });
+
+    return output;
+  }
+}
+
+/**
+ * Merge state updates, later ones winning (env is merged key by key)
+ */
+function mergeStateUpdates(target: Partial<ShellState>, updates: Partial<ShellState>): void {
+  if (updates.cwd !== undefined) {
+    target.cwd = updates.cwd;
+  }
+
+  if (updates.env !== undefined) {
+    target.env = { ...target.env, ...updates.env };
+  }
 }
 
 /**
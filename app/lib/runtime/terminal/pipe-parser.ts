@@ -3,7 +3,14 @@
  * BAVINI Container - Pipe Parser
  * =============================================================================
  * FIX 3.2: Parses shell pipes and redirections.
- * Supports: | (pipe), > (overwrite), >> (append), < (input redirect)
+ * Grammar (POSIX-ish):
+ *   list     := and_or ((';' | '&' | newline) and_or)*
+ *   and_or   := pipeline (('&&' | '||') pipeline)*
+ *   pipeline := ['!'] command ('|' command)*
+ *   command  := assignment* word (word | redirect)*
+ *   redirect := '<' | '>' | '>>' | '2>' | '2>>' | '2>&1' | '>&2' | '&>' | '&>>'
+ * Words keep their quoting so expansion ($VAR, $(...), globs) can happen
+ * at execution time (see shell-expansion.ts).
  * =============================================================================
  */
 
@@ -16,16 +23,81 @@ const logger = createScopedLogger('PipeParser');
  */
 export type PipeOperator = '|' | '>' | '>>' | '<';
 
+/**
+ * Operators joining pipelines in a command list
+ */
+export type ListOperator = '&&' | '||' | ';' | '&';
+
+/**
+ * Redirection operators understood by the executor
+ */
+export type RedirectOperator = '<' | '>' | '>>' | '2>' | '2>>' | '2>&1' | '>&2' | '&>' | '&>>';
+
+/**
+ * Part of a shell word, with the quoting it appeared in
+ */
+export interface WordPart {
+  /** Text of the part (quotes removed, escapes resolved) */
+  text: string;
+
+  /** Quoting context: single parts are literal, double parts are expanded but not split */
+  quote: 'none' | 'single' | 'double';
+}
+
+/**
+ * A shell word before expansion
+ */
+export interface ShellWord {
+  /** Source text of the word */
+  raw: string;
+
+  /** Quoted/unquoted parts */
+  parts: WordPart[];
+}
+
+/**
+ * Redirection attached to a command
+ */
+export interface CommandRedirect {
+  /** Redirection operator */
+  type: RedirectOperator;
+
+  /** Target word (absent for fd duplication like 2>&1) */
+  target?: ShellWord;
+}
+
+/**
+ * Variable assignment preceding a command (NAME=value)
+ */
+export interface VariableAssignment {
+  /** Variable name */
+  name: string;
+
+  /** Value word (expanded at execution time) */
+  value: ShellWord;
+}
+
 /**
  * A single command in a pipeline
  */
 export interface PipelineCommand {
   /** Raw command string */
   raw: string;
+
   /** Command name */
   command: string;
+
   /** Command arguments */
   args: string[];
+
+  /** Words before expansion (command name first) */
+  words?: ShellWord[];
+
+  /** Assignments preceding the command */
+  assignments?: VariableAssignment[];
+
+  /** Redirections, in source order */
+  redirects?: CommandRedirect[];
 }
 
 /**
@@ -34,6 +106,7 @@ export interface PipelineCommand {
 export interface Redirection {
   /** Type of redirection */
   type: '>' | '>>' | '<';
+
   /** Target file path */
   file: string;
 }
@@ -44,14 +117,58 @@ export interface Redirection {
 export interface ParsedPipeline {
   /** Commands in the pipeline (connected by |) */
   commands: PipelineCommand[];
-  /** Output redirection (> or >>) */
+
+  /** Output redirection of the last command (> or >>), for display */
   outputRedirect?: Redirection;
-  /** Input redirection (<) */
+
+  /** Input redirection of the first command (<), for display */
   inputRedirect?: Redirection;
+
   /** Whether this is a simple command (no pipes or redirects) */
   isSimple: boolean;
+
+  /** Negated with ! (exit status inverted) */
+  negated?: boolean;
+}
+
+/**
+ * Entry of a command list
+ */
+export interface CommandListEntry {
+  /** Pipeline to run */
+  pipeline: ParsedPipeline;
+
+  /** Run only if the previous status is zero (&&) or non-zero (||) */
+  condition?: '&&' | '||';
+
+  /** Run without waiting (terminated by &) */
+  background?: boolean;
+}
+
+/**
+ * Parsed command line (list of pipelines)
+ */
+export interface ParsedCommandList {
+  entries: CommandListEntry[];
 }
 
+/**
+ * Shell syntax error
+ */
+export class ShellSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShellSyntaxError';
+  }
+}
+
+/**
+ * Lexer token (word or operator)
+ */
+export type ShellToken =
+  | { type: 'word'; word: ShellWord }
+  | { type: 'operator'; value: ListOperator | RedirectOperator | '|'; newline?: boolean };
+
 /**
  * Check if input contains pipe operators
  */
@@ -96,241 +213,588 @@ export function hasPipeOperators(input: string): boolean {
 }
 
 /**
- * Parse a command line into a pipeline structure
+ * Parse a full command line into a list of pipelines
+ */
+export function parseCommandList(input: string): ParsedCommandList {
+  const tokens = tokenizeShell(input);
+  const entries: CommandListEntry[] = [];
+  let condition: '&&' | '||' | undefined;
+  let start = 0;
+
+  logger.debug('Command tokens:', tokens);
+
+  for (let i = 0; i <= tokens.length; i++) {
+    const token = tokens[i];
+    const isListOperator =
+      token?.type === 'operator' &&
+      (token.value === '&&' || token.value === '||' || token.value === ';' || token.value === '&');
+
+    if (token && !isListOperator) {
+      continue;
+    }
+
+    const segment = tokens.slice(start, i);
+
+    if (segment.length === 0) {
+      // Empty commands are only allowed before newlines (e.g. `a &&\n b`, blank lines)
+      if (token && !(token.type === 'operator' && token.newline)) {
+        throw new ShellSyntaxError(`syntax error near unexpected token \`${token.value}'`);
+      }
+
+      start = i + 1;
+      continue;
+    }
+
+    const entry: CommandListEntry = { pipeline: buildPipeline(segment) };
+
+    if (condition) {
+      entry.condition = condition;
+    }
+
+    if (token?.type === 'operator' && token.value === '&') {
+      entry.background = true;
+    }
+
+    entries.push(entry);
+
+    condition = token?.type === 'operator' && (token.value === '&&' || token.value === '||') ? token.value : undefined;
+    start = i + 1;
+  }
+
+  if (condition) {
+    throw new ShellSyntaxError('syntax error: unexpected end of input');
+  }
+
+  return { entries };
+}
+
+/**
+ * Parse a single pipeline. Command lists (`;`, `&&`, `||`, `&`, newlines)
+ * are rejected: use parseCommandList for full command lines.
  */
 export function parsePipeline(input: string): ParsedPipeline {
+  const { entries } = parseCommandList(input);
+
+  if (entries.length > 1 || entries[0]?.background) {
+    throw new ShellSyntaxError('expected a single pipeline, got a command list');
+  }
+
+  return entries[0]?.pipeline ?? { commands: [], isSimple: true };
+}
+
+/**
+ * Build a pipeline from a run of tokens without list operators
+ */
+function buildPipeline(tokens: ShellToken[]): ParsedPipeline {
   const result: ParsedPipeline = {
     commands: [],
     isSimple: true,
   };
 
-  if (!hasPipeOperators(input)) {
-    // Simple command, no pipes
-    const cmd = parseSimpleCommand(input.trim());
-    if (cmd) {
-      result.commands.push(cmd);
-    }
-    return result;
+  let index = 0;
+  const first = tokens[0];
+
+  if (first?.type === 'word' && first.word.raw === '!' && tokens.length > 1) {
+    result.negated = true;
+    index = 1;
   }
 
-  result.isSimple = false;
+  let current: ShellToken[] = [];
 
-  // Split by operators while respecting quotes
-  const segments = splitByOperators(input);
+  for (; index <= tokens.length; index++) {
+    const token = tokens[index];
 
-  logger.debug('Pipeline segments:', segments);
+    if (token && !(token.type === 'operator' && token.value === '|')) {
+      current.push(token);
+      continue;
+    }
 
-  let currentCommands: string[] = [];
+    if (current.length === 0) {
+      throw new ShellSyntaxError("syntax error near unexpected token `|'");
+    }
 
-  for (let i = 0; i < segments.length; i++) {
-    const segment = segments[i];
+    result.commands.push(buildCommand(current));
+    current = [];
 
-    if (segment.type === 'command') {
-      currentCommands.push(segment.value);
-    } else if (segment.type === 'operator') {
-      const op = segment.value as PipeOperator;
+    if (token) {
+      result.isSimple = false;
+    }
+  }
 
-      if (op === '|') {
-        // Pipe: add current command to pipeline
-        if (currentCommands.length > 0) {
-          const cmd = parseSimpleCommand(currentCommands.join(' ').trim());
-          if (cmd) {
-            result.commands.push(cmd);
-          }
-          currentCommands = [];
-        }
-      } else if (op === '>' || op === '>>') {
-        // Output redirect: get file from next segment
-        if (currentCommands.length > 0) {
-          const cmd = parseSimpleCommand(currentCommands.join(' ').trim());
-          if (cmd) {
-            result.commands.push(cmd);
-          }
-          currentCommands = [];
-        }
+  // Summaries of the outer redirections, for display and compatibility
+  const lastCommand = result.commands[result.commands.length - 1];
+  const firstCommand = result.commands[0];
 
-        // Next segment should be the file
-        const nextSegment = segments[i + 1];
-        if (nextSegment && nextSegment.type === 'command') {
-          result.outputRedirect = {
-            type: op,
-            file: nextSegment.value.trim(),
-          };
-          i++; // Skip the file segment
-        }
-      } else if (op === '<') {
-        // Input redirect: get file from next segment
-        const nextSegment = segments[i + 1];
-        if (nextSegment && nextSegment.type === 'command') {
-          result.inputRedirect = {
-            type: op,
-            file: nextSegment.value.trim(),
-          };
-          i++; // Skip the file segment
-        }
-      }
+  for (const redirect of lastCommand.redirects ?? []) {
+    if ((redirect.type === '>' || redirect.type === '>>') && redirect.target) {
+      result.outputRedirect = { type: redirect.type, file: wordToLiteral(redirect.target) };
     }
   }
 
-  // Add remaining command
-  if (currentCommands.length > 0) {
-    const cmd = parseSimpleCommand(currentCommands.join(' ').trim());
-    if (cmd) {
-      result.commands.push(cmd);
+  for (const redirect of firstCommand.redirects ?? []) {
+    if (redirect.type === '<' && redirect.target) {
+      result.inputRedirect = { type: '<', file: wordToLiteral(redirect.target) };
     }
   }
 
+  if (result.commands.some((cmd) => (cmd.redirects?.length ?? 0) > 0)) {
+    result.isSimple = false;
+  }
+
   return result;
 }
 
 /**
- * Segment type from split
+ * Build a command from its tokens (words, assignments, redirections)
  */
-interface Segment {
-  type: 'command' | 'operator';
-  value: string;
+function buildCommand(tokens: ShellToken[]): PipelineCommand {
+  const words: ShellWord[] = [];
+  const assignments: VariableAssignment[] = [];
+  const redirects: CommandRedirect[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === 'operator') {
+      const type = token.value as RedirectOperator;
+
+      if (type === '2>&1' || type === '>&2') {
+        redirects.push({ type });
+        continue;
+      }
+
+      const target = tokens[i + 1];
+
+      if (!target || target.type !== 'word') {
+        throw new ShellSyntaxError(`syntax error near unexpected token \`${target ? target.value : 'newline'}'`);
+      }
+
+      redirects.push({ type, target: target.word });
+      i++;
+      continue;
+    }
+
+    const assignment = words.length === 0 ? parseAssignment(token.word) : null;
+
+    if (assignment) {
+      assignments.push(assignment);
+    } else {
+      words.push(token.word);
+    }
+  }
+
+  const literals = words.map(wordToLiteral);
+  const command: PipelineCommand = {
+    raw: [...assignments.map((a) => `${a.name}=${a.value.raw}`), ...words.map((w) => w.raw)].join(' '),
+    command: literals[0] ?? '',
+    args: literals.slice(1),
+    words,
+  };
+
+  if (assignments.length > 0) {
+    command.assignments = assignments;
+  }
+
+  if (redirects.length > 0) {
+    command.redirects = redirects;
+  }
+
+  return command;
 }
 
 /**
- * Split input by operators while respecting quotes
+ * Recognize NAME=value words
  */
-function splitByOperators(input: string): Segment[] {
-  const segments: Segment[] = [];
-  let current = '';
-  let inSingleQuote = false;
-  let inDoubleQuote = false;
-  let escape = false;
+function parseAssignment(word: ShellWord): VariableAssignment | null {
+  const first = word.parts[0];
 
-  for (let i = 0; i < input.length; i++) {
+  if (!first || first.quote !== 'none') {
+    return null;
+  }
+
+  const match = /^([a-zA-Z_][a-zA-Z0-9_]*)=/.exec(first.text);
+
+  if (!match) {
+    return null;
+  }
+
+  const rest = first.text.substring(match[0].length);
+  const parts: WordPart[] = rest ? [{ text: rest, quote: 'none' }, ...word.parts.slice(1)] : word.parts.slice(1);
+
+  return {
+    name: match[1],
+    value: { raw: word.raw.substring(match[0].length), parts },
+  };
+}
+
+/**
+ * Join the parts of a word without expansion (quote removal only)
+ */
+export function wordToLiteral(word: ShellWord): string {
+  return word.parts.map((part) => part.text).join('');
+}
+
+/**
+ * Split a command line into words and operators, respecting quotes,
+ * escapes, $(...) / `...` substitutions and ${...} parameters
+ */
+export function tokenizeShell(input: string): ShellToken[] {
+  const tokens: ShellToken[] = [];
+  let parts: WordPart[] = [];
+  let buffer = '';
+  let raw = '';
+  let inWord = false;
+  let i = 0;
+
+  const flushPart = () => {
+    if (buffer) {
+      parts.push({ text: buffer, quote: 'none' });
+      buffer = '';
+    }
+  };
+
+  const endWord = () => {
+    flushPart();
+
+    if (inWord) {
+      tokens.push({ type: 'word', word: { raw, parts } });
+    }
+
+    parts = [];
+    raw = '';
+    inWord = false;
+  };
+
+  const pushOperator = (value: ListOperator | RedirectOperator | '|', length: number) => {
+    endWord();
+    tokens.push({ type: 'operator', value });
+    i += length;
+  };
+
+  while (i < input.length) {
     const char = input[i];
+    const next = input[i + 1];
+
+    // Whitespace ends the current word
+    if (char === ' ' || char === '\t') {
+      endWord();
+      i++;
+      continue;
+    }
+
+    if (char === '\n') {
+      endWord();
+      tokens.push({ type: 'operator', value: ';', newline: true });
+      i++;
+      continue;
+    }
+
+    // Comments start at the beginning of a word
+    if (char === '#' && !inWord) {
+      while (i < input.length && input[i] !== '\n') {
+        i++;
+      }
 
-    if (escape) {
-      current += char;
-      escape = false;
       continue;
     }
 
     if (char === '\\') {
-      escape = true;
-      current += char;
+      if (next === '\n') {
+        // Line continuation
+        i += 2;
+        continue;
+      }
+
+      flushPart();
+
+      if (next !== undefined) {
+        parts.push({ text: next, quote: 'single' });
+      }
+
+      raw += input.substring(i, i + 2);
+      inWord = true;
+      i += 2;
       continue;
     }
 
-    if (char === "'" && !inDoubleQuote) {
-      inSingleQuote = !inSingleQuote;
-      current += char;
+    if (char === "'") {
+      const close = input.indexOf("'", i + 1);
+
+      if (close === -1) {
+        throw new ShellSyntaxError("unexpected EOF while looking for matching `''");
+      }
+
+      flushPart();
+      parts.push({ text: input.substring(i + 1, close), quote: 'single' });
+      raw += input.substring(i, close + 1);
+      inWord = true;
+      i = close + 1;
       continue;
     }
 
-    if (char === '"' && !inSingleQuote) {
-      inDoubleQuote = !inDoubleQuote;
-      current += char;
+    if (char === '"') {
+      const end = readDoubleQuoted(input, i, parts, flushPart);
+      raw += input.substring(i, end);
+      inWord = true;
+      i = end;
       continue;
     }
 
-    // Check for operators outside quotes
-    if (!inSingleQuote && !inDoubleQuote) {
-      // Check for >> first (two characters)
-      if (char === '>' && input[i + 1] === '>') {
-        if (current.trim()) {
-          segments.push({ type: 'command', value: current });
-        }
-        segments.push({ type: 'operator', value: '>>' });
-        current = '';
-        i++; // Skip next >
-        continue;
+    if (char === '$' && (next === '(' || next === '{')) {
+      const end = next === '(' ? findClosingParen(input, i + 1) : findClosingBrace(input, i + 1);
+      buffer += input.substring(i, end);
+      raw += input.substring(i, end);
+      inWord = true;
+      i = end;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = findClosingBacktick(input, i);
+      buffer += input.substring(i, end);
+      raw += input.substring(i, end);
+      inWord = true;
+      i = end;
+      continue;
+    }
+
+    // File descriptor prefix (2>, 1>, 2>&1 ...)
+    if ((char === '1' || char === '2') && !inWord && next === '>') {
+      const op = readRedirect(input, i + 1)!;
+      const value = applyFd(char, op.value);
+
+      if (value) {
+        pushOperator(value, 1 + op.length);
+      } else {
+        // Duplicating a descriptor onto itself (2>&2, 1>&1) is a no-op
+        endWord();
+        i += 1 + op.length;
       }
 
-      if (char === '|' || char === '>' || char === '<') {
-        if (current.trim()) {
-          segments.push({ type: 'command', value: current });
-        }
-        segments.push({ type: 'operator', value: char });
-        current = '';
-        continue;
+      continue;
+    }
+
+    if (char === '&' && next === '&') {
+      pushOperator('&&', 2);
+      continue;
+    }
+
+    if (char === '|' && next === '|') {
+      pushOperator('||', 2);
+      continue;
+    }
+
+    if (char === '&' && next === '>') {
+      pushOperator(input[i + 2] === '>' ? '&>>' : '&>', input[i + 2] === '>' ? 3 : 2);
+      continue;
+    }
+
+    if (char === ';' && next === ';') {
+      // `;;` only exists inside case statements, which are not supported
+      throw new ShellSyntaxError("syntax error near unexpected token `;;'");
+    }
+
+    if (char === '|' || char === ';' || char === '&') {
+      pushOperator(char, 1);
+      continue;
+    }
+
+    if (char === '>' || char === '<') {
+      const op = readRedirect(input, i)!;
+
+      if (op.value === '>&1') {
+        endWord();
+        i += op.length;
+      } else {
+        pushOperator(op.value, op.length);
       }
+
+      continue;
     }
 
-    current += char;
+    buffer += char;
+    raw += char;
+    inWord = true;
+    i++;
   }
 
-  // Add remaining content
-  if (current.trim()) {
-    segments.push({ type: 'command', value: current });
-  }
+  endWord();
 
-  return segments;
+  return tokens;
 }
 
 /**
- * Parse a simple command (no pipes/redirects) into command + args
+ * Read a redirection operator starting at a > or < character
  */
-function parseSimpleCommand(input: string): PipelineCommand | null {
-  const tokens = tokenize(input);
+function readRedirect(input: string, start: number): { value: RedirectOperator | '>&1'; length: number } | null {
+  const char = input[start];
+
+  if (char === '<') {
+    return { value: '<', length: 1 };
+  }
 
-  if (tokens.length === 0) {
+  if (char !== '>') {
     return null;
   }
 
-  const [command, ...args] = tokens;
+  if (input[start + 1] === '>') {
+    return { value: '>>', length: 2 };
+  }
 
-  return {
-    raw: input,
-    command,
-    args,
-  };
+  if (input[start + 1] === '&' && (input[start + 2] === '1' || input[start + 2] === '2')) {
+    return { value: input[start + 2] === '1' ? '>&1' : '>&2', length: 3 };
+  }
+
+  return { value: '>', length: 1 };
 }
 
 /**
- * Tokenize a command string respecting quotes
+ * Apply an explicit file descriptor to a redirection operator.
+ * Returns null for no-op duplications (1>&1, 2>&2).
  */
-function tokenize(input: string): string[] {
-  const tokens: string[] = [];
-  let current = '';
-  let inSingleQuote = false;
-  let inDoubleQuote = false;
-  let escape = false;
+function applyFd(fd: '1' | '2', op: RedirectOperator | '>&1'): RedirectOperator | null {
+  if (fd === '1') {
+    return op === '>&1' ? null : op;
+  }
 
-  for (let i = 0; i < input.length; i++) {
+  switch (op) {
+    case '>':
+      return '2>';
+    case '>>':
+      return '2>>';
+    case '>&1':
+      return '2>&1';
+    case '>&2':
+      return null;
+    default:
+      return op;
+  }
+}
+
+/**
+ * Read a double-quoted string starting at `start` (the opening quote).
+ * Returns the index after the closing quote.
+ */
+function readDoubleQuoted(input: string, start: number, parts: WordPart[], flushPart: () => void): number {
+  let text = '';
+  let i = start + 1;
+
+  flushPart();
+
+  const flushText = (force = false) => {
+    if (text || force) {
+      parts.push({ text, quote: 'double' });
+      text = '';
+    }
+  };
+
+  while (i < input.length) {
     const char = input[i];
 
-    if (escape) {
-      current += char;
-      escape = false;
-      continue;
+    if (char === '"') {
+      // Keep empty strings ("") as an empty argument
+      flushText(parts.length === 0 || text.length > 0);
+      return i + 1;
     }
 
-    if (char === '\\') {
-      escape = true;
-      continue;
+    if (char === '\\' && i + 1 < input.length) {
+      const next = input[i + 1];
+
+      if (next === '$' || next === '`' || next === '"' || next === '\\') {
+        flushText();
+        parts.push({ text: next, quote: 'single' });
+        i += 2;
+        continue;
+      }
+
+      if (next === '\n') {
+        i += 2;
+        continue;
+      }
     }
 
-    if (char === "'" && !inDoubleQuote) {
-      inSingleQuote = !inSingleQuote;
+    if (char === '$' && input[i + 1] === '(') {
+      const end = findClosingParen(input, i + 1);
+      text += input.substring(i, end);
+      i = end;
       continue;
     }
 
-    if (char === '"' && !inSingleQuote) {
-      inDoubleQuote = !inDoubleQuote;
+    if (char === '`') {
+      const end = findClosingBacktick(input, i);
+      text += input.substring(i, end);
+      i = end;
       continue;
     }
 
-    if (char === ' ' && !inSingleQuote && !inDoubleQuote) {
-      if (current) {
-        tokens.push(current);
-        current = '';
+    text += char;
+    i++;
+  }
+
+  throw new ShellSyntaxError('unexpected EOF while looking for matching `"\'');
+}
+
+/**
+ * Find the index after the parenthesis closing the one at `open`
+ */
+export function findClosingParen(input: string, open: number): number {
+  let depth = 0;
+
+  for (let i = open; i < input.length; i++) {
+    const char = input[i];
+
+    if (char === '\\') {
+      i++;
+    } else if (char === "'") {
+      const close = input.indexOf("'", i + 1);
+      i = close === -1 ? input.length : close;
+    } else if (char === '"') {
+      // Skip over the quoted string, honouring escapes
+      for (i++; i < input.length && input[i] !== '"'; i++) {
+        if (input[i] === '\\') {
+          i++;
+        }
+      }
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+
+      if (depth === 0) {
+        return i + 1;
       }
-      continue;
     }
+  }
 
-    current += char;
+  throw new ShellSyntaxError("unexpected EOF while looking for matching `)'");
+}
+
+/**
+ * Find the index after the brace closing the one at `open`
+ */
+function findClosingBrace(input: string, open: number): number {
+  const close = input.indexOf('}', open);
+
+  if (close === -1) {
+    throw new ShellSyntaxError("unexpected EOF while looking for matching `}'");
   }
 
-  if (current) {
-    tokens.push(current);
+  return close + 1;
+}
+
+/**
+ * Find the index after the backtick closing the one at `open`
+ */
+export function findClosingBacktick(input: string, open: number): number {
+  for (let i = open + 1; i < input.length; i++) {
+    if (input[i] === '\\') {
+      i++;
+    } else if (input[i] === '`') {
+      return i + 1;
+    }
   }
 
-  return tokens;
+  throw new ShellSyntaxError("unexpected EOF while looking for matching ``'");
 }
 
 /**
@@ -339,6 +803,10 @@ function tokenize(input: string): string[] {
 export function formatPipeline(pipeline: ParsedPipeline): string {
   let result = pipeline.commands.map((c) => c.raw).join(' | ');
 
+  if (pipeline.negated) {
+    result = `! ${result}`;
+  }
+
   if (pipeline.outputRedirect) {
     result += ` ${pipeline.outputRedirect.type} ${pipeline.outputRedirect.file}`;
   }
@@ -349,3 +817,15 @@ export function formatPipeline(pipeline: ParsedPipeline): string {
 
   return result;
 }
+
+/**
+ * Format a command list for display (debugging)
+ */
+export function formatCommandList(list: ParsedCommandList): string {
+  return list.entries
+    .map((entry, index) => {
+      const prefix = index === 0 ? '' : entry.condition ? ` ${entry.condition} ` : '; ';
+      return `${prefix}${formatPipeline(entry.pipeline)}${entry.background ? ' &' : ''}`;
+    })
+    .join('');
+}
@@ -0,0 +1,336 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Shell Expansion
+ * =============================================================================
+ * Expands parsed shell words into arguments:
+ * tilde, parameters ($VAR, ${VAR:-default}, $?), command substitution
+ * ($(...) and backticks), field splitting and pathname globbing.
+ * =============================================================================
+ */
+
+import type { ShellEnv } from './types';
+import type { ShellWord } from './pipe-parser';
+import { findClosingBacktick, findClosingParen } from './pipe-parser';
+import { escapeGlob, expandGlob, hasGlobMagic, type MountManager } from '../filesystem';
+
+/**
+ * Context used to expand words
+ */
+export interface ExpansionContext {
+  /** Variables visible to the command */
+  env: ShellEnv;
+
+  /** Working directory (for globbing) */
+  cwd: string;
+
+  /** Exit code for $? */
+  lastExitCode: number;
+
+  /** Filesystem used for globbing (globs are left untouched without it) */
+  fs?: MountManager;
+
+  /** Run a command and return its stdout, for $(...) and backticks */
+  commandSubstitution?: (command: string) => Promise<string>;
+}
+
+/**
+ * Piece of a field, remembering whether glob characters in it are active
+ */
+interface FieldSegment {
+  text: string;
+  quoted: boolean;
+}
+
+/**
+ * Field being built from a word
+ */
+interface Field {
+  segments: FieldSegment[];
+
+  /** Field contains quotes or literal text, so it survives even when empty */
+  keep: boolean;
+}
+
+/**
+ * Expand words into the final argument list
+ */
+export async function expandWords(words: ShellWord[], context: ExpansionContext): Promise<string[]> {
+  const result: string[] = [];
+
+  for (const word of words) {
+    const fields = await expandWordToFields(word, context);
+
+    for (const field of fields) {
+      result.push(...(await globField(field, context)));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Expand a word to a single string, without field splitting or globbing
+ * (used for assignments and redirection targets)
+ */
+export async function expandWordToString(word: ShellWord, context: ExpansionContext): Promise<string> {
+  let result = '';
+
+  for (const [index, part] of word.parts.entries()) {
+    if (part.quote === 'single') {
+      result += part.text;
+      continue;
+    }
+
+    const text = index === 0 && part.quote === 'none' ? expandTilde(part.text, context.env) : part.text;
+
+    for (const piece of await expandText(text, context)) {
+      result += piece.text;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Expand a word into fields (before globbing)
+ */
+async function expandWordToFields(word: ShellWord, context: ExpansionContext): Promise<Field[]> {
+  const fields: Field[] = [];
+  let current: Field = { segments: [], keep: false };
+
+  for (const [index, part] of word.parts.entries()) {
+    if (part.quote === 'single') {
+      current.segments.push({ text: part.text, quoted: true });
+      current.keep = true;
+      continue;
+    }
+
+    let text = part.text;
+
+    if (index === 0 && part.quote === 'none' && (text === '~' || text.startsWith('~/'))) {
+      current.segments.push({ text: context.env.HOME ?? '/home', quoted: true });
+      current.keep = true;
+      text = text.substring(1);
+    }
+
+    for (const piece of await expandText(text, context)) {
+      if (part.quote === 'double') {
+        current.segments.push({ text: piece.text, quoted: true });
+        current.keep = true;
+        continue;
+      }
+
+      if (!piece.expanded) {
+        current.segments.push({ text: piece.text, quoted: false });
+        current.keep = current.keep || piece.text.length > 0;
+        continue;
+      }
+
+      // Unquoted expansion results are split on whitespace
+      const pieces = piece.text.split(/[ \t\n]+/);
+
+      for (let i = 0; i < pieces.length; i++) {
+        if (i > 0) {
+          fields.push(current);
+          current = { segments: [], keep: false };
+        }
+
+        if (pieces[i]) {
+          current.segments.push({ text: pieces[i], quoted: false });
+          current.keep = true;
+        }
+      }
+    }
+  }
+
+  fields.push(current);
+
+  return fields.filter((field) => field.keep);
+}
+
+/**
+ * Expand glob characters of a field against the filesystem
+ */
+async function globField(field: Field, context: ExpansionContext): Promise<string[]> {
+  const literal = field.segments.map((segment) => segment.text).join('');
+  const hasMagic = field.segments.some((segment) => !segment.quoted && hasGlobMagic(segment.text));
+
+  if (!hasMagic || !context.fs) {
+    return [literal];
+  }
+
+  const pattern = field.segments.map((segment) => (segment.quoted ? escapeGlob(segment.text) : segment.text)).join('');
+
+  try {
+    const matches = await expandGlob(context.fs, pattern, context.cwd);
+
+    // Like bash without nullglob, an unmatched pattern is passed through as is
+    return matches.length > 0 ? matches : [literal];
+  } catch {
+    return [literal];
+  }
+}
+
+/**
+ * Replace a leading ~ with $HOME
+ */
+function expandTilde(text: string, env: ShellEnv): string {
+  if (text === '~' || text.startsWith('~/')) {
+    return (env.HOME ?? '/home') + text.substring(1);
+  }
+
+  return text;
+}
+
+/**
+ * Expand parameters and command substitutions in a piece of text
+ */
+async function expandText(
+  text: string,
+  context: ExpansionContext,
+): Promise<Array<{ text: string; expanded: boolean }>> {
+  const pieces: Array<{ text: string; expanded: boolean }> = [];
+  let literal = '';
+  let i = 0;
+
+  const pushExpansion = (value: string) => {
+    if (literal) {
+      pieces.push({ text: literal, expanded: false });
+      literal = '';
+    }
+
+    pieces.push({ text: value, expanded: true });
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (char === '`') {
+      const end = findClosingBacktick(text, i);
+      pushExpansion(await substitute(text.substring(i + 1, end - 1), context));
+      i = end;
+      continue;
+    }
+
+    if (char !== '$' || next === undefined) {
+      literal += char;
+      i++;
+      continue;
+    }
+
+    if (next === '(') {
+      const end = findClosingParen(text, i + 1);
+      pushExpansion(await substitute(text.substring(i + 2, end - 1), context));
+      i = end;
+      continue;
+    }
+
+    if (next === '{') {
+      const end = text.indexOf('}', i + 2);
+
+      if (end !== -1) {
+        pushExpansion(await expandBraced(text.substring(i + 2, end), context));
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (next === '?') {
+      pushExpansion(String(context.lastExitCode));
+      i += 2;
+      continue;
+    }
+
+    if (next === '$') {
+      // There is a single shell "process"
+      pushExpansion('1');
+      i += 2;
+      continue;
+    }
+
+    if (/[0-9#@*]/.test(next)) {
+      // No positional parameters at the interactive prompt
+      pushExpansion(next === '0' ? 'bash' : next === '#' ? '0' : '');
+      i += 2;
+      continue;
+    }
+
+    const match = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(text.substring(i + 1));
+
+    if (match) {
+      pushExpansion(context.env[match[0]] ?? '');
+      i += 1 + match[0].length;
+      continue;
+    }
+
+    literal += char;
+    i++;
+  }
+
+  if (literal || pieces.length === 0) {
+    pieces.push({ text: literal, expanded: false });
+  }
+
+  return pieces;
+}
+
+/**
+ * Expand the inside of ${...}
+ */
+async function expandBraced(expression: string, context: ExpansionContext): Promise<string> {
+  if (expression.startsWith('#')) {
+    return String((lookup(expression.substring(1), context) ?? '').length);
+  }
+
+  const match = /^([a-zA-Z_][a-zA-Z0-9_]*|\?)(:?[-+=])?(.*)$/s.exec(expression);
+
+  if (!match) {
+    return '';
+  }
+
+  const [, name, operator, word] = match;
+  const value = lookup(name, context);
+
+  if (!operator) {
+    return value ?? '';
+  }
+
+  const isSet = operator.startsWith(':') ? !!value : value !== undefined;
+  const expandOperand = async () => {
+    const pieces = await expandText(word, context);
+    return pieces.map((piece) => piece.text).join('');
+  };
+
+  switch (operator.replace(':', '')) {
+    case '+':
+      return isSet ? expandOperand() : '';
+    default:
+      // `-` and `=` (assignment is not persisted from inside a word)
+      return isSet ? (value as string) : expandOperand();
+  }
+}
+
+/**
+ * Look up a variable or special parameter
+ */
+function lookup(name: string, context: ExpansionContext): string | undefined {
+  if (name === '?') {
+    return String(context.lastExitCode);
+  }
+
+  return context.env[name];
+}
+
+/**
+ * Run a command substitution, stripping trailing newlines like POSIX shells
+ */
+async function substitute(command: string, context: ExpansionContext): Promise<string> {
+  if (!context.commandSubstitution) {
+    return '';
+  }
+
+  const output = await context.commandSubstitution(command);
+
+  return output.replace(/\n+$/, '');
+}
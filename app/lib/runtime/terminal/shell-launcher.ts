@@ -0,0 +1,46 @@
+/**
+ * =============================================================================
+ * BAVINI Container - Shell Process Launcher
+ * =============================================================================
+ * Process launcher for child_process: each spawned process runs its command
+ * line in a fresh shell (builtins, PATH binaries, `node <file>`), independent
+ * from the interactive terminal session.
+ * =============================================================================
+ */
+
+import type { MountManager } from '../filesystem';
+import type { ProcessLauncher, ProcessLaunchOptions } from '../node/process-launcher';
+import type { ShellState } from './types';
+import { PipeExecutor } from './pipe-executor';
+import { createShellState } from './shell-state';
+
+/**
+ * Terminal size reported to spawned processes (they are not attached to a TTY)
+ */
+const DEFAULT_DIMENSIONS = { cols: 80, rows: 24 };
+
+/**
+ * Create a launcher running processes through the virtual shell
+ */
+export function createShellProcessLauncher(fs: MountManager, defaults: Partial<ShellState> = {}): ProcessLauncher {
+  return async (options: ProcessLaunchOptions): Promise<number> => {
+    const state = createShellState({
+      ...defaults,
+      cwd: options.cwd ?? defaults.cwd,
+      env: { ...defaults.env, ...options.env },
+    });
+
+    const result = await new PipeExecutor().executeCommandLine(options.command, {
+      fs,
+      state,
+      stdout: options.stdout,
+      stderr: options.stderr,
+      dimensions: DEFAULT_DIMENSIONS,
+      signal: options.signal,
+      stdin: options.stdin,
+      ipc: options.ipc,
+    });
+
+    return result.exitCode;
+  };
+}
@@ -7,6 +7,7 @@
  */
 
 import type { MountManager } from '../filesystem';
+import type { IpcEndpoint } from '../node/process-launcher';
 
 /**
  * Shell environment variables
@@ -78,6 +79,9 @@ export interface CommandContext {
   signal?: AbortSignal;
   /** Standard input (for pipes) - FIX 3.2 */
   stdin?: string;
+
+  /** IPC channel to the parent process (node processes started with fork) */
+  ipc?: IpcEndpoint;
 }
 
 /**
@@ -88,6 +92,9 @@ export interface CommandResult {
   exitCode: number;
   /** Optional updated state */
   stateUpdates?: Partial<ShellState>;
+
+  /** Stop running the rest of the command line (exit builtin) */
+  exit?: boolean;
 }
 
 /**
@@ -6,26 +6,11 @@
  * =============================================================================
  */
 
-import type {
-  VirtualPTY,
-  PTYDimensions,
-  PTYCallbacks,
-  ShellState,
-  CommandContext,
-  ParsedCommand,
-} from './types';
+import type { VirtualPTY, PTYDimensions, PTYCallbacks, ShellState, CommandContext } from './types';
 import { ANSI, KeyCodes, TermFormat } from './types';
-import {
-  createShellState,
-  updateCwd,
-  addToHistory,
-  applyStateUpdates,
-  expandEnvVars,
-  getPromptString,
-} from './shell-state';
-import { CommandExecutor } from './command-executor';
-// FIX 3.2: Import pipe parser and executor
-import { parsePipeline, hasPipeOperators } from './pipe-parser';
+import { createShellState, updateCwd, addToHistory, applyStateUpdates, getPromptString } from './shell-state';
+
+// FIX 3.2: Commands run through the pipe executor (lists, pipes, redirections)
 import { PipeExecutor } from './pipe-executor';
 import type { MountManager } from '../filesystem';
 import { createScopedLogger } from '~/utils/logger';
@@ -52,7 +37,6 @@ export class VirtualPTYImpl implements VirtualPTY {
   private _state: ShellState;
   private _dimensions: PTYDimensions;
   private _callbacks: PTYCallbacks | null = null;
-  private _executor: CommandExecutor;
   // FIX 3.2: Add pipe executor
   private _pipeExecutor: PipeExecutor;
 
@@ -68,7 +52,6 @@ export class VirtualPTYImpl implements VirtualPTY {
     this._fs = config.fs;
     this._state = createShellState(config.initialState);
     this._dimensions = config.dimensions ?? { cols: 80, rows: 24 };
-    this._executor = new CommandExecutor();
     // FIX 3.2: Initialize pipe executor
     this._pipeExecutor = new PipeExecutor();
   }
@@ -431,24 +414,6 @@ export class VirtualPTYImpl implements VirtualPTY {
     this._state = addToHistory(this._state, input);
     this._notifyStateChange();
 
-    // Expand environment variables
-    const expandedInput = expandEnvVars(input, this._state.env);
-
-    // FIX 3.2: Check for pipes and redirections
-    if (hasPipeOperators(expandedInput)) {
-      await this._executePipeline(expandedInput);
-      return;
-    }
-
-    // Parse command (simple, no pipes)
-    const parsed = this._parseCommand(input);
-
-    if (!parsed) {
-      this._showPrompt();
-      return;
-    }
-
-    // Execute command
     this._isExecuting = true;
     this._abortController = new AbortController();
 
@@ -462,7 +427,8 @@ export class VirtualPTYImpl implements VirtualPTY {
     };
 
     try {
-      const result = await this._executor.execute(parsed, context);
+      // Operators, expansion and globbing are handled by the shell grammar
+      const result = await this._pipeExecutor.executeCommandLine(input, context);
 
       // Apply state updates
       if (result.stateUpdates) {
@@ -482,118 +448,6 @@ export class VirtualPTYImpl implements VirtualPTY {
       this._showPrompt();
     }
   }
-
-  /**
-   * FIX 3.2: Execute a pipeline with pipes and/or redirections
-   */
-  private async _executePipeline(input: string): Promise<void> {
-    this._isExecuting = true;
-    this._abortController = new AbortController();
-
-    const context: CommandContext = {
-      fs: this._fs,
-      state: this._state,
-      stdout: (data) => this._output('stdout', data),
-      stderr: (data) => this._output('stderr', TermFormat.red(data)),
-      dimensions: this._dimensions,
-      signal: this._abortController.signal,
-    };
-
-    try {
-      // Parse the pipeline
-      const pipeline = parsePipeline(input);
-      logger.debug('Executing pipeline:', pipeline);
-
-      // Execute through pipe executor
-      const result = await this._pipeExecutor.execute(pipeline, context);
-
-      // Apply state updates
-      if (result.stateUpdates) {
-        this._state = applyStateUpdates(this._state, result.stateUpdates as Partial<ShellState>);
-        this._notifyStateChange();
-      }
-
-      // Update exit code
-      this._state = applyStateUpdates(this._state, { lastExitCode: result.exitCode });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this._output('stderr', TermFormat.red(`Pipeline error: ${errorMessage}\n`));
-      this._state = applyStateUpdates(this._state, { lastExitCode: 1 });
-    } finally {
-      this._isExecuting = false;
-      this._abortController = null;
-      this._showPrompt();
-    }
-  }
-
-  private _parseCommand(input: string): ParsedCommand | null {
-    // Expand environment variables
-    const expanded = expandEnvVars(input, this._state.env);
-
-    // Simple parsing - split by whitespace respecting quotes
-    const tokens = this._tokenize(expanded);
-
-    if (tokens.length === 0) {
-      return null;
-    }
-
-    const [command, ...args] = tokens;
-
-    return {
-      command,
-      args,
-      raw: input,
-    };
-  }
-
-  private _tokenize(input: string): string[] {
-    const tokens: string[] = [];
-    let current = '';
-    let inSingleQuote = false;
-    let inDoubleQuote = false;
-    let escape = false;
-
-    for (let i = 0; i < input.length; i++) {
-      const char = input[i];
-
-      if (escape) {
-        current += char;
-        escape = false;
-        continue;
-      }
-
-      if (char === '\\') {
-        escape = true;
-        continue;
-      }
-
-      if (char === "'" && !inDoubleQuote) {
-        inSingleQuote = !inSingleQuote;
-        continue;
-      }
-
-      if (char === '"' && !inSingleQuote) {
-        inDoubleQuote = !inDoubleQuote;
-        continue;
-      }
-
-      if (char === ' ' && !inSingleQuote && !inDoubleQuote) {
-        if (current) {
-          tokens.push(current);
-          current = '';
-        }
-        continue;
-      }
-
-      current += char;
-    }
-
-    if (current) {
-      tokens.push(current);
-    }
-
-    return tokens;
-  }
 }
 
 /**
@@ -58,6 +58,40 @@ export interface BundleResult {
   buildTime: number;
   /** Hash du bundle (pour cache) */
   hash: string;
+
+  /** Chunks chargés par import() dynamique, par chemin relatif au bundle (ex: 'chunks/Page-X7K2.js') */
+  chunks?: Record<string, string>;
+
+  /** Taille des chunks et de leurs modules */
+  analysis?: ChunkInfo[];
+}
+
+/**
+ * Chunk d'un bundle, le point d'entrée ou un chunk chargé à la demande
+ */
+export interface ChunkInfo {
+  /** Chemin du chunk dans le preview (ex: 'assets/index.js') */
+  path: string;
+
+  /** Point d'entrée du bundle */
+  isEntry: boolean;
+
+  /** Taille du chunk en octets, sans sa source map */
+  bytes: number;
+
+  /** Modules du chunk, du plus lourd au plus léger */
+  modules: ModuleSize[];
+}
+
+/**
+ * Taille d'un module dans un chunk
+ */
+export interface ModuleSize {
+  /** Fichier du projet ou URL du package */
+  path: string;
+
+  /** Octets du module dans le chunk */
+  bytes: number;
 }
 
 /**
@@ -143,10 +177,18 @@ export interface BuildOptions {
   mode: 'development' | 'production';
   /** Activer le minification */
   minify?: boolean;
-  /** Activer les source maps */
+
+  /** Activer les source maps (inline, par défaut en développement) */
   sourcemap?: boolean;
+
   /** Variables d'environnement à injecter */
   define?: Record<string, string>;
+
+  /** Mettre à jour le preview avec le bundle (true par défaut) */
+  preview?: boolean;
+
+  /** Découper les import() dynamiques en chunks (par défaut en développement, quand le Service Worker sert le preview) */
+  splitting?: boolean;
 }
 
 /**
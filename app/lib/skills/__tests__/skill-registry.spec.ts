@@ -0,0 +1,165 @@
+/**
+ * Skill Registry - Unit Tests
+ *
+ * Tests for skill discovery, relevance selection, slash invocation
+ * and allowed-tools resolution.
+ *
+ * @module skills/__tests__/skill-registry.spec
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSkill } from '../skill-loader';
+import { SkillRegistry, createSkillRegistry, getAllowedTools, isSkillFile } from '../skill-registry';
+
+const TESTING_SKILL = `---
+name: testing
+description: Write unit tests with Vitest and Testing Library for React components
+allowed-tools: read_file, write_file
+---
+
+# Testing
+
+Always colocate the tests with the components.`;
+
+const CHANGELOG_SKILL = `---
+description: Update the changelog of the project before a release
+disable-model-invocation: true
+---
+
+Add an entry under "Unreleased".`;
+
+const INTERNAL_SKILL = `---
+name: internal
+description: Internal conventions of the repository
+user-invocable: false
+allowed-tools: [read_file]
+---
+
+Internal notes.`;
+
+describe('SkillRegistry', () => {
+  const projectFiles = [
+    { path: '/home/project/.bavini/skills/testing/SKILL.md', content: TESTING_SKILL },
+    { path: '/home/project/.bavini/skills/changelog/SKILL.md', content: CHANGELOG_SKILL },
+    { path: '/home/project/.claude/skills/internal/SKILL.md', content: INTERNAL_SKILL },
+    { path: '/home/project/src/App.tsx', content: 'export default function App() {}' },
+  ];
+
+  describe('isSkillFile', () => {
+    it('should recognize project skills', () => {
+      expect(isSkillFile('/home/project/.bavini/skills/testing/SKILL.md')).toBe(true);
+      expect(isSkillFile('.claude/skills/internal/SKILL.md')).toBe(true);
+    });
+
+    it('should ignore other files', () => {
+      expect(isSkillFile('/home/project/skills/testing/SKILL.md')).toBe(false);
+      expect(isSkillFile('/home/project/.bavini/skills/testing/README.md')).toBe(false);
+      expect(isSkillFile('/home/project/node_modules/pkg/.claude/skills/x/SKILL.md')).toBe(false);
+    });
+  });
+
+  describe('registerFiles', () => {
+    it('should register the SKILL.md files only, named after their folder by default', () => {
+      const registry = new SkillRegistry();
+
+      registry.registerFiles(projectFiles, 'project');
+
+      expect(registry.list().map((skill) => skill.metadata.name)).toEqual(['changelog', 'internal', 'testing']);
+      expect(registry.get('testing')?.source).toBe('project');
+    });
+
+    it('should parse comma-separated and YAML list allowed-tools', () => {
+      const registry = new SkillRegistry();
+
+      registry.registerFiles(projectFiles, 'project');
+
+      expect(registry.get('testing')?.metadata['allowed-tools']).toEqual(['read_file', 'write_file']);
+      expect(registry.get('internal')?.metadata['allowed-tools']).toEqual(['read_file']);
+    });
+
+    it('should let project skills override app skills', () => {
+      const registry = new SkillRegistry();
+      const projectSkill = `---\nname: frontend-design\ndescription: Project design system\n---\nUse our tokens.`;
+
+      registry.registerFiles(
+        [{ path: '/home/project/.bavini/skills/frontend-design/SKILL.md', content: projectSkill }],
+        'project',
+      );
+      registry.register({ ...parseSkill('App guidelines', 'frontend-design'), source: 'app', path: '/app' });
+
+      expect(registry.get('frontend-design')?.content).toBe('Use our tokens.');
+    });
+  });
+
+  describe('createSkillRegistry', () => {
+    it('should always provide the frontend-design skill', () => {
+      const registry = createSkillRegistry(projectFiles);
+
+      expect(registry.get('frontend-design')?.source).toBe('app');
+      expect(registry.get('testing')).toBeDefined();
+    });
+  });
+
+  describe('selectRelevant', () => {
+    const registry = createSkillRegistry(projectFiles);
+
+    it('should select the skills matching the request', () => {
+      const skills = registry.selectRelevant('Write unit tests for the Button React component');
+
+      expect(skills.map((skill) => skill.metadata.name)).toEqual(['testing']);
+    });
+
+    it('should never select skills that disable model invocation', () => {
+      const skills = registry.selectRelevant('Update the changelog of the project before the release');
+
+      expect(skills.map((skill) => skill.metadata.name)).not.toContain('changelog');
+    });
+
+    it('should skip excluded skills and unrelated requests', () => {
+      expect(registry.selectRelevant('Write unit tests for React components', { exclude: ['testing'] })).toEqual([]);
+      expect(registry.selectRelevant('Bonjour !')).toEqual([]);
+    });
+  });
+
+  describe('resolveInvocation', () => {
+    const registry = createSkillRegistry(projectFiles);
+
+    it('should resolve a slash command with its arguments', () => {
+      const invocation = registry.resolveInvocation('/changelog add the dark mode');
+
+      expect(invocation?.skill.metadata.name).toBe('changelog');
+      expect(invocation?.args).toBe('add the dark mode');
+    });
+
+    it('should ignore unknown and non user-invocable skills', () => {
+      expect(registry.resolveInvocation('/unknown')).toBeNull();
+      expect(registry.resolveInvocation('/internal')).toBeNull();
+      expect(registry.resolveInvocation('Write tests /testing')).toBeNull();
+    });
+
+    it('should list the user-invocable skills', () => {
+      expect(registry.listUserInvocable().map((skill) => skill.metadata.name)).not.toContain('internal');
+    });
+
+    it('should prefer the invoked skill over relevance', () => {
+      const skills = registry.selectForMessage('/changelog write unit tests for React components');
+
+      expect(skills.map((skill) => skill.metadata.name)).toEqual(['changelog']);
+    });
+  });
+
+  describe('getAllowedTools', () => {
+    const registry = createSkillRegistry(projectFiles);
+
+    it('should merge the allowed tools of the restricted skills', () => {
+      const skills = [registry.get('testing')!, registry.get('internal')!, registry.get('changelog')!];
+
+      expect(getAllowedTools(skills)).toEqual(['read_file', 'write_file']);
+    });
+
+    it('should not restrict tools when no skill declares allowed-tools', () => {
+      expect(getAllowedTools([registry.get('changelog')!])).toBeNull();
+      expect(getAllowedTools([])).toBeNull();
+    });
+  });
+});
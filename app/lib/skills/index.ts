@@ -14,7 +14,19 @@ export {
   clearSkillCache,
   getSkillCacheStats,
   isSkillAvailable,
+  parseSkill,
 } from './skill-loader';
 
+// Skill Registry
+export {
+  SkillRegistry,
+  createSkillRegistry,
+  getAllowedTools,
+  formatSkillsPrompt,
+  isSkillFile,
+  MAX_PROJECT_SKILLS,
+} from './skill-registry';
+
 // Types
 export type { SkillMetadata, ParsedSkill, SkillLoaderOptions, GuidelinesLevel } from './skill-loader';
+export type { SkillSource, RegisteredSkill, SkillFile, SkillSelectionOptions, SkillInvocation } from './skill-registry';
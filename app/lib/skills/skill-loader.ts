@@ -156,6 +156,51 @@ function parseFrontmatter(rawContent: string): ParsedFrontmatter {
   };
 }
 
+/**
+ * Parse un fichier SKILL.md (frontmatter + contenu markdown)
+ *
+ * @param rawContent - contenu brut du fichier
+ * @param defaultName - nom utilisé si le frontmatter n'en déclare pas (nom du dossier)
+ */
+export function parseSkill(rawContent: string, defaultName: string): ParsedSkill {
+  const { metadata, content } = parseFrontmatter(rawContent);
+
+  return {
+    metadata: {
+      name: (metadata.name as string) || defaultName,
+      description: (metadata.description as string) || '',
+      license: metadata.license as string | undefined,
+      'disable-model-invocation': metadata['disable-model-invocation'] as boolean | undefined,
+      'user-invocable': metadata['user-invocable'] as boolean | undefined,
+      'allowed-tools': parseToolList(metadata['allowed-tools']),
+      model: metadata.model as string | undefined,
+      context: metadata.context as 'fork' | 'main' | undefined,
+      agent: metadata.agent as string | undefined,
+    },
+    content,
+    rawContent,
+    loadedAt: Date.now(),
+  };
+}
+
+/**
+ * `allowed-tools` accepte une liste YAML ou des noms séparés par des virgules
+ */
+function parseToolList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    return value.filter((tool): tool is string => typeof tool === 'string' && tool.length > 0);
+  }
+
+  if (typeof value === 'string' && value.trim()) {
+    return value
+      .split(/[,\s]+/)
+      .map((tool) => tool.trim())
+      .filter(Boolean);
+  }
+
+  return undefined;
+}
+
 /*
  * =============================================================================
  * SKILL LOADING (Server-side)
@@ -200,24 +245,7 @@ export function loadFrontendDesignSkill(options: SkillLoaderOptions = {}): Parse
     }
 
     const rawContent = fs.readFileSync(skillPath, 'utf-8');
-    const { metadata, content } = parseFrontmatter(rawContent);
-
-    const skill: ParsedSkill = {
-      metadata: {
-        name: (metadata.name as string) || skillName,
-        description: (metadata.description as string) || '',
-        license: metadata.license as string | undefined,
-        'disable-model-invocation': metadata['disable-model-invocation'] as boolean | undefined,
-        'user-invocable': metadata['user-invocable'] as boolean | undefined,
-        'allowed-tools': metadata['allowed-tools'] as string[] | undefined,
-        model: metadata.model as string | undefined,
-        context: metadata.context as 'fork' | 'main' | undefined,
-        agent: metadata.agent as string | undefined,
-      },
-      content,
-      rawContent,
-      loadedAt: Date.now(),
-    };
+    const skill = parseSkill(rawContent, skillName);
 
     setCachedSkill(skillName, skill);
     logger.info('Loaded skill:', skillName);
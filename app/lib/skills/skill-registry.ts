@@ -0,0 +1,314 @@
+/**
+ * Skill Registry - Registre des skills disponibles
+ *
+ * Découvre les skills livrés avec l'application (.claude/skills/) et ceux du
+ * projet de l'utilisateur (.bavini/skills/ ou .claude/skills/), sélectionne
+ * ceux pertinents pour une requête et résout les invocations `/nom-du-skill`.
+ *
+ * @module skills/skill-registry
+ */
+
+import { getFallbackSkill, parseSkill, type ParsedSkill } from './skill-loader';
+
+/*
+ * =============================================================================
+ * TYPES
+ * =============================================================================
+ */
+
+/**
+ * Origine d'un skill : livré avec l'application ou présent dans le projet
+ */
+export type SkillSource = 'app' | 'project';
+
+export interface RegisteredSkill extends ParsedSkill {
+  source: SkillSource;
+
+  /** Chemin du fichier SKILL.md */
+  path: string;
+}
+
+/**
+ * Fichier du projet (même forme que les fichiers envoyés à l'API)
+ */
+export interface SkillFile {
+  path: string;
+  content?: string;
+}
+
+export interface SkillSelectionOptions {
+  /** Nombre maximum de skills retournés (défaut: 2) */
+  limit?: number;
+
+  /** Skills à ignorer (ex: frontend-design, déjà injecté par les design guidelines) */
+  exclude?: string[];
+}
+
+export interface SkillInvocation {
+  skill: RegisteredSkill;
+
+  /** Texte du message après `/nom-du-skill` */
+  args: string;
+}
+
+/*
+ * =============================================================================
+ * DISCOVERY
+ * =============================================================================
+ */
+
+/**
+ * `<dossier>/skills/<nom>/SKILL.md`, le nom du dossier est le nom par défaut du skill
+ */
+const SKILL_FILE_REGEX = /(?:^|\/)\.(?:bavini|claude)\/skills\/([^/]+)\/SKILL\.md$/;
+
+/**
+ * Nombre maximum de skills du projet envoyés avec une requête
+ */
+export const MAX_PROJECT_SKILLS = 20;
+
+/**
+ * Skills livrés avec l'application, embarqués au build
+ */
+const APP_SKILL_FILES = import.meta.glob<string>('/.claude/skills/*/SKILL.md', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+});
+
+/**
+ * Indique si un fichier du projet est un SKILL.md
+ */
+export function isSkillFile(path: string): boolean {
+  return SKILL_FILE_REGEX.test(path) && !path.includes('/node_modules/');
+}
+
+/*
+ * =============================================================================
+ * RELEVANCE
+ * =============================================================================
+ */
+
+/**
+ * Score minimum (mots en commun avec la description) pour qu'un skill soit retenu
+ */
+const MIN_RELEVANCE_SCORE = 2;
+
+const DEFAULT_SELECTION_LIMIT = 2;
+
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'with',
+  'this',
+  'that',
+  'from',
+  'into',
+  'when',
+  'use',
+  'les',
+  'des',
+  'une',
+  'pour',
+  'avec',
+  'dans',
+  'sur',
+  'par',
+  'qui',
+  'que',
+  'est',
+  'mon',
+  'mes',
+]);
+
+function tokenize(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/);
+
+  return new Set(words.filter((word) => word.length >= 3 && !STOP_WORDS.has(word)));
+}
+
+/**
+ * Nombre de mots de la requête présents dans la description du skill,
+ * le nom du skill cité dans la requête compte double
+ */
+function scoreSkill(skill: RegisteredSkill, requestWords: Set<string>): number {
+  let score = 0;
+
+  for (const word of tokenize(skill.metadata.description)) {
+    if (requestWords.has(word)) {
+      score++;
+    }
+  }
+
+  const nameWords = [...tokenize(skill.metadata.name)];
+
+  if (nameWords.length > 0 && nameWords.every((word) => requestWords.has(word))) {
+    score += 2;
+  }
+
+  return score;
+}
+
+/*
+ * =============================================================================
+ * REGISTRY
+ * =============================================================================
+ */
+
+/**
+ * Registre des skills par nom, un skill du projet remplace le skill
+ * de l'application du même nom
+ */
+export class SkillRegistry {
+  private _skills = new Map<string, RegisteredSkill>();
+
+  get size(): number {
+    return this._skills.size;
+  }
+
+  register(skill: RegisteredSkill): void {
+    const existing = this._skills.get(skill.metadata.name);
+
+    if (existing?.source === 'project' && skill.source === 'app') {
+      return;
+    }
+
+    this._skills.set(skill.metadata.name, skill);
+  }
+
+  /**
+   * Enregistre les SKILL.md d'une liste de fichiers, les autres fichiers sont ignorés
+   */
+  registerFiles(files: SkillFile[], source: SkillSource): void {
+    for (const file of files) {
+      const match = file.path.match(SKILL_FILE_REGEX);
+
+      if (!match || !file.content || !isSkillFile(file.path)) {
+        continue;
+      }
+
+      this.register({ ...parseSkill(file.content, match[1]), source, path: file.path });
+    }
+  }
+
+  get(name: string): RegisteredSkill | undefined {
+    return this._skills.get(name);
+  }
+
+  list(): RegisteredSkill[] {
+    return [...this._skills.values()].sort((a, b) => a.metadata.name.localeCompare(b.metadata.name));
+  }
+
+  /**
+   * Skills que l'utilisateur peut invoquer avec `/nom-du-skill`
+   */
+  listUserInvocable(): RegisteredSkill[] {
+    return this.list().filter((skill) => skill.metadata['user-invocable'] !== false);
+  }
+
+  /**
+   * Skills pertinents pour une requête, par mots en commun avec leur description.
+   * Les skills avec `disable-model-invocation` ne sont jamais sélectionnés automatiquement.
+   */
+  selectRelevant(request: string, options: SkillSelectionOptions = {}): RegisteredSkill[] {
+    const { limit = DEFAULT_SELECTION_LIMIT, exclude = [] } = options;
+    const requestWords = tokenize(request);
+
+    if (requestWords.size === 0) {
+      return [];
+    }
+
+    return this.list()
+      .filter((skill) => !skill.metadata['disable-model-invocation'] && !exclude.includes(skill.metadata.name))
+      .map((skill) => ({ skill, score: scoreSkill(skill, requestWords) }))
+      .filter(({ score }) => score >= MIN_RELEVANCE_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ skill }) => skill);
+  }
+
+  /**
+   * Résout un message commençant par `/nom-du-skill`, null si ce n'est pas
+   * une invocation d'un skill invocable
+   */
+  resolveInvocation(message: string): SkillInvocation | null {
+    const match = message.trim().match(/^\/([\w-]+)(?:\s+([\s\S]*))?$/);
+
+    if (!match) {
+      return null;
+    }
+
+    const skill = this._skills.get(match[1]);
+
+    if (!skill || skill.metadata['user-invocable'] === false) {
+      return null;
+    }
+
+    return { skill, args: (match[2] ?? '').trim() };
+  }
+
+  /**
+   * Skills actifs pour un message : le skill invoqué avec `/nom-du-skill`,
+   * sinon les skills pertinents pour sa demande
+   */
+  selectForMessage(message: string, options: SkillSelectionOptions = {}): RegisteredSkill[] {
+    const invocation = this.resolveInvocation(message);
+
+    return invocation ? [invocation.skill] : this.selectRelevant(message, options);
+  }
+}
+
+/**
+ * Outils autorisés par un ensemble de skills : l'union de leurs `allowed-tools`,
+ * null si aucun skill ne restreint les outils
+ */
+export function getAllowedTools(skills: ParsedSkill[]): string[] | null {
+  const restricted = skills.filter((skill) => skill.metadata['allowed-tools'] !== undefined);
+
+  if (restricted.length === 0) {
+    return null;
+  }
+
+  return [...new Set(restricted.flatMap((skill) => skill.metadata['allowed-tools'] ?? []))];
+}
+
+/**
+ * Crée un registre avec les skills de l'application puis ceux du projet
+ *
+ * @param projectFiles - fichiers du projet, seuls les SKILL.md sont lus
+ */
+export function createSkillRegistry(projectFiles: SkillFile[] = []): SkillRegistry {
+  const registry = new SkillRegistry();
+
+  registry.registerFiles(
+    Object.entries(APP_SKILL_FILES).map(([path, content]) => ({ path, content })),
+    'app',
+  );
+
+  // frontend-design reste disponible même sans le fichier SKILL.md
+  if (!registry.get('frontend-design')) {
+    registry.register({ ...getFallbackSkill(), source: 'app', path: '/.claude/skills/frontend-design/SKILL.md' });
+  }
+
+  registry.registerFiles(projectFiles, 'project');
+
+  return registry;
+}
+
+/*
+ * =============================================================================
+ * PROMPT FORMATTING
+ * =============================================================================
+ */
+
+/**
+ * Formate les skills actifs pour le system prompt
+ */
+export function formatSkillsPrompt(skills: RegisteredSkill[]): string {
+  return skills.map((skill) => `## Skill: ${skill.metadata.name}\n\n${skill.content}`).join('\n\n---\n\n');
+}
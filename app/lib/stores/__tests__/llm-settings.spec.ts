@@ -0,0 +1,102 @@
+/**
+ * LLM Settings Store - Unit Tests
+ *
+ * Tests for the provider and per-agent model configuration.
+ *
+ * @module stores/__tests__/llm-settings.spec
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  llmConfigStore,
+  setDefaultModel,
+  setAgentModel,
+  setOpenAICompatibleConfig,
+  resetLLMConfig,
+  parseLLMConfig,
+  getLLMRequestConfig,
+  getAgentModel,
+  DEFAULT_LLM_CONFIG,
+  STORAGE_KEY_LLM_CONFIG,
+} from '../llm-settings';
+
+describe('LLM Settings Store', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    llmConfigStore.set(DEFAULT_LLM_CONFIG);
+  });
+
+  describe('actions', () => {
+    it('should set and persist the default model', () => {
+      setDefaultModel({ provider: 'openai-compatible', model: 'gpt-4o' });
+
+      expect(llmConfigStore.get().defaultModel).toEqual({ provider: 'openai-compatible', model: 'gpt-4o' });
+      expect(JSON.parse(localStorage.getItem(STORAGE_KEY_LLM_CONFIG)!).defaultModel.model).toBe('gpt-4o');
+    });
+
+    it('should set and clear agent models', () => {
+      setAgentModel('explore', { provider: 'anthropic', model: 'claude-haiku-4-5-20251001' });
+
+      expect(llmConfigStore.get().agentModels.explore?.model).toBe('claude-haiku-4-5-20251001');
+
+      setAgentModel('explore', null);
+
+      expect(llmConfigStore.get().agentModels).toEqual({});
+    });
+
+    it('should reset to the defaults', () => {
+      setAgentModel('coder', { provider: 'openai-compatible', model: 'gpt-4.1' });
+      resetLLMConfig();
+
+      expect(llmConfigStore.get()).toEqual(DEFAULT_LLM_CONFIG);
+    });
+  });
+
+  describe('parseLLMConfig', () => {
+    it('should keep valid selections and drop invalid ones', () => {
+      const config = parseLLMConfig({
+        defaultModel: { provider: 'anthropic', model: 'claude-sonnet-4-5-20250929' },
+        agentModels: {
+          explore: { provider: 'openai-compatible', model: 'llama3.1' },
+          coder: { provider: 'unknown', model: 'x' },
+          unknownAgent: { provider: 'anthropic', model: 'x' },
+        },
+      });
+
+      expect(config?.agentModels).toEqual({ explore: { provider: 'openai-compatible', model: 'llama3.1' } });
+    });
+
+    it('should reject configurations without a default model', () => {
+      expect(parseLLMConfig({ agentModels: {} })).toBeNull();
+      expect(parseLLMConfig('invalid')).toBeNull();
+    });
+  });
+
+  describe('getLLMRequestConfig', () => {
+    it('should only send the endpoint when an OpenAI-compatible model is used', () => {
+      setOpenAICompatibleConfig({ baseURL: 'http://localhost:11434/v1' });
+
+      expect(getLLMRequestConfig().openaiCompatible).toBeUndefined();
+
+      setAgentModel('explore', { provider: 'openai-compatible', model: 'qwen2.5-coder:7b' });
+
+      expect(getLLMRequestConfig().openaiCompatible).toEqual({ baseURL: 'http://localhost:11434/v1' });
+    });
+  });
+
+  describe('getAgentModel', () => {
+    it('should use the Anthropic model chosen for the agent', () => {
+      setDefaultModel({ provider: 'anthropic', model: 'claude-opus-4-5-20251101' });
+      setAgentModel('explore', { provider: 'anthropic', model: 'claude-haiku-4-5-20251001' });
+
+      expect(getAgentModel('explore')).toBe('claude-haiku-4-5-20251001');
+      expect(getAgentModel('coder')).toBe('claude-opus-4-5-20251101');
+    });
+
+    it('should fall back to the default Anthropic model for OpenAI-compatible selections', () => {
+      setAgentModel('coder', { provider: 'openai-compatible', model: 'gpt-4.1' });
+
+      expect(getAgentModel('coder')).toBe(DEFAULT_LLM_CONFIG.defaultModel.model);
+    });
+  });
+});
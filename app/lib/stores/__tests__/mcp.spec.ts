@@ -0,0 +1,91 @@
+/**
+ * MCP Servers Store - Unit Tests
+ *
+ * Tests for the per-project MCP server configuration.
+ *
+ * @module stores/__tests__/mcp.spec
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { chatId } from '~/lib/persistence/useChatHistory';
+import {
+  addMcpServer,
+  getEnabledMcpServers,
+  mcpServersStore,
+  projectMcpServersStore,
+  removeMcpServer,
+  setMcpServerEnabled,
+  validateMcpServer,
+  STORAGE_KEY_MCP_SERVERS,
+} from '../mcp';
+
+vi.mock('~/lib/persistence/useChatHistory', async () => {
+  const { atom } = await import('nanostores');
+
+  return { chatId: atom<string | undefined>('project-1') };
+});
+
+const LINEAR = { name: 'linear', url: 'https://mcp.linear.app/mcp' };
+
+describe('MCP Servers Store', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mcpServersStore.set({});
+    chatId.set('project-1');
+  });
+
+  describe('validateMcpServer', () => {
+    it('should accept a valid server', () => {
+      expect(validateMcpServer(LINEAR, [])).toBeNull();
+    });
+
+    it('should reject invalid names, duplicates and URLs', () => {
+      expect(validateMcpServer({ ...LINEAR, name: 'my server' }, [])).toContain('Le nom');
+      expect(validateMcpServer(LINEAR, [LINEAR])).toContain('existe déjà');
+      expect(validateMcpServer({ ...LINEAR, url: 'not a url' }, [])).toBe('URL invalide');
+      expect(validateMcpServer({ ...LINEAR, url: 'ftp://example.com' }, [])).toContain('http://');
+    });
+  });
+
+  describe('actions', () => {
+    it('should add and persist a server for the open project', () => {
+      addMcpServer(LINEAR);
+
+      expect(projectMcpServersStore.get()).toEqual([{ ...LINEAR, enabled: true }]);
+      expect(JSON.parse(localStorage.getItem(STORAGE_KEY_MCP_SERVERS)!)).toEqual({
+        'project-1': [{ ...LINEAR, enabled: true }],
+      });
+    });
+
+    it('should keep the servers of each project apart', () => {
+      addMcpServer(LINEAR);
+      chatId.set('project-2');
+
+      expect(projectMcpServersStore.get()).toEqual([]);
+    });
+
+    it('should throw on an invalid server', () => {
+      addMcpServer(LINEAR);
+
+      expect(() => addMcpServer(LINEAR)).toThrow('existe déjà');
+    });
+
+    it('should disable and remove a server', () => {
+      addMcpServer(LINEAR);
+      setMcpServerEnabled('linear', false);
+
+      expect(getEnabledMcpServers()).toEqual([]);
+
+      removeMcpServer('linear');
+
+      expect(mcpServersStore.get()).toEqual({});
+    });
+
+    it('should require an open project', () => {
+      chatId.set(undefined);
+
+      expect(projectMcpServersStore.get()).toEqual([]);
+      expect(() => addMcpServer(LINEAR)).toThrow('Aucun projet ouvert');
+    });
+  });
+});
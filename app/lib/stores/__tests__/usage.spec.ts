@@ -0,0 +1,73 @@
+/**
+ * Usage Store - Unit Tests
+ *
+ * Comptabilisation de la consommation envoyée par /api/chat et /api/agent.
+ *
+ * @module stores/__tests__/usage.spec
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { usageTracker } from '~/lib/usage';
+import { checkSendBudgets, getAgentUsageBudget, recordStreamUsage } from '../usage';
+
+vi.mock('~/lib/persistence/useChatHistory', async () => {
+  const { atom } = await import('nanostores');
+
+  return { chatId: atom<string | undefined>(undefined) };
+});
+
+vi.mock('~/lib/persistence/pglite', () => ({
+  getPGlite: vi.fn().mockResolvedValue({}),
+}));
+
+vi.mock('~/lib/persistence/usage-db', () => ({
+  getUsageRecords: vi.fn().mockResolvedValue([]),
+  insertUsageRecord: vi.fn().mockResolvedValue(undefined),
+}));
+
+const USAGE = { inputTokens: 100, outputTokens: 50, cacheReadTokens: 0, cacheWriteTokens: 0 };
+
+describe('Usage Store', () => {
+  beforeEach(() => {
+    usageTracker.reset();
+  });
+
+  it('should record the usage under the agent that made the call', () => {
+    recordStreamUsage(JSON.stringify({ usage: USAGE, model: 'claude-sonnet-4-5-20250929', source: 'coder' }));
+
+    expect(usageTracker.getAgentTotals('coder')).toMatchObject({ inputTokens: 100, outputTokens: 50, calls: 1 });
+    expect(usageTracker.getAgentTotals('chat').calls).toBe(0);
+  });
+
+  it('should record the usage under chat without a source', () => {
+    recordStreamUsage(JSON.stringify({ usage: USAGE, model: 'claude-sonnet-4-5-20250929' }));
+
+    expect(usageTracker.getAgentTotals('chat').calls).toBe(1);
+  });
+
+  it('should ignore invalid usage lines', () => {
+    recordStreamUsage('{"usage":');
+    recordStreamUsage(JSON.stringify({ model: 'claude-sonnet-4-5-20250929' }));
+
+    expect(usageTracker.getChatTotals().calls).toBe(0);
+  });
+
+  describe('budgets', () => {
+    it('should check the budget of the chat only outside the multi-agent mode', () => {
+      usageTracker.setBudgets({ agentTokens: 100 });
+      recordStreamUsage(JSON.stringify({ usage: USAGE, model: 'claude-sonnet-4-5-20250929' }));
+
+      expect(checkSendBudgets(false)?.message).toContain("Budget de tokens de l'agent chat atteint");
+      expect(checkSendBudgets(true)).toBeNull();
+    });
+
+    it('should send the tokens used by each agent with the agent budget', () => {
+      expect(getAgentUsageBudget()).toBeUndefined();
+
+      usageTracker.setBudgets({ agentTokens: 1000 });
+      recordStreamUsage(JSON.stringify({ usage: USAGE, model: 'claude-sonnet-4-5-20250929', source: 'coder' }));
+
+      expect(getAgentUsageBudget()).toEqual({ agentTokens: 1000, usedTokens: { coder: 150 } });
+    });
+  });
+});
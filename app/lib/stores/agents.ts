@@ -4,7 +4,16 @@
  */
 
 import { atom, map, computed, type ReadableAtom, type MapStore } from 'nanostores';
-import type { AgentType, AgentStatus, Task, TaskStatus, LogEntry, AgentEvent, TaskResult } from '../agents/types';
+import type {
+  AgentType,
+  AgentStatus,
+  CustomAgentType,
+  Task,
+  TaskStatus,
+  LogEntry,
+  AgentEvent,
+  TaskResult,
+} from '../agents/types';
 import { CircularBuffer } from '~/lib/utils/circular-buffer';
 
 // Re-export types for consumers
@@ -89,6 +98,21 @@ export const agentStatusStore = map<Record<AgentType, AgentStatus>>({
   architect: 'idle',
 });
 
+/**
+ * Agent personnalisé du projet, tel qu'affiché dans l'interface
+ */
+export interface CustomAgentInfo {
+  name: CustomAgentType;
+  displayName: string;
+  description: string;
+  icon: string;
+}
+
+/**
+ * Agents personnalisés enregistrés (.bavini/agents.json)
+ */
+export const customAgentsStore = atom<CustomAgentInfo[]>([]);
+
 /**
  * Agents actuellement actifs (en cours d'exécution)
  */
@@ -443,7 +467,12 @@ export function addAgentLog(agent: AgentType, log: Omit<LogEntry, 'timestamp'>):
   };
 
   // Utiliser les buffers circulaires O(1) au lieu de slice O(n)
-  const agentBuffer = getAgentLogBuffers()[agent];
+  const buffers = getAgentLogBuffers();
+
+  // Les agents personnalisés n'ont pas de buffer initial
+  buffers[agent] ??= new CircularBuffer(AGENT_LOGS_CAPACITY);
+
+  const agentBuffer = buffers[agent];
   agentBuffer.push(entry);
   agentLogsStore.setKey(agent, agentBuffer.toArray());
 
@@ -453,6 +482,16 @@ export function addAgentLog(agent: AgentType, log: Omit<LogEntry, 'timestamp'>):
   systemLogsStore.set(systemBuffer.toArray());
 }
 
+/**
+ * Définit les agents personnalisés affichés dans l'interface.
+ *
+ * @param agents - Les agents personnalisés enregistrés
+ * @returns void
+ */
+export function setCustomAgents(agents: CustomAgentInfo[]): void {
+  customAgentsStore.set(agents);
+}
+
 /**
  * Ajoute une tâche à la queue d'exécution.
  *
@@ -689,6 +728,7 @@ export function resetAgentStores(): void {
   });
 
   activeAgentsStore.set([]);
+  customAgentsStore.set([]);
 
   currentTasksStore.set({
     orchestrator: null,
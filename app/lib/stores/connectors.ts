@@ -226,7 +226,9 @@ if (!import.meta.env.SSR) {
 
 // Settings modal state
 export const settingsModalOpen = atom<boolean>(false);
-export const activeSettingsTab = atom<'account' | 'connectors' | 'github' | 'interface'>('interface');
+export const activeSettingsTab = atom<'account' | 'connectors' | 'github' | 'interface' | 'models' | 'usage'>(
+  'interface',
+);
 
 /**
  * Save connectors state to localStorage.
@@ -307,7 +309,9 @@ export function hasConnectedConnectors(): boolean {
 /**
  * Open settings modal.
  */
-export function openSettingsModal(tab: 'account' | 'connectors' | 'github' | 'interface' = 'interface'): void {
+export function openSettingsModal(
+  tab: 'account' | 'connectors' | 'github' | 'interface' | 'models' | 'usage' = 'interface',
+): void {
   activeSettingsTab.set(tab);
   settingsModalOpen.set(true);
 }
@@ -0,0 +1,223 @@
+/**
+ * LLM Settings Store
+ *
+ * Gère le fournisseur et les modèles utilisés par BAVINI:
+ * - Modèle par défaut (Anthropic ou endpoint compatible OpenAI)
+ * - Modèle dédié par type d'agent
+ * - Endpoint compatible OpenAI (OpenAI, Ollama, LM Studio...)
+ *
+ * La configuration est envoyée avec chaque requête aux routes API.
+ *
+ * @module stores/llm-settings
+ */
+
+import { atom } from 'nanostores';
+import {
+  DEFAULT_MODEL_SELECTION,
+  LLM_AGENT_TYPES,
+  resolveModelSelection,
+  type LLMAgentType,
+  type LLMConfig,
+  type ModelSelection,
+  type OpenAICompatibleConfig,
+} from '~/lib/llm';
+
+/*
+ * =============================================================================
+ * CONSTANTS
+ * =============================================================================
+ */
+
+export const STORAGE_KEY_LLM_CONFIG = 'bavini:llm:config';
+
+export const DEFAULT_LLM_CONFIG: LLMConfig = {
+  defaultModel: DEFAULT_MODEL_SELECTION,
+  agentModels: {},
+};
+
+/*
+ * =============================================================================
+ * STORES
+ * =============================================================================
+ */
+
+/**
+ * Configuration LLM courante
+ */
+export const llmConfigStore = atom<LLMConfig>(DEFAULT_LLM_CONFIG);
+
+/*
+ * =============================================================================
+ * ACTIONS
+ * =============================================================================
+ */
+
+function updateLLMConfig(config: LLMConfig): void {
+  llmConfigStore.set(config);
+
+  if (typeof window !== 'undefined') {
+    try {
+      localStorage.setItem(STORAGE_KEY_LLM_CONFIG, JSON.stringify(config));
+    } catch {
+      // localStorage peut échouer (mode privé, quota dépassé)
+    }
+  }
+}
+
+/**
+ * Définit le modèle par défaut
+ */
+export function setDefaultModel(selection: ModelSelection): void {
+  updateLLMConfig({ ...llmConfigStore.get(), defaultModel: selection });
+}
+
+/**
+ * Définit le modèle d'un agent (null pour utiliser le modèle par défaut)
+ */
+export function setAgentModel(agent: LLMAgentType, selection: ModelSelection | null): void {
+  const current = llmConfigStore.get();
+  const agentModels = { ...current.agentModels };
+
+  if (selection) {
+    agentModels[agent] = selection;
+  } else {
+    delete agentModels[agent];
+  }
+
+  updateLLMConfig({ ...current, agentModels });
+}
+
+/**
+ * Définit l'endpoint compatible OpenAI
+ */
+export function setOpenAICompatibleConfig(config: OpenAICompatibleConfig | undefined): void {
+  updateLLMConfig({ ...llmConfigStore.get(), openaiCompatible: config });
+}
+
+/**
+ * Reset aux valeurs par défaut
+ */
+export function resetLLMConfig(): void {
+  updateLLMConfig(DEFAULT_LLM_CONFIG);
+}
+
+/*
+ * =============================================================================
+ * INITIALIZATION
+ * =============================================================================
+ */
+
+let initialized = false;
+
+function isModelSelection(value: unknown): value is ModelSelection {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const selection = value as ModelSelection;
+
+  return (
+    (selection.provider === 'anthropic' || selection.provider === 'openai-compatible') &&
+    typeof selection.model === 'string' &&
+    selection.model.length > 0
+  );
+}
+
+/**
+ * Valide une configuration lue depuis localStorage
+ */
+export function parseLLMConfig(raw: unknown): LLMConfig | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const config = raw as Partial<LLMConfig>;
+
+  if (!isModelSelection(config.defaultModel)) {
+    return null;
+  }
+
+  const agentModels: LLMConfig['agentModels'] = {};
+
+  for (const agent of LLM_AGENT_TYPES) {
+    const selection = config.agentModels?.[agent];
+
+    if (isModelSelection(selection)) {
+      agentModels[agent] = selection;
+    }
+  }
+
+  const openaiCompatible =
+    config.openaiCompatible && typeof config.openaiCompatible.baseURL === 'string'
+      ? config.openaiCompatible
+      : undefined;
+
+  return { defaultModel: config.defaultModel, agentModels, openaiCompatible };
+}
+
+/**
+ * Initialise le store depuis localStorage
+ */
+export function initLLMSettingsStore(): void {
+  if (initialized || typeof window === 'undefined') {
+    return;
+  }
+
+  initialized = true;
+
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_LLM_CONFIG);
+
+    if (saved) {
+      const config = parseLLMConfig(JSON.parse(saved));
+
+      if (config) {
+        llmConfigStore.set(config);
+      }
+    }
+  } catch {
+    // localStorage parse error - use defaults
+  }
+}
+
+// Auto-init sur le client (non-blocking)
+if (typeof window !== 'undefined' && typeof requestIdleCallback !== 'undefined') {
+  requestIdleCallback(() => initLLMSettingsStore(), { timeout: 100 });
+} else if (typeof window !== 'undefined') {
+  setTimeout(initLLMSettingsStore, 0);
+}
+
+/*
+ * =============================================================================
+ * HELPERS
+ * =============================================================================
+ */
+
+/**
+ * Configuration à joindre aux requêtes API.
+ * L'endpoint n'est envoyé que si un modèle compatible OpenAI est utilisé.
+ */
+export function getLLMRequestConfig(): LLMConfig {
+  const config = llmConfigStore.get();
+  const selections = [config.defaultModel, ...Object.values(config.agentModels)];
+  const usesOpenAICompatible = selections.some((selection) => selection?.provider === 'openai-compatible');
+
+  if (!usesOpenAICompatible || !config.openaiCompatible?.baseURL) {
+    return { defaultModel: config.defaultModel, agentModels: config.agentModels };
+  }
+
+  return config;
+}
+
+/**
+ * Modèle d'un agent du système d'agents du navigateur. Il appelle l'API
+ * Anthropic directement: une sélection compatible OpenAI y utilise le modèle
+ * Anthropic par défaut. Sans agent (ex: agents personnalisés), le modèle par défaut.
+ */
+export function getAgentModel(agent?: LLMAgentType): string {
+  initLLMSettingsStore();
+
+  const selection = resolveModelSelection(llmConfigStore.get(), agent);
+
+  return selection.provider === 'anthropic' ? selection.model : DEFAULT_MODEL_SELECTION.model;
+}
@@ -0,0 +1,226 @@
+/**
+ * MCP Servers Store
+ *
+ * Serveurs MCP (Model Context Protocol) configurés pour chaque projet.
+ * La configuration reste dans localStorage, indexée par l'id du projet,
+ * pour ne pas écrire les tokens dans les fichiers du projet.
+ *
+ * @module stores/mcp
+ */
+
+import { atom, computed } from 'nanostores';
+import { McpClient, type McpServerConfig } from '~/lib/mcp';
+import { chatId } from '~/lib/persistence/useChatHistory';
+
+/*
+ * =============================================================================
+ * CONSTANTS
+ * =============================================================================
+ */
+
+export const STORAGE_KEY_MCP_SERVERS = 'bavini:mcp:servers';
+
+/**
+ * Le nom sert de préfixe aux outils du serveur (mcp__<nom>__<outil>)
+ */
+const SERVER_NAME_REGEX = /^[a-zA-Z0-9_-]{1,32}$/;
+
+/*
+ * =============================================================================
+ * TYPES
+ * =============================================================================
+ */
+
+/**
+ * Serveurs MCP par id de projet
+ */
+export type McpServersState = Record<string, McpServerConfig[]>;
+
+/**
+ * Résultat du test d'un serveur
+ */
+export interface McpServerTestResult {
+  serverName: string;
+  tools: number;
+  prompts: number;
+  resources: number;
+}
+
+/*
+ * =============================================================================
+ * STORES
+ * =============================================================================
+ */
+
+export const mcpServersStore = atom<McpServersState>({});
+
+/**
+ * Serveurs MCP du projet ouvert
+ */
+export const projectMcpServersStore = computed([mcpServersStore, chatId], (servers, projectId) =>
+  projectId ? (servers[projectId] ?? []) : [],
+);
+
+/*
+ * =============================================================================
+ * ACTIONS
+ * =============================================================================
+ */
+
+function updateProjectServers(update: (servers: McpServerConfig[]) => McpServerConfig[]): void {
+  const projectId = chatId.get();
+
+  if (!projectId) {
+    throw new Error('Aucun projet ouvert');
+  }
+
+  const state = { ...mcpServersStore.get() };
+  const servers = update(state[projectId] ?? []);
+
+  if (servers.length > 0) {
+    state[projectId] = servers;
+  } else {
+    delete state[projectId];
+  }
+
+  mcpServersStore.set(state);
+
+  if (typeof window !== 'undefined') {
+    try {
+      localStorage.setItem(STORAGE_KEY_MCP_SERVERS, JSON.stringify(state));
+    } catch {
+      // localStorage peut échouer (mode privé, quota dépassé)
+    }
+  }
+}
+
+/**
+ * Vérifie la configuration d'un serveur, retourne le message d'erreur ou null
+ */
+export function validateMcpServer(config: McpServerConfig, servers: McpServerConfig[]): string | null {
+  if (!SERVER_NAME_REGEX.test(config.name)) {
+    return 'Le nom ne peut contenir que des lettres, chiffres, - et _ (32 caractères max)';
+  }
+
+  if (servers.some((server) => server.name === config.name)) {
+    return `Un serveur nommé "${config.name}" existe déjà`;
+  }
+
+  try {
+    const url = new URL(config.url);
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return "L'URL doit commencer par http:// ou https://";
+    }
+  } catch {
+    return 'URL invalide';
+  }
+
+  return null;
+}
+
+/**
+ * Ajoute un serveur au projet ouvert
+ */
+export function addMcpServer(config: McpServerConfig): void {
+  const error = validateMcpServer(config, projectMcpServersStore.get());
+
+  if (error) {
+    throw new Error(error);
+  }
+
+  updateProjectServers((servers) => [...servers, { ...config, enabled: config.enabled ?? true }]);
+}
+
+/**
+ * Retire un serveur du projet ouvert
+ */
+export function removeMcpServer(name: string): void {
+  updateProjectServers((servers) => servers.filter((server) => server.name !== name));
+}
+
+/**
+ * Active ou désactive un serveur sans perdre sa configuration
+ */
+export function setMcpServerEnabled(name: string, enabled: boolean): void {
+  updateProjectServers((servers) => servers.map((server) => (server.name === name ? { ...server, enabled } : server)));
+}
+
+/**
+ * Se connecte au serveur et compte ce qu'il expose
+ */
+export async function testMcpServer(config: McpServerConfig): Promise<McpServerTestResult> {
+  const client = new McpClient(config, { timeout: 10_000 });
+
+  try {
+    const info = await client.connect();
+    const catalog = await client.listAll();
+
+    return {
+      serverName: info.serverInfo.name,
+      tools: catalog.tools.length,
+      prompts: catalog.prompts.length,
+      resources: catalog.resources.length,
+    };
+  } finally {
+    await client.close();
+  }
+}
+
+/**
+ * Serveurs actifs du projet ouvert, à connecter au système d'agents
+ */
+export function getEnabledMcpServers(): McpServerConfig[] {
+  return projectMcpServersStore.get().filter((server) => server.enabled !== false);
+}
+
+/*
+ * =============================================================================
+ * INITIALIZATION
+ * =============================================================================
+ */
+
+let initialized = false;
+
+function isServerConfig(value: unknown): value is McpServerConfig {
+  const config = value as McpServerConfig;
+
+  return !!config && typeof config.name === 'string' && typeof config.url === 'string';
+}
+
+/**
+ * Initialise le store depuis localStorage
+ */
+export function initMcpServersStore(): void {
+  if (initialized || typeof window === 'undefined') {
+    return;
+  }
+
+  initialized = true;
+
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_MCP_SERVERS);
+
+    if (saved) {
+      const parsed = JSON.parse(saved) as Record<string, unknown>;
+      const state: McpServersState = {};
+
+      for (const [projectId, servers] of Object.entries(parsed)) {
+        if (Array.isArray(servers)) {
+          state[projectId] = servers.filter(isServerConfig);
+        }
+      }
+
+      mcpServersStore.set(state);
+    }
+  } catch {
+    // localStorage parse error - aucun serveur
+  }
+}
+
+// Auto-init sur le client (non-blocking)
+if (typeof window !== 'undefined' && typeof requestIdleCallback !== 'undefined') {
+  requestIdleCallback(() => initMcpServersStore(), { timeout: 100 });
+} else if (typeof window !== 'undefined') {
+  setTimeout(initMcpServersStore, 0);
+}
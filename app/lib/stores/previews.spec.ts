@@ -54,6 +54,43 @@ describe('previews store', () => {
     });
   });
 
+  describe('browser runtime servers', () => {
+    it('should list listening http servers as previews', async () => {
+      const previews = await import('./previews');
+      const { registerServer, unregisterServer } = await import('~/lib/runtime/node/server-registry');
+      const server = { handleRequest: vi.fn() };
+      const store = new previews.PreviewsStore(null);
+
+      store.setMode('browser');
+      store.init();
+
+      registerServer(3000, server);
+
+      expect(store.previews.get()).toEqual([{ port: 3000, ready: true, baseUrl: '/preview/__server__/3000/' }]);
+
+      unregisterServer(3000, server);
+
+      expect(store.previews.get()).toEqual([]);
+    });
+
+    it('should stop following server ports once disposed', async () => {
+      const previews = await import('./previews');
+      const { registerServer, unregisterServer } = await import('~/lib/runtime/node/server-registry');
+      const server = { handleRequest: vi.fn() };
+      const store = new previews.PreviewsStore(null);
+
+      store.setMode('browser');
+      store.init();
+      store.dispose();
+
+      registerServer(3000, server);
+
+      expect(store.previews.get()).toEqual([]);
+
+      unregisterServer(3000, server);
+    });
+  });
+
   describe('device preview atoms', () => {
     it('should have default device as desktop', async () => {
       const { selectedDeviceId } = await import('./previews');
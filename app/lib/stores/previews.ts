@@ -1,5 +1,7 @@
 import type { WebContainer } from '@webcontainer/api';
 import { atom } from 'nanostores';
+import { getListeningPorts, onServerPortChange, type ServerPortEvent } from '~/lib/runtime/node/server-registry';
+import { getServerPreviewUrl } from '~/lib/runtime/preview-service-worker';
 import { DEFAULT_DEVICE_ID, type Orientation } from '~/utils/devices';
 import { createScopedLogger } from '~/utils/logger';
 
@@ -51,6 +53,7 @@ export class PreviewsStore {
   #initialized = false;
   #mode: PreviewMode = 'webcontainer';
   #browserPreviewUrl: string | null = null;
+  #serverPortsUnsubscribe: (() => void) | null = null;
 
   previews = atom<PreviewInfo[]>([]);
 
@@ -90,6 +93,8 @@ export class PreviewsStore {
     // In browser mode, we don't need WebContainer initialization
     if (this.#mode === 'browser' || !this.#webcontainer) {
       logger.info('PreviewsStore initialized in browser mode');
+      this.#initServerPreviews();
+
       return;
     }
 
@@ -164,6 +169,43 @@ export class PreviewsStore {
     return this.#browserPreviewUrl;
   }
 
+  /**
+   * List the ports of http servers started in the browser runtime
+   * (served through the preview Service Worker)
+   */
+  #initServerPreviews(): void {
+    for (const port of getListeningPorts()) {
+      this.#updateServerPreview(port, 'open');
+    }
+
+    this.#serverPortsUnsubscribe = onServerPortChange((port, event) => this.#updateServerPreview(port, event));
+  }
+
+  /**
+   * Stop listening to server ports (init() can be called again afterwards)
+   */
+  dispose(): void {
+    this.#serverPortsUnsubscribe?.();
+    this.#serverPortsUnsubscribe = null;
+    this.#initialized = false;
+  }
+
+  #updateServerPreview(port: number, event: ServerPortEvent): void {
+    const currentPreviews = this.previews.get();
+
+    if (event === 'close') {
+      this.#availablePreviews.delete(port);
+      this.previews.set(currentPreviews.filter((preview) => preview.port !== port));
+
+      return;
+    }
+
+    const previewInfo: PreviewInfo = { port, ready: true, baseUrl: getServerPreviewUrl(port) };
+
+    this.#availablePreviews.set(port, previewInfo);
+    this.previews.set([...currentPreviews.filter((preview) => preview.port !== port), previewInfo]);
+  }
+
   async #initWebContainer() {
     if (!this.#webcontainer) {
       logger.warn('No WebContainer promise provided, skipping initialization');
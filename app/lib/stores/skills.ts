@@ -0,0 +1,61 @@
+/**
+ * Skills Store
+ *
+ * Skills disponibles dans le chat : ceux livrés avec l'application et ceux
+ * du projet (.bavini/skills/<nom>/SKILL.md), recalculés quand les fichiers changent.
+ *
+ * @module stores/skills
+ */
+
+import { computed } from 'nanostores';
+import { createSkillRegistry, isSkillFile, MAX_PROJECT_SKILLS, type SkillFile, type SkillSource } from '~/lib/skills';
+import { workbenchStore } from './workbench';
+
+/*
+ * =============================================================================
+ * TYPES
+ * =============================================================================
+ */
+
+/**
+ * Skill proposé dans le chat avec `/nom-du-skill`
+ */
+export interface SkillSuggestion {
+  name: string;
+  description: string;
+  source: SkillSource;
+}
+
+/*
+ * =============================================================================
+ * STORES
+ * =============================================================================
+ */
+
+/**
+ * SKILL.md du projet, envoyés à l'API avec chaque message
+ */
+export const projectSkillFilesStore = computed(workbenchStore.files, (files) => {
+  const skillFiles: SkillFile[] = [];
+
+  for (const [path, dirent] of Object.entries(files)) {
+    if (dirent?.type === 'file' && !dirent.isBinary && isSkillFile(path)) {
+      skillFiles.push({ path, content: dirent.content });
+    }
+  }
+
+  return skillFiles.slice(0, MAX_PROJECT_SKILLS);
+});
+
+/**
+ * Skills que l'utilisateur peut invoquer avec `/nom-du-skill`
+ */
+export const userInvocableSkillsStore = computed(projectSkillFilesStore, (skillFiles): SkillSuggestion[] =>
+  createSkillRegistry(skillFiles)
+    .listUserInvocable()
+    .map((skill) => ({
+      name: skill.metadata.name,
+      description: skill.metadata.description,
+      source: skill.source,
+    })),
+);
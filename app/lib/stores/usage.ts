@@ -0,0 +1,255 @@
+/**
+ * Usage Store
+ *
+ * Consommation de tokens et coût des appels LLM, et budgets configurés.
+ * Les appels sont comptabilisés par `usageTracker` et enregistrés dans PGlite ;
+ * les budgets restent dans localStorage, comme les autres préférences.
+ *
+ * @module stores/usage
+ */
+
+import { atom } from 'nanostores';
+import type { AgentUsageBudget } from '~/lib/agents/api';
+import { chatId } from '~/lib/persistence/useChatHistory';
+import { getPGlite } from '~/lib/persistence/pglite';
+import {
+  getUsageByAgent,
+  getUsageByChat,
+  getUsageByDay,
+  getUsageRecords,
+  insertUsageRecord,
+  type AgentUsageTotals,
+  type ChatUsageTotals,
+  type DailyUsageTotals,
+} from '~/lib/persistence/usage-db';
+import {
+  createEmptyTotals,
+  getDayKey,
+  reportUsage,
+  usageTracker,
+  type BudgetExceeded,
+  type TokenUsage,
+  type UsageBudgets,
+  type UsageTotals,
+} from '~/lib/usage';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('UsageStore');
+
+/*
+ * =============================================================================
+ * CONSTANTS
+ * =============================================================================
+ */
+
+export const STORAGE_KEY_USAGE_BUDGETS = 'bavini:usage:budgets';
+
+const BUDGET_KEYS: Array<keyof UsageBudgets> = ['chatTokens', 'chatCostUsd', 'dailyCostUsd', 'agentTokens'];
+
+/*
+ * =============================================================================
+ * TYPES
+ * =============================================================================
+ */
+
+/**
+ * Cumuls affichés dans le panneau de consommation
+ */
+export interface UsageSummary {
+  byChat: ChatUsageTotals[];
+  byAgent: AgentUsageTotals[];
+  byDay: DailyUsageTotals[];
+}
+
+/*
+ * =============================================================================
+ * STORES
+ * =============================================================================
+ */
+
+export const usageBudgetsStore = atom<UsageBudgets>({});
+
+/**
+ * Consommation de la conversation ouverte, mise à jour à chaque appel
+ */
+export const chatUsageStore = atom<UsageTotals>(createEmptyTotals());
+
+/**
+ * Consommation du jour, toutes conversations confondues
+ */
+export const dailyUsageStore = atom<UsageTotals>(createEmptyTotals());
+
+export const usageSummaryStore = atom<UsageSummary>({ byChat: [], byAgent: [], byDay: [] });
+
+/*
+ * =============================================================================
+ * ACTIONS
+ * =============================================================================
+ */
+
+function updateLiveTotals(): void {
+  chatUsageStore.set(usageTracker.getChatTotals());
+  dailyUsageStore.set(usageTracker.getDailyTotals());
+}
+
+/**
+ * Garde les limites positives, une limite vide ou nulle est retirée
+ */
+export function normalizeBudgets(budgets: Partial<Record<keyof UsageBudgets, unknown>>): UsageBudgets {
+  const normalized: UsageBudgets = {};
+
+  for (const key of BUDGET_KEYS) {
+    const value = budgets[key];
+
+    if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+      normalized[key] = value;
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Configure les budgets appliqués à l'orchestrateur
+ */
+export function setUsageBudgets(budgets: UsageBudgets): void {
+  const normalized = normalizeBudgets(budgets);
+
+  usageBudgetsStore.set(normalized);
+  usageTracker.setBudgets(normalized);
+
+  if (typeof window !== 'undefined') {
+    try {
+      localStorage.setItem(STORAGE_KEY_USAGE_BUDGETS, JSON.stringify(normalized));
+    } catch {
+      // localStorage peut échouer (mode privé, quota dépassé)
+    }
+  }
+}
+
+function toCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Comptabilise la consommation envoyée par /api/chat (ligne `d:`) et /api/agent
+ * (chunk `usage`) à la fin de chaque appel, au nom de l'agent qui l'a fait
+ */
+export function recordStreamUsage(data: string): void {
+  try {
+    const payload = JSON.parse(data) as { usage?: Partial<TokenUsage>; model?: unknown; source?: unknown };
+
+    if (!payload.usage || typeof payload.model !== 'string') {
+      return;
+    }
+
+    reportUsage({
+      source: typeof payload.source === 'string' && payload.source ? payload.source : 'chat',
+      model: payload.model,
+      usage: {
+        inputTokens: toCount(payload.usage.inputTokens),
+        outputTokens: toCount(payload.usage.outputTokens),
+        cacheReadTokens: toCount(payload.usage.cacheReadTokens),
+        cacheWriteTokens: toCount(payload.usage.cacheWriteTokens),
+      },
+    });
+  } catch {
+    logger.warn('Invalid usage line:', data.substring(0, 100));
+  }
+}
+
+/**
+ * Budget atteint avant l'envoi d'un message : conversation, jour, et celui du
+ * chat hors mode multi-agent (les agents sont vérifiés par /api/agent)
+ */
+export function checkSendBudgets(multiAgent: boolean): BudgetExceeded | null {
+  return usageTracker.checkBudgets({ agent: multiAgent ? undefined : 'chat' });
+}
+
+/**
+ * Budget par agent envoyé à /api/agent, avec les tokens déjà consommés par
+ * chaque agent dans la conversation
+ */
+export function getAgentUsageBudget(): AgentUsageBudget | undefined {
+  const { agentTokens } = usageTracker.getBudgets();
+
+  return agentTokens ? { agentTokens, usedTokens: usageTracker.getTokensByAgent() } : undefined;
+}
+
+/**
+ * Recharge les cumuls par conversation, par agent et par jour depuis PGlite
+ */
+export async function refreshUsageSummary(): Promise<UsageSummary> {
+  const db = await getPGlite();
+  const [byChat, byAgent, byDay] = await Promise.all([getUsageByChat(db), getUsageByAgent(db), getUsageByDay(db)]);
+  const summary = { byChat, byAgent, byDay };
+
+  usageSummaryStore.set(summary);
+
+  return summary;
+}
+
+/**
+ * Charge les appels de la conversation et du jour, pour que les budgets
+ * tiennent compte de la consommation avant le rechargement de la page
+ */
+async function hydrateTracker(projectId: string): Promise<void> {
+  try {
+    const db = await getPGlite();
+    usageTracker.load(await getUsageRecords(db, { chatId: projectId, day: getDayKey() }));
+    updateLiveTotals();
+  } catch (error) {
+    logger.warn('Failed to load usage records', error);
+  }
+}
+
+/*
+ * =============================================================================
+ * INITIALIZATION
+ * =============================================================================
+ */
+
+let initialized = false;
+
+/**
+ * Initialise les budgets depuis localStorage et branche le tracker sur PGlite
+ */
+export function initUsageStore(): void {
+  if (initialized || typeof window === 'undefined') {
+    return;
+  }
+
+  initialized = true;
+
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_USAGE_BUDGETS);
+
+    if (saved) {
+      const budgets = normalizeBudgets(JSON.parse(saved));
+      usageBudgetsStore.set(budgets);
+      usageTracker.setBudgets(budgets);
+    }
+  } catch {
+    // localStorage parse error - pas de budget
+  }
+
+  usageTracker.setPersistence(async (record) => insertUsageRecord(await getPGlite(), record));
+  usageTracker.subscribe(updateLiveTotals);
+
+  chatId.subscribe((projectId) => {
+    usageTracker.setChatId(projectId ?? null);
+    updateLiveTotals();
+
+    // PGlite est chargé à l'ouverture d'une conversation, pas avant
+    if (projectId) {
+      hydrateTracker(projectId);
+    }
+  });
+}
+
+// Auto-init sur le client (non-blocking)
+if (typeof window !== 'undefined' && typeof requestIdleCallback !== 'undefined') {
+  requestIdleCallback(() => initUsageStore(), { timeout: 100 });
+} else if (typeof window !== 'undefined') {
+  setTimeout(initUsageStore, 0);
+}
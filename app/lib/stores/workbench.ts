@@ -7,10 +7,15 @@
  */
 
 import { atom, map, type MapStore, type ReadableAtom, type WritableAtom } from 'nanostores';
-import type { EditorDocument, ScrollPosition } from '~/components/editor/codemirror/types';
+import type { EditorDocument, EditorReveal, ScrollPosition } from '~/components/editor/codemirror/types';
+import { createSourceZip, createZip, readProjectZip, type ZipImport } from '~/lib/archive';
+import type { HMRError } from '~/lib/runtime/dev-server/types';
 import type { ActionCallbackData, ArtifactCallbackData } from '~/lib/runtime/message-parser';
 import { runtimeTypeStore, type RuntimeType } from '~/lib/runtime';
+import type { ChunkInfo } from '~/lib/runtime/types';
 import type { ITerminal } from '~/types/terminal';
+import type { ActionFailure } from '~/utils/diff';
+import { WORK_DIR } from '~/utils/constants';
 import { createScopedLogger } from '~/utils/logger';
 import { EditorStore } from './editor';
 import { PreviewsStore, type BrowserPreviewInfo, clearPreviewError } from './previews';
@@ -44,6 +49,9 @@ export class WorkbenchStore {
   // Track pending artifact creations (to allow addAction/runAction to wait)
   #pendingArtifacts = new Map<string, Promise<void>>();
 
+  // Failed actions already sent back to the model (messageId:actionId)
+  #reportedFailures = new Set<string>();
+
   // Debounce timer for build triggers (to wait for all files to be written)
   #buildDebounceTimer: ReturnType<typeof setTimeout> | null = null;
   #buildDebounceMs = 500; // OPTIMIZED: Reduced from 1000ms to 500ms for faster feedback
@@ -72,6 +80,8 @@ export class WorkbenchStore {
   showWorkbench: WritableAtom<boolean> = import.meta.hot?.data.showWorkbench ?? atom(false);
   currentView: WritableAtom<WorkbenchViewType> = import.meta.hot?.data.currentView ?? atom('code');
   unsavedFiles: WritableAtom<Set<string>> = import.meta.hot?.data.unsavedFiles ?? atom(new Set<string>());
+  editorReveal: WritableAtom<EditorReveal | undefined> = atom<EditorReveal | undefined>(undefined);
+  bundleAnalysis: WritableAtom<ChunkInfo[] | undefined> = atom<ChunkInfo[] | undefined>(undefined);
   modifiedFiles = new Set<string>();
   artifactIdList: string[] = [];
 
@@ -159,6 +169,9 @@ export class WorkbenchStore {
     this.#previewsStore = new PreviewsStore(Promise.resolve(null as any));
     this.#previewsStore.setMode('browser');
 
+    const previewsStore = this.#previewsStore;
+    this.#cleanupFunctions.push(() => previewsStore.dispose());
+
     // Connect browser files store to build service
     const filesChangeCleanup = browserFilesStore.onFilesChange(async (files) => {
       logger.debug(`Files changed, ${files.size} files total`);
@@ -444,30 +457,40 @@ export class WorkbenchStore {
       return;
     }
 
+    this.setDocumentContent(filePath, newContent);
+  }
+
+  /**
+   * Contenu d'un document de l'éditeur, modifications non enregistrées comprises
+   */
+  getDocumentContent(filePath: string): string | undefined {
+    return this.#editorStore?.documents.get()[filePath]?.value;
+  }
+
+  /**
+   * Modifier un document de l'éditeur, ouvert ou non (renommage dans plusieurs fichiers)
+   */
+  setDocumentContent(filePath: string, newContent: string) {
     const originalContent = browserFilesStore.getFile(filePath)?.content;
     const unsavedChanges = originalContent !== undefined && originalContent !== newContent;
 
     this.#editorStore?.updateFile(filePath, newContent);
 
-    const currentDocument = this.currentDocument.get();
-
-    if (currentDocument) {
-      const previousUnsavedFiles = this.unsavedFiles.get();
-
-      if (unsavedChanges && previousUnsavedFiles.has(currentDocument.filePath)) {
-        return;
-      }
+    const previousUnsavedFiles = this.unsavedFiles.get();
 
-      const newUnsavedFiles = new Set(previousUnsavedFiles);
+    if (unsavedChanges && previousUnsavedFiles.has(filePath)) {
+      return;
+    }
 
-      if (unsavedChanges) {
-        newUnsavedFiles.add(currentDocument.filePath);
-      } else {
-        newUnsavedFiles.delete(currentDocument.filePath);
-      }
+    const newUnsavedFiles = new Set(previousUnsavedFiles);
 
-      this.unsavedFiles.set(newUnsavedFiles);
+    if (unsavedChanges) {
+      newUnsavedFiles.add(filePath);
+    } else {
+      newUnsavedFiles.delete(filePath);
     }
+
+    this.unsavedFiles.set(newUnsavedFiles);
   }
 
   setCurrentDocumentScrollPosition(position: ScrollPosition) {
@@ -492,6 +515,88 @@ export class WorkbenchStore {
     }
   }
 
+  /**
+   * Ouvrir un fichier avec une position sélectionnée (résultat de recherche)
+   */
+  revealLocation(reveal: EditorReveal) {
+    this.setSelectedFile(reveal.filePath);
+    this.editorReveal.set({ ...reveal });
+  }
+
+  /**
+   * Enregistrer les fichiers modifiés par un remplacement, un seul build ensuite
+   */
+  async replaceInFiles(contents: Record<string, string>) {
+    const newUnsavedFiles = new Set(this.unsavedFiles.get());
+
+    for (const [filePath, content] of Object.entries(contents)) {
+      await browserFilesStore.saveFile(filePath, content);
+      this.#editorStore?.updateFile(filePath, content);
+      newUnsavedFiles.delete(filePath);
+    }
+
+    this.unsavedFiles.set(newUnsavedFiles);
+    this.#triggerBrowserBuild();
+  }
+
+  /**
+   * Archive des sources du projet, sans les fichiers ignorés par ses .gitignore
+   */
+  getSourceZip(): Uint8Array {
+    const files = new Map<string, string>();
+
+    for (const [path, content] of browserFilesStore.getAllFiles()) {
+      files.set(path.replace(/^\//, ''), content);
+    }
+
+    return createSourceZip(files);
+  }
+
+  /**
+   * Archive d'un build de production du projet, le preview n'est pas modifié
+   */
+  async getProductionBuildZip(): Promise<Uint8Array> {
+    const files = browserFilesStore.getAllFiles();
+    const entryPoint = detectEntryPoint(files);
+
+    if (!entryPoint) {
+      throw new Error('No entry point found');
+    }
+
+    const service = await getBrowserBuildService();
+
+    return createZip(await service.buildProduction(files, entryPoint));
+  }
+
+  /**
+   * Écrire dans le projet les fichiers texte d'une archive, un seul build ensuite
+   */
+  async importZip(data: Uint8Array): Promise<ZipImport> {
+    const result = readProjectZip(data);
+
+    await browserFilesStore.writeFiles(result.files);
+    this.#triggerBrowserBuild();
+
+    return result;
+  }
+
+  /**
+   * Erreur d'exécution du preview, pile d'appels ramenée aux fichiers du projet
+   */
+  async remapPreviewError(message: string, stack?: string): Promise<HMRError> {
+    const service = await getBrowserBuildService();
+
+    return service.remapRuntimeError(message, stack);
+  }
+
+  /**
+   * Ouvrir dans l'éditeur un emplacement du projet (chemin depuis la racine du projet, colonne 1-based)
+   */
+  openProjectLocation(file: string, line: number, column: number) {
+    this.currentView.set('code');
+    this.revealLocation({ filePath: `${WORK_DIR}${file}`, line, column: Math.max(column - 1, 0) });
+  }
+
   async saveFile(filePath: string) {
     const documents = this.#editorStore?.documents.get();
     const document = documents?.[filePath];
@@ -549,6 +654,26 @@ export class WorkbenchStore {
     browserFilesStore.resetFileModifications();
   }
 
+  /**
+   * Patchs échoués depuis le dernier message, renvoyés au modèle pour qu'il les corrige
+   */
+  getActionFailures(): ActionFailure[] {
+    const failures: ActionFailure[] = [];
+
+    for (const [messageId, artifact] of Object.entries(this.artifacts.get())) {
+      for (const [actionId, action] of Object.entries(artifact.runner.actions.get())) {
+        const key = `${messageId}:${actionId}`;
+
+        if (action.type === 'patch' && action.status === 'failed' && !this.#reportedFailures.has(key)) {
+          this.#reportedFailures.add(key);
+          failures.push({ type: action.type, filePath: action.filePath, error: action.error ?? '' });
+        }
+      }
+    }
+
+    return failures;
+  }
+
   getOriginalContent(filePath: string): string | undefined {
     return browserFilesStore.getOriginalContent(filePath);
   }
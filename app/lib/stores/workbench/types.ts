@@ -14,7 +14,9 @@ import type { MapStore } from 'nanostores';
  * Type for the browser action runner instance.
  */
 export type ActionRunnerType = {
-  actions: MapStore<Record<string, { status: string; abort: () => void }>>;
+  actions: MapStore<
+    Record<string, { type: string; status: string; abort: () => void; filePath?: string; error?: string }>
+  >;
   addAction: (data: unknown) => void;
   runAction: (data: unknown) => void;
   setBuildTrigger?: (trigger: () => void) => void;
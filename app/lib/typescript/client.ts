@@ -0,0 +1,302 @@
+/**
+ * =============================================================================
+ * BAVINI TypeScript - Client
+ * =============================================================================
+ * Main thread side of the TypeScript worker: keeps the worker in sync with
+ * the workbench files and the declaration files of the installed packages,
+ * and forwards the editor requests.
+ * =============================================================================
+ */
+
+import { getSharedMountManager } from '~/lib/runtime/filesystem';
+import { browserFilesStore, type FileMap } from '~/lib/stores/browser-files';
+import { WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import type {
+  TypeScriptWorkerRequest,
+  TypeScriptWorkerResponse,
+  TypeScriptWorkerResult,
+} from '~/workers/typescript.worker';
+import type { TsCompletions, TsDiagnostic, TsHover, TsLocation, TsRenameResult } from './language-service';
+
+const logger = createScopedLogger('TypeScriptClient');
+
+/**
+ * Files the language service needs: sources, declarations and JSON (tsconfig, imports)
+ */
+const SYNCED_FILES = /\.(tsx?|jsx?|mts|cts|mjs|cjs|json)$/;
+
+const DECLARATION_FILES = /\.d\.[mc]?ts$/;
+
+const PACKAGE_JSON = `${WORK_DIR}/package.json`;
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Wait after a package.json change before reading node_modules, the install runs meanwhile
+ */
+const TYPES_RELOAD_DELAY_MS = 3000;
+
+/**
+ * Limits of the declaration files read from node_modules
+ */
+const MAX_TYPE_FILES = 5000;
+const MAX_TYPE_DEPTH = 8;
+
+type RequestType = TypeScriptWorkerRequest['type'];
+type RequestPayload<T extends RequestType> = Extract<TypeScriptWorkerRequest, { type: T }>['payload'];
+
+let requestId = 0;
+
+export class TypeScriptClient {
+  #worker: Worker | null = null;
+  #pending = new Map<string, { resolve: (value: TypeScriptWorkerResult) => void; reject: (error: Error) => void }>();
+
+  /** Content last sent to the worker, by file */
+  #synced = new Map<string, string>();
+
+  /** Files of the store at the last sync, to send only what changed */
+  #storeFiles: FileMap = {};
+  #unsubscribe: (() => void) | null = null;
+  #typesTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Language features apply to TypeScript files of the project
+   */
+  isSupported(filePath: string) {
+    return /\.(tsx?|mts|cts)$/.test(filePath) && filePath.startsWith(`${WORK_DIR}/`);
+  }
+
+  /**
+   * Send the content of the editor, saved or not
+   */
+  setDocument(filePath: string, content: string) {
+    this.#start();
+
+    if (this.#synced.get(filePath) !== content) {
+      this.#synced.set(filePath, content);
+      this.#request('updateFiles', { files: { [filePath]: content } }).catch((error) => {
+        logger.warn('Failed to update', filePath, error);
+      });
+    }
+  }
+
+  async getDiagnostics(filePath: string) {
+    return (await this.#request('diagnostics', { filePath })) as TsDiagnostic[];
+  }
+
+  async getHover(filePath: string, position: number) {
+    return (await this.#request('hover', { filePath, position })) as TsHover | null;
+  }
+
+  async getDefinition(filePath: string, position: number) {
+    return (await this.#request('definition', { filePath, position })) as TsLocation[];
+  }
+
+  async getCompletions(filePath: string, position: number) {
+    return (await this.#request('completions', { filePath, position })) as TsCompletions | null;
+  }
+
+  async getRenameEdits(filePath: string, position: number, newName: string) {
+    return (await this.#request('rename', { filePath, position, newName })) as TsRenameResult;
+  }
+
+  dispose() {
+    this.#unsubscribe?.();
+    this.#unsubscribe = null;
+
+    if (this.#typesTimer) {
+      clearTimeout(this.#typesTimer);
+    }
+
+    this.#worker?.terminate();
+    this.#worker = null;
+    this.#synced.clear();
+    this.#storeFiles = {};
+
+    for (const { reject } of this.#pending.values()) {
+      reject(new Error('TypeScript worker disposed'));
+    }
+
+    this.#pending.clear();
+  }
+
+  /**
+   * Create the worker and start following the files, on first use
+   */
+  #start() {
+    if (this.#worker) {
+      return;
+    }
+
+    this.#worker = new Worker(new URL('../../workers/typescript.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+
+    this.#worker.onmessage = (event: MessageEvent<TypeScriptWorkerResponse | { type: 'ready' }>) => {
+      const data = event.data;
+
+      if (!('id' in data)) {
+        return;
+      }
+
+      const pending = this.#pending.get(data.id);
+
+      if (pending) {
+        this.#pending.delete(data.id);
+
+        if (data.type === 'success') {
+          pending.resolve(data.result);
+        } else {
+          pending.reject(new Error(data.error || 'Unknown error'));
+        }
+      }
+    };
+
+    this.#worker.onerror = (event) => {
+      logger.error('TypeScript worker error:', event.message);
+    };
+
+    this.#unsubscribe = browserFilesStore.files.subscribe((files) => this.#syncFiles(files));
+    this.#loadPackageTypes();
+  }
+
+  #request<T extends RequestType>(type: T, payload: RequestPayload<T>): Promise<TypeScriptWorkerResult> {
+    this.#start();
+
+    return new Promise((resolve, reject) => {
+      const id = `ts-${++requestId}`;
+
+      this.#pending.set(id, { resolve, reject });
+      this.#worker!.postMessage({ id, type, payload } as TypeScriptWorkerRequest);
+
+      setTimeout(() => {
+        if (this.#pending.delete(id)) {
+          reject(new Error('Worker request timeout'));
+        }
+      }, REQUEST_TIMEOUT_MS);
+    });
+  }
+
+  /**
+   * Send the files of the store that changed since the last sync
+   */
+  #syncFiles(files: FileMap) {
+    const update: Record<string, string | null> = {};
+
+    for (const [filePath, dirent] of Object.entries(files)) {
+      if (dirent?.type !== 'file' || dirent.isBinary || !SYNCED_FILES.test(filePath)) {
+        continue;
+      }
+
+      if (this.#storeFiles[filePath] !== dirent) {
+        update[filePath] = dirent.content;
+        this.#synced.set(filePath, dirent.content);
+      }
+    }
+
+    for (const filePath of Object.keys(this.#storeFiles)) {
+      if (files[filePath]?.type !== 'file' && SYNCED_FILES.test(filePath)) {
+        update[filePath] = null;
+        this.#synced.delete(filePath);
+      }
+    }
+
+    const packageChanged = this.#storeFiles[PACKAGE_JSON] !== files[PACKAGE_JSON];
+
+    this.#storeFiles = files;
+
+    if (Object.keys(update).length > 0) {
+      this.#request('updateFiles', { files: update }).catch((error) => {
+        logger.warn('Failed to sync files', error);
+      });
+    }
+
+    if (packageChanged) {
+      if (this.#typesTimer) {
+        clearTimeout(this.#typesTimer);
+      }
+
+      this.#typesTimer = setTimeout(() => this.#loadPackageTypes(), TYPES_RELOAD_DELAY_MS);
+    }
+  }
+
+  async #loadPackageTypes() {
+    try {
+      const files = await collectPackageTypes();
+
+      logger.debug(`Loaded ${Object.keys(files).length} declaration files from node_modules`);
+
+      await this.#request('setPackageTypes', { files });
+    } catch (error) {
+      logger.warn('Failed to load package types', error);
+    }
+  }
+}
+
+/**
+ * Declaration files and package.json of the installed packages, mapped into
+ * the project directory where the language service resolves them
+ */
+async function collectPackageTypes(): Promise<Record<string, string>> {
+  const fs = getSharedMountManager();
+  const files: Record<string, string> = {};
+
+  if (!(await fs.exists('/node_modules'))) {
+    return files;
+  }
+
+  const walk = async (dir: string, depth: number, isPackageRoot: boolean) => {
+    const entries = await fs.readdirWithTypes(dir).catch(() => []);
+
+    for (const entry of entries) {
+      if (Object.keys(files).length >= MAX_TYPE_FILES) {
+        return;
+      }
+
+      const path = `${dir}/${entry.name}`;
+
+      if (entry.isDirectory) {
+        // Nested node_modules and package manager folders (.bin, .cache) hold no types of the project
+        if (entry.name !== 'node_modules' && !entry.name.startsWith('.') && depth < MAX_TYPE_DEPTH) {
+          await walk(path, depth + 1, false);
+        }
+      } else if (DECLARATION_FILES.test(entry.name) || (isPackageRoot && entry.name === 'package.json')) {
+        const content = await fs.readTextFile(path).catch(() => null);
+
+        if (content !== null) {
+          files[`${WORK_DIR}${path}`] = content;
+        }
+      }
+    }
+  };
+
+  for (const entry of await fs.readdirWithTypes('/node_modules')) {
+    if (!entry.isDirectory || entry.name.startsWith('.')) {
+      continue;
+    }
+
+    if (entry.name.startsWith('@')) {
+      for (const scoped of await fs.readdirWithTypes(`/node_modules/${entry.name}`).catch(() => [])) {
+        if (scoped.isDirectory) {
+          await walk(`/node_modules/${entry.name}/${scoped.name}`, 0, true);
+        }
+      }
+    } else {
+      await walk(`/node_modules/${entry.name}`, 0, true);
+    }
+  }
+
+  return files;
+}
+
+let client: TypeScriptClient | null = null;
+
+/**
+ * Shared client of the editor
+ */
+export function getTypeScriptClient(): TypeScriptClient {
+  client ??= new TypeScriptClient();
+
+  return client;
+}
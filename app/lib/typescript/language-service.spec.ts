@@ -0,0 +1,106 @@
+/**
+ * @vitest-environment node
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { createRequire } from 'node:module';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { TypeScriptLanguageService } from './language-service';
+
+const libDir = dirname(createRequire(import.meta.url).resolve('typescript/lib/lib.d.ts'));
+const libs = Object.fromEntries(
+  readdirSync(libDir)
+    .filter((name) => /^lib\..*\.d\.ts$/.test(name))
+    .map((name) => [name, readFileSync(join(libDir, name), 'utf-8')]),
+);
+
+const MATH = `export function add(a: number, b: number): number {
+  return a + b;
+}
+`;
+
+const MAIN = `import { add } from './math';
+
+const total: string = add(1, 2);
+`;
+
+describe('TypeScriptLanguageService', () => {
+  let service: TypeScriptLanguageService;
+
+  beforeEach(() => {
+    service = new TypeScriptLanguageService(libs);
+    service.updateFiles({ '/home/project/src/math.ts': MATH, '/home/project/src/main.ts': MAIN });
+  });
+
+  it('should report type errors across files', () => {
+    const diagnostics = service.getDiagnostics('/home/project/src/main.ts');
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      from: MAIN.indexOf('total'),
+      severity: 'error',
+      message: "Type 'number' is not assignable to type 'string'.",
+    });
+
+    service.updateFiles({ '/home/project/src/main.ts': MAIN.replace('string', 'number') });
+
+    expect(service.getDiagnostics('/home/project/src/main.ts')).toEqual([]);
+  });
+
+  it('should give hover types and definitions in other files', () => {
+    const position = MAIN.indexOf('add(1');
+
+    expect(service.getHover('/home/project/src/main.ts', position)?.signature).toBe(
+      '(alias) add(a: number, b: number): number\nimport add',
+    );
+    expect(service.getDefinition('/home/project/src/main.ts', position)).toEqual([
+      { filePath: '/home/project/src/math.ts', from: MATH.indexOf('add'), to: MATH.indexOf('add') + 3 },
+    ]);
+  });
+
+  it('should complete members with their kind', () => {
+    const content = 'const text = "a";\ntext.';
+
+    service.updateFiles({ '/home/project/src/text.ts': content });
+
+    const completions = service.getCompletions('/home/project/src/text.ts', content.length);
+
+    expect(completions?.options).toContainEqual(expect.objectContaining({ label: 'toUpperCase', type: 'method' }));
+  });
+
+  it('should rename a symbol in every file', () => {
+    const result = service.getRenameEdits('/home/project/src/math.ts', MATH.indexOf('add'), 'sum');
+
+    expect(result).toEqual({
+      edits: {
+        '/home/project/src/math.ts': [{ from: MATH.indexOf('add'), to: MATH.indexOf('add') + 3, insert: 'sum' }],
+        '/home/project/src/main.ts': [
+          { from: MAIN.indexOf('add'), to: MAIN.indexOf('add') + 3, insert: 'sum' },
+          { from: MAIN.indexOf('add(1'), to: MAIN.indexOf('add(1') + 3, insert: 'sum' },
+        ],
+      },
+    });
+    expect(service.getRenameEdits('/home/project/src/main.ts', MAIN.indexOf('string'), 'text')).toHaveProperty('error');
+  });
+
+  it('should resolve the types of installed packages and the project tsconfig', () => {
+    service.setPackageTypes({
+      '/home/project/node_modules/greeter/package.json': JSON.stringify({ name: 'greeter', types: 'index.d.ts' }),
+      '/home/project/node_modules/greeter/index.d.ts': 'export declare function greet(name: string): string;',
+    });
+    service.updateFiles({
+      '/home/project/tsconfig.json': JSON.stringify({ compilerOptions: { strict: false, noImplicitAny: false } }),
+      '/home/project/src/app.ts':
+        "import { greet } from 'greeter';\nexport const a = greet(42);\nexport function f(x) {}",
+    });
+
+    expect(service.getDiagnostics('/home/project/src/app.ts').map(({ message }) => message)).toEqual([
+      "Argument of type 'number' is not assignable to parameter of type 'string'.",
+    ]);
+
+    service.setPackageTypes({});
+
+    expect(service.getDiagnostics('/home/project/src/app.ts')[0].message).toMatch(/Cannot find module 'greeter'/);
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * =============================================================================
+ * BAVINI TypeScript - Language Service
+ * =============================================================================
+ * TypeScript language service over an in-memory file map: the project files
+ * of the workbench, the declaration files of the installed node_modules and
+ * the default libs. Runs in the TypeScript worker, answers with CodeMirror
+ * offsets (UTF-16, like TypeScript).
+ * =============================================================================
+ */
+
+import ts from 'typescript';
+import { WORK_DIR } from '~/utils/constants';
+
+/**
+ * Directory of the default lib files (lib.dom.d.ts, lib.es2020.d.ts, ...)
+ */
+const LIB_DIR = '/typescript/lib';
+
+const NODE_MODULES = `${WORK_DIR}/node_modules/`;
+
+/**
+ * Options used when the project has no tsconfig, close to the Vite templates
+ */
+const DEFAULT_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  lib: ['lib.es2020.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  jsx: ts.JsxEmit.ReactJSX,
+  strict: true,
+  allowJs: true,
+  esModuleInterop: true,
+  resolveJsonModule: true,
+  allowImportingTsExtensions: true,
+};
+
+/**
+ * Options forced whatever the tsconfig says
+ */
+const FORCED_OPTIONS: ts.CompilerOptions = {
+  noEmit: true,
+  skipLibCheck: true,
+  allowNonTsExtensions: true,
+};
+
+/**
+ * Project tsconfig files, in order of preference (Vite splits the app one)
+ */
+const TSCONFIG_FILES = [`${WORK_DIR}/tsconfig.app.json`, `${WORK_DIR}/tsconfig.json`];
+
+const SCRIPT_EXTENSIONS = /\.(tsx?|jsx?|mts|cts|mjs|cjs)$/;
+
+export interface TsDiagnostic {
+  from: number;
+  to: number;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+export interface TsHover {
+  from: number;
+  to: number;
+  signature: string;
+  documentation: string;
+}
+
+export interface TsLocation {
+  filePath: string;
+  from: number;
+  to: number;
+}
+
+export interface TsCompletions {
+  /** Start of the text the completions replace, the word before the cursor when undefined */
+  from?: number;
+  options: Array<{ label: string; type: string; sortText: string; insertText?: string }>;
+}
+
+export interface TsTextEdit {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+export type TsRenameResult = { error: string } | { edits: Record<string, TsTextEdit[]> };
+
+interface ScriptFile {
+  content: string;
+  version: number;
+}
+
+export class TypeScriptLanguageService {
+  #files = new Map<string, ScriptFile>();
+  #libs: Map<string, string>;
+  #projectVersion = 0;
+  #options: ts.CompilerOptions = { ...DEFAULT_OPTIONS, ...FORCED_OPTIONS };
+  #optionsVersion = -1;
+  #service: ts.LanguageService;
+
+  /**
+   * @param libs - Content of the default lib files, by file name (e.g. 'lib.es5.d.ts')
+   */
+  constructor(libs: Record<string, string>) {
+    this.#libs = new Map(Object.entries(libs).map(([name, content]) => [`${LIB_DIR}/${name}`, content]));
+    this.#service = ts.createLanguageService(this.#createHost(), ts.createDocumentRegistry());
+  }
+
+  /**
+   * Add, update or remove (null content) files
+   */
+  updateFiles(files: Record<string, string | null>) {
+    let changed = false;
+
+    for (const [filePath, content] of Object.entries(files)) {
+      const current = this.#files.get(filePath);
+
+      if (content === null) {
+        changed = this.#files.delete(filePath) || changed;
+      } else if (current?.content !== content) {
+        this.#files.set(filePath, { content, version: (current?.version ?? 0) + 1 });
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.#projectVersion++;
+    }
+  }
+
+  /**
+   * Replace the declaration files of node_modules
+   */
+  setPackageTypes(files: Record<string, string>) {
+    const update: Record<string, string | null> = {};
+
+    for (const filePath of this.#files.keys()) {
+      if (filePath.startsWith(NODE_MODULES) && !(filePath in files)) {
+        update[filePath] = null;
+      }
+    }
+
+    this.updateFiles({ ...update, ...files });
+  }
+
+  getDiagnostics(filePath: string): TsDiagnostic[] {
+    if (!this.#files.has(filePath)) {
+      return [];
+    }
+
+    const diagnostics = [
+      ...this.#service.getSyntacticDiagnostics(filePath),
+      ...this.#service.getSemanticDiagnostics(filePath),
+    ];
+
+    return diagnostics.map((diagnostic) => {
+      const from = diagnostic.start ?? 0;
+
+      return {
+        from,
+        to: from + (diagnostic.length ?? 0),
+        severity: toSeverity(diagnostic.category),
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      };
+    });
+  }
+
+  getHover(filePath: string, position: number): TsHover | null {
+    const info = this.#files.has(filePath) ? this.#service.getQuickInfoAtPosition(filePath, position) : undefined;
+
+    if (!info) {
+      return null;
+    }
+
+    return {
+      from: info.textSpan.start,
+      to: info.textSpan.start + info.textSpan.length,
+      signature: ts.displayPartsToString(info.displayParts),
+      documentation: ts.displayPartsToString(info.documentation),
+    };
+  }
+
+  /**
+   * Definitions of the symbol at a position, in the project files only (the
+   * editor can not open node_modules or lib files)
+   */
+  getDefinition(filePath: string, position: number): TsLocation[] {
+    const definitions = this.#files.has(filePath) ? this.#service.getDefinitionAtPosition(filePath, position) : [];
+
+    return (definitions ?? [])
+      .filter((definition) => this.#isProjectFile(definition.fileName))
+      .map((definition) => ({
+        filePath: definition.fileName,
+        from: definition.textSpan.start,
+        to: definition.textSpan.start + definition.textSpan.length,
+      }));
+  }
+
+  getCompletions(filePath: string, position: number): TsCompletions | null {
+    const completions = this.#files.has(filePath)
+      ? this.#service.getCompletionsAtPosition(filePath, position, {
+          includeCompletionsWithInsertText: true,
+          includeCompletionsForModuleExports: false,
+        })
+      : undefined;
+
+    if (!completions) {
+      return null;
+    }
+
+    return {
+      from: completions.optionalReplacementSpan?.start,
+      options: completions.entries.map((entry) => ({
+        label: entry.name,
+        type: toCompletionType(entry.kind),
+        sortText: entry.sortText,
+        insertText: entry.insertText,
+      })),
+    };
+  }
+
+  /**
+   * Edits renaming the symbol at a position in every project file using it
+   */
+  getRenameEdits(filePath: string, position: number, newName: string): TsRenameResult {
+    if (!this.#files.has(filePath)) {
+      return { error: `${filePath} is not a TypeScript file of the project` };
+    }
+
+    const info = this.#service.getRenameInfo(filePath, position, { allowRenameOfImportPath: false });
+
+    if (!info.canRename) {
+      return { error: info.localizedErrorMessage };
+    }
+
+    const locations = this.#service.findRenameLocations(filePath, position, false, false, {
+      providePrefixAndSuffixTextForRename: true,
+    });
+
+    const edits: Record<string, TsTextEdit[]> = {};
+
+    for (const location of locations ?? []) {
+      if (!this.#isProjectFile(location.fileName)) {
+        return { error: `${info.fullDisplayName} is declared outside of the project and can not be renamed` };
+      }
+
+      (edits[location.fileName] ??= []).push({
+        from: location.textSpan.start,
+        to: location.textSpan.start + location.textSpan.length,
+        insert: `${location.prefixText ?? ''}${newName}${location.suffixText ?? ''}`,
+      });
+    }
+
+    return { edits };
+  }
+
+  #isProjectFile(filePath: string) {
+    return this.#files.has(filePath) && !filePath.startsWith(NODE_MODULES);
+  }
+
+  /**
+   * Compiler options from the project tsconfig, recomputed when files change
+   */
+  #getOptions(): ts.CompilerOptions {
+    if (this.#optionsVersion === this.#projectVersion) {
+      return this.#options;
+    }
+
+    this.#optionsVersion = this.#projectVersion;
+    this.#options = { ...DEFAULT_OPTIONS, ...FORCED_OPTIONS };
+
+    for (const configPath of TSCONFIG_FILES) {
+      const config = this.#files.get(configPath);
+
+      if (!config) {
+        continue;
+      }
+
+      const { config: json } = ts.parseConfigFileTextToJson(configPath, config.content);
+
+      if (json?.compilerOptions) {
+        const { options } = ts.convertCompilerOptionsFromJson(json.compilerOptions, WORK_DIR, configPath);
+
+        this.#options = { ...DEFAULT_OPTIONS, ...options, ...FORCED_OPTIONS };
+        break;
+      }
+    }
+
+    return this.#options;
+  }
+
+  #readFile(filePath: string): string | undefined {
+    return this.#files.get(filePath)?.content ?? this.#libs.get(filePath);
+  }
+
+  #createHost(): ts.LanguageServiceHost {
+    return {
+      getProjectVersion: () => String(this.#projectVersion),
+      getCompilationSettings: () => this.#getOptions(),
+      getScriptFileNames: () =>
+        [...this.#files.keys()].filter((filePath) => SCRIPT_EXTENSIONS.test(filePath) && this.#isProjectFile(filePath)),
+      getScriptVersion: (filePath) => String(this.#files.get(filePath)?.version ?? 0),
+      getScriptSnapshot: (filePath) => {
+        const content = this.#readFile(filePath);
+
+        return content === undefined ? undefined : ts.ScriptSnapshot.fromString(content);
+      },
+      getCurrentDirectory: () => WORK_DIR,
+      getDefaultLibFileName: (options) => `${LIB_DIR}/${ts.getDefaultLibFileName(options)}`,
+      fileExists: (filePath) => this.#files.has(filePath) || this.#libs.has(filePath),
+      readFile: (filePath) => this.#readFile(filePath),
+      directoryExists: (dirPath) => {
+        const prefix = dirPath.endsWith('/') ? dirPath : `${dirPath}/`;
+
+        return [...this.#files.keys()].some((filePath) => filePath.startsWith(prefix));
+      },
+      getDirectories: (dirPath) => {
+        const prefix = dirPath.endsWith('/') ? dirPath : `${dirPath}/`;
+        const directories = new Set<string>();
+
+        for (const filePath of this.#files.keys()) {
+          if (filePath.startsWith(prefix)) {
+            const rest = filePath.substring(prefix.length);
+            const slash = rest.indexOf('/');
+
+            if (slash > 0) {
+              directories.add(rest.substring(0, slash));
+            }
+          }
+        }
+
+        return [...directories];
+      },
+      useCaseSensitiveFileNames: () => true,
+    };
+  }
+}
+
+function toSeverity(category: ts.DiagnosticCategory): TsDiagnostic['severity'] {
+  switch (category) {
+    case ts.DiagnosticCategory.Error:
+      return 'error';
+    case ts.DiagnosticCategory.Warning:
+      return 'warning';
+    default:
+      return 'info';
+  }
+}
+
+/**
+ * Completion kinds to the CodeMirror completion types (icons)
+ */
+function toCompletionType(kind: ts.ScriptElementKind): string {
+  switch (kind) {
+    case ts.ScriptElementKind.functionElement:
+    case ts.ScriptElementKind.localFunctionElement:
+      return 'function';
+    case ts.ScriptElementKind.memberFunctionElement:
+    case ts.ScriptElementKind.constructSignatureElement:
+    case ts.ScriptElementKind.callSignatureElement:
+      return 'method';
+    case ts.ScriptElementKind.classElement:
+    case ts.ScriptElementKind.localClassElement:
+      return 'class';
+    case ts.ScriptElementKind.interfaceElement:
+      return 'interface';
+    case ts.ScriptElementKind.typeElement:
+    case ts.ScriptElementKind.typeParameterElement:
+      return 'type';
+    case ts.ScriptElementKind.enumElement:
+      return 'enum';
+    case ts.ScriptElementKind.moduleElement:
+    case ts.ScriptElementKind.externalModuleName:
+      return 'namespace';
+    case ts.ScriptElementKind.memberVariableElement:
+    case ts.ScriptElementKind.memberGetAccessorElement:
+    case ts.ScriptElementKind.memberSetAccessorElement:
+      return 'property';
+    case ts.ScriptElementKind.constElement:
+      return 'constant';
+    case ts.ScriptElementKind.keyword:
+      return 'keyword';
+    default:
+      return 'variable';
+  }
+}
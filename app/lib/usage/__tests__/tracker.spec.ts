@@ -0,0 +1,181 @@
+/**
+ * Usage tracker - Unit Tests
+ *
+ * Coût estimé des appels, cumuls par conversation, agent et jour,
+ * et vérification des budgets.
+ *
+ * @module usage/__tests__/tracker.spec
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { estimateCost, getModelPricing } from '../cost';
+import { UsageTracker, getDayKey, getTotalTokens } from '../tracker';
+import type { TokenUsage } from '../types';
+
+const SONNET = 'claude-sonnet-4-5-20250929';
+
+function tokens(inputTokens: number, outputTokens = 0, cacheReadTokens = 0, cacheWriteTokens = 0): TokenUsage {
+  return { inputTokens, outputTokens, cacheReadTokens, cacheWriteTokens };
+}
+
+describe('estimateCost', () => {
+  it('should price input, output and cache tokens', () => {
+    // 1M × $3 + 1M × $15 + 1M × $0.30 + 1M × $3.75
+    expect(estimateCost(SONNET, tokens(1_000_000, 1_000_000, 1_000_000, 1_000_000))).toBeCloseTo(22.05);
+  });
+
+  it('should find models of any provider, with Ollama tags', () => {
+    expect(getModelPricing('gpt-4o-mini')).toMatchObject({ input: 0.15, output: 0.6 });
+    expect(getModelPricing('openai/gpt-4o')).toMatchObject({ input: 2.5 });
+  });
+
+  it('should price cache writes as input without a cache price', () => {
+    expect(estimateCost('gpt-4.1', tokens(0, 0, 0, 1_000_000))).toBeCloseTo(2);
+  });
+
+  it('should be free for local and unknown models', () => {
+    expect(estimateCost('qwen2.5-coder:7b', tokens(1_000_000, 1_000_000))).toBe(0);
+    expect(estimateCost('my-model', tokens(1_000_000, 1_000_000))).toBe(0);
+  });
+});
+
+describe('UsageTracker', () => {
+  let tracker: UsageTracker;
+
+  beforeEach(() => {
+    tracker = new UsageTracker();
+    tracker.setChatId('chat-1');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should record calls in the open chat with their cost', () => {
+    const record = tracker.record({ source: 'coder', model: SONNET, usage: tokens(1000, 500) });
+
+    expect(record).toMatchObject({ chatId: 'chat-1', source: 'coder', inputTokens: 1000, outputTokens: 500 });
+    expect(record.costUsd).toBeCloseTo(0.0105);
+  });
+
+  it('should sum the usage per chat, agent and day', () => {
+    tracker.record({ source: 'orchestrator', model: SONNET, usage: tokens(100, 10) });
+    tracker.record({ source: 'coder', model: SONNET, usage: tokens(200, 20, 50) });
+    tracker.record({ source: 'coder', model: SONNET, usage: tokens(300, 30), chatId: 'chat-2' });
+
+    expect(tracker.getChatTotals()).toMatchObject({
+      inputTokens: 300,
+      outputTokens: 30,
+      cacheReadTokens: 50,
+      calls: 2,
+    });
+    expect(tracker.getAgentTotals('coder').calls).toBe(1);
+    expect(tracker.getAgentTotals('coder', 'chat-2').inputTokens).toBe(300);
+    expect(tracker.getDailyTotals().calls).toBe(3);
+    expect(getTotalTokens(tracker.getChatTotals())).toBe(380);
+  });
+
+  it('should not count loaded records twice', () => {
+    const record = tracker.record({ source: 'coder', model: SONNET, usage: tokens(100) });
+
+    tracker.load([record, { ...record, id: 'usage-previous-session' }]);
+
+    expect(tracker.getChatTotals().calls).toBe(2);
+  });
+
+  it('should persist and notify each record', async () => {
+    const persistence = vi.fn().mockResolvedValue(undefined);
+    const listener = vi.fn();
+
+    tracker.setPersistence(persistence);
+    tracker.subscribe(listener);
+
+    const record = tracker.record({ source: 'chat', model: SONNET, usage: tokens(100) });
+
+    expect(persistence).toHaveBeenCalledWith(record);
+    expect(listener).toHaveBeenCalledWith(record);
+  });
+
+  it('should keep recording when persistence fails', () => {
+    tracker.setPersistence(vi.fn().mockRejectedValue(new Error('quota')));
+
+    expect(() => tracker.record({ source: 'chat', model: SONNET, usage: tokens(100) })).not.toThrow();
+    expect(tracker.getChatTotals().calls).toBe(1);
+  });
+
+  it('should group the days in local time', () => {
+    expect(getDayKey(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+  });
+
+  describe('budgets', () => {
+    it('should allow everything without budgets', () => {
+      tracker.record({ source: 'coder', model: SONNET, usage: tokens(1_000_000, 1_000_000) });
+
+      expect(tracker.checkBudgets({ agent: 'coder' })).toBeNull();
+    });
+
+    it('should stop at the token budget of the chat', () => {
+      tracker.setBudgets({ chatTokens: 1000 });
+      tracker.record({ source: 'coder', model: SONNET, usage: tokens(600, 300) });
+
+      expect(tracker.checkBudgets()).toBeNull();
+
+      tracker.record({ source: 'coder', model: SONNET, usage: tokens(50, 50) });
+
+      expect(tracker.checkBudgets()).toMatchObject({ scope: 'chat-tokens', limit: 1000, used: 1000 });
+      expect(tracker.checkBudgets({ chatId: 'chat-2' })).toBeNull();
+    });
+
+    it('should stop at the cost budget of the chat', () => {
+      tracker.setBudgets({ chatCostUsd: 0.01 });
+      tracker.record({ source: 'coder', model: SONNET, usage: tokens(1000, 500) });
+
+      const exceeded = tracker.checkBudgets();
+
+      expect(exceeded?.scope).toBe('chat-cost');
+      expect(exceeded?.message).toBe(
+        'Budget de la conversation atteint ($0.01 / $0.01). Augmentez la limite dans Paramètres > Consommation pour continuer.',
+      );
+    });
+
+    it('should stop at the daily budget across chats', () => {
+      tracker.setBudgets({ dailyCostUsd: 0.02 });
+      tracker.record({ source: 'coder', model: SONNET, usage: tokens(1000, 500), chatId: 'chat-2' });
+      tracker.record({ source: 'coder', model: SONNET, usage: tokens(1000, 500), chatId: 'chat-3' });
+
+      expect(tracker.checkBudgets()).toMatchObject({ scope: 'daily-cost', limit: 0.02 });
+    });
+
+    it('should not count the usage of previous days in the daily budget', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2026, 9, 18, 12));
+      tracker.setBudgets({ dailyCostUsd: 0.01 });
+      tracker.record({ source: 'coder', model: SONNET, usage: tokens(1000, 1000) });
+
+      vi.setSystemTime(new Date(2026, 9, 19, 12));
+
+      expect(tracker.checkBudgets()).toBeNull();
+    });
+
+    it('should stop one agent at its token budget', () => {
+      tracker.setBudgets({ agentTokens: 500 });
+      tracker.record({ source: 'coder', model: SONNET, usage: tokens(400, 100) });
+
+      expect(tracker.checkBudgets({ agent: 'explore' })).toBeNull();
+      expect(tracker.checkBudgets({ agent: 'coder' })).toMatchObject({
+        scope: 'agent-tokens',
+        agent: 'coder',
+        message: expect.stringContaining("Budget de tokens de l'agent coder atteint"),
+      });
+    });
+
+    it('should sum the tokens of each agent in the chat', () => {
+      tracker.record({ source: 'coder', model: SONNET, usage: tokens(400, 100) });
+      tracker.record({ source: 'coder', model: SONNET, usage: tokens(50, 0, 50) });
+      tracker.record({ source: 'tester', model: SONNET, usage: tokens(10, 10) });
+      tracker.record({ source: 'coder', model: SONNET, usage: tokens(1000), chatId: 'chat-2' });
+
+      expect(tracker.getTokensByAgent()).toEqual({ coder: 600, tester: 20 });
+    });
+  });
+});
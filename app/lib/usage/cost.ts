@@ -0,0 +1,45 @@
+/**
+ * Estimation du coût des appels LLM
+ *
+ * @module usage/cost
+ */
+
+import { LLM_PROVIDERS, findModelInfo, type ModelPricing } from '~/lib/llm';
+import type { TokenUsage } from './types';
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/**
+ * Tarif d'un modèle, quel que soit son fournisseur
+ */
+export function getModelPricing(model: string): ModelPricing | undefined {
+  for (const provider of LLM_PROVIDERS) {
+    const info = findModelInfo({ provider: provider.id, model });
+
+    if (info) {
+      return info.pricing;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Coût d'un appel en dollars, 0 pour les modèles sans tarif (locaux ou inconnus).
+ * Sans tarif de cache, les tokens du cache sont comptés au prix de l'entrée.
+ */
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const pricing = getModelPricing(model);
+
+  if (!pricing) {
+    return 0;
+  }
+
+  const cost =
+    usage.inputTokens * pricing.input +
+    usage.outputTokens * pricing.output +
+    usage.cacheReadTokens * (pricing.cacheRead ?? pricing.input) +
+    usage.cacheWriteTokens * (pricing.cacheWrite ?? pricing.input);
+
+  return cost / TOKENS_PER_PRICE_UNIT;
+}
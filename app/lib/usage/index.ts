@@ -0,0 +1,34 @@
+/**
+ * Usage Module
+ *
+ * Comptabilité des tokens et du coût des appels LLM, et budgets.
+ *
+ * @module usage
+ */
+
+// Cost
+export { estimateCost, getModelPricing } from './cost';
+
+// Tracker
+export {
+  UsageTracker,
+  usageTracker,
+  reportUsage,
+  getDayKey,
+  getTotalTokens,
+  sumUsage,
+  createEmptyTotals,
+  createBudgetExceeded,
+} from './tracker';
+
+// Types
+export type { UsageListener, UsagePersistence } from './tracker';
+export type {
+  TokenUsage,
+  UsageEvent,
+  UsageRecord,
+  UsageTotals,
+  UsageBudgets,
+  BudgetScope,
+  BudgetExceeded,
+} from './types';
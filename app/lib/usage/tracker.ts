@@ -0,0 +1,281 @@
+/**
+ * Usage Tracker
+ *
+ * Comptabilise les tokens et le coût de chaque appel LLM (agents et chat),
+ * cumulés par conversation, par type d'agent et par jour, et vérifie les
+ * budgets configurés. L'instance partagée est alimentée par `LLMClient` et
+ * le flux du chat ; la persistance est branchée par le store `usage`.
+ *
+ * @module usage/tracker
+ */
+
+import { createScopedLogger } from '~/utils/logger';
+import { estimateCost } from './cost';
+import type { BudgetExceeded, TokenUsage, UsageBudgets, UsageEvent, UsageRecord, UsageTotals } from './types';
+
+const logger = createScopedLogger('UsageTracker');
+
+/*
+ * =============================================================================
+ * HELPERS
+ * =============================================================================
+ */
+
+/**
+ * Jour local au format YYYY-MM-DD
+ */
+export function getDayKey(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function createEmptyTotals(): UsageTotals {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0, calls: 0 };
+}
+
+/**
+ * Tokens comptés dans les budgets (entrée, cache compris, et sortie)
+ */
+export function getTotalTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+}
+
+export function sumUsage(records: Iterable<UsageRecord>): UsageTotals {
+  const totals = createEmptyTotals();
+
+  for (const record of records) {
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.cacheReadTokens += record.cacheReadTokens;
+    totals.cacheWriteTokens += record.cacheWriteTokens;
+    totals.costUsd += record.costUsd;
+    totals.calls++;
+  }
+
+  return totals;
+}
+
+function formatCost(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Budget dépassé, avec le message affiché à l'utilisateur
+ */
+export function createBudgetExceeded(
+  scope: BudgetExceeded['scope'],
+  limit: number,
+  used: number,
+  agent?: string,
+): BudgetExceeded {
+  const hint = 'Augmentez la limite dans Paramètres > Consommation pour continuer.';
+  let message: string;
+
+  switch (scope) {
+    case 'chat-tokens':
+      message = `Budget de tokens de la conversation atteint (${used} / ${limit} tokens).`;
+      break;
+    case 'chat-cost':
+      message = `Budget de la conversation atteint (${formatCost(used)} / ${formatCost(limit)}).`;
+      break;
+    case 'daily-cost':
+      message = `Budget journalier atteint (${formatCost(used)} / ${formatCost(limit)}).`;
+      break;
+    case 'agent-tokens':
+      message = `Budget de tokens de l'agent ${agent} atteint pour cette conversation (${used} / ${limit} tokens).`;
+      break;
+  }
+
+  return { scope, limit, used, agent, message: `${message} ${hint}` };
+}
+
+/*
+ * =============================================================================
+ * TRACKER
+ * =============================================================================
+ */
+
+export type UsageListener = (record: UsageRecord) => void;
+
+/**
+ * Enregistre un appel (ex: dans PGlite), les erreurs sont journalisées
+ */
+export type UsagePersistence = (record: UsageRecord) => Promise<void>;
+
+export class UsageTracker {
+  private _records = new Map<string, UsageRecord>();
+  private _budgets: UsageBudgets = {};
+  private _chatId: string | null = null;
+  private _listeners = new Set<UsageListener>();
+  private _persistence: UsagePersistence | null = null;
+  private _sequence = 0;
+
+  /**
+   * Conversation à laquelle les appels sont rattachés par défaut
+   */
+  setChatId(chatId: string | null): void {
+    this._chatId = chatId;
+  }
+
+  getChatId(): string | null {
+    return this._chatId;
+  }
+
+  setBudgets(budgets: UsageBudgets): void {
+    this._budgets = { ...budgets };
+  }
+
+  getBudgets(): UsageBudgets {
+    return { ...this._budgets };
+  }
+
+  setPersistence(persistence: UsagePersistence | null): void {
+    this._persistence = persistence;
+  }
+
+  /**
+   * Comptabilise un appel LLM
+   */
+  record(event: UsageEvent): UsageRecord {
+    const createdAt = new Date();
+    const record: UsageRecord = {
+      ...event.usage,
+      id: `usage-${createdAt.getTime()}-${++this._sequence}`,
+      chatId: event.chatId ?? this._chatId,
+      source: event.source,
+      model: event.model,
+      costUsd: estimateCost(event.model, event.usage),
+      createdAt,
+    };
+
+    this._records.set(record.id, record);
+
+    if (this._persistence) {
+      this._persistence(record).catch((error) => {
+        logger.warn('Failed to persist usage record', error);
+      });
+    }
+
+    for (const listener of this._listeners) {
+      listener(record);
+    }
+
+    return record;
+  }
+
+  /**
+   * Ajoute des appels déjà enregistrés (chargés depuis la base)
+   */
+  load(records: UsageRecord[]): void {
+    for (const record of records) {
+      this._records.set(record.id, record);
+    }
+  }
+
+  subscribe(listener: UsageListener): () => void {
+    this._listeners.add(listener);
+
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+  /*
+   * ---------------------------------------------------------------------------
+   * TOTALS
+   * ---------------------------------------------------------------------------
+   */
+
+  private _filter(predicate: (record: UsageRecord) => boolean): UsageRecord[] {
+    return [...this._records.values()].filter(predicate);
+  }
+
+  getChatTotals(chatId: string | null = this._chatId): UsageTotals {
+    return sumUsage(this._filter((record) => record.chatId === chatId));
+  }
+
+  getAgentTotals(agent: string, chatId: string | null = this._chatId): UsageTotals {
+    return sumUsage(this._filter((record) => record.chatId === chatId && record.source === agent));
+  }
+
+  getDailyTotals(day: string = getDayKey()): UsageTotals {
+    return sumUsage(this._filter((record) => getDayKey(record.createdAt) === day));
+  }
+
+  /**
+   * Tokens consommés par chaque agent dans la conversation
+   */
+  getTokensByAgent(chatId: string | null = this._chatId): Record<string, number> {
+    const tokens: Record<string, number> = {};
+
+    for (const record of this._filter((record) => record.chatId === chatId)) {
+      tokens[record.source] = (tokens[record.source] ?? 0) + getTotalTokens(record);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Premier budget dépassé, ou null si l'exécution peut continuer
+   */
+  checkBudgets(options: { agent?: string; chatId?: string | null } = {}): BudgetExceeded | null {
+    const { chatTokens, chatCostUsd, dailyCostUsd, agentTokens } = this._budgets;
+    const chatId = options.chatId === undefined ? this._chatId : options.chatId;
+
+    if (dailyCostUsd !== undefined) {
+      const used = this.getDailyTotals().costUsd;
+
+      if (used >= dailyCostUsd) {
+        return createBudgetExceeded('daily-cost', dailyCostUsd, used);
+      }
+    }
+
+    if (chatTokens !== undefined || chatCostUsd !== undefined) {
+      const totals = this.getChatTotals(chatId);
+      const tokens = getTotalTokens(totals);
+
+      if (chatTokens !== undefined && tokens >= chatTokens) {
+        return createBudgetExceeded('chat-tokens', chatTokens, tokens);
+      }
+
+      if (chatCostUsd !== undefined && totals.costUsd >= chatCostUsd) {
+        return createBudgetExceeded('chat-cost', chatCostUsd, totals.costUsd);
+      }
+    }
+
+    if (agentTokens !== undefined && options.agent) {
+      const tokens = getTotalTokens(this.getAgentTotals(options.agent, chatId));
+
+      if (tokens >= agentTokens) {
+        return createBudgetExceeded('agent-tokens', agentTokens, tokens, options.agent);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Oublie les appels en mémoire et les budgets (tests)
+   */
+  reset(): void {
+    this._records.clear();
+    this._listeners.clear();
+    this._budgets = {};
+    this._chatId = null;
+    this._persistence = null;
+  }
+}
+
+/**
+ * Instance partagée par les agents, le chat et l'interface
+ */
+export const usageTracker = new UsageTracker();
+
+/**
+ * Comptabilise un appel dans l'instance partagée
+ */
+export function reportUsage(event: UsageEvent): UsageRecord {
+  return usageTracker.record(event);
+}
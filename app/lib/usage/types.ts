@@ -0,0 +1,87 @@
+/**
+ * Types de la comptabilité des tokens
+ *
+ * @module usage/types
+ */
+
+/**
+ * Tokens consommés par un appel LLM
+ */
+export interface TokenUsage {
+  /** Tokens d'entrée hors cache */
+  inputTokens: number;
+  outputTokens: number;
+
+  /** Tokens d'entrée lus depuis le cache de prompt */
+  cacheReadTokens: number;
+
+  /** Tokens d'entrée écrits dans le cache de prompt */
+  cacheWriteTokens: number;
+}
+
+/**
+ * Appel LLM à comptabiliser
+ */
+export interface UsageEvent {
+  /** Type d'agent (`coder`, `orchestrator`...) ou `chat` pour le mode chat */
+  source: string;
+  model: string;
+  usage: TokenUsage;
+
+  /** Par défaut, la conversation ouverte */
+  chatId?: string;
+}
+
+/**
+ * Appel LLM comptabilisé
+ */
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  chatId: string | null;
+  source: string;
+  model: string;
+  costUsd: number;
+  createdAt: Date;
+}
+
+/**
+ * Cumul de plusieurs appels
+ */
+export interface UsageTotals extends TokenUsage {
+  costUsd: number;
+  calls: number;
+}
+
+/**
+ * Limites configurées par l'utilisateur (absentes = pas de limite)
+ */
+export interface UsageBudgets {
+  /** Tokens par conversation */
+  chatTokens?: number;
+
+  /** Coût par conversation, en dollars */
+  chatCostUsd?: number;
+
+  /** Coût par jour, toutes conversations confondues */
+  dailyCostUsd?: number;
+
+  /** Tokens par type d'agent et par conversation */
+  agentTokens?: number;
+}
+
+export type BudgetScope = 'chat-tokens' | 'chat-cost' | 'daily-cost' | 'agent-tokens';
+
+/**
+ * Budget dépassé
+ */
+export interface BudgetExceeded {
+  scope: BudgetScope;
+  limit: number;
+  used: number;
+
+  /** Agent concerné, pour les budgets par agent */
+  agent?: string;
+
+  /** Message affiché à l'utilisateur */
+  message: string;
+}
@@ -36,7 +36,7 @@ vi.mock('~/lib/.server/llm/api-key', () => ({
 }));
 
 vi.mock('~/lib/.server/llm/model', () => ({
-  getAnthropicModel: vi.fn().mockReturnValue({}),
+  getModel: vi.fn().mockReturnValue({}),
 }));
 
 vi.mock('~/lib/.server/llm/prompts', () => ({
@@ -433,5 +433,87 @@ describe('api.agent', () => {
         expect(fullResponse).toContain('"type":"done"');
       });
     });
+
+    describe('usage', () => {
+      it('should report the usage of each call with its agent', async () => {
+        mockStreamText.mockImplementation((options) => {
+          options.onFinish({
+            totalUsage: { inputTokens: 100, outputTokens: 20 },
+            response: { modelId: 'claude-sonnet-4-5-20250929' },
+          });
+
+          return {
+            textStream: (async function* () {
+              yield 'Test response';
+            })(),
+          };
+        });
+
+        const request = createMockRequest({
+          message: 'Test',
+        });
+        const context = createMockContext();
+
+        const response = await action({
+          request: request as unknown as Request,
+          context,
+          params: {},
+        } as ActionFunctionArgs);
+
+        const usageChunks = (await response.text())
+          .trim()
+          .split('\n')
+          .map((line) => JSON.parse(line))
+          .filter((chunk) => chunk.type === 'usage');
+
+        expect(usageChunks).toHaveLength(mockStreamText.mock.calls.length);
+        expect(usageChunks[0]).toEqual({
+          type: 'usage',
+          source: 'tester',
+          usage: { inputTokens: 100, outputTokens: 20, cacheReadTokens: 0, cacheWriteTokens: 0 },
+          model: 'claude-sonnet-4-5-20250929',
+        });
+      });
+
+      it('should not call an agent that used up its token budget', async () => {
+        const request = createMockRequest({
+          message: 'Test',
+          usageBudget: { agentTokens: 1000, usedTokens: { tester: 1200 } },
+        });
+        const context = createMockContext();
+
+        const response = await action({
+          request: request as unknown as Request,
+          context,
+          params: {},
+        } as ActionFunctionArgs);
+
+        const fullResponse = await response.text();
+
+        expect(mockStreamText).not.toHaveBeenCalled();
+        expect(fullResponse).toContain("Budget de tokens de l'agent tester atteint pour cette conversation");
+        expect(fullResponse).not.toContain('"type":"error"');
+        expect(fullResponse).toContain('"type":"done"');
+      });
+
+      it('should reject an invalid usage budget', async () => {
+        const request = createMockRequest({
+          message: 'Test',
+          usageBudget: { agentTokens: -1, usedTokens: {} },
+        });
+        const context = createMockContext();
+
+        const response = await action({
+          request: request as unknown as Request,
+          context,
+          params: {},
+        } as ActionFunctionArgs);
+
+        const { details } = await response.json<{ details: Array<{ path: string }> }>();
+
+        expect(response.status).toBe(400);
+        expect(details[0].path).toBe('usageBudget.agentTokens');
+      });
+    });
   });
 });
@@ -13,19 +13,26 @@
  */
 
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
-import { streamText as _streamText } from 'ai';
-import { getAPIKey } from '~/lib/.server/llm/api-key';
-import { getAnthropicModel } from '~/lib/.server/llm/model';
+import { streamText as _streamText, type LanguageModel } from 'ai';
+import { z } from 'zod';
+import { getMaxTokens } from '~/lib/.server/llm/constants';
+import { getModel, getOpenAICompatibleConfig } from '~/lib/.server/llm/model';
+import { toTokenUsage } from '~/lib/.server/llm/stream-text';
 import { getSystemPrompt } from '~/lib/.server/llm/prompts';
 import { createScopedLogger } from '~/utils/logger';
 import { withRateLimit } from '~/lib/security/rate-limiter';
 import { createStreamingResponse } from '~/lib/api/cache-headers';
+import { llmConfigSchema, resolveModelSelection, type LLMConfig } from '~/lib/llm';
+import { handleRouteError } from '~/lib/errors/error-handler';
+import { AgentRestrictionError } from '~/lib/errors';
+import { createBudgetExceeded, getTotalTokens, type TokenUsage } from '~/lib/usage';
 
 // Import from modular API modules
-import type { ChatMessage, AgentRequestBody } from '~/lib/agents/api';
+import type { ChatMessage, AgentRequestBody, AgentUsageBudget } from '~/lib/agents/api';
 import {
   sendAgentStatus,
   sendText,
+  sendUsage,
   sendError,
   sendDone,
   detectErrorsInOutput,
@@ -68,6 +75,20 @@ const STAGE_TIMEOUTS: Record<string, number> = {
   default: 60_000,        // 1min fallback
 };
 
+/**
+ * Options validated before streaming: the LLM configuration and the token
+ * budget per agent with the tokens already used in the chat
+ */
+const agentOptionsSchema = z.object({
+  llm: llmConfigSchema,
+  usageBudget: z
+    .object({
+      agentTokens: z.number().positive(),
+      usedTokens: z.record(z.number().nonnegative()),
+    })
+    .optional(),
+});
+
 /**
  * Execute an agent function with a stage-specific timeout.
  * Throws an error if the agent takes too long, allowing graceful recovery.
@@ -105,6 +126,58 @@ async function runAgentWithTimeout<T>(
   }
 }
 
+/**
+ * Model and output token budget used by one agent call
+ */
+interface AgentModel {
+  model: LanguageModel;
+  maxOutputTokens: number;
+
+  /** Reports the tokens used by the call under the agent name */
+  onFinish: NonNullable<Parameters<typeof _streamText>[0]['onFinish']>;
+}
+
+/**
+ * Returns the model configured for an agent, with the requested output
+ * tokens capped by what the model supports
+ */
+type AgentModels = (agentName: string, maxOutputTokens: number) => AgentModel;
+
+/**
+ * Throws an AgentRestrictionError for an agent that used up its token budget
+ * in the chat, counting the calls of this request
+ */
+function createAgentModels(
+  env: Env,
+  llm: LLMConfig | undefined,
+  usageBudget: AgentUsageBudget | undefined,
+  onUsage: (agentName: string, usage: TokenUsage, model: string) => void,
+): AgentModels {
+  const usedTokens = new Map(Object.entries(usageBudget?.usedTokens ?? {}));
+
+  return (agentName, maxOutputTokens) => {
+    const used = usedTokens.get(agentName) ?? 0;
+
+    if (usageBudget && used >= usageBudget.agentTokens) {
+      const exceeded = createBudgetExceeded('agent-tokens', usageBudget.agentTokens, used, agentName);
+      throw new AgentRestrictionError(agentName, exceeded.message);
+    }
+
+    const selection = resolveModelSelection(llm, agentName);
+
+    return {
+      model: getModel(env, selection, llm?.openaiCompatible),
+      maxOutputTokens: getMaxTokens(selection, maxOutputTokens),
+      onFinish: (event) => {
+        const usage = toTokenUsage(event.totalUsage);
+
+        usedTokens.set(agentName, (usedTokens.get(agentName) ?? 0) + getTotalTokens(usage));
+        onUsage(agentName, usage, event.response.modelId || selection.model);
+      },
+    };
+  };
+}
+
 /*
  * ============================================================================
  * ACTION
@@ -127,6 +200,40 @@ async function agentAction({ request, context }: ActionFunctionArgs) {
     multiAgent = false,
   } = body;
 
+  // Same validation as api.chat: the configuration decides which endpoint receives the keys
+  const optionsResult = agentOptionsSchema.safeParse({ llm: body.llm, usageBudget: body.usageBudget });
+
+  if (!optionsResult.success) {
+    logger.warn('Invalid agent options:', optionsResult.error.errors);
+
+    return new Response(
+      JSON.stringify({
+        error: 'Validation failed',
+        details: optionsResult.error.errors.map((e) => ({
+          path: e.path.join('.'),
+          message: e.message,
+        })),
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  const llm = optionsResult.data.llm as LLMConfig | undefined;
+  const { usageBudget } = optionsResult.data;
+
+  // Reject a client endpoint before streaming (missing key, host not allowed)
+  if (llm?.openaiCompatible) {
+    try {
+      getOpenAICompatibleConfig(context.cloudflare.env, llm.openaiCompatible);
+    } catch (error) {
+      const [response] = handleRouteError(error, 'Agent', logger);
+      return response;
+    }
+  }
+
   // Build messages array
   let messages: ChatMessage[] = [];
 
@@ -162,6 +269,11 @@ async function agentAction({ request, context }: ActionFunctionArgs) {
 
   const stream = new ReadableStream({
     async start(controller) {
+      // Every agent call sends its tokens to the client, which records them under the agent
+      const models = createAgentModels(context.cloudflare.env, llm, usageBudget, (agentName, usage, model) => {
+        sendUsage(controller, encoder, agentName, usage, model);
+      });
+
       try {
         // Check if already aborted
         if (abortController.signal.aborted) {
@@ -182,11 +294,11 @@ async function agentAction({ request, context }: ActionFunctionArgs) {
 
         // Step 2: Execute based on decision
         if (decision.action === 'delegate' && decision.targetAgent) {
-          await executeDelegation(controller, encoder, decision, messages, files, fileContext, context);
+          await executeDelegation(controller, encoder, decision, messages, files, fileContext, models);
         } else if (decision.action === 'decompose' && decision.subtasks) {
-          await executeDecomposition(controller, encoder, decision, messages, files, fileContext, context);
+          await executeDecomposition(controller, encoder, decision, messages, files, fileContext, models);
         } else {
-          await executeDirectResponse(controller, encoder, messages, files, context);
+          await executeDirectResponse(controller, encoder, messages, files, models);
         }
 
         // Done
@@ -216,7 +328,7 @@ async function executeDelegation(
   messages: ChatMessage[],
   files: { path: string; content?: string }[] | undefined,
   fileContext: string,
-  context: ActionFunctionArgs['context'],
+  models: AgentModels,
 ): Promise<void> {
   if (!decision.targetAgent) {
     throw new Error('No target agent specified');
@@ -245,7 +357,7 @@ async function executeDelegation(
   // Call LLM with agent's prompt and stage-specific timeout
   logger.info(`Calling LLM for agent ${decision.targetAgent} with ${agentMessages.length} messages`);
 
-  const model = getAnthropicModel(getAPIKey(context.cloudflare.env));
+  const { model, maxOutputTokens, onFinish } = models(decision.targetAgent, 32768); // Increased from 16K to 32K for complex code generation
 
   // Stream the agent's response and collect for error detection
   let totalChunks = 0;
@@ -256,8 +368,9 @@ async function executeDelegation(
     const agentResult = await _streamText({
       model,
       system: agentPrompt,
-      maxOutputTokens: 32768, // Increased from 16K to 32K for complex code generation
+      maxOutputTokens,
       messages: agentMessages,
+      onFinish,
     });
 
     for await (const chunk of agentResult.textStream) {
@@ -273,10 +386,10 @@ async function executeDelegation(
   // Run appropriate pipeline based on agent type
   if (CODE_GENERATING_AGENTS.includes(decision.targetAgent)) {
     // Full quality pipeline for code-generating agents: tester → reviewer → fixer
-    await runCodeQualityPipeline(controller, encoder, fullAgentOutput, agentMessages, fileContext, context);
+    await runCodeQualityPipeline(controller, encoder, fullAgentOutput, agentMessages, fileContext, models);
   } else {
     // Simple error detection & auto-fix pipeline for other agents
-    await runAutoFixPipeline(controller, encoder, fullAgentOutput, decision.targetAgent, agentMessages, context);
+    await runAutoFixPipeline(controller, encoder, fullAgentOutput, decision.targetAgent, agentMessages, models);
   }
 }
 
@@ -287,7 +400,7 @@ async function executeDecomposition(
   messages: ChatMessage[],
   files: { path: string; content?: string }[] | undefined,
   fileContext: string,
-  context: ActionFunctionArgs['context'],
+  models: AgentModels,
 ): Promise<void> {
   if (!decision.subtasks) {
     throw new Error('No subtasks specified');
@@ -315,13 +428,14 @@ async function executeDecomposition(
       subtaskPrompt += `\n\n<project_files>\nFichiers disponibles:\n${fileContext}\n</project_files>`;
     }
 
-    const model = getAnthropicModel(getAPIKey(context.cloudflare.env));
+    const { model, maxOutputTokens, onFinish } = models(subtask.agent, 32768); // Increased from 16K to 32K
 
     const subtaskResult = await _streamText({
       model,
       system: subtaskPrompt,
-      maxOutputTokens: 32768, // Increased from 16K to 32K
+      maxOutputTokens,
       messages: [{ role: 'user' as const, content: subtask.task + subtaskContext }],
+      onFinish,
     });
 
     let subtaskOutput = '';
@@ -336,7 +450,7 @@ async function executeDecomposition(
     // Run quality pipeline for code-generating subtasks
     if (CODE_GENERATING_AGENTS.includes(subtask.agent)) {
       const subtaskMessages: ChatMessage[] = [{ role: 'user' as const, content: subtask.task + subtaskContext }];
-      await runCodeQualityPipeline(controller, encoder, subtaskOutput, subtaskMessages, fileContext, context);
+      await runCodeQualityPipeline(controller, encoder, subtaskOutput, subtaskMessages, fileContext, models);
     }
 
     results.push(`[${subtask.agent}]: ${subtaskOutput}`);
@@ -350,7 +464,7 @@ async function executeDirectResponse(
   encoder: TextEncoder,
   messages: ChatMessage[],
   files: { path: string; content?: string }[] | undefined,
-  context: ActionFunctionArgs['context'],
+  models: AgentModels,
 ): Promise<void> {
   sendAgentStatus(controller, encoder, 'orchestrator', 'executing');
 
@@ -373,12 +487,13 @@ async function executeDirectResponse(
     .filter((m) => m.role !== 'system' && m.content && m.content.trim() !== '')
     .map((m) => ({ role: m.role as 'user' | 'assistant', content: m.content }));
 
-  const model = getAnthropicModel(getAPIKey(context.cloudflare.env));
+  const { model, maxOutputTokens, onFinish } = models('orchestrator', 32768); // Increased from 16K to 32K
   const directResult = await _streamText({
     model,
     system: directPrompt,
-    maxOutputTokens: 32768, // Increased from 16K to 32K
+    maxOutputTokens,
     messages: filteredMessages,
+    onFinish,
   });
 
   for await (const chunk of directResult.textStream) {
@@ -421,11 +536,10 @@ async function runCodeQualityPipeline(
   coderOutput: string,
   agentMessages: ChatMessage[],
   fileContext: string,
-  context: ActionFunctionArgs['context'],
+  models: AgentModels,
 ): Promise<void> {
   logger.info('Starting code quality pipeline (tester → reviewer → fixer)');
 
-  const model = getAnthropicModel(getAPIKey(context.cloudflare.env));
   const allIssues: QualityIssue[] = [];
 
   /*
@@ -458,15 +572,17 @@ Réponds avec:
 
 Sois concis et précis.`;
 
+  const tester = models('tester', 8192); // Increased from 4K to 8K for more detailed analysis
   const testerResult = await _streamText({
-    model,
+    model: tester.model,
     system: testerPrompt,
-    maxOutputTokens: 8192, // Increased from 4K to 8K for more detailed analysis
+    maxOutputTokens: tester.maxOutputTokens,
     messages: [
       ...agentMessages,
       { role: 'assistant' as const, content: coderOutput },
       { role: 'user' as const, content: testerRequest },
     ],
+    onFinish: tester.onFinish,
   });
 
   let testerOutput = '';
@@ -519,15 +635,17 @@ Réponds avec:
 
 Sois concis et actionnable.`;
 
+  const reviewer = models('reviewer', 8192); // Increased from 4K to 8K for more complete reviews
   const reviewerResult = await _streamText({
-    model,
+    model: reviewer.model,
     system: reviewerPrompt,
-    maxOutputTokens: 8192, // Increased from 4K to 8K for more complete reviews
+    maxOutputTokens: reviewer.maxOutputTokens,
     messages: [
       ...agentMessages,
       { role: 'assistant' as const, content: coderOutput },
       { role: 'user' as const, content: reviewerRequest },
     ],
+    onFinish: reviewer.onFinish,
   });
 
   let reviewerOutput = '';
@@ -565,15 +683,17 @@ Sois concis et actionnable.`;
 
     const fixerPrompt = buildQualityFixerPrompt(testerOutput, reviewerOutput, fixableIssues);
 
+    const fixer = models('fixer', 32768); // Increased from 16K to 32K for complete fixes
     const fixerResult = await _streamText({
-      model,
+      model: fixer.model,
       system: getAgentSystemPrompt('fixer'),
-      maxOutputTokens: 32768, // Increased from 16K to 32K for complete fixes
+      maxOutputTokens: fixer.maxOutputTokens,
       messages: [
         ...agentMessages,
         { role: 'assistant' as const, content: coderOutput },
         { role: 'user' as const, content: fixerPrompt },
       ],
+      onFinish: fixer.onFinish,
     });
 
     for await (const chunk of fixerResult.textStream) {
@@ -738,7 +858,7 @@ async function runAutoFixPipeline(
   fullAgentOutput: string,
   sourceAgent: string,
   agentMessages: ChatMessage[],
-  context: ActionFunctionArgs['context'],
+  models: AgentModels,
 ): Promise<void> {
   const errors = detectErrorsInOutput(fullAgentOutput);
 
@@ -752,15 +872,16 @@ async function runAutoFixPipeline(
   sendText(controller, encoder, '\n\n---\n\n⚠️ **Erreurs détectées, correction automatique avec vérification en cours...**\n\n');
   sendAgentStatus(controller, encoder, 'fixer', 'executing');
 
-  const fixerModel = getAnthropicModel(getAPIKey(context.cloudflare.env));
+  const fixer = models('fixer', 32768);
 
   // Define the fixer function for the verification loop
   const runFixer = async (prompt: string, messages: ChatMessage[]): Promise<string> => {
     const fixerResult = await _streamText({
-      model: fixerModel,
+      model: fixer.model,
       system: getAgentSystemPrompt('fixer'),
-      maxOutputTokens: 32768,
+      maxOutputTokens: fixer.maxOutputTokens,
       messages,
+      onFinish: fixer.onFinish,
     });
 
     let output = '';
@@ -851,6 +972,17 @@ function handleStreamError(
       ? error.message
       : 'Unknown error';
 
+  // A used up budget is not a failure of the agent: tell the user why the request stopped
+  if (error instanceof AgentRestrictionError) {
+    logger.info('Agent budget exceeded:', { agent: error.agentType });
+
+    sendText(controller, encoder, `\n\n⏸️ **${error.message}**\n`);
+    sendAgentStatus(controller, encoder, 'orchestrator', 'completed');
+    sendDone(controller, encoder);
+
+    return;
+  }
+
   logger.error('Agent error:', { message: errorMessage, isTimeout });
 
   sendError(controller, encoder, errorMessage);
@@ -1,6 +1,6 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
 import { z } from 'zod';
-import { MAX_RESPONSE_SEGMENTS, MAX_TOKENS } from '~/lib/.server/llm/constants';
+import { MAX_RESPONSE_SEGMENTS, getMaxTokens } from '~/lib/.server/llm/constants';
 import { CONTINUE_PROMPT } from '~/lib/.server/llm/prompts';
 import {
   streamText,
@@ -11,6 +11,7 @@ import {
 } from '~/lib/.server/llm/stream-text';
 import SwitchableStream from '~/lib/.server/llm/switchable-stream';
 import { createScopedLogger } from '~/utils/logger';
+import { MAX_PROJECT_SKILLS } from '~/lib/skills';
 import { handleRouteError } from '~/lib/errors/error-handler';
 import { withRateLimit } from '~/lib/security/rate-limiter';
 import { createStreamingResponse } from '~/lib/api/cache-headers';
@@ -20,12 +21,23 @@ import {
   getContextStats,
   type ContextManagerConfig,
 } from '~/lib/.server/llm/context-manager';
+import {
+  getModelLimits,
+  getUsableContextTokens,
+  llmConfigSchema,
+  resolveModelSelection,
+  type LLMConfig,
+} from '~/lib/llm';
+import type { TokenUsage } from '~/lib/usage';
 
 /**
  * Convert an AsyncIterable text stream to a ReadableStream in AI SDK format
- * Format: 0:"text chunk"\n for each chunk
+ * Format: 0:"text chunk"\n for each chunk, then the optional trailer lines
  */
-function textStreamToReadable(textStream: AsyncIterable<string>): ReadableStream<Uint8Array> {
+function textStreamToReadable(
+  textStream: AsyncIterable<string>,
+  getTrailer?: () => string | undefined,
+): ReadableStream<Uint8Array> {
   const encoder = new TextEncoder();
   return new ReadableStream({
     async start(controller) {
@@ -34,6 +46,13 @@ function textStreamToReadable(textStream: AsyncIterable<string>): ReadableStream
           // Format as AI SDK stream: 0:"text"\n
           controller.enqueue(encoder.encode(`0:${JSON.stringify(chunk)}\n`));
         }
+
+        const trailer = getTrailer?.();
+
+        if (trailer) {
+          controller.enqueue(encoder.encode(trailer));
+        }
+
         controller.close();
       } catch (error) {
         controller.error(error);
@@ -42,21 +61,47 @@ function textStreamToReadable(textStream: AsyncIterable<string>): ReadableStream
   });
 }
 
+/**
+ * Ligne de données (format AI SDK `d:`) avec les tokens consommés, comptabilisés
+ * par le client sous la source `chat`
+ */
+function formatUsageLine(usage: TokenUsage, model: string): string {
+  return `d:${JSON.stringify({ usage, model, source: 'chat' })}\n`;
+}
+
 const logger = createScopedLogger('api.chat');
 
 /**
  * Configuration du context manager
  */
 const CONTEXT_CONFIG: ContextManagerConfig = {
-  maxTokens: 180000, // Claude 3.5 Sonnet limit avec marge
   threshold: 0.8, // Résumer à 80% d'utilisation
   minRecentMessages: 10, // Garder les 10 derniers messages
 };
 
+/**
+ * Configuration du context manager adaptée au modèle utilisé
+ * (fenêtre de contexte et tokenizer)
+ */
+function getContextConfig(llm?: LLMConfig): ContextManagerConfig {
+  const selection = resolveModelSelection(llm);
+
+  return {
+    ...CONTEXT_CONFIG,
+    maxTokens: getUsableContextTokens(selection),
+    encoding: getModelLimits(selection).tokenizer,
+  };
+}
+
 /**
  * Fonction de summarization utilisant le LLM
  */
-async function summarizeWithLLM(prompt: string, env: Env): Promise<string> {
+async function summarizeWithLLM(
+  prompt: string,
+  env: Env,
+  llm?: LLMConfig,
+  onUsage?: StreamingOptions['onUsage'],
+): Promise<string> {
   const summaryMessages: Messages = [
     {
       role: 'user',
@@ -69,6 +114,8 @@ async function summarizeWithLLM(prompt: string, env: Env): Promise<string> {
 
   const result = await streamText(summaryMessages, env, {
     toolChoice: 'none',
+    llm,
+    onUsage,
   });
 
   for await (const chunk of result.textStream) {
@@ -125,7 +172,7 @@ Tu es un assistant intelligent et amical. Réponds naturellement à la question
  * Traite en mode Chat (analyse sans modification)
  * Utilise le LLM pour des réponses conversationnelles sans génération de code
  */
-async function handleChatMode(messages: Messages, env: Env): Promise<Response> {
+async function handleChatMode(messages: Messages, env: Env, llm?: LLMConfig): Promise<Response> {
   try {
     // Ajouter le system prompt pour le mode chat
     const chatMessages: Messages = [
@@ -135,12 +182,18 @@ async function handleChatMode(messages: Messages, env: Env): Promise<Response> {
 
     logger.debug('Chat mode: calling LLM with system prompt');
 
+    let usageLine: string | undefined;
+
     const result = await streamText(chatMessages, env, {
       toolChoice: 'none', // Pas d'outils en mode chat
+      llm,
+      onUsage: (usage, model) => {
+        usageLine = formatUsageLine(usage, model);
+      },
     });
 
-    // Créer le stream de réponse
-    const responseStream = textStreamToReadable(result.textStream);
+    // Créer le stream de réponse (onUsage est appelé avant la fin du texte)
+    const responseStream = textStreamToReadable(result.textStream, () => usageLine);
 
     return new Response(responseStream, {
       status: 200,
@@ -255,6 +308,14 @@ const MAX_REQUEST_BODY_SIZE = 10 * 1024 * 1024;
  */
 const MAX_MESSAGE_CONTENT_SIZE = 500 * 1024;
 
+/**
+ * Zod schema for a SKILL.md file of the user's project
+ */
+const skillFileSchema = z.object({
+  path: z.string().max(1024),
+  content: z.string().max(MAX_MESSAGE_CONTENT_SIZE),
+});
+
 /**
  * Zod schema for design guidelines options
  */
@@ -283,6 +344,8 @@ const ChatRequestBodySchema = z.object({
   continuationContext: ContinuationContextSchema.optional(),
   multiAgent: z.boolean().optional().default(false),
   designGuidelines: DesignGuidelinesSchema,
+  llm: llmConfigSchema,
+  skills: z.array(skillFileSchema).max(MAX_PROJECT_SKILLS, 'Trop de skills').optional(),
 });
 
 type ChatRequestBody = z.infer<typeof ChatRequestBodySchema>;
@@ -363,6 +426,9 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
   }
 
   const { messages, mode, context: agentContext, continuationContext, multiAgent, designGuidelines } = parseResult.data;
+  const llm = parseResult.data.llm as LLMConfig | undefined;
+  const skills = parseResult.data.skills;
+  const contextConfig = getContextConfig(llm);
 
   logger.debug(`Chat mode: ${mode}, Multi-Agent: ${multiAgent}, Design Guidelines: ${designGuidelines?.enabled ?? 'default'} (${designGuidelines?.level ?? 'standard'})`);
 
@@ -411,18 +477,24 @@ Sois méthodique et explicite sur chaque action que tu entreprends.`,
 
   // Mode Chat : analyse seule, pas de modifications
   if (mode === 'chat') {
-    return handleChatMode(messages, context.cloudflare.env);
+    return handleChatMode(messages, context.cloudflare.env, llm);
   }
 
   // Mode 'agent' - comportement existant avec streaming
   const stream = new SwitchableStream();
+  const encoder = new TextEncoder();
+
+  // Chaque appel (résumé, réponse, continuations) envoie ses tokens au client
+  const onUsage: StreamingOptions['onUsage'] = (usage, model) => {
+    stream.enqueue(encoder.encode(formatUsageLine(usage, model)));
+  };
 
   try {
     /*
      * Context Management: Vérifier et résumer si nécessaire
      * Cela permet des conversations "infinies" sans dépasser la limite de contexte
      */
-    const contextAnalysis = analyzeContext(messages, CONTEXT_CONFIG);
+    const contextAnalysis = analyzeContext(messages, contextConfig);
 
     logger.debug(
       `Context analysis: ${contextAnalysis.totalTokens} tokens (${contextAnalysis.usagePercent.toFixed(1)}%), ` +
@@ -444,8 +516,8 @@ Sois méthodique et explicite sur chaque action que tu entreprends.`,
         analysis: newAnalysis,
       } = await prepareMessagesForLLM(
         messages,
-        (prompt) => summarizeWithLLM(prompt, context.cloudflare.env),
-        CONTEXT_CONFIG,
+        (prompt) => summarizeWithLLM(prompt, context.cloudflare.env, llm, onUsage),
+        contextConfig,
       );
 
       if (wasSummarized) {
@@ -470,6 +542,11 @@ Sois méthodique et explicite sur chaque action que tu entreprends.`,
       enableWebSearch: webSearchEnabled,
       // Design guidelines injection (auto-detected for UI requests)
       designGuidelines: designGuidelines as DesignGuidelinesOptions,
+
+      // Skills du projet (.bavini/skills/*/SKILL.md), sélectionnés par requête ou invoqués avec /nom
+      skills,
+      llm,
+      onUsage,
       onFinish: async ({ text: content, finishReason }) => {
         // Continuer si max tokens atteint
         if (finishReason === 'length') {
@@ -479,7 +556,9 @@ Sois méthodique et explicite sur chaque action que tu entreprends.`,
 
           const switchesLeft = MAX_RESPONSE_SEGMENTS - stream.switches;
 
-          logger.info(`Reached max token limit (${MAX_TOKENS}): Continuing message (${switchesLeft} switches left)`);
+          logger.info(
+            `Reached max token limit (${getMaxTokens(resolveModelSelection(llm))}): Continuing message (${switchesLeft} switches left)`,
+          );
 
           processedMessages.push({ role: 'assistant', content });
           processedMessages.push({ role: 'user', content: CONTINUE_PROMPT });
@@ -498,7 +577,7 @@ Sois méthodique et explicite sur chaque action que tu entreprends.`,
     stream.switchSource(textStreamToReadable(result.textStream));
 
     // Ajouter les stats de contexte dans les headers (pour le client)
-    const stats = getContextStats(processedMessages);
+    const stats = getContextStats(processedMessages, contextConfig);
 
     return new Response(stream.readable, {
       status: 200,
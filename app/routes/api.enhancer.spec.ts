@@ -114,6 +114,7 @@ describe('api.enhancer', () => {
           }),
         ]),
         context.cloudflare.env,
+        { llm: undefined },
       );
     });
 
@@ -149,6 +150,7 @@ describe('api.enhancer', () => {
           }),
         ]),
         expect.anything(),
+        expect.anything(),
       );
     });
 
@@ -183,6 +185,7 @@ describe('api.enhancer', () => {
           }),
         ]),
         expect.anything(),
+        expect.anything(),
       );
     });
 
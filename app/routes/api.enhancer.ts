@@ -4,6 +4,7 @@ import { stripIndents } from '~/utils/stripIndent';
 import { createScopedLogger } from '~/utils/logger';
 import { handleRouteError } from '~/lib/errors/error-handler';
 import { withRateLimit } from '~/lib/security/rate-limiter';
+import type { LLMConfig } from '~/lib/llm';
 
 const logger = createScopedLogger('api.enhancer');
 
@@ -13,7 +14,7 @@ export async function action(args: ActionFunctionArgs) {
 }
 
 async function enhancerAction({ context, request }: ActionFunctionArgs) {
-  const { message } = await request.json<{ message: string }>();
+  const { message, llm } = await request.json<{ message: string; llm?: LLMConfig }>();
 
   try {
     const result = await streamText(
@@ -32,6 +33,7 @@ async function enhancerAction({ context, request }: ActionFunctionArgs) {
         },
       ],
       context.cloudflare.env,
+      { llm },
     );
 
     // Use textStream directly and create a simple text response
@@ -1,4 +1,4 @@
-export type ActionType = 'file' | 'shell' | 'git' | 'python' | 'github' | 'restart';
+export type ActionType = 'file' | 'patch' | 'shell' | 'git' | 'python' | 'github' | 'restart';
 
 export type GitOperation = 'clone' | 'commit' | 'push' | 'pull' | 'init' | 'add' | 'status';
 
@@ -13,6 +13,14 @@ export interface FileAction extends BaseAction {
   filePath: string;
 }
 
+/**
+ * Edit of an existing file: search/replace blocks or unified diff hunks
+ */
+export interface PatchAction extends BaseAction {
+  type: 'patch';
+  filePath: string;
+}
+
 export interface ShellAction extends BaseAction {
   type: 'shell';
 }
@@ -50,6 +58,13 @@ export interface RestartAction extends BaseAction {
   type: 'restart';
 }
 
-export type BoltAction = FileAction | ShellAction | GitAction | PythonAction | GitHubAction | RestartAction;
+export type BoltAction =
+  | FileAction
+  | PatchAction
+  | ShellAction
+  | GitAction
+  | PythonAction
+  | GitHubAction
+  | RestartAction;
 
 export type BoltActionData = BoltAction | BaseAction;
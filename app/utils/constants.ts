@@ -1,3 +1,4 @@
 export const WORK_DIR_NAME = 'project';
 export const WORK_DIR = `/home/${WORK_DIR_NAME}`;
 export const MODIFICATIONS_TAG_NAME = 'bolt_file_modifications';
+export const ACTION_FAILURES_TAG_NAME = 'bolt_action_failures';
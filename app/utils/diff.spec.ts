@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { diffFiles, computeFileModifications, fileModificationsToHTML, modificationsRegex } from './diff';
+import {
+  diffFiles,
+  computeFileModifications,
+  fileModificationsToHTML,
+  modificationsRegex,
+  actionFailuresToHTML,
+  actionFailuresRegex,
+} from './diff';
 import type { FileMap } from '~/lib/stores/files';
 
 describe('diff utilities', () => {
@@ -230,6 +237,23 @@ describe('diff utilities', () => {
     });
   });
 
+  describe('actionFailuresToHTML', () => {
+    it('should return undefined without failures', () => {
+      expect(actionFailuresToHTML([])).toBeUndefined();
+    });
+
+    it('should list each failure with its path, and be stripped by actionFailuresRegex', () => {
+      const result = actionFailuresToHTML([
+        { type: 'patch', filePath: 'src/a.ts', error: "Le bloc 1 ne s'applique pas" },
+      ]);
+
+      expect(result).toBe(
+        '<bolt_action_failures>\n<failure type="patch" path="src/a.ts">\nLe bloc 1 ne s\'applique pas\n</failure>\n</bolt_action_failures>',
+      );
+      expect(`${result}\n\nmessage`.replace(actionFailuresRegex, '')).toBe('message');
+    });
+  });
+
   describe('modificationsRegex', () => {
     it('should match bolt_file_modifications tags', () => {
       const text = '<bolt_file_modifications>\n<diff path="/test.js">+line</diff>\n</bolt_file_modifications> rest';
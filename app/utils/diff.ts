@@ -1,12 +1,17 @@
 import { createTwoFilesPatch } from 'diff';
 import type { FileMap } from '~/lib/stores/files';
-import { MODIFICATIONS_TAG_NAME } from './constants';
+import { ACTION_FAILURES_TAG_NAME, MODIFICATIONS_TAG_NAME } from './constants';
 
 export const modificationsRegex = new RegExp(
   `^<${MODIFICATIONS_TAG_NAME}>[\\s\\S]*?<\\/${MODIFICATIONS_TAG_NAME}>\\s+`,
   'g',
 );
 
+export const actionFailuresRegex = new RegExp(
+  `^<${ACTION_FAILURES_TAG_NAME}>[\\s\\S]*?<\\/${ACTION_FAILURES_TAG_NAME}>\\s+`,
+  'g',
+);
+
 interface ModifiedFile {
   type: 'diff' | 'file';
   content: string;
@@ -106,3 +111,43 @@ export function fileModificationsToHTML(modifications: FileModifications) {
 
   return result.join('\n');
 }
+
+/**
+ * An action of the previous answer that failed (e.g. a patch that did not apply)
+ */
+export interface ActionFailure {
+  type: string;
+  filePath?: string;
+  error: string;
+}
+
+/**
+ * Converts failed actions to HTML, sent back to the llm with the next message.
+ *
+ * Example:
+ *
+ * ```html
+ * <bolt_action_failures>
+ * <failure type="patch" path="src/App.tsx">
+ * Le hunk 1 (@@ -3,4 +3,5 @@) ne s'applique pas : ...
+ * </failure>
+ * </bolt_action_failures>
+ * ```
+ */
+export function actionFailuresToHTML(failures: ActionFailure[]) {
+  if (failures.length === 0) {
+    return undefined;
+  }
+
+  const result: string[] = [`<${ACTION_FAILURES_TAG_NAME}>`];
+
+  for (const { type, filePath, error } of failures) {
+    const path = filePath ? ` path=${JSON.stringify(filePath)}` : '';
+
+    result.push(`<failure type=${JSON.stringify(type)}${path}>`, error, '</failure>');
+  }
+
+  result.push(`</${ACTION_FAILURES_TAG_NAME}>`);
+
+  return result.join('\n');
+}
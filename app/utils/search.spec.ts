@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { FileMap } from '~/lib/stores/browser-files';
+import { previewReplacement, replaceInContent, searchFiles, type SearchOptions } from './search';
+
+const files: FileMap = {
+  '/home/project/src': { type: 'folder' },
+  '/home/project/src/App.tsx': {
+    type: 'file',
+    content: 'import { Button } from "./Button";\n\nexport const App = () => <Button label="App" />;\n',
+    isBinary: false,
+  },
+  '/home/project/src/Button.tsx': {
+    type: 'file',
+    content: 'export function Button({ label }: { label: string }) {\r\n  return <button>{label}</button>;\r\n}\r\n',
+    isBinary: false,
+  },
+  '/home/project/src/Button.spec.tsx': { type: 'file', content: 'Button', isBinary: false },
+  '/home/project/node_modules/lib/index.js': { type: 'file', content: 'Button', isBinary: false },
+  '/home/project/logo.png': { type: 'file', content: 'Button', isBinary: true },
+};
+
+const options = (overrides: Partial<SearchOptions>): SearchOptions => ({
+  query: '',
+  isRegex: false,
+  caseSensitive: false,
+  wholeWord: false,
+  ...overrides,
+});
+
+describe('searchFiles', () => {
+  it('should group matches by file with their line and column', () => {
+    const results = searchFiles(files, options({ query: 'button', caseSensitive: false }));
+
+    expect(results.files.map(({ filePath }) => filePath)).toEqual([
+      '/home/project/src/App.tsx',
+      '/home/project/src/Button.spec.tsx',
+      '/home/project/src/Button.tsx',
+    ]);
+    expect(results.files[2].matches).toEqual([
+      expect.objectContaining({ line: 1, column: 16, length: 6 }),
+      expect.objectContaining({
+        line: 2,
+        column: 10,
+        length: 6,
+        lineText: '  return <button>{label}</button>;',
+      }),
+      expect.objectContaining({ line: 2, column: 26 }),
+    ]);
+    expect(results.matchCount).toBe(7);
+  });
+
+  it('should apply the case, whole word and regex options', () => {
+    expect(searchFiles(files, options({ query: 'button', caseSensitive: true })).matchCount).toBe(2);
+    expect(searchFiles(files, options({ query: 'App', wholeWord: true })).matchCount).toBe(2);
+    expect(searchFiles(files, options({ query: 'label="(\\w+)"', isRegex: true })).matchCount).toBe(1);
+    expect(() => searchFiles(files, options({ query: '(', isRegex: true }))).toThrow(SyntaxError);
+  });
+
+  it('should filter files with include and exclude globs', () => {
+    const search = (include: string, exclude: string) =>
+      searchFiles(files, options({ query: 'Button', include, exclude })).files.map(({ filePath }) => filePath);
+
+    expect(search('src/', '*.spec.tsx')).toEqual(['/home/project/src/App.tsx', '/home/project/src/Button.tsx']);
+    expect(search('Button*', '')).toEqual(['/home/project/src/Button.spec.tsx', '/home/project/src/Button.tsx']);
+  });
+});
+
+describe('replaceInContent', () => {
+  it('should replace literally or with regex groups', () => {
+    const content = 'const a = $b; const c = $b;';
+
+    expect(replaceInContent(content, options({ query: '$b' }), '$&x')).toBe('const a = $&x; const c = $&x;');
+    expect(replaceInContent(content, options({ query: 'const (\\w)', isRegex: true }), 'let $1')).toBe(
+      'let a = $b; let c = $b;',
+    );
+  });
+
+  it('should preview the replacement of one match', () => {
+    const [file] = searchFiles(files, options({ query: 'label="(\\w+)"', isRegex: true })).files;
+
+    expect(previewReplacement(file.matches[0], options({ query: 'label="(\\w+)"', isRegex: true }), 'title="$1"')).toBe(
+      'title="App"',
+    );
+  });
+});
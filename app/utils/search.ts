@@ -0,0 +1,199 @@
+import { globToRegExp } from '~/lib/runtime/filesystem';
+import type { FileMap } from '~/lib/stores/browser-files';
+import { WORK_DIR } from './constants';
+
+export interface SearchOptions {
+  query: string;
+  isRegex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+
+  /** Comma-separated globs relative to the project, all files when empty */
+  include?: string;
+
+  /** Comma-separated globs relative to the project */
+  exclude?: string;
+}
+
+export interface SearchMatch {
+  /** 1-based line number */
+  line: number;
+
+  /** 0-based column of the match in the line */
+  column: number;
+  length: number;
+
+  /** Text of the line */
+  lineText: string;
+}
+
+export interface SearchFileResult {
+  filePath: string;
+  matches: SearchMatch[];
+}
+
+export interface SearchResults {
+  files: SearchFileResult[];
+  matchCount: number;
+
+  /** The search stopped at the limit of matches */
+  truncated: boolean;
+}
+
+/**
+ * Folders never searched, like the agents' grep tool
+ */
+const IGNORED_FOLDERS = ['node_modules', '.git', 'dist', 'build'];
+
+const MAX_MATCHES = 5000;
+
+/**
+ * Regular expression of a search, throws a SyntaxError for an invalid regex query
+ */
+export function createSearchRegex(options: SearchOptions): RegExp {
+  let source = options.isRegex ? options.query : options.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+  if (options.wholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+
+  return new RegExp(source, options.caseSensitive ? 'gm' : 'gim');
+}
+
+/**
+ * Search the text files of the project
+ */
+export function searchFiles(files: FileMap, options: SearchOptions, maxMatches = MAX_MATCHES): SearchResults {
+  const results: SearchResults = { files: [], matchCount: 0, truncated: false };
+
+  if (!options.query) {
+    return results;
+  }
+
+  const regex = createSearchRegex(options);
+  const include = parseGlobs(options.include);
+  const exclude = parseGlobs(options.exclude);
+
+  for (const [filePath, dirent] of Object.entries(files).sort(([a], [b]) => a.localeCompare(b))) {
+    if (dirent?.type !== 'file' || dirent.isBinary || !isSearched(filePath, include, exclude)) {
+      continue;
+    }
+
+    const matches = searchContent(dirent.content, regex, maxMatches - results.matchCount);
+
+    if (matches.length > 0) {
+      results.files.push({ filePath, matches });
+      results.matchCount += matches.length;
+    }
+
+    if (results.matchCount >= maxMatches) {
+      results.truncated = true;
+      break;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Replace every match of a search in a content. The replacement may use $1,
+ * $<name>... in regex mode and is literal otherwise.
+ */
+export function replaceInContent(content: string, options: SearchOptions, replacement: string): string {
+  const regex = createSearchRegex(options);
+
+  if (!options.isRegex) {
+    return content.replace(regex, () => replacement);
+  }
+
+  return content.replace(regex, replacement);
+}
+
+/**
+ * Text replacing one match, for the preview
+ */
+export function previewReplacement(match: SearchMatch, options: SearchOptions, replacement: string): string {
+  const text = match.lineText.substring(match.column, match.column + match.length);
+
+  if (!options.isRegex) {
+    return replacement;
+  }
+
+  // Run the regex on the whole line so anchors and lookarounds behave as in the replace
+  const regex = createSearchRegex(options);
+
+  regex.lastIndex = match.column;
+
+  const found = regex.exec(match.lineText);
+
+  return found && found.index === match.column ? found[0].replace(createSearchRegex(options), replacement) : text;
+}
+
+function searchContent(content: string, regex: RegExp, limit: number): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  const lineStarts = [0];
+
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) {
+    lineStarts.push(i + 1);
+  }
+
+  regex.lastIndex = 0;
+
+  let line = 0;
+
+  for (let found = regex.exec(content); found && matches.length < limit; found = regex.exec(content)) {
+    // Empty matches (e.g. ^) would loop forever
+    if (found[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= found.index) {
+      line++;
+    }
+
+    const lineEnd = line + 1 < lineStarts.length ? lineStarts[line + 1] - 1 : content.length;
+    const lineText = content.substring(lineStarts[line], lineEnd).replace(/\r$/, '');
+    const column = found.index - lineStarts[line];
+
+    matches.push({
+      line: line + 1,
+      column,
+      length: Math.min(found[0].length, lineText.length - column),
+      lineText,
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Globs of a comma-separated list, a pattern without a slash matches at any depth
+ */
+function parseGlobs(list?: string): RegExp[] {
+  return (list ?? '')
+    .split(',')
+    .map((pattern) => pattern.trim().replace(/^\.?\//, ''))
+    .filter(Boolean)
+    .flatMap((pattern) => {
+      const glob = pattern.includes('/') ? pattern : `**/${pattern}`;
+
+      // A folder pattern also matches what it contains
+      return [globToRegExp(glob, { dot: true }), globToRegExp(`${glob.replace(/\/$/, '')}/**`, { dot: true })];
+    });
+}
+
+function isSearched(filePath: string, include: RegExp[], exclude: RegExp[]): boolean {
+  const relativePath = filePath.startsWith(`${WORK_DIR}/`) ? filePath.substring(WORK_DIR.length + 1) : filePath;
+  const segments = relativePath.split('/');
+
+  if (segments.some((segment) => IGNORED_FOLDERS.includes(segment))) {
+    return false;
+  }
+
+  if (include.length > 0 && !include.some((glob) => glob.test(relativePath))) {
+    return false;
+  }
+
+  return !exclude.some((glob) => glob.test(relativePath));
+}
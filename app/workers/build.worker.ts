@@ -55,6 +55,7 @@ export interface BuildPayload {
   options: {
     minify: boolean;
     sourcemap: boolean;
+    splitting: boolean;
     mode: 'development' | 'production';
     define?: Record<string, string>;
   };
@@ -71,6 +72,10 @@ export interface BuildWorkerResponse {
   result?: {
     code: string;
     css: string;
+
+    /** Chunks of a split bundle, by path relative to the entry */
+    chunks: Record<string, string>;
+    metafile?: esbuild.Metafile;
     errors: BuildErrorInfo[];
     warnings: BuildWarningInfo[];
     buildTime: number;
@@ -403,6 +408,9 @@ async function executeBuild(payload: BuildPayload): Promise<BuildWorkerResponse[
     target: 'es2020',
     minify: payload.options.minify,
     sourcemap: payload.options.sourcemap ? 'inline' : false,
+    splitting: payload.options.splitting,
+    chunkNames: 'chunks/[name]-[hash]',
+    metafile: true,
     define: {
       'process.env.NODE_ENV': `"${payload.options.mode}"`,
       ...payload.options.define,
@@ -415,12 +423,22 @@ async function executeBuild(payload: BuildPayload): Promise<BuildWorkerResponse[
     logLevel: 'warning',
   });
 
-  // Extract outputs
-  const jsOutput = result.outputFiles?.find((f) => f.path.endsWith('.js') || f.path.includes('stdin'));
-  const cssOutput = result.outputFiles?.find((f) => f.path.endsWith('.css'));
+  // Extract outputs, the chunks of a split bundle are kept by path relative to the entry
+  const outputFiles = result.outputFiles ?? [];
+  const jsOutput = outputFiles.find((f) => f.path.endsWith('/stdin.js'));
+  const chunks: Record<string, string> = {};
+
+  for (const file of outputFiles) {
+    if (file !== jsOutput && file.path.endsWith('.js')) {
+      chunks[file.path.replace(/^\/dist\//, '')] = file.text;
+    }
+  }
 
   const code = jsOutput?.text || '';
-  const css = cssOutput?.text || '';
+  const css = outputFiles
+    .filter((f) => f.path.endsWith('.css'))
+    .map((f) => f.text)
+    .join('\n');
 
   // Convert errors and warnings
   const errors: BuildErrorInfo[] = result.errors.map((e) => ({
@@ -441,6 +459,8 @@ async function executeBuild(payload: BuildPayload): Promise<BuildWorkerResponse[
   return {
     code,
     css,
+    chunks,
+    metafile: result.metafile,
     errors,
     warnings,
     buildTime: performance.now() - startTime,
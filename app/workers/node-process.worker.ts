@@ -0,0 +1,7 @@
+/**
+ * Web Worker running one node process, see lib/runtime/node/worker/process-host.ts
+ */
+
+import { startNodeWorker } from '~/lib/runtime/node/worker/worker-runtime';
+
+startNodeWorker(self as unknown as Parameters<typeof startNodeWorker>[0]);
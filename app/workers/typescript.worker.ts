@@ -0,0 +1,114 @@
+/**
+ * Web Worker pour le language service TypeScript
+ * Diagnostics, types au survol, définitions, renommage et complétions de l'éditeur
+ */
+
+import {
+  TypeScriptLanguageService,
+  type TsCompletions,
+  type TsDiagnostic,
+  type TsHover,
+  type TsLocation,
+  type TsRenameResult,
+} from '~/lib/typescript/language-service';
+
+// Types pour la communication
+export type TypeScriptWorkerRequest = { id: string } & (
+  | { type: 'updateFiles'; payload: { files: Record<string, string | null> } }
+  | { type: 'setPackageTypes'; payload: { files: Record<string, string> } }
+  | { type: 'diagnostics'; payload: { filePath: string } }
+  | { type: 'hover'; payload: { filePath: string; position: number } }
+  | { type: 'definition'; payload: { filePath: string; position: number } }
+  | { type: 'completions'; payload: { filePath: string; position: number } }
+  | { type: 'rename'; payload: { filePath: string; position: number; newName: string } }
+);
+
+export type TypeScriptWorkerResult =
+  | TsDiagnostic[]
+  | TsHover
+  | TsLocation[]
+  | TsCompletions
+  | TsRenameResult
+  | null
+  | undefined;
+
+export interface TypeScriptWorkerResponse {
+  id: string;
+  type: 'success' | 'error';
+  result?: TypeScriptWorkerResult;
+  error?: string;
+}
+
+// Libs par défaut de TypeScript, chargées une fois au démarrage
+const libLoaders = import.meta.glob<string>('/node_modules/typescript/lib/lib.*.d.ts', {
+  query: '?raw',
+  import: 'default',
+});
+
+/**
+ * Charger les libs et créer le language service
+ */
+async function createService(): Promise<TypeScriptLanguageService> {
+  const entries = await Promise.all(
+    Object.entries(libLoaders).map(async ([path, load]) => [path.substring(path.lastIndexOf('/') + 1), await load()]),
+  );
+
+  return new TypeScriptLanguageService(Object.fromEntries(entries));
+}
+
+const servicePromise = createService();
+
+/**
+ * Exécuter une requête
+ */
+function handleRequest(service: TypeScriptLanguageService, request: TypeScriptWorkerRequest): TypeScriptWorkerResult {
+  switch (request.type) {
+    case 'updateFiles':
+      service.updateFiles(request.payload.files);
+      return undefined;
+    case 'setPackageTypes':
+      service.setPackageTypes(request.payload.files);
+      return undefined;
+    case 'diagnostics':
+      return service.getDiagnostics(request.payload.filePath);
+    case 'hover':
+      return service.getHover(request.payload.filePath, request.payload.position);
+    case 'definition':
+      return service.getDefinition(request.payload.filePath, request.payload.position);
+    case 'completions':
+      return service.getCompletions(request.payload.filePath, request.payload.position);
+    case 'rename':
+      return service.getRenameEdits(request.payload.filePath, request.payload.position, request.payload.newName);
+    default:
+      throw new Error(`Unknown message type: ${(request as { type: string }).type}`);
+  }
+}
+
+/**
+ * Envoyer une réponse
+ */
+function sendResponse(response: TypeScriptWorkerResponse): void {
+  self.postMessage(response);
+}
+
+/**
+ * Gestionnaire de messages, les requêtes attendent le chargement des libs
+ */
+self.onmessage = async (event: MessageEvent<TypeScriptWorkerRequest>) => {
+  const { id } = event.data;
+
+  try {
+    const service = await servicePromise;
+
+    sendResponse({ id, type: 'success', result: handleRequest(service, event.data) });
+  } catch (error) {
+    sendResponse({
+      id,
+      type: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Informer que le worker est prêt
+servicePromise.then(() => self.postMessage({ type: 'ready' }));
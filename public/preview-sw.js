@@ -1,6 +1,6 @@
 /**
  * BAVINI Preview Service Worker
- * @version 3.2.0
+ * @version 3.4.0
  *
  * Intercepts requests from the preview iframe and serves content from
  * the Virtual File System (VFS) instead of making real network requests.
@@ -11,11 +11,18 @@
  * - Form inputs
  * - Browser APIs that require same-origin
  *
+ * Requests under /preview/__server__/<port>/ are forwarded to the page that
+ * hosts the runtime, which runs them through the http.Server listening on
+ * that port. Root-relative requests made by such a page (fetch('/api'),
+ * <link href="/style.css">) are sent to the same server.
+ *
  * Uses Cache API for persistence across SW updates.
  */
 
-const SW_VERSION = '3.2.0';
+const SW_VERSION = '3.4.0';
 const PREVIEW_SCOPE = '/preview/';
+const SERVER_SCOPE = `${PREVIEW_SCOPE}__server__/`;
+const SERVER_REQUEST_TIMEOUT = 30000;
 const CDN_URL = 'https://esm.sh';
 const CACHE_NAME = 'bavini-preview-v1';
 
@@ -25,6 +32,10 @@ const fileStore = new Map();
 // Flag to track if we've restored from cache
 let restoredFromCache = false;
 
+// Page running the virtual servers, and the ports they listen on
+let serverHostId = null;
+let serverPorts = new Set();
+
 /**
  * Install event - activate immediately
  */
@@ -99,6 +110,12 @@ self.addEventListener('message', (event) => {
       handleClearFiles();
       break;
 
+    case 'SERVER_PORTS':
+      serverHostId = event.source?.id ?? null;
+      serverPorts = new Set(payload.ports);
+      console.log(`[Preview SW] Server ports: ${payload.ports.join(', ') || 'none'}`);
+      break;
+
     case 'PING':
       event.source?.postMessage({ type: 'PONG', version: SW_VERSION });
       break;
@@ -235,14 +252,149 @@ self.addEventListener('fetch', (event) => {
   console.log(`[Preview SW] Fetch intercepted: ${url.pathname} (mode: ${event.request.mode})`);
 
   if (!url.pathname.startsWith(PREVIEW_SCOPE)) {
+    // Root-relative URLs of a server page (fetch('/api'), /style.css) belong to its server
+    if (url.origin === self.location.origin) {
+      event.respondWith(handleRootRequest(event, url));
+      return;
+    }
+
     console.log(`[Preview SW] Skipping - not in preview scope`);
     return;
   }
 
+  if (url.pathname.startsWith(SERVER_SCOPE)) {
+    event.respondWith(handleServerRequest(event.request, url));
+    return;
+  }
+
   console.log(`[Preview SW] Handling preview request: ${url.pathname}`);
   event.respondWith(handlePreviewRequest(event.request, url));
 });
 
+/**
+ * Get the server port of a /preview/__server__/<port>/ URL, or null
+ */
+function getServerPort(href) {
+  if (!href) {
+    return null;
+  }
+
+  const { origin, pathname } = new URL(href);
+  const match = pathname.startsWith(SERVER_SCOPE) && pathname.slice(SERVER_SCOPE.length).match(/^(\d+)(\/|$)/);
+
+  return origin === self.location.origin && match ? Number(match[1]) : null;
+}
+
+/**
+ * Handle a same-origin request outside the preview scope. Subresource
+ * requests made by a server page go to that server; anything else goes to
+ * the network as before. (Top-level navigations to such URLs are outside
+ * the SW scope and never reach this handler.)
+ */
+async function handleRootRequest(event, url) {
+  const client = event.clientId ? await self.clients.get(event.clientId) : null;
+  const port = getServerPort(client?.url);
+
+  if (port === null) {
+    return fetch(event.request);
+  }
+
+  return forwardToServer(event.request, port, url.pathname + url.search);
+}
+
+/**
+ * Forward a request to the http.Server listening on the port in the URL
+ */
+async function handleServerRequest(request, url) {
+  const match = url.pathname.slice(SERVER_SCOPE.length).match(/^(\d+)(\/.*)?$/);
+
+  if (!match) {
+    return textResponse(400, 'Bad Request', `Invalid server URL: ${url.pathname}`);
+  }
+
+  // /preview/__server__/3000 -> /preview/__server__/3000/ so relative URLs resolve
+  if (!match[2]) {
+    return Response.redirect(`${url.pathname}/${url.search}`, 302);
+  }
+
+  return forwardToServer(request, Number(match[1]), match[2] + url.search);
+}
+
+/**
+ * Send a request to the page hosting the runtime and build the response of
+ * the virtual server
+ */
+async function forwardToServer(request, port, path) {
+  const client = serverHostId ? await self.clients.get(serverHostId) : null;
+
+  if (!client || !serverPorts.has(port)) {
+    return textResponse(502, 'Bad Gateway', `No server listening on port ${port}`);
+  }
+
+  const headers = {};
+  request.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+  const body = hasBody ? new Uint8Array(await request.arrayBuffer()) : undefined;
+
+  const response = await new Promise((resolve) => {
+    const channel = new MessageChannel();
+    const timeout = setTimeout(() => {
+      channel.port1.close();
+      resolve(null);
+    }, SERVER_REQUEST_TIMEOUT);
+
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timeout);
+      channel.port1.close();
+      resolve(event.data?.payload ?? null);
+    };
+
+    client.postMessage(
+      {
+        type: 'HTTP_REQUEST',
+        payload: { port, method: request.method, url: path, headers, body },
+      },
+      [channel.port2],
+    );
+  });
+
+  if (!response) {
+    return textResponse(504, 'Gateway Timeout', `Server on port ${port} did not respond`);
+  }
+
+  // Null-body statuses cannot carry a body
+  const nullBody = [101, 204, 205, 304].includes(response.status) || request.method === 'HEAD';
+
+  // Repeated headers arrive as arrays; each value is appended separately
+  const responseHeaders = new Headers();
+
+  for (const [name, value] of Object.entries(response.headers)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      responseHeaders.append(name, item);
+    }
+  }
+
+  return new Response(nullBody ? null : response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: responseHeaders,
+  });
+}
+
+/**
+ * Create a plain text response
+ */
+function textResponse(status, statusText, text) {
+  return new Response(text, {
+    status,
+    statusText,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+}
+
 /**
  * Handle preview request
  */
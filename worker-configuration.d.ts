@@ -16,6 +16,15 @@ interface Env {
   /** Anthropic API key for Claude models */
   ANTHROPIC_API_KEY: string;
 
+  /** Base URL of an OpenAI-compatible API (OpenAI, Ollama, LM Studio...) */
+  OPENAI_COMPATIBLE_BASE_URL?: string;
+
+  /** API key for the OpenAI-compatible endpoint */
+  OPENAI_COMPATIBLE_API_KEY?: string;
+
+  /** Comma-separated hosts a client-supplied OpenAI-compatible base URL may target over HTTP (e.g. localhost:11434) */
+  OPENAI_COMPATIBLE_ALLOWED_HOSTS?: string;
+
   // ===========================================================================
   // KV Namespaces
   // ===========================================================================